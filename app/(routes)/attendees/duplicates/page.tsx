@@ -0,0 +1,204 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import Link from 'next/link'
+import { ArrowLeftIcon, DocumentDuplicateIcon } from '@heroicons/react/24/outline'
+import { Icon } from '@/components/ui/Icon'
+import { TabNavigation } from '@/components/layout/TabNavigation'
+import { SelectionProvider } from '@/lib/context/SelectionContext'
+import { AttendeeMergeDialog } from '@/components/features/attendees/AttendeeMergeDialog'
+import { MergeResultsDialog } from '@/components/features/ai-enrichment/MergeResultsDialog'
+import { fetchAllAttendees, findDuplicateCandidates, DuplicateCandidate, MergeResult } from '@/lib/attendeeDedup'
+import type { Attendee } from '@/types'
+
+export default function AttendeeDuplicatesPage() {
+  const [attendees, setAttendees] = useState<Attendee[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [minScore, setMinScore] = useState(60)
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set())
+  const [mergeCandidate, setMergeCandidate] = useState<DuplicateCandidate | null>(null)
+  const [mergeResults, setMergeResults] = useState<MergeResult[]>([])
+  const [showMergeResults, setShowMergeResults] = useState(false)
+
+  // Define tabs for navigation
+  const tabs = [
+    { id: 'attendees', label: 'Attendees', href: '/attendees' },
+    { id: 'health-systems', label: 'Health Systems', href: '/health-systems' },
+    { id: 'conferences', label: 'Conferences', href: '/conferences' },
+  ]
+
+  const loadAttendees = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      setAttendees(await fetchAllAttendees())
+    } catch (err) {
+      console.error('Error loading attendees for duplicate check:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load attendees')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadAttendees()
+  }, [loadAttendees])
+
+  const candidates = useMemo(
+    () => findDuplicateCandidates(attendees, minScore).filter(candidate => !dismissed.has(candidate.key)),
+    [attendees, minScore, dismissed]
+  )
+
+  const mergeSelection = useMemo(
+    () => mergeCandidate ? [...mergeCandidate.attendees] : [],
+    [mergeCandidate]
+  )
+
+  const handleDismiss = (key: string) => {
+    setDismissed(prev => new Set(prev).add(key))
+  }
+
+  const handleMergeComplete = (result: MergeResult) => {
+    setMergeCandidate(null)
+    setMergeResults([result])
+    setShowMergeResults(true)
+
+    if (result.success) {
+      // Drop merged records locally so their pairs disappear without a full reload
+      const mergedIds = result.merged.map(attendee => attendee.id)
+      setAttendees(prev => prev
+        .filter(attendee => !mergedIds.includes(attendee.id))
+        .map(attendee => attendee.id === result.survivor.id ? result.survivor : attendee)
+      )
+    }
+  }
+
+  const getScoreColor = (score: number) => {
+    if (score >= 85) return 'bg-red-100 text-red-800'
+    if (score >= 70) return 'bg-amber-100 text-amber-800'
+    return 'bg-gray-100 text-gray-800'
+  }
+
+  return (
+    <SelectionProvider>
+      <div className="flex h-screen">
+        <TabNavigation
+          tabs={tabs}
+          activeTab="attendees"
+        />
+        <div className="flex-1 overflow-auto">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+            <div className="mb-6">
+              <Link href="/attendees" className="inline-flex items-center text-gray-600 hover:text-gray-900">
+                <Icon icon={ArrowLeftIcon} size="sm" className="mr-2" />
+                Back to Attendees
+              </Link>
+            </div>
+
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+              <div>
+                <h1 className="text-xl font-medium text-gray-900">Find Duplicates</h1>
+                <p className="text-sm text-gray-500">
+                  {isLoading
+                    ? 'Scanning attendees...'
+                    : `${candidates.length} possible duplicate pairs across ${attendees.length} attendees`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <label htmlFor="min-score" className="text-sm text-gray-700">Minimum score</label>
+                <select
+                  id="min-score"
+                  value={minScore}
+                  onChange={(e) => setMinScore(Number(e.target.value))}
+                  className="rounded-md border-gray-300 py-1.5 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                >
+                  <option value={50}>50 (more matches)</option>
+                  <option value={60}>60</option>
+                  <option value={70}>70</option>
+                  <option value={85}>85 (most certain)</option>
+                </select>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-10 w-10 border-2 border-primary-600 border-t-transparent"></div>
+              </div>
+            ) : error ? (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">
+                <p className="font-medium">Error loading data</p>
+                <p className="text-sm">{error}</p>
+              </div>
+            ) : candidates.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-64 bg-gray-50 rounded-lg border border-gray-200">
+                <DocumentDuplicateIcon className="h-12 w-12 text-gray-400 mb-2" />
+                <p className="text-gray-500">No likely duplicates found at this score.</p>
+              </div>
+            ) : (
+              <ul role="list" className="space-y-3">
+                {candidates.map(candidate => (
+                  <li key={candidate.key} className="bg-white border border-gray-200 rounded-lg shadow-sm p-4">
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${getScoreColor(candidate.score)}`}>
+                          Score {candidate.score}
+                        </span>
+                        {candidate.reasons.map(reason => (
+                          <span key={reason} className="inline-flex rounded-full bg-indigo-50 px-2 text-xs leading-5 text-indigo-700">
+                            {reason}
+                          </span>
+                        ))}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => handleDismiss(candidate.key)}
+                          className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                        >
+                          Not a duplicate
+                        </button>
+                        <button
+                          onClick={() => setMergeCandidate(candidate)}
+                          className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                        >
+                          Review &amp; merge
+                        </button>
+                      </div>
+                    </div>
+                    <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {candidate.attendees.map(attendee => (
+                        <Link
+                          key={attendee.id}
+                          href={`/attendees/${attendee.id}`}
+                          className="block rounded-md bg-gray-50 p-3 hover:bg-gray-100"
+                        >
+                          <p className="text-sm font-medium text-gray-900">{attendee.first_name} {attendee.last_name}</p>
+                          <p className="text-xs text-gray-500">{[attendee.title, attendee.company].filter(Boolean).join(' • ') || '-'}</p>
+                          <p className="text-xs text-gray-500">{[attendee.email, attendee.phone].filter(Boolean).join(' • ') || '-'}</p>
+                        </Link>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <AttendeeMergeDialog
+        isOpen={!!mergeCandidate}
+        attendees={mergeSelection}
+        onClose={() => setMergeCandidate(null)}
+        onMergeComplete={handleMergeComplete}
+      />
+
+      <MergeResultsDialog
+        isOpen={showMergeResults}
+        onClose={() => setShowMergeResults(false)}
+        results={mergeResults}
+      />
+    </SelectionProvider>
+  )
+}
@@ -1,11 +1,11 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback , useMemo } from 'react'
 import { useRouter } from 'next/navigation'
 import { TabNavigation } from '@/components/layout/TabNavigation'
 import { useDataFetching } from '@/hooks/useDataFetching'
 import { SelectionProvider, useSelection } from '@/lib/context/SelectionContext'
-import { UserIcon } from '@heroicons/react/24/outline'
+import { UserIcon, ArrowUpTrayIcon, DocumentDuplicateIcon } from '@heroicons/react/24/outline'
 import { Icon } from '@/components/ui/Icon'
 import { SearchBar } from '@/components/features/common/SearchBar'
 import { FilterMenu } from '@/components/features/common/FilterMenu'
@@ -15,13 +15,19 @@ import { PropertiesMenu } from '@/components/ui/menus/PropertiesMenu'
 import { DataTable } from '@/components/features/common/DataTable'
 import { ItemCard } from '@/components/features/common/ItemCard'
 import { useColumnManagement } from '@/hooks/useColumnManagement'
+import { useAIProvenance } from '@/hooks/useAIProvenance'
 import { AddEntityButton } from '@/components/features/entities/AddEntityButton'
 import { ActionBar } from '@/components/layout/ActionBar'
 import { LoadMoreButton } from '@/components/ui/LoadMoreButton'
-import type { Attendee, HealthSystem, Conference } from '@/types'
+import type { Attendee, HealthSystem, Conference, SortOption, FilterNode } from '@/types'
 import { ColumnDef } from '@tanstack/react-table'
 import { supabase } from '@/lib/supabase'
 import { SelectAllButton } from '@/components/features/common/SelectAllButton'
+import { isSortableProperty } from '@/lib/queryFilters'
+import { useSavedViews } from '@/hooks/useSavedViews'
+import { useRole } from '@/hooks/useRole'
+import type { SavedView } from '@/lib/savedViews'
+import { AttendeeImportDialog } from '@/components/features/attendees/AttendeeImportDialog'
 
 // Define List interface to match the one used in TabNavigation
 interface List {
@@ -35,14 +41,11 @@ interface FetchOptionsExtended {
   page?: number
   pageSize?: number
   searchTerm?: string
-  filters?: Array<{
-    id: string
-    property: string
-    operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than' | 'not_contains'
-    value: string
-  }>
+  filters?: FilterNode[]
   entityType?: 'attendees' | 'health-systems' | 'conferences'
   listId?: string | null
+  sort?: SortOption | null
+  force?: boolean
 }
 
 export default function AttendeesPage() {
@@ -56,29 +59,29 @@ export default function AttendeesPage() {
 function AttendeesPageContent() {
   const router = useRouter()
   const { selectedItems } = useSelection()
+  const { can } = useRole()
   const { attendees, healthSystems: _healthSystems, conferences: _conferences, isLoading, error, totalCount, fetchData, hasMore, currentPage, setCurrentPage: _setCurrentPage } = useDataFetching()
+  const aiProvenance = useAIProvenance('attendees', attendees)
   
   // UI state
   const [view, setView] = useState<'table' | 'cards'>('cards')
   const [columnsPerRow, setColumnsPerRow] = useState(3)
   const [activeMenu, setActiveMenu] = useState<'filter' | 'properties' | 'view-settings' | null>(null)
   const [searchTerm, setSearchTerm] = useState('')
-  const [activeFilters, setActiveFilters] = useState<Array<{
-    id: string
-    property: string
-    operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than' | 'not_contains'
-    value: string
-  }>>([])
+  const [activeFilters, setActiveFilters] = useState<FilterNode[]>([])
+  const [sort, setSort] = useState<SortOption | null>(null)
   
   // List state
   const [lists, setLists] = useState<List[]>([])
   const [activeListId, setActiveListId] = useState<string | null>(null)
   const [isSelectingAll, setIsSelectingAll] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
   
   // Use the column management hook
   const {
     visibleColumns,
     handleColumnToggle,
+    setColumnsForTab,
     getVisibleColumns,
     getFieldsForItem,
     allColumns,
@@ -86,6 +89,41 @@ function AttendeesPageContent() {
   } = useColumnManagement({
     activeTab: 'attendees'
   })
+
+  // Apply a saved view (or clear back to the whole tab) and refetch with its settings
+  const handleApplyView = useCallback((view: SavedView | null) => {
+    const filters = view?.filters || []
+    const viewSort = view?.sort || null
+    const term = view?.searchTerm || ''
+
+    setActiveFilters(filters)
+    setSort(viewSort)
+    setSearchTerm(term)
+    setColumnsForTab(view ? view.visibleColumns : null)
+
+    fetchData({
+      page: 0,
+      searchTerm: term,
+      filters,
+      sort: viewSort,
+      entityType: 'attendees',
+      listId: activeListId,
+      force: true
+    } as FetchOptionsExtended)
+  }, [fetchData, setColumnsForTab, activeListId])
+
+  const savedViews = useSavedViews({
+    entityType: 'attendees',
+    onApplyView: handleApplyView
+  })
+
+  // Current tab state, captured when saving a view
+  const currentViewState = useMemo(() => ({
+    filters: activeFilters,
+    sort,
+    visibleColumns: visibleColumns['attendees'],
+    searchTerm
+  }), [activeFilters, sort, visibleColumns, searchTerm])
   
   // Filtered counts with proper types for TabNavigation
   const counts = {
@@ -201,27 +239,37 @@ function AttendeesPageContent() {
       page: 0,
       searchTerm: term,
       filters: activeFilters,
+      sort,
       entityType: 'attendees',
       listId: activeListId
     } as FetchOptionsExtended);
-  }, [activeFilters, fetchData, activeListId]);
+  }, [activeFilters, sort, fetchData, activeListId]);
 
   // Filter handler
-  const handleFilterChange = useCallback((filters: Array<{
-    id: string
-    property: string
-    operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than' | 'not_contains'
-    value: string
-  }>) => {
+  const handleFilterChange = useCallback((filters: FilterNode[]) => {
     setActiveFilters(filters);
     fetchData({
       page: 0,
       searchTerm,
       filters,
+      sort,
       entityType: 'attendees',
       listId: activeListId
     } as FetchOptionsExtended);
-  }, [searchTerm, fetchData, activeListId]);
+  }, [searchTerm, sort, fetchData, activeListId]);
+
+  // Sort handler - ordering happens on the server, so refetch from the first page
+  const handleSortChange = useCallback((newSort: SortOption | null) => {
+    setSort(newSort);
+    fetchData({
+      page: 0,
+      searchTerm,
+      filters: activeFilters,
+      sort: newSort,
+      entityType: 'attendees',
+      listId: activeListId
+    } as FetchOptionsExtended);
+  }, [searchTerm, activeFilters, fetchData, activeListId]);
 
   // Handle menu toggle
   const handleMenuToggle = useCallback((menu: 'filter' | 'properties' | 'view-settings') => {
@@ -269,10 +317,11 @@ function AttendeesPageContent() {
       page: nextPage,
       searchTerm,
       filters: activeFilters,
+      sort,
       entityType: 'attendees',
       listId: activeListId
     } as FetchOptionsExtended);
-  }, [currentPage, searchTerm, activeFilters, fetchData, activeListId, isLoading]);
+  }, [currentPage, searchTerm, activeFilters, sort, fetchData, activeListId, isLoading]);
 
   return (
     <div className="flex h-screen">
@@ -284,6 +333,8 @@ function AttendeesPageContent() {
         onListSelect={handleListSelect}
         refreshLists={fetchLists}
         lists={lists}
+        savedViews={savedViews}
+        currentViewState={currentViewState}
       />
       
       <div className="flex-1 overflow-auto">
@@ -293,12 +344,13 @@ function AttendeesPageContent() {
               <SearchBar 
                 placeholder="Search Attendees..."
                 onSearch={handleSearch}
+                value={searchTerm}
                 activeTab="attendees"
                 isLoading={isLoading}
               />
               
               <div className="text-sm text-gray-500 ml-1">
-                <span>{counts.attendees} total attendees</span>
+                <span>{counts.attendees} {searchTerm || activeFilters.length > 0 ? 'matching' : 'total'} attendees</span>
                 {(searchTerm || activeFilters.length > 0 || activeListId) && (
                   <span> • {attendees.length} results showing</span>
                 )}
@@ -314,6 +366,27 @@ function AttendeesPageContent() {
                 onEntityAdded={handleEntityAdded}
               />
               
+              {can('editRecords') && (
+                <button
+                  onClick={() => setIsImportOpen(true)}
+                  className="inline-flex items-center gap-x-1.5 rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                >
+                  <ArrowUpTrayIcon className="-ml-0.5 h-5 w-5" aria-hidden="true" />
+                  Import
+                </button>
+              )}
+              
+              {/* Merging deletes the duplicates, so it needs the delete permission */}
+              {can('deleteRecords') && (
+                <button
+                  onClick={() => router.push('/attendees/duplicates')}
+                  className="inline-flex items-center gap-x-1.5 rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                >
+                  <DocumentDuplicateIcon className="-ml-0.5 h-5 w-5" aria-hidden="true" />
+                  Find Duplicates
+                </button>
+              )}
+              
               <FilterMenu
                 onFilterChange={handleFilterChange}
                 isOpen={activeMenu === 'filter'}
@@ -321,6 +394,7 @@ function AttendeesPageContent() {
                 allColumns={allColumns}
                 isLoading={isLoading}
                 activeFilters={activeFilters}
+                tableName="attendees"
               />
               
               <PropertiesMenu
@@ -354,6 +428,7 @@ function AttendeesPageContent() {
                   currentFilters={activeFilters}
                   searchTerm={searchTerm}
                   listId={activeListId}
+                  totalCount={totalCount.attendees}
                   onSelectStateChange={setIsSelectingAll}
                 />
               </div>
@@ -384,6 +459,10 @@ function AttendeesPageContent() {
                   data={attendees}
                   columns={getVisibleColumns() as ColumnDef<Attendee>[]}
                   onRowClick={(attendee) => router.push(`/attendees/${attendee.id}`)}
+                  sort={sort}
+                  onSortChange={handleSortChange}
+                  canSort={(columnId) => isSortableProperty('attendees', columnId)}
+                  provenance={aiProvenance}
                 />
               </div>
             ) : (
@@ -402,6 +481,8 @@ function AttendeesPageContent() {
                     onClick={() => router.push(`/attendees/${attendee.id}`)}
                     item={attendee}
                     fields={getFieldsForItem(attendee)}
+                    provenance={aiProvenance[attendee.id]}
+                    tags={attendee.apollo_contact_id ? [{ text: 'In Apollo', color: 'accent' }] : undefined}
                   />
                 ))}
               </div>
@@ -436,6 +517,14 @@ function AttendeesPageContent() {
           entityType: 'attendees', 
           listId: activeListId 
         } as FetchOptionsExtended)}
+        onOwnerAssigned={() => fetchData({ 
+          entityType: 'attendees', 
+          listId: activeListId 
+        } as FetchOptionsExtended)}
+        onApolloSynced={() => fetchData({ 
+          entityType: 'attendees', 
+          listId: activeListId 
+        } as FetchOptionsExtended)}
         conferenceName=""
         activeListId={activeListId}
         onListDelete={() => {
@@ -448,6 +537,15 @@ function AttendeesPageContent() {
         getFieldsForAllColumns={getFieldsForAllColumns}
         isSelectingAll={isSelectingAll}
       />
+      
+      <AttendeeImportDialog
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImportComplete={() => fetchData({ 
+          entityType: 'attendees', 
+          listId: activeListId 
+        } as FetchOptionsExtended)}
+      />
     </div>
   )
 } 
\ No newline at end of file
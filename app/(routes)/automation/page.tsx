@@ -0,0 +1,216 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { BoltIcon, PlusIcon } from '@heroicons/react/24/outline'
+import { TabNavigation } from '@/components/layout/TabNavigation'
+import { SelectionProvider } from '@/lib/context/SelectionContext'
+import { AutomationRuleDialog, AutomationRuleItem } from '@/components/features/automation'
+import { useAuth } from '@/hooks/useAuth'
+import { useRole } from '@/hooks/useRole'
+import { supabase } from '@/lib/supabase'
+import { aiPromptsService, AIPrompt } from '@/lib/aiPrompts'
+import {
+  fetchAutomationRules,
+  setAutomationRuleEnabled,
+  deleteAutomationRule,
+  runAutomationRulesNow,
+  AutomationAction,
+  AutomationRule,
+  AUTOMATION_ACTION_PERMISSIONS
+} from '@/lib/automationRules'
+
+// Define tabs for navigation
+const tabs = [
+  { id: 'attendees', label: 'Attendees', href: '/attendees' },
+  { id: 'health-systems', label: 'Health Systems', href: '/health-systems' },
+  { id: 'conferences', label: 'Conferences', href: '/conferences' },
+]
+
+export default function AutomationPage() {
+  const { user } = useAuth()
+  const { can } = useRole()
+  const [rules, setRules] = useState<AutomationRule[]>([])
+  const [prompts, setPrompts] = useState<AIPrompt[]>([])
+  const [conferences, setConferences] = useState<Array<{ id: string, name: string }>>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+
+  const loadRules = useCallback(async () => {
+    try {
+      setRules(await fetchAutomationRules())
+    } catch (err) {
+      console.error('Error loading automation rules:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load automation rules')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!user) return
+
+    const loadPage = async () => {
+      setIsLoading(true)
+      setError(null)
+      await loadRules()
+      setIsLoading(false)
+
+      try {
+        const [savedPrompts, { data, error: conferencesError }] = await Promise.all([
+          aiPromptsService.getAllPrompts(),
+          supabase.from('conferences').select('id, name').order('start_date', { ascending: false })
+        ])
+        if (conferencesError) throw conferencesError
+        setPrompts(savedPrompts)
+        setConferences(data || [])
+      } catch (err) {
+        console.error('Error loading prompts and conferences:', err)
+      }
+    }
+
+    loadPage()
+  }, [user, loadRules])
+
+  const canManage = can('manageEnrichmentSettings')
+  const canManageRule = (rule: AutomationRule) => canManage && can(AUTOMATION_ACTION_PERMISSIONS[rule.action])
+
+  // Paid actions are only offered to the roles that can run them by hand
+  const actions = useMemo(
+    () => (Object.keys(AUTOMATION_ACTION_PERMISSIONS) as AutomationAction[]).filter(action => can(AUTOMATION_ACTION_PERMISSIONS[action])),
+    [can]
+  )
+
+  // Run an action on a rule and reload the list
+  const runAction = async (rule: AutomationRule, action: () => Promise<void>, failureMessage: string) => {
+    setSavingId(rule.id)
+    try {
+      await action()
+      await loadRules()
+    } catch (err) {
+      console.error(`${failureMessage}:`, err)
+      alert(`${failureMessage}: ` + (err instanceof Error ? err.message : 'Unknown error'))
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const handleToggle = (rule: AutomationRule, enabled: boolean) =>
+    runAction(rule, () => setAutomationRuleEnabled(rule.id, enabled), 'Failed to update rule')
+
+  const handleDelete = (rule: AutomationRule) => {
+    if (!confirm(`Delete "${rule.name}" and its run history?`)) return
+    runAction(rule, () => deleteAutomationRule(rule.id), 'Failed to delete rule')
+  }
+
+  const handleRunNow = async () => {
+    setIsRunning(true)
+    setError(null)
+    setNotice(null)
+    try {
+      const result = await runAutomationRulesNow()
+      setNotice(result.runs > 0
+        ? `${result.runs} of ${result.rules} rule${result.rules === 1 ? '' : 's'} ran on ${result.records} record${result.records === 1 ? '' : 's'}.`
+        : `Checked ${result.rules} rule${result.rules === 1 ? '' : 's'}; none had records to run on.`)
+      await loadRules()
+    } catch (err) {
+      console.error('Error running automation rules:', err)
+      setError(err instanceof Error ? err.message : 'Failed to run automation rules')
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const promptNames = Object.fromEntries(prompts.map(prompt => [prompt.id, prompt.name]))
+  const conferenceNames = Object.fromEntries(conferences.map(conference => [conference.id, conference.name]))
+
+  return (
+    <SelectionProvider>
+      <div className="flex h-screen">
+        <TabNavigation
+          tabs={tabs}
+          activeTab="automation"
+        />
+
+        <div className="flex-1 overflow-auto">
+          <div className="max-w-6xl px-4 sm:px-6 lg:px-8 py-6">
+            <div className="mb-6 flex items-start justify-between gap-4">
+              <div>
+                <h1 className="text-xl font-semibold text-gray-900">Automation</h1>
+                <p className="text-sm text-gray-500">
+                  Rules that re-run enrichment on a schedule, when attendees are added to a conference or when data gets old.
+                  The server checks the rules that are on every hour.
+                </p>
+              </div>
+              {canManage && (
+                <div className="flex shrink-0 gap-2">
+                  <button
+                    onClick={handleRunNow}
+                    disabled={isRunning}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900 disabled:opacity-50"
+                  >
+                    {isRunning ? 'Running...' : 'Run rules now'}
+                  </button>
+                  <button
+                    onClick={() => setIsDialogOpen(true)}
+                    className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700"
+                  >
+                    <PlusIcon className="h-4 w-4 mr-1" />
+                    New rule
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            {notice && (
+              <div className="mb-4 p-3 bg-green-50 text-green-700 rounded-md text-sm">
+                {notice}
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-10 w-10 border-2 border-primary-600 border-t-transparent"></div>
+              </div>
+            ) : rules.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-64 bg-gray-50 rounded-lg border border-gray-200">
+                <BoltIcon className="h-12 w-12 text-gray-400 mb-2" />
+                <p className="text-gray-500">No automation rules yet.</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200 bg-white px-4">
+                {rules.map(rule => (
+                  <AutomationRuleItem
+                    key={rule.id}
+                    rule={rule}
+                    promptName={rule.promptId ? promptNames[rule.promptId] : undefined}
+                    conferenceName={rule.conferenceId ? conferenceNames[rule.conferenceId] : undefined}
+                    onToggle={canManageRule(rule) ? handleToggle : undefined}
+                    onDelete={canManageRule(rule) ? handleDelete : undefined}
+                    isSaving={savingId === rule.id}
+                  />
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <AutomationRuleDialog
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        onCreated={() => loadRules()}
+        prompts={prompts}
+        conferences={conferences}
+        actions={actions}
+      />
+    </SelectionProvider>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useCallback, useEffect } from 'react'
+import React, { useState, useCallback, useEffect , useMemo } from 'react'
 import { useRouter } from 'next/navigation'
 import { useSelection } from '@/lib/context/SelectionContext'
 import { TabNavigation } from '@/components/layout/TabNavigation'
@@ -17,12 +17,16 @@ import { PropertiesMenu } from '@/components/ui/menus/PropertiesMenu'
 import { DataTable } from '@/components/features/common/DataTable'
 import { ItemCard } from '@/components/features/common/ItemCard'
 import { useColumnManagement } from '@/hooks/useColumnManagement'
+import { useAIProvenance } from '@/hooks/useAIProvenance'
 import { AddEntityButton } from '@/components/features/entities/AddEntityButton'
 import { LoadMoreButton } from '@/components/ui/LoadMoreButton'
-import type { Attendee, HealthSystem, Conference } from '@/types'
+import type { Attendee, HealthSystem, Conference, SortOption, FilterNode } from '@/types'
 import { ColumnDef } from '@tanstack/react-table'
 import { supabase } from '@/lib/supabase'
 import { SelectAllButton } from '@/components/features/common/SelectAllButton'
+import { isSortableProperty } from '@/lib/queryFilters'
+import { useSavedViews } from '@/hooks/useSavedViews'
+import type { SavedView } from '@/lib/savedViews'
 
 // Define List interface to match the one used in TabNavigation
 interface List {
@@ -36,14 +40,11 @@ interface FetchOptionsExtended {
   page?: number
   pageSize?: number
   searchTerm?: string
-  filters?: Array<{
-    id: string
-    property: string
-    operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than' | 'not_contains'
-    value: string
-  }>
+  filters?: FilterNode[]
   entityType?: 'attendees' | 'health-systems' | 'conferences'
   listId?: string | null
+  sort?: SortOption | null
+  force?: boolean
 }
 
 export default function ConferencesPage() {
@@ -58,18 +59,15 @@ function ConferencesPageContent() {
   const router = useRouter()
   const { selectedItems } = useSelection()
   const { conferences, isLoading, error, totalCount, fetchData, hasMore, currentPage, setCurrentPage: _setCurrentPage } = useDataFetching()
+  const aiProvenance = useAIProvenance('conferences', conferences)
   
   // UI state
   const [view, setView] = useState<'table' | 'cards'>('cards')
   const [columnsPerRow, setColumnsPerRow] = useState(3)
   const [activeMenu, setActiveMenu] = useState<'filter' | 'properties' | 'view-settings' | null>(null)
   const [searchTerm, setSearchTerm] = useState('')
-  const [activeFilters, setActiveFilters] = useState<Array<{
-    id: string
-    property: string
-    operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than' | 'not_contains'
-    value: string
-  }>>([])
+  const [activeFilters, setActiveFilters] = useState<FilterNode[]>([])
+  const [sort, setSort] = useState<SortOption | null>(null)
   
   // List state
   const [lists, setLists] = useState<List[]>([])
@@ -80,6 +78,7 @@ function ConferencesPageContent() {
   const {
     visibleColumns,
     handleColumnToggle,
+    setColumnsForTab,
     getVisibleColumns,
     getFieldsForItem,
     allColumns,
@@ -87,6 +86,40 @@ function ConferencesPageContent() {
   } = useColumnManagement({
     activeTab: 'conferences'
   })
+
+  // Apply a saved view (or clear back to the whole tab) and refetch with its settings
+  const handleApplyView = useCallback((view: SavedView | null) => {
+    const filters = view?.filters || []
+    const viewSort = view?.sort || null
+    const term = view?.searchTerm || ''
+
+    setActiveFilters(filters)
+    setSort(viewSort)
+    setSearchTerm(term)
+    setColumnsForTab(view ? view.visibleColumns : null)
+
+    fetchData({
+      page: 0,
+      searchTerm: term,
+      filters,
+      sort: viewSort,
+      entityType: 'conferences',
+      force: true
+    } as FetchOptionsExtended)
+  }, [fetchData, setColumnsForTab])
+
+  const savedViews = useSavedViews({
+    entityType: 'conferences',
+    onApplyView: handleApplyView
+  })
+
+  // Current tab state, captured when saving a view
+  const currentViewState = useMemo(() => ({
+    filters: activeFilters,
+    sort,
+    visibleColumns: visibleColumns['conferences'],
+    searchTerm
+  }), [activeFilters, sort, visibleColumns, searchTerm])
   
   // Filtered counts with proper types for TabNavigation
   const counts = {
@@ -164,26 +197,35 @@ function ConferencesPageContent() {
       page: 0,
       searchTerm: term,
       filters: activeFilters,
+      sort,
       entityType: 'conferences'
     });
-  }, [activeFilters, fetchData]);
+  }, [activeFilters, sort, fetchData]);
 
   // Filter handler
-  const handleFilterChange = useCallback((filters: Array<{
-    id: string
-    property: string
-    operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than' | 'not_contains'
-    value: string
-  }>) => {
+  const handleFilterChange = useCallback((filters: FilterNode[]) => {
     setActiveFilters(filters);
     // Fetch with updated filters - reset to page 0
     fetchData({
       page: 0,
       searchTerm,
       filters,
+      sort,
       entityType: 'conferences'
     });
-  }, [searchTerm, fetchData]);
+  }, [searchTerm, sort, fetchData]);
+
+  // Sort handler - ordering happens on the server, so refetch from the first page
+  const handleSortChange = useCallback((newSort: SortOption | null) => {
+    setSort(newSort);
+    fetchData({
+      page: 0,
+      searchTerm,
+      filters: activeFilters,
+      sort: newSort,
+      entityType: 'conferences'
+    } as FetchOptionsExtended);
+  }, [searchTerm, activeFilters, fetchData]);
 
   // Handle menu toggle
   const handleMenuToggle = useCallback((menu: 'filter' | 'properties' | 'view-settings') => {
@@ -237,9 +279,10 @@ function ConferencesPageContent() {
       page: nextPage,
       searchTerm,
       filters: activeFilters,
+      sort,
       entityType: 'conferences'
     });
-  }, [currentPage, searchTerm, activeFilters, fetchData, isLoading]);
+  }, [currentPage, searchTerm, activeFilters, sort, fetchData, isLoading]);
 
   return (
     <div className="flex h-screen">
@@ -251,6 +294,8 @@ function ConferencesPageContent() {
         onListSelect={handleListSelect}
         refreshLists={fetchLists}
         lists={lists}
+        savedViews={savedViews}
+        currentViewState={currentViewState}
       />
       
       <div className="flex-1 overflow-auto">
@@ -261,13 +306,14 @@ function ConferencesPageContent() {
               <SearchBar 
                 placeholder="Search Conferences..."
                 onSearch={handleSearch}
+                value={searchTerm}
                 activeTab="conferences"
                 isLoading={isLoading}
               />
               
               {/* Show results count */}
               <div className="text-sm text-gray-500 ml-1">
-                <span>{totalCount.conferences} total conferences</span>
+                <span>{totalCount.conferences} {searchTerm || activeFilters.length > 0 ? 'matching' : 'total'} conferences</span>
                 {(searchTerm || activeFilters.length > 0) && (
                   <span> • {conferences.length} results showing</span>
                 )}
@@ -286,6 +332,7 @@ function ConferencesPageContent() {
                 allColumns={allColumns}
                 isLoading={isLoading}
                 activeFilters={activeFilters}
+                tableName="conferences"
               />
               
               <PropertiesMenu
@@ -318,6 +365,7 @@ function ConferencesPageContent() {
                   currentItems={conferences}
                   currentFilters={activeFilters}
                   searchTerm={searchTerm}
+                  totalCount={totalCount.conferences}
                   onSelectStateChange={setIsSelectingAll}
                 />
               </div>
@@ -349,6 +397,10 @@ function ConferencesPageContent() {
                   data={conferences}
                   columns={getVisibleColumns() as ColumnDef<Conference>[]}
                   onRowClick={(conference) => router.push(`/conferences/${conference.id}`)}
+                  sort={sort}
+                  onSortChange={handleSortChange}
+                  canSort={(columnId) => isSortableProperty('conferences', columnId)}
+                  provenance={aiProvenance}
                 />
               </div>
             ) : (
@@ -367,6 +419,7 @@ function ConferencesPageContent() {
                     onClick={() => router.push(`/conferences/${conference.id}`)}
                     item={conference}
                     fields={getFieldsForItem(conference)}
+                    provenance={aiProvenance[conference.id]}
                   />
                 ))}
               </div>
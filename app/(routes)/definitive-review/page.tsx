@@ -0,0 +1,121 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { LinkIcon } from '@heroicons/react/24/outline'
+import { TabNavigation } from '@/components/layout/TabNavigation'
+import { SelectionProvider } from '@/lib/context/SelectionContext'
+import { DefinitiveMatchReviewCard } from '@/components/features/health-systems/DefinitiveMatchReviewCard'
+import { useAuth } from '@/hooks/useAuth'
+import { useRole } from '@/hooks/useRole'
+import { DefinitiveHospital } from '@/lib/definitive'
+import { fetchPendingDefinitiveReviews, linkDefinitiveHospital, markNotInDefinitive, DefinitiveMatchReview } from '@/lib/definitiveMatching'
+
+// Define tabs for navigation
+const tabs = [
+  { id: 'attendees', label: 'Attendees', href: '/attendees' },
+  { id: 'health-systems', label: 'Health Systems', href: '/health-systems' },
+  { id: 'conferences', label: 'Conferences', href: '/conferences' },
+]
+
+export default function DefinitiveReviewPage() {
+  const { user } = useAuth()
+  const { can } = useRole()
+  const [reviews, setReviews] = useState<DefinitiveMatchReview[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!user) return
+
+    const loadReviews = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        setReviews(await fetchPendingDefinitiveReviews())
+      } catch (err) {
+        console.error('Error loading Definitive reviews:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load Definitive reviews')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadReviews()
+  }, [user])
+
+  // Run a decision and take the review out of the queue
+  const resolve = async (review: DefinitiveMatchReview, action: () => Promise<void>, failureMessage: string) => {
+    setSavingId(review.healthSystemId)
+    try {
+      await action()
+      setReviews(prev => prev.filter(item => item.healthSystemId !== review.healthSystemId))
+    } catch (err) {
+      console.error(`${failureMessage}:`, err)
+      alert(`${failureMessage}: ` + (err instanceof Error ? err.message : 'Unknown error'))
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const handleLink = (review: DefinitiveMatchReview, hospital: DefinitiveHospital) =>
+    resolve(review, () => linkDefinitiveHospital(review.healthSystemId, hospital, user?.id || null), 'Failed to link hospital')
+
+  const handleNoMatch = (review: DefinitiveMatchReview) =>
+    resolve(review, () => markNotInDefinitive(review.healthSystemId, user?.id || null), 'Failed to mark as not in Definitive')
+
+  const canResolve = can('editRecords')
+
+  return (
+    <SelectionProvider>
+      <div className="flex h-screen">
+        <TabNavigation
+          tabs={tabs}
+          activeTab="definitive-review"
+        />
+
+        <div className="flex-1 overflow-auto">
+          <div className="max-w-6xl px-4 sm:px-6 lg:px-8 py-6">
+            <div className="mb-6">
+              <h1 className="text-xl font-semibold text-gray-900">Definitive Review</h1>
+              <p className="text-sm text-gray-500">
+                Unsure Definitive Healthcare matches from enrichment. Confirm the best hospital, switch to another or search for the right one.
+                Linked health systems are skipped by later enrichment runs.
+              </p>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-10 w-10 border-2 border-primary-600 border-t-transparent"></div>
+              </div>
+            ) : reviews.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-64 bg-gray-50 rounded-lg border border-gray-200">
+                <LinkIcon className="h-12 w-12 text-gray-400 mb-2" />
+                <p className="text-gray-500">No matches to review. Unsure matches from Definitive enrichment show up here.</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {reviews.map(review => (
+                  <DefinitiveMatchReviewCard
+                    key={review.healthSystemId}
+                    review={review}
+                    onLink={canResolve ? handleLink : undefined}
+                    onNoMatch={canResolve ? handleNoMatch : undefined}
+                    canSearch={can('runPaidEnrichment')}
+                    isSaving={savingId === review.healthSystemId}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </SelectionProvider>
+  )
+}
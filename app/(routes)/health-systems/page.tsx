@@ -1,13 +1,13 @@
 'use client'
 
-import React, { useState, useCallback, useEffect } from 'react'
+import React, { useState, useCallback, useEffect , useMemo } from 'react'
 import { useRouter } from 'next/navigation'
 import { useSelection } from '@/lib/context/SelectionContext'
 import { TabNavigation } from '@/components/layout/TabNavigation'
 import { ActionBar } from '@/components/layout/ActionBar'
 import { useDataFetching } from '@/hooks/useDataFetching'
 import { SelectionProvider } from '@/lib/context/SelectionContext'
-import { BuildingOfficeIcon } from '@heroicons/react/24/outline'
+import { BuildingOfficeIcon, MapIcon } from '@heroicons/react/24/outline'
 import { Icon } from '@/components/ui/Icon'
 import { SearchBar } from '@/components/features/common/SearchBar'
 import { FilterMenu } from '@/components/features/common/FilterMenu'
@@ -17,12 +17,18 @@ import { PropertiesMenu } from '@/components/ui/menus/PropertiesMenu'
 import { DataTable } from '@/components/features/common/DataTable'
 import { ItemCard } from '@/components/features/common/ItemCard'
 import { useColumnManagement } from '@/hooks/useColumnManagement'
+import { useAIProvenance } from '@/hooks/useAIProvenance'
 import { AddEntityButton } from '@/components/features/entities/AddEntityButton'
 import { LoadMoreButton } from '@/components/ui/LoadMoreButton'
-import type { Attendee, HealthSystem, Conference } from '@/types'
+import type { Attendee, HealthSystem, Conference, SortOption, FilterNode } from '@/types'
 import { ColumnDef } from '@tanstack/react-table'
 import { supabase } from '@/lib/supabase'
 import { SelectAllButton } from '@/components/features/common/SelectAllButton'
+import { isSortableProperty } from '@/lib/queryFilters'
+import { useSavedViews } from '@/hooks/useSavedViews'
+import type { SavedView } from '@/lib/savedViews'
+import { useRole } from '@/hooks/useRole'
+import { TerritoryRulesDialog } from '@/components/features/ownership/TerritoryRulesDialog'
 
 // Define List interface to match the one used in TabNavigation
 interface List {
@@ -36,14 +42,11 @@ interface FetchOptionsExtended {
   page?: number
   pageSize?: number
   searchTerm?: string
-  filters?: Array<{
-    id: string
-    property: string
-    operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than' | 'not_contains'
-    value: string
-  }>
+  filters?: FilterNode[]
   entityType?: 'attendees' | 'health-systems' | 'conferences'
   listId?: string | null
+  sort?: SortOption | null
+  force?: boolean
 }
 
 export default function HealthSystemsPage() {
@@ -57,29 +60,29 @@ export default function HealthSystemsPage() {
 function HealthSystemsPageContent() {
   const router = useRouter()
   const { selectedItems } = useSelection()
+  const { can } = useRole()
   const { healthSystems, isLoading, error, totalCount, fetchData, hasMore, currentPage, setCurrentPage: _setCurrentPage } = useDataFetching()
+  const aiProvenance = useAIProvenance('health_systems', healthSystems)
   
   // UI state
   const [view, setView] = useState<'table' | 'cards'>('cards')
   const [columnsPerRow, setColumnsPerRow] = useState(3)
   const [activeMenu, setActiveMenu] = useState<'filter' | 'properties' | 'view-settings' | null>(null)
   const [searchTerm, setSearchTerm] = useState('')
-  const [activeFilters, setActiveFilters] = useState<Array<{
-    id: string
-    property: string
-    operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than' | 'not_contains'
-    value: string
-  }>>([])
+  const [activeFilters, setActiveFilters] = useState<FilterNode[]>([])
+  const [sort, setSort] = useState<SortOption | null>(null)
   
   // List state
   const [lists, setLists] = useState<List[]>([])
   const [activeListId, setActiveListId] = useState<string | null>(null)
   const [isSelectingAll, setIsSelectingAll] = useState(false)
+  const [isTerritoryRulesOpen, setIsTerritoryRulesOpen] = useState(false)
   
   // Use the column management hook
   const {
     visibleColumns,
     handleColumnToggle,
+    setColumnsForTab,
     getVisibleColumns,
     getFieldsForItem,
     allColumns,
@@ -87,6 +90,40 @@ function HealthSystemsPageContent() {
   } = useColumnManagement({
     activeTab: 'health-systems'
   })
+
+  // Apply a saved view (or clear back to the whole tab) and refetch with its settings
+  const handleApplyView = useCallback((view: SavedView | null) => {
+    const filters = view?.filters || []
+    const viewSort = view?.sort || null
+    const term = view?.searchTerm || ''
+
+    setActiveFilters(filters)
+    setSort(viewSort)
+    setSearchTerm(term)
+    setColumnsForTab(view ? view.visibleColumns : null)
+
+    fetchData({
+      page: 0,
+      searchTerm: term,
+      filters,
+      sort: viewSort,
+      entityType: 'health-systems',
+      force: true
+    } as FetchOptionsExtended)
+  }, [fetchData, setColumnsForTab])
+
+  const savedViews = useSavedViews({
+    entityType: 'health-systems',
+    onApplyView: handleApplyView
+  })
+
+  // Current tab state, captured when saving a view
+  const currentViewState = useMemo(() => ({
+    filters: activeFilters,
+    sort,
+    visibleColumns: visibleColumns['health-systems'],
+    searchTerm
+  }), [activeFilters, sort, visibleColumns, searchTerm])
   
   // Filtered counts with proper types for TabNavigation
   const counts = {
@@ -164,26 +201,35 @@ function HealthSystemsPageContent() {
       page: 0,
       searchTerm: term,
       filters: activeFilters,
+      sort,
       entityType: 'health-systems'
     });
-  }, [activeFilters, fetchData]);
+  }, [activeFilters, sort, fetchData]);
 
   // Filter handler
-  const handleFilterChange = useCallback((filters: Array<{
-    id: string
-    property: string
-    operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than' | 'not_contains'
-    value: string
-  }>) => {
+  const handleFilterChange = useCallback((filters: FilterNode[]) => {
     setActiveFilters(filters);
     // Fetch with updated filters - reset to page 0
     fetchData({
       page: 0,
       searchTerm,
       filters,
+      sort,
       entityType: 'health-systems'
     });
-  }, [searchTerm, fetchData]);
+  }, [searchTerm, sort, fetchData]);
+
+  // Sort handler - ordering happens on the server, so refetch from the first page
+  const handleSortChange = useCallback((newSort: SortOption | null) => {
+    setSort(newSort);
+    fetchData({
+      page: 0,
+      searchTerm,
+      filters: activeFilters,
+      sort: newSort,
+      entityType: 'health-systems'
+    } as FetchOptionsExtended);
+  }, [searchTerm, activeFilters, fetchData]);
 
   // Handle menu toggle
   const handleMenuToggle = useCallback((menu: 'filter' | 'properties' | 'view-settings') => {
@@ -237,9 +283,10 @@ function HealthSystemsPageContent() {
       page: nextPage,
       searchTerm,
       filters: activeFilters,
+      sort,
       entityType: 'health-systems'
     });
-  }, [currentPage, searchTerm, activeFilters, fetchData, isLoading]);
+  }, [currentPage, searchTerm, activeFilters, sort, fetchData, isLoading]);
 
   return (
     <div className="flex h-screen">
@@ -251,6 +298,8 @@ function HealthSystemsPageContent() {
         onListSelect={handleListSelect}
         refreshLists={fetchLists}
         lists={lists}
+        savedViews={savedViews}
+        currentViewState={currentViewState}
       />
       
       <div className="flex-1 overflow-auto">
@@ -261,13 +310,14 @@ function HealthSystemsPageContent() {
               <SearchBar 
                 placeholder="Search Health Systems..."
                 onSearch={handleSearch}
+                value={searchTerm}
                 activeTab="health-systems"
                 isLoading={isLoading}
               />
               
               {/* Show results count */}
               <div className="text-sm text-gray-500 ml-1">
-                <span>{totalCount.healthSystems} total health systems</span>
+                <span>{totalCount.healthSystems} {searchTerm || activeFilters.length > 0 ? 'matching' : 'total'} health systems</span>
                 {(searchTerm || activeFilters.length > 0) && (
                   <span> • {healthSystems.length} results showing</span>
                 )}
@@ -279,6 +329,17 @@ function HealthSystemsPageContent() {
                 entityType="health-systems"
                 onEntityAdded={handleEntityAdded}
               />
+
+              {can('assignOwners') && (
+                <button
+                  onClick={() => setIsTerritoryRulesOpen(true)}
+                  className="inline-flex items-center gap-x-1.5 rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                >
+                  <MapIcon className="-ml-0.5 h-5 w-5" aria-hidden="true" />
+                  Territories
+                </button>
+              )}
+
               <FilterMenu
                 onFilterChange={handleFilterChange}
                 isOpen={activeMenu === 'filter'}
@@ -286,6 +347,7 @@ function HealthSystemsPageContent() {
                 allColumns={allColumns}
                 isLoading={isLoading}
                 activeFilters={activeFilters}
+                tableName="health_systems"
               />
               
               <PropertiesMenu
@@ -318,6 +380,7 @@ function HealthSystemsPageContent() {
                   currentItems={healthSystems}
                   currentFilters={activeFilters}
                   searchTerm={searchTerm}
+                  totalCount={totalCount.healthSystems}
                   onSelectStateChange={setIsSelectingAll}
                 />
               </div>
@@ -349,6 +412,10 @@ function HealthSystemsPageContent() {
                   data={healthSystems}
                   columns={getVisibleColumns() as ColumnDef<HealthSystem>[]}
                   onRowClick={(healthSystem) => router.push(`/health-systems/${healthSystem.id}`)}
+                  sort={sort}
+                  onSortChange={handleSortChange}
+                  canSort={(columnId) => isSortableProperty('health_systems', columnId)}
+                  provenance={aiProvenance}
                 />
               </div>
             ) : (
@@ -367,6 +434,7 @@ function HealthSystemsPageContent() {
                     onClick={() => router.push(`/health-systems/${healthSystem.id}`)}
                     item={healthSystem}
                     fields={getFieldsForItem(healthSystem)}
+                    provenance={aiProvenance[healthSystem.id]}
                   />
                 ))}
               </div>
@@ -391,6 +459,7 @@ function HealthSystemsPageContent() {
         onDefinitiveEnrichmentComplete={() => fetchData({ entityType: 'health-systems' })}
         onAIEnrichmentComplete={() => fetchData({ entityType: 'health-systems' })}
         onDelete={() => fetchData({ entityType: 'health-systems' })}
+        onOwnerAssigned={() => fetchData({ entityType: 'health-systems' })}
         conferenceName=""
         activeListId={activeListId}
         onListDelete={() => {
@@ -402,6 +471,12 @@ function HealthSystemsPageContent() {
         getFieldsForAllColumns={getFieldsForAllColumns}
         isSelectingAll={isSelectingAll}
       />
+
+      <TerritoryRulesDialog
+        isOpen={isTerritoryRulesOpen}
+        onClose={() => setIsTerritoryRulesOpen(false)}
+        onApplied={() => fetchData({ entityType: 'health-systems' })}
+      />
     </div>
   )
 } 
\ No newline at end of file
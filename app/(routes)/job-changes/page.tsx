@@ -0,0 +1,132 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ArrowsRightLeftIcon } from '@heroicons/react/24/outline'
+import { TabNavigation } from '@/components/layout/TabNavigation'
+import { SelectionProvider } from '@/lib/context/SelectionContext'
+import { JobChangeItem } from '@/components/features/job-changes/JobChangeItem'
+import { useAuth } from '@/hooks/useAuth'
+import { useRole } from '@/hooks/useRole'
+import { fetchJobChanges, applyJobChange, dismissJobChange, JobChange } from '@/lib/jobChanges'
+
+// Define tabs for navigation
+const tabs = [
+  { id: 'attendees', label: 'Attendees', href: '/attendees' },
+  { id: 'health-systems', label: 'Health Systems', href: '/health-systems' },
+  { id: 'conferences', label: 'Conferences', href: '/conferences' },
+]
+
+export default function JobChangesPage() {
+  const { user } = useAuth()
+  const { can } = useRole()
+  const [jobChanges, setJobChanges] = useState<JobChange[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showResolved, setShowResolved] = useState(false)
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!user) return
+
+    const loadJobChanges = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        setJobChanges(await fetchJobChanges(showResolved))
+      } catch (err) {
+        console.error('Error loading job changes:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load job changes')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadJobChanges()
+  }, [user, showResolved])
+
+  // Run a resolve action and take the job change out of the open queue
+  const resolve = async (jobChange: JobChange, action: () => Promise<void>, failureMessage: string) => {
+    setSavingId(jobChange.id)
+    try {
+      await action()
+      setJobChanges(prev => prev.filter(item => item.id !== jobChange.id))
+    } catch (err) {
+      console.error(`${failureMessage}:`, err)
+      alert(`${failureMessage}: ` + (err instanceof Error ? err.message : 'Unknown error'))
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const handleApply = (jobChange: JobChange) =>
+    resolve(jobChange, () => applyJobChange(jobChange, user?.id || null), 'Failed to update attendee')
+
+  const handleDismiss = (jobChange: JobChange) =>
+    resolve(jobChange, () => dismissJobChange(jobChange.id, user?.id || null), 'Failed to dismiss job change')
+
+  const canResolve = !showResolved && can('editRecords')
+
+  return (
+    <SelectionProvider>
+      <div className="flex h-screen">
+        <TabNavigation
+          tabs={tabs}
+          activeTab="job-changes"
+        />
+
+        <div className="flex-1 overflow-auto">
+          <div className="max-w-4xl px-4 sm:px-6 lg:px-8 py-6">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+              <div>
+                <h1 className="text-xl font-semibold text-gray-900">Job Changes</h1>
+                <p className="text-sm text-gray-500">
+                  Attendees whose Apollo employment history changed since they were last enriched
+                </p>
+              </div>
+
+              <button
+                onClick={() => setShowResolved(!showResolved)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none"
+              >
+                {showResolved ? 'Show open' : 'Show resolved'}
+              </button>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-10 w-10 border-2 border-primary-600 border-t-transparent"></div>
+              </div>
+            ) : jobChanges.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-64 bg-gray-50 rounded-lg border border-gray-200">
+                <ArrowsRightLeftIcon className="h-12 w-12 text-gray-400 mb-2" />
+                <p className="text-gray-500">
+                  {showResolved
+                    ? 'No job changes have been applied or dismissed yet.'
+                    : 'No job changes to review. Re-enrich attendees from Apollo to check for new ones.'}
+                </p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {jobChanges.map(jobChange => (
+                  <JobChangeItem
+                    key={jobChange.id}
+                    jobChange={jobChange}
+                    onApply={canResolve ? handleApply : undefined}
+                    onDismiss={canResolve ? handleDismiss : undefined}
+                    isSaving={savingId === jobChange.id}
+                  />
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </SelectionProvider>
+  )
+}
@@ -0,0 +1,177 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { SparklesIcon } from '@heroicons/react/24/outline'
+import { TabNavigation } from '@/components/layout/TabNavigation'
+import { SelectionProvider } from '@/lib/context/SelectionContext'
+import { AIEnrichmentJobItem } from '@/components/features/ai-enrichment/AIEnrichmentJobItem'
+import { AIEnrichmentResultsDialog } from '@/components/features/ai-enrichment/AIEnrichmentResultsDialog'
+import { useAuth } from '@/hooks/useAuth'
+import { useRole } from '@/hooks/useRole'
+import { AIEnrichmentResult } from '@/lib/ai'
+import { fetchTeamMembers } from '@/lib/tasks'
+import {
+  fetchAIEnrichmentJobs,
+  fetchAIEnrichmentJobResults,
+  applyAIEnrichmentJobResults,
+  cancelAIEnrichmentJob,
+  retryAIEnrichmentJob,
+  startAIEnrichmentWorker,
+  isActiveJob,
+  AIEnrichmentJob
+} from '@/lib/aiEnrichmentJobs'
+
+// Define tabs for navigation
+const tabs = [
+  { id: 'attendees', label: 'Attendees', href: '/attendees' },
+  { id: 'health-systems', label: 'Health Systems', href: '/health-systems' },
+  { id: 'conferences', label: 'Conferences', href: '/conferences' },
+]
+
+// How often the list is refreshed while jobs are running
+const JOBS_POLL_INTERVAL_MS = 5000
+
+export default function JobsPage() {
+  const { user } = useAuth()
+  const { can } = useRole()
+  const [jobs, setJobs] = useState<AIEnrichmentJob[]>([])
+  const [emails, setEmails] = useState<Record<string, string>>({})
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [resultsJob, setResultsJob] = useState<AIEnrichmentJob | null>(null)
+  const [results, setResults] = useState<AIEnrichmentResult[]>([])
+
+  const loadJobs = useCallback(async () => {
+    try {
+      setJobs(await fetchAIEnrichmentJobs())
+    } catch (err) {
+      console.error('Error loading jobs:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load jobs')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!user) return
+
+    const loadPage = async () => {
+      setIsLoading(true)
+      setError(null)
+      await loadJobs()
+      setIsLoading(false)
+
+      try {
+        const members = await fetchTeamMembers()
+        setEmails(Object.fromEntries(members.map(member => [member.id, member.email])))
+      } catch (err) {
+        console.error('Error loading team members:', err)
+      }
+    }
+
+    loadPage()
+  }, [user, loadJobs])
+
+  const hasActiveJobs = jobs.some(isActiveJob)
+
+  useEffect(() => {
+    if (!hasActiveJobs) return
+    const interval = setInterval(loadJobs, JOBS_POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [hasActiveJobs, loadJobs])
+
+  // Run an action on a job and reload the list
+  const runAction = async (job: AIEnrichmentJob, action: () => Promise<void>, failureMessage: string) => {
+    setSavingId(job.id)
+    try {
+      await action()
+      await loadJobs()
+    } catch (err) {
+      console.error(`${failureMessage}:`, err)
+      alert(`${failureMessage}: ` + (err instanceof Error ? err.message : 'Unknown error'))
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const handleCancel = (job: AIEnrichmentJob) => {
+    if (!confirm('Cancel this enrichment job? Items already enriched are kept.')) return
+    runAction(job, () => cancelAIEnrichmentJob(job.id), 'Failed to cancel job')
+  }
+
+  const handleRetry = (job: AIEnrichmentJob) =>
+    runAction(job, async () => {
+      await retryAIEnrichmentJob(job.id)
+      startAIEnrichmentWorker()
+    }, 'Failed to retry job')
+
+  // Values are written to the records the first time a job's results are opened
+  const handleViewResults = (job: AIEnrichmentJob) =>
+    runAction(job, async () => {
+      await applyAIEnrichmentJobResults(job)
+      setResults(await fetchAIEnrichmentJobResults(job.id))
+      setResultsJob(job)
+    }, 'Failed to load results')
+
+  const canRun = can('runAIEnrichment')
+
+  return (
+    <SelectionProvider>
+      <div className="flex h-screen">
+        <TabNavigation
+          tabs={tabs}
+          activeTab="jobs"
+        />
+
+        <div className="flex-1 overflow-auto">
+          <div className="max-w-6xl px-4 sm:px-6 lg:px-8 py-6">
+            <div className="mb-6">
+              <h1 className="text-xl font-semibold text-gray-900">Jobs</h1>
+              <p className="text-sm text-gray-500">
+                AI enrichment runs, processed on the server so they carry on after the dialog or tab is closed.
+                Opening a finished job&apos;s results writes its values to the records.
+              </p>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-10 w-10 border-2 border-primary-600 border-t-transparent"></div>
+              </div>
+            ) : jobs.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-64 bg-gray-50 rounded-lg border border-gray-200">
+                <SparklesIcon className="h-12 w-12 text-gray-400 mb-2" />
+                <p className="text-gray-500">No jobs yet. AI enrichment runs show up here.</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200 bg-white px-4">
+                {jobs.map(job => (
+                  <AIEnrichmentJobItem
+                    key={job.id}
+                    job={job}
+                    createdByEmail={job.createdBy && job.createdBy !== user?.id ? emails[job.createdBy] : undefined}
+                    onCancel={canRun ? handleCancel : undefined}
+                    onRetry={canRun ? handleRetry : undefined}
+                    onViewResults={canRun ? handleViewResults : undefined}
+                    isSaving={savingId === job.id}
+                  />
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <AIEnrichmentResultsDialog
+        isOpen={!!resultsJob}
+        onClose={() => setResultsJob(null)}
+        results={results}
+        outputFields={resultsJob?.outputFields || []}
+      />
+    </SelectionProvider>
+  )
+}
@@ -16,10 +16,12 @@ import { PropertiesMenu } from '@/components/ui/menus/PropertiesMenu'
 import { DataTable } from '@/components/features/common/DataTable'
 import { ItemCard } from '@/components/features/common/ItemCard'
 import { useColumnManagement } from '@/hooks/useColumnManagement'
+import { useAIProvenance } from '@/hooks/useAIProvenance'
 import { ActionBar } from '@/components/layout/ActionBar'
 import { LoadMoreButton } from '@/components/ui/LoadMoreButton'
 import { SelectAllButton } from '@/components/features/common/SelectAllButton'
-import type { Attendee } from '@/types'
+import { isSortableProperty } from '@/lib/queryFilters'
+import type { Attendee, SortOption, FilterNode } from '@/types'
 import { ColumnDef } from '@tanstack/react-table'
 import { supabase } from '@/lib/supabase'
 
@@ -35,14 +37,10 @@ interface FetchOptionsExtended {
   page?: number
   pageSize?: number
   searchTerm?: string
-  filters?: Array<{
-    id: string
-    property: string
-    operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than' | 'not_contains'
-    value: string
-  }>
+  filters?: FilterNode[]
   entityType?: 'attendees' | 'health-systems' | 'conferences'
   listId?: string | null
+  sort?: SortOption | null
 }
 
 export default function ListDetailPage() {
@@ -52,18 +50,15 @@ export default function ListDetailPage() {
   const [currentList, setCurrentList] = useState<List | null>(null)
   
   const { attendees, healthSystems: _healthSystems, conferences: _conferences, isLoading, error, totalCount, fetchData, hasMore, currentPage, setCurrentPage: _setCurrentPage } = useDataFetching()
+  const aiProvenance = useAIProvenance('attendees', attendees)
   
   // UI state
   const [view, setView] = useState<'table' | 'cards'>('cards')
   const [columnsPerRow, setColumnsPerRow] = useState(3)
   const [activeMenu, setActiveMenu] = useState<'filter' | 'properties' | 'view-settings' | null>(null)
   const [searchTerm, setSearchTerm] = useState('')
-  const [activeFilters, setActiveFilters] = useState<Array<{
-    id: string
-    property: string
-    operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than' | 'not_contains'
-    value: string
-  }>>([])
+  const [activeFilters, setActiveFilters] = useState<FilterNode[]>([])
+  const [sort, setSort] = useState<SortOption | null>(null)
   const [isSelectingAll, setIsSelectingAll] = useState(false)
   
   // List state
@@ -160,28 +155,38 @@ export default function ListDetailPage() {
       page: 0,
       searchTerm: term,
       filters: activeFilters,
+      sort,
       entityType: 'attendees',
       listId: listId
     } as FetchOptionsExtended);
-  }, [activeFilters, fetchData, listId]);
+  }, [activeFilters, sort, fetchData, listId]);
 
   // Filter handler
-  const handleFilterChange = useCallback((filters: Array<{
-    id: string
-    property: string
-    operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than' | 'not_contains'
-    value: string
-  }>) => {
+  const handleFilterChange = useCallback((filters: FilterNode[]) => {
     setActiveFilters(filters);
     // Fetch with updated filters - reset to page 0
     fetchData({
       page: 0,
       searchTerm,
       filters,
+      sort,
       entityType: 'attendees',
       listId: listId
     } as FetchOptionsExtended);
-  }, [searchTerm, fetchData, listId]);
+  }, [searchTerm, sort, fetchData, listId]);
+
+  // Sort handler - ordering happens on the server, so refetch from the first page
+  const handleSortChange = useCallback((newSort: SortOption | null) => {
+    setSort(newSort);
+    fetchData({
+      page: 0,
+      searchTerm,
+      filters: activeFilters,
+      sort: newSort,
+      entityType: 'attendees',
+      listId: listId
+    } as FetchOptionsExtended);
+  }, [searchTerm, activeFilters, fetchData, listId]);
 
   // Handle menu toggle
   const handleMenuToggle = useCallback((menu: 'filter' | 'properties' | 'view-settings') => {
@@ -227,10 +232,11 @@ export default function ListDetailPage() {
       page: nextPage,
       searchTerm,
       filters: activeFilters,
+      sort,
       entityType: 'attendees',
       listId: listId
     } as FetchOptionsExtended);
-  }, [currentPage, searchTerm, activeFilters, fetchData, listId, isLoading]);
+  }, [currentPage, searchTerm, activeFilters, sort, fetchData, listId, isLoading]);
 
   return (
     <SelectionProvider>
@@ -259,7 +265,7 @@ export default function ListDetailPage() {
                 
                 {/* Show results count */}
                 <div className="text-sm text-gray-500 ml-1">
-                  <span>{currentList ? `${attendees.length} attendees in ${currentList.name}` : 'Loading...'}</span>
+                  <span>{currentList ? `${totalCount.attendees} ${searchTerm || activeFilters.length > 0 ? 'matching ' : ''}attendees in ${currentList.name}` : 'Loading...'}</span>
                   {searchTerm && (
                     <span> • Filtered by search: &quot;{searchTerm}&quot;</span>
                   )}
@@ -277,6 +283,7 @@ export default function ListDetailPage() {
                   allColumns={allColumns}
                   isLoading={isLoading}
                   activeFilters={activeFilters}
+                  tableName="attendees"
                 />
                 
                 <PropertiesMenu
@@ -310,6 +317,7 @@ export default function ListDetailPage() {
                     currentFilters={activeFilters}
                     searchTerm={searchTerm}
                     listId={listId}
+                    totalCount={totalCount.attendees}
                     onSelectStateChange={setIsSelectingAll}
                   />
                 </div>
@@ -343,6 +351,10 @@ export default function ListDetailPage() {
                     data={attendees}
                     columns={getVisibleColumns() as ColumnDef<Attendee>[]}
                     onRowClick={(attendee) => router.push(`/attendees/${attendee.id}`)}
+                    sort={sort}
+                    onSortChange={handleSortChange}
+                    canSort={(columnId) => isSortableProperty('attendees', columnId)}
+                    provenance={aiProvenance}
                   />
                 </div>
               ) : (
@@ -361,6 +373,8 @@ export default function ListDetailPage() {
                       onClick={() => router.push(`/attendees/${attendee.id}`)}
                       item={attendee}
                       fields={getFieldsForItem(attendee)}
+                      provenance={aiProvenance[attendee.id]}
+                      tags={attendee.apollo_contact_id ? [{ text: 'In Apollo', color: 'accent' }] : undefined}
                     />
                   ))}
                 </div>
@@ -397,6 +411,14 @@ export default function ListDetailPage() {
             entityType: 'attendees', 
             listId: listId 
           } as FetchOptionsExtended)}
+          onOwnerAssigned={() => fetchData({ 
+            entityType: 'attendees', 
+            listId: listId 
+          } as FetchOptionsExtended)}
+          onApolloSynced={() => fetchData({ 
+            entityType: 'attendees', 
+            listId: listId 
+          } as FetchOptionsExtended)}
           conferenceName=""
           activeListId={listId}
           onListDelete={() => {
@@ -0,0 +1,137 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { AdjustmentsHorizontalIcon, QuestionMarkCircleIcon } from '@heroicons/react/24/outline'
+import { TabNavigation } from '@/components/layout/TabNavigation'
+import { SelectionProvider } from '@/lib/context/SelectionContext'
+import { ApolloMatchReviewCard } from '@/components/features/apollo/ApolloMatchReviewCard'
+import { ApolloMatchSettingsDialog } from '@/components/features/apollo/ApolloMatchSettingsDialog'
+import { useAuth } from '@/hooks/useAuth'
+import { useRole } from '@/hooks/useRole'
+import { fetchPendingMatchReviews, acceptMatchReview, rejectMatchReview, ApolloMatchReview, ScoredApolloCandidate } from '@/lib/apolloMatching'
+
+// Define tabs for navigation
+const tabs = [
+  { id: 'attendees', label: 'Attendees', href: '/attendees' },
+  { id: 'health-systems', label: 'Health Systems', href: '/health-systems' },
+  { id: 'conferences', label: 'Conferences', href: '/conferences' },
+]
+
+export default function MatchReviewPage() {
+  const { user } = useAuth()
+  const { can } = useRole()
+  const [reviews, setReviews] = useState<ApolloMatchReview[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+
+  useEffect(() => {
+    if (!user) return
+
+    const loadReviews = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        setReviews(await fetchPendingMatchReviews())
+      } catch (err) {
+        console.error('Error loading match reviews:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load match reviews')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadReviews()
+  }, [user])
+
+  // Run a decision and take the review out of the queue
+  const resolve = async (review: ApolloMatchReview, action: () => Promise<void>, failureMessage: string) => {
+    setSavingId(review.id)
+    try {
+      await action()
+      setReviews(prev => prev.filter(item => item.id !== review.id))
+    } catch (err) {
+      console.error(`${failureMessage}:`, err)
+      alert(`${failureMessage}: ` + (err instanceof Error ? err.message : 'Unknown error'))
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const handleAccept = (review: ApolloMatchReview, candidate: ScoredApolloCandidate) =>
+    resolve(review, () => acceptMatchReview(review, candidate, user?.id || null), 'Failed to accept match')
+
+  const handleReject = (review: ApolloMatchReview) =>
+    resolve(review, () => rejectMatchReview(review, user?.id || null), 'Failed to reject match')
+
+  const canResolve = can('editRecords')
+
+  return (
+    <SelectionProvider>
+      <div className="flex h-screen">
+        <TabNavigation
+          tabs={tabs}
+          activeTab="match-review"
+        />
+
+        <div className="flex-1 overflow-auto">
+          <div className="max-w-6xl px-4 sm:px-6 lg:px-8 py-6">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+              <div>
+                <h1 className="text-xl font-semibold text-gray-900">Match Review</h1>
+                <p className="text-sm text-gray-500">
+                  Low-confidence Apollo matches from bulk enrichment. Accept the best candidate, pick another or reject them all.
+                </p>
+              </div>
+
+              {can('manageEnrichmentSettings') && (
+                <button
+                  onClick={() => setIsSettingsOpen(true)}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none"
+                >
+                  <AdjustmentsHorizontalIcon className="-ml-1 mr-2 h-5 w-5" aria-hidden="true" />
+                  Match Settings
+                </button>
+              )}
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-10 w-10 border-2 border-primary-600 border-t-transparent"></div>
+              </div>
+            ) : reviews.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-64 bg-gray-50 rounded-lg border border-gray-200">
+                <QuestionMarkCircleIcon className="h-12 w-12 text-gray-400 mb-2" />
+                <p className="text-gray-500">No matches to review. Low-confidence matches from Apollo enrichment show up here.</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {reviews.map(review => (
+                  <ApolloMatchReviewCard
+                    key={review.id}
+                    review={review}
+                    onAccept={canResolve ? handleAccept : undefined}
+                    onReject={canResolve ? handleReject : undefined}
+                    isSaving={savingId === review.id}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <ApolloMatchSettingsDialog
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+      />
+    </SelectionProvider>
+  )
+}
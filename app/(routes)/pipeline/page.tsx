@@ -0,0 +1,182 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { PlusIcon, AdjustmentsHorizontalIcon, BriefcaseIcon } from '@heroicons/react/24/outline'
+import { TabNavigation } from '@/components/layout/TabNavigation'
+import { SelectionProvider } from '@/lib/context/SelectionContext'
+import { useRole } from '@/hooks/useRole'
+import { PipelineBoard } from '@/components/features/opportunities/PipelineBoard'
+import { OpportunityDialog } from '@/components/features/opportunities/OpportunityDialog'
+import { StageSettingsDialog } from '@/components/features/opportunities/StageSettingsDialog'
+import {
+  fetchOpportunities,
+  fetchOpportunityStages,
+  moveOpportunityToStage,
+  formatAmount,
+  Opportunity,
+  OpportunityStage
+} from '@/lib/opportunities'
+
+// Define tabs for navigation
+const tabs = [
+  { id: 'attendees', label: 'Attendees', href: '/attendees' },
+  { id: 'health-systems', label: 'Health Systems', href: '/health-systems' },
+  { id: 'conferences', label: 'Conferences', href: '/conferences' },
+]
+
+export default function PipelinePage() {
+  const { can } = useRole()
+  const [stages, setStages] = useState<OpportunityStage[]>([])
+  const [opportunities, setOpportunities] = useState<Opportunity[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingOpportunity, setEditingOpportunity] = useState<Opportunity | null>(null)
+  const [isStageSettingsOpen, setIsStageSettingsOpen] = useState(false)
+
+  const loadStages = useCallback(async () => {
+    try {
+      setStages(await fetchOpportunityStages())
+    } catch (err) {
+      console.error('Error loading stages:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load stages')
+    }
+  }, [])
+
+  useEffect(() => {
+    const loadPipeline = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const [loadedStages, loadedOpportunities] = await Promise.all([
+          fetchOpportunityStages(),
+          fetchOpportunities()
+        ])
+        setStages(loadedStages)
+        setOpportunities(loadedOpportunities)
+      } catch (err) {
+        console.error('Error loading pipeline:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load pipeline')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadPipeline()
+  }, [])
+
+  const openDialog = (opportunity: Opportunity | null) => {
+    setEditingOpportunity(opportunity)
+    setIsDialogOpen(true)
+  }
+
+  // Move the card right away and put it back if saving fails
+  const handleMove = async (opportunity: Opportunity, stageId: string) => {
+    setOpportunities(prev => prev.map(item => item.id === opportunity.id ? { ...item, stageId } : item))
+    try {
+      await moveOpportunityToStage(opportunity.id, stageId)
+    } catch (err) {
+      console.error('Failed to move opportunity:', err)
+      setOpportunities(prev => prev.map(item => item.id === opportunity.id ? { ...item, stageId: opportunity.stageId } : item))
+      alert('Failed to move opportunity: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    }
+  }
+
+  const handleSaved = (saved: Opportunity) => {
+    setOpportunities(prev => prev.some(opportunity => opportunity.id === saved.id)
+      ? prev.map(opportunity => opportunity.id === saved.id ? saved : opportunity)
+      : [saved, ...prev]
+    )
+  }
+
+  const closedStageIds = new Set(stages.filter(stage => stage.isClosed).map(stage => stage.id))
+  const openOpportunities = opportunities.filter(opportunity => !closedStageIds.has(opportunity.stageId))
+  const openTotal = openOpportunities.reduce((sum, opportunity) => sum + (opportunity.amount || 0), 0)
+
+  return (
+    <SelectionProvider>
+      <div className="flex h-screen">
+        <TabNavigation
+          tabs={tabs}
+          activeTab="pipeline"
+        />
+
+        <div className="flex-1 overflow-auto">
+          <div className="px-4 sm:px-6 lg:px-8 py-6">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+              <div>
+                <h1 className="text-xl font-semibold text-gray-900">Pipeline</h1>
+                <p className="text-sm text-gray-500">
+                  {openOpportunities.length} open {openOpportunities.length === 1 ? 'opportunity' : 'opportunities'} · {formatAmount(openTotal)}
+                </p>
+              </div>
+
+              <div className="flex items-center gap-2">
+                {can('managePipeline') && (
+                  <button
+                    onClick={() => setIsStageSettingsOpen(true)}
+                    className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none"
+                  >
+                    <AdjustmentsHorizontalIcon className="-ml-1 mr-2 h-5 w-5 text-gray-400" aria-hidden="true" />
+                    Stages
+                  </button>
+                )}
+                {can('editRecords') && (
+                  <button
+                    onClick={() => openDialog(null)}
+                    disabled={stages.length === 0}
+                    className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <PlusIcon className="-ml-1 mr-2 h-5 w-5" aria-hidden="true" />
+                    New Opportunity
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-10 w-10 border-2 border-primary-600 border-t-transparent"></div>
+              </div>
+            ) : stages.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-64 bg-gray-50 rounded-lg border border-gray-200">
+                <BriefcaseIcon className="h-12 w-12 text-gray-400 mb-2" />
+                <p className="text-gray-500">No pipeline stages yet. Add stages to start tracking opportunities.</p>
+              </div>
+            ) : (
+              <PipelineBoard
+                stages={stages}
+                opportunities={opportunities}
+                onMove={handleMove}
+                onOpen={openDialog}
+                canMove={can('editRecords')}
+              />
+            )}
+          </div>
+        </div>
+      </div>
+
+      <OpportunityDialog
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        stages={stages}
+        opportunity={editingOpportunity}
+        onSaved={handleSaved}
+        onDeleted={(opportunityId) => setOpportunities(prev => prev.filter(opportunity => opportunity.id !== opportunityId))}
+      />
+
+      <StageSettingsDialog
+        isOpen={isStageSettingsOpen}
+        onClose={() => setIsStageSettingsOpen(false)}
+        stages={stages}
+        onChanged={loadStages}
+      />
+    </SelectionProvider>
+  )
+}
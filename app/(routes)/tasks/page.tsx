@@ -0,0 +1,189 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { PlusIcon, CheckCircleIcon } from '@heroicons/react/24/outline'
+import { TabNavigation } from '@/components/layout/TabNavigation'
+import { SelectionProvider } from '@/lib/context/SelectionContext'
+import { TaskDialog } from '@/components/features/tasks/TaskDialog'
+import { TaskItem } from '@/components/features/tasks/TaskItem'
+import { useAuth } from '@/hooks/useAuth'
+import { fetchAssignedTasks, groupTasksByDue, setTaskCompleted, deleteTask, Task } from '@/lib/tasks'
+
+// Define tabs for navigation
+const tabs = [
+  { id: 'attendees', label: 'Attendees', href: '/attendees' },
+  { id: 'health-systems', label: 'Health Systems', href: '/health-systems' },
+  { id: 'conferences', label: 'Conferences', href: '/conferences' },
+]
+
+const TASK_SECTIONS = [
+  { key: 'overdue', label: 'Overdue', className: 'text-red-600' },
+  { key: 'today', label: 'Today', className: 'text-gray-900' },
+  { key: 'upcoming', label: 'Upcoming', className: 'text-gray-900' },
+  { key: 'noDueDate', label: 'No due date', className: 'text-gray-500' },
+] as const
+
+export default function TasksPage() {
+  const { user } = useAuth()
+  const [tasks, setTasks] = useState<Task[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showCompleted, setShowCompleted] = useState(false)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+
+  useEffect(() => {
+    if (!user) return
+
+    const loadTasks = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        setTasks(await fetchAssignedTasks(user.id, showCompleted))
+      } catch (err) {
+        console.error('Error loading tasks:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load tasks')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadTasks()
+  }, [user, showCompleted])
+
+  // Tick the task off right away and undo it if saving fails
+  const handleToggle = async (task: Task) => {
+    const completedAt = task.completedAt ? null : new Date().toISOString()
+    setTasks(prev => prev.map(item => item.id === task.id ? { ...item, completedAt } : item))
+    try {
+      await setTaskCompleted(task.id, !!completedAt)
+    } catch (err) {
+      console.error('Failed to update task:', err)
+      setTasks(prev => prev.map(item => item.id === task.id ? { ...item, completedAt: task.completedAt } : item))
+      alert('Failed to update task: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    }
+  }
+
+  const handleDelete = async (task: Task) => {
+    if (!confirm('Are you sure you want to delete this task?')) return
+
+    try {
+      await deleteTask(task.id)
+      setTasks(prev => prev.filter(item => item.id !== task.id))
+    } catch (err) {
+      console.error('Failed to delete task:', err)
+      alert('Failed to delete task: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    }
+  }
+
+  const handleCreated = (created: Task[]) => {
+    setTasks(prev => [...prev, ...created.filter(task => task.assignedTo === user?.id)])
+  }
+
+  const openTasks = tasks.filter(task => !task.completedAt)
+  const completedTasks = tasks.filter(task => task.completedAt)
+  const groups = groupTasksByDue(openTasks)
+
+  return (
+    <SelectionProvider>
+      <div className="flex h-screen">
+        <TabNavigation
+          tabs={tabs}
+          activeTab="tasks"
+        />
+
+        <div className="flex-1 overflow-auto">
+          <div className="max-w-3xl px-4 sm:px-6 lg:px-8 py-6">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+              <div>
+                <h1 className="text-xl font-semibold text-gray-900">My Tasks</h1>
+                <p className="text-sm text-gray-500">
+                  {openTasks.length} open{groups.overdue.length > 0 && ` · ${groups.overdue.length} overdue`}
+                </p>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setShowCompleted(!showCompleted)}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none"
+                >
+                  {showCompleted ? 'Hide completed' : 'Show completed'}
+                </button>
+                <button
+                  onClick={() => setIsDialogOpen(true)}
+                  className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                  <PlusIcon className="-ml-1 mr-2 h-5 w-5" aria-hidden="true" />
+                  New Task
+                </button>
+              </div>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-10 w-10 border-2 border-primary-600 border-t-transparent"></div>
+              </div>
+            ) : tasks.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-64 bg-gray-50 rounded-lg border border-gray-200">
+                <CheckCircleIcon className="h-12 w-12 text-gray-400 mb-2" />
+                <p className="text-gray-500">You&apos;re all caught up. Tasks assigned to you will show up here.</p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {TASK_SECTIONS.filter(section => groups[section.key].length > 0).map(section => (
+                  <section key={section.key}>
+                    <h2 className={`text-sm font-medium ${section.className}`}>
+                      {section.label}
+                      <span className="ml-2 text-xs font-normal text-gray-500">{groups[section.key].length}</span>
+                    </h2>
+                    <ul className="mt-1 divide-y divide-gray-100">
+                      {groups[section.key].map(task => (
+                        <TaskItem
+                          key={task.id}
+                          task={task}
+                          onToggle={handleToggle}
+                          onDelete={task.createdBy === user?.id ? handleDelete : undefined}
+                        />
+                      ))}
+                    </ul>
+                  </section>
+                ))}
+
+                {showCompleted && completedTasks.length > 0 && (
+                  <section>
+                    <h2 className="text-sm font-medium text-gray-500">
+                      Completed
+                      <span className="ml-2 text-xs font-normal">{completedTasks.length}</span>
+                    </h2>
+                    <ul className="mt-1 divide-y divide-gray-100">
+                      {completedTasks.map(task => (
+                        <TaskItem
+                          key={task.id}
+                          task={task}
+                          onToggle={handleToggle}
+                          onDelete={task.createdBy === user?.id ? handleDelete : undefined}
+                        />
+                      ))}
+                    </ul>
+                  </section>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <TaskDialog
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        targets={[]}
+        onCreated={handleCreated}
+      />
+    </SelectionProvider>
+  )
+}
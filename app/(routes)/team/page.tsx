@@ -0,0 +1,133 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { UsersIcon } from '@heroicons/react/24/outline'
+import { TabNavigation } from '@/components/layout/TabNavigation'
+import { SelectionProvider } from '@/lib/context/SelectionContext'
+import { useAuth } from '@/hooks/useAuth'
+import { useRole } from '@/hooks/useRole'
+import { fetchUserRoles, setUserRole, Role, ROLES, ROLE_LABELS, UserRole } from '@/lib/permissions'
+
+// Define tabs for navigation
+const tabs = [
+  { id: 'attendees', label: 'Attendees', href: '/attendees' },
+  { id: 'health-systems', label: 'Health Systems', href: '/health-systems' },
+  { id: 'conferences', label: 'Conferences', href: '/conferences' },
+]
+
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  admin: 'Everything, including adding columns, deleting and merging records, Apollo and Definitive enrichments and managing roles',
+  manager: 'Edits records, sets up pipeline stages, assigns owners and tunes Apollo matching',
+  rep: 'Creates and edits records, logs activities and runs AI enrichments',
+  read_only: 'Views records only',
+}
+
+export default function TeamPage() {
+  const { user } = useAuth()
+  const { can, isLoading: roleLoading } = useRole()
+  const [members, setMembers] = useState<UserRole[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadMembers = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        setMembers(await fetchUserRoles())
+      } catch (err) {
+        console.error('Error loading team:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load team')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadMembers()
+  }, [])
+
+  const handleRoleChange = async (member: UserRole, role: Role) => {
+    if (member.id === user?.id && role !== 'admin' && !confirm('You will lose admin access. Continue?')) return
+
+    setSavingId(member.id)
+    try {
+      await setUserRole(member.id, role)
+      setMembers(prev => prev.map(item => item.id === member.id ? { ...item, role } : item))
+    } catch (err) {
+      console.error('Failed to change role:', err)
+      alert('Failed to change role: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const canManageRoles = can('manageRoles')
+
+  return (
+    <SelectionProvider>
+      <div className="flex h-screen">
+        <TabNavigation
+          tabs={tabs}
+          activeTab="team"
+        />
+
+        <div className="flex-1 overflow-auto">
+          <div className="max-w-3xl px-4 sm:px-6 lg:px-8 py-6">
+            <div className="mb-6">
+              <h1 className="text-xl font-semibold text-gray-900">Team</h1>
+              <p className="text-sm text-gray-500">
+                {canManageRoles ? 'Choose what each team member can do.' : 'Only admins can change roles.'}
+              </p>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            {isLoading || roleLoading ? (
+              <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-10 w-10 border-2 border-primary-600 border-t-transparent"></div>
+              </div>
+            ) : members.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-64 bg-gray-50 rounded-lg border border-gray-200">
+                <UsersIcon className="h-12 w-12 text-gray-400 mb-2" />
+                <p className="text-gray-500">No team members found</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200 bg-white">
+                {members.map(member => (
+                  <li key={member.id} className="flex items-center justify-between gap-x-4 px-4 py-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {member.email}
+                        {member.id === user?.id && <span className="ml-1 text-gray-500">(you)</span>}
+                      </p>
+                      <p className="text-xs text-gray-500">{ROLE_DESCRIPTIONS[member.role]}</p>
+                    </div>
+                    {canManageRoles ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleRoleChange(member, e.target.value as Role)}
+                        disabled={savingId === member.id}
+                        className="block px-3 py-1.5 text-sm border border-gray-300 rounded-md bg-white focus:ring-primary-500 focus:border-primary-500 disabled:opacity-50"
+                      >
+                        {ROLES.map(role => (
+                          <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-sm text-gray-700">{ROLE_LABELS[member.role]}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </SelectionProvider>
+  )
+}
@@ -0,0 +1,219 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { ChartBarIcon } from '@heroicons/react/24/outline'
+import { TabNavigation } from '@/components/layout/TabNavigation'
+import { SelectionProvider } from '@/lib/context/SelectionContext'
+import { ProviderBudgetCard, formatDollars } from '@/components/features/usage'
+import { useAuth } from '@/hooks/useAuth'
+import { useRole } from '@/hooks/useRole'
+import { fetchTeamMembers } from '@/lib/tasks'
+import {
+  fetchUsageTotals,
+  fetchEnrichmentBudgets,
+  saveEnrichmentBudget,
+  UsageTotals,
+  UsageProvider,
+  EnrichmentBudget,
+  BudgetMode,
+  USAGE_PROVIDERS,
+  USAGE_PROVIDER_LABELS
+} from '@/lib/enrichmentUsage'
+
+// Define tabs for navigation
+const tabs = [
+  { id: 'attendees', label: 'Attendees', href: '/attendees' },
+  { id: 'health-systems', label: 'Health Systems', href: '/health-systems' },
+  { id: 'conferences', label: 'Conferences', href: '/conferences' },
+]
+
+// Months that can be picked, newest first, as YYYY-MM in UTC like the usage log
+const MONTHS_SHOWN = 6
+
+const recentMonths = () => {
+  const now = new Date()
+  return Array.from({ length: MONTHS_SHOWN }, (_, index) => {
+    const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - index, 1))
+    return {
+      value: month.toISOString().slice(0, 7),
+      label: month.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+    }
+  })
+}
+
+const formatNumber = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 2 })
+
+export default function UsagePage() {
+  const { user } = useAuth()
+  const { can } = useRole()
+  const months = useMemo(recentMonths, [])
+  const [month, setMonth] = useState(months[0].value)
+  const [totals, setTotals] = useState<UsageTotals[]>([])
+  const [budgets, setBudgets] = useState<EnrichmentBudget[]>([])
+  const [emails, setEmails] = useState<Record<string, string>>({})
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [savingProvider, setSavingProvider] = useState<UsageProvider | null>(null)
+
+  useEffect(() => {
+    if (!user) return
+
+    const loadTeam = async () => {
+      try {
+        const [members, savedBudgets] = await Promise.all([fetchTeamMembers(), fetchEnrichmentBudgets()])
+        setEmails(Object.fromEntries(members.map(member => [member.id, member.email])))
+        setBudgets(savedBudgets)
+      } catch (err) {
+        console.error('Error loading budgets:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load budgets')
+      }
+    }
+
+    loadTeam()
+  }, [user])
+
+  useEffect(() => {
+    if (!user) return
+
+    const loadUsage = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        setTotals(await fetchUsageTotals(month))
+      } catch (err) {
+        console.error('Error loading usage:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load usage')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadUsage()
+  }, [user, month])
+
+  const spendByProvider = useMemo(() => {
+    const spend: Record<UsageProvider, number> = { apollo: 0, definitive: 0, openai: 0, gemini: 0, anthropic: 0 }
+    totals.forEach(total => {
+      spend[total.provider] += total.estimatedCost
+    })
+    return spend
+  }, [totals])
+
+  // Biggest spenders first
+  const rows = useMemo(() => [...totals].sort((a, b) => b.estimatedCost - a.estimatedCost), [totals])
+
+  const handleSaveBudget = async (provider: UsageProvider, monthlyLimit: number | null, mode: BudgetMode) => {
+    setSavingProvider(provider)
+    try {
+      await saveEnrichmentBudget(provider, monthlyLimit, mode)
+      setBudgets(prev => [
+        ...prev.filter(budget => budget.provider !== provider),
+        ...(monthlyLimit === null ? [] : [{ provider, monthlyLimit, mode }])
+      ])
+    } catch (err) {
+      console.error('Failed to save budget:', err)
+      alert('Failed to save budget: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    } finally {
+      setSavingProvider(null)
+    }
+  }
+
+  const canManageBudgets = can('manageEnrichmentSettings')
+  const userLabel = (userId: string | null) =>
+    userId === null ? 'Scheduled jobs' : `${emails[userId] || 'Former team member'}${userId === user?.id ? ' (you)' : ''}`
+
+  return (
+    <SelectionProvider>
+      <div className="flex h-screen">
+        <TabNavigation
+          tabs={tabs}
+          activeTab="usage"
+        />
+
+        <div className="flex-1 overflow-auto">
+          <div className="max-w-6xl px-4 sm:px-6 lg:px-8 py-6">
+            <div className="mb-6 flex items-start justify-between gap-x-4">
+              <div>
+                <h1 className="text-xl font-semibold text-gray-900">Usage</h1>
+                <p className="text-sm text-gray-500">
+                  Apollo, Definitive and AI calls with their estimated cost. Budgets cover the whole team for each calendar month (UTC).
+                  {!canManageBudgets && ' Only your own usage is shown.'}
+                </p>
+              </div>
+              <select
+                value={month}
+                onChange={(e) => setMonth(e.target.value)}
+                className="block px-3 py-1.5 text-sm border border-gray-300 rounded-md bg-white focus:ring-primary-500 focus:border-primary-500"
+              >
+                {months.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="mb-6 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              {USAGE_PROVIDERS.map(provider => (
+                <ProviderBudgetCard
+                  key={provider}
+                  provider={provider}
+                  spend={spendByProvider[provider]}
+                  budget={budgets.find(budget => budget.provider === provider)}
+                  onSave={canManageBudgets ? handleSaveBudget : undefined}
+                  isSaving={savingProvider === provider}
+                />
+              ))}
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-10 w-10 border-2 border-primary-600 border-t-transparent"></div>
+              </div>
+            ) : rows.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-64 bg-gray-50 rounded-lg border border-gray-200">
+                <ChartBarIcon className="h-12 w-12 text-gray-400 mb-2" />
+                <p className="text-gray-500">No usage this month</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto rounded-lg border border-gray-200 bg-white">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-700">Team member</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-700">Provider</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-700">Calls</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-700">Records</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-700">Credits</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-700">Tokens in / out</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-700">Estimated cost</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {rows.map(row => (
+                      <tr key={`${row.userId}:${row.provider}`}>
+                        <td className="px-4 py-2 text-gray-900">{userLabel(row.userId)}</td>
+                        <td className="px-4 py-2 text-gray-700">{USAGE_PROVIDER_LABELS[row.provider]}</td>
+                        <td className="px-4 py-2 text-right text-gray-700">{formatNumber(row.calls)}</td>
+                        <td className="px-4 py-2 text-right text-gray-700">{formatNumber(row.records)}</td>
+                        <td className="px-4 py-2 text-right text-gray-700">{formatNumber(row.credits)}</td>
+                        <td className="px-4 py-2 text-right text-gray-700">
+                          {row.inputTokens || row.outputTokens ? `${formatNumber(row.inputTokens)} / ${formatNumber(row.outputTokens)}` : '—'}
+                        </td>
+                        <td className="px-4 py-2 text-right font-medium text-gray-900">{formatDollars(row.estimatedCost)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </SelectionProvider>
+  )
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/apiAuth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { processAIEnrichmentJobs } from '@/lib/aiEnrichmentWorker';
+
+// A run works through batches for up to WORKER_TIME_BUDGET_MS, leaving time to release the job before the limit
+export const maxDuration = 300;
+const WORKER_TIME_BUDGET_MS = 240 * 1000;
+
+// The scheduler calls with CRON_SECRET as its bearer token; the app also starts a run when someone queues a job
+async function work(request: Request) {
+  const startedAt = Date.now();
+  const cronSecret = process.env.CRON_SECRET;
+  const isScheduled = !!cronSecret && request.headers.get('authorization') === `Bearer ${cronSecret}`;
+
+  if (!isScheduled) {
+    const auth = await authorizeRequest(request, 'runAIEnrichment');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+  }
+
+  // Jobs are read and updated for everyone who queued them, so the worker needs the service role
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json(
+      { error: 'SUPABASE_SERVICE_ROLE_KEY is not configured' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const result = await processAIEnrichmentJobs(supabaseAdmin, startedAt + WORKER_TIME_BUDGET_MS);
+    return NextResponse.json(result);
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to process AI enrichment jobs', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: Request) {
+  return work(request);
+}
+
+export async function POST(request: Request) {
+  return work(request);
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/apiAuth';
+import { LLMFeature, LLMModelsResponse } from '@/lib/llm';
+import { availableModels, modelForFeature } from '@/lib/llmProviders';
+
+// The models that are set up and the one each feature uses, for the chat's model picker and budget checks
+export async function GET(request: Request) {
+  const auth = await authorizeRequest(request);
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  const features: LLMFeature[] = ['enrichment', 'enrichmentFallback', 'extraction', 'chat'];
+  const response: LLMModelsResponse = {
+    models: availableModels(),
+    features: Object.fromEntries(features.map(feature => [feature, modelForFeature(feature)])) as Record<LLMFeature, string>,
+  };
+
+  return NextResponse.json(response);
+}
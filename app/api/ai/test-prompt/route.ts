@@ -1,15 +1,21 @@
 import { NextResponse } from 'next/server';
-import OpenAI from 'openai';
-import { definitiveService, DefinitiveHospital } from '@/lib/definitive';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { authorizeRequest } from '@/lib/apiAuth';
+import { roleCan } from '@/lib/permissions';
+import { searchDefinitiveCatalog, fetchDefinitiveCatalogStatus } from '@/lib/definitiveCatalog';
+import { supabaseAdmin } from '@/lib/supabase';
+import { recordTokenUsage, createTokenTally, USAGE_PROVIDER_LABELS } from '@/lib/enrichmentUsage';
+import { findExhaustedAIEnrichmentBudget, buildEnrichmentSystemPrompt, answerItems } from '@/lib/aiEnrichment';
+import { generateText, modelForFeature } from '@/lib/llmProviders';
+import { validateAIOutputFields } from '@/lib/aiOutputFields';
 
 export async function POST(request: Request) {
+  const auth = await authorizeRequest(request, 'runAIEnrichment');
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
   try {
-    const { item, promptTemplate, columnName, columnType, getFieldsForAllColumns, includeDefinitiveData } = await request.json();
+    const { item, promptTemplate, outputFields, getFieldsForAllColumns, includeDefinitiveData } = await request.json();
     
     if (!item || typeof item !== 'object') {
       return NextResponse.json({ error: 'Invalid item format' }, { status: 400 });
@@ -19,24 +25,33 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Invalid prompt template' }, { status: 400 });
     }
 
-    if (!columnName || typeof columnName !== 'string') {
-      return NextResponse.json({ error: 'Invalid column name' }, { status: 400 });
+    if (!Array.isArray(outputFields)) {
+      return NextResponse.json({ error: 'Invalid output fields' }, { status: 400 });
+    }
+
+    const outputFieldsError = validateAIOutputFields(outputFields);
+    if (outputFieldsError) {
+      return NextResponse.json({ error: outputFieldsError }, { status: 400 });
     }
 
-    if (!columnType || typeof columnType !== 'string') {
-      return NextResponse.json({ error: 'Invalid column type' }, { status: 400 });
+    if (includeDefinitiveData && !roleCan(auth.role, 'runPaidEnrichment')) {
+      return NextResponse.json({ error: 'Your role does not allow Definitive lookups' }, { status: 403 });
     }
 
-    // Fetch Definitive data if requested - but just the names for initial filtering
-    let definitiveData: DefinitiveHospital[] = [];
-    let definitiveNames: string[] = [];
+    const exhaustedProvider = await findExhaustedAIEnrichmentBudget(auth.client);
+    if (exhaustedProvider) {
+      return NextResponse.json({ error: `This month's ${USAGE_PROVIDER_LABELS[exhaustedProvider]} budget is used up` }, { status: 402 });
+    }
+
+    const tally = createTokenTally();
+
+    // Definitive data comes from the stored catalog, searched by organization name below
+    let definitiveCatalogSize = 0;
     if (includeDefinitiveData) {
       try {
-        definitiveData = await definitiveService.getAllHealthSystems();
-        definitiveNames = definitiveData.map(system => system.Name);
-        console.log(`Fetched ${definitiveData.length} health system names from Definitive Healthcare for test`);
+        definitiveCatalogSize = (await fetchDefinitiveCatalogStatus(supabaseAdmin)).hospitalCount;
       } catch (error) {
-        console.error('Error fetching Definitive data for test:', error);
+        console.error('Error fetching Definitive catalog status for test:', error);
         // Continue without Definitive data if there's an error
       }
     }
@@ -62,31 +77,18 @@ export async function POST(request: Request) {
       return fieldMap.get(key) || item[variableName] || '';
     });
 
-    // Add instructions based on column type
-    let instructions = '';
-    if (columnType === 'boolean') {
-      instructions = 'Respond with only "yes" or "no".';
-    } else if (columnType === 'number') {
-      instructions = 'Respond with only a single number.';
-    } else if (columnType === 'text') {
-      instructions = 'Provide a concise, informative response.';
-    }
-
-    // Create a system prompt similar to the enrich endpoint
-    let systemPrompt = `You are an AI assistant helping to enrich data. ${instructions}
-Provide only the answer with no explanation or reasoning.
-Keep your answer as concise as possible.`;
+    // The same answer format as the enrich endpoint
+    const systemPrompt = buildEnrichmentSystemPrompt(outputFields);
 
     let definitiveSystemContent = '';
     let matchInfo = '';
     
     // Handle Definitive data in the same way as enrich endpoint
-    if (includeDefinitiveData && definitiveNames.length > 0) {
+    if (includeDefinitiveData && definitiveCatalogSize > 0) {
       // For the single item, try to find matches in Definitive data
       // First, extract potential organization names from the prompt
       try {
-        const extractionResponse = await openai.chat.completions.create({
-          model: 'gpt-3.5-turbo',
+        const extractionResponse = await generateText(modelForFeature('extraction'), {
           messages: [
             { 
               role: 'system', 
@@ -97,29 +99,17 @@ If no organization name is mentioned, respond with "NO_EXTRACTION_POSSIBLE".`
             { role: 'user', content: `Extract company/organization names from: ${prompt}` }
           ],
           temperature: 0.1,
-          max_tokens: 100,
-        });
+          maxTokens: 100,
+        }, tally);
         
-        const extractedName = extractionResponse.choices[0].message.content?.trim() || '';
+        const extractedName = extractionResponse.text.trim();
         matchInfo = `Extraction Result: ${extractedName}`;
         
         if (extractedName && extractedName !== "NO_EXTRACTION_POSSIBLE") {
-          // Look for exact matches first
-          let matches = definitiveData.filter(
-            system => system.Name.toLowerCase() === extractedName.toLowerCase()
-          );
+          // Limit to the 3 closest names to avoid overwhelming the context
+          const limitedMatches = (await searchDefinitiveCatalog(extractedName, 3, supabaseAdmin)).map(match => match.hospital);
           
-          // If no exact matches, try contains matching
-          if (matches.length === 0) {
-            matches = definitiveData.filter(
-              system => system.Name.toLowerCase().includes(extractedName.toLowerCase()) || 
-              extractedName.toLowerCase().includes(system.Name.toLowerCase())
-            );
-          }
-          
-          if (matches.length > 0) {
-            // Limit to first 3 matches to avoid overwhelming the context
-            const limitedMatches = matches.slice(0, 3);
+          if (limitedMatches.length > 0) {
             matchInfo += `\nMatches found: ${limitedMatches.map(m => m.Name).join(', ')}`;
             
             // Create detailed system content
@@ -140,12 +130,12 @@ If no organization name is mentioned, respond with "NO_EXTRACTION_POSSIBLE".`
             definitiveSystemContent += `Use this information to help with your response. Don't explicitly mention that you're using Definitive Healthcare data in your response.`;
           } else {
             // No matches found
-            definitiveSystemContent = `You checked a database of ${definitiveNames.length} health systems and did not find any matches for the organizations mentioned. Please use your general knowledge to answer the question.`;
+            definitiveSystemContent = `You checked a database of ${definitiveCatalogSize} health systems and did not find any matches for the organizations mentioned. Please use your general knowledge to answer the question.`;
             matchInfo += '\nNo matches found in the database';
           }
         } else {
           // No extraction possible
-          definitiveSystemContent = `You checked a database of ${definitiveNames.length} health systems, but no organization name could be extracted from the prompt. Please use your general knowledge to answer the question.`;
+          definitiveSystemContent = `You checked a database of ${definitiveCatalogSize} health systems, but no organization name could be extracted from the prompt. Please use your general knowledge to answer the question.`;
           matchInfo += '\nNo organization names identified to match';
         }
       } catch (extractError) {
@@ -156,70 +146,43 @@ If no organization name is mentioned, respond with "NO_EXTRACTION_POSSIBLE".`
       }
     }
 
-    // First try with gpt-3.5-turbo (cheaper)
-    const gpt35Response = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        { role: 'system', content: systemPrompt + (definitiveSystemContent ? '\n\n' + definitiveSystemContent : '') },
-        { role: 'user', content: prompt }
-      ],
-      temperature: 0,
-      max_tokens: 200,
-    });
+    const systemContent = systemPrompt + (definitiveSystemContent ? '\n\n' + definitiveSystemContent : '');
+    const preparedItem = { id: String(item.id ?? 'test'), prompt, originalItem: item };
 
-    const gpt35Content = gpt35Response.choices[0].message.content?.trim() || '';
-    let finalResponse = gpt35Content;
-    let modelUsed = 'gpt-3.5-turbo';
+    // First try with the enrichment model (cheaper)
+    const enrichmentModel = modelForFeature('enrichment');
+    let modelUsed = enrichmentModel;
+    let { answers, reply } = await answerItems(enrichmentModel, systemContent, [preparedItem], outputFields, tally);
 
-    // Check if the response is ambiguous (for boolean type) and fallback to gpt-4o if needed
-    let isAmbiguous = false;
-    if (columnType === 'boolean') {
-      const cleanResponse = gpt35Content.trim().toLowerCase();
-      if (cleanResponse !== 'yes' && cleanResponse !== 'no') {
-        isAmbiguous = true;
-      }
+    // For answers that don't fit the output fields, try with the fallback model
+    const fallbackModel = modelForFeature('enrichmentFallback');
+    if ('errors' in answers[preparedItem.id] && fallbackModel !== enrichmentModel) {
+      matchInfo += `\nFalling back to ${fallbackModel} because the answer from ${enrichmentModel} didn't fit the output fields`;
+      ({ answers, reply } = await answerItems(fallbackModel, systemContent, [preparedItem], outputFields, tally));
+      modelUsed = fallbackModel;
     }
 
-    // For ambiguous responses or other complex cases, try with gpt-4o
-    if (isAmbiguous) {
-      matchInfo += '\nFalling back to gpt-4o due to ambiguous response from gpt-3.5-turbo';
-      
-      const gpt4oResponse = await openai.chat.completions.create({
-        model: 'gpt-4o',
-        messages: [
-          { role: 'system', content: systemPrompt + (definitiveSystemContent ? '\n\n' + definitiveSystemContent : '') },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0,
-        max_tokens: 200,
-      });
-
-      finalResponse = gpt4oResponse.choices[0].message.content?.trim() || '';
-      modelUsed = 'gpt-4o';
-    }
-    
-    // Process response based on column type
-    let processedResponse;
-    if (columnType === 'boolean') {
-      processedResponse = finalResponse.toLowerCase() === 'yes';
-    } else if (columnType === 'number') {
-      processedResponse = parseFloat(finalResponse);
-      if (isNaN(processedResponse)) {
-        return NextResponse.json({ 
-          error: 'AI did not return a valid number',
-          rawResponse: finalResponse,
-          matchInfo,
-          modelUsed
-        }, { status: 400 });
-      }
-    } else {
-      processedResponse = finalResponse;
+    await recordTokenUsage(tally, {
+      operation: 'testPrompt',
+      userId: auth.userId,
+      recordCount: 1,
+    });
+
+    const answer = answers[preparedItem.id];
+    if ('errors' in answer) {
+      return NextResponse.json({ 
+        error: `The AI's answer didn't fit the output fields (${answer.errors.join('; ')})`,
+        rawResponse: reply,
+        matchInfo,
+        modelUsed
+      }, { status: 400 });
     }
 
     return NextResponse.json({
       success: true,
-      result: processedResponse,
-      rawResponse: finalResponse,
+      result: answer.data,
+      provenance: answer.provenance,
+      rawResponse: reply,
       matchInfo: matchInfo || undefined,
       modelUsed
     });
@@ -1,107 +1,57 @@
 import { NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/apiAuth';
+import { roleCan } from '@/lib/permissions';
+import { upstreamErrorResponse } from '@/lib/apiThrottle';
+import { hasApolloCredentials, requestApollo, recordApolloUsage } from '@/lib/apolloApi';
+import { toApolloRequest, ApolloProxyRequest } from '@/lib/apolloProxy';
+import { InvalidRequestError } from '@/lib/apiValidation';
+import { isBudgetExhausted } from '@/lib/enrichmentUsage';
 
-const APOLLO_API_URL = process.env.APOLLO_API_URL;
-const APOLLO_API_KEY = process.env.APOLLO_API_KEY;
-
-if (!APOLLO_API_KEY) {
+if (!hasApolloCredentials()) {
   console.error('Missing Apollo API key in environment variables');
 }
 
 export async function POST(request: Request) {
-  if (!APOLLO_API_KEY) {
-    return NextResponse.json(
-      { error: 'Apollo API key is not configured' },
-      { status: 500 }
-    );
+  if (!hasApolloCredentials()) {
+    return upstreamErrorResponse('not_configured', 'Apollo API key is not configured', 500);
   }
 
-  try {
-    const body = await request.json();
-    const { endpoint, method = 'GET', data, params } = body;
-
-    // Remove any leading slashes from the endpoint and api/v1 if present
-    const cleanEndpoint = endpoint.replace(/^\/+/, '').replace(/^api\/v1\//, '');
-    
-    // Build URL with query parameters if they exist
-    const searchParams = new URLSearchParams(params);
-    const queryString = params ? `?${searchParams.toString()}` : '';
-    const url = `${APOLLO_API_URL}/${cleanEndpoint}${queryString}`;
-
-    const headers = {
-      'x-api-key': APOLLO_API_KEY,
-      'Content-Type': 'application/json',
-      'Cache-Control': 'no-cache',
-      'accept': 'application/json'
-    };
+  // Check who is calling before looking at what they asked for
+  const auth = await authorizeRequest(request);
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
 
-    const fetchOptions: RequestInit = {
-      method,
-      headers,
-    };
+  try {
+    // Only the operations in lib/apolloProxy.ts are allowed through, each with the permission it needs
+    let apolloRequest: ApolloProxyRequest;
+    try {
+      apolloRequest = toApolloRequest(await request.json());
+    } catch (error) {
+      if (error instanceof InvalidRequestError || error instanceof SyntaxError) {
+        return upstreamErrorResponse('invalid_request', error.message, 400);
+      }
+      throw error;
+    }
 
-    if (data) {
-      fetchOptions.body = JSON.stringify(data);
+    if (!roleCan(auth.role, apolloRequest.permission)) {
+      return NextResponse.json({ error: 'Your role does not allow this action' }, { status: 403 });
     }
 
-    const response = await fetch(url, fetchOptions);
-    let responseData;
-    const responseText = await response.text();
-    
-    try {
-      responseData = responseText ? JSON.parse(responseText) : null;
-    } catch (parseError) {
-      console.error('Failed to parse Apollo API response:', {
-        status: response.status,
-        text: responseText.substring(0, 1000), // Log first 1000 chars in case of large response
-        error: parseError,
-        url
-      });
-      return NextResponse.json(
-        { 
-          error: 'Invalid response from Apollo API',
-          details: {
-            status: response.status,
-            text: responseText.substring(0, 1000),
-            parseError: parseError instanceof Error ? parseError.message : String(parseError)
-          }
-        },
-        { status: 500 }
-      );
+    // Only the operations that spend credits are held to the budget
+    if (apolloRequest.permission === 'runPaidEnrichment' && await isBudgetExhausted('apollo', auth.client)) {
+      return upstreamErrorResponse('budget_exceeded', 'This month\'s Apollo budget is used up', 402);
     }
 
+    const response = await requestApollo(apolloRequest);
+
     if (!response.ok) {
-      console.error('Apollo API error response:', {
-        status: response.status,
-        data: responseData,
-        url
-      });
-      return NextResponse.json(
-        { 
-          error: responseData?.message || 'Apollo API request failed',
-          details: {
-            status: response.status,
-            data: responseData,
-            url
-          }
-        },
-        { status: response.status }
-      );
+      return upstreamErrorResponse(response.code || 'upstream_error', response.message || 'Apollo API request failed', response.status, response.data);
     }
 
-    if (!responseData) {
-      return NextResponse.json(
-        { 
-          error: 'Empty response from Apollo API',
-          details: {
-            url,
-            status: response.status
-          }
-        },
-        { status: 500 }
-      );
-    }
+    await recordApolloUsage(apolloRequest, response.data, auth.userId);
 
-    return NextResponse.json(responseData);
+    return NextResponse.json(response.data);
   } catch (error) {
     console.error('Apollo API error:', {
       error,
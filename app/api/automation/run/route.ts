@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/apiAuth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { processAutomationRules } from '@/lib/automationRunner';
+
+// A run checks rules for up to RUNNER_TIME_BUDGET_MS, leaving time to finish the last one before the limit
+export const maxDuration = 300;
+const RUNNER_TIME_BUDGET_MS = 240 * 1000;
+
+// The scheduler calls with CRON_SECRET as its bearer token; admins and managers can also start a run from the app
+async function run(request: Request) {
+  const startedAt = Date.now();
+  const cronSecret = process.env.CRON_SECRET;
+  const isScheduled = !!cronSecret && request.headers.get('authorization') === `Bearer ${cronSecret}`;
+
+  if (!isScheduled) {
+    const auth = await authorizeRequest(request, 'manageEnrichmentSettings');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+  }
+
+  // Rules run on everyone's records and only the service role records runs, so the runner needs it
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json(
+      { error: 'SUPABASE_SERVICE_ROLE_KEY is not configured' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const result = await processAutomationRules(supabaseAdmin, startedAt + RUNNER_TIME_BUDGET_MS);
+    return NextResponse.json(result);
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to run automation rules', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: Request) {
+  return run(request);
+}
+
+export async function POST(request: Request) {
+  return run(request);
+}
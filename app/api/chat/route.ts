@@ -1,20 +1,28 @@
 import { NextResponse } from 'next/server';
-import OpenAI from 'openai';
-import { getAvailableFilters, generateSystemMessage } from './utils';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { authorizeRequest } from '@/lib/apiAuth';
+import { getAvailableFilters, generateSystemMessage, parseChatReply, CHAT_REPLY_SCHEMA } from './utils';
+import { recordTokenUsage, createTokenTally } from '@/lib/enrichmentUsage';
+import { generateText, modelForFeature, availableModels, LLMMessage } from '@/lib/llmProviders';
 
 export async function POST(request: Request) {
+  const auth = await authorizeRequest(request);
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
   try {
-    const { messages, activeTab } = await request.json();
+    const { messages, activeTab, model } = await request.json();
     
     if (!messages || !Array.isArray(messages) || messages.length === 0) {
       return NextResponse.json({ error: 'Invalid messages format' }, { status: 400 });
     }
 
+    // Without a choice from the model picker, chat uses its configured model
+    const modelId = model || modelForFeature('chat');
+    if (typeof modelId !== 'string' || !availableModels().some(option => option.id === modelId)) {
+      return NextResponse.json({ error: 'That model is not available' }, { status: 400 });
+    }
+
     // Get all available filters based on the active tab
     const availableFilters = getAvailableFilters(activeTab);
     
@@ -22,93 +30,26 @@ export async function POST(request: Request) {
     const systemMessage = generateSystemMessage(activeTab, availableFilters);
 
     // Add system message to conversation
-    const fullMessages = [
+    const fullMessages: LLMMessage[] = [
       { role: 'system', content: systemMessage },
-      ...messages
+      ...messages.map((message: LLMMessage) => ({
+        role: message.role === 'assistant' ? 'assistant' as const : 'user' as const,
+        content: String(message.content),
+      }))
     ];
 
-    // Call the OpenAI API
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4.1-nano', // You can change to a different model if needed
+    const tally = createTokenTally();
+    const response = await generateText(modelId, {
       messages: fullMessages,
       temperature: 0.7,
-      max_tokens: 500,
-      function_call: { name: 'set_filters' },
-      functions: [
-        {
-          name: 'set_filters',
-          description: 'Set filters based on user query',
-          parameters: {
-            type: 'object',
-            properties: {
-              filters: {
-                type: 'array',
-                items: {
-                  type: 'object',
-                  properties: {
-                    id: { type: 'string' },
-                    property: { type: 'string', enum: availableFilters },
-                    operator: { 
-                      type: 'string', 
-                      enum: ['equals', 'contains', 'starts_with', 'ends_with', 'is_empty', 'is_not_empty', 'greater_than', 'less_than']
-                    },
-                    value: { type: 'string' }
-                  },
-                  required: ['id', 'property', 'operator', 'value']
-                }
-              }
-            }
-          }
-        }
-      ]
-    });
-
-    // Extract the response text and any filters
-    let responseText = '';
-    let filters = [];
+      maxTokens: 700,
+      json: true,
+      jsonSchema: CHAT_REPLY_SCHEMA,
+    }, tally);
 
-    if (response.choices[0]?.message?.function_call) {
-      // Parse the function call arguments
-      try {
-        const functionArgs = JSON.parse(response.choices[0].message.function_call.arguments);
-        filters = functionArgs.filters || [];
-        
-        // Get the response text from the AI
-        const followUpResponse = await openai.chat.completions.create({
-          model: 'gpt-4o-mini',
-          messages: [
-            ...fullMessages,
-            {
-              role: 'assistant',
-              content: null,
-              function_call: {
-                name: 'set_filters',
-                arguments: response.choices[0].message.function_call.arguments
-              }
-            },
-            {
-              role: 'system',
-              content: `The filters have been set. Now please provide a user-friendly response explaining how you're interpreting their query.`
-            }
-          ],
-          temperature: 0.7,
-          max_tokens: 200,
-        });
-        
-        responseText = followUpResponse.choices[0]?.message?.content || "I'll search based on your criteria.";
-      } catch (e) {
-        console.error('Error parsing function arguments:', e);
-        responseText = 'I understand your query but had trouble creating the right filters. Could you phrase it differently?';
-      }
-    } else {
-      // Just get the normal response text
-      responseText = response.choices[0]?.message?.content || "I'm not sure how to help with that query.";
-    }
+    await recordTokenUsage(tally, { operation: 'chat', userId: auth.userId });
 
-    return NextResponse.json({
-      text: responseText,
-      filters: filters,
-    });
+    return NextResponse.json(parseChatReply(response.text));
   } catch (error) {
     console.error('Error processing chat request:', error);
     return NextResponse.json(
@@ -116,4 +57,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+} 
@@ -1,3 +1,6 @@
+import { ensureFilterIds } from '@/lib/filterTree';
+import type { FilterNode } from '@/types';
+
 // Utility function to get all available columns for filtering based on the active tab
 export function getAvailableFilters(activeTab: string): string[] {
   let availableFilters: string[] = [];
@@ -6,11 +9,11 @@ export function getAvailableFilters(activeTab: string): string[] {
   const defaultColumns: Record<string, string[]> = {
     'attendees': [
       'first_name', 'last_name', 'name', 'email', 'phone', 'title', 'company',
-      'city', 'state', 'address', 'zip', 'linkedin_url', 'created_at', 'updated_at'
+      'city', 'state', 'address', 'zip', 'linkedin_url', 'owner_email', 'created_at', 'updated_at'
     ],
     'health-systems': [
       'name', 'city', 'state', 'website', 'revenue', 'address', 'zip',
-      'definitive_id', 'created_at', 'updated_at', 'location'
+      'definitive_id', 'owner_email', 'created_at', 'updated_at', 'location'
     ],
     'conferences': [
       'name', 'location', 'start_date', 'end_date', 'date',
@@ -76,17 +79,65 @@ export function generateSystemMessage(activeTab: string, availableFilters: strin
   systemMessage += `\n\nWhen a user asks a question that appears to be a search query, you should:
   1. Parse their natural language query to determine the appropriate filters
   2. Respond in a friendly way explaining how you're interpreting their query
-  3. Return a JSON object in the "filters" field with the appropriate filters to apply
+  3. Return the appropriate filters to apply in the "filters" field
+  
+  Always reply with a single JSON object and nothing else:
+  {
+    "text": string (your reply to the user),
+    "filters": array (the filters to apply; an empty array when there are none)
+  }
   
   Use the following format for filters:
   { 
     id: string (unique id),
     property: string (one of the available properties),
-    operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than',
-    value: string (the value to filter for)
+    operator: 'equals' | 'not_equals' | 'contains' | 'not_contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than' | 'between' | 'before' | 'after' | 'in_last_days' | 'in_next_days' | 'in_list' | 'array_contains',
+    value: string (the value to filter for; dates as YYYY-MM-DD, or a number of days for in_last_days/in_next_days),
+    valueTo?: string (the upper bound for 'between'),
+    values?: string[] (the values for 'in_list' and 'array_contains', e.g. certifications)
   }
   
-  If the user's query doesn't seem to be a search/filter request, just respond conversationally and don't return any filters.`;
+  Top-level filters must all match. To match any of several conditions, or to nest AND/OR logic, use a group:
+  {
+    id: string (unique id),
+    combinator: 'and' | 'or',
+    conditions: array of filters or groups
+  }
+  For example "attendees in Ohio or Michigan" becomes a single group with combinator 'or' and two 'state equals' conditions.
+  
+  If the user's query doesn't seem to be a search/filter request, just respond conversationally with an empty filters array.`;
 
   return systemMessage;
-} 
\ No newline at end of file
+}
+
+// The JSON schema of a chat reply, as described in the system message
+export const CHAT_REPLY_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    text: { type: 'string' },
+    filters: { type: 'array' },
+  },
+  required: ['text', 'filters'],
+};
+
+// Read the text and filters out of a model's reply. Models that ignore the JSON format still get their text shown.
+export function parseChatReply(reply: string): { text: string; filters: FilterNode[] } {
+  try {
+    // Look for the JSON object in the reply (greedy, since filter groups nest objects)
+    const jsonMatch = reply.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      return { text: reply.trim() || "I'm not sure how to help with that query.", filters: [] };
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]);
+    const filters = Array.isArray(parsed.filters) ? ensureFilterIds(parsed.filters) : [];
+    const text = typeof parsed.text === 'string' && parsed.text.trim()
+      ? parsed.text
+      : reply.replace(jsonMatch[0], '').trim() || "I'll search based on your criteria.";
+
+    return { text, filters };
+  } catch (e) {
+    console.error('Error parsing chat reply:', e);
+    return { text: 'I understand your query but had trouble creating the right filters. Could you phrase it differently?', filters: [] };
+  }
+}
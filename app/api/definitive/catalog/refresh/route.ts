@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/apiAuth';
+import { supabaseAdmin } from '@/lib/supabase';
+import { hasDefinitiveCredentials } from '@/lib/definitiveApi';
+import { refreshDefinitiveCatalog } from '@/lib/definitiveCatalog';
+import { recordUsage, USAGE_PRICING } from '@/lib/enrichmentUsage';
+
+// A run can fetch many pages from Definitive
+export const maxDuration = 300;
+
+// The scheduler calls with CRON_SECRET as its bearer token; users who can run paid enrichment can also start a run by hand
+async function refresh(request: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  const isScheduled = !!cronSecret && request.headers.get('authorization') === `Bearer ${cronSecret}`;
+  // Scheduled runs are logged without a user
+  let userId: string | null = null;
+
+  if (!isScheduled) {
+    const auth = await authorizeRequest(request, 'runPaidEnrichment');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+    userId = auth.userId;
+  }
+
+  if (!hasDefinitiveCredentials()) {
+    return NextResponse.json(
+      { error: 'Definitive API credentials are not configured' },
+      { status: 500 }
+    );
+  }
+
+  // Only the service role can write the catalog
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return NextResponse.json(
+      { error: 'SUPABASE_SERVICE_ROLE_KEY is not configured' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const result = await refreshDefinitiveCatalog(supabaseAdmin);
+    await recordUsage({
+      provider: 'definitive',
+      operation: 'catalogRefresh',
+      userId,
+      recordCount: result.fetched,
+      credits: result.requests,
+      estimatedCost: result.requests * USAGE_PRICING.definitiveRequest,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Failed to refresh the Definitive catalog', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: Request) {
+  return refresh(request);
+}
+
+export async function POST(request: Request) {
+  return refresh(request);
+}
@@ -0,0 +1,284 @@
+import { useState, useEffect } from 'react'
+import {
+  PhoneIcon,
+  EnvelopeIcon,
+  UsersIcon,
+  BuildingStorefrontIcon,
+  DocumentTextIcon,
+  SparklesIcon,
+  ArrowUpTrayIcon,
+  ArrowDownTrayIcon,
+  ArrowsRightLeftIcon,
+  QueueListIcon,
+  PlusIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline'
+import { Icon } from '@/components/ui/Icon'
+import { useAuth } from '@/hooks/useAuth'
+import { useRole } from '@/hooks/useRole'
+import {
+  fetchAttendeeActivities,
+  fetchHealthSystemActivities,
+  createActivity,
+  deleteActivity,
+  Activity,
+  ActivityType,
+  ACTIVITY_TYPE_LABELS,
+  MANUAL_ACTIVITY_TYPES
+} from '@/lib/activities'
+
+interface ActivityTimelineProps {
+  // Show an attendee's timeline, or a health system's rolled up with its attendees' activities
+  attendeeId?: string
+  healthSystemId?: string
+  attendeeIds?: string[]
+  // Conferences the activity can be tied to
+  conferences?: Array<{ id: string; name: string }>
+  onAttendeeClick?: (attendeeId: string) => void
+}
+
+const ACTIVITY_ICONS: Record<ActivityType, React.ComponentType<React.SVGProps<SVGSVGElement>>> = {
+  call: PhoneIcon,
+  email: EnvelopeIcon,
+  meeting: UsersIcon,
+  booth_visit: BuildingStorefrontIcon,
+  note: DocumentTextIcon,
+  enrichment: SparklesIcon,
+  apollo_push: ArrowUpTrayIcon,
+  apollo_sync: ArrowDownTrayIcon,
+  job_change: ArrowsRightLeftIcon,
+  list_added: QueueListIcon,
+  list_removed: QueueListIcon,
+}
+
+// Current local time in the format a datetime-local input expects
+const nowForInput = () => {
+  const now = new Date()
+  now.setMinutes(now.getMinutes() - now.getTimezoneOffset())
+  return now.toISOString().slice(0, 16)
+}
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+
+export function ActivityTimeline({ attendeeId, healthSystemId, attendeeIds = [], conferences = [], onAttendeeClick }: ActivityTimelineProps) {
+  const { user } = useAuth()
+  const { can } = useRole()
+  const [activities, setActivities] = useState<Activity[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Log form state
+  const [isLogging, setIsLogging] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [type, setType] = useState<ActivityType>('call')
+  const [summary, setSummary] = useState('')
+  const [conferenceId, setConferenceId] = useState('')
+  const [occurredAt, setOccurredAt] = useState(nowForInput())
+
+  const isRollup = !attendeeId && !!healthSystemId
+  const attendeeIdsKey = attendeeIds.join(',')
+
+  useEffect(() => {
+    if (!attendeeId && !healthSystemId) return
+
+    const loadActivities = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const loaded = attendeeId
+          ? await fetchAttendeeActivities(attendeeId)
+          : await fetchHealthSystemActivities(healthSystemId as string, attendeeIdsKey ? attendeeIdsKey.split(',') : [])
+        setActivities(loaded)
+      } catch (err) {
+        console.error('Error loading activities:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load activities')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadActivities()
+  }, [attendeeId, healthSystemId, attendeeIdsKey])
+
+  const resetForm = () => {
+    setIsLogging(false)
+    setType('call')
+    setSummary('')
+    setConferenceId('')
+    setOccurredAt(nowForInput())
+  }
+
+  const handleSave = async () => {
+    if (isSaving || !summary.trim()) return
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      const activity = await createActivity({
+        attendeeId: attendeeId || null,
+        healthSystemId: attendeeId ? null : healthSystemId,
+        conferenceId: conferenceId || null,
+        type,
+        summary,
+        occurredAt: occurredAt ? new Date(occurredAt).toISOString() : undefined
+      })
+      setActivities(prev =>
+        [activity, ...prev].sort((a, b) => new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime())
+      )
+      resetForm()
+    } catch (err) {
+      console.error('Failed to log activity:', err)
+      setError(err instanceof Error ? err.message : 'Failed to log activity')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (activityId: string) => {
+    if (!confirm('Are you sure you want to delete this activity?')) return
+
+    try {
+      await deleteActivity(activityId)
+      setActivities(prev => prev.filter(activity => activity.id !== activityId))
+    } catch (err) {
+      console.error('Failed to delete activity:', err)
+      alert('Failed to delete activity: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-medium text-gray-900">
+          Activity
+          {isRollup && <span className="ml-2 text-xs font-normal text-gray-500">including attendees</span>}
+        </h3>
+        {!isLogging && can('editRecords') && (
+          <button
+            onClick={() => setIsLogging(true)}
+            className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none"
+          >
+            <Icon icon={PlusIcon} size="xs" className="mr-1" />
+            Log activity
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="mb-3 text-sm text-red-600">{error}</p>
+      )}
+
+      {isLogging && (
+        <div className="mb-4 p-3 rounded-lg border border-gray-200 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as ActivityType)}
+              className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500 bg-white"
+            >
+              {MANUAL_ACTIVITY_TYPES.map(activityType => (
+                <option key={activityType} value={activityType}>{ACTIVITY_TYPE_LABELS[activityType]}</option>
+              ))}
+            </select>
+            <input
+              type="datetime-local"
+              value={occurredAt}
+              onChange={(e) => setOccurredAt(e.target.value)}
+              className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+            />
+          </div>
+          {conferences.length > 0 && (
+            <select
+              value={conferenceId}
+              onChange={(e) => setConferenceId(e.target.value)}
+              className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500 bg-white"
+            >
+              <option value="">No conference</option>
+              {conferences.map(conference => (
+                <option key={conference.id} value={conference.id}>{conference.name}</option>
+              ))}
+            </select>
+          )}
+          <textarea
+            value={summary}
+            onChange={(e) => setSummary(e.target.value)}
+            placeholder="What happened?"
+            rows={3}
+            className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={resetForm}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !summary.trim()}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading activity...</p>
+      ) : activities.length === 0 ? (
+        <p className="text-sm text-gray-500">No activity yet</p>
+      ) : (
+        <ul className="space-y-4">
+          {activities.map(activity => {
+            const isManual = MANUAL_ACTIVITY_TYPES.includes(activity.type)
+
+            return (
+              <li key={activity.id} className="group flex gap-x-3">
+                <div className={`flex h-8 w-8 shrink-0 items-center justify-center rounded-full ${isManual ? 'bg-primary-50 text-primary-600' : 'bg-gray-100 text-gray-500'}`}>
+                  <Icon icon={ACTIVITY_ICONS[activity.type]} size="sm" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-gray-900 whitespace-pre-wrap">{activity.summary}</p>
+                  <p className="mt-0.5 text-xs text-gray-500">
+                    {ACTIVITY_TYPE_LABELS[activity.type]}
+                    {isRollup && activity.attendeeId && activity.attendeeName && (
+                      <>
+                        {' · '}
+                        <button
+                          onClick={() => onAttendeeClick?.(activity.attendeeId as string)}
+                          className="text-primary-600 hover:underline"
+                        >
+                          {activity.attendeeName}
+                        </button>
+                      </>
+                    )}
+                    {activity.conferenceName && ` · ${activity.conferenceName}`}
+                    {` · ${activity.authorEmail || 'System'}`}
+                    {` · ${formatTimestamp(activity.occurredAt)}`}
+                  </p>
+                </div>
+                {isManual && activity.authorId === user?.id && (
+                  <button
+                    onClick={() => handleDelete(activity.id)}
+                    className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500 rounded-md"
+                    title="Delete activity"
+                  >
+                    <Icon icon={TrashIcon} size="sm" />
+                  </button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,2 @@
+// Export all activity-related components
+export * from './ActivityTimeline';
@@ -1,10 +1,14 @@
 import React, { useState, Fragment, FormEvent, useRef, useEffect } from 'react'
 import { Dialog, Transition } from '@headlessui/react'
-import { XMarkIcon, ArrowPathIcon, SparklesIcon, BookmarkIcon, ChevronDownIcon } from '@heroicons/react/24/outline'
+import { XMarkIcon, ArrowPathIcon, SparklesIcon, BookmarkIcon, ChevronDownIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
 import { PaperAirplaneIcon } from '@heroicons/react/24/solid'
 import { aiService } from '@/lib/ai'
+import { createAIEnrichmentJob, startAIEnrichmentWorker, fetchAIEnrichmentJob, fetchAIEnrichmentJobResults, applyAIEnrichmentJobResults, cancelAIEnrichmentJob, isActiveJob, AIEnrichmentJob } from '@/lib/aiEnrichmentJobs'
 import { aiPromptsService, AIPrompt } from '@/lib/aiPrompts'
-import { definitiveService } from '@/lib/definitive'
+import { fetchDefinitiveCatalogStatus } from '@/lib/definitiveCatalog'
+import { checkEnrichmentBudget, estimateEnrichmentCost, BudgetCheck } from '@/lib/enrichmentUsage'
+import { usageProviderForModel } from '@/lib/llm'
+import { AIOutputField, AIOutputFieldType, AI_OUTPUT_FIELD_TYPE_LABELS, validateAIOutputFields, formatAIOutputValue, formatConfidence } from '@/lib/aiOutputFields'
 import type { ColumnDef } from '@tanstack/react-table'
 import type { Attendee, HealthSystem, Conference } from '@/types'
 import type { IconName } from '@/hooks/useColumnManagement'
@@ -13,6 +17,7 @@ import { Icon } from '@/components/ui/Icon'
 import { getIconComponent } from '@/utils/iconUtils'
 import { Switch } from '@headlessui/react'
 import { SavePromptDialog } from './SavePromptDialog'
+import { useRole } from '@/hooks/useRole'
 
 // TODO: get icon path from iconUtils
 // Helper function to get icon SVG path based on icon name
@@ -57,19 +62,28 @@ interface AIEnrichmentDialogProps {
   isOpen: boolean
   onClose: () => void
   items: Array<Attendee | HealthSystem | Conference>
-  onEnrichmentComplete: (results: any[], columnName: string) => void
+  // promptName is the saved prompt the run used, if any
+  onEnrichmentComplete: (results: any[], outputFields: AIOutputField[], promptName?: string) => void
   allColumns?: ColumnDef<Attendee | HealthSystem | Conference>[]
   isLoading?: boolean
   getFieldsForAllColumns?: (item: Attendee | HealthSystem | Conference) => { id: string, label: string, value: string, iconName: IconName }[]
 }
 
-// Add batching utility
-function chunkArray<T>(array: T[], size: number): T[][] {
-  const result: T[][] = [];
-  for (let i = 0; i < array.length; i += size) {
-    result.push(array.slice(i, i + size));
-  }
-  return result;
+// How often a running job's progress is checked
+const JOB_POLL_INTERVAL_MS = 2000
+
+const newOutputField = (): AIOutputField => ({ name: '', type: 'text' })
+
+// Saved prompts from before output fields only kept a column type
+const outputFieldsForPrompt = (prompt: AIPrompt): AIOutputField[] =>
+  prompt.output_fields && prompt.output_fields.length > 0
+    ? prompt.output_fields
+    : [{ name: '', type: prompt.column_type }]
+
+// The prompt type badge and saved column_type only know text, boolean and number
+const promptColumnType = (fields: AIOutputField[]): AIPrompt['column_type'] => {
+  const type = fields[0]?.type
+  return type === 'boolean' || type === 'number' ? type : 'text'
 }
 
 export function AIEnrichmentDialog({ 
@@ -81,8 +95,8 @@ export function AIEnrichmentDialog({
   isLoading = false,
   getFieldsForAllColumns
 }: AIEnrichmentDialogProps) {
-  const [columnName, setColumnName] = useState('')
-  const [columnType, setColumnType] = useState('text')
+  const { can } = useRole()
+  const [outputFields, setOutputFields] = useState<AIOutputField[]>([newOutputField()])
   const [isEnriching, setIsEnriching] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isTesting, setIsTesting] = useState(false)
@@ -98,8 +112,8 @@ export function AIEnrichmentDialog({
   const [includeDefinitiveData, setIncludeDefinitiveData] = useState(false)
   const [isLoadingDefinitiveData, setIsLoadingDefinitiveData] = useState(false)
   const [definitiveDataSummary, setDefinitiveDataSummary] = useState<string>("")
-  const [progress, setProgress] = useState(0); // Progress for batches
-  const [cancelRequested, setCancelRequested] = useState(false);
+  const [progress, setProgress] = useState(0); // Share of the job's items processed
+  const [activeJobId, setActiveJobId] = useState<string | null>(null)
   const [showCancelConfirm, setShowCancelConfirm] = useState(false);
   
   // Saved prompts state
@@ -112,6 +126,12 @@ export function AIEnrichmentDialog({
   const editorRef = useRef<HTMLDivElement>(null)
   const menuRef = useRef<HTMLDivElement>(null)
   const promptDropdownRef = useRef<HTMLDivElement>(null)
+
+  // Keep the latest callbacks without restarting the job polling when the parent re-renders
+  const onCloseRef = useRef(onClose)
+  onCloseRef.current = onClose
+  const onEnrichmentCompleteRef = useRef(onEnrichmentComplete)
+  onEnrichmentCompleteRef.current = onEnrichmentComplete
   
   // Get available variables from allColumns
   const availableVariables = allColumns.map(column => String(column.id));
@@ -213,8 +233,11 @@ export function AIEnrichmentDialog({
 
   // Handle selecting a saved prompt
   const handleSelectSavedPrompt = (prompt: AIPrompt) => {
-    // Set the column type
-    setColumnType(prompt.column_type);
+    // Set the output fields, keeping any column names already typed in
+    setOutputFields(prev => outputFieldsForPrompt(prompt).map((field, index) => ({
+      ...field,
+      name: field.name || prev[index]?.name || ''
+    })));
     
     // Clear the editor and populate with the saved prompt template
     if (editorRef.current) {
@@ -777,9 +800,11 @@ export function AIEnrichmentDialog({
     
     try {
       setIsLoadingDefinitiveData(true);
-      // Get a count or summary of the available health systems
-      const healthSystems = await definitiveService.getAllHealthSystems();
-      setDefinitiveDataSummary(`${healthSystems.length} health systems available from Definitive Healthcare`);
+      // Get a count of the health systems in the stored catalog
+      const status = await fetchDefinitiveCatalogStatus();
+      setDefinitiveDataSummary(status.hospitalCount > 0
+        ? `${status.hospitalCount} health systems available from Definitive Healthcare`
+        : 'The Definitive Healthcare catalog has not been loaded yet');
     } catch (error) {
       console.error('Error fetching Definitive data summary:', error);
       setDefinitiveDataSummary('Unable to load Definitive Healthcare data');
@@ -788,52 +813,116 @@ export function AIEnrichmentDialog({
     }
   };
 
+  // Follow the queued job while the dialog is open, keeping a worker going, and hand over the results when it stops.
+  // Closing the dialog leaves the job running; it can be followed under Jobs.
+  useEffect(() => {
+    if (!activeJobId || !isOpen) return
+
+    let stopped = false
+    let workerRunning = false
+
+    const finish = async (job: AIEnrichmentJob) => {
+      try {
+        if (job.status === 'failed') {
+          setError(job.error || 'The enrichment job failed')
+          return
+        }
+        await applyAIEnrichmentJobResults(job)
+        const results = await fetchAIEnrichmentJobResults(job.id)
+        onEnrichmentCompleteRef.current(results, job.outputFields, job.promptName || undefined)
+        onCloseRef.current()
+      } catch (err) {
+        console.error('AI enrichment error:', err)
+        setError(err instanceof Error ? err.message : 'An error occurred during enrichment')
+      } finally {
+        setActiveJobId(null)
+        setIsEnriching(false)
+        setShowCancelConfirm(false)
+      }
+    }
+
+    const checkJob = async () => {
+      if (!workerRunning) {
+        workerRunning = true
+        startAIEnrichmentWorker().finally(() => { workerRunning = false })
+      }
+      try {
+        const job = await fetchAIEnrichmentJob(activeJobId)
+        if (stopped) return
+        setProgress(job.totalItems > 0 ? (job.succeededItems + job.failedItems) / job.totalItems : 0)
+        if (!isActiveJob(job)) {
+          stopped = true
+          clearInterval(interval)
+          await finish(job)
+        }
+      } catch (err) {
+        console.error('Error checking AI enrichment job:', err)
+      }
+    }
+
+    const interval = setInterval(checkJob, JOB_POLL_INTERVAL_MS)
+    checkJob()
+
+    return () => {
+      stopped = true
+      clearInterval(interval)
+    }
+  }, [activeJobId, isOpen])
+
+  // Stop following a job once the dialog is closed
+  useEffect(() => {
+    if (!isOpen && activeJobId) {
+      setActiveJobId(null)
+      setIsEnriching(false)
+    }
+  }, [isOpen, activeJobId])
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault()
     try {
       setIsEnriching(true)
       setError(null)
       setProgress(0)
-      setCancelRequested(false)
-      if (!columnName.trim()) {
-        setError('Please enter a column name')
+      const outputFieldsError = validateAIOutputFields(outputFields)
+      if (outputFieldsError) {
+        setError(outputFieldsError)
+        setIsEnriching(false)
         return
       }
       const promptTemplate = getPromptTemplate();
       if (!promptTemplate.trim()) {
         setError('Please enter a prompt template')
+        setIsEnriching(false)
         return
       }
-      // Batching logic
-      const batchSize = 20; // Adjust as needed
-      const batches = chunkArray(items, batchSize);
-      let allResults: any[] = [];
-      for (let i = 0; i < batches.length; i++) {
-        if (cancelRequested) {
-          setError('Enrichment cancelled by user.');
-          break;
-        }
-        const batch = batches[i];
-        const results = await aiService.enrichItems({
-          items: batch,
-          promptTemplate,
-          columnName,
-          columnType,
-          getFieldsForAllColumns,
-          includeDefinitiveData
-        });
-        allResults = allResults.concat(results);
-        setProgress((i + 1) / batches.length);
+      // Hold the run to this month's budget for the provider of the enrichment model. Local models cost nothing.
+      const { features } = await aiService.getModels()
+      const provider = usageProviderForModel(features.enrichment)
+      const budgetCheck: BudgetCheck = provider
+        ? await checkEnrichmentBudget(provider, estimateEnrichmentCost(provider, items.length))
+        : { status: 'ok' }
+      if (budgetCheck.status === 'blocked') {
+        setError(budgetCheck.message || 'This month\'s AI budget is used up')
+        setIsEnriching(false)
+        return
+      }
+      if (budgetCheck.status === 'confirm' && !confirm(budgetCheck.message)) {
+        setIsEnriching(false)
+        return
       }
-      onEnrichmentComplete(allResults, columnName)
-      onClose()
+      // The run is queued as a job and processed on the server, so it carries on if the dialog or tab is closed
+      const job = await createAIEnrichmentJob({
+        items,
+        promptTemplate,
+        promptName: savedPrompts.find(prompt => prompt.id === selectedPromptId)?.name,
+        outputFields,
+        includeDefinitiveData
+      })
+      setActiveJobId(job.id)
     } catch (err) {
       console.error('AI enrichment error:', err)
       setError(err instanceof Error ? err.message : 'An error occurred during enrichment')
-    } finally {
       setIsEnriching(false)
-      setCancelRequested(false)
-      setShowCancelConfirm(false)
     }
   }
 
@@ -845,8 +934,9 @@ export function AIEnrichmentDialog({
       setError(null)
       setTestResult(null)
       
-      if (!columnName.trim()) {
-        setError('Please enter a column name')
+      const outputFieldsError = validateAIOutputFields(outputFields)
+      if (outputFieldsError) {
+        setError(outputFieldsError)
         return
       }
       
@@ -864,8 +954,7 @@ export function AIEnrichmentDialog({
       const result = await aiService.testPrompt(
         items[0],
         promptTemplate,
-        columnName,
-        columnType,
+        outputFields,
         fields,
         includeDefinitiveData
       )
@@ -888,15 +977,30 @@ export function AIEnrichmentDialog({
     }
   };
 
-  const handleConfirmCancel = () => {
-    setCancelRequested(true);
+  const handleConfirmCancel = async () => {
     setShowCancelConfirm(false);
+    if (!activeJobId) return;
+    try {
+      // The job stops after its current batch; the dialog picks up the cancelled job on its next check
+      await cancelAIEnrichmentJob(activeJobId);
+    } catch (err) {
+      console.error('Error cancelling AI enrichment job:', err);
+      setError(err instanceof Error ? err.message : 'Failed to cancel enrichment');
+    }
   };
 
   const handleCancelDialogClose = () => {
     setShowCancelConfirm(false);
   };
 
+  const updateOutputField = (index: number, changes: Partial<AIOutputField>) => {
+    setOutputFields(prev => prev.map((field, i) => i === index ? { ...field, ...changes } : field))
+  }
+
+  const removeOutputField = (index: number) => {
+    setOutputFields(prev => prev.filter((_, i) => i !== index))
+  }
+
   const closeButtonIcon = <XMarkIcon className="h-6 w-6" aria-hidden="true" />
   const processIcon = <ArrowPathIcon className="animate-spin -ml-0.5 mr-2 h-4 w-4" />
   const sendIcon = <PaperAirplaneIcon className="-ml-0.5 mr-2 h-4 w-4" />
@@ -959,52 +1063,90 @@ export function AIEnrichmentDialog({
                     ) : (
                       <form onSubmit={handleSubmit} className="mt-4">
                         <div className="mb-4">
-                          <label htmlFor="columnName" className="block text-sm font-medium text-gray-700">
-                            Column Name
-                          </label>
-                          <div className="mt-2 relative">
-                            <input
-                              type="text"
-                              id="columnName"
-                              value={columnName}
-                              onChange={(e) => setColumnName(e.target.value)}
-                              className="block w-full pl-3 pr-3 py-2.5 text-sm bg-white border border-gray-200 
-                                        rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 
-                                        focus:border-primary-500 transition-all duration-200"
-                              placeholder="e.g., is_health_system"
-                              required
-                            />
+                          <div className="flex items-center justify-between">
+                            <label className="block text-sm font-medium text-gray-700">
+                              Output Fields
+                            </label>
+                            <button
+                              type="button"
+                              onClick={() => setOutputFields(prev => [...prev, newOutputField()])}
+                              className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-md text-indigo-700 bg-indigo-100 hover:bg-indigo-200 focus:outline-none"
+                            >
+                              <PlusIcon className="h-3 w-3 mr-1" />
+                              Add Field
+                            </button>
+                          </div>
+                          <div className="mt-2 space-y-3">
+                            {outputFields.map((field, index) => (
+                              <div key={index} className="p-3 rounded-lg border border-gray-200 bg-gray-50">
+                                <div className="flex items-center gap-2">
+                                  <input
+                                    type="text"
+                                    aria-label="Column name"
+                                    value={field.name}
+                                    onChange={(e) => updateOutputField(index, { name: e.target.value })}
+                                    className="block w-full pl-3 pr-3 py-2 text-sm bg-white border border-gray-200 
+                                              rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 
+                                              focus:border-primary-500 transition-all duration-200"
+                                    placeholder="e.g., is_health_system"
+                                    required
+                                  />
+                                  <select
+                                    aria-label="Field type"
+                                    value={field.type}
+                                    onChange={(e) => updateOutputField(index, { type: e.target.value as AIOutputFieldType })}
+                                    className="block w-48 shrink-0 pl-3 pr-8 py-2 text-sm bg-white border border-gray-200 
+                                              rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 
+                                              focus:border-primary-500 transition-all duration-200"
+                                  >
+                                    {(Object.keys(AI_OUTPUT_FIELD_TYPE_LABELS) as AIOutputFieldType[]).map(type => (
+                                      <option key={type} value={type}>{AI_OUTPUT_FIELD_TYPE_LABELS[type]}</option>
+                                    ))}
+                                  </select>
+                                  {outputFields.length > 1 && (
+                                    <button
+                                      type="button"
+                                      onClick={() => removeOutputField(index)}
+                                      className="p-1 text-gray-400 hover:text-red-600"
+                                      title="Remove field"
+                                    >
+                                      <TrashIcon className="h-4 w-4" />
+                                    </button>
+                                  )}
+                                </div>
+                                {field.type === 'select' && (
+                                  <input
+                                    type="text"
+                                    aria-label="Options"
+                                    value={(field.options || []).join(', ')}
+                                    onChange={(e) => updateOutputField(index, { options: e.target.value.split(',').map(option => option.trimStart()) })}
+                                    onBlur={() => updateOutputField(index, { options: (field.options || []).map(option => option.trim()).filter(Boolean) })}
+                                    className="mt-2 block w-full pl-3 pr-3 py-2 text-sm bg-white border border-gray-200 
+                                              rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 
+                                              focus:border-primary-500 transition-all duration-200"
+                                    placeholder="Options, separated by commas, e.g. Hospital, Clinic, Payer"
+                                  />
+                                )}
+                                <input
+                                  type="text"
+                                  aria-label="Description"
+                                  value={field.description || ''}
+                                  onChange={(e) => updateOutputField(index, { description: e.target.value || undefined })}
+                                  className="mt-2 block w-full pl-3 pr-3 py-2 text-sm bg-white border border-gray-200 
+                                            rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 
+                                            focus:border-primary-500 transition-all duration-200"
+                                  placeholder="What the AI should put here (optional)"
+                                />
+                              </div>
+                            ))}
                           </div>
                           <p className="mt-1 text-xs text-blue-600">
-                            If this column doesn&apos;t exist, it will be automatically created in the database.
+                            {can('manageColumns')
+                              ? 'Columns that don\'t exist yet will be automatically created in the database.'
+                              : 'Use existing columns. Only admins can add new columns.'}
                           </p>
                         </div>
                         
-                        <div className="mb-4">
-                          <label htmlFor="columnType" className="block text-sm font-medium text-gray-700">
-                            Column Type
-                          </label>
-                          <div className="mt-2 relative">
-                            <select
-                              id="columnType"
-                              value={columnType}
-                              onChange={(e) => setColumnType(e.target.value)}
-                              className="block w-full pl-3 pr-9 py-2.5 text-sm bg-white border border-gray-200 
-                                        rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 
-                                        focus:border-primary-500 transition-all duration-200 appearance-none"
-                            >
-                              <option value="text">Text</option>
-                              <option value="boolean">Boolean (Yes/No)</option>
-                              <option value="number">Number</option>
-                            </select>
-                            <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3">
-                              <svg className="h-4 w-4 text-gray-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
-                                <path fillRule="evenodd" d="M5.23 7.21a.75.75 0 011.06.02L10 11.168l3.71-3.938a.75.75 0 111.08 1.04l-4.25 4.5a.75.75 0 01-1.08 0l-4.25-4.5a.75.75 0 01.02-1.06z" clipRule="evenodd" />
-                              </svg>
-                            </div>
-                          </div>
-                        </div>
-                        
                         {/* Saved Prompts Section */}
                         <div className="mb-4">
                           <div className="flex items-center justify-between mb-2">
@@ -1108,42 +1250,45 @@ export function AIEnrichmentDialog({
                           </div>
                         </div>
                         
-                        <div className="mb-4">
-                          <div className="flex items-center justify-between">
-                            <span className="flex flex-grow items-center">
-                              <span className="text-sm font-medium text-gray-700">Include Definitive Healthcare Data</span>
-                              <span className="ml-2 text-xs text-gray-500">
-                                {isLoadingDefinitiveData 
-                                  ? "Loading..." 
-                                  : includeDefinitiveData && definitiveDataSummary 
-                                  ? definitiveDataSummary 
-                                  : "Enhance matching with the Definitive Healthcare database"}
+                        {/* Definitive lookups are paid, so only offered to roles that can run paid enrichments */}
+                        {can('runPaidEnrichment') && (
+                          <div className="mb-4">
+                            <div className="flex items-center justify-between">
+                              <span className="flex flex-grow items-center">
+                                <span className="text-sm font-medium text-gray-700">Include Definitive Healthcare Data</span>
+                                <span className="ml-2 text-xs text-gray-500">
+                                  {isLoadingDefinitiveData 
+                                    ? "Loading..." 
+                                    : includeDefinitiveData && definitiveDataSummary 
+                                    ? definitiveDataSummary 
+                                    : "Enhance matching with the Definitive Healthcare database"}
+                                </span>
                               </span>
-                            </span>
-                            <Switch
-                              checked={includeDefinitiveData}
-                              onChange={setIncludeDefinitiveData}
-                              className={classNames(
-                                includeDefinitiveData ? 'bg-indigo-600' : 'bg-gray-200',
-                                'relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2'
-                              )}
-                            >
-                              <span className="sr-only">Use Definitive Healthcare data</span>
-                              <span
-                                aria-hidden="true"
+                              <Switch
+                                checked={includeDefinitiveData}
+                                onChange={setIncludeDefinitiveData}
                                 className={classNames(
-                                  includeDefinitiveData ? 'translate-x-5' : 'translate-x-0',
-                                  'pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out'
+                                  includeDefinitiveData ? 'bg-indigo-600' : 'bg-gray-200',
+                                  'relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2'
                                 )}
-                              />
-                            </Switch>
+                              >
+                                <span className="sr-only">Use Definitive Healthcare data</span>
+                                <span
+                                  aria-hidden="true"
+                                  className={classNames(
+                                    includeDefinitiveData ? 'translate-x-5' : 'translate-x-0',
+                                    'pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out'
+                                  )}
+                                />
+                              </Switch>
+                            </div>
+                            {includeDefinitiveData && (
+                              <p className="mt-1 text-xs text-blue-600">
+                                Your AI enrichment will include data from Definitive Healthcare to improve matching accuracy.
+                              </p>
+                            )}
                           </div>
-                          {includeDefinitiveData && (
-                            <p className="mt-1 text-xs text-blue-600">
-                              Your AI enrichment will include data from Definitive Healthcare to improve matching accuracy.
-                            </p>
-                          )}
-                        </div>
+                        )}
                         
                         <div className="mb-4">
                           <label htmlFor="promptTemplate" className="block text-sm font-medium text-gray-700">
@@ -1244,12 +1389,21 @@ export function AIEnrichmentDialog({
                                 <span className="font-medium">Raw response:</span> {testResult.rawResponse}
                               </p>
                               <p className="text-sm text-gray-600 mt-1">
-                                <span className="font-medium">Processed value:</span> {
-                                  typeof testResult.result === 'boolean' 
-                                    ? (testResult.result ? 'Yes' : 'No')
-                                    : String(testResult.result)
-                                }
+                                <span className="font-medium">Processed values:</span>
                               </p>
+                              {outputFields.map(field => (
+                                <div key={field.name} className="ml-2">
+                                  <p className="text-sm text-gray-600">
+                                    <span className="font-medium">{field.name}:</span> {formatAIOutputValue(testResult.result?.[field.name])}
+                                    {testResult.provenance?.[field.name] && (
+                                      <span className="text-gray-400"> ({formatConfidence(testResult.provenance[field.name].confidence)} confident)</span>
+                                    )}
+                                  </p>
+                                  {testResult.provenance?.[field.name]?.rationale && (
+                                    <p className="text-xs text-gray-500">{testResult.provenance[field.name].rationale}</p>
+                                  )}
+                                </div>
+                              ))}
                             </div>
                           </div>
                         )}
@@ -1269,7 +1423,7 @@ export function AIEnrichmentDialog({
                               />
                             </div>
                             <div className="text-xs text-gray-600 mt-1 text-center">
-                              {Math.round(progress * 100)}% complete
+                              {Math.round(progress * 100)}% complete · You can close this dialog; the run carries on under Jobs
                             </div>
                           </div>
                         )}
@@ -1326,7 +1480,7 @@ export function AIEnrichmentDialog({
                   <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30">
                     <div className="bg-white rounded-lg shadow-lg p-6 max-w-sm w-full">
                       <h3 className="text-lg font-semibold mb-2">Cancel Enrichment?</h3>
-                      <p className="mb-4 text-gray-700">Are you sure you want to cancel the enrichment process? Progress will be lost.</p>
+                      <p className="mb-4 text-gray-700">Are you sure you want to cancel the enrichment process? Items already enriched are kept.</p>
                       <div className="flex justify-end space-x-2">
                         <button
                           className="px-4 py-2 rounded bg-gray-200 text-gray-800 hover:bg-gray-300"
@@ -1351,8 +1505,9 @@ export function AIEnrichmentDialog({
                   onClose={() => setShowSavePromptDialog(false)}
                   onSave={handlePromptSaved}
                   promptTemplate={getPromptTemplate()}
-                  columnType={columnType as 'text' | 'boolean' | 'number'}
-                  initialName={columnName}
+                  outputFields={outputFields}
+                  columnType={promptColumnType(outputFields)}
+                  initialName={outputFields[0]?.name}
                 />
               </Dialog.Panel>
             </Transition.Child>
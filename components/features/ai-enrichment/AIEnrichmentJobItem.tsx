@@ -0,0 +1,91 @@
+import { AIEnrichmentJob, AI_ENRICHMENT_JOB_STATUS_LABELS, isActiveJob } from '@/lib/aiEnrichmentJobs'
+
+interface AIEnrichmentJobItemProps {
+  job: AIEnrichmentJob
+  // Who queued the job, when it isn't the current user
+  createdByEmail?: string
+  // Left out for users who can't run AI enrichment
+  onCancel?: (job: AIEnrichmentJob) => void
+  onRetry?: (job: AIEnrichmentJob) => void
+  onViewResults?: (job: AIEnrichmentJob) => void
+  isSaving?: boolean
+}
+
+const STATUS_STYLES: Record<AIEnrichmentJob['status'], string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-indigo-50 text-indigo-700',
+  completed: 'bg-green-50 text-green-700',
+  cancelled: 'bg-amber-50 text-amber-700',
+  failed: 'bg-red-50 text-red-700',
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+
+export function AIEnrichmentJobItem({ job, createdByEmail, onCancel, onRetry, onViewResults, isSaving = false }: AIEnrichmentJobItemProps) {
+  const processed = job.succeededItems + job.failedItems
+  const share = job.totalItems > 0 ? processed / job.totalItems : 0
+  const isActive = isActiveJob(job)
+  const canRetry = !isActive && (job.failedItems > 0 || processed < job.totalItems)
+
+  return (
+    <li className="flex items-start gap-x-3 py-3">
+      <div className="min-w-0 flex-1">
+        <p className="text-sm text-gray-900">
+          <span className="font-medium">{job.outputFields.map(field => field.name).join(', ')}</span>
+          {job.promptName && <span className="ml-1 text-gray-500">({job.promptName})</span>}
+          <span className={`ml-2 inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[job.status]}`}>
+            {AI_ENRICHMENT_JOB_STATUS_LABELS[job.status]}
+          </span>
+        </p>
+        <div className="mt-2 h-2 w-full max-w-md rounded-full bg-gray-100">
+          <div className="h-2 rounded-full bg-indigo-600 transition-all duration-300" style={{ width: `${Math.round(share * 100)}%` }} />
+        </div>
+        <p className="mt-1 text-xs text-gray-500">
+          {processed} of {job.totalItems} processed
+          {job.failedItems > 0 && ` · ${job.failedItems} failed`}
+          {` · Queued ${formatDateTime(job.createdAt)}`}
+          {createdByEmail && ` by ${createdByEmail}`}
+          {job.finishedAt && ` · Finished ${formatDateTime(job.finishedAt)}`}
+        </p>
+        {job.error && <p className="mt-1 text-xs text-red-600">{job.error}</p>}
+      </div>
+      <div className="flex shrink-0 items-center gap-2">
+        {onCancel && isActive && (
+          <button
+            onClick={() => onCancel(job)}
+            disabled={isSaving}
+            className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+        )}
+        {onRetry && canRetry && (
+          <button
+            onClick={() => onRetry(job)}
+            disabled={isSaving}
+            title="Run the failed and cancelled items again"
+            className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900 disabled:opacity-50"
+          >
+            Retry failed
+          </button>
+        )}
+        {onViewResults && !isActive && processed > 0 && (
+          <button
+            onClick={() => onViewResults(job)}
+            disabled={isSaving}
+            title="Write any new values to the records and show the results"
+            className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+          >
+            {isSaving ? 'Applying...' : 'View results'}
+          </button>
+        )}
+      </div>
+    </li>
+  )
+}
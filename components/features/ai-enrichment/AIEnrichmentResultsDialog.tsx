@@ -2,15 +2,16 @@ import { Fragment } from 'react'
 import { Dialog, Transition } from '@headlessui/react'
 import { CheckCircleIcon, XCircleIcon, XMarkIcon } from '@heroicons/react/24/outline'
 import { AIEnrichmentResult } from '@/lib/ai'
+import { AIOutputField, formatAIOutputValue, formatConfidence } from '@/lib/aiOutputFields'
 
 interface AIEnrichmentResultsDialogProps {
   isOpen: boolean
   onClose: () => void
   results: AIEnrichmentResult[]
-  columnName: string
+  outputFields: AIOutputField[]
 }
 
-export function AIEnrichmentResultsDialog({ isOpen, onClose, results, columnName }: AIEnrichmentResultsDialogProps) {
+export function AIEnrichmentResultsDialog({ isOpen, onClose, results, outputFields }: AIEnrichmentResultsDialogProps) {
   // Calculate success rate
   const successCount = results.filter(result => result.success).length
   const successRate = results.length > 0 ? Math.round((successCount / results.length) * 100) : 0
@@ -90,12 +91,17 @@ export function AIEnrichmentResultsDialog({ isOpen, onClose, results, columnName
                                 </p>
                                 {result.success ? (
                                   <div className="mt-1 text-sm text-gray-500">
-                                    <p>
-                                      <span className="font-medium">{columnName}:</span>{' '}
-                                      {typeof result.enrichedData?.[columnName] === 'boolean'
-                                        ? (result.enrichedData[columnName] ? 'Yes' : 'No')
-                                        : String(result.enrichedData?.[columnName] || 'N/A')}
-                                    </p>
+                                    {outputFields.map(field => (
+                                      <p key={field.name}>
+                                        <span className="font-medium">{field.name}:</span>{' '}
+                                        {formatAIOutputValue(result.enrichedData?.[field.name])}
+                                        {result.provenance?.[field.name] && (
+                                          <span className="text-gray-400" title={result.provenance[field.name].rationale || undefined}>
+                                            {' '}({formatConfidence(result.provenance[field.name].confidence)} confident)
+                                          </span>
+                                        )}
+                                      </p>
+                                    ))}
                                   </div>
                                 ) : (
                                   <p className="mt-1 text-sm text-red-500">
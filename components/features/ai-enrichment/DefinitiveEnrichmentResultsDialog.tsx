@@ -1,6 +1,7 @@
 import { Fragment } from 'react'
+import Link from 'next/link'
 import { Dialog, Transition } from '@headlessui/react'
-import { CheckCircleIcon, XCircleIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { CheckCircleIcon, XCircleIcon, XMarkIcon, QuestionMarkCircleIcon } from '@heroicons/react/24/outline'
 import { DefinitiveEnrichmentResult } from '@/lib/definitive'
 
 interface DefinitiveEnrichmentResultsDialogProps {
@@ -13,6 +14,7 @@ export function DefinitiveEnrichmentResultsDialog({ isOpen, onClose, results }:
   // Calculate success rate
   const successCount = results.filter(result => result.success).length
   const successRate = results.length > 0 ? Math.round((successCount / results.length) * 100) : 0
+  const reviewCount = results.filter(result => result.inReview).length
   
   return (
     <Transition.Root show={isOpen} as={Fragment}>
@@ -69,6 +71,21 @@ export function DefinitiveEnrichmentResultsDialog({ isOpen, onClose, results }:
                         </div>
                       </div>
                     </div>
+
+                    {reviewCount > 0 && (
+                      <div className="mt-2 bg-amber-50 p-4 rounded-md">
+                        <div className="flex">
+                          <div className="flex-shrink-0">
+                            <QuestionMarkCircleIcon className="h-5 w-5 text-amber-500" aria-hidden="true" />
+                          </div>
+                          <div className="ml-3">
+                            <p className="text-sm font-medium text-amber-800">
+                              {reviewCount} unsure {reviewCount === 1 ? 'match was' : 'matches were'} sent to Definitive review
+                            </p>
+                          </div>
+                        </div>
+                      </div>
+                    )}
                     
                     <div className="mt-4">
                       <h4 className="text-sm font-medium text-gray-500">Details</h4>
@@ -79,6 +96,8 @@ export function DefinitiveEnrichmentResultsDialog({ isOpen, onClose, results }:
                               <div className="flex-shrink-0 mt-0.5">
                                 {result.success ? (
                                   <CheckCircleIcon className="h-5 w-5 text-green-500" />
+                                ) : result.inReview ? (
+                                  <QuestionMarkCircleIcon className="h-5 w-5 text-amber-500" />
                                 ) : (
                                   <XCircleIcon className="h-5 w-5 text-red-500" />
                                 )}
@@ -101,7 +120,7 @@ export function DefinitiveEnrichmentResultsDialog({ isOpen, onClose, results }:
                                     </div>
                                   </div>
                                 ) : (
-                                  <p className="mt-1 text-sm text-red-500">
+                                  <p className={`mt-1 text-sm ${result.inReview ? 'text-amber-700' : 'text-red-500'}`}>
                                     {result.error || 'No matching data found'}
                                   </p>
                                 )}
@@ -121,6 +140,14 @@ export function DefinitiveEnrichmentResultsDialog({ isOpen, onClose, results }:
                   >
                     Close
                   </button>
+                  {reviewCount > 0 && (
+                    <Link
+                      href="/definitive-review"
+                      className="mt-3 inline-flex w-full justify-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 sm:mt-0 sm:w-auto"
+                    >
+                      Review matches
+                    </Link>
+                  )}
                 </div>
               </Dialog.Panel>
             </Transition.Child>
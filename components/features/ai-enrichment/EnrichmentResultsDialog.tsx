@@ -1,9 +1,12 @@
-import { CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline'
+import Link from 'next/link'
+import { CheckCircleIcon, XCircleIcon, QuestionMarkCircleIcon } from '@heroicons/react/24/outline'
 import type { Attendee } from '@/types'
 
 interface EnrichmentResult {
   attendee: Attendee
   success: boolean
+  // A low-confidence match sent to the match review queue instead of being applied
+  inReview?: boolean
   error?: string
 }
 
@@ -15,9 +18,11 @@ interface EnrichmentResultsDialogProps {
 
 export function EnrichmentResultsDialog({ isOpen, onClose, results }: EnrichmentResultsDialogProps) {
   const successfulResults = results.filter(result => result.success)
-  const failedResults = results.filter(result => !result.success)
+  const reviewResults = results.filter(result => result.inReview)
+  const failedResults = results.filter(result => !result.success && !result.inReview)
   const totalCount = results.length
   const successCount = successfulResults.length
+  const reviewCount = reviewResults.length
   const failedCount = failedResults.length
 
   return (
@@ -39,7 +44,7 @@ export function EnrichmentResultsDialog({ isOpen, onClose, results }: Enrichment
             </h3>
             
             {/* Summary Stats using Tailwind metrics component */}
-            <dl className="grid grid-cols-3 gap-x-8 text-center">
+            <dl className={`grid ${reviewCount > 0 ? 'grid-cols-4' : 'grid-cols-3'} gap-x-8 text-center`}>
               <div className="mx-auto flex max-w-xs flex-col gap-y-2">
                 <dt className="text-base text-gray-600">Total Attempted</dt>
                 <dd className="order-first text-3xl font-semibold tracking-tight text-gray-900">
@@ -52,6 +57,14 @@ export function EnrichmentResultsDialog({ isOpen, onClose, results }: Enrichment
                   {successCount}
                 </dd>
               </div>
+              {reviewCount > 0 && (
+                <div className="mx-auto flex max-w-xs flex-col gap-y-2">
+                  <dt className="text-base text-gray-600">Sent to Review</dt>
+                  <dd className="order-first text-3xl font-semibold tracking-tight text-amber-600">
+                    {reviewCount}
+                  </dd>
+                </div>
+              )}
               <div className="mx-auto flex max-w-xs flex-col gap-y-2">
                 <dt className="text-base text-gray-600">Failed to Enrich</dt>
                 <dd className="order-first text-3xl font-semibold tracking-tight text-red-600">
@@ -71,12 +84,16 @@ export function EnrichmentResultsDialog({ isOpen, onClose, results }: Enrichment
                   className={`p-3 rounded-lg border ${
                     result.success 
                       ? 'bg-green-50 border-green-200' 
-                      : 'bg-red-50 border-red-200'
+                      : result.inReview
+                        ? 'bg-amber-50 border-amber-200'
+                        : 'bg-red-50 border-red-200'
                   }`}
                 >
                   <div className="flex items-start">
                     {result.success ? (
                       <CheckCircleIcon className="h-5 w-5 text-green-600 mr-3 mt-1 flex-shrink-0" />
+                    ) : result.inReview ? (
+                      <QuestionMarkCircleIcon className="h-5 w-5 text-amber-600 mr-3 mt-1 flex-shrink-0" />
                     ) : (
                       <XCircleIcon className="h-5 w-5 text-red-600 mr-3 mt-1 flex-shrink-0" />
                     )}
@@ -84,12 +101,12 @@ export function EnrichmentResultsDialog({ isOpen, onClose, results }: Enrichment
                     <div className="flex-1">
                       <div className="flex items-center justify-between mb-1">
                         <h4 className={`text-sm font-medium ${
-                          result.success ? 'text-green-800' : 'text-red-800'
+                          result.success ? 'text-green-800' : result.inReview ? 'text-amber-800' : 'text-red-800'
                         }`}>
                           {result.attendee.first_name} {result.attendee.last_name}
                         </h4>
                         <span className="text-xs text-gray-500">
-                          {result.success ? 'Enriched' : 'Failed'}
+                          {result.success ? 'Enriched' : result.inReview ? 'In review' : 'Failed'}
                         </span>
                       </div>
                       
@@ -106,8 +123,8 @@ export function EnrichmentResultsDialog({ isOpen, onClose, results }: Enrichment
                       )}
                       
                       {result.error && (
-                        <p className="text-xs text-red-600 mt-1">
-                          Error: {result.error}
+                        <p className={`text-xs mt-1 ${result.inReview ? 'text-amber-700' : 'text-red-600'}`}>
+                          {result.inReview ? result.error : `Error: ${result.error}`}
                         </p>
                       )}
                     </div>
@@ -118,7 +135,15 @@ export function EnrichmentResultsDialog({ isOpen, onClose, results }: Enrichment
           </div>
 
           {/* Footer with action button */}
-          <div className="border-t border-gray-200 p-4 flex justify-center">
+          <div className="border-t border-gray-200 p-4 flex justify-center gap-2">
+            {reviewCount > 0 && (
+              <Link
+                href="/match-review"
+                className="inline-flex justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Review matches
+              </Link>
+            )}
             <button
               type="button"
               className="inline-flex justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
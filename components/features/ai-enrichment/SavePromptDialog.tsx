@@ -2,12 +2,15 @@ import React, { useState, Fragment, FormEvent } from 'react'
 import { Dialog, Transition } from '@headlessui/react'
 import { XMarkIcon, BookmarkIcon } from '@heroicons/react/24/outline'
 import { aiPromptsService, CreateAIPromptData } from '@/lib/aiPrompts'
+import type { AIOutputField } from '@/lib/aiOutputFields'
 
 interface SavePromptDialogProps {
   isOpen: boolean
   onClose: () => void
   onSave: (savedPrompt: any) => void
   promptTemplate: string
+  outputFields: AIOutputField[]
+  // Kept for the prompt's type badge; taken from the first output field
   columnType: 'text' | 'boolean' | 'number'
   initialName?: string
 }
@@ -17,6 +20,7 @@ export function SavePromptDialog({
   onClose, 
   onSave, 
   promptTemplate, 
+  outputFields,
   columnType,
   initialName = ''
 }: SavePromptDialogProps) {
@@ -53,6 +57,7 @@ export function SavePromptDialog({
         name: name.trim(),
         prompt_template: promptTemplate,
         column_type: columnType,
+        output_fields: outputFields,
         description: description.trim() || undefined,
         is_default: false
       }
@@ -160,7 +165,7 @@ export function SavePromptDialog({
                       <div className="mb-4 p-3 bg-gray-50 rounded-md">
                         <h4 className="text-sm font-medium text-gray-700 mb-2">Prompt Preview</h4>
                         <div className="text-sm text-gray-600 max-h-20 overflow-y-auto">
-                          <span className="font-medium">Type:</span> {columnType}<br />
+                          <span className="font-medium">Fields:</span> {outputFields.map(field => `${field.name || '(unnamed)'} (${field.type})`).join(', ')}<br />
                           <span className="font-medium">Template:</span> {promptTemplate.substring(0, 150)}{promptTemplate.length > 150 ? '...' : ''}
                         </div>
                       </div>
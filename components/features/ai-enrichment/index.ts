@@ -1,8 +1,10 @@
 // Export all AI enrichment components
 export * from './AIEnrichmentDialog';
 export * from './AIEnrichmentResultsDialog';
+export * from './AIEnrichmentJobItem';
 export * from './EnrichmentResultsDialog';
 export * from './DefinitiveEnrichmentResultsDialog';
 export * from './DeleteResultsDialog';
 export * from './AddToListResultsDialog';
-export * from './PushToApolloResultsDialog'; 
\ No newline at end of file
+export * from './PushToApolloResultsDialog'; 
+export * from './MergeResultsDialog';
\ No newline at end of file
@@ -4,6 +4,8 @@ import { Attendee } from '@/types';
 import { apolloService, ApolloContactCreate, ApolloEnrichmentResponse } from '@/lib/apollo';
 import { ArrowPathIcon, ArrowUpTrayIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
 import ApolloListModal from './ApolloListModal';
+import { logSystemActivities } from '@/lib/activities';
+import { linkApolloContacts } from '@/lib/apolloSync';
 import { Dialog, Transition } from '@headlessui/react';
 
 interface ApolloIntegrationProps {
@@ -74,10 +76,22 @@ export default function ApolloIntegration({
         organization: attendee.health_systems?.name || attendee.company || '',
         phone: attendee.phone || '',
         linkedinUrl: attendee.linkedin_url || '',
+        apolloContactId: attendee.apollo_contact_id,
       }));
 
       // Push contacts to Apollo with the selected list name as the label
-      await apolloService.pushContactsToApollo(contacts, listName);
+      const pushResults = await apolloService.pushContactsToApollo(contacts, listName);
+
+      // Remember which Apollo contact each attendee is, so changes made there can be pulled back
+      await linkApolloContacts(selectedAttendees.map(attendee => attendee.id), pushResults)
+        .catch(linkError => console.error('Failed to link Apollo contacts:', linkError));
+      
+      logSystemActivities(selectedAttendees.map(attendee => ({
+        attendeeId: attendee.id,
+        type: 'apollo_push',
+        summary: `Pushed to Apollo list "${listName}"`,
+        details: { list_name: listName }
+      })));
       
       setError(null);
       setIsSuccessModalOpen(true);
@@ -0,0 +1,135 @@
+import Link from 'next/link'
+import { useState } from 'react'
+import { ApolloMatchReview, ScoredApolloCandidate, APOLLO_MATCH_FACTORS } from '@/lib/apolloMatching'
+
+interface ApolloMatchReviewCardProps {
+  review: ApolloMatchReview
+  // Left out for users who can't edit records
+  onAccept?: (review: ApolloMatchReview, candidate: ScoredApolloCandidate) => void
+  onReject?: (review: ApolloMatchReview) => void
+  isSaving?: boolean
+}
+
+export function ApolloMatchReviewCard({ review, onAccept, onReject, isSaving = false }: ApolloMatchReviewCardProps) {
+  // The candidate to accept; the best one to start with
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const attendee = review.attendee
+  const canResolve = !!onAccept || !!onReject
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white">
+      <div className="grid grid-cols-1 lg:grid-cols-4">
+        <div className="border-b lg:border-b-0 lg:border-r border-gray-200 p-4">
+          <p className="text-xs font-medium uppercase tracking-wide text-gray-500">Attendee</p>
+          {attendee ? (
+            <>
+              <Link href={`/attendees/${review.attendeeId}`} className="mt-1 block text-sm font-medium text-primary-600 hover:underline">
+                {attendee.first_name} {attendee.last_name}
+              </Link>
+              <dl className="mt-2 space-y-1 text-sm">
+                {[
+                  ['Title', attendee.title],
+                  ['Company', attendee.company],
+                  ['Email', attendee.email],
+                ].map(([label, value]) => (
+                  <div key={label}>
+                    <dt className="text-xs text-gray-500">{label}</dt>
+                    <dd className="text-gray-900 break-words">{value || <span className="text-gray-400">Empty</span>}</dd>
+                  </div>
+                ))}
+              </dl>
+            </>
+          ) : (
+            <p className="mt-1 text-sm text-gray-500">Attendee not found</p>
+          )}
+        </div>
+
+        <div className="lg:col-span-3 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-xs font-medium text-gray-500">
+                {canResolve && <th className="w-8 px-3 py-2" />}
+                <th className="px-3 py-2">Candidate</th>
+                {APOLLO_MATCH_FACTORS.map(({ factor, label, description }) => (
+                  <th key={factor} className="px-2 py-2 text-right" title={description}>{label}</th>
+                ))}
+                <th className="px-3 py-2 text-right">Score</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {review.candidates.map((candidate, index) => (
+                <tr
+                  key={candidate.match.id || index}
+                  onClick={() => canResolve && setSelectedIndex(index)}
+                  className={`${canResolve ? 'cursor-pointer' : ''} ${index === selectedIndex && canResolve ? 'bg-primary-50' : ''}`}
+                >
+                  {canResolve && (
+                    <td className="px-3 py-2">
+                      <input
+                        type="radio"
+                        name={`candidate-${review.id}`}
+                        checked={index === selectedIndex}
+                        onChange={() => setSelectedIndex(index)}
+                        className="h-4 w-4 border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                    </td>
+                  )}
+                  <td className="px-3 py-2">
+                    <p className="font-medium text-gray-900">
+                      {candidate.match.name || `${candidate.match.first_name} ${candidate.match.last_name}`}
+                      {candidate.match.linkedin_url && (
+                        <a
+                          href={candidate.match.linkedin_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          onClick={(e) => e.stopPropagation()}
+                          className="ml-2 text-xs font-normal text-primary-600 hover:underline"
+                        >
+                          LinkedIn
+                        </a>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {[candidate.match.title, candidate.match.organization?.name].filter(Boolean).join(' at ') || 'No title or organization'}
+                    </p>
+                  </td>
+                  {APOLLO_MATCH_FACTORS.map(({ factor }) => (
+                    <td key={factor} className="px-2 py-2 text-right tabular-nums text-gray-600">
+                      {candidate.breakdown[factor].toFixed(1)}
+                    </td>
+                  ))}
+                  <td className="px-3 py-2 text-right font-medium tabular-nums text-gray-900">
+                    {Math.round(candidate.score)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {canResolve && (
+        <div className="flex justify-end gap-2 border-t border-gray-200 px-4 py-3">
+          {onReject && (
+            <button
+              onClick={() => onReject(review)}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900 disabled:opacity-50"
+            >
+              Reject all
+            </button>
+          )}
+          {onAccept && review.candidates[selectedIndex] && (
+            <button
+              onClick={() => onAccept(review, review.candidates[selectedIndex])}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Applying...' : selectedIndex === 0 ? 'Accept best match' : 'Accept selected match'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,239 @@
+import { useState, useEffect, Fragment } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { AdjustmentsHorizontalIcon } from '@heroicons/react/24/outline'
+import {
+  fetchApolloMatchSettings,
+  saveApolloMatchSettings,
+  ApolloMatchSettings,
+  APOLLO_MATCH_FACTORS,
+  DEFAULT_APOLLO_MATCH_SETTINGS
+} from '@/lib/apolloMatching'
+
+interface ApolloMatchSettingsDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onSaved?: (settings: ApolloMatchSettings) => void
+}
+
+const inputClassName = 'block w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500 bg-white'
+
+// Keywords are edited one per line or separated by commas
+const parseKeywords = (value: string) =>
+  value.split(/[\n,]/).map(keyword => keyword.trim().toLowerCase()).filter(Boolean)
+
+export function ApolloMatchSettingsDialog({ isOpen, onClose, onSaved }: ApolloMatchSettingsDialogProps) {
+  const [settings, setSettings] = useState<ApolloMatchSettings>(DEFAULT_APOLLO_MATCH_SETTINGS)
+  const [keywords, setKeywords] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadForm = (loaded: ApolloMatchSettings) => {
+    setSettings(loaded)
+    setKeywords(loaded.oncologyKeywords.join('\n'))
+  }
+
+  // Load the saved settings whenever the dialog opens
+  useEffect(() => {
+    if (!isOpen) return
+
+    setError(null)
+    setIsLoading(true)
+    fetchApolloMatchSettings()
+      .then(loadForm)
+      .catch(err => {
+        console.error('Failed to load Apollo match settings:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load Apollo match settings')
+      })
+      .finally(() => setIsLoading(false))
+  }, [isOpen])
+
+  const totalWeight = Object.values(settings.weights).reduce((sum, weight) => sum + weight, 0)
+
+  const handleSave = async () => {
+    if (totalWeight <= 0) {
+      setError('At least one factor needs a weight')
+      return
+    }
+    if (settings.minScore > settings.autoAcceptScore) {
+      setError('The minimum score can\'t be higher than the auto-accept score')
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      const saved = await saveApolloMatchSettings({ ...settings, oncologyKeywords: parseKeywords(keywords) })
+      onSaved?.(saved)
+      onClose()
+    } catch (err) {
+      console.error('Failed to save Apollo match settings:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save Apollo match settings')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toNumber = (value: string) => Math.max(0, Number(value) || 0)
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-30" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-lg bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title className="text-lg font-medium text-gray-900 mb-1 flex items-center">
+                  <AdjustmentsHorizontalIcon className="h-5 w-5 text-primary-500 mr-2" />
+                  Apollo Match Settings
+                </Dialog.Title>
+                <p className="mb-4 text-sm text-gray-500">
+                  How bulk Apollo enrichment scores candidates. Scores are out of 100 whatever the weights add up to.
+                </p>
+
+                {error && (
+                  <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+                    {error}
+                  </div>
+                )}
+
+                {isLoading ? (
+                  <div className="flex items-center justify-center py-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-2 border-primary-600 border-t-transparent"></div>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-700 mb-2">Weights</h4>
+                      <div className="space-y-2">
+                        {APOLLO_MATCH_FACTORS.map(({ factor, label, description }) => (
+                          <div key={factor} className="flex items-center gap-3">
+                            <div className="min-w-0 flex-1">
+                              <p className="text-sm text-gray-900">{label}</p>
+                              <p className="text-xs text-gray-500">{description}</p>
+                            </div>
+                            <input
+                              type="number"
+                              min={0}
+                              value={settings.weights[factor]}
+                              onChange={(e) => setSettings({ ...settings, weights: { ...settings.weights, [factor]: toNumber(e.target.value) } })}
+                              className={`${inputClassName} w-20`}
+                            />
+                            <span className="w-12 text-right text-xs text-gray-500">
+                              {totalWeight > 0 ? `${Math.round(settings.weights[factor] * 100 / totalWeight)}%` : '-'}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Auto-accept at</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={settings.autoAcceptScore}
+                          onChange={(e) => setSettings({ ...settings, autoAcceptScore: Math.min(100, toNumber(e.target.value)) })}
+                          className={inputClassName}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Review from</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={settings.minScore}
+                          onChange={(e) => setSettings({ ...settings, minScore: Math.min(100, toNumber(e.target.value)) })}
+                          className={inputClassName}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Name match</label>
+                        <div className="flex items-center gap-1">
+                          <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={Math.round(settings.minNameSimilarity * 100)}
+                            onChange={(e) => setSettings({ ...settings, minNameSimilarity: Math.min(100, toNumber(e.target.value)) / 100 })}
+                            className={inputClassName}
+                          />
+                          <span className="text-sm text-gray-500">%</span>
+                        </div>
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Matches scoring at least the auto-accept score, with at least the name match share of the name points, are applied.
+                      Lower scores down to the review score go to the match review queue; anything below is treated as no match.
+                    </p>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Oncology keywords</label>
+                      <textarea
+                        rows={5}
+                        value={keywords}
+                        onChange={(e) => setKeywords(e.target.value)}
+                        className={inputClassName}
+                      />
+                      <p className="mt-1 text-xs text-gray-500">
+                        One per line or separated by commas. Matched anywhere in the title, headline, organization and past jobs.
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                <div className="mt-6 flex items-center justify-between gap-2">
+                  <button
+                    onClick={() => loadForm(DEFAULT_APOLLO_MATCH_SETTINGS)}
+                    disabled={isLoading || isSaving}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                  >
+                    Reset to defaults
+                  </button>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={onClose}
+                      className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleSave}
+                      disabled={isLoading || isSaving}
+                      className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+                    >
+                      {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -0,0 +1,206 @@
+import { useState, useEffect, Fragment } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { ArrowDownTrayIcon, ArrowPathIcon } from '@heroicons/react/24/outline'
+import type { Attendee } from '@/types'
+import { previewApolloSync, applyApolloSync, ApolloFieldChange, ApolloSyncPreview } from '@/lib/apolloSync'
+
+interface ApolloSyncDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  // Checked again whenever a new array is passed while open, so keep it stable
+  attendees: Attendee[]
+  // Called after changes were applied, so the page can reload
+  onSynced?: () => void
+}
+
+const changeKey = (change: ApolloFieldChange) => `${change.attendeeId}:${change.field}`
+
+export function ApolloSyncDialog({ isOpen, onClose, attendees, onSynced }: ApolloSyncDialogProps) {
+  const [preview, setPreview] = useState<ApolloSyncPreview | null>(null)
+  const [progress, setProgress] = useState<{ done: number, total: number } | null>(null)
+  // Changes to apply, by attendee and field; all are picked to start with
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set())
+  const [isApplying, setIsApplying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Fetch the Apollo contacts and work out the changes whenever the dialog opens
+  useEffect(() => {
+    if (!isOpen) return
+
+    let cancelled = false
+    setPreview(null)
+    setError(null)
+    setProgress({ done: 0, total: attendees.filter(attendee => attendee.apollo_contact_id).length })
+
+    previewApolloSync(attendees, (done, total) => {
+      if (!cancelled) setProgress({ done, total })
+    })
+      .then(result => {
+        if (cancelled) return
+        setPreview(result)
+        setSelectedKeys(new Set(result.changes.map(changeKey)))
+      })
+      .catch(err => {
+        console.error('Failed to check Apollo for changes:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to check Apollo for changes')
+      })
+      .finally(() => {
+        if (!cancelled) setProgress(null)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, attendees])
+
+  const toggleChange = (change: ApolloFieldChange) => {
+    setSelectedKeys(prev => {
+      const next = new Set(prev)
+      if (next.has(changeKey(change))) {
+        next.delete(changeKey(change))
+      } else {
+        next.add(changeKey(change))
+      }
+      return next
+    })
+  }
+
+  const handleApply = async () => {
+    if (!preview) return
+
+    setIsApplying(true)
+    setError(null)
+    try {
+      await applyApolloSync(preview.changes.filter(change => selectedKeys.has(changeKey(change))), preview.checkedIds)
+      onSynced?.()
+      onClose()
+    } catch (err) {
+      console.error('Failed to apply Apollo changes:', err)
+      setError(err instanceof Error ? err.message : 'Failed to apply Apollo changes')
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  // Group the changes by attendee for display
+  const changesByAttendee = (preview?.changes || []).reduce<Record<string, ApolloFieldChange[]>>((groups, change) => {
+    groups[change.attendeeId] = [...(groups[change.attendeeId] || []), change]
+    return groups
+  }, {})
+
+  const notes = preview ? [
+    preview.notLinked.length > 0 && `${preview.notLinked.length} not pushed to Apollo yet`,
+    preview.missing.length > 0 && `${preview.missing.length} no longer in Apollo`,
+    preview.failed.length > 0 && `${preview.failed.length} could not be checked`,
+  ].filter(Boolean) : []
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-30" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-2xl transform overflow-hidden rounded-lg bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title className="text-lg font-medium text-gray-900 mb-1 flex items-center">
+                  <ArrowDownTrayIcon className="h-5 w-5 text-primary-500 mr-2" />
+                  Sync from Apollo
+                </Dialog.Title>
+                <p className="mb-4 text-sm text-gray-500">
+                  Review the title, company and email changes made in Apollo before applying them.
+                </p>
+
+                {error && (
+                  <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+                    {error}
+                  </div>
+                )}
+
+                {progress ? (
+                  <div className="flex items-center justify-center gap-2 py-8 text-sm text-gray-500">
+                    <ArrowPathIcon className="h-5 w-5 animate-spin" />
+                    Checking Apollo ({progress.done}/{progress.total})...
+                  </div>
+                ) : preview && (
+                  <>
+                    {preview.changes.length === 0 ? (
+                      <p className="py-6 text-center text-sm text-gray-500">
+                        {preview.checkedIds.length > 0 ? 'Everything is in sync with Apollo' : 'No attendees to check'}
+                      </p>
+                    ) : (
+                      <div className="max-h-96 overflow-y-auto space-y-4">
+                        {Object.entries(changesByAttendee).map(([attendeeId, changes]) => (
+                          <div key={attendeeId}>
+                            <h4 className="text-sm font-medium text-gray-900 mb-1">{changes[0].attendeeName}</h4>
+                            <ul className="divide-y divide-gray-100 rounded-md border border-gray-200">
+                              {changes.map(change => (
+                                <li key={changeKey(change)} className="flex items-start gap-3 px-3 py-2">
+                                  <input
+                                    type="checkbox"
+                                    checked={selectedKeys.has(changeKey(change))}
+                                    onChange={() => toggleChange(change)}
+                                    className="mt-0.5 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                                  />
+                                  <div className="min-w-0 flex-1 text-sm">
+                                    <p className="text-xs font-medium text-gray-500">{change.label}</p>
+                                    <p className="text-gray-400 line-through break-words">{change.currentValue || 'Empty'}</p>
+                                    <p className="text-gray-900 break-words">{change.apolloValue}</p>
+                                  </div>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {notes.length > 0 && (
+                      <p className="mt-3 text-xs text-gray-500">{notes.join(' · ')}</p>
+                    )}
+                  </>
+                )}
+
+                <div className="mt-6 flex justify-end gap-2">
+                  <button
+                    onClick={onClose}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleApply}
+                    disabled={isApplying || !preview || preview.checkedIds.length === 0}
+                    className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+                  >
+                    {isApplying
+                      ? 'Applying...'
+                      : selectedKeys.size > 0 ? `Apply ${selectedKeys.size} ${selectedKeys.size === 1 ? 'change' : 'changes'}` : 'Mark as synced'}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -0,0 +1,53 @@
+import { useState, useMemo } from 'react'
+import Image from 'next/image'
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline'
+import type { Attendee } from '@/types'
+import { useRole } from '@/hooks/useRole'
+import { describeApolloSync } from '@/lib/apolloSync'
+import { ApolloSyncDialog } from './ApolloSyncDialog'
+
+interface ApolloSyncStatusProps {
+  attendee: Attendee
+  // Called after changes from Apollo were applied, so the attendee can be reloaded
+  onSynced?: () => void
+}
+
+/**
+ * Whether an attendee is linked to an Apollo contact, with a button to pull changes from it
+ */
+export function ApolloSyncStatus({ attendee, onSynced }: ApolloSyncStatusProps) {
+  const { can } = useRole()
+  const [isSyncOpen, setIsSyncOpen] = useState(false)
+  const syncAttendees = useMemo(() => [attendee], [attendee])
+  const isLinked = !!attendee.apollo_contact_id
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div className="flex items-center gap-2 text-sm">
+        <Image src="/apollo.svg" alt="Apollo" width={20} height={20} className="h-5 w-5" />
+        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+          isLinked ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+        }`}>
+          {describeApolloSync(attendee)}
+        </span>
+      </div>
+
+      {isLinked && can('editRecords') && (
+        <button
+          onClick={() => setIsSyncOpen(true)}
+          className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-cyan-700 bg-cyan-100 hover:bg-cyan-200"
+        >
+          <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+          Check for changes
+        </button>
+      )}
+
+      <ApolloSyncDialog
+        isOpen={isSyncOpen}
+        onClose={() => setIsSyncOpen(false)}
+        attendees={syncAttendees}
+        onSynced={onSynced}
+      />
+    </div>
+  )
+}
@@ -1,3 +1,7 @@
 // Export all Apollo-related components
 export * from './ApolloIntegration';
-export * from './ApolloListModal'; 
\ No newline at end of file
+export * from './ApolloListModal';
+export * from './ApolloMatchReviewCard';
+export * from './ApolloMatchSettingsDialog';
+export * from './ApolloSyncDialog';
+export * from './ApolloSyncStatus';
\ No newline at end of file
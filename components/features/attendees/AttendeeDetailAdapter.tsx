@@ -12,6 +12,7 @@ import { useState, useEffect } from 'react'
 import type { Attendee, HealthSystem } from '@/types'
 import { EntityDetail, FieldDefinition, TagDefinition, EntityTypes } from '@/components/features/entities/EntityDetail'
 import { supabase } from '@/lib/supabase'
+import { ActivityTimeline } from '@/components/features/activities/ActivityTimeline'
 
 interface AttendeeConference {
   id: string;
@@ -470,7 +471,17 @@ export const AttendeeDetailAdapter = ({
         conferenceName={conferenceName}
         fetchWithRelationships={fetchAttendeeWithRelationships}
         isNewEntity={isNewEntity}
-      />
+      >
+        {!isNewEntity && fullAttendee.id && fullAttendee.id !== 'new' && (
+          <ActivityTimeline
+            attendeeId={fullAttendee.id}
+            conferences={(fullAttendee.attendee_conferences || [])
+              .map(ac => ac.conferences)
+              .filter((conference): conference is NonNullable<typeof conference> => !!conference)
+              .map(conference => ({ id: conference.id, name: conference.name }))}
+          />
+        )}
+      </EntityDetail>
     </div>
   );
 }; 
\ No newline at end of file
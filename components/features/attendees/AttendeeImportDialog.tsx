@@ -0,0 +1,478 @@
+import { useState, useEffect, useMemo, Fragment } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import {
+  ArrowUpTrayIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  XCircleIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline'
+import { supabase } from '@/lib/supabase'
+import { useDatabaseSchema } from '@/hooks/useDatabaseSchema'
+import {
+  parseImportFile,
+  getImportFields,
+  autoMapColumns,
+  buildImportRows,
+  detectDuplicates,
+  importAttendees,
+  FULL_NAME_FIELD,
+  ParsedSheet,
+  ColumnMapping,
+  ImportAction,
+  ImportRow,
+  ImportResult
+} from '@/lib/attendeeImport'
+
+interface AttendeeImportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onImportComplete?: (results: ImportResult[]) => void
+}
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'results'
+
+interface ConferenceOption {
+  id: string
+  name: string
+  start_date?: string
+}
+
+const DUPLICATE_LABELS = {
+  email: 'Same email as',
+  name_company: 'Same name and company as',
+  in_file: 'Repeated earlier in this file'
+}
+
+export function AttendeeImportDialog({ isOpen, onClose, onImportComplete }: AttendeeImportDialogProps) {
+  const { columns, loading: schemaLoading } = useDatabaseSchema()
+  const [step, setStep] = useState<ImportStep>('upload')
+  const [fileName, setFileName] = useState('')
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [results, setResults] = useState<ImportResult[]>([])
+  const [conferences, setConferences] = useState<ConferenceOption[]>([])
+  const [conferenceId, setConferenceId] = useState('')
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const importFields = useMemo(() => getImportFields(columns), [columns])
+
+  // Load conferences to link imported attendees to
+  useEffect(() => {
+    if (!isOpen) return
+
+    const fetchConferences = async () => {
+      const { data, error: fetchError } = await supabase
+        .from('conferences')
+        .select('id, name, start_date')
+        .order('start_date', { ascending: false })
+
+      if (fetchError) {
+        console.error('Error fetching conferences:', fetchError)
+        return
+      }
+
+      setConferences(data || [])
+    }
+
+    fetchConferences()
+  }, [isOpen])
+
+  const resetState = () => {
+    setStep('upload')
+    setFileName('')
+    setSheet(null)
+    setMapping({})
+    setRows([])
+    setResults([])
+    setConferenceId('')
+    setError(null)
+  }
+
+  const handleClose = () => {
+    if (isProcessing) return
+    resetState()
+    onClose()
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setIsProcessing(true)
+    setError(null)
+
+    try {
+      const parsed = await parseImportFile(file)
+
+      if (parsed.rows.length === 0) {
+        throw new Error('No data rows found below the header row')
+      }
+
+      setFileName(file.name)
+      setSheet(parsed)
+      setMapping(autoMapColumns(parsed.headers, importFields))
+      setStep('map')
+    } catch (err) {
+      console.error('Error parsing import file:', err)
+      setError(err instanceof Error ? err.message : 'Failed to read file')
+    } finally {
+      setIsProcessing(false)
+      e.target.value = ''
+    }
+  }
+
+  const handleMappingChange = (header: string, fieldId: string) => {
+    setMapping(prev => {
+      const next = { ...prev }
+      // A column can only be the target of one header
+      if (fieldId) {
+        Object.keys(next).forEach(key => {
+          if (next[key] === fieldId) next[key] = ''
+        })
+      }
+      next[header] = fieldId
+      return next
+    })
+  }
+
+  const mappedTargets = Object.values(mapping).filter(Boolean)
+  const hasNameMapping = mappedTargets.includes(FULL_NAME_FIELD) ||
+    (mappedTargets.includes('first_name') && mappedTargets.includes('last_name'))
+
+  const handlePreview = async () => {
+    if (!sheet) return
+
+    setIsProcessing(true)
+    setError(null)
+
+    try {
+      const built = buildImportRows(sheet, mapping, importFields)
+      setRows(await detectDuplicates(built))
+      setStep('preview')
+    } catch (err) {
+      console.error('Error preparing import preview:', err)
+      setError(err instanceof Error ? err.message : 'Failed to prepare preview')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleRowActionChange = (index: number, action: ImportAction) => {
+    setRows(prev => prev.map(row => row.index === index ? { ...row, action } : row))
+  }
+
+  const handleImport = async () => {
+    setIsProcessing(true)
+    setError(null)
+
+    try {
+      const importResults = await importAttendees(rows, conferenceId || null)
+      setResults(importResults)
+      setStep('results')
+      onImportComplete?.(importResults)
+    } catch (err) {
+      console.error('Error importing attendees:', err)
+      setError(err instanceof Error ? err.message : 'Failed to import attendees')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const counts = {
+    create: rows.filter(row => row.action === 'create').length,
+    link: rows.filter(row => row.action === 'link').length,
+    skip: rows.filter(row => row.action === 'skip').length,
+    duplicates: rows.filter(row => row.duplicate).length
+  }
+
+  const previewColumns = ['first_name', 'last_name', 'email', 'company', 'title']
+    .filter(id => rows.some(row => row.data[id]))
+
+  const renderUploadStep = () => (
+    <div className="mt-4">
+      <label className="flex flex-col items-center justify-center w-full h-48 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100">
+        <ArrowUpTrayIcon className="h-8 w-8 text-gray-400" />
+        <p className="mt-2 text-sm text-gray-600">
+          {isProcessing ? 'Reading file...' : 'Click to choose a CSV or XLSX roster'}
+        </p>
+        <p className="text-xs text-gray-500">The first row must contain column headers</p>
+        <input
+          type="file"
+          accept=".csv,.xlsx,.xls,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel"
+          className="hidden"
+          onChange={handleFileChange}
+          disabled={isProcessing || schemaLoading}
+        />
+      </label>
+    </div>
+  )
+
+  const renderMapStep = () => (
+    <div className="mt-4">
+      <p className="text-sm text-gray-500 mb-3">
+        {fileName} • {sheet?.rows.length} rows. Choose which attendee field each column should fill.
+      </p>
+      <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-md">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Spreadsheet Column</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sample</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attendee Field</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {sheet?.headers.map(header => (
+              <tr key={header}>
+                <td className="px-4 py-2 text-sm font-medium text-gray-900">{header}</td>
+                <td className="px-4 py-2 text-sm text-gray-500 truncate max-w-[200px]">{sheet.rows[0]?.[header] || '-'}</td>
+                <td className="px-4 py-2">
+                  <select
+                    value={mapping[header] || ''}
+                    onChange={(e) => handleMappingChange(header, e.target.value)}
+                    className="block w-full rounded-md border-gray-300 py-1.5 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  >
+                    <option value="">Don&apos;t import</option>
+                    {importFields.map(field => (
+                      <option key={field.id} value={field.id}>{field.label}</option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {!hasNameMapping && (
+        <p className="mt-2 text-sm text-amber-700">
+          Map either a full name column or both first and last name to continue.
+        </p>
+      )}
+    </div>
+  )
+
+  const renderPreviewStep = () => (
+    <div className="mt-4">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-3">
+        <div className="text-sm text-gray-600">
+          <span className="font-medium text-gray-900">{counts.create}</span> new •{' '}
+          <span className="font-medium text-gray-900">{counts.link}</span> link existing •{' '}
+          <span className="font-medium text-gray-900">{counts.skip}</span> skipped
+          {counts.duplicates > 0 && (
+            <span className="text-amber-700"> • {counts.duplicates} likely duplicates</span>
+          )}
+        </div>
+        <div className="w-72">
+          <label htmlFor="import-conference" className="block text-xs font-medium text-gray-700 mb-1">
+            Link attendees to conference
+          </label>
+          <select
+            id="import-conference"
+            value={conferenceId}
+            onChange={(e) => setConferenceId(e.target.value)}
+            className="block w-full rounded-md border-gray-300 py-1.5 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+          >
+            <option value="">No conference</option>
+            {conferences.map(conference => (
+              <option key={conference.id} value={conference.id}>{conference.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="max-h-96 overflow-auto border border-gray-200 rounded-md">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+              {previewColumns.map(id => (
+                <th key={id} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {importFields.find(field => field.id === id)?.label || id}
+                </th>
+              ))}
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {rows.map(row => (
+              <tr key={row.index} className={row.action === 'skip' ? 'bg-gray-50 text-gray-400' : ''}>
+                <td className="px-3 py-2 text-sm">{row.index + 2}</td>
+                {previewColumns.map(id => (
+                  <td key={id} className="px-3 py-2 text-sm truncate max-w-[160px]">{String(row.data[id] || '-')}</td>
+                ))}
+                <td className="px-3 py-2 text-xs">
+                  {row.error ? (
+                    <span className="text-red-600">{row.error}</span>
+                  ) : row.duplicate ? (
+                    <span className="inline-flex items-center text-amber-700">
+                      <ExclamationTriangleIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+                      {DUPLICATE_LABELS[row.duplicate.reason]}
+                      {row.duplicate.attendee && ` ${row.duplicate.attendee.first_name} ${row.duplicate.attendee.last_name}`}
+                    </span>
+                  ) : (
+                    <span className="text-green-700">New</span>
+                  )}
+                </td>
+                <td className="px-3 py-2">
+                  <select
+                    value={row.action}
+                    onChange={(e) => handleRowActionChange(row.index, e.target.value as ImportAction)}
+                    disabled={!!row.error}
+                    className="block w-full rounded-md border-gray-300 py-1 text-xs focus:border-indigo-500 focus:ring-indigo-500"
+                  >
+                    <option value="create">Create new</option>
+                    {row.duplicate?.attendee && <option value="link">Link existing</option>}
+                    <option value="skip">Skip</option>
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+
+  const renderResultsStep = () => {
+    const created = results.filter(result => result.success && result.row.action === 'create').length
+    const linked = results.filter(result => result.success && result.row.action === 'link').length
+    const failed = results.filter(result => !result.success)
+
+    return (
+      <div className="mt-4">
+        <div className="flex items-center justify-center mb-4">
+          <div className="h-12 w-12 rounded-full bg-green-100 flex items-center justify-center">
+            <CheckCircleIcon className="h-6 w-6 text-green-600" aria-hidden="true" />
+          </div>
+        </div>
+        <p className="text-sm text-center text-gray-700">
+          Created {created} attendees and linked {linked} existing attendees
+          {conferenceId && ` to ${conferences.find(conference => conference.id === conferenceId)?.name}`}.
+          {counts.skip > 0 && ` ${counts.skip} rows were skipped.`}
+        </p>
+        {failed.length > 0 && (
+          <ul role="list" className="mt-4 divide-y divide-gray-200 max-h-60 overflow-y-auto">
+            {failed.map(result => (
+              <li key={result.row.index} className="flex items-center py-2 text-sm">
+                <XCircleIcon className="h-5 w-5 text-red-600 mr-2" />
+                Row {result.row.index + 2}: {result.error}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    )
+  }
+
+  const stepTitles: Record<ImportStep, string> = {
+    upload: 'Import Attendees',
+    map: 'Map Columns',
+    preview: 'Review Import',
+    results: 'Import Complete'
+  }
+
+  return (
+    <Transition.Root show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={handleClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-75 transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 z-10 w-screen overflow-y-auto">
+          <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              enterTo="opacity-100 translate-y-0 sm:scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+              leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            >
+              <Dialog.Panel className="relative transform overflow-hidden rounded-lg bg-white px-4 pb-4 pt-5 text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-4xl sm:p-6">
+                <div className="absolute right-0 top-0 pr-4 pt-4">
+                  <button
+                    type="button"
+                    className="rounded-md bg-white text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                    onClick={handleClose}
+                  >
+                    <span className="sr-only">Close</span>
+                    <XMarkIcon className="h-6 w-6" aria-hidden="true" />
+                  </button>
+                </div>
+
+                <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                  {stepTitles[step]}
+                </Dialog.Title>
+
+                {error && (
+                  <div className="mt-4 bg-red-50 border-l-4 border-red-400 p-4">
+                    <p className="text-sm text-red-700">{error}</p>
+                  </div>
+                )}
+
+                {step === 'upload' && renderUploadStep()}
+                {step === 'map' && renderMapStep()}
+                {step === 'preview' && renderPreviewStep()}
+                {step === 'results' && renderResultsStep()}
+
+                <div className="mt-5 sm:mt-6 flex justify-end gap-3">
+                  {(step === 'map' || step === 'preview') && (
+                    <button
+                      type="button"
+                      className="inline-flex justify-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                      onClick={() => setStep(step === 'preview' ? 'map' : 'upload')}
+                      disabled={isProcessing}
+                    >
+                      Back
+                    </button>
+                  )}
+                  {step === 'map' && (
+                    <button
+                      type="button"
+                      className="inline-flex justify-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+                      onClick={handlePreview}
+                      disabled={isProcessing || !hasNameMapping}
+                    >
+                      {isProcessing ? 'Checking for duplicates...' : 'Preview'}
+                    </button>
+                  )}
+                  {step === 'preview' && (
+                    <button
+                      type="button"
+                      className="inline-flex justify-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+                      onClick={handleImport}
+                      disabled={isProcessing || counts.create + counts.link === 0}
+                    >
+                      {isProcessing ? 'Importing...' : `Import ${counts.create + counts.link} rows`}
+                    </button>
+                  )}
+                  {step === 'results' && (
+                    <button
+                      type="button"
+                      className="inline-flex justify-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+                      onClick={handleClose}
+                    >
+                      Close
+                    </button>
+                  )}
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  )
+}
@@ -0,0 +1,218 @@
+import { useState, useEffect, useMemo, Fragment } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import type { Attendee } from '@/types'
+import { getMergeFields, mergeAttendees, MergeResult } from '@/lib/attendeeDedup'
+
+interface AttendeeMergeDialogProps {
+  isOpen: boolean
+  attendees: Attendee[]
+  onClose: () => void
+  onMergeComplete: (result: MergeResult) => void
+}
+
+// Helper to generate human-readable labels from attendee keys
+const toLabel = (key: string) =>
+  key
+    .replace(/_/g, ' ')
+    .replace(/^./, (str) => str.toUpperCase())
+
+const formatValue = (key: string, attendee: Attendee) => {
+  const value = (attendee as any)[key]
+  if (key === 'health_system_id') {
+    return attendee.health_systems?.name || (value ? String(value) : '')
+  }
+  if (Array.isArray(value)) return value.join(', ')
+  if (value && typeof value === 'object') return JSON.stringify(value)
+  return value === null || value === undefined ? '' : String(value)
+}
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+
+export function AttendeeMergeDialog({ isOpen, attendees, onClose, onMergeComplete }: AttendeeMergeDialogProps) {
+  const [survivorId, setSurvivorId] = useState<string>('')
+  // Field key -> id of the attendee whose value is kept
+  const [choices, setChoices] = useState<Record<string, string>>({})
+  const [isMerging, setIsMerging] = useState(false)
+
+  const fields = useMemo(() => getMergeFields(attendees), [attendees])
+
+  // Default to the oldest record as survivor, filling its gaps from the others
+  useEffect(() => {
+    if (!isOpen || attendees.length === 0) return
+
+    const survivor = attendees[0]
+    const defaults: Record<string, string> = {}
+
+    fields.forEach(field => {
+      const source = isEmpty((survivor as any)[field])
+        ? attendees.find(attendee => !isEmpty((attendee as any)[field]))
+        : survivor
+      defaults[field] = (source || survivor).id
+    })
+
+    setSurvivorId(survivor.id)
+    setChoices(defaults)
+  }, [isOpen, attendees, fields])
+
+  const handleMerge = async () => {
+    const survivor = attendees.find(attendee => attendee.id === survivorId)
+    if (!survivor) return
+
+    const duplicates = attendees.filter(attendee => attendee.id !== survivorId)
+    const values: Record<string, any> = {}
+
+    fields.forEach(field => {
+      if (field === 'certifications') {
+        // Certifications are combined rather than picked
+        const all = attendees.flatMap(attendee => attendee.certifications || [])
+        values.certifications = all.filter((cert, index) =>
+          all.findIndex(other => other.toLowerCase() === cert.toLowerCase()) === index
+        )
+        return
+      }
+
+      const source = attendees.find(attendee => attendee.id === choices[field])
+      if (source) {
+        values[field] = (source as any)[field] ?? null
+      }
+    })
+
+    setIsMerging(true)
+    const result = await mergeAttendees(survivor, duplicates, values)
+    setIsMerging(false)
+    onMergeComplete(result)
+  }
+
+  return (
+    <Transition.Root show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={() => !isMerging && onClose()}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-75 transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 z-10 w-screen overflow-y-auto">
+          <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              enterTo="opacity-100 translate-y-0 sm:scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+              leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            >
+              <Dialog.Panel className="relative transform overflow-hidden rounded-lg bg-white px-4 pb-4 pt-5 text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-4xl sm:p-6">
+                <div className="absolute right-0 top-0 pr-4 pt-4">
+                  <button
+                    type="button"
+                    className="rounded-md bg-white text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                    onClick={onClose}
+                    disabled={isMerging}
+                  >
+                    <span className="sr-only">Close</span>
+                    <XMarkIcon className="h-6 w-6" aria-hidden="true" />
+                  </button>
+                </div>
+
+                <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                  Merge Attendees
+                </Dialog.Title>
+                <p className="mt-1 text-sm text-gray-500">
+                  Pick the record to keep and which value to keep for each field. Conferences and lists from the
+                  other records are moved to the kept record, and the other records are deleted.
+                </p>
+
+                <div className="mt-4 max-h-[60vh] overflow-auto border border-gray-200 rounded-md">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Field</th>
+                        {attendees.map(attendee => (
+                          <th key={attendee.id} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            <label className="inline-flex items-center gap-2 cursor-pointer normal-case">
+                              <input
+                                type="radio"
+                                name="survivor"
+                                checked={survivorId === attendee.id}
+                                onChange={() => setSurvivorId(attendee.id)}
+                                className="h-4 w-4 border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                              />
+                              <span>Keep this record</span>
+                            </label>
+                            <p className="mt-1 text-xs font-normal normal-case text-gray-400">
+                              Created {new Date(attendee.created_at).toLocaleDateString()}
+                            </p>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 bg-white">
+                      {fields.map(field => (
+                        <tr key={field}>
+                          <td className="px-4 py-2 text-sm font-medium text-gray-700 whitespace-nowrap">{toLabel(field)}</td>
+                          {attendees.map(attendee => {
+                            const display = formatValue(field, attendee)
+                            return (
+                              <td key={attendee.id} className="px-4 py-2 text-sm text-gray-900">
+                                {field === 'certifications' ? (
+                                  <span>{display || '-'}</span>
+                                ) : (
+                                  <label className="inline-flex items-start gap-2 cursor-pointer">
+                                    <input
+                                      type="radio"
+                                      name={`field-${field}`}
+                                      checked={choices[field] === attendee.id}
+                                      onChange={() => setChoices(prev => ({ ...prev, [field]: attendee.id }))}
+                                      className="mt-0.5 h-4 w-4 border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                                    />
+                                    <span className={display ? 'break-all' : 'text-gray-400'}>{display || '-'}</span>
+                                  </label>
+                                )}
+                              </td>
+                            )
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {fields.includes('certifications') && (
+                  <p className="mt-2 text-xs text-gray-500">Certifications from all records are combined.</p>
+                )}
+
+                <div className="mt-5 sm:mt-6 flex justify-end gap-3">
+                  <button
+                    type="button"
+                    className="inline-flex justify-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                    onClick={onClose}
+                    disabled={isMerging}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    className="inline-flex justify-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+                    onClick={handleMerge}
+                    disabled={isMerging || !survivorId}
+                  >
+                    {isMerging ? 'Merging...' : `Merge ${attendees.length} records`}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  )
+}
@@ -1,2 +1,4 @@
 // Export all attendee-related components
-export * from './AttendeeDetailAdapter'; 
\ No newline at end of file
+export * from './AttendeeDetailAdapter';
+export * from './AttendeeImportDialog'; 
+export * from './AttendeeMergeDialog';
\ No newline at end of file
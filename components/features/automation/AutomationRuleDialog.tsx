@@ -0,0 +1,293 @@
+import { useState, useEffect, Fragment } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { BoltIcon } from '@heroicons/react/24/outline'
+import type { AIPrompt } from '@/lib/aiPrompts'
+import type { EntityTableName } from '@/lib/queryFilters'
+import {
+  createAutomationRule,
+  validateAutomationRule,
+  AutomationAction,
+  AutomationRule,
+  AutomationTrigger,
+  NewAutomationRule,
+  AUTOMATION_ACTION_LABELS,
+  AUTOMATION_ACTION_TABLES,
+  AUTOMATION_SCHEDULE_PERIODS,
+  AUTOMATION_TABLE_LABELS,
+  AUTOMATION_TRIGGER_LABELS
+} from '@/lib/automationRules'
+
+interface AutomationRuleDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onCreated: (rule: AutomationRule) => void
+  prompts: AIPrompt[]
+  conferences: Array<{ id: string, name: string }>
+  // The actions the user may set up rules for
+  actions: AutomationAction[]
+}
+
+const inputClassName = 'block w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500 bg-white'
+
+// Stale data rules start from records untouched for about a quarter
+const DEFAULT_STALE_DAYS = 90
+
+const emptyRule = (action: AutomationAction): NewAutomationRule => ({
+  name: '',
+  action,
+  promptId: null,
+  tableName: AUTOMATION_ACTION_TABLES[action][0],
+  trigger: 'schedule',
+  periodDays: 30,
+  conferenceId: null
+})
+
+export function AutomationRuleDialog({ isOpen, onClose, onCreated, prompts, conferences, actions }: AutomationRuleDialogProps) {
+  const [rule, setRule] = useState<NewAutomationRule>(() => emptyRule(actions[0] || 'ai_prompt'))
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Start from a blank rule whenever the dialog opens
+  useEffect(() => {
+    if (!isOpen) return
+    setRule(emptyRule(actions[0] || 'ai_prompt'))
+    setError(null)
+  }, [isOpen, actions])
+
+  const tables = AUTOMATION_ACTION_TABLES[rule.action]
+  const canWatchConferences = tables.includes('attendees')
+
+  const handleActionChange = (action: AutomationAction) => {
+    const actionTables = AUTOMATION_ACTION_TABLES[action]
+    setRule(prev => ({
+      ...prev,
+      action,
+      tableName: actionTables.includes(prev.tableName) ? prev.tableName : actionTables[0],
+      trigger: prev.trigger === 'conference_attendee_added' && !actionTables.includes('attendees') ? 'schedule' : prev.trigger
+    }))
+  }
+
+  const handleTriggerChange = (trigger: AutomationTrigger) => {
+    setRule(prev => ({
+      ...prev,
+      trigger,
+      // Conference rules run on the attendees added
+      tableName: trigger === 'conference_attendee_added' ? 'attendees' : prev.tableName,
+      periodDays: trigger === 'stale_data' ? DEFAULT_STALE_DAYS : trigger === 'schedule' ? 30 : null
+    }))
+  }
+
+  const handleSave = async () => {
+    const problem = validateAutomationRule(rule)
+    if (problem) {
+      setError(problem)
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      onCreated(await createAutomationRule(rule))
+      onClose()
+    } catch (err) {
+      console.error('Failed to create automation rule:', err)
+      setError(err instanceof Error ? err.message : 'Failed to create automation rule')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-30" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-lg bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title className="text-lg font-medium text-gray-900 mb-1 flex items-center">
+                  <BoltIcon className="h-5 w-5 text-primary-500 mr-2" />
+                  New Automation Rule
+                </Dialog.Title>
+                <p className="mb-4 text-sm text-gray-500">
+                  Runs enrichment on its own, with the same services as running it by hand.
+                </p>
+
+                {error && (
+                  <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+                    {error}
+                  </div>
+                )}
+
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                    <input
+                      type="text"
+                      value={rule.name}
+                      onChange={(e) => setRule({ ...rule, name: e.target.value })}
+                      placeholder="e.g. Monthly Definitive refresh"
+                      className={inputClassName}
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+                      <select
+                        value={rule.action}
+                        onChange={(e) => handleActionChange(e.target.value as AutomationAction)}
+                        className={inputClassName}
+                      >
+                        {actions.map(action => (
+                          <option key={action} value={action}>{AUTOMATION_ACTION_LABELS[action]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Records</label>
+                      <select
+                        value={rule.tableName}
+                        onChange={(e) => setRule({ ...rule, tableName: e.target.value as EntityTableName })}
+                        disabled={tables.length === 1 || rule.trigger === 'conference_attendee_added'}
+                        className={`${inputClassName} disabled:bg-gray-50 disabled:text-gray-500`}
+                      >
+                        {tables.map(table => (
+                          <option key={table} value={table}>{AUTOMATION_TABLE_LABELS[table]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  {rule.action === 'ai_prompt' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Saved prompt</label>
+                      <select
+                        value={rule.promptId || ''}
+                        onChange={(e) => setRule({ ...rule, promptId: e.target.value || null })}
+                        className={inputClassName}
+                      >
+                        <option value="">Pick a prompt...</option>
+                        {prompts.map(prompt => (
+                          <option key={prompt.id} value={prompt.id} disabled={!prompt.output_fields?.length}>
+                            {prompt.name}{prompt.output_fields?.length ? '' : ' (save again to add output fields)'}
+                          </option>
+                        ))}
+                      </select>
+                      <p className="mt-1 text-xs text-gray-500">
+                        Each run queues an AI enrichment job. Its values are written to the records when the job finishes.
+                      </p>
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Runs</label>
+                    <select
+                      value={rule.trigger}
+                      onChange={(e) => handleTriggerChange(e.target.value as AutomationTrigger)}
+                      className={inputClassName}
+                    >
+                      {(Object.keys(AUTOMATION_TRIGGER_LABELS) as AutomationTrigger[])
+                        .filter(trigger => trigger !== 'conference_attendee_added' || canWatchConferences)
+                        .map(trigger => (
+                          <option key={trigger} value={trigger}>{AUTOMATION_TRIGGER_LABELS[trigger]}</option>
+                        ))}
+                    </select>
+                  </div>
+
+                  {rule.trigger === 'schedule' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Every record again</label>
+                      <select
+                        value={rule.periodDays || ''}
+                        onChange={(e) => setRule({ ...rule, periodDays: Number(e.target.value) })}
+                        className={inputClassName}
+                      >
+                        {AUTOMATION_SCHEDULE_PERIODS.map(period => (
+                          <option key={period.days} value={period.days}>{period.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
+                  {rule.trigger === 'stale_data' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Not updated for</label>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          min={1}
+                          value={rule.periodDays || ''}
+                          onChange={(e) => setRule({ ...rule, periodDays: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                          className={`${inputClassName} w-28`}
+                        />
+                        <span className="text-sm text-gray-500">days</span>
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500">
+                        A record is run again at most once in that many days, even if it stays untouched.
+                      </p>
+                    </div>
+                  )}
+
+                  {rule.trigger === 'conference_attendee_added' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Conference</label>
+                      <select
+                        value={rule.conferenceId || ''}
+                        onChange={(e) => setRule({ ...rule, conferenceId: e.target.value || null })}
+                        className={inputClassName}
+                      >
+                        <option value="">Pick a conference...</option>
+                        {conferences.map(conference => (
+                          <option key={conference.id} value={conference.id}>{conference.name}</option>
+                        ))}
+                      </select>
+                      <p className="mt-1 text-xs text-gray-500">
+                        Attendees added from now on are run once each. Attendees already at the conference are left alone.
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                <div className="mt-6 flex justify-end gap-2">
+                  <button
+                    onClick={onClose}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    disabled={isSaving}
+                    className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+                  >
+                    {isSaving ? 'Saving...' : 'Create rule'}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
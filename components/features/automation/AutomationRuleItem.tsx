@@ -0,0 +1,169 @@
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Switch } from '@headlessui/react'
+import { ChevronDownIcon, ChevronRightIcon } from '@heroicons/react/24/outline'
+import {
+  fetchAutomationRuleRuns,
+  AutomationRule,
+  AutomationRuleRun,
+  AUTOMATION_ACTION_LABELS,
+  AUTOMATION_RUN_STATUS_LABELS,
+  AUTOMATION_SCHEDULE_PERIODS,
+  AUTOMATION_TABLE_LABELS
+} from '@/lib/automationRules'
+
+interface AutomationRuleItemProps {
+  rule: AutomationRule
+  promptName?: string
+  conferenceName?: string
+  // Left out for users who can't manage the rule
+  onToggle?: (rule: AutomationRule, enabled: boolean) => void
+  onDelete?: (rule: AutomationRule) => void
+  isSaving?: boolean
+}
+
+const STATUS_STYLES: Record<AutomationRuleRun['status'], string> = {
+  running: 'bg-indigo-50 text-indigo-700',
+  completed: 'bg-green-50 text-green-700',
+  failed: 'bg-red-50 text-red-700',
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+
+function classNames(...classes: string[]) {
+  return classes.filter(Boolean).join(' ')
+}
+
+// When the rule runs, in words
+const describeTrigger = (rule: AutomationRule, conferenceName?: string) => {
+  if (rule.trigger === 'conference_attendee_added') {
+    return `when an attendee is added to ${conferenceName || 'a deleted conference'}`
+  }
+  if (rule.trigger === 'stale_data') {
+    return `when data is older than ${rule.periodDays} days`
+  }
+  const period = AUTOMATION_SCHEDULE_PERIODS.find(option => option.days === rule.periodDays)
+  return period ? period.label.toLowerCase() : `every ${rule.periodDays} days`
+}
+
+export function AutomationRuleItem({ rule, promptName, conferenceName, onToggle, onDelete, isSaving = false }: AutomationRuleItemProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [runs, setRuns] = useState<AutomationRuleRun[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Load the run history when it's opened, and again after the rule runs
+  useEffect(() => {
+    if (!isExpanded) return
+
+    let cancelled = false
+    fetchAutomationRuleRuns(rule.id)
+      .then(loaded => {
+        if (!cancelled) setRuns(loaded)
+      })
+      .catch(err => {
+        console.error('Failed to load automation rule runs:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load run history')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isExpanded, rule.id, rule.lastRunAt])
+
+  const action = rule.action === 'ai_prompt'
+    ? `Run "${promptName || 'a deleted prompt'}" on ${AUTOMATION_TABLE_LABELS[rule.tableName].toLowerCase()}`
+    : `${AUTOMATION_ACTION_LABELS[rule.action]} of ${AUTOMATION_TABLE_LABELS[rule.tableName].toLowerCase()}`
+
+  return (
+    <li className="py-3">
+      <div className="flex items-start gap-x-3">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="mt-0.5 text-gray-400 hover:text-gray-600"
+          title={isExpanded ? 'Hide run history' : 'Show run history'}
+        >
+          {isExpanded ? <ChevronDownIcon className="h-4 w-4" /> : <ChevronRightIcon className="h-4 w-4" />}
+        </button>
+        <div className="min-w-0 flex-1">
+          <p className={classNames('text-sm font-medium', rule.enabled ? 'text-gray-900' : 'text-gray-500')}>
+            {rule.name}
+          </p>
+          <p className="text-sm text-gray-600">
+            {action}, {describeTrigger(rule, conferenceName)}
+          </p>
+          <p className="mt-1 text-xs text-gray-500">
+            {rule.lastRunAt ? `Last ran ${formatDateTime(rule.lastRunAt)}` : 'Hasn\'t run yet'}
+            {!rule.enabled && ' · Off'}
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-3">
+          {onDelete && (
+            <button
+              onClick={() => onDelete(rule)}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900 disabled:opacity-50"
+            >
+              Delete
+            </button>
+          )}
+          <Switch
+            checked={rule.enabled}
+            onChange={(enabled: boolean) => onToggle?.(rule, enabled)}
+            disabled={!onToggle || isSaving}
+            className={classNames(
+              rule.enabled ? 'bg-indigo-600' : 'bg-gray-200',
+              'relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50'
+            )}
+          >
+            <span className="sr-only">{rule.enabled ? 'Turn the rule off' : 'Turn the rule on'}</span>
+            <span
+              aria-hidden="true"
+              className={classNames(
+                rule.enabled ? 'translate-x-5' : 'translate-x-0',
+                'pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out'
+              )}
+            />
+          </Switch>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="ml-7 mt-3">
+          {error ? (
+            <p className="text-xs text-red-600">{error}</p>
+          ) : runs === null ? (
+            <p className="text-xs text-gray-500">Loading run history...</p>
+          ) : runs.length === 0 ? (
+            <p className="text-xs text-gray-500">No runs yet. The rule runs when it finds records to run on.</p>
+          ) : (
+            <ul className="space-y-1.5">
+              {runs.map(run => (
+                <li key={run.id} className="text-xs text-gray-600">
+                  <span className={`mr-2 inline-flex items-center rounded-full px-2 py-0.5 font-medium ${STATUS_STYLES[run.status]}`}>
+                    {AUTOMATION_RUN_STATUS_LABELS[run.status]}
+                  </span>
+                  {formatDateTime(run.startedAt)}
+                  {` · ${run.recordCount} record${run.recordCount === 1 ? '' : 's'}`}
+                  {run.status === 'completed' && rule.action !== 'ai_prompt' && ` · ${run.succeededCount} matched, ${run.failedCount} to review or unmatched`}
+                  {run.aiJobId && (
+                    <>
+                      {' · '}
+                      <Link href="/jobs" className="text-primary-600 hover:underline">Queued as a job</Link>
+                    </>
+                  )}
+                  {run.error && <span className="text-red-600">{` · ${run.error}`}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </li>
+  )
+}
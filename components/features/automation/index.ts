@@ -0,0 +1,3 @@
+// Export all automation components
+export * from './AutomationRuleDialog';
+export * from './AutomationRuleItem';
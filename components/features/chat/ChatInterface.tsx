@@ -1,6 +1,10 @@
 import { useState, useRef, useEffect } from 'react';
 import { PaperAirplaneIcon, SparklesIcon, XMarkIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
 import { Icon } from '@/components/ui/Icon';
+import type { FilterNode } from '@/types';
+import { getAccessToken } from '@/lib/permissions';
+import { aiService } from '@/lib/ai';
+import type { LLMModelOption } from '@/lib/llm';
 
 interface ChatMessage {
   role: 'user' | 'assistant';
@@ -8,12 +12,7 @@ interface ChatMessage {
 }
 
 interface ChatInterfaceProps {
-  onSearch: (filters: Array<{
-    id: string;
-    property: string;
-    operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than';
-    value: string;
-  }>) => void;
+  onSearch: (filters: FilterNode[]) => void;
   activeTab: 'attendees' | 'health-systems' | 'conferences';
   isLoading: boolean;
   isInSearchBar?: boolean;
@@ -25,7 +24,9 @@ export function ChatInterface({ onSearch, activeTab, isLoading, isInSearchBar =
   const [inputValue, setInputValue] = useState('');
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [chatLoading, setChatLoading] = useState(false);
-  const [useGemini, setUseGemini] = useState(false);
+  const [models, setModels] = useState<LLMModelOption[]>([]);
+  // The configured chat model until the user picks another
+  const [selectedModel, setSelectedModel] = useState<string | null>(null);
   const [isModelDropdownOpen, setIsModelDropdownOpen] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const modelDropdownRef = useRef<HTMLDivElement>(null);
@@ -44,6 +45,18 @@ export function ChatInterface({ onSearch, activeTab, isLoading, isInSearchBar =
     };
   }, []);
 
+  // Load the models that can be picked
+  useEffect(() => {
+    aiService.getModels()
+      .then(({ models: loaded, features }) => {
+        setModels(loaded);
+        setSelectedModel(current => current || features.chat);
+      })
+      .catch(error => console.error('Error loading AI models:', error));
+  }, []);
+
+  const selectedModelLabel = models.find(model => model.id === selectedModel)?.label || 'AI';
+
   // Scroll to bottom of chat when new messages are added
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -66,16 +79,18 @@ export function ChatInterface({ onSearch, activeTab, isLoading, isInSearchBar =
     setChatLoading(true);
     
     try {
-      // Send request to the appropriate AI endpoint based on user preference
-      const endpoint = useGemini ? '/api/chat-gemini' : '/api/chat';
-      const response = await fetch(endpoint, {
+      // Send the conversation with the model the user picked
+      const accessToken = await getAccessToken();
+      const response = await fetch('/api/chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
         },
         body: JSON.stringify({
           messages: [...messages, userMessage],
           activeTab,
+          ...(selectedModel ? { model: selectedModel } : {}),
         }),
       });
       
@@ -127,6 +142,28 @@ export function ChatInterface({ onSearch, activeTab, isLoading, isInSearchBar =
     setIsConversationMode(false);
   };
 
+  // The models in the selector dropdown
+  const renderModelOptions = () => (
+    <div className="absolute right-0 mt-1 w-48 bg-white rounded-md shadow-lg z-50 border border-gray-200 py-1">
+      {models.length === 0 ? (
+        <p className="px-4 py-2 text-xs text-gray-500">No models available</p>
+      ) : (
+        models.map(model => (
+          <button
+            key={model.id}
+            className={`w-full text-left px-4 py-2 text-xs hover:bg-gray-100 ${model.id === selectedModel ? 'font-medium text-primary-700' : 'text-gray-700'}`}
+            onClick={() => {
+              setSelectedModel(model.id);
+              setIsModelDropdownOpen(false);
+            }}
+          >
+            {model.label}
+          </button>
+        ))
+      )}
+    </div>
+  );
+
   // Model selector dropdown
   const renderModelSelector = () => (
     <div className="relative" ref={modelDropdownRef}>
@@ -135,32 +172,11 @@ export function ChatInterface({ onSearch, activeTab, isLoading, isInSearchBar =
         onClick={() => setIsModelDropdownOpen(!isModelDropdownOpen)}
         className="flex items-center text-xs text-gray-500 hover:text-gray-700 whitespace-nowrap"
       >
-        <span className="mr-1">{useGemini ? 'Gemini' : 'OpenAI'}</span>
+        <span className="mr-1">{selectedModelLabel}</span>
         <Icon icon={ChevronDownIcon} size="xs" className="w-3 h-3" />
       </button>
       
-      {isModelDropdownOpen && (
-        <div className="absolute right-0 mt-1 w-40 bg-white rounded-md shadow-lg z-50 border border-gray-200 py-1">
-          <button
-            className={`w-full text-left px-4 py-2 text-xs hover:bg-gray-100 ${!useGemini ? 'font-medium text-primary-700' : 'text-gray-700'}`}
-            onClick={() => {
-              setUseGemini(false);
-              setIsModelDropdownOpen(false);
-            }}
-          >
-            OpenAI GPT
-          </button>
-          <button
-            className={`w-full text-left px-4 py-2 text-xs hover:bg-gray-100 ${useGemini ? 'font-medium text-primary-700' : 'text-gray-700'}`}
-            onClick={() => {
-              setUseGemini(true);
-              setIsModelDropdownOpen(false);
-            }}
-          >
-            Google Gemini
-          </button>
-        </div>
-      )}
+      {isModelDropdownOpen && renderModelOptions()}
     </div>
   );
 
@@ -285,31 +301,10 @@ export function ChatInterface({ onSearch, activeTab, isLoading, isInSearchBar =
                   className="text-white/80 hover:text-white flex items-center text-xs"
                   onClick={() => setIsModelDropdownOpen(!isModelDropdownOpen)}
                 >
-                  <span className="mr-1">{useGemini ? 'Gemini' : 'OpenAI'}</span>
+                  <span className="mr-1">{selectedModelLabel}</span>
                   <Icon icon={ChevronDownIcon} size="xs" className="w-3 h-3" />
                 </button>
-                {isModelDropdownOpen && (
-                  <div className="absolute right-0 mt-1 w-40 bg-white rounded-md shadow-lg z-50 border border-gray-200 py-1">
-                    <button
-                      className={`w-full text-left px-4 py-2 text-xs hover:bg-gray-100 ${!useGemini ? 'font-medium text-primary-700' : 'text-gray-700'}`}
-                      onClick={() => {
-                        setUseGemini(false);
-                        setIsModelDropdownOpen(false);
-                      }}
-                    >
-                      OpenAI GPT
-                    </button>
-                    <button
-                      className={`w-full text-left px-4 py-2 text-xs hover:bg-gray-100 ${useGemini ? 'font-medium text-primary-700' : 'text-gray-700'}`}
-                      onClick={() => {
-                        setUseGemini(true);
-                        setIsModelDropdownOpen(false);
-                      }}
-                    >
-                      Google Gemini
-                    </button>
-                  </div>
-                )}
+                {isModelDropdownOpen && renderModelOptions()}
               </div>
               <button 
                 onClick={handleClose}
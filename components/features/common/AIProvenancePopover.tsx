@@ -0,0 +1,107 @@
+import { ReactNode, useState, useRef, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { SparklesIcon } from '@heroicons/react/24/outline'
+import type { AIProvenance } from '@/lib/aiProvenance'
+import { formatConfidence } from '@/lib/aiOutputFields'
+import { modelLabel } from '@/lib/llm'
+
+interface AIProvenancePopoverProps {
+  provenance: AIProvenance
+  children: ReactNode
+}
+
+const POPOVER_WIDTH = 320
+
+// Long enough to move the pointer onto the popover to follow a source link
+const CLOSE_DELAY_MS = 150
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+
+const hostname = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Marks a value written by AI enrichment and shows where it came from on hover: the model, its confidence, its
+ * rationale and its sources. The popover is rendered on the page body so table and card overflow don't clip it.
+ */
+export function AIProvenancePopover({ provenance, children }: AIProvenancePopoverProps) {
+  const [position, setPosition] = useState<{ top: number, left: number } | null>(null)
+  const closeTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => () => {
+    if (closeTimer.current) clearTimeout(closeTimer.current)
+  }, [])
+
+  const keepOpen = () => {
+    if (closeTimer.current) clearTimeout(closeTimer.current)
+  }
+
+  const open = (e: React.MouseEvent<HTMLElement>) => {
+    keepOpen()
+    const rect = e.currentTarget.getBoundingClientRect()
+    setPosition({
+      top: rect.bottom + 4,
+      left: Math.max(8, Math.min(rect.left, window.innerWidth - POPOVER_WIDTH - 8))
+    })
+  }
+
+  const close = () => {
+    closeTimer.current = setTimeout(() => setPosition(null), CLOSE_DELAY_MS)
+  }
+
+  return (
+    <span className="inline-flex min-w-0 items-center gap-1" onMouseEnter={open} onMouseLeave={close}>
+      {children}
+      <SparklesIcon className="h-3.5 w-3.5 shrink-0 text-indigo-400" aria-label="Filled in by AI" />
+      {position && createPortal(
+        <div
+          className="fixed z-50 rounded-lg border border-gray-200 bg-white p-3 text-left text-xs text-gray-600 shadow-lg whitespace-normal"
+          style={{ top: position.top, left: position.left, width: POPOVER_WIDTH }}
+          onMouseEnter={keepOpen}
+          onMouseLeave={close}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <p className="font-medium text-gray-900">
+            Filled in by {modelLabel(provenance.model)}
+          </p>
+          <p className="mt-1">
+            <span className="font-medium">Confidence:</span> {formatConfidence(provenance.confidence)}
+          </p>
+          {provenance.rationale && (
+            <p className="mt-1">
+              <span className="font-medium">Why:</span> {provenance.rationale}
+            </p>
+          )}
+          {provenance.sources.length > 0 && (
+            <div className="mt-1">
+              <span className="font-medium">Sources:</span>
+              <ul className="mt-0.5 space-y-0.5">
+                {provenance.sources.map(source => (
+                  <li key={source} className="truncate">
+                    <a href={source} target="_blank" rel="noopener noreferrer" className="text-primary-600 hover:underline" title={source}>
+                      {hostname(source)}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <p className="mt-2 text-gray-400">
+            {provenance.promptName ? `${provenance.promptName} · ` : ''}{formatDate(provenance.enrichedAt)}
+          </p>
+        </div>,
+        document.body
+      )}
+    </span>
+  )
+}
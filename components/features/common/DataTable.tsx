@@ -6,9 +6,12 @@ import {
   createColumnHelper,
 } from '@tanstack/react-table'
 import { clsx } from 'clsx'
+import { ChevronUpIcon, ChevronDownIcon } from '@heroicons/react/24/outline'
 import { useSelection } from '@/lib/context/SelectionContext'
 import { Checkbox } from '@/components/ui/checkbox'
-import type { Attendee, HealthSystem, Conference } from '@/types'
+import { AIProvenancePopover } from '@/components/features/common/AIProvenancePopover'
+import { AIProvenanceMap, isCurrentAIValue } from '@/lib/aiProvenance'
+import type { Attendee, HealthSystem, Conference, SortOption } from '@/types'
 
 type ItemType = Attendee | HealthSystem | Conference
 
@@ -16,9 +19,14 @@ interface DataTableProps<T extends ItemType> {
   data: T[]
   columns: ColumnDef<T>[]
   onRowClick?: (row: T) => void
+  sort?: SortOption | null
+  onSortChange?: (sort: SortOption | null) => void
+  canSort?: (columnId: string) => boolean
+  // Where the rows' AI-written values came from, shown when hovering those cells
+  provenance?: AIProvenanceMap
 }
 
-export function DataTable<T extends ItemType>({ data, columns, onRowClick }: DataTableProps<T>) {
+export function DataTable<T extends ItemType>({ data, columns, onRowClick, sort, onSortChange, canSort, provenance }: DataTableProps<T>) {
   const { selectedItems, toggleSelection } = useSelection()
   const columnHelper = createColumnHelper<T>()
 
@@ -40,6 +48,31 @@ export function DataTable<T extends ItemType>({ data, columns, onRowClick }: Dat
     },
   })
 
+  // Sorting happens on the server, so a header click only reports the next sort state
+  const isSortable = (columnId: string) =>
+    !!onSortChange && columnId !== 'selection' && (!canSort || canSort(columnId))
+
+  const handleHeaderClick = (columnId: string) => {
+    if (!onSortChange || !isSortable(columnId)) return
+
+    // Cycle through ascending -> descending -> default order
+    if (sort?.property !== columnId) {
+      onSortChange({ property: columnId, direction: 'asc' })
+    } else if (sort.direction === 'asc') {
+      onSortChange({ property: columnId, direction: 'desc' })
+    } else {
+      onSortChange(null)
+    }
+  }
+
+  // The provenance of a cell's value, while the record still holds the value the AI wrote
+  const provenanceFor = (row: T, columnId: string) => {
+    const cellProvenance = provenance?.[row.id]?.[columnId]
+    return cellProvenance && isCurrentAIValue(cellProvenance, (row as unknown as Record<string, unknown>)[columnId])
+      ? cellProvenance
+      : null
+  }
+
   const table = useReactTable({
     data,
     columns: [selectionColumn, ...columns],
@@ -57,9 +90,11 @@ export function DataTable<T extends ItemType>({ data, columns, onRowClick }: Dat
                   {headerGroup.headers.map((header) => (
                     <th
                       key={header.id}
+                      onClick={() => handleHeaderClick(header.column.id)}
                       className={clsx(
                         "group px-6 py-3.5 text-left text-xs font-medium text-gray-500 uppercase tracking-wider",
-                        header.id === 'selection' && "w-12 text-center"
+                        header.id === 'selection' && "w-12 text-center",
+                        isSortable(header.column.id) && "cursor-pointer select-none hover:text-gray-700"
                       )}
                     >
                       <div className="flex items-center gap-2">
@@ -67,6 +102,11 @@ export function DataTable<T extends ItemType>({ data, columns, onRowClick }: Dat
                           header.column.columnDef.header,
                           header.getContext()
                         )}
+                        {sort?.property === header.column.id && (
+                          sort.direction === 'asc'
+                            ? <ChevronUpIcon className="h-4 w-4 text-gray-400" aria-hidden="true" />
+                            : <ChevronDownIcon className="h-4 w-4 text-gray-400" aria-hidden="true" />
+                        )}
                       </div>
                     </th>
                   ))}
@@ -84,17 +124,21 @@ export function DataTable<T extends ItemType>({ data, columns, onRowClick }: Dat
                     selectedItems.some(item => item.id === row.original.id) && 'bg-primary-50'
                   )}
                 >
-                  {row.getVisibleCells().map((cell) => (
-                    <td
-                      key={cell.id}
-                      className={clsx(
-                        "whitespace-nowrap px-6 py-4 text-sm text-gray-900",
-                        cell.column.id === 'selection' && "w-12 text-center"
-                      )}
-                    >
-                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                    </td>
-                  ))}
+                  {row.getVisibleCells().map((cell) => {
+                    const cellProvenance = provenanceFor(row.original, cell.column.id)
+                    const content = flexRender(cell.column.columnDef.cell, cell.getContext())
+                    return (
+                      <td
+                        key={cell.id}
+                        className={clsx(
+                          "whitespace-nowrap px-6 py-4 text-sm text-gray-900",
+                          cell.column.id === 'selection' && "w-12 text-center"
+                        )}
+                      >
+                        {cellProvenance ? <AIProvenancePopover provenance={cellProvenance}>{content}</AIProvenancePopover> : content}
+                      </td>
+                    )
+                  })}
                 </tr>
               ))}
             </tbody>
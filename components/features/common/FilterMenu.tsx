@@ -4,11 +4,19 @@ import {
   FunnelIcon,
   XMarkIcon,
   PlusIcon,
+  RectangleGroupIcon,
+  UserCircleIcon,
 } from '@heroicons/react/24/outline'
 import { getIconComponent } from '@/utils/iconUtils'
 import { getColumnIconName } from '@/hooks/useColumnManagement'
+import { useAuth } from '@/hooks/useAuth'
+import { OWNER_COLUMN } from '@/lib/ownership'
+import { isFilterGroup, countFilterConditions } from '@/lib/filterTree'
+import { getFilterValueType, getOperatorOptions, getFilterValues, operatorNeedsValue } from '@/lib/filterOperators'
+import type { EntityTableName } from '@/lib/queryFilters'
+import { FilterValueSelect } from './FilterValueSelect'
 import type { ColumnDef } from '@tanstack/react-table'
-import type { Attendee, HealthSystem, Conference } from '@/types'
+import type { Attendee, HealthSystem, Conference, Filter, FilterGroup, FilterNode, FilterOperator, FilterCombinator, FilterValueType } from '@/types'
 
 // Define the column meta data interface to match what we expect
 interface ColumnMeta {
@@ -17,26 +25,39 @@ interface ColumnMeta {
   dataType?: string
 }
 
-type FilterOperator = 'equals' | 'contains' | 'not_contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than'
-
-interface Filter {
-  id: string
-  property: string
-  operator: FilterOperator
-  value: string
-}
-
 interface FilterMenuProps {
-  onFilterChange: (filters: Filter[]) => void
+  onFilterChange: (filters: FilterNode[]) => void
   isOpen: boolean
   onToggle: () => void
   allColumns: ColumnDef<Attendee | HealthSystem | Conference>[]
   isLoading?: boolean
-  activeFilters?: Filter[]
+  activeFilters?: FilterNode[]
+  // Used to load the existing values offered by the multi-select
+  tableName?: EntityTableName
 }
 
-export function FilterMenu({ onFilterChange, isOpen, onToggle, allColumns, isLoading = false, activeFilters = [] }: FilterMenuProps) {
-  const [filters, setFilters] = useState<Filter[]>([])
+// Groups can hold other groups, but the menu only offers one level of nesting to keep it readable
+const MAX_GROUP_DEPTH = 2
+
+const createId = () => Math.random().toString(36).substr(2, 9)
+
+// Apply an update to the node with the given id anywhere in the tree (returning null removes it)
+const updateTree = (nodes: FilterNode[], id: string, update: (node: FilterNode) => FilterNode | null): FilterNode[] =>
+  nodes.reduce<FilterNode[]>((result, node) => {
+    if (node.id === id) {
+      const updated = update(node)
+      if (updated) result.push(updated)
+    } else if (isFilterGroup(node)) {
+      result.push({ ...node, conditions: updateTree(node.conditions, id, update) })
+    } else {
+      result.push(node)
+    }
+    return result
+  }, [])
+
+export function FilterMenu({ onFilterChange, isOpen, onToggle, allColumns, isLoading = false, activeFilters = [], tableName }: FilterMenuProps) {
+  const { user } = useAuth()
+  const [filters, setFilters] = useState<FilterNode[]>([])
   const [activeFilter, setActiveFilter] = useState<Filter | null>(null)
   // Separate state for columns loading - only true initially, then set to false once we have columns
   const [columnsLoading, setColumnsLoading] = useState(true)
@@ -55,94 +76,103 @@ export function FilterMenu({ onFilterChange, isOpen, onToggle, allColumns, isLoa
     }
   }, [isOpen, activeFilters])
 
-  const addFilter = () => {
-    if (allColumns.length === 0) return
-    
-    const newFilter: Filter = {
-      id: Math.random().toString(36).substr(2, 9),
-      property: String(allColumns[0]?.id || ''),
-      operator: 'equals',
-      value: ''
-    }
-    setFilters([...filters, newFilter])
-    setActiveFilter(newFilter)
-    onFilterChange([...filters, newFilter])
+  // Work out what kind of value a column holds, falling back to its name when the schema type is generic
+  const getValueType = (property: string): FilterValueType => {
+    const column = allColumns.find(c => String(c.id) === property)
+    const meta = column?.meta as ColumnMeta | undefined
+    const valueType = getFilterValueType(meta?.dataType)
+
+    if (valueType !== 'text' || meta?.isForeignKey) return valueType
+    if (property.includes('date') || property === 'created_at' || property === 'updated_at') return 'date'
+    if (property.includes('count') || property.includes('revenue') || property.includes('price') || property.includes('amount')) return 'number'
+    return valueType
   }
 
-  const removeFilter = (id: string) => {
-    const newFilters = filters.filter(f => f.id !== id)
-    setFilters(newFilters)
-    onFilterChange(newFilters)
+  const createCondition = (property: string = String(allColumns[0]?.id || '')): Filter => {
+    const valueType = getValueType(property)
+    return {
+      id: createId(),
+      property,
+      // Owners are picked from the team rather than typed
+      operator: property === OWNER_COLUMN ? 'in_list' : getOperatorOptions(valueType)[0].value,
+      value: '',
+      valueType
+    }
   }
 
-  const updateFilter = (id: string, updates: Partial<Filter>) => {
-    const newFilters = filters.map(f => 
-      f.id === id ? { ...f, ...updates } : f
-    )
+  const applyFilters = (newFilters: FilterNode[]) => {
     setFilters(newFilters)
     onFilterChange(newFilters)
   }
 
-  const getOperatorOptions = (property: string) => {
-    const column = allColumns.find(c => String(c.id) === property)
-    if (!column) return []
-
-    // Get data type from column metadata
-    const meta = column.meta as ColumnMeta | undefined
-    const dataType = meta?.dataType
+  // Add a condition at the top level, or inside a group when groupId is given
+  const addFilter = (groupId?: string) => {
+    if (allColumns.length === 0) return
     
-    // Date operators - based on data type or column name
-    if (dataType === 'date' || dataType === 'timestamp' || dataType?.includes('time')) {
-      return [
-        { value: 'equals', label: 'Equals' },
-        { value: 'greater_than', label: 'After' },
-        { value: 'less_than', label: 'Before' },
-        { value: 'is_empty', label: 'Is empty' },
-        { value: 'is_not_empty', label: 'Is not empty' },
-      ]
-    }
+    const newFilter = createCondition()
+    setActiveFilter(newFilter)
 
-    // Numeric operators - based on data type or column name
-    if (dataType === 'integer' || dataType === 'numeric' || dataType === 'real' || dataType === 'double precision') {
-      return [
-        { value: 'equals', label: 'Equals' },
-        { value: 'greater_than', label: 'Greater than' },
-        { value: 'less_than', label: 'Less than' },
-        { value: 'is_empty', label: 'Is empty' },
-        { value: 'is_not_empty', label: 'Is not empty' },
-      ]
+    if (!groupId) {
+      applyFilters([...filters, newFilter])
+      return
     }
 
-    // Boolean operators
-    if (dataType === 'boolean') {
-      return [
-        { value: 'equals', label: 'Equals' },
-        { value: 'is_empty', label: 'Is empty' },
-        { value: 'is_not_empty', label: 'Is not empty' },
-      ]
+    applyFilters(updateTree(filters, groupId, node =>
+      isFilterGroup(node) ? { ...node, conditions: [...node.conditions, newFilter] } : node
+    ))
+  }
+
+  // Add a condition for the records the signed-in user owns
+  const addOwnedByMeFilter = () => {
+    if (!user?.email) return
+
+    const newFilter: Filter = { ...createCondition(OWNER_COLUMN), operator: 'equals', value: user.email }
+    setActiveFilter(newFilter)
+    applyFilters([...filters, newFilter])
+  }
+
+  // Add an OR group (starting with one condition) at the top level or inside another group
+  const addGroup = (groupId?: string) => {
+    if (allColumns.length === 0) return
+
+    const newFilter = createCondition()
+    const newGroup: FilterGroup = {
+      id: createId(),
+      combinator: 'or',
+      conditions: [newFilter]
     }
+    setActiveFilter(newFilter)
 
-    // Array operators (for comma-separated values)
-    if (dataType?.includes('array')) {
-      return [
-        { value: 'contains', label: 'Contains' },
-        { value: 'not_contains', label: 'Not contains' },
-        { value: 'equals', label: 'Equals' },
-        { value: 'is_empty', label: 'Is empty' },
-        { value: 'is_not_empty', label: 'Is not empty' },
-      ]
+    if (!groupId) {
+      applyFilters([...filters, newGroup])
+      return
     }
 
-    // Default to text operators for other fields/string types
-    return [
-      { value: 'equals', label: 'Equals' },
-      { value: 'contains', label: 'Contains' },
-      { value: 'not_contains', label: 'Not contains' },
-      { value: 'starts_with', label: 'Starts with' },
-      { value: 'ends_with', label: 'Ends with' },
-      { value: 'is_empty', label: 'Is empty' },
-      { value: 'is_not_empty', label: 'Is not empty' },
-    ]
+    applyFilters(updateTree(filters, groupId, node =>
+      isFilterGroup(node) ? { ...node, conditions: [...node.conditions, newGroup] } : node
+    ))
+  }
+
+  const removeFilter = (id: string) => {
+    applyFilters(updateTree(filters, id, () => null))
+  }
+
+  // Changing the property resets the operator and value, since the column type may be different
+  const updateProperty = (id: string, property: string) => {
+    const { operator, value, valueType } = createCondition(property)
+    updateFilter(id, { property, operator, value, valueType, valueTo: undefined, values: undefined })
+  }
+
+  const updateFilter = (id: string, updates: Partial<Filter>) => {
+    applyFilters(updateTree(filters, id, node => 
+      isFilterGroup(node) ? node : { ...node, ...updates }
+    ))
+  }
+
+  const updateCombinator = (groupId: string, combinator: FilterCombinator) => {
+    applyFilters(updateTree(filters, groupId, node =>
+      isFilterGroup(node) ? { ...node, combinator } : node
+    ))
   }
 
   // Get rendered icon for a column
@@ -152,6 +182,220 @@ export function FilterMenu({ onFilterChange, isOpen, onToggle, allColumns, isLoa
     return <Icon icon={IconComponent} size="sm" className="text-gray-400" />;
   }
 
+  // The input for a condition's value, chosen by its operator and column type
+  const renderValueInput = (filter: Filter) => {
+    const valueType = filter.valueType || getValueType(filter.property)
+    const inputType = valueType === 'number' ? 'number' : valueType === 'date' || valueType === 'datetime' ? 'date' : 'text'
+    const inputClassName = 'block w-full px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500'
+
+    switch (filter.operator) {
+      case 'in_list':
+      case 'array_contains':
+        return (
+          <FilterValueSelect
+            selected={getFilterValues(filter)}
+            onChange={(values) => updateFilter(filter.id, { values, value: '' })}
+            tableName={tableName}
+            property={filter.property}
+          />
+        )
+
+      // Number or date range
+      case 'between':
+        return (
+          <div className="flex items-center gap-2">
+            <input
+              type={inputType}
+              value={filter.value}
+              onChange={(e) => updateFilter(filter.id, { value: e.target.value })}
+              placeholder="From"
+              className={inputClassName}
+            />
+            <span className="text-xs text-gray-500">to</span>
+            <input
+              type={inputType}
+              value={filter.valueTo || ''}
+              onChange={(e) => updateFilter(filter.id, { valueTo: e.target.value })}
+              placeholder="To"
+              className={inputClassName}
+            />
+          </div>
+        )
+
+      case 'in_last_days':
+      case 'in_next_days':
+        return (
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min="0"
+              value={filter.value}
+              onChange={(e) => updateFilter(filter.id, { value: e.target.value })}
+              placeholder="Number of"
+              className={inputClassName}
+            />
+            <span className="text-sm text-gray-500">days</span>
+          </div>
+        )
+    }
+
+    // Boolean select for boolean fields
+    if (valueType === 'boolean') {
+      return (
+        <select
+          value={filter.value}
+          onChange={(e) => updateFilter(filter.id, { value: e.target.value })}
+          className={inputClassName}
+        >
+          <option value="">Select...</option>
+          <option value="true">True</option>
+          <option value="false">False</option>
+        </select>
+      )
+    }
+
+    // Date picker, number input or text input for everything else
+    return (
+      <input
+        type={inputType}
+        value={filter.value}
+        onChange={(e) => updateFilter(filter.id, { value: e.target.value })}
+        placeholder={inputType === 'text' ? 'Value' : undefined}
+        className={inputClassName}
+      />
+    )
+  }
+
+  // A single condition card (property, operator and value)
+  const renderCondition = (filter: Filter) => (
+    <div
+      className={`p-3 rounded-lg border ${
+        activeFilter?.id === filter.id
+          ? 'border-primary-500 bg-primary-50'
+          : 'border-gray-200'
+      }`}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <div className="relative w-full">
+          <select
+            value={filter.property}
+            onChange={(e) => updateProperty(filter.id, e.target.value)}
+            className="block w-full pl-10 pr-10 py-2 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500 appearance-none bg-white"
+          >
+            {allColumns.map((column) => (
+              <option key={String(column.id)} value={String(column.id)}>
+                {String(column.header)}
+              </option>
+            ))}
+          </select>
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            {getColumnIcon(filter.property)}
+          </div>
+          <div className="absolute inset-y-0 right-0 pr-2 flex items-center pointer-events-none">
+            <svg className="h-5 w-5 text-gray-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </div>
+        </div>
+        <button
+          onClick={() => removeFilter(filter.id)}
+          className="ml-2 text-gray-400 hover:text-gray-500"
+        >
+          <Icon icon={XMarkIcon} size="sm" />
+        </button>
+      </div>
+
+      <div className="flex flex-col space-y-2">
+        <div className="relative">
+          <select
+            value={filter.operator}
+            onChange={(e) => updateFilter(filter.id, { operator: e.target.value as FilterOperator })}
+            className="block w-full pl-3 pr-10 py-2 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500 appearance-none bg-white"
+          >
+            {getOperatorOptions(filter.valueType || getValueType(filter.property)).map((op) => (
+              <option key={op.value} value={op.value}>
+                {op.label}
+              </option>
+            ))}
+          </select>
+          <div className="absolute inset-y-0 right-0 pr-2 flex items-center pointer-events-none">
+            <svg className="h-5 w-5 text-gray-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </div>
+        </div>
+
+        {operatorNeedsValue(filter.operator) && (
+          <div>
+            {renderValueInput(filter)}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+
+  // A group box with its combinator, nested conditions and buttons to add more
+  const renderGroup = (group: FilterGroup, depth: number) => (
+    <div className="p-3 rounded-lg border border-dashed border-gray-300 bg-gray-50 space-y-3">
+      <div className="flex items-center justify-between">
+        <select
+          value={group.combinator}
+          onChange={(e) => updateCombinator(group.id, e.target.value as FilterCombinator)}
+          className="block pl-2 pr-8 py-1 text-xs border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500 bg-white"
+        >
+          <option value="or">Match any of</option>
+          <option value="and">Match all of</option>
+        </select>
+        <button
+          onClick={() => removeFilter(group.id)}
+          className="ml-2 text-gray-400 hover:text-gray-500"
+          title="Remove group"
+        >
+          <Icon icon={XMarkIcon} size="sm" />
+        </button>
+      </div>
+
+      {renderNodes(group.conditions, group.combinator, depth + 1)}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => addFilter(group.id)}
+          className="flex-1 flex items-center justify-center px-2 py-1.5 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none"
+        >
+          <Icon icon={PlusIcon} size="xs" className="mr-1" />
+          Add condition
+        </button>
+        {depth + 1 < MAX_GROUP_DEPTH && (
+          <button
+            onClick={() => addGroup(group.id)}
+            className="flex-1 flex items-center justify-center px-2 py-1.5 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none"
+          >
+            <Icon icon={RectangleGroupIcon} size="xs" className="mr-1" />
+            Add group
+          </button>
+        )}
+      </div>
+    </div>
+  )
+
+  // Render a list of nodes with the combinator that joins them shown between each one
+  const renderNodes = (nodes: FilterNode[], combinator: FilterCombinator, depth: number) => (
+    <div className="space-y-2">
+      {nodes.map((node, index) => (
+        <div key={node.id}>
+          {index > 0 && (
+            <div className="mb-2 text-xs font-medium uppercase tracking-wider text-gray-400">
+              {combinator}
+            </div>
+          )}
+          {isFilterGroup(node) ? renderGroup(node, depth) : renderCondition(node)}
+        </div>
+      ))}
+    </div>
+  )
+
+  const hasOwnerColumn = allColumns.some(column => String(column.id) === OWNER_COLUMN)
+
   return (
     <div className="relative">
       <button
@@ -162,13 +406,13 @@ export function FilterMenu({ onFilterChange, isOpen, onToggle, allColumns, isLoa
         Filter
         {filters.length > 0 && (
           <span className="ml-2 w-5 h-5 flex items-center justify-center rounded-full bg-gray-100 text-gray-600 text-xs font-medium">
-            {filters.length}
+            {countFilterConditions(filters)}
           </span>
         )}
       </button>
 
       {isOpen && (
-        <div className="absolute right-0 mt-2 w-80 rounded-md bg-white border border-gray-200 shadow-lg z-50 menu-content">
+        <div className="absolute right-0 mt-2 w-96 max-h-[70vh] overflow-y-auto rounded-md bg-white border border-gray-200 shadow-lg z-50 menu-content">
           <div className="p-4">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-sm font-medium text-gray-900">Filters</h3>
@@ -191,147 +435,10 @@ export function FilterMenu({ onFilterChange, isOpen, onToggle, allColumns, isLoa
               </div>
             ) : (
               <div className="space-y-3">
-                {filters.map((filter) => (
-                  <div
-                    key={filter.id}
-                    className={`p-3 rounded-lg border ${
-                      activeFilter?.id === filter.id
-                        ? 'border-primary-500 bg-primary-50'
-                        : 'border-gray-200'
-                    }`}
-                  >
-                    <div className="flex items-center justify-between mb-2">
-                      <div className="relative w-full">
-                        <select
-                          value={filter.property}
-                          onChange={(e) => updateFilter(filter.id, { property: e.target.value })}
-                          className="block w-full pl-10 pr-10 py-2 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500 appearance-none bg-white"
-                        >
-                          {allColumns.map((column) => (
-                            <option key={String(column.id)} value={String(column.id)}>
-                              {String(column.header)}
-                            </option>
-                          ))}
-                        </select>
-                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                          {getColumnIcon(filter.property)}
-                        </div>
-                        <div className="absolute inset-y-0 right-0 pr-2 flex items-center pointer-events-none">
-                          <svg className="h-5 w-5 text-gray-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
-                            <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
-                          </svg>
-                        </div>
-                      </div>
-                      <button
-                        onClick={() => removeFilter(filter.id)}
-                        className="ml-2 text-gray-400 hover:text-gray-500"
-                      >
-                        <Icon icon={XMarkIcon} size="sm" />
-                      </button>
-                    </div>
-
-                    <div className="flex flex-col space-y-2">
-                      <div className="relative">
-                        <select
-                          value={filter.operator}
-                          onChange={(e) => updateFilter(filter.id, { operator: e.target.value as FilterOperator })}
-                          className="block w-full pl-3 pr-10 py-2 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500 appearance-none bg-white"
-                        >
-                          {getOperatorOptions(filter.property).map((op) => (
-                            <option key={op.value} value={op.value}>
-                              {op.label}
-                            </option>
-                          ))}
-                        </select>
-                        <div className="absolute inset-y-0 right-0 pr-2 flex items-center pointer-events-none">
-                          <svg className="h-5 w-5 text-gray-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
-                            <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
-                          </svg>
-                        </div>
-                      </div>
-
-                      {!['is_empty', 'is_not_empty'].includes(filter.operator) && (
-                        <div>
-                          {(() => {
-                            const column = allColumns.find(c => String(c.id) === filter.property);
-                            const meta = column?.meta as ColumnMeta | undefined;
-                            const dataType = meta?.dataType;
-                            
-                            // Date input for date fields
-                            if (dataType === 'date' || dataType === 'timestamp' || dataType?.includes('time') ||
-                                filter.property.includes('date') || filter.property.includes('time') || 
-                                filter.property === 'created_at' || filter.property === 'updated_at') {
-                              
-                              // Use datetime-local for timestamp fields
-                              if (dataType === 'timestamp' || dataType?.includes('time')) {
-                                return (
-                                  <input
-                                    type="datetime-local"
-                                    value={filter.value}
-                                    onChange={(e) => updateFilter(filter.id, { value: e.target.value })}
-                                    className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500"
-                                  />
-                                );
-                              }
-                              
-                              // Use date for date-only fields
-                              return (
-                                <input
-                                  type="date"
-                                  value={filter.value}
-                                  onChange={(e) => updateFilter(filter.id, { value: e.target.value })}
-                                  className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500"
-                                />
-                              );
-                            }
-                            
-                            // Number input for numeric fields
-                            if (dataType === 'integer' || dataType === 'numeric' || dataType === 'real' || dataType === 'double precision' ||
-                                filter.property.includes('count') || filter.property.includes('revenue') || 
-                                filter.property.includes('price') || filter.property.includes('amount')) {
-                              return (
-                                <input
-                                  type="number"
-                                  value={filter.value}
-                                  onChange={(e) => updateFilter(filter.id, { value: e.target.value })}
-                                  className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500"
-                                />
-                              );
-                            }
-                            
-                            // Boolean select for boolean fields
-                            if (dataType === 'boolean') {
-                              return (
-                                <select
-                                  value={filter.value}
-                                  onChange={(e) => updateFilter(filter.id, { value: e.target.value })}
-                                  className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500"
-                                >
-                                  <option value="true">True</option>
-                                  <option value="false">False</option>
-                                </select>
-                              );
-                            }
-                            
-                            // Default text input for other fields
-                            return (
-                              <input
-                                type="text"
-                                value={filter.value}
-                                onChange={(e) => updateFilter(filter.id, { value: e.target.value })}
-                                placeholder="Value"
-                                className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500"
-                              />
-                            );
-                          })()}
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                ))}
+                {renderNodes(filters, 'and', 0)}
 
                 <button
-                  onClick={addFilter}
+                  onClick={() => addFilter()}
                   className="w-full flex items-center justify-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none"
                   disabled={isLoading}
                 >
@@ -347,6 +454,26 @@ export function FilterMenu({ onFilterChange, isOpen, onToggle, allColumns, isLoa
                     </>
                   )}
                 </button>
+
+                <button
+                  onClick={() => addGroup()}
+                  className="w-full flex items-center justify-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none"
+                  disabled={isLoading}
+                >
+                  <Icon icon={RectangleGroupIcon} size="xs" className="mr-2" />
+                  Add OR group
+                </button>
+
+                {hasOwnerColumn && user?.email && (
+                  <button
+                    onClick={addOwnedByMeFilter}
+                    className="w-full flex items-center justify-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none"
+                    disabled={isLoading}
+                  >
+                    <Icon icon={UserCircleIcon} size="xs" className="mr-2" />
+                    Owned by me
+                  </button>
+                )}
               </div>
             )}
           </div>
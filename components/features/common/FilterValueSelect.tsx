@@ -0,0 +1,117 @@
+import { useState, useEffect } from 'react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { Icon } from '@/components/ui/Icon'
+import { Checkbox } from '@/components/ui/checkbox'
+import { fetchDistinctValues, EntityTableName } from '@/lib/queryFilters'
+
+interface FilterValueSelectProps {
+  selected: string[]
+  onChange: (values: string[]) => void
+  tableName?: EntityTableName
+  property: string
+}
+
+// Multi-select for "is any of" / "includes all of" filters. Options come from the column's
+// existing values when they can be loaded; any other value can be typed in and added with Enter.
+export function FilterValueSelect({ selected, onChange, tableName, property }: FilterValueSelectProps) {
+  const [options, setOptions] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [query, setQuery] = useState('')
+
+  useEffect(() => {
+    if (!tableName) {
+      setOptions([])
+      return
+    }
+
+    let cancelled = false
+    setIsLoading(true)
+
+    fetchDistinctValues(tableName, property)
+      .then(values => {
+        if (!cancelled) setOptions(values)
+      })
+      .catch(err => {
+        console.error('Failed to load filter options:', err)
+        if (!cancelled) setOptions([])
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [tableName, property])
+
+  const toggleValue = (value: string) => {
+    onChange(selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value])
+  }
+
+  const addTypedValue = () => {
+    const value = query.trim()
+    if (value && !selected.includes(value)) {
+      onChange([...selected, value])
+    }
+    setQuery('')
+  }
+
+  const visibleOptions = options.filter(option => option.toLowerCase().includes(query.trim().toLowerCase()))
+
+  return (
+    <div className="space-y-2">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selected.map(value => (
+            <span
+              key={value}
+              className="inline-flex items-center rounded-full bg-primary-50 px-2 py-0.5 text-xs font-medium text-primary-700"
+            >
+              {value}
+              <button
+                onClick={() => toggleValue(value)}
+                className="ml-1 text-primary-400 hover:text-primary-600"
+                title="Remove value"
+              >
+                <Icon icon={XMarkIcon} size="xs" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault()
+            addTypedValue()
+          }
+        }}
+        placeholder={options.length > 0 ? 'Search or type a value and press Enter' : 'Type a value and press Enter'}
+        className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-md shadow-sm focus:ring-primary-500 focus:border-primary-500"
+      />
+
+      {isLoading ? (
+        <p className="text-xs text-gray-500">Loading values...</p>
+      ) : visibleOptions.length > 0 && (
+        <div className="max-h-40 overflow-y-auto rounded-md border border-gray-200 bg-white">
+          {visibleOptions.map(option => (
+            <label
+              key={option}
+              className="flex items-center gap-x-2 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 cursor-pointer"
+            >
+              <Checkbox
+                checked={selected.includes(option)}
+                onChange={() => toggleValue(option)}
+              />
+              <span className="truncate">{option}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
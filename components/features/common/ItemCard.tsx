@@ -4,8 +4,12 @@ import { Checkbox } from '@/components/ui/checkbox'
 import { IconName } from '@/hooks/useColumnManagement'
 import { Icon } from '@/components/ui/Icon'
 import { getIconComponent } from '@/utils/iconUtils'
+import { AIProvenancePopover } from '@/components/features/common/AIProvenancePopover'
+import { AIProvenance, isCurrentAIValue } from '@/lib/aiProvenance'
 
 interface FieldDisplayProps {
+  // The field's column, used to find its AI provenance
+  id?: string
   label: string
   value: string
   iconName: IconName
@@ -21,6 +25,8 @@ interface ItemCardProps {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   item?: any // The item being represented by this card
   fields?: FieldDisplayProps[] // Add support for passing field data directly
+  // Where the item's AI-written values came from, keyed by column; shown when hovering those fields
+  provenance?: Record<string, AIProvenance>
 }
 
 export function ItemCard({ 
@@ -31,7 +37,8 @@ export function ItemCard({
   onClick, 
   icon, 
   item,
-  fields = []
+  fields = [],
+  provenance
 }: ItemCardProps) {
   const { selectedItems, toggleSelection } = useSelection()
   const isSelected = item ? selectedItems.some(selectedItem => selectedItem.id === item.id) : false
@@ -86,6 +93,14 @@ export function ItemCard({
     return <span className="text-gray-900 ml-2 truncate">{String(value)}</span>;
   };
 
+  // The provenance of a field's value, while the item still holds the value the AI wrote
+  const provenanceFor = (field: FieldDisplayProps) => {
+    const fieldProvenance = field.id ? provenance?.[field.id] : undefined
+    return fieldProvenance && item && isCurrentAIValue(fieldProvenance, item[fieldProvenance.columnName])
+      ? fieldProvenance
+      : null
+  }
+
   return (
     <div 
       className="bg-white rounded-xl border border-gray-100 shadow-card hover:shadow-card-hover p-5 
@@ -134,17 +149,22 @@ export function ItemCard({
           {/* Display fields array if provided */}
           {fields.length > 0 && (
             <div className="mt-3 space-y-2 text-sm text-gray-600 overflow-hidden">
-              {fields.map((field, index) => (
-                <div key={index} className="flex items-start">
-                  <div className="flex items-center min-w-[100px] text-gray-500">
-                    <div className="w-5 h-5 mr-2">
-                      <Icon icon={getIconComponent(field.iconName)} size="sm" className="text-gray-400" />
+              {fields.map((field, index) => {
+                const fieldProvenance = provenanceFor(field)
+                return (
+                  <div key={index} className="flex items-start">
+                    <div className="flex items-center min-w-[100px] text-gray-500">
+                      <div className="w-5 h-5 mr-2">
+                        <Icon icon={getIconComponent(field.iconName)} size="sm" className="text-gray-400" />
+                      </div>
+                      <span className="truncate">{field.label}:</span>
                     </div>
-                    <span className="truncate">{field.label}:</span>
+                    {fieldProvenance
+                      ? <AIProvenancePopover provenance={fieldProvenance}>{renderFieldValue(field)}</AIProvenancePopover>
+                      : renderFieldValue(field)}
                   </div>
-                  {renderFieldValue(field)}
-                </div>
-              ))}
+                )
+              })}
             </div>
           )}
           
@@ -7,15 +7,18 @@ interface SearchBarProps {
   onFilterChange?: (filters: any[]) => void
   activeTab?: 'attendees' | 'health-systems' | 'conferences'
   isLoading?: boolean
+  // Externally set search term (e.g. from a saved view); typing still reports through onSearch
+  value?: string
 }
 
 export function SearchBar({ 
   placeholder = 'Search...', 
   onSearch,
   activeTab, 
-  isLoading = false 
+  isLoading = false,
+  value
 }: SearchBarProps) {
-  const [searchTerm, setSearchTerm] = useState('')
+  const [searchTerm, setSearchTerm] = useState(value || '')
   const timeoutRef = useRef<NodeJS.Timeout | null>(null)
 
   // Handle search with debounce
@@ -42,8 +45,20 @@ export function SearchBar({
     }
   }, [])
   
-  // Clear search when tab changes
+  // Show a search term applied from outside without triggering another search
   useEffect(() => {
+    if (value !== undefined) {
+      setSearchTerm(value)
+    }
+  }, [value])
+  
+  // Clear search when tab changes (only once per tab, so a new onSearch callback doesn't wipe the term)
+  const clearedTabRef = useRef<string | null>(null)
+  useEffect(() => {
+    const tabKey = activeTab || ''
+    if (clearedTabRef.current === tabKey) return
+    clearedTabRef.current = tabKey
+    
     setSearchTerm('')
     onSearch('')
   }, [activeTab, onSearch])
@@ -1,20 +1,16 @@
 import { useState, useCallback, useEffect } from 'react'
 import { useSelection } from '@/lib/context/SelectionContext'
-import { supabase } from '@/lib/supabase'
+import { buildFilteredQuery, getTableNameForTab, QueryFilterNode } from '@/lib/queryFilters'
 
 type EntityType = 'attendees' | 'health-systems' | 'conferences'
 
 interface SelectAllButtonProps {
   entityType: EntityType
   currentItems: any[]
-  currentFilters?: Array<{
-    id?: string
-    property: string
-    operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than' | 'not_contains'
-    value: string
-  }>
+  currentFilters?: QueryFilterNode[]
   searchTerm?: string
   listId?: string | null
+  totalCount?: number
   onSelectStateChange?: (isSelectingAll: boolean) => void
 }
 
@@ -24,6 +20,7 @@ export function SelectAllButton({
   currentFilters = [],
   searchTerm = '',
   listId = null,
+  totalCount,
   onSelectStateChange
 }: SelectAllButtonProps) {
   const { selectAll, deselectAll } = useSelection()
@@ -40,7 +37,7 @@ export function SelectAllButton({
     // Create a signature from the current filter state
     const currentSignature = JSON.stringify({
       entityType,
-      filterCount: currentFilters.length,
+      filters: currentFilters,
       searchTerm,
       listId
     })
@@ -57,89 +54,6 @@ export function SelectAllButton({
     checkSelectionValidity()
   }, [checkSelectionValidity])
 
-  // Get the database table name from entity type
-  const getTableName = (type: EntityType): string => {
-    switch (type) {
-      case 'health-systems':
-        return 'health_systems'
-      default:
-        return type
-    }
-  }
-
-  // Apply filters to the query
-  const applyFilters = (query: any, filters: any[] = [], searchTerm: string = '') => {
-    // Apply search term if provided
-    if (searchTerm && searchTerm.trim() !== '') {
-      const tableName = getTableName(entityType)
-      if (tableName === 'attendees') {
-        query = query.or(`first_name.ilike.%${searchTerm}%,last_name.ilike.%${searchTerm}%,email.ilike.%${searchTerm}%,title.ilike.%${searchTerm}%,company.ilike.%${searchTerm}%`)
-      } else if (tableName === 'health_systems') {
-        query = query.or(`name.ilike.%${searchTerm}%,city.ilike.%${searchTerm}%,state.ilike.%${searchTerm}%`)
-      } else if (tableName === 'conferences') {
-        query = query.or(`name.ilike.%${searchTerm}%,location.ilike.%${searchTerm}%`)
-      }
-    }
-
-    // Apply each filter
-    filters.forEach(filter => {
-      if (!filter || !filter.property || !filter.operator) return
-      
-      const { property, operator, value } = filter
-
-      switch (operator) {
-        case 'equals':
-          if (value && value.includes(',')) {
-            const values = value.split(',').map((v: string) => v.trim()).filter(Boolean)
-            if (values.length > 0) {
-              query = query.in(property, values)
-            }
-          } else if (value) {
-            query = query.eq(property, value)
-          }
-          break
-        case 'contains':
-          if (value) {
-            query = query.ilike(property, `%${value}%`)
-          }
-          break
-        case 'not_contains':
-          if (value) {
-            query = query.not(property, 'ilike', `%${value}%`)
-          }
-          break
-        case 'starts_with':
-          if (value) {
-            query = query.ilike(property, `${value}%`)
-          }
-          break
-        case 'ends_with':
-          if (value) {
-            query = query.ilike(property, `%${value}`)
-          }
-          break
-        case 'is_empty':
-          query = query.or(`${property}.is.null,${property}.eq.''`)
-          break
-        case 'is_not_empty':
-          query = query.not(`${property}`, 'is', null).not(`${property}`, 'eq', '')
-          break
-        case 'greater_than':
-          if (value) {
-            query = query.gt(property, value)
-          }
-          break
-        case 'less_than':
-          if (value) {
-            query = query.lt(property, value)
-          }
-          break
-      }
-    })
-
-    return query
-  }
-
   const handleSelectAll = async () => {
     if (isAllSelected) {
       // If everything is already selected, just deselect all
@@ -157,13 +71,13 @@ export function SelectAllButton({
     setProgressMessage('Starting selection...')
     onSelectStateChange?.(true)
     
-    const tableName = getTableName(entityType)
+    const tableName = getTableNameForTab(entityType)
     
     try {
       // Create a signature for this selection operation
       const selectionSignature = JSON.stringify({
         entityType,
-        filterCount: currentFilters.length,
+        filters: currentFilters,
         searchTerm,
         listId
       })
@@ -185,62 +99,14 @@ export function SelectAllButton({
         // Set status message while fetching
         setProgressMessage(`Fetching page ${page + 1}${count ? ` (${allIds.length} of ~${count})` : ''}...`)
         
-        // Special handling for attendees in a list view
-        if (listId && entityType === 'attendees') {
-          try {
-            // This is a separate query for list items, so we handle it differently
-            const { data: listData, error: listError, count: listCount } = await supabase
-              .from('attendee_lists')
-              .select('attendee_id', { count: 'exact' })
-              .eq('list_id', listId)
-              .range(page * pageSize, (page + 1) * pageSize - 1);
-            
-            if (listError) {
-              console.error(`Error fetching list attendee IDs (page ${page}):`, listError);
-              throw listError;
-            }
-            
-            // Process the results if we got data
-            if (listData && listData.length > 0) {
-              // Extract just the attendee_id from each record
-              const pageIds = listData.map(item => item.attendee_id);
-              allIds = [...allIds, ...pageIds];
-              
-              // For the first page, set the total count
-              if (page === 0 && listCount !== null) {
-                count = listCount;
-              }
-              
-              // Check if we need to fetch more pages
-              hasMorePages = listData.length === pageSize;
-              page++;
-              
-              // Log progress for larger datasets
-              if (page > 1) {
-                console.log(`Fetching page ${page} of list IDs, ${allIds.length} fetched so far...`);
-                setProgressMessage(`Loading ${allIds.length} of ~${count} items...`);
-              }
-            } else {
-              // No more data
-              hasMorePages = false;
-            }
-            
-            // Skip the regular query execution for this iteration
-            continue;
-          } catch (listQueryError) {
-            console.error('Error in list query:', listQueryError);
-            // Fall back to regular filtering if the specialized query fails
-          }
-        }
-        
         // Create a new query for each page request
-        let query = supabase.from(tableName).select('id', { count: 'exact' })
-        
-        // Apply the same filters that are currently active
-        query = applyFilters(query, currentFilters, searchTerm)
-        
-        // Add pagination
-        query = query.range(page * pageSize, (page + 1) * pageSize - 1)
+        // Apply the same filters, search and list membership the table is showing
+        const query = buildFilteredQuery(tableName, 'id', {
+          filters: currentFilters,
+          searchTerm,
+          listId,
+          count: true
+        }).range(page * pageSize, (page + 1) * pageSize - 1)
         
         try {
           // Execute the query to get matching IDs for this page
@@ -253,7 +119,7 @@ export function SelectAllButton({
           
           // If we got data, add the IDs to our collection
           if (data && data.length > 0) {
-            const pageIds = data.map(item => item.id)
+            const pageIds = data.map((item: { id: string }) => item.id)
             allIds = [...allIds, ...pageIds]
             
             // For the first page, set the total count
@@ -378,6 +244,8 @@ export function SelectAllButton({
         </>
       ) : isAllSelected ? (
         <>Deselect All ({selectionCount.toLocaleString()})</>
+      ) : totalCount !== undefined && totalCount > currentItems.length ? (
+        <>Select all {totalCount.toLocaleString()} matching</>
       ) : (
         <>Select All</>
       )}
@@ -1,5 +1,6 @@
 // Export all common feature components
 export * from './DataTable';
 export * from './ItemCard';
+export * from './AIProvenancePopover';
 export * from './SearchBar';
 export * from './FilterMenu';
\ No newline at end of file
@@ -5,6 +5,7 @@ import { AttendeeDetailAdapter } from '../attendees/AttendeeDetailAdapter'
 import { ConferenceDetailAdapter } from '../conferences/ConferenceDetailAdapter'
 import { HealthSystemDetailAdapter } from '../health-systems/HealthSystemDetailAdapter'
 import type { Attendee, Conference, HealthSystem } from '@/types'
+import { useRole } from '@/hooks/useRole'
 
 // Helper to generate a valid UUID format
 const generateTempUUID = () => {
@@ -29,6 +30,7 @@ export const AddEntityButton = ({
   className = '',
   currentConferenceName
 }: AddEntityButtonProps) => {
+  const { can } = useRole()
   const [isOpen, setIsOpen] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -142,6 +144,10 @@ export const AddEntityButton = ({
     }
   }
 
+  if (!can('editRecords')) {
+    return null
+  }
+
   return (
     <>
       <button
@@ -7,16 +7,22 @@ import {
   XCircleIcon,
   CalendarIcon,
   PlusCircleIcon,
-  XMarkIcon
+  XMarkIcon,
+  ClockIcon
 } from '@heroicons/react/24/outline'
 import { Icon } from '@/components/ui/Icon'
 import type { Attendee, Conference, HealthSystem } from '@/types'
 import { supabase } from '@/lib/supabase'
 import ApolloIntegration from '@/components/features/apollo/ApolloIntegration'
+import { ApolloSyncStatus } from '@/components/features/apollo/ApolloSyncStatus'
 import { ApolloEnrichmentResponse } from '@/lib/apollo'
 import { handleEnrichmentComplete as enrichAttendee } from '@/lib/enrichment'
 import { Dialog, Transition } from '@headlessui/react'
 import { DeleteResultsDialog } from '@/components/features/ai-enrichment/DeleteResultsDialog'
+import { FieldHistoryPanel } from '@/components/features/entities/FieldHistoryPanel'
+import { EntityTasks } from '@/components/features/tasks/EntityTasks'
+import { useRole } from '@/hooks/useRole'
+import type { EntityTableName } from '@/lib/queryFilters'
 
 // Define the base entity types
 export type EntityTypes = Attendee | Conference | HealthSystem
@@ -76,6 +82,8 @@ interface EntityDetailProps {
   conferenceName?: string
   fetchWithRelationships?: (entityId: string) => Promise<{ data: EntityTypes | null, error: any }>
   isNewEntity?: boolean
+  // Extra sections (e.g. the activity timeline) shown below the fields in view mode
+  children?: ReactNode
 }
 
 export const EntityDetail = ({
@@ -92,8 +100,10 @@ export const EntityDetail = ({
   showApolloIntegration = false,
   conferenceName,
   fetchWithRelationships,
-  isNewEntity = false
+  isNewEntity = false,
+  children
 }: EntityDetailProps) => {
+  const { can } = useRole()
   const [isEditing, setIsEditing] = useState(isNewEntity)
   const [editData, setEditData] = useState<EntityTypes | null>({ ...entity })
   const [isSaving, setIsSaving] = useState(false)
@@ -103,6 +113,7 @@ export const EntityDetail = ({
   const [showDeleteResults, setShowDeleteResults] = useState(false)
   const [deleteResults, setDeleteResults] = useState<EntityDeleteResult[]>([])
   const [currentEntity, setCurrentEntity] = useState<EntityTypes>(entity)
+  const [showHistory, setShowHistory] = useState(false)
   
   // New state for tag management
   const [availableTagItems, setAvailableTagItems] = useState<Record<string, any[]>>({})
@@ -414,6 +425,22 @@ export const EntityDetail = ({
     }
   };
 
+  // Reload the entity after a change made elsewhere (a revert from the history panel, a sync from Apollo)
+  const reloadEntity = async () => {
+    if (!fetchWithRelationships) return
+
+    const result = await fetchWithRelationships(currentEntity.id)
+    if (result.error) {
+      console.error(`Error reloading ${entityType} data:`, result.error)
+      return
+    }
+
+    if (result.data) {
+      setCurrentEntity(result.data)
+      onUpdate?.(result.data)
+    }
+  }
+
   // Handle edit click
   const handleEditClick = () => {
     setEditData({ ...currentEntity })
@@ -1119,7 +1146,7 @@ export const EntityDetail = ({
           </div>
           
           {/* Show Apollo Integration in edit mode too */}
-          {showApolloIntegration && entityType === 'attendee' && (
+          {showApolloIntegration && entityType === 'attendee' && can('runPaidEnrichment') && (
             <div className="px-6 py-5 border-t border-gray-200">
               <ApolloIntegration
                 selectedAttendees={[currentEntity as Attendee]}
@@ -1149,15 +1176,27 @@ export const EntityDetail = ({
               </div>
               
               <div className="flex items-center gap-2">
-                <button 
-                  onClick={handleEditClick}
-                  className="inline-flex items-center justify-center rounded-full bg-white p-1.5 text-gray-500 shadow-sm border border-gray-200 hover:text-gray-700 hover:bg-gray-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-600"
-                  title="Edit"
-                >
-                  <PencilSquareIcon className="h-4 w-4" aria-hidden="true" />
-                  <span className="sr-only">Edit</span>
-                </button>
-                {onDelete && (
+                {!isNewEntity && (
+                  <button 
+                    onClick={() => setShowHistory(!showHistory)}
+                    className={`inline-flex items-center justify-center rounded-full p-1.5 shadow-sm border border-gray-200 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-600 ${showHistory ? 'bg-gray-100 text-gray-700' : 'bg-white text-gray-500 hover:text-gray-700 hover:bg-gray-100'}`}
+                    title="History"
+                  >
+                    <ClockIcon className="h-4 w-4" aria-hidden="true" />
+                    <span className="sr-only">History</span>
+                  </button>
+                )}
+                {can('editRecords') && (
+                  <button 
+                    onClick={handleEditClick}
+                    className="inline-flex items-center justify-center rounded-full bg-white p-1.5 text-gray-500 shadow-sm border border-gray-200 hover:text-gray-700 hover:bg-gray-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-600"
+                    title="Edit"
+                  >
+                    <PencilSquareIcon className="h-4 w-4" aria-hidden="true" />
+                    <span className="sr-only">Edit</span>
+                  </button>
+                )}
+                {onDelete && can('deleteRecords') && (
                   <button 
                     onClick={() => setShowDeleteConfirm(true)}
                     className="inline-flex items-center justify-center rounded-full bg-white p-1.5 text-red-500 shadow-sm border border-gray-200 hover:text-red-700 hover:bg-red-50 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-red-600"
@@ -1283,7 +1322,7 @@ export const EntityDetail = ({
                 // Skip fields that are used in tags
                 const isTagField = tags.some(t => t.key === key);
                 // Skip common fields that we don't want to show
-                const isCommonField = ['id', 'created_at', 'updated_at'].includes(key);
+                const isCommonField = ['id', 'created_at', 'updated_at', 'owner_id', 'owner_overridden', 'apollo_contact_id', 'apollo_person_id', 'apollo_pushed_at', 'apollo_synced_at', 'employment_history'].includes(key);
                 return !isDefinedField && !isTagField && !isCommonField;
               })
               .map(([key, value]) => (
@@ -1307,8 +1346,48 @@ export const EntityDetail = ({
               ))}
           </div>
           
+          {!isNewEntity && (
+            <div className="px-6 py-5 border-t border-gray-200">
+              <EntityTasks
+                target={{
+                  attendeeId: entityType === 'attendee' ? currentEntity.id : null,
+                  healthSystemId: entityType === 'healthSystem' ? currentEntity.id : null,
+                  conferenceId: entityType === 'conference' ? currentEntity.id : null
+                }}
+                targetLabel={title(currentEntity)}
+              />
+            </div>
+          )}
+          
+          {children && (
+            <div className="px-6 py-5 border-t border-gray-200">
+              {children}
+            </div>
+          )}
+          
+          {showHistory && !isNewEntity && (
+            <div className="px-6 py-5 border-t border-gray-200">
+              <FieldHistoryPanel
+                tableName={tableName as EntityTableName}
+                recordId={currentEntity.id}
+                fieldLabels={Object.fromEntries(fields.map(field => [field.key, field.label]))}
+                onReverted={reloadEntity}
+              />
+            </div>
+          )}
+          
+          {/* Whether the attendee is linked to Apollo, with a sync for changes made there */}
+          {showApolloIntegration && entityType === 'attendee' && !isNewEntity && (
+            <div className="px-6 py-4 border-t border-gray-200">
+              <ApolloSyncStatus
+                attendee={currentEntity as Attendee}
+                onSynced={reloadEntity}
+              />
+            </div>
+          )}
+
           {/* Add Apollo Integration section if needed */}
-          {showApolloIntegration && entityType === 'attendee' && (
+          {showApolloIntegration && entityType === 'attendee' && can('runPaidEnrichment') && (
             <div className="px-6 py-5 border-t border-gray-200">
               <ApolloIntegration
                 selectedAttendees={[currentEntity as Attendee]}
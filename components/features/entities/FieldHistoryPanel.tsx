@@ -0,0 +1,184 @@
+import { useState, useEffect, useCallback } from 'react'
+import { ArrowUturnLeftIcon } from '@heroicons/react/24/outline'
+import { Icon } from '@/components/ui/Icon'
+import type { EntityTableName } from '@/lib/queryFilters'
+import { useRole } from '@/hooks/useRole'
+import {
+  fetchFieldHistory,
+  revertFieldChange,
+  revertChangeBatch,
+  FieldChange,
+  RevertResult,
+  CHANGE_SOURCE_LABELS
+} from '@/lib/fieldHistory'
+
+interface FieldHistoryPanelProps {
+  tableName: EntityTableName
+  recordId: string
+  // Labels of the record's fields, keyed by column name
+  fieldLabels?: Record<string, string>
+  // Called after a revert so the record can be reloaded
+  onReverted?: () => void
+}
+
+const toLabel = (key: string) =>
+  key
+    .replace(/_/g, ' ')
+    .replace(/^./, (str) => str.toUpperCase())
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined || value === '') return 'empty'
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'empty'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+
+// Batches that can be undone as a whole: everything written by one enrichment run or merge
+const isRevertibleBatch = (change: FieldChange) =>
+  !!change.batchId && change.source !== 'manual' && change.source !== 'revert'
+
+export function FieldHistoryPanel({ tableName, recordId, fieldLabels = {}, onReverted }: FieldHistoryPanelProps) {
+  const { can } = useRole()
+  const [changes, setChanges] = useState<FieldChange[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isReverting, setIsReverting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setChanges(await fetchFieldHistory(tableName, recordId))
+    } catch (err) {
+      console.error('Error loading history:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load history')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [tableName, recordId])
+
+  useEffect(() => {
+    loadHistory()
+  }, [loadHistory])
+
+  const afterRevert = async (result: RevertResult) => {
+    if (result.skipped > 0) {
+      alert(`Reverted ${result.reverted} change${result.reverted === 1 ? '' : 's'}. ${result.skipped} field${result.skipped === 1 ? ' was' : 's were'} skipped because ${result.skipped === 1 ? 'it has' : 'they have'} changed again since.`)
+    }
+    await loadHistory()
+    onReverted?.()
+  }
+
+  const handleRevertChange = async (change: FieldChange) => {
+    const label = fieldLabels[change.columnName] || toLabel(change.columnName)
+    if (!confirm(`Set ${label} back to "${formatValue(change.oldValue)}"?`)) return
+
+    setIsReverting(true)
+    try {
+      await afterRevert(await revertFieldChange(change))
+    } catch (err) {
+      console.error('Failed to revert change:', err)
+      alert('Failed to revert change: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    } finally {
+      setIsReverting(false)
+    }
+  }
+
+  const handleRevertBatch = async (change: FieldChange) => {
+    const batchName = change.sourceLabel || CHANGE_SOURCE_LABELS[change.source]
+    if (!confirm(`Revert every change made by "${batchName}"? This includes other records it updated.`)) return
+
+    setIsReverting(true)
+    try {
+      await afterRevert(await revertChangeBatch(change.batchId as string, `Reverted "${batchName}"`))
+    } catch (err) {
+      console.error('Failed to revert batch:', err)
+      alert('Failed to revert batch: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    } finally {
+      setIsReverting(false)
+    }
+  }
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-900 mb-4">History</h3>
+
+      {error && (
+        <p className="mb-3 text-sm text-red-600">{error}</p>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading history...</p>
+      ) : changes.length === 0 ? (
+        <p className="text-sm text-gray-500">No changes recorded yet</p>
+      ) : (
+        <ul className="space-y-4">
+          {changes.map((change, index) => {
+            // Only offer the batch revert once, on the newest change of each batch still in place
+            const isFirstOfBatch = changes.findIndex(other => other.batchId === change.batchId && !other.revertedAt) === index
+
+            return (
+              <li key={change.id} className="group">
+                <div className="flex items-start justify-between gap-x-3">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-gray-900">
+                      <span className="font-medium">{fieldLabels[change.columnName] || toLabel(change.columnName)}</span>
+                      {change.revertedAt && (
+                        <span className="ml-2 inline-flex items-center rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+                          Reverted
+                        </span>
+                      )}
+                    </p>
+                    <p className="mt-0.5 text-sm text-gray-700 break-words">
+                      <span className="text-gray-400 line-through">{formatValue(change.oldValue)}</span>
+                      {' → '}
+                      <span>{formatValue(change.newValue)}</span>
+                    </p>
+                    <p className="mt-0.5 text-xs text-gray-500">
+                      {CHANGE_SOURCE_LABELS[change.source] || change.source}
+                      {change.sourceLabel && ` · ${change.sourceLabel}`}
+                      {` · ${change.changedByEmail || 'System'}`}
+                      {` · ${formatTimestamp(change.changedAt)}`}
+                    </p>
+                  </div>
+                  {!change.revertedAt && can('editRecords') && (
+                    <div className="flex shrink-0 gap-x-2 opacity-0 group-hover:opacity-100">
+                      <button
+                        onClick={() => handleRevertChange(change)}
+                        disabled={isReverting}
+                        className="inline-flex items-center text-xs font-medium text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                        title="Set this field back to its old value"
+                      >
+                        <Icon icon={ArrowUturnLeftIcon} size="xs" className="mr-1" />
+                        Revert
+                      </button>
+                      {isRevertibleBatch(change) && isFirstOfBatch && (
+                        <button
+                          onClick={() => handleRevertBatch(change)}
+                          disabled={isReverting}
+                          className="inline-flex items-center text-xs font-medium text-primary-600 hover:text-primary-800 disabled:opacity-50"
+                          title="Undo every change made by this run"
+                        >
+                          Revert batch
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,3 +1,4 @@
 // Export all entity-related components
 export * from './EntityDetail';
-export * from './AddEntityButton'; 
\ No newline at end of file
+export * from './AddEntityButton';
+export * from './FieldHistoryPanel';
\ No newline at end of file
@@ -0,0 +1,190 @@
+import Link from 'next/link'
+import { useState } from 'react'
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline'
+import { definitiveService, DefinitiveHospital } from '@/lib/definitive'
+import { DefinitiveMatchReview } from '@/lib/definitiveMatching'
+
+interface DefinitiveMatchReviewCardProps {
+  review: DefinitiveMatchReview
+  // Left out for users who can't edit records
+  onLink?: (review: DefinitiveMatchReview, hospital: DefinitiveHospital) => void
+  onNoMatch?: (review: DefinitiveMatchReview) => void
+  // Searching Definitive costs credits, so it's only offered to users who may run paid enrichment
+  canSearch?: boolean
+  isSaving?: boolean
+}
+
+// A hospital to choose from, with the confidence enrichment gave it; hospitals found by searching have none
+interface CandidateRow {
+  hospital: DefinitiveHospital
+  confidence?: number
+}
+
+export function DefinitiveMatchReviewCard({ review, onLink, onNoMatch, canSearch = false, isSaving = false }: DefinitiveMatchReviewCardProps) {
+  const [searchQuery, setSearchQuery] = useState(review.healthSystem?.name || '')
+  const [searchResults, setSearchResults] = useState<DefinitiveHospital[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [searchError, setSearchError] = useState<string | null>(null)
+  // The hospital to link; the best candidate to start with
+  const [selectedId, setSelectedId] = useState<number | null>(review.candidates[0]?.hospital.Id ?? null)
+  const healthSystem = review.healthSystem
+  const canResolve = !!onLink || !!onNoMatch
+
+  const rows: CandidateRow[] = [
+    ...review.candidates,
+    ...searchResults
+      .filter(hospital => !review.candidates.some(candidate => candidate.hospital.Id === hospital.Id))
+      .map(hospital => ({ hospital })),
+  ]
+  const selected = rows.find(row => row.hospital.Id === selectedId)
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!searchQuery.trim()) return
+
+    setIsSearching(true)
+    setSearchError(null)
+    try {
+      const result = await definitiveService.searchHospitals({ query: searchQuery })
+      setSearchResults(result.value || [])
+      if (!result.value?.length) setSearchError('No hospitals found')
+    } catch (err) {
+      console.error('Error searching Definitive:', err)
+      setSearchError(err instanceof Error ? err.message : 'Failed to search Definitive')
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white">
+      <div className="grid grid-cols-1 lg:grid-cols-4">
+        <div className="border-b lg:border-b-0 lg:border-r border-gray-200 p-4">
+          <p className="text-xs font-medium uppercase tracking-wide text-gray-500">Health System</p>
+          {healthSystem ? (
+            <>
+              <Link href={`/health-systems/${review.healthSystemId}`} className="mt-1 block text-sm font-medium text-primary-600 hover:underline">
+                {healthSystem.name}
+              </Link>
+              <dl className="mt-2 space-y-1 text-sm">
+                {[
+                  ['Location', [healthSystem.city, healthSystem.state].filter(Boolean).join(', ')],
+                  ['Website', healthSystem.website],
+                ].map(([label, value]) => (
+                  <div key={label}>
+                    <dt className="text-xs text-gray-500">{label}</dt>
+                    <dd className="text-gray-900 break-words">{value || <span className="text-gray-400">Empty</span>}</dd>
+                  </div>
+                ))}
+              </dl>
+            </>
+          ) : (
+            <p className="mt-1 text-sm text-gray-500">Health system not found</p>
+          )}
+        </div>
+
+        <div className="lg:col-span-3">
+          {rows.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-xs font-medium text-gray-500">
+                    {canResolve && <th className="w-8 px-3 py-2" />}
+                    <th className="px-3 py-2">Hospital</th>
+                    <th className="px-3 py-2">Location</th>
+                    <th className="px-3 py-2 text-right">Beds</th>
+                    <th className="px-3 py-2 text-right">Definitive ID</th>
+                    <th className="px-3 py-2 text-right">Confidence</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rows.map(({ hospital, confidence }) => (
+                    <tr
+                      key={hospital.Id}
+                      onClick={() => canResolve && setSelectedId(hospital.Id)}
+                      className={`${canResolve ? 'cursor-pointer' : ''} ${hospital.Id === selectedId && canResolve ? 'bg-primary-50' : ''}`}
+                    >
+                      {canResolve && (
+                        <td className="px-3 py-2">
+                          <input
+                            type="radio"
+                            name={`hospital-${review.healthSystemId}`}
+                            checked={hospital.Id === selectedId}
+                            onChange={() => setSelectedId(hospital.Id)}
+                            className="h-4 w-4 border-gray-300 text-primary-600 focus:ring-primary-500"
+                          />
+                        </td>
+                      )}
+                      <td className="px-3 py-2">
+                        <p className="font-medium text-gray-900">{hospital.Name}</p>
+                        <p className="text-xs text-gray-500">{hospital.WebSite || hospital.FirmType || 'No website'}</p>
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">
+                        {[hospital.HQCity, hospital.State].filter(Boolean).join(', ') || '-'}
+                      </td>
+                      <td className="px-3 py-2 text-right tabular-nums text-gray-600">{hospital.NumBeds ?? '-'}</td>
+                      <td className="px-3 py-2 text-right tabular-nums text-gray-600">{hospital.Id}</td>
+                      <td className="px-3 py-2 text-right font-medium tabular-nums text-gray-900">
+                        {confidence !== undefined ? `${Math.round(confidence * 100)}%` : <span className="font-normal text-gray-400">Search</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="p-4 text-sm text-gray-500">
+              Enrichment found no likely hospitals.{canSearch && ' Search Definitive to find one.'}
+            </p>
+          )}
+
+          {canSearch && onLink && (
+            <form onSubmit={handleSearch} className="flex items-center gap-2 border-t border-gray-100 px-3 py-2">
+              <div className="relative flex-1">
+                <MagnifyingGlassIcon className="pointer-events-none absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                <input
+                  type="text"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search Definitive by name"
+                  className="block w-full pl-8 pr-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isSearching || !searchQuery.trim()}
+                className="px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isSearching ? 'Searching...' : 'Search'}
+              </button>
+              {searchError && <p className="text-xs text-red-600">{searchError}</p>}
+            </form>
+          )}
+        </div>
+      </div>
+
+      {canResolve && (
+        <div className="flex justify-end gap-2 border-t border-gray-200 px-4 py-3">
+          {onNoMatch && (
+            <button
+              onClick={() => onNoMatch(review)}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900 disabled:opacity-50"
+            >
+              Not in Definitive
+            </button>
+          )}
+          {onLink && selected && (
+            <button
+              onClick={() => onLink(review, selected.hospital)}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Linking...' : selected.hospital.Id === review.candidates[0]?.hospital.Id ? 'Confirm best match' : 'Link selected hospital'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -8,6 +8,8 @@ import { useState, useEffect } from 'react'
 import type { HealthSystem, Attendee } from '@/types'
 import { EntityDetail, FieldDefinition, TagDefinition, EntityTypes } from '@/components/features/entities/EntityDetail'
 import { supabase } from '@/lib/supabase'
+import { ActivityTimeline } from '@/components/features/activities/ActivityTimeline'
+import { HealthSystemPipeline } from '@/components/features/opportunities/HealthSystemPipeline'
 
 interface HealthSystemDetailAdapterProps {
   healthSystem: HealthSystem
@@ -304,7 +306,21 @@ export const HealthSystemDetailAdapter = ({
         onDelete={onDelete}
         fetchWithRelationships={fetchHealthSystemWithRelationships}
         isNewEntity={isNewEntity}
-      />
+      >
+        {!isNewEntity && fullHealthSystem.id && fullHealthSystem.id !== 'new' && (
+          <div className="space-y-8">
+            <HealthSystemPipeline
+              healthSystemId={fullHealthSystem.id}
+              healthSystemName={fullHealthSystem.name}
+            />
+            <ActivityTimeline
+              healthSystemId={fullHealthSystem.id}
+              attendeeIds={(fullHealthSystem.attendees || []).map(attendee => attendee.id)}
+              onAttendeeClick={onAttendeeClick}
+            />
+          </div>
+        )}
+      </EntityDetail>
     </div>
   );
 }; 
\ No newline at end of file
@@ -1,2 +1,3 @@
 // Export all health system-related components
-export * from './HealthSystemDetailAdapter'; 
\ No newline at end of file
+export * from './HealthSystemDetailAdapter';
+export * from './DefinitiveMatchReviewCard';
@@ -0,0 +1,88 @@
+import Link from 'next/link'
+import { ArrowRightIcon } from '@heroicons/react/24/outline'
+import { JobChange, JOB_CHANGE_KIND_LABELS } from '@/lib/jobChanges'
+
+interface JobChangeItemProps {
+  jobChange: JobChange
+  // Left out for resolved job changes and for users who can't edit records
+  onApply?: (jobChange: JobChange) => void
+  onDismiss?: (jobChange: JobChange) => void
+  isSaving?: boolean
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+
+const formatRole = (title: string | null, company: string | null) =>
+  [title, company].filter(Boolean).join(' at ') || 'Unknown'
+
+export function JobChangeItem({ jobChange, onApply, onDismiss, isSaving = false }: JobChangeItemProps) {
+  const isPromotion = jobChange.kind === 'promoted'
+
+  return (
+    <li className="flex items-start gap-x-3 py-3">
+      <div className="min-w-0 flex-1">
+        <p className="text-sm text-gray-900">
+          <Link href={`/attendees/${jobChange.attendeeId}`} className="font-medium text-primary-600 hover:underline">
+            {jobChange.attendeeName}
+          </Link>
+          <span
+            className={`ml-2 inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${
+              isPromotion ? 'bg-green-50 text-green-700' : 'bg-amber-50 text-amber-700'
+            }`}
+          >
+            {JOB_CHANGE_KIND_LABELS[jobChange.kind]}
+          </span>
+        </p>
+        <p className="mt-1 flex flex-wrap items-center gap-1 text-sm text-gray-600">
+          <span>{formatRole(jobChange.previousTitle, jobChange.previousCompany)}</span>
+          <ArrowRightIcon className="h-4 w-4 text-gray-400" />
+          <span className="text-gray-900">{formatRole(jobChange.newTitle, jobChange.newCompany)}</span>
+        </p>
+        <p className="mt-0.5 text-xs text-gray-500">
+          Found {formatDate(jobChange.detectedAt)}
+          {jobChange.healthSystemId && jobChange.healthSystemName && (
+            <>
+              {' · Linked to '}
+              <Link href={`/health-systems/${jobChange.healthSystemId}`} className="text-primary-600 hover:underline">{jobChange.healthSystemName}</Link>
+            </>
+          )}
+          {!isPromotion && (jobChange.newHealthSystemId && jobChange.newHealthSystemName ? (
+            <>
+              {' · Moves to '}
+              <Link href={`/health-systems/${jobChange.newHealthSystemId}`} className="text-primary-600 hover:underline">{jobChange.newHealthSystemName}</Link>
+            </>
+          ) : ' · New company is not a health system in the CRM')}
+          {jobChange.resolvedAt && ` · ${jobChange.status === 'applied' ? 'Applied' : 'Dismissed'} ${formatDate(jobChange.resolvedAt)}`}
+        </p>
+      </div>
+      {(onApply || onDismiss) && (
+        <div className="flex shrink-0 items-center gap-2">
+          {onDismiss && (
+            <button
+              onClick={() => onDismiss(jobChange)}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900 disabled:opacity-50"
+            >
+              Dismiss
+            </button>
+          )}
+          {onApply && (
+            <button
+              onClick={() => onApply(jobChange)}
+              disabled={isSaving}
+              title={isPromotion ? 'Update the title' : 'Update the title, company and health system'}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Updating...' : 'Update attendee'}
+            </button>
+          )}
+        </div>
+      )}
+    </li>
+  )
+}
@@ -0,0 +1,2 @@
+// Export all job change components
+export * from './JobChangeItem';
@@ -0,0 +1,150 @@
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { PlusIcon } from '@heroicons/react/24/outline'
+import { Icon } from '@/components/ui/Icon'
+import { useRole } from '@/hooks/useRole'
+import {
+  fetchOpportunities,
+  fetchOpportunityStages,
+  formatAmount,
+  Opportunity,
+  OpportunityStage
+} from '@/lib/opportunities'
+import { OpportunityDialog } from './OpportunityDialog'
+
+interface HealthSystemPipelineProps {
+  healthSystemId: string
+  healthSystemName: string
+}
+
+// Pipeline section on a health system's detail: its opportunities with stage, amount and close date
+export function HealthSystemPipeline({ healthSystemId, healthSystemName }: HealthSystemPipelineProps) {
+  const { can } = useRole()
+  const [opportunities, setOpportunities] = useState<Opportunity[]>([])
+  const [stages, setStages] = useState<OpportunityStage[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingOpportunity, setEditingOpportunity] = useState<Opportunity | null>(null)
+
+  useEffect(() => {
+    const loadPipeline = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const [loadedStages, loadedOpportunities] = await Promise.all([
+          fetchOpportunityStages(),
+          fetchOpportunities(healthSystemId)
+        ])
+        setStages(loadedStages)
+        setOpportunities(loadedOpportunities)
+      } catch (err) {
+        console.error('Error loading pipeline:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load pipeline')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadPipeline()
+  }, [healthSystemId])
+
+  const stagesById = Object.fromEntries(stages.map(stage => [stage.id, stage]))
+  const openTotal = opportunities
+    .filter(opportunity => !stagesById[opportunity.stageId]?.isClosed)
+    .reduce((sum, opportunity) => sum + (opportunity.amount || 0), 0)
+
+  const openDialog = (opportunity: Opportunity | null) => {
+    setEditingOpportunity(opportunity)
+    setIsDialogOpen(true)
+  }
+
+  const handleSaved = (saved: Opportunity) => {
+    // Drop it from this list if it was moved to another health system
+    if (saved.healthSystemId !== healthSystemId) {
+      setOpportunities(prev => prev.filter(opportunity => opportunity.id !== saved.id))
+      return
+    }
+    setOpportunities(prev => prev.some(opportunity => opportunity.id === saved.id)
+      ? prev.map(opportunity => opportunity.id === saved.id ? saved : opportunity)
+      : [saved, ...prev]
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-medium text-gray-900">
+          Pipeline
+          {opportunities.length > 0 && (
+            <span className="ml-2 text-xs font-normal text-gray-500">{formatAmount(openTotal)} open</span>
+          )}
+        </h3>
+        <div className="flex items-center gap-3">
+          <Link href="/pipeline" className="text-xs font-medium text-primary-600 hover:text-primary-800">
+            View board
+          </Link>
+          {can('editRecords') && (
+            <button
+              onClick={() => openDialog(null)}
+              disabled={stages.length === 0}
+              className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none disabled:opacity-50"
+            >
+              <Icon icon={PlusIcon} size="xs" className="mr-1" />
+              Add opportunity
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <p className="mb-3 text-sm text-red-600">{error}</p>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading pipeline...</p>
+      ) : opportunities.length === 0 ? (
+        <p className="text-sm text-gray-500">No opportunities yet</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 rounded-md border border-gray-200">
+          {opportunities.map(opportunity => {
+            const stage = stagesById[opportunity.stageId]
+
+            return (
+              <li key={opportunity.id}>
+                <button
+                  onClick={() => openDialog(opportunity)}
+                  className="flex w-full items-center justify-between gap-x-3 px-3 py-2 text-left hover:bg-gray-50"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{opportunity.name}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {opportunity.expectedCloseDate ? `Closes ${new Date(`${opportunity.expectedCloseDate}T00:00:00`).toLocaleDateString()}` : 'No close date'}
+                      {opportunity.champions.length > 0 && ` · ${opportunity.champions.map(champion => champion.name).join(', ')}`}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-x-3">
+                    <span className="text-sm text-gray-900">{formatAmount(opportunity.amount)}</span>
+                    <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${stage?.isWon ? 'bg-green-100 text-green-700' : stage?.isClosed ? 'bg-gray-100 text-gray-600' : 'bg-primary-50 text-primary-700'}`}>
+                      {stage?.name || 'Unknown stage'}
+                    </span>
+                  </div>
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      <OpportunityDialog
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        stages={stages}
+        opportunity={editingOpportunity}
+        healthSystem={{ id: healthSystemId, name: healthSystemName }}
+        onSaved={handleSaved}
+        onDeleted={(opportunityId) => setOpportunities(prev => prev.filter(opportunity => opportunity.id !== opportunityId))}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,427 @@
+import { useState, useEffect, Fragment } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { BriefcaseIcon } from '@heroicons/react/24/outline'
+import { Checkbox } from '@/components/ui/checkbox'
+import { useRole } from '@/hooks/useRole'
+import { supabase } from '@/lib/supabase'
+import {
+  createOpportunity,
+  updateOpportunity,
+  deleteOpportunity,
+  searchHealthSystems,
+  Opportunity,
+  OpportunityStage
+} from '@/lib/opportunities'
+
+interface OpportunityDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  stages: OpportunityStage[]
+  // The opportunity to edit; a new one is created when not given
+  opportunity?: Opportunity | null
+  // Fixes the health system of a new opportunity (e.g. when added from a health system's detail)
+  healthSystem?: { id: string; name: string }
+  onSaved: (opportunity: Opportunity) => void
+  onDeleted?: (opportunityId: string) => void
+}
+
+interface ChampionOption {
+  id: string
+  name: string
+}
+
+const inputClassName = 'block w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500'
+
+export function OpportunityDialog({ isOpen, onClose, stages, opportunity, healthSystem, onSaved, onDeleted }: OpportunityDialogProps) {
+  const { can } = useRole()
+  const [name, setName] = useState('')
+  const [selectedHealthSystem, setSelectedHealthSystem] = useState<{ id: string; name: string } | null>(null)
+  const [healthSystemQuery, setHealthSystemQuery] = useState('')
+  const [healthSystemResults, setHealthSystemResults] = useState<Array<{ id: string; name: string }>>([])
+  const [stageId, setStageId] = useState('')
+  const [amount, setAmount] = useState('')
+  const [expectedCloseDate, setExpectedCloseDate] = useState('')
+  const [sourceConferenceId, setSourceConferenceId] = useState('')
+  const [notes, setNotes] = useState('')
+  const [championIds, setChampionIds] = useState<string[]>([])
+  const [championOptions, setChampionOptions] = useState<ChampionOption[]>([])
+  const [conferences, setConferences] = useState<Array<{ id: string; name: string }>>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Defaults for a new opportunity, as plain values so a parent passing new objects doesn't reset the form
+  const fixedHealthSystemId = healthSystem?.id
+  const fixedHealthSystemName = healthSystem?.name
+  const firstStageId = stages[0]?.id || ''
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (!isOpen) return
+
+    setName(opportunity?.name || '')
+    setSelectedHealthSystem(
+      opportunity
+        ? { id: opportunity.healthSystemId, name: opportunity.healthSystemName || '' }
+        : fixedHealthSystemId ? { id: fixedHealthSystemId, name: fixedHealthSystemName || '' } : null
+    )
+    setHealthSystemQuery('')
+    setHealthSystemResults([])
+    setStageId(opportunity?.stageId || firstStageId)
+    setAmount(opportunity?.amount !== null && opportunity?.amount !== undefined ? String(opportunity.amount) : '')
+    setExpectedCloseDate(opportunity?.expectedCloseDate || '')
+    setSourceConferenceId(opportunity?.sourceConferenceId || '')
+    setNotes(opportunity?.notes || '')
+    setChampionIds(opportunity?.champions.map(champion => champion.id) || [])
+    setError(null)
+  }, [isOpen, opportunity, fixedHealthSystemId, fixedHealthSystemName, firstStageId])
+
+  // Conferences the opportunity can be sourced from
+  useEffect(() => {
+    if (!isOpen) return
+
+    supabase
+      .from('conferences')
+      .select('id, name')
+      .order('start_date', { ascending: false })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading conferences:', error)
+          return
+        }
+        setConferences(data || [])
+      })
+  }, [isOpen])
+
+  // Champions are picked from the health system's attendees
+  useEffect(() => {
+    if (!isOpen || !selectedHealthSystem) {
+      setChampionOptions([])
+      return
+    }
+
+    supabase
+      .from('attendees')
+      .select('id, first_name, last_name')
+      .eq('health_system_id', selectedHealthSystem.id)
+      .order('last_name')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading attendees:', error)
+          return
+        }
+        setChampionOptions((data || []).map(attendee => ({
+          id: attendee.id,
+          name: `${attendee.first_name} ${attendee.last_name}`
+        })))
+      })
+  }, [isOpen, selectedHealthSystem])
+
+  // Search health systems as the user types
+  useEffect(() => {
+    if (!healthSystemQuery.trim()) {
+      setHealthSystemResults([])
+      return
+    }
+
+    let cancelled = false
+    const timeout = setTimeout(() => {
+      searchHealthSystems(healthSystemQuery)
+        .then(results => {
+          if (!cancelled) setHealthSystemResults(results)
+        })
+        .catch(err => console.error('Failed to search health systems:', err))
+    }, 250)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [healthSystemQuery])
+
+  const selectHealthSystem = (selected: { id: string; name: string }) => {
+    setSelectedHealthSystem(selected)
+    setHealthSystemQuery('')
+    setHealthSystemResults([])
+    // Champions belong to a health system, so start over
+    setChampionIds([])
+  }
+
+  const toggleChampion = (attendeeId: string) => {
+    setChampionIds(prev => prev.includes(attendeeId) ? prev.filter(id => id !== attendeeId) : [...prev, attendeeId])
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Name is required')
+      return
+    }
+    if (!selectedHealthSystem) {
+      setError('Choose a health system')
+      return
+    }
+    if (!stageId) {
+      setError('Choose a stage')
+      return
+    }
+
+    const parsedAmount = amount.trim() ? parseFloat(amount) : null
+    if (parsedAmount !== null && isNaN(parsedAmount)) {
+      setError('Amount must be a number')
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      const input = {
+        name,
+        healthSystemId: selectedHealthSystem.id,
+        stageId,
+        amount: parsedAmount,
+        expectedCloseDate: expectedCloseDate || null,
+        sourceConferenceId: sourceConferenceId || null,
+        notes,
+        championIds
+      }
+      const saved = opportunity
+        ? await updateOpportunity(opportunity.id, input)
+        : await createOpportunity(input)
+      onSaved(saved)
+      onClose()
+    } catch (err) {
+      console.error('Failed to save opportunity:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save opportunity')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!opportunity || !confirm('Are you sure you want to delete this opportunity?')) return
+
+    setIsSaving(true)
+    try {
+      await deleteOpportunity(opportunity.id)
+      onDeleted?.(opportunity.id)
+      onClose()
+    } catch (err) {
+      console.error('Failed to delete opportunity:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete opportunity')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-30" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-lg bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+                  <BriefcaseIcon className="h-5 w-5 text-primary-500 mr-2" />
+                  {opportunity ? 'Edit Opportunity' : 'New Opportunity'}
+                </Dialog.Title>
+
+                {error && (
+                  <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+                    {error}
+                  </div>
+                )}
+
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                    <input
+                      type="text"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="e.g. Oncology navigation rollout"
+                      className={inputClassName}
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Health system</label>
+                    {healthSystem && !opportunity ? (
+                      <p className="text-sm text-gray-900">{healthSystem.name}</p>
+                    ) : (
+                      <div className="relative">
+                        {selectedHealthSystem && !healthSystemQuery ? (
+                          <div className="flex items-center justify-between px-3 py-2 text-sm border border-gray-300 rounded-md">
+                            <span className="text-gray-900">{selectedHealthSystem.name}</span>
+                            <button
+                              onClick={() => setSelectedHealthSystem(null)}
+                              className="text-xs font-medium text-primary-600 hover:text-primary-800"
+                            >
+                              Change
+                            </button>
+                          </div>
+                        ) : (
+                          <input
+                            type="text"
+                            value={healthSystemQuery}
+                            onChange={(e) => setHealthSystemQuery(e.target.value)}
+                            placeholder="Search health systems..."
+                            className={inputClassName}
+                          />
+                        )}
+                        {healthSystemResults.length > 0 && (
+                          <ul className="absolute z-10 mt-1 max-h-48 w-full overflow-y-auto rounded-md border border-gray-200 bg-white shadow-lg">
+                            {healthSystemResults.map(result => (
+                              <li key={result.id}>
+                                <button
+                                  onClick={() => selectHealthSystem(result)}
+                                  className="block w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                                >
+                                  {result.name}
+                                </button>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Stage</label>
+                      <select
+                        value={stageId}
+                        onChange={(e) => setStageId(e.target.value)}
+                        className={`${inputClassName} bg-white`}
+                      >
+                        {stages.map(stage => (
+                          <option key={stage.id} value={stage.id}>{stage.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Amount ($)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Expected close</label>
+                      <input
+                        type="date"
+                        value={expectedCloseDate}
+                        onChange={(e) => setExpectedCloseDate(e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Source conference</label>
+                      <select
+                        value={sourceConferenceId}
+                        onChange={(e) => setSourceConferenceId(e.target.value)}
+                        className={`${inputClassName} bg-white`}
+                      >
+                        <option value="">None</option>
+                        {conferences.map(conference => (
+                          <option key={conference.id} value={conference.id}>{conference.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Champions</label>
+                    {!selectedHealthSystem ? (
+                      <p className="text-sm text-gray-500">Choose a health system to pick champions from its attendees</p>
+                    ) : championOptions.length === 0 ? (
+                      <p className="text-sm text-gray-500">No attendees at this health system</p>
+                    ) : (
+                      <div className="max-h-36 overflow-y-auto rounded-md border border-gray-200">
+                        {championOptions.map(option => (
+                          <label
+                            key={option.id}
+                            className="flex items-center gap-x-2 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 cursor-pointer"
+                          >
+                            <Checkbox
+                              checked={championIds.includes(option.id)}
+                              onChange={() => toggleChampion(option.id)}
+                            />
+                            <span className="truncate">{option.name}</span>
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                    <textarea
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      rows={3}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+
+                <div className="mt-6 flex items-center justify-between">
+                  <div>
+                    {opportunity && can('editRecords') && (
+                      <button
+                        onClick={handleDelete}
+                        disabled={isSaving}
+                        className="px-3 py-1.5 text-sm font-medium text-red-600 hover:text-red-800 disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={onClose}
+                      className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900"
+                    >
+                      Cancel
+                    </button>
+                    {can('editRecords') && (
+                      <button
+                        onClick={handleSave}
+                        disabled={isSaving}
+                        className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+                      >
+                        {isSaving ? 'Saving...' : 'Save'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -0,0 +1,116 @@
+import { useState } from 'react'
+import { BuildingOfficeIcon, CalendarIcon } from '@heroicons/react/24/outline'
+import { Icon } from '@/components/ui/Icon'
+import { Opportunity, OpportunityStage, formatAmount } from '@/lib/opportunities'
+
+interface PipelineBoardProps {
+  stages: OpportunityStage[]
+  opportunities: Opportunity[]
+  // Called when a card is dropped on another stage's column
+  onMove: (opportunity: Opportunity, stageId: string) => void
+  onOpen: (opportunity: Opportunity) => void
+  // Whether cards can be dragged to another stage
+  canMove?: boolean
+}
+
+const formatDate = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+
+// Kanban board with one column per stage; cards are dragged between columns to change stage
+export function PipelineBoard({ stages, opportunities, onMove, onOpen, canMove = true }: PipelineBoardProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+  const [dropStageId, setDropStageId] = useState<string | null>(null)
+
+  const handleDrop = (stageId: string) => {
+    const opportunity = opportunities.find(item => item.id === draggedId)
+    if (opportunity && opportunity.stageId !== stageId) {
+      onMove(opportunity, stageId)
+    }
+    setDraggedId(null)
+    setDropStageId(null)
+  }
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {stages.map(stage => {
+        const stageOpportunities = opportunities.filter(opportunity => opportunity.stageId === stage.id)
+        const total = stageOpportunities.reduce((sum, opportunity) => sum + (opportunity.amount || 0), 0)
+
+        return (
+          <div
+            key={stage.id}
+            onDragOver={(e) => {
+              e.preventDefault()
+              setDropStageId(stage.id)
+            }}
+            onDragLeave={() => setDropStageId(prev => prev === stage.id ? null : prev)}
+            onDrop={(e) => {
+              e.preventDefault()
+              handleDrop(stage.id)
+            }}
+            className={`flex w-72 shrink-0 flex-col rounded-lg border ${dropStageId === stage.id && draggedId ? 'border-primary-300 bg-primary-50' : 'border-gray-200 bg-gray-100'}`}
+          >
+            <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+              <div className="min-w-0">
+                <h3 className="text-sm font-semibold text-gray-900 truncate">{stage.name}</h3>
+                <p className="text-xs text-gray-500">
+                  {stageOpportunities.length} · {formatAmount(total)}
+                </p>
+              </div>
+              {stage.isClosed && (
+                <span className={`ml-2 inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${stage.isWon ? 'bg-green-100 text-green-700' : 'bg-gray-200 text-gray-600'}`}>
+                  {stage.isWon ? 'Won' : 'Closed'}
+                </span>
+              )}
+            </div>
+
+            <div className="flex-1 space-y-2 p-2 min-h-[120px]">
+              {stageOpportunities.map(opportunity => (
+                <div
+                  key={opportunity.id}
+                  draggable={canMove}
+                  onDragStart={(e) => {
+                    // Some browsers only start a drag when data is set
+                    e.dataTransfer.setData('text/plain', opportunity.id)
+                    e.dataTransfer.effectAllowed = 'move'
+                    setDraggedId(opportunity.id)
+                  }}
+                  onDragEnd={() => {
+                    setDraggedId(null)
+                    setDropStageId(null)
+                  }}
+                  onClick={() => onOpen(opportunity)}
+                  className={`cursor-pointer rounded-md bg-white p-3 shadow-sm border border-gray-200 hover:border-primary-300 ${draggedId === opportunity.id ? 'opacity-50' : ''}`}
+                >
+                  <p className="text-sm font-medium text-gray-900">{opportunity.name}</p>
+                  <p className="mt-1 flex items-center text-xs text-gray-500 truncate">
+                    <Icon icon={BuildingOfficeIcon} size="xs" className="mr-1 shrink-0" />
+                    {opportunity.healthSystemName || 'Unknown health system'}
+                  </p>
+                  <div className="mt-2 flex items-center justify-between text-xs">
+                    <span className="font-medium text-gray-900">{formatAmount(opportunity.amount)}</span>
+                    {opportunity.expectedCloseDate && (
+                      <span className="flex items-center text-gray-500">
+                        <Icon icon={CalendarIcon} size="xs" className="mr-1" />
+                        {formatDate(opportunity.expectedCloseDate)}
+                      </span>
+                    )}
+                  </div>
+                  {opportunity.champions.length > 0 && (
+                    <p className="mt-1 text-xs text-gray-500 truncate">
+                      Champions: {opportunity.champions.map(champion => champion.name).join(', ')}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
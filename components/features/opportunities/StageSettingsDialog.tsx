@@ -0,0 +1,219 @@
+import { useState, useEffect, Fragment } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { ArrowUpIcon, ArrowDownIcon, TrashIcon, PlusIcon, AdjustmentsHorizontalIcon } from '@heroicons/react/24/outline'
+import { Icon } from '@/components/ui/Icon'
+import {
+  createOpportunityStage,
+  updateOpportunityStage,
+  reorderOpportunityStages,
+  deleteOpportunityStage,
+  OpportunityStage
+} from '@/lib/opportunities'
+
+interface StageSettingsDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  stages: OpportunityStage[]
+  // Called after any change so the board can reload its stages
+  onChanged: () => void
+}
+
+type StageKind = 'open' | 'won' | 'lost'
+
+const getStageKind = (stage: OpportunityStage): StageKind =>
+  !stage.isClosed ? 'open' : stage.isWon ? 'won' : 'lost'
+
+export function StageSettingsDialog({ isOpen, onClose, stages, onChanged }: StageSettingsDialogProps) {
+  const [names, setNames] = useState<Record<string, string>>({})
+  const [newStageName, setNewStageName] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setNames(Object.fromEntries(stages.map(stage => [stage.id, stage.name])))
+  }, [stages])
+
+  // Run a change, then let the board reload
+  const runChange = async (change: () => Promise<void>) => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      await change()
+      onChanged()
+    } catch (err) {
+      console.error('Failed to update stages:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update stages')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRename = (stage: OpportunityStage) => {
+    const name = (names[stage.id] || '').trim()
+    if (!name || name === stage.name) {
+      setNames(prev => ({ ...prev, [stage.id]: stage.name }))
+      return
+    }
+    runChange(() => updateOpportunityStage(stage.id, { name }))
+  }
+
+  const handleKindChange = (stage: OpportunityStage, kind: StageKind) => {
+    runChange(() => updateOpportunityStage(stage.id, { isClosed: kind !== 'open', isWon: kind === 'won' }))
+  }
+
+  const handleMove = (index: number, offset: number) => {
+    const stageIds = stages.map(stage => stage.id)
+    const [moved] = stageIds.splice(index, 1)
+    stageIds.splice(index + offset, 0, moved)
+    runChange(() => reorderOpportunityStages(stageIds))
+  }
+
+  const handleDelete = (stage: OpportunityStage) => {
+    if (!confirm(`Delete the "${stage.name}" stage?`)) return
+    runChange(() => deleteOpportunityStage(stage.id))
+  }
+
+  const handleAdd = () => {
+    const name = newStageName.trim()
+    if (!name) return
+
+    // New stages go before the closed ones so the board still ends with won/lost
+    const firstClosedIndex = stages.findIndex(stage => stage.isClosed)
+    runChange(async () => {
+      const created = await createOpportunityStage(name, stages.length)
+      if (firstClosedIndex !== -1) {
+        const stageIds = stages.map(stage => stage.id)
+        stageIds.splice(firstClosedIndex, 0, created.id)
+        await reorderOpportunityStages(stageIds)
+      }
+      setNewStageName('')
+    })
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-30" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-lg bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+                  <AdjustmentsHorizontalIcon className="h-5 w-5 text-primary-500 mr-2" />
+                  Pipeline Stages
+                </Dialog.Title>
+
+                {error && (
+                  <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+                    {error}
+                  </div>
+                )}
+
+                <ul className="space-y-2">
+                  {stages.map((stage, index) => (
+                    <li key={stage.id} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={names[stage.id] ?? stage.name}
+                        onChange={(e) => setNames(prev => ({ ...prev, [stage.id]: e.target.value }))}
+                        onBlur={() => handleRename(stage)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') e.currentTarget.blur()
+                        }}
+                        disabled={isSaving}
+                        className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                      />
+                      <select
+                        value={getStageKind(stage)}
+                        onChange={(e) => handleKindChange(stage, e.target.value as StageKind)}
+                        disabled={isSaving}
+                        className="px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white focus:ring-primary-500 focus:border-primary-500"
+                      >
+                        <option value="open">Open</option>
+                        <option value="won">Closed won</option>
+                        <option value="lost">Closed lost</option>
+                      </select>
+                      <button
+                        onClick={() => handleMove(index, -1)}
+                        disabled={isSaving || index === 0}
+                        className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                        title="Move up"
+                      >
+                        <Icon icon={ArrowUpIcon} size="sm" />
+                      </button>
+                      <button
+                        onClick={() => handleMove(index, 1)}
+                        disabled={isSaving || index === stages.length - 1}
+                        className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                        title="Move down"
+                      >
+                        <Icon icon={ArrowDownIcon} size="sm" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(stage)}
+                        disabled={isSaving}
+                        className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-30"
+                        title="Delete stage"
+                      >
+                        <Icon icon={TrashIcon} size="sm" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+
+                <div className="mt-4 flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={newStageName}
+                    onChange={(e) => setNewStageName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleAdd()
+                    }}
+                    placeholder="New stage name..."
+                    className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                  />
+                  <button
+                    onClick={handleAdd}
+                    disabled={isSaving || !newStageName.trim()}
+                    className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+                  >
+                    <Icon icon={PlusIcon} size="sm" className="mr-1" />
+                    Add
+                  </button>
+                </div>
+
+                <div className="mt-6 flex justify-end">
+                  <button
+                    onClick={onClose}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900"
+                  >
+                    Done
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
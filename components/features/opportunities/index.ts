@@ -0,0 +1,5 @@
+// Export all opportunity-related components
+export * from './PipelineBoard';
+export * from './OpportunityDialog';
+export * from './StageSettingsDialog';
+export * from './HealthSystemPipeline';
\ No newline at end of file
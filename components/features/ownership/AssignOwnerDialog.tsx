@@ -0,0 +1,164 @@
+import { useState, useEffect, Fragment } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { UserCircleIcon } from '@heroicons/react/24/outline'
+import { useAuth } from '@/hooks/useAuth'
+import { fetchTeamMembers, TeamMember } from '@/lib/tasks'
+import { applyTerritoryRules, assignOwner, inheritOwner } from '@/lib/ownership'
+
+interface AssignOwnerDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  attendeeIds: string[]
+  healthSystemIds: string[]
+  // What is being reassigned, for the dialog subtitle (e.g. "40 selected records")
+  targetLabel?: string
+  onAssigned?: () => void
+}
+
+// Choices besides a team member
+const UNASSIGNED = ''
+const INHERIT = '__inherit'
+const TERRITORY_RULES = '__territory_rules'
+
+const inputClassName = 'block w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500 bg-white'
+
+export function AssignOwnerDialog({ isOpen, onClose, attendeeIds, healthSystemIds, targetLabel, onAssigned }: AssignOwnerDialogProps) {
+  const { user } = useAuth()
+  const [ownerChoice, setOwnerChoice] = useState(UNASSIGNED)
+  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (!isOpen) return
+
+    setOwnerChoice(user?.id || UNASSIGNED)
+    setError(null)
+
+    fetchTeamMembers()
+      .then(setTeamMembers)
+      .catch(err => console.error('Failed to load team members:', err))
+  }, [isOpen, user])
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      if (ownerChoice === INHERIT) {
+        await inheritOwner(attendeeIds)
+      } else if (ownerChoice === TERRITORY_RULES) {
+        await applyTerritoryRules(healthSystemIds, true)
+      } else {
+        const ownerId = ownerChoice || null
+        if (healthSystemIds.length > 0) await assignOwner('health_systems', healthSystemIds, ownerId)
+        if (attendeeIds.length > 0) await assignOwner('attendees', attendeeIds, ownerId)
+      }
+      onAssigned?.()
+      onClose()
+    } catch (err) {
+      console.error('Failed to assign owner:', err)
+      setError(err instanceof Error ? err.message : 'Failed to assign owner')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const hint = ownerChoice === INHERIT
+    ? 'Attendees will take the owner of their health system, and follow it when it changes.'
+    : ownerChoice === TERRITORY_RULES
+      ? 'Health systems get the owner of the first territory rule they match; ones matching no rule keep their owner.'
+      : attendeeIds.length > 0
+        ? 'Attendees keep this owner when their health system is reassigned.'
+        : 'Attendees of these health systems follow the new owner unless theirs was set by hand.'
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-30" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-lg bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title className="text-lg font-medium text-gray-900 mb-1 flex items-center">
+                  <UserCircleIcon className="h-5 w-5 text-primary-500 mr-2" />
+                  Assign Owner
+                </Dialog.Title>
+                {targetLabel && (
+                  <p className="mb-4 text-sm text-gray-500">{targetLabel}</p>
+                )}
+
+                {error && (
+                  <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+                    {error}
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Owner</label>
+                  <select
+                    value={ownerChoice}
+                    onChange={(e) => setOwnerChoice(e.target.value)}
+                    className={inputClassName}
+                  >
+                    <option value={UNASSIGNED}>Unassigned</option>
+                    {attendeeIds.length > 0 && healthSystemIds.length === 0 && (
+                      <option value={INHERIT}>Same as health system</option>
+                    )}
+                    {healthSystemIds.length > 0 && attendeeIds.length === 0 && (
+                      <option value={TERRITORY_RULES}>From territory rules</option>
+                    )}
+                    {teamMembers.length === 0 && user && (
+                      <option value={user.id}>{user.email || 'Me'}</option>
+                    )}
+                    {teamMembers.map(member => (
+                      <option key={member.id} value={member.id}>
+                        {member.email}{member.id === user?.id ? ' (me)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-2 text-xs text-gray-500">{hint}</p>
+                </div>
+
+                <div className="mt-6 flex justify-end gap-2">
+                  <button
+                    onClick={onClose}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    disabled={isSaving}
+                    className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+                  >
+                    {isSaving ? 'Saving...' : 'Assign'}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -0,0 +1,428 @@
+import { useState, useEffect, Fragment } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { ArrowUpIcon, ArrowDownIcon, TrashIcon, PencilIcon, PlusIcon, MapIcon } from '@heroicons/react/24/outline'
+import { Icon } from '@/components/ui/Icon'
+import { fetchTeamMembers, TeamMember } from '@/lib/tasks'
+import {
+  fetchTerritoryRules,
+  createTerritoryRule,
+  updateTerritoryRule,
+  reorderTerritoryRules,
+  deleteTerritoryRule,
+  applyTerritoryRules,
+  describeTerritoryRule,
+  TerritoryRule,
+  TerritoryRuleInput
+} from '@/lib/ownership'
+
+interface TerritoryRulesDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  // Called after the rules were applied to existing health systems, so the page can reload
+  onApplied?: () => void
+}
+
+// The rule form keeps every field as typed text until it is saved
+interface RuleForm {
+  name: string
+  ownerId: string
+  states: string
+  minBeds: string
+  maxBeds: string
+  minRevenue: string
+  maxRevenue: string
+  isActive: boolean
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  ownerId: '',
+  states: '',
+  minBeds: '',
+  maxBeds: '',
+  minRevenue: '',
+  maxRevenue: '',
+  isActive: true,
+}
+
+const inputClassName = 'block w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500'
+
+const toForm = (rule: TerritoryRule): RuleForm => ({
+  name: rule.name,
+  ownerId: rule.ownerId,
+  states: rule.states.join(', '),
+  minBeds: rule.minBeds?.toString() ?? '',
+  maxBeds: rule.maxBeds?.toString() ?? '',
+  minRevenue: rule.minRevenue?.toString() ?? '',
+  maxRevenue: rule.maxRevenue?.toString() ?? '',
+  isActive: rule.isActive,
+})
+
+const toNumber = (value: string) => value.trim() === '' ? null : Number(value)
+
+const toInput = (form: RuleForm): TerritoryRuleInput => ({
+  name: form.name,
+  ownerId: form.ownerId,
+  states: form.states.split(','),
+  minBeds: toNumber(form.minBeds),
+  maxBeds: toNumber(form.maxBeds),
+  minRevenue: toNumber(form.minRevenue),
+  maxRevenue: toNumber(form.maxRevenue),
+  isActive: form.isActive,
+})
+
+export function TerritoryRulesDialog({ isOpen, onClose, onApplied }: TerritoryRulesDialogProps) {
+  const [rules, setRules] = useState<TerritoryRule[]>([])
+  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([])
+  // The rule being edited: its id, 'new' for a new rule, or null when the form is closed
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM)
+  const [overwrite, setOverwrite] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const loadRules = async () => {
+    setRules(await fetchTerritoryRules())
+  }
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    setEditingId(null)
+    setError(null)
+    setMessage(null)
+
+    loadRules().catch(err => {
+      console.error('Failed to load territory rules:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load territory rules')
+    })
+    fetchTeamMembers()
+      .then(setTeamMembers)
+      .catch(err => console.error('Failed to load team members:', err))
+  }, [isOpen])
+
+  // Run a change, then reload the rules
+  const runChange = async (change: () => Promise<void>) => {
+    setIsSaving(true)
+    setError(null)
+    setMessage(null)
+    try {
+      await change()
+      await loadRules()
+    } catch (err) {
+      console.error('Failed to update territory rules:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update territory rules')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const startEditing = (rule?: TerritoryRule) => {
+    setEditingId(rule ? rule.id : 'new')
+    setForm(rule ? toForm(rule) : { ...EMPTY_FORM, ownerId: teamMembers[0]?.id || '' })
+  }
+
+  const handleSave = () => {
+    if (!form.name.trim() || !form.ownerId) {
+      setError('A rule needs a name and an owner')
+      return
+    }
+
+    const input = toInput(form)
+    runChange(async () => {
+      if (editingId === 'new') {
+        await createTerritoryRule(input, rules.length)
+      } else if (editingId) {
+        await updateTerritoryRule(editingId, input)
+      }
+      setEditingId(null)
+    })
+  }
+
+  const handleToggle = (rule: TerritoryRule) => {
+    runChange(async () => {
+      await updateTerritoryRule(rule.id, { ...rule, isActive: !rule.isActive })
+    })
+  }
+
+  const handleMove = (index: number, offset: number) => {
+    const ruleIds = rules.map(rule => rule.id)
+    const [moved] = ruleIds.splice(index, 1)
+    ruleIds.splice(index + offset, 0, moved)
+    runChange(() => reorderTerritoryRules(ruleIds))
+  }
+
+  const handleDelete = (rule: TerritoryRule) => {
+    if (!confirm(`Delete the "${rule.name}" rule? Owners it already assigned are kept.`)) return
+    runChange(() => deleteTerritoryRule(rule.id))
+  }
+
+  const handleApply = () => {
+    runChange(async () => {
+      const assigned = await applyTerritoryRules(undefined, overwrite)
+      setMessage(`Assigned owners to ${assigned} ${assigned === 1 ? 'health system' : 'health systems'}`)
+      onApplied?.()
+    })
+  }
+
+  const updateForm = (updates: Partial<RuleForm>) => setForm(prev => ({ ...prev, ...updates }))
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-30" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-2xl transform overflow-hidden rounded-lg bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title className="text-lg font-medium text-gray-900 mb-1 flex items-center">
+                  <MapIcon className="h-5 w-5 text-primary-500 mr-2" />
+                  Territory Rules
+                </Dialog.Title>
+                <p className="mb-4 text-sm text-gray-500">
+                  New health systems are owned by the first active rule they match. Attendees follow their health system&apos;s owner.
+                </p>
+
+                {error && (
+                  <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+                    {error}
+                  </div>
+                )}
+                {message && (
+                  <div className="mb-4 p-3 bg-green-50 text-green-700 rounded-md text-sm">
+                    {message}
+                  </div>
+                )}
+
+                {rules.length === 0 && editingId === null && (
+                  <p className="py-4 text-center text-sm text-gray-500">No territory rules yet</p>
+                )}
+
+                <ul className="space-y-2">
+                  {rules.map((rule, index) => (
+                    <li key={rule.id} className="flex items-center gap-2 rounded-md border border-gray-200 px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={rule.isActive}
+                        onChange={() => handleToggle(rule)}
+                        disabled={isSaving}
+                        className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        title={rule.isActive ? 'Active' : 'Inactive'}
+                      />
+                      <div className={`min-w-0 flex-1 ${rule.isActive ? '' : 'opacity-50'}`}>
+                        <p className="text-sm font-medium text-gray-900 truncate">{rule.name}</p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {describeTerritoryRule(rule)} → {rule.ownerEmail || 'Unknown user'}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleMove(index, -1)}
+                        disabled={isSaving || index === 0}
+                        className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                        title="Move up"
+                      >
+                        <Icon icon={ArrowUpIcon} size="sm" />
+                      </button>
+                      <button
+                        onClick={() => handleMove(index, 1)}
+                        disabled={isSaving || index === rules.length - 1}
+                        className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                        title="Move down"
+                      >
+                        <Icon icon={ArrowDownIcon} size="sm" />
+                      </button>
+                      <button
+                        onClick={() => startEditing(rule)}
+                        disabled={isSaving}
+                        className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                        title="Edit rule"
+                      >
+                        <Icon icon={PencilIcon} size="sm" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rule)}
+                        disabled={isSaving}
+                        className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-30"
+                        title="Delete rule"
+                      >
+                        <Icon icon={TrashIcon} size="sm" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+
+                {editingId !== null ? (
+                  <div className="mt-4 space-y-3 rounded-md border border-primary-200 bg-primary-50 p-4">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Name</label>
+                        <input
+                          type="text"
+                          value={form.name}
+                          onChange={(e) => updateForm({ name: e.target.value })}
+                          placeholder="e.g. West Coast"
+                          className={inputClassName}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Owner</label>
+                        <select
+                          value={form.ownerId}
+                          onChange={(e) => updateForm({ ownerId: e.target.value })}
+                          className={`${inputClassName} bg-white`}
+                        >
+                          <option value="">Select...</option>
+                          {teamMembers.map(member => (
+                            <option key={member.id} value={member.id}>{member.email}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">States</label>
+                      <input
+                        type="text"
+                        value={form.states}
+                        onChange={(e) => updateForm({ states: e.target.value })}
+                        placeholder="e.g. CA, OR, WA (leave empty for any state)"
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Number of beds</label>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="number"
+                            min="0"
+                            value={form.minBeds}
+                            onChange={(e) => updateForm({ minBeds: e.target.value })}
+                            placeholder="Min"
+                            className={inputClassName}
+                          />
+                          <span className="text-xs text-gray-500">to</span>
+                          <input
+                            type="number"
+                            min="0"
+                            value={form.maxBeds}
+                            onChange={(e) => updateForm({ maxBeds: e.target.value })}
+                            placeholder="Max"
+                            className={inputClassName}
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Net patient revenue ($)</label>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="number"
+                            min="0"
+                            value={form.minRevenue}
+                            onChange={(e) => updateForm({ minRevenue: e.target.value })}
+                            placeholder="Min"
+                            className={inputClassName}
+                          />
+                          <span className="text-xs text-gray-500">to</span>
+                          <input
+                            type="number"
+                            min="0"
+                            value={form.maxRevenue}
+                            onChange={(e) => updateForm({ maxRevenue: e.target.value })}
+                            placeholder="Max"
+                            className={inputClassName}
+                          />
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={form.isActive}
+                          onChange={(e) => updateForm({ isActive: e.target.checked })}
+                          className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                        Active
+                      </label>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={handleSave}
+                          disabled={isSaving}
+                          className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+                        >
+                          {isSaving ? 'Saving...' : editingId === 'new' ? 'Add rule' : 'Save rule'}
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => startEditing()}
+                    disabled={isSaving}
+                    className="mt-4 w-full flex items-center justify-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none"
+                  >
+                    <Icon icon={PlusIcon} size="xs" className="mr-2" />
+                    Add rule
+                  </button>
+                )}
+
+                <div className="mt-6 flex items-center justify-between gap-4 border-t border-gray-200 pt-4">
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={handleApply}
+                      disabled={isSaving || rules.length === 0}
+                      className="px-3 py-1.5 text-sm font-medium rounded-md text-primary-700 bg-primary-100 hover:bg-primary-200 disabled:opacity-50"
+                    >
+                      Apply to existing health systems
+                    </button>
+                    <label className="flex items-center gap-2 text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={overwrite}
+                        onChange={(e) => setOverwrite(e.target.checked)}
+                        className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      Also reassign owned ones
+                    </label>
+                  </div>
+                  <button
+                    onClick={onClose}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900"
+                  >
+                    Done
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -0,0 +1,3 @@
+// Export all ownership-related components
+export * from './AssignOwnerDialog';
+export * from './TerritoryRulesDialog';
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react'
+import { PlusIcon } from '@heroicons/react/24/outline'
+import { Icon } from '@/components/ui/Icon'
+import { useAuth } from '@/hooks/useAuth'
+import { useRole } from '@/hooks/useRole'
+import { fetchEntityTasks, setTaskCompleted, deleteTask, Task, TaskTarget } from '@/lib/tasks'
+import { TaskDialog } from './TaskDialog'
+import { TaskItem } from './TaskItem'
+
+interface EntityTasksProps {
+  target: TaskTarget
+  // Name of the record, shown in the new task dialog
+  targetLabel?: string
+}
+
+// Tasks section on an attendee, health system or conference detail
+export function EntityTasks({ target, targetLabel }: EntityTasksProps) {
+  const { user } = useAuth()
+  const { can } = useRole()
+  const [tasks, setTasks] = useState<Task[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [showCompleted, setShowCompleted] = useState(false)
+
+  const { attendeeId, healthSystemId, conferenceId } = target
+
+  useEffect(() => {
+    const loadTasks = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        setTasks(await fetchEntityTasks({ attendeeId, healthSystemId, conferenceId }))
+      } catch (err) {
+        console.error('Error loading tasks:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load tasks')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadTasks()
+  }, [attendeeId, healthSystemId, conferenceId])
+
+  const handleToggle = async (task: Task) => {
+    const completedAt = task.completedAt ? null : new Date().toISOString()
+    setTasks(prev => prev.map(item => item.id === task.id ? { ...item, completedAt } : item))
+    try {
+      await setTaskCompleted(task.id, !!completedAt)
+    } catch (err) {
+      console.error('Failed to update task:', err)
+      setTasks(prev => prev.map(item => item.id === task.id ? { ...item, completedAt: task.completedAt } : item))
+      alert('Failed to update task: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    }
+  }
+
+  const handleDelete = async (task: Task) => {
+    if (!confirm('Are you sure you want to delete this task?')) return
+
+    try {
+      await deleteTask(task.id)
+      setTasks(prev => prev.filter(item => item.id !== task.id))
+    } catch (err) {
+      console.error('Failed to delete task:', err)
+      alert('Failed to delete task: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    }
+  }
+
+  const openTasks = tasks.filter(task => !task.completedAt)
+  const completedTasks = tasks.filter(task => task.completedAt)
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-900">
+          Tasks
+          {openTasks.length > 0 && <span className="ml-2 text-xs font-normal text-gray-500">{openTasks.length} open</span>}
+        </h3>
+        {can('editRecords') && (
+          <button
+            onClick={() => setIsDialogOpen(true)}
+            className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none"
+          >
+            <Icon icon={PlusIcon} size="xs" className="mr-1" />
+            Add task
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="mb-3 text-sm text-red-600">{error}</p>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading tasks...</p>
+      ) : tasks.length === 0 ? (
+        <p className="text-sm text-gray-500">No tasks yet</p>
+      ) : (
+        <>
+          <ul className="divide-y divide-gray-100">
+            {(showCompleted ? [...openTasks, ...completedTasks] : openTasks).map(task => (
+              <TaskItem
+                key={task.id}
+                task={task}
+                onToggle={handleToggle}
+                onDelete={task.createdBy === user?.id ? handleDelete : undefined}
+                showTargets={false}
+                showAssignee
+              />
+            ))}
+          </ul>
+          {completedTasks.length > 0 && (
+            <button
+              onClick={() => setShowCompleted(!showCompleted)}
+              className="mt-2 text-xs font-medium text-gray-500 hover:text-gray-700"
+            >
+              {showCompleted ? 'Hide completed' : `Show ${completedTasks.length} completed`}
+            </button>
+          )}
+        </>
+      )}
+
+      <TaskDialog
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        targets={[target]}
+        targetLabel={targetLabel}
+        onCreated={(created) => setTasks(prev => [...created, ...prev])}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,213 @@
+import { useState, useEffect, Fragment } from 'react'
+import { Dialog, Transition } from '@headlessui/react'
+import { CheckCircleIcon } from '@heroicons/react/24/outline'
+import { useAuth } from '@/hooks/useAuth'
+import { createTasks, fetchTeamMembers, getTodayKey, Task, TaskTarget, TeamMember } from '@/lib/tasks'
+
+interface TaskDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  // One task is created per target, e.g. one follow-up for each selected attendee
+  targets: TaskTarget[]
+  // What the targets are, for the dialog title (e.g. "40 attendees" or "Jane Doe")
+  targetLabel?: string
+  onCreated?: (tasks: Task[]) => void
+}
+
+const inputClassName = 'block w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500'
+
+const addDays = (days: number) => {
+  const date = new Date()
+  date.setDate(date.getDate() + days)
+  return getTodayKey(date)
+}
+
+// Quick due date picks; Friday is this week's, or next week's when today is already Friday or later
+const DUE_DATE_SHORTCUTS = [
+  { label: 'Today', getDate: () => addDays(0) },
+  { label: 'Tomorrow', getDate: () => addDays(1) },
+  { label: 'Friday', getDate: () => addDays(((5 - new Date().getDay() + 7) % 7) || 7) },
+  { label: 'Next week', getDate: () => addDays(7) },
+]
+
+export function TaskDialog({ isOpen, onClose, targets, targetLabel, onCreated }: TaskDialogProps) {
+  const { user } = useAuth()
+  const [title, setTitle] = useState('')
+  const [notes, setNotes] = useState('')
+  const [dueDate, setDueDate] = useState('')
+  const [assignedTo, setAssignedTo] = useState('')
+  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (!isOpen) return
+
+    setTitle('')
+    setNotes('')
+    setDueDate('')
+    setAssignedTo(user?.id || '')
+    setError(null)
+
+    fetchTeamMembers()
+      .then(setTeamMembers)
+      .catch(err => console.error('Failed to load team members:', err))
+  }, [isOpen, user])
+
+  const handleSave = async () => {
+    if (!title.trim()) {
+      setError('Title is required')
+      return
+    }
+
+    const assignee = teamMembers.find(member => member.id === assignedTo)
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      // A task with no target is a plain to-do for the assignee
+      const created = await createTasks((targets.length > 0 ? targets : [{}]).map(target => ({
+        ...target,
+        title,
+        notes,
+        dueDate: dueDate || null,
+        assignedTo: assignee?.id || null,
+        assignedToEmail: assignee?.email || null
+      })))
+      onCreated?.(created)
+      onClose()
+    } catch (err) {
+      console.error('Failed to create tasks:', err)
+      setError(err instanceof Error ? err.message : 'Failed to create tasks')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-30" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-lg bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title className="text-lg font-medium text-gray-900 mb-1 flex items-center">
+                  <CheckCircleIcon className="h-5 w-5 text-primary-500 mr-2" />
+                  {targets.length > 1 ? `New Task for ${targets.length} Records` : 'New Task'}
+                </Dialog.Title>
+                {targetLabel && (
+                  <p className="mb-4 text-sm text-gray-500">{targetLabel}</p>
+                )}
+
+                {error && (
+                  <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+                    {error}
+                  </div>
+                )}
+
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+                    <input
+                      type="text"
+                      value={title}
+                      onChange={(e) => setTitle(e.target.value)}
+                      placeholder="e.g. Follow up after the conference"
+                      className={inputClassName}
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Due date</label>
+                    <input
+                      type="date"
+                      value={dueDate}
+                      onChange={(e) => setDueDate(e.target.value)}
+                      className={inputClassName}
+                    />
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {DUE_DATE_SHORTCUTS.map(shortcut => (
+                        <button
+                          key={shortcut.label}
+                          onClick={() => setDueDate(shortcut.getDate())}
+                          className="rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-600 hover:bg-gray-200"
+                        >
+                          {shortcut.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Assigned to</label>
+                    <select
+                      value={assignedTo}
+                      onChange={(e) => setAssignedTo(e.target.value)}
+                      className={`${inputClassName} bg-white`}
+                    >
+                      {teamMembers.length === 0 && user && (
+                        <option value={user.id}>{user.email || 'Me'}</option>
+                      )}
+                      {teamMembers.map(member => (
+                        <option key={member.id} value={member.id}>
+                          {member.email}{member.id === user?.id ? ' (me)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                    <textarea
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      rows={3}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+
+                <div className="mt-6 flex justify-end gap-2">
+                  <button
+                    onClick={onClose}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    disabled={isSaving || !title.trim()}
+                    className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+                  >
+                    {isSaving ? 'Saving...' : targets.length > 1 ? `Create ${targets.length} tasks` : 'Create task'}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  )
+}
@@ -0,0 +1,77 @@
+import Link from 'next/link'
+import { TrashIcon } from '@heroicons/react/24/outline'
+import { Icon } from '@/components/ui/Icon'
+import { Checkbox } from '@/components/ui/checkbox'
+import { getTodayKey, Task } from '@/lib/tasks'
+
+interface TaskItemProps {
+  task: Task
+  onToggle: (task: Task) => void
+  onDelete?: (task: Task) => void
+  // Show links to the attendee, health system and conference the task is about
+  showTargets?: boolean
+  showAssignee?: boolean
+}
+
+const formatDueDate = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+
+export function TaskItem({ task, onToggle, onDelete, showTargets = true, showAssignee = false }: TaskItemProps) {
+  const isOverdue = !task.completedAt && !!task.dueDate && task.dueDate < getTodayKey()
+
+  return (
+    <li className="group flex items-start gap-x-3 py-2">
+      <div className="pt-0.5">
+        <Checkbox
+          checked={!!task.completedAt}
+          onChange={() => onToggle(task)}
+        />
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className={`text-sm ${task.completedAt ? 'text-gray-400 line-through' : 'text-gray-900'}`}>{task.title}</p>
+        {task.notes && (
+          <p className="mt-0.5 text-xs text-gray-500 whitespace-pre-wrap">{task.notes}</p>
+        )}
+        <p className="mt-0.5 text-xs text-gray-500">
+          {task.dueDate ? (
+            <span className={isOverdue ? 'font-medium text-red-600' : ''}>Due {formatDueDate(task.dueDate)}</span>
+          ) : (
+            'No due date'
+          )}
+          {showTargets && task.attendeeId && task.attendeeName && (
+            <>
+              {' · '}
+              <Link href={`/attendees/${task.attendeeId}`} className="text-primary-600 hover:underline">{task.attendeeName}</Link>
+            </>
+          )}
+          {showTargets && task.healthSystemId && task.healthSystemName && (
+            <>
+              {' · '}
+              <Link href={`/health-systems/${task.healthSystemId}`} className="text-primary-600 hover:underline">{task.healthSystemName}</Link>
+            </>
+          )}
+          {showTargets && task.conferenceId && task.conferenceName && (
+            <>
+              {' · '}
+              <Link href={`/conferences/${task.conferenceId}`} className="text-primary-600 hover:underline">{task.conferenceName}</Link>
+            </>
+          )}
+          {showAssignee && ` · ${task.assignedToEmail || 'Unassigned'}`}
+        </p>
+      </div>
+      {onDelete && (
+        <button
+          onClick={() => onDelete(task)}
+          className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500 rounded-md"
+          title="Delete task"
+        >
+          <Icon icon={TrashIcon} size="sm" />
+        </button>
+      )}
+    </li>
+  )
+}
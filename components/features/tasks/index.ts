@@ -0,0 +1,4 @@
+// Export all task-related components
+export * from './TaskDialog';
+export * from './TaskItem';
+export * from './EntityTasks';
\ No newline at end of file
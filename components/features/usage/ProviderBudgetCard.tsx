@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react'
+import { UsageProvider, EnrichmentBudget, BudgetMode, USAGE_PROVIDER_LABELS } from '@/lib/enrichmentUsage'
+
+interface ProviderBudgetCardProps {
+  provider: UsageProvider
+  // Estimated spend over the month being shown
+  spend: number
+  budget?: EnrichmentBudget
+  // Left out for users who can't change budgets
+  onSave?: (provider: UsageProvider, monthlyLimit: number | null, mode: BudgetMode) => void
+  isSaving?: boolean
+}
+
+export const formatDollars = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+
+export function ProviderBudgetCard({ provider, spend, budget, onSave, isSaving = false }: ProviderBudgetCardProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [limit, setLimit] = useState('')
+  const [mode, setMode] = useState<BudgetMode>('confirm')
+
+  useEffect(() => {
+    setLimit(budget ? String(budget.monthlyLimit) : '')
+    setMode(budget?.mode || 'confirm')
+  }, [budget, isEditing])
+
+  const usedShare = budget && budget.monthlyLimit > 0 ? Math.min(1, spend / budget.monthlyLimit) : 0
+  const isOver = !!budget && spend > budget.monthlyLimit
+
+  const handleSave = () => {
+    const value = limit.trim() === '' ? null : Number(limit)
+    if (value !== null && (!Number.isFinite(value) || value < 0)) {
+      alert('Enter a budget of zero or more, or leave it empty for no budget')
+      return
+    }
+    onSave?.(provider, value, mode)
+    setIsEditing(false)
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="text-sm font-medium text-gray-900">{USAGE_PROVIDER_LABELS[provider]}</p>
+          <p className={`mt-1 text-2xl font-semibold ${isOver ? 'text-red-600' : 'text-gray-900'}`}>{formatDollars(spend)}</p>
+        </div>
+        {onSave && !isEditing && (
+          <button
+            onClick={() => setIsEditing(true)}
+            disabled={isSaving}
+            className="text-sm font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+          >
+            {budget ? 'Edit budget' : 'Set budget'}
+          </button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="mt-3 space-y-2">
+          <label className="block text-xs font-medium text-gray-700">
+            Monthly budget (USD)
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={limit}
+              onChange={(e) => setLimit(e.target.value)}
+              placeholder="No budget"
+              className="mt-1 block w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+            />
+          </label>
+          <label className="block text-xs font-medium text-gray-700">
+            When a run would go over
+            <select
+              value={mode}
+              onChange={(e) => setMode(e.target.value as BudgetMode)}
+              className="mt-1 block w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md bg-white focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="confirm">Ask before running</option>
+              <option value="block">Don&apos;t run</option>
+            </select>
+          </label>
+          <div className="flex justify-end gap-2 pt-1">
+            <button
+              onClick={() => setIsEditing(false)}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:text-gray-900"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      ) : budget ? (
+        <div className="mt-3">
+          <div className="h-2 rounded-full bg-gray-100">
+            <div
+              className={`h-2 rounded-full ${isOver ? 'bg-red-500' : usedShare >= 0.8 ? 'bg-amber-500' : 'bg-primary-600'}`}
+              style={{ width: `${usedShare * 100}%` }}
+            />
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            of {formatDollars(budget.monthlyLimit)} a month · {budget.mode === 'block' ? 'Runs over budget are refused' : 'Runs over budget need confirming'}
+          </p>
+        </div>
+      ) : (
+        <p className="mt-3 text-xs text-gray-500">No monthly budget</p>
+      )}
+    </div>
+  )
+}
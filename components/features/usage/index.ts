@@ -0,0 +1,2 @@
+// Export all usage components
+export * from './ProviderBudgetCard';
@@ -1,9 +1,10 @@
 import { useSelection } from '@/lib/context/SelectionContext'
-import { XMarkIcon, ArrowPathIcon, TrashIcon, ArrowUpTrayIcon, ArrowDownTrayIcon, TagIcon, SparklesIcon } from '@heroicons/react/24/outline'
+import { XMarkIcon, ArrowPathIcon, TrashIcon, ArrowUpTrayIcon, ArrowDownTrayIcon, TagIcon, SparklesIcon, CheckCircleIcon, UserCircleIcon, CloudArrowDownIcon } from '@heroicons/react/24/outline'
 import { useState, useEffect } from 'react'
 import { apolloService, ApolloEnrichmentResponse, ApolloContactCreate } from '@/lib/apollo'
 import { definitiveService, DefinitiveEnrichmentResult } from '@/lib/definitive'
-import { AIEnrichmentResult, ensureColumnExists } from '@/lib/ai'
+import { fetchSettledHealthSystemIds, recordDefinitiveMatchResults, applyDefinitiveMatches, needsDefinitiveReview } from '@/lib/definitiveMatching'
+import { AIEnrichmentResult } from '@/lib/ai'
 import type { Attendee, HealthSystem, Conference } from '@/types'
 import { EnrichmentResultsDialog } from '@/components/features/ai-enrichment/EnrichmentResultsDialog'
 import { DefinitiveEnrichmentResultsDialog } from '@/components/features/ai-enrichment/DefinitiveEnrichmentResultsDialog'
@@ -13,7 +14,17 @@ import ApolloListModal from '@/components/features/apollo/ApolloListModal'
 import { PushToApolloResultsDialog } from '@/components/features/ai-enrichment/PushToApolloResultsDialog'
 import { ListModal } from '@/components/features/lists/ListModal'
 import { AddToListResultsDialog } from '@/components/features/ai-enrichment/AddToListResultsDialog'
+import { TaskDialog } from '@/components/features/tasks/TaskDialog'
+import { AssignOwnerDialog } from '@/components/features/ownership/AssignOwnerDialog'
+import { useRole } from '@/hooks/useRole'
 import { supabase } from '@/lib/supabase'
+import { logSystemActivities } from '@/lib/activities'
+import { linkApolloContacts } from '@/lib/apolloSync'
+import { fetchApolloMatchSettings, toApolloSearchParams, rankApolloCandidates, decideApolloMatch, applyApolloMatches, queueApolloMatchReviews, ApolloCandidate, ScoredApolloCandidate } from '@/lib/apolloMatching'
+import { ApolloSyncDialog } from '@/components/features/apollo/ApolloSyncDialog'
+import { createChangeBatch } from '@/lib/fieldHistory'
+import { checkEnrichmentBudget, estimateEnrichmentCost } from '@/lib/enrichmentUsage'
+import type { AIOutputField } from '@/lib/aiOutputFields'
 import type { ColumnDef } from '@tanstack/react-table'
 import { IconName } from '@/hooks/useColumnManagement'
 
@@ -22,6 +33,8 @@ interface ActionBarProps {
   onDefinitiveEnrichmentComplete?: (enrichedData: any) => void
   onAIEnrichmentComplete?: (enrichedData: any) => void
   onDelete?: (selectedItems: Array<Attendee | HealthSystem | Conference>) => void
+  onOwnerAssigned?: () => void
+  onApolloSynced?: () => void
   conferenceName?: string
   activeListId?: string | null
   onListDelete?: (listId: string) => void
@@ -36,6 +49,8 @@ export function ActionBar({
   onDefinitiveEnrichmentComplete,
   onAIEnrichmentComplete,
   onDelete, 
+  onOwnerAssigned,
+  onApolloSynced,
   conferenceName = '',
   activeListId = null,
   onListDelete,
@@ -45,6 +60,7 @@ export function ActionBar({
   isSelectingAll = false
 }: ActionBarProps) {
   const { selectedItems, deselectAll } = useSelection()
+  const { can } = useRole()
   const [isEnriching, setIsEnriching] = useState(false)
   const [isDefinitiveEnriching, setIsDefinitiveEnriching] = useState(false)
   const [isAIEnriching] = useState(false)
@@ -62,15 +78,20 @@ export function ActionBar({
   const [isAddToListModalOpen, setIsAddToListModalOpen] = useState(false)
   const [isPushResultsModalOpen, setIsPushResultsModalOpen] = useState(false)
   const [isAddToListResultsModalOpen, setIsAddToListResultsModalOpen] = useState(false)
+  const [isTaskDialogOpen, setIsTaskDialogOpen] = useState(false)
+  const [isAssignOwnerOpen, setIsAssignOwnerOpen] = useState(false)
+  const [isApolloSyncOpen, setIsApolloSyncOpen] = useState(false)
+  const [apolloSyncAttendees, setApolloSyncAttendees] = useState<Attendee[]>([])
   const [selectedListName, setSelectedListName] = useState('')
   const [enrichmentResults, setEnrichmentResults] = useState<Array<{
     attendee: Attendee
     success: boolean
+    inReview?: boolean
     error?: string
   }>>([])
   const [definitiveEnrichmentResults, setDefinitiveEnrichmentResults] = useState<DefinitiveEnrichmentResult[]>([])
   const [aiEnrichmentResults, setAIEnrichmentResults] = useState<AIEnrichmentResult[]>([])
-  const [aiEnrichmentColumnName, setAIEnrichmentColumnName] = useState('')
+  const [aiEnrichmentOutputFields, setAIEnrichmentOutputFields] = useState<AIOutputField[]>([])
   const [pushResults, setPushResults] = useState<Array<{
     attendee: Attendee
     success: boolean
@@ -202,6 +223,13 @@ export function ActionBar({
   // Check if we have mixed selections (which we'll disallow for most operations)
   const hasMixedSelection = (hasAttendees ? 1 : 0) + (hasHealthSystems ? 1 : 0) + (hasConferences ? 1 : 0) > 1
 
+  // One task per selected record, linked to it by type
+  const getTaskTargets = () => [
+    ...getSelectedAttendees().map(item => ({ attendeeId: item.id })),
+    ...getSelectedHealthSystems().map(item => ({ healthSystemId: item.id })),
+    ...getSelectedConferences().map(item => ({ conferenceId: item.id }))
+  ]
+
   const handleExportCSV = async () => {
     try {
       setIsExporting(true)
@@ -355,211 +383,30 @@ export function ActionBar({
         (message) => setError(message)
       ) as Attendee[]
 
-      // Helper function to calculate string similarity (Levenshtein distance based)
-      const stringSimilarity = (str1: string, str2: string): number => {
-        const len1 = str1.length
-        const len2 = str2.length
-        const matrix = Array(len2 + 1).fill(null).map(() => Array(len1 + 1).fill(null))
-        
-        for (let i = 0; i <= len1; i++) matrix[0][i] = i
-        for (let j = 0; j <= len2; j++) matrix[j][0] = j
-        
-        for (let j = 1; j <= len2; j++) {
-          for (let i = 1; i <= len1; i++) {
-            const substitutionCost = str1[i - 1] === str2[j - 1] ? 0 : 1
-            matrix[j][i] = Math.min(
-              matrix[j][i - 1] + 1, // deletion
-              matrix[j - 1][i] + 1, // insertion
-              matrix[j - 1][i - 1] + substitutionCost // substitution
-            )
-          }
-        }
-        
-        const maxLen = Math.max(len1, len2)
-        return maxLen === 0 ? 1 : (maxLen - matrix[len2][len1]) / maxLen
+      // Hold the run to this month's Apollo budget
+      const budgetCheck = await checkEnrichmentBudget('apollo', estimateEnrichmentCost('apollo', finalAttendees.length))
+      if (budgetCheck.status === 'blocked') {
+        setError(budgetCheck.message || 'This month\'s Apollo budget is used up')
+        return
       }
-
-      // Helper function to check if contact is oncology/cancer related
-      const isOncologyRelated = (contact: any): boolean => {
-        const oncologyKeywords = [
-          'oncology', 'oncologist', 'cancer', 'tumor', 'chemotherapy', 'radiation',
-          'hematology', 'leukemia', 'lymphoma', 'melanoma', 'carcinoma',
-          'oncological', 'chemotherap', 'radiolog', 'patholog', 'surgical oncolog',
-          'medical oncolog', 'radiation oncolog', 'hematolog oncolog',
-          'gynecologic oncolog', 'pediatric oncolog', 'neuro-oncolog'
-        ]
-        
-        const searchText = [
-          contact.title || '',
-          contact.headline || '',
-          contact.organization?.name || '',
-          contact.organization?.industry || '',
-          ...(contact.employment_history || []).map((job: any) => `${job.title} ${job.organization_name}`)
-        ].join(' ').toLowerCase()
-        
-        return oncologyKeywords.some(keyword => searchText.includes(keyword))
+      if (budgetCheck.status === 'confirm' && !confirm(budgetCheck.message)) {
+        setError(null)
+        return
       }
 
-      // Helper function to find best match for an attendee
-      const findBestMatch = (attendee: any, allMatches: any[]) => {
-        if (!allMatches || allMatches.length === 0) return null
-        
-        // Filter matches to only those that could be for this attendee
-        // Look for candidates tagged with similar contact info
-        const candidatesForThisAttendee = allMatches.filter((match: any) => {
-          if (!match._originalContact) return false
-          
-          const original = match._originalContact
-          
-          // Check if this match was found for this specific attendee
-          const firstNameMatch = stringSimilarity(
-            original.firstName?.toLowerCase() || '',
-            attendee.first_name.toLowerCase()
-          ) > 0.7
-          
-          const lastNameMatch = stringSimilarity(
-            original.lastName?.toLowerCase() || '',
-            attendee.last_name.toLowerCase()
-          ) > 0.7
-          
-          return firstNameMatch && lastNameMatch
-        })
-        
-        console.log(`\n=== Evaluating ${candidatesForThisAttendee.length} candidates for ${attendee.first_name} ${attendee.last_name} ===`)
-        console.log(`Company: ${attendee.company || 'N/A'}`)
-        console.log(`Title: ${attendee.title || 'N/A'}`)
-        
-        if (candidatesForThisAttendee.length === 0) {
-          return null
-        }
-        
-        // Score each potential match
-        const scoredMatches = candidatesForThisAttendee.map(match => {
-          let score = 0
-          let details: string[] = []
-          
-          // 1. Name similarity (40% of total score)
-          const firstNameSimilarity = stringSimilarity(
-            match.first_name?.toLowerCase() || '', 
-            attendee.first_name.toLowerCase()
-          )
-          const lastNameSimilarity = stringSimilarity(
-            match.last_name?.toLowerCase() || '', 
-            attendee.last_name.toLowerCase()
-          )
-          const nameScore = (firstNameSimilarity * 0.4 + lastNameSimilarity * 0.6) * 40
-          score += nameScore
-          details.push(`Name: ${nameScore.toFixed(1)}`)
-          
-          // 2. Company similarity (25% of total score)
-          let companyScore = 0
-          if (attendee.company && match.organization?.name) {
-            const companyName = attendee.company.toLowerCase()
-            const matchCompanyName = match.organization.name.toLowerCase()
-            
-            if (companyName === matchCompanyName) {
-              companyScore = 25 // Perfect match
-            } else if (companyName.includes(matchCompanyName) || matchCompanyName.includes(companyName)) {
-              companyScore = 20 // Partial match
-            } else {
-              const companySimilarity = stringSimilarity(companyName, matchCompanyName)
-              companyScore = companySimilarity * 15 // Fuzzy match
-            }
-          }
-          score += companyScore
-          details.push(`Company: ${companyScore.toFixed(1)}`)
-          
-          // 3. Oncology relevance (25% of total score - high priority)
-          let oncologyScore = 0
-          if (isOncologyRelated(match)) {
-            oncologyScore = 25
-            details.push(`Oncology: ${oncologyScore}`)
-          } else {
-            details.push(`Oncology: 0`)
-          }
-          score += oncologyScore
-          
-          // 4. Title relevance (7% of total score)
-          let titleScore = 0
-          if (attendee.title && match.title) {
-            const titleSimilarity = stringSimilarity(
-              attendee.title.toLowerCase(), 
-              match.title.toLowerCase()
-            )
-            titleScore = titleSimilarity * 7
-          }
-          score += titleScore
-          details.push(`Title: ${titleScore.toFixed(1)}`)
-          
-          // 5. Employment recency bonus (3% of total score)
-          let recencyScore = 0
-          if (match.employment_history && match.employment_history.length > 0) {
-            const currentJob = match.employment_history.find((job: any) => job.current)
-            if (currentJob) {
-              recencyScore = 3
-            } else {
-              // Check if most recent job is within last 2 years
-              const mostRecent = match.employment_history
-                .filter((job: any) => job.end_date)
-                .sort((a: any, b: any) => new Date(b.end_date).getTime() - new Date(a.end_date).getTime())[0]
-              
-              if (mostRecent) {
-                const endDate = new Date(mostRecent.end_date)
-                const twoYearsAgo = new Date()
-                twoYearsAgo.setFullYear(twoYearsAgo.getFullYear() - 2)
-                
-                if (endDate > twoYearsAgo) {
-                  recencyScore = 1.5
-                }
-              }
-            }
-          }
-          score += recencyScore
-          details.push(`Recency: ${recencyScore}`)
-          
-          return {
-            match,
-            score,
-            details: details.join(', '),
-            breakdown: {
-              nameScore,
-              companyScore,
-              oncologyScore,
-              titleScore,
-              recencyScore
-            }
-          }
-        })
-        
-        // Sort by score (highest first) and get top 5
-        const topCandidates = scoredMatches
-          .sort((a, b) => b.score - a.score)
-          .slice(0, 5)
-        
-        // Return the best match if it meets minimum criteria
-        const bestCandidate = topCandidates[0]
-        
-        if (!bestCandidate) return null
-        
-        // Minimum thresholds for acceptance
-        const minNameScore = 30 // At least 75% name similarity (30/40)
-        const minTotalScore = 35 // At least 35% overall confidence
-        
-        if (bestCandidate.breakdown.nameScore >= minNameScore && bestCandidate.score >= minTotalScore) {
-          console.log(`✅ Selected: ${bestCandidate.match.first_name} ${bestCandidate.match.last_name} (Score: ${bestCandidate.score.toFixed(1)})`)
-          return bestCandidate.match
-        } else {
-          return null
-        }
-      }
+      // Score candidates with the workspace's match settings; low-confidence matches go to the review queue
+      const matchSettings = await fetchApolloMatchSettings()
 
       // Batch processing for large sets of attendees
       const BATCH_SIZE = 20
       const allResults: Array<{
         attendee: Attendee
         success: boolean
+        inReview?: boolean
         error?: string
       }> = []
+      const acceptedMatches: Array<{ attendee: Attendee, match: ApolloCandidate }> = []
+      const reviews: Array<{ attendeeId: string, candidates: ScoredApolloCandidate[] }> = []
       let totalEnriched = 0
       let failedBatches = 0
       let processedAttendees = 0
@@ -576,15 +423,7 @@ export function ActionBar({
           // No need to load placeholder data since we already have real data from loadRealDataForItems
           
           // Prepare the data for Apollo API
-          const details = batchAttendees.map((attendee: Attendee) => ({
-            firstName: attendee.first_name,
-            lastName: attendee.last_name,
-            organization: attendee.company || '',
-            title: attendee.title || '',
-            email: attendee.email || '',
-            phone: attendee.phone || '',
-            linkedinUrl: attendee.linkedin_url || ''
-          }))
+          const details = batchAttendees.map(toApolloSearchParams)
           
           console.log(`📤 Sending batch ${Math.floor(i/BATCH_SIZE) + 1} to Apollo:`, {
             batchSize: details.length,
@@ -599,15 +438,25 @@ export function ActionBar({
           
           // Process results for this batch using improved matching
           const batchResults = batchAttendees.map(attendee => {
-            const match = findBestMatch(attendee, enrichedData?.matches || [])
+            const candidates = rankApolloCandidates(attendee, enrichedData?.matches || [], matchSettings)
+            const decision = decideApolloMatch(candidates, matchSettings)
             
-            if (match) {
+            if (decision === 'accept') {
               totalEnriched++
+              acceptedMatches.push({ attendee, match: candidates[0].match })
               return {
                 attendee,
                 success: true,
                 error: undefined
               }
+            } else if (decision === 'review') {
+              reviews.push({ attendeeId: attendee.id, candidates })
+              return {
+                attendee,
+                success: false,
+                inReview: true,
+                error: `Low-confidence match (score ${Math.round(candidates[0].score)}) sent to review`
+              }
             } else {
               return {
                 attendee,
@@ -640,10 +489,26 @@ export function ActionBar({
         }
       }
       
+      // Save the confident matches and queue the rest for review
+      setError('Saving matches...')
+      await applyApolloMatches(acceptedMatches)
+      await queueApolloMatchReviews(reviews)
+      setError(null)
+      
       // Set overall results
       setEnrichmentResults(allResults)
       setIsSuccessModalOpen(true)
       
+      // Record the run on each attendee's timeline
+      logSystemActivities(allResults.map(result => ({
+        attendeeId: result.attendee.id,
+        type: 'enrichment',
+        summary: result.success
+          ? 'Apollo enrichment found a match'
+          : result.inReview ? 'Apollo enrichment sent a low-confidence match to review' : `Apollo enrichment failed: ${result.error || 'No match found'}`,
+        details: { source: 'apollo', success: result.success }
+      })))
+      
       // Clear selection after successful enrichment
       deselectAll()
       
@@ -688,11 +553,23 @@ export function ActionBar({
       }
 
       // Load real data for any placeholder health systems
-      const finalHealthSystems = await loadRealDataForItems(
+      const loadedHealthSystems = await loadRealDataForItems(
         selectedHealthSystems,
         (message) => setError(message)
       ) as HealthSystem[]
 
+      // Skip health systems whose Definitive link was confirmed in review
+      const settledIds = await fetchSettledHealthSystemIds(loadedHealthSystems.map(system => system.id))
+      const finalHealthSystems = loadedHealthSystems.filter(system => !settledIds.has(system.id))
+
+      if (finalHealthSystems.length === 0) {
+        setError('All selected health systems already have a confirmed Definitive link')
+        return
+      }
+
+      // Group the whole run in the change history so it can be reverted at once
+      const changeBatchId = await createChangeBatch('definitive', 'Definitive enrichment')
+
       // Process in batches for better efficiency
       const BATCH_SIZE = 20
       const allResults: DefinitiveEnrichmentResult[] = []
@@ -714,62 +591,28 @@ export function ActionBar({
           // Call Definitive service to enrich this batch of health systems
           const batchEnrichedData = await definitiveService.enrichHealthSystems(batchSystems)
           
+          // Queue unsure matches and misses for review instead of applying them
+          await recordDefinitiveMatchResults(batchEnrichedData)
+          
           // Add batch results to overall results
-          allResults.push(...batchEnrichedData)
+          allResults.push(...batchEnrichedData.map(result => needsDefinitiveReview(result) ? {
+            ...result,
+            success: false,
+            inReview: true,
+            error: result.success
+              ? `Low-confidence match (${Math.round((result.confidence ?? 0) * 100)}%) sent to review`
+              : `${result.error || 'No matching data found'}, sent to review`
+          } : result))
           
-          // Update counts
-          successCount += batchEnrichedData.filter(result => result.success).length
-          failCount += batchEnrichedData.filter(result => !result.success).length
+          // The confident matches of this batch
+          const successfullyEnriched = batchEnrichedData.filter(result => !needsDefinitiveReview(result))
           
-          // Process successful enrichments for this batch
-          const successfullyEnriched = batchEnrichedData.filter(result => result.success)
+          // Update counts
+          successCount += successfullyEnriched.length
+          failCount += batchEnrichedData.length - successfullyEnriched.length
           
-          if (successfullyEnriched.length > 0) {
-            try {
-              // Define the required columns with their types
-              const requiredColumns = [
-                { name: 'ambulatory_ehr', type: 'text' },
-                { name: 'net_patient_revenue', type: 'number' },
-                { name: 'number_of_beds', type: 'number' },
-                { name: 'state', type: 'text' },
-                { name: 'number_of_hospitals_in_network', type: 'number' }
-              ];
-              
-              // Ensure all required columns exist before updating data
-              for (const column of requiredColumns) {
-                const columnCreated = await ensureColumnExists('health_systems', column.name, column.type);
-                console.log(`Column creation for health_systems.${column.name} ${columnCreated ? 'succeeded' : 'failed'}`);
-              }
-              
-              // Update each successfully enriched health system
-              for (const result of successfullyEnriched) {
-                const { healthSystem } = result
-                
-                // Update the health system in Supabase with all the fields
-                const { error } = await supabase
-                  .from('health_systems')
-                  .update({
-                    definitive_id: healthSystem.definitive_id,
-                    website: healthSystem.website,
-                    address: healthSystem.address,
-                    city: healthSystem.city,
-                    state: healthSystem.state,
-                    zip: healthSystem.zip,
-                    ambulatory_ehr: healthSystem.ambulatory_ehr,
-                    net_patient_revenue: healthSystem.net_patient_revenue,
-                    number_of_beds: healthSystem.number_of_beds,
-                    number_of_hospitals_in_network: healthSystem.number_of_hospitals_in_network
-                  })
-                  .eq('id', healthSystem.id)
-                  
-                if (error) {
-                  console.error(`Error updating health system ${healthSystem.id}:`, error);
-                }
-              }
-            } catch (updateError) {
-              console.error('Error updating health systems in batch:', updateError)
-            }
-          }
+          // Write the confident matches to their health systems
+          await applyDefinitiveMatches(batchEnrichedData, changeBatchId)
           
         } catch (batchError) {
           console.error(`Error processing batch ${Math.floor(i/BATCH_SIZE) + 1}:`, batchError)
@@ -795,6 +638,16 @@ export function ActionBar({
       setDefinitiveEnrichmentResults(allResults)
       setIsDefinitiveSuccessModalOpen(true)
       
+      // Record the run on each health system's timeline
+      logSystemActivities(allResults.map(result => ({
+        healthSystemId: result.healthSystem.id,
+        type: 'enrichment',
+        summary: result.success
+          ? 'Enriched from Definitive'
+          : result.inReview ? 'Definitive enrichment sent the match to review' : `Definitive enrichment failed: ${result.error || 'No match found'}`,
+        details: { source: 'definitive', success: result.success }
+      })))
+      
       // Clear selection after successful enrichment
       deselectAll()
       
@@ -838,145 +691,27 @@ export function ActionBar({
     }
   }
 
-  const handleAIEnrichmentComplete = async (results: AIEnrichmentResult[], columnName: string) => {
-    try {
-      setAIEnrichmentResults(results)
-      setAIEnrichmentColumnName(columnName)
-      setIsAISuccessModalOpen(true)
-      
-      // Clear selection after successful enrichment
-      deselectAll()
-      
-      // Update items in the database with the enriched data
-      const successfullyEnriched = results.filter(result => result.success)
-      
-      if (successfullyEnriched.length > 0) {
-        try {
-          // Group by item type
-          const attendeeItems = successfullyEnriched.filter(result => 'first_name' in result.item && 'last_name' in result.item)
-          const healthSystemItems = successfullyEnriched.filter(result => 'name' in result.item && !('first_name' in result.item) && !('start_date' in result.item))
-          const conferenceItems = successfullyEnriched.filter(result => 'name' in result.item && 'start_date' in result.item)
-          
-          // Determine column type based on the first successful result
-          let columnType = 'text'
-          if (successfullyEnriched.length > 0) {
-            const firstValue = successfullyEnriched[0].enrichedData[columnName]
-            if (typeof firstValue === 'boolean') {
-              columnType = 'boolean'
-            } else if (typeof firstValue === 'number') {
-              columnType = 'number'
-            }
-          }
-          
-          // Log diagnostics
-          console.log('AI Enrichment results:', {
-            total: results.length,
-            successful: successfullyEnriched.length,
-            attendees: attendeeItems.length,
-            healthSystems: healthSystemItems.length,
-            conferences: conferenceItems.length,
-            columnName,
-            columnType
-          });
-          
-          // Process attendees
-          if (attendeeItems.length > 0) {
-            // First ensure the column exists in the attendees table
-            const columnCreated = await ensureColumnExists('attendees', columnName, columnType)
-            console.log(`Column creation for attendees ${columnCreated ? 'succeeded' : 'failed'}`);
-            
-            if (columnCreated) {
-              // Now update each attendee
-              for (const result of attendeeItems) {
-                const { item, enrichedData } = result
-                
-                try {
-                  // Update the attendee in Supabase
-                  const { error } = await supabase
-                    .from('attendees')
-                    .update({ [columnName]: enrichedData[columnName] })
-                    .eq('id', item.id)
-                  
-                  if (error) {
-                    console.error(`Error updating attendee ${item.id}:`, error);
-                  }
-                } catch (updateErr) {
-                  console.error(`Error updating attendee ${item.id}:`, updateErr);
-                }
-              }
-            }
-          }
-          
-          // Process health systems
-          if (healthSystemItems.length > 0) {
-            // First ensure the column exists in the health_systems table
-            const columnCreated = await ensureColumnExists('health_systems', columnName, columnType)
-            console.log(`Column creation for health_systems ${columnCreated ? 'succeeded' : 'failed'}`);
-            
-            if (columnCreated) {
-              // Now update each health system
-              for (const result of healthSystemItems) {
-                const { item, enrichedData } = result
-                
-                try {
-                  // Update the health system in Supabase
-                  const { error } = await supabase
-                    .from('health_systems')
-                    .update({ [columnName]: enrichedData[columnName] })
-                    .eq('id', item.id)
-                  
-                  if (error) {
-                    console.error(`Error updating health system ${item.id}:`, error);
-                  }
-                } catch (updateErr) {
-                  console.error(`Error updating health system ${item.id}:`, updateErr);
-                }
-              }
-            }
-          }
-          
-          // Process conferences
-          if (conferenceItems.length > 0) {
-            // First ensure the column exists in the conferences table
-            const columnCreated = await ensureColumnExists('conferences', columnName, columnType)
-            console.log(`Column creation for conferences ${columnCreated ? 'succeeded' : 'failed'}`);
-            
-            if (columnCreated) {
-              // Now update each conference
-              for (const result of conferenceItems) {
-                const { item, enrichedData } = result
-                
-                try {
-                  // Update the conference in Supabase
-                  const { error } = await supabase
-                    .from('conferences')
-                    .update({ [columnName]: enrichedData[columnName] })
-                    .eq('id', item.id)
-                  
-                  if (error) {
-                    console.error(`Error updating conference ${item.id}:`, error);
-                  }
-                } catch (updateErr) {
-                  console.error(`Error updating conference ${item.id}:`, updateErr);
-                }
-              }
-            }
-          }
-          
-          // Call the completion handler if provided
-          if (onAIEnrichmentComplete) {
-            onAIEnrichmentComplete(results)
-          }
-        } catch (updateError) {
-          console.error('Error updating items with AI enrichment:', updateError)
-        }
-      }
-    } catch (error) {
-      console.error('Error in handleAIEnrichmentComplete:', error);
+  // The dialog has already written the job's values to the records by the time this runs
+  const handleAIEnrichmentComplete = (results: AIEnrichmentResult[], outputFields: AIOutputField[]) => {
+    setAIEnrichmentResults(results)
+    setAIEnrichmentOutputFields(outputFields)
+    setIsAISuccessModalOpen(true)
+    
+    // Clear selection after successful enrichment
+    deselectAll()
+    
+    // Call the completion handler if provided
+    if (onAIEnrichmentComplete && results.some(result => result.success)) {
+      onAIEnrichmentComplete(results)
     }
   }
 
   const handleBulkDelete = async () => {
+    if (!can('bulkDelete')) {
+      setError('Only admins can bulk delete')
+      return
+    }
+
     try {
       setIsDeleting(true)
       setError(null)
@@ -1009,6 +744,31 @@ export function ActionBar({
     }
   }
 
+  // Pull title, company and email changes from the selected attendees' Apollo contacts, reviewed in a dialog first
+  const handleBulkApolloSync = async () => {
+    try {
+      setError(null)
+
+      if (!hasAttendees || hasMixedSelection) {
+        setError('Please select only attendees to sync from Apollo')
+        return
+      }
+
+      // Load real data for any placeholder attendees, since the sync needs their Apollo contact IDs
+      const finalAttendees = await loadRealDataForItems(
+        getSelectedAttendees(),
+        (message) => setError(message)
+      ) as Attendee[]
+      setError(null)
+
+      setApolloSyncAttendees(finalAttendees)
+      setIsApolloSyncOpen(true)
+    } catch (err) {
+      console.error('Error preparing Apollo sync:', err)
+      setError(err instanceof Error ? err.message : 'Failed to prepare Apollo sync')
+    }
+  }
+
   const handleBulkPushToApollo = async () => {
     try {
       setError(null)
@@ -1312,10 +1072,15 @@ export function ActionBar({
             organization: attendee.health_systems?.name || attendee.company || '',
             phone: attendee.phone || '',
             linkedinUrl: attendee.linkedin_url || '',
+            apolloContactId: attendee.apollo_contact_id,
           }))
 
           // Push contacts to Apollo with the selected list name as the label
-          await apolloService.pushContactsToApollo(contacts, listName)
+          const apolloResults = await apolloService.pushContactsToApollo(contacts, listName)
+
+          // Remember which Apollo contact each attendee is, so changes made there can be pulled back
+          await linkApolloContacts(batchAttendees.map(attendee => attendee.id), apolloResults)
+            .catch(linkError => console.error('Failed to link Apollo contacts:', linkError))
           
           // All contacts in this batch were successfully pushed
           const batchResults = batchAttendees.map(attendee => ({
@@ -1349,6 +1114,14 @@ export function ActionBar({
       setPushResults(allResults)
       setIsPushResultsModalOpen(true)
       
+      // Record the push on each pushed attendee's timeline
+      logSystemActivities(allResults.filter(result => result.success).map(result => ({
+        attendeeId: result.attendee.id,
+        type: 'apollo_push',
+        summary: `Pushed to Apollo list "${listName}"`,
+        details: { list_name: listName }
+      })))
+      
       // Clear selection after successful push
       deselectAll()
       
@@ -1454,7 +1227,7 @@ export function ActionBar({
             {(selectedItems.length > 0 || isSelectingAll) && (
               <>
                 {/* Show enrich button only for attendees */}
-                {hasAttendees && !hasMixedSelection && (
+                {hasAttendees && !hasMixedSelection && can('runPaidEnrichment') && (
                   <button 
                     onClick={handleBulkEnrich}
                     disabled={isEnriching || isSelectingAll}
@@ -1470,7 +1243,7 @@ export function ActionBar({
                 )}
 
                 {/* Show Definitive Healthcare enrich button only for health systems */}
-                {hasHealthSystems && !hasMixedSelection && (
+                {hasHealthSystems && !hasMixedSelection && can('runPaidEnrichment') && (
                   <button 
                     onClick={handleBulkDefinitiveEnrich}
                     disabled={isDefinitiveEnriching || isSelectingAll}
@@ -1486,18 +1259,20 @@ export function ActionBar({
                 )}
 
                 {/* AI Enrichment button for all item types */}
-                <button 
-                  onClick={handleBulkAIEnrich}
-                  disabled={isAIEnriching || isSelectingAll}
-                  className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-purple-700 bg-purple-100 hover:bg-purple-200 focus:outline-none disabled:opacity-50"
-                >
-                  {isAIEnriching ? (
-                    <span className="animate-spin mr-2">⌛</span>
-                  ) : (
-                    <SparklesIcon className="h-4 w-4 mr-2" />
-                  )}
-                  Enrich with AI
-                </button>
+                {can('runAIEnrichment') && (
+                  <button 
+                    onClick={handleBulkAIEnrich}
+                    disabled={isAIEnriching || isSelectingAll}
+                    className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-purple-700 bg-purple-100 hover:bg-purple-200 focus:outline-none disabled:opacity-50"
+                  >
+                    {isAIEnriching ? (
+                      <span className="animate-spin mr-2">⌛</span>
+                    ) : (
+                      <SparklesIcon className="h-4 w-4 mr-2" />
+                    )}
+                    Enrich with AI
+                  </button>
+                )}
 
                 {/* Export available for all types */}
                 <button 
@@ -1514,7 +1289,7 @@ export function ActionBar({
                 </button>
 
                 {/* Push to Apollo only for attendees */}
-                {hasAttendees && !hasMixedSelection && (
+                {hasAttendees && !hasMixedSelection && can('editRecords') && (
                   <button 
                     onClick={handleBulkPushToApollo}
                     disabled={isPushing || isSelectingAll}
@@ -1529,8 +1304,20 @@ export function ActionBar({
                   </button>
                 )}
 
+                {/* Sync from Apollo only for attendees */}
+                {hasAttendees && !hasMixedSelection && can('editRecords') && (
+                  <button 
+                    onClick={handleBulkApolloSync}
+                    disabled={isSelectingAll}
+                    className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-cyan-700 bg-cyan-100 hover:bg-cyan-200 focus:outline-none disabled:opacity-50"
+                  >
+                    <CloudArrowDownIcon className="h-4 w-4 mr-2" />
+                    Sync from Apollo
+                  </button>
+                )}
+
                 {/* Add to List only for attendees */}
-                {hasAttendees && !hasMixedSelection && (
+                {hasAttendees && !hasMixedSelection && can('editRecords') && (
                   <button 
                     onClick={handleBulkAddToList}
                     disabled={isAddingToList || isSelectingAll}
@@ -1545,23 +1332,49 @@ export function ActionBar({
                   </button>
                 )}
 
-                {/* Delete available for all types */}
-                <button 
-                  onClick={handleBulkDelete}
-                  disabled={isDeleting || isSelectingAll}
-                  className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200 focus:outline-none disabled:opacity-50"
-                >
-                  {isDeleting ? (
-                    <span className="animate-spin mr-2">⌛</span>
-                  ) : (
-                    <TrashIcon className="h-4 w-4 mr-2" />
-                  )}
-                  Delete
-                </button>
+                {/* Tasks for all types */}
+                {can('editRecords') && (
+                  <button 
+                    onClick={() => setIsTaskDialogOpen(true)}
+                    disabled={isSelectingAll}
+                    className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-teal-700 bg-teal-100 hover:bg-teal-200 focus:outline-none disabled:opacity-50"
+                  >
+                    <CheckCircleIcon className="h-4 w-4 mr-2" />
+                    Add Task
+                  </button>
+                )}
+
+                {/* Owners for attendees and health systems */}
+                {(hasAttendees || hasHealthSystems) && !hasMixedSelection && can('assignOwners') && (
+                  <button 
+                    onClick={() => setIsAssignOwnerOpen(true)}
+                    disabled={isSelectingAll}
+                    className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-orange-700 bg-orange-100 hover:bg-orange-200 focus:outline-none disabled:opacity-50"
+                  >
+                    <UserCircleIcon className="h-4 w-4 mr-2" />
+                    Assign Owner
+                  </button>
+                )}
+
+                {/* Bulk delete for all types, admins only */}
+                {can('bulkDelete') && (
+                  <button 
+                    onClick={handleBulkDelete}
+                    disabled={isDeleting || isSelectingAll}
+                    className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200 focus:outline-none disabled:opacity-50"
+                  >
+                    {isDeleting ? (
+                      <span className="animate-spin mr-2">⌛</span>
+                    ) : (
+                      <TrashIcon className="h-4 w-4 mr-2" />
+                    )}
+                    Delete
+                  </button>
+                )}
               </>
             )}
             
-            {activeListId && onListDelete && (
+            {activeListId && onListDelete && can('editRecords') && (
               <button 
                 onClick={handleDeleteCurrentList}
                 disabled={isDeletingList}
@@ -1633,7 +1446,7 @@ export function ActionBar({
           setAiEnrichmentItems([]) // Clear the processed items when dialog closes
         }}
         items={aiEnrichmentItems.length > 0 ? aiEnrichmentItems : selectedItems}
-        onEnrichmentComplete={(results, columnName) => handleAIEnrichmentComplete(results, columnName)}
+        onEnrichmentComplete={(results, outputFields) => handleAIEnrichmentComplete(results, outputFields)}
         allColumns={allColumns}
         getFieldsForAllColumns={getFieldsForAllColumns}
       />
@@ -1642,7 +1455,40 @@ export function ActionBar({
         isOpen={isAISuccessModalOpen}
         onClose={() => setIsAISuccessModalOpen(false)}
         results={aiEnrichmentResults}
-        columnName={aiEnrichmentColumnName}
+        outputFields={aiEnrichmentOutputFields}
+      />
+
+      <TaskDialog
+        isOpen={isTaskDialogOpen}
+        onClose={() => setIsTaskDialogOpen(false)}
+        targets={getTaskTargets()}
+        targetLabel={`${selectedItems.length} selected ${selectedItems.length === 1 ? 'record' : 'records'}`}
+        onCreated={() => deselectAll()}
+      />
+
+      <ApolloSyncDialog
+        isOpen={isApolloSyncOpen}
+        onClose={() => {
+          setIsApolloSyncOpen(false)
+          setApolloSyncAttendees([])
+        }}
+        attendees={apolloSyncAttendees}
+        onSynced={() => {
+          deselectAll()
+          onApolloSynced?.()
+        }}
+      />
+
+      <AssignOwnerDialog
+        isOpen={isAssignOwnerOpen}
+        onClose={() => setIsAssignOwnerOpen(false)}
+        attendeeIds={getSelectedAttendees().map(item => item.id)}
+        healthSystemIds={getSelectedHealthSystems().map(item => item.id)}
+        targetLabel={`${selectedItems.length} selected ${selectedItems.length === 1 ? 'record' : 'records'}`}
+        onAssigned={() => {
+          deselectAll()
+          onOwnerAssigned?.()
+        }}
       />
     </>
   )
@@ -0,0 +1,219 @@
+import { useState } from 'react'
+import { StarIcon as StarOutlineIcon, TrashIcon, CheckIcon, XMarkIcon, PlusIcon, UsersIcon, ArrowPathIcon } from '@heroicons/react/24/outline'
+import { StarIcon } from '@heroicons/react/24/solid'
+import type { UseSavedViewsResult } from '@/hooks/useSavedViews'
+import type { SavedViewState } from '@/lib/savedViews'
+
+interface SavedViewsNavProps {
+  savedViews: UseSavedViewsResult
+  currentViewState: SavedViewState
+  allLabel: string
+}
+
+function classNames(...classes: string[]) {
+  return classes.filter(Boolean).join(' ')
+}
+
+export function SavedViewsNav({ savedViews, currentViewState, allLabel }: SavedViewsNavProps) {
+  const { views, activeViewId, defaultViewId, currentUserId, selectView, saveView, updateView, deleteView, setDefault } = savedViews
+  const [isCreating, setIsCreating] = useState(false)
+  const [newViewName, setNewViewName] = useState('')
+  const [newViewShared, setNewViewShared] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleCreateCancel = () => {
+    setIsCreating(false)
+    setNewViewName('')
+    setNewViewShared(false)
+  }
+
+  const handleCreateSave = async () => {
+    if (isSaving || !newViewName.trim()) {
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await saveView(newViewName, newViewShared, currentViewState)
+      handleCreateCancel()
+    } catch (err) {
+      console.error('Failed to save view:', err)
+      alert('Failed to save view: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleUpdate = async (viewId: string, e: React.MouseEvent) => {
+    e.stopPropagation() // Prevent triggering the view click handler
+
+    if (isSaving) return
+
+    setIsSaving(true)
+    try {
+      await updateView(viewId, currentViewState)
+    } catch (err) {
+      console.error('Failed to update view:', err)
+      alert('Failed to update view: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (viewId: string, e: React.MouseEvent) => {
+    e.stopPropagation() // Prevent triggering the view click handler
+
+    if (isSaving || !confirm('Are you sure you want to delete this view? This action cannot be undone.')) {
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await deleteView(viewId)
+    } catch (err) {
+      console.error('Failed to delete view:', err)
+      alert('Failed to delete view: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggleDefault = async (viewId: string, e: React.MouseEvent) => {
+    e.stopPropagation() // Prevent triggering the view click handler
+
+    try {
+      await setDefault(defaultViewId === viewId ? null : viewId)
+    } catch (err) {
+      console.error('Failed to set default view:', err)
+      alert('Failed to set default view: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    }
+  }
+
+  return (
+    <ul className="mt-1 pl-9 pr-2 space-y-1">
+      <li>
+        <button
+          onClick={() => selectView(null)}
+          className={classNames(
+            activeViewId === null
+              ? 'text-indigo-600 font-medium'
+              : 'text-gray-600 hover:text-indigo-600',
+            'flex w-full items-center rounded-md px-2 py-1 text-sm'
+          )}
+        >
+          <span className="truncate">{allLabel}</span>
+        </button>
+      </li>
+
+      {views.map((view) => {
+        const isOwner = view.ownerId === currentUserId
+        const isDefault = defaultViewId === view.id
+
+        return (
+          <li key={view.id}>
+            <div
+              className={classNames(
+                activeViewId === view.id
+                  ? 'bg-gray-50 text-indigo-600'
+                  : 'text-gray-600 hover:bg-gray-50 hover:text-indigo-600',
+                'group flex w-full items-center gap-x-1 rounded-md px-2 py-1 text-sm'
+              )}
+            >
+              <button
+                onClick={() => selectView(view.id)}
+                className="flex flex-1 min-w-0 items-center gap-x-2 text-left"
+                title={view.isShared ? 'Shared with the team' : 'Only visible to you'}
+              >
+                <span className="truncate">{view.name}</span>
+                {view.isShared && <UsersIcon className="h-3.5 w-3.5 shrink-0 text-gray-400" />}
+              </button>
+              {activeViewId === view.id && isOwner && (
+                <button
+                  onClick={(e) => handleUpdate(view.id, e)}
+                  disabled={isSaving}
+                  className="p-0.5 text-gray-400 hover:text-indigo-600 rounded-md"
+                  title="Save current filters, sort and columns to this view"
+                >
+                  <ArrowPathIcon className="h-4 w-4" />
+                </button>
+              )}
+              <button
+                onClick={(e) => handleToggleDefault(view.id, e)}
+                className={classNames(
+                  isDefault ? 'text-amber-500' : 'text-gray-400 hover:text-amber-500',
+                  'p-0.5 rounded-md'
+                )}
+                title={isDefault ? 'Default view (click to clear)' : 'Make this my default view'}
+              >
+                {isDefault ? <StarIcon className="h-4 w-4" /> : <StarOutlineIcon className="h-4 w-4" />}
+              </button>
+              {isOwner && (
+                <button
+                  onClick={(e) => handleDelete(view.id, e)}
+                  disabled={isSaving}
+                  className="p-0.5 text-gray-400 hover:text-red-500 rounded-md"
+                  title="Delete view"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          </li>
+        )
+      })}
+
+      <li>
+        {isCreating ? (
+          <div className="space-y-1 px-2 py-1">
+            <div className="flex items-center">
+              <input
+                type="text"
+                value={newViewName}
+                onChange={(e) => setNewViewName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleCreateSave()
+                  if (e.key === 'Escape') handleCreateCancel()
+                }}
+                placeholder="View name"
+                className="flex-1 min-w-0 py-1 px-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+                autoFocus
+              />
+              <button
+                onClick={handleCreateSave}
+                disabled={isSaving || !newViewName.trim()}
+                className="ml-1 p-1 text-gray-400 hover:text-green-500 rounded-md"
+                title="Save"
+              >
+                <CheckIcon className="h-4 w-4" />
+              </button>
+              <button
+                onClick={handleCreateCancel}
+                className="ml-1 p-1 text-gray-400 hover:text-gray-700 rounded-md"
+                title="Cancel"
+              >
+                <XMarkIcon className="h-4 w-4" />
+              </button>
+            </div>
+            <label className="flex items-center gap-x-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={newViewShared}
+                onChange={(e) => setNewViewShared(e.target.checked)}
+                className="h-3.5 w-3.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Share with the team
+            </label>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="flex w-full items-center gap-x-2 rounded-md px-2 py-1 text-xs text-gray-500 hover:text-indigo-600"
+          >
+            <PlusIcon className="h-3.5 w-3.5" />
+            Save current view
+          </button>
+        )}
+      </li>
+    </ul>
+  )
+}
@@ -1,11 +1,21 @@
 import { Icon } from '@/components/ui/Icon'
-import { UserIcon, BuildingOfficeIcon, CalendarIcon, TagIcon, ChevronDownIcon, ChevronRightIcon, MagnifyingGlassIcon, TrashIcon, PencilIcon, CheckIcon, XMarkIcon, ArrowRightOnRectangleIcon } from '@heroicons/react/24/outline'
+import { UserIcon, BuildingOfficeIcon, CalendarIcon, TagIcon, ChevronDownIcon, ChevronRightIcon, MagnifyingGlassIcon, TrashIcon, PencilIcon, CheckIcon, XMarkIcon, ArrowRightOnRectangleIcon, BriefcaseIcon, CheckCircleIcon, UsersIcon, ArrowsRightLeftIcon, QuestionMarkCircleIcon, LinkIcon, ChartBarIcon, SparklesIcon, BoltIcon } from '@heroicons/react/24/outline'
 import Image from 'next/image'
 import { useEffect, useState } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/hooks/useAuth'
+import { useTaskCounts } from '@/hooks/useTaskCounts'
+import { useJobChangeCount } from '@/hooks/useJobChangeCount'
+import { useMatchReviewCount } from '@/hooks/useMatchReviewCount'
+import { useDefinitiveReviewCount } from '@/hooks/useDefinitiveReviewCount'
+import { useAIEnrichmentJobCount } from '@/hooks/useAIEnrichmentJobCount'
+import { useRole } from '@/hooks/useRole'
+import { ROLE_LABELS } from '@/lib/permissions'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
+import { SavedViewsNav } from '@/components/layout/SavedViewsNav'
+import type { UseSavedViewsResult } from '@/hooks/useSavedViews'
+import type { SavedViewState } from '@/lib/savedViews'
 
 interface Tab {
   id: 'attendees' | 'health-systems' | 'conferences'
@@ -48,6 +58,9 @@ interface FullTabNavigationProps {
   onListSelect?: (listId: string | null) => void
   refreshLists?: () => Promise<void>
   lists?: List[]
+  // Saved views listed under the active tab
+  savedViews?: UseSavedViewsResult
+  currentViewState?: SavedViewState
 }
 
 // Simple version for route pages
@@ -67,9 +80,142 @@ function isSimpleProps(props: TabNavigationProps): props is SimpleTabNavigationP
   return 'tabs' in props;
 }
 
+// Link to the opportunities board, shown under the entity tabs
+function PipelineLink({ isActive }: { isActive: boolean }) {
+  return (
+    <Link
+      href="/pipeline"
+      className={classNames(
+        isActive
+          ? 'bg-gray-50 text-indigo-600'
+          : 'text-gray-700 hover:bg-gray-50 hover:text-indigo-600',
+        'group flex w-full gap-x-3 rounded-md p-2 text-sm/6 font-semibold'
+      )}
+    >
+      <Icon 
+        icon={BriefcaseIcon} 
+        size="sm" 
+        className={classNames(
+          isActive 
+            ? 'text-indigo-600' 
+            : 'text-gray-400 group-hover:text-indigo-600',
+          'size-6 shrink-0'
+        )}
+      />
+      <span className="truncate">Pipeline</span>
+    </Link>
+  )
+}
+
+// Link to the signed-in user's tasks, with open and overdue counts
+function TasksLink({ isActive }: { isActive: boolean }) {
+  const { open, overdue } = useTaskCounts()
+
+  return (
+    <Link
+      href="/tasks"
+      className={classNames(
+        isActive
+          ? 'bg-gray-50 text-indigo-600'
+          : 'text-gray-700 hover:bg-gray-50 hover:text-indigo-600',
+        'group flex w-full gap-x-3 rounded-md p-2 text-sm/6 font-semibold'
+      )}
+    >
+      <Icon 
+        icon={CheckCircleIcon} 
+        size="sm" 
+        className={classNames(
+          isActive 
+            ? 'text-indigo-600' 
+            : 'text-gray-400 group-hover:text-indigo-600',
+          'size-6 shrink-0'
+        )}
+      />
+      <span className="truncate">My Tasks</span>
+      {overdue > 0 && (
+        <span
+          title={`${overdue} overdue`}
+          className="ml-auto min-w-max rounded-full bg-red-50 px-2 py-0.5 text-center text-xs/5 font-medium whitespace-nowrap text-red-700 ring-1 ring-red-200 ring-inset"
+        >
+          {overdue}
+        </span>
+      )}
+      <span
+        aria-hidden="true"
+        className={classNames(
+          overdue > 0 ? '' : 'ml-auto',
+          'w-9 min-w-max rounded-full bg-white px-2.5 py-0.5 text-center text-xs/5 font-medium whitespace-nowrap text-gray-600 ring-1 ring-gray-200 ring-inset'
+        )}
+      >
+        {open}
+      </span>
+    </Link>
+  )
+}
+
+// Link to a review queue, with how many items are waiting
+function QueueLink({ href, label, icon, count, isActive }: { href: string, label: string, icon: typeof UserIcon, count: number, isActive: boolean }) {
+  return (
+    <Link
+      href={href}
+      className={classNames(
+        isActive
+          ? 'bg-gray-50 text-indigo-600'
+          : 'text-gray-700 hover:bg-gray-50 hover:text-indigo-600',
+        'group flex w-full gap-x-3 rounded-md p-2 text-sm/6 font-semibold'
+      )}
+    >
+      <Icon 
+        icon={icon} 
+        size="sm" 
+        className={classNames(
+          isActive 
+            ? 'text-indigo-600' 
+            : 'text-gray-400 group-hover:text-indigo-600',
+          'size-6 shrink-0'
+        )}
+      />
+      <span className="truncate">{label}</span>
+      {count > 0 && (
+        <span
+          aria-hidden="true"
+          className="ml-auto w-9 min-w-max rounded-full bg-white px-2.5 py-0.5 text-center text-xs/5 font-medium whitespace-nowrap text-gray-600 ring-1 ring-gray-200 ring-inset"
+        >
+          {count}
+        </span>
+      )}
+    </Link>
+  )
+}
+
+// Link to the queue of job changes found by Apollo enrichment
+function JobChangesLink({ isActive }: { isActive: boolean }) {
+  const count = useJobChangeCount()
+  return <QueueLink href="/job-changes" label="Job Changes" icon={ArrowsRightLeftIcon} count={count} isActive={isActive} />
+}
+
+// Link to the queue of low-confidence Apollo matches
+function MatchReviewLink({ isActive }: { isActive: boolean }) {
+  const count = useMatchReviewCount()
+  return <QueueLink href="/match-review" label="Match Review" icon={QuestionMarkCircleIcon} count={count} isActive={isActive} />
+}
+
+// Link to the queue of unsure Definitive Healthcare matches
+function DefinitiveReviewLink({ isActive }: { isActive: boolean }) {
+  const count = useDefinitiveReviewCount()
+  return <QueueLink href="/definitive-review" label="Definitive Review" icon={LinkIcon} count={count} isActive={isActive} />
+}
+
+// Link to the AI enrichment jobs, with how many are queued or running
+function JobsLink({ isActive }: { isActive: boolean }) {
+  const count = useAIEnrichmentJobCount()
+  return <QueueLink href="/jobs" label="Jobs" icon={SparklesIcon} count={count} isActive={isActive} />
+}
+
 export function TabNavigation(props: TabNavigationProps) {
   // Always call hooks at the top level - conditional logic will be handled in rendering
   const { user, signOut, isLoading: authLoading } = useAuth()
+  const { role, can } = useRole()
   const [simpleLists, setSimpleLists] = useState<List[]>([])
   const [simpleFilteredLists, setSimpleFilteredLists] = useState<List[]>([])
   const [simpleSearchTerm, setSimpleSearchTerm] = useState('')
@@ -361,6 +507,24 @@ export function TabNavigation(props: TabNavigationProps) {
                     </Link>
                   </li>
                 ))}
+                <li>
+                  <PipelineLink isActive={props.activeTab === 'pipeline'} />
+                </li>
+                <li>
+                  <TasksLink isActive={props.activeTab === 'tasks'} />
+                </li>
+                <li>
+                  <JobChangesLink isActive={props.activeTab === 'job-changes'} />
+                </li>
+                <li>
+                  <MatchReviewLink isActive={props.activeTab === 'match-review'} />
+                </li>
+                <li>
+                  <DefinitiveReviewLink isActive={props.activeTab === 'definitive-review'} />
+                </li>
+                <li>
+                  <JobsLink isActive={props.activeTab === 'jobs'} />
+                </li>
               </ul>
             </li>
             
@@ -502,9 +666,36 @@ export function TabNavigation(props: TabNavigationProps) {
                   </div>
                   <div className="ml-2 flex-1 min-w-0">
                     <p className="text-sm font-medium text-gray-700 truncate">{user.email}</p>
+                    {role && <p className="text-xs text-gray-500">{ROLE_LABELS[role]}</p>}
                   </div>
                 </div>
                 
+                {can('manageRoles') && (
+                  <Link
+                    href="/team"
+                    className="flex w-full items-center gap-x-3 rounded-md p-2 text-sm font-medium text-gray-700 hover:bg-gray-50 hover:text-indigo-600"
+                  >
+                    <UsersIcon className="h-5 w-5 text-gray-400" />
+                    Team
+                  </Link>
+                )}
+
+                <Link
+                  href="/usage"
+                  className="flex w-full items-center gap-x-3 rounded-md p-2 text-sm font-medium text-gray-700 hover:bg-gray-50 hover:text-indigo-600"
+                >
+                  <ChartBarIcon className="h-5 w-5 text-gray-400" />
+                  Usage
+                </Link>
+
+                <Link
+                  href="/automation"
+                  className="flex w-full items-center gap-x-3 rounded-md p-2 text-sm font-medium text-gray-700 hover:bg-gray-50 hover:text-indigo-600"
+                >
+                  <BoltIcon className="h-5 w-5 text-gray-400" />
+                  Automation
+                </Link>
+                
                 <button 
                   onClick={() => signOut()}
                   className="flex w-full items-center gap-x-3 rounded-md p-2 text-sm font-medium text-gray-700 hover:bg-gray-50 hover:text-indigo-600"
@@ -529,7 +720,9 @@ export function TabNavigation(props: TabNavigationProps) {
     activeListId, 
     onListSelect, 
     refreshLists,
-    lists = []
+    lists = [],
+    savedViews,
+    currentViewState
   } = props;
 
   const tabs: Tab[] = [
@@ -718,8 +911,33 @@ export function TabNavigation(props: TabNavigationProps) {
                       {tab.count}
                     </span>
                   </Link>
+                  {activeTab === tab.id && savedViews && currentViewState && (
+                    <SavedViewsNav
+                      savedViews={savedViews}
+                      currentViewState={currentViewState}
+                      allLabel={`All ${tab.label.toLowerCase()}`}
+                    />
+                  )}
                 </li>
               ))}
+              <li>
+                <PipelineLink isActive={false} />
+              </li>
+              <li>
+                <TasksLink isActive={false} />
+              </li>
+              <li>
+                <JobChangesLink isActive={false} />
+              </li>
+              <li>
+                <MatchReviewLink isActive={false} />
+              </li>
+              <li>
+                <DefinitiveReviewLink isActive={false} />
+              </li>
+              <li>
+                <JobsLink isActive={false} />
+              </li>
             </ul>
           </li>
           
@@ -860,9 +1078,36 @@ export function TabNavigation(props: TabNavigationProps) {
                 </div>
                 <div className="ml-2 flex-1 min-w-0">
                   <p className="text-sm font-medium text-gray-700 truncate">{user.email}</p>
+                  {role && <p className="text-xs text-gray-500">{ROLE_LABELS[role]}</p>}
                 </div>
               </div>
               
+              {can('manageRoles') && (
+                <Link
+                  href="/team"
+                  className="flex w-full items-center gap-x-3 rounded-md p-2 text-sm font-medium text-gray-700 hover:bg-gray-50 hover:text-indigo-600"
+                >
+                  <UsersIcon className="h-5 w-5 text-gray-400" />
+                  Team
+                </Link>
+              )}
+
+              <Link
+                href="/usage"
+                className="flex w-full items-center gap-x-3 rounded-md p-2 text-sm font-medium text-gray-700 hover:bg-gray-50 hover:text-indigo-600"
+              >
+                <ChartBarIcon className="h-5 w-5 text-gray-400" />
+                Usage
+              </Link>
+
+              <Link
+                href="/automation"
+                className="flex w-full items-center gap-x-3 rounded-md p-2 text-sm font-medium text-gray-700 hover:bg-gray-50 hover:text-indigo-600"
+              >
+                <BoltIcon className="h-5 w-5 text-gray-400" />
+                Automation
+              </Link>
+              
               <button 
                 onClick={() => signOut()}
                 className="flex w-full items-center gap-x-3 rounded-md p-2 text-sm font-medium text-gray-700 hover:bg-gray-50 hover:text-indigo-600"
@@ -1,3 +1,4 @@
 // Export all layout components
 export * from './TabNavigation';
-export * from './ActionBar'; 
\ No newline at end of file
+export * from './ActionBar';
+export * from './SavedViewsNav'; 
\ No newline at end of file
@@ -1,20 +1,13 @@
 import { useMemo } from 'react'
-import type { Attendee, HealthSystem, Conference } from '@/types'
+import type { Attendee, HealthSystem, Conference, Filter, FilterNode } from '@/types'
 import type { IconName } from '@/hooks/useColumnManagement'
-
-type FilterOperator = 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than'
-
-interface Filter {
-  id: string
-  property: string
-  operator: FilterOperator
-  value: string
-}
+import { isFilterGroup } from '@/lib/filterTree'
+import { getFilterRange, getFilterValues } from '@/lib/filterOperators'
 
 interface UseFilteringProps<T> {
   data: T[]
   searchTerm?: string
-  activeFilters: Filter[]
+  activeFilters: FilterNode[]
   getFieldsForAllColumns: (item: T) => Array<{ id: string, label: string, value: string, iconName: IconName }>
 }
 
@@ -71,14 +64,30 @@ export function useFiltering<T extends Attendee | HealthSystem | Conference>({
         fieldMap.set(field.id.toLowerCase(), field.value);
       });
       
-      const filterMatch = activeFilters.every(filter => {
-        const fieldLookupKey = filter.property.toLowerCase();
+      // Top-level filters are ANDed; groups combine their own conditions with AND or OR
+      const matchesNode = (node: FilterNode): boolean => {
+        if (isFilterGroup(node)) {
+          if (node.conditions.length === 0) return true;
+          return node.combinator === 'or'
+            ? node.conditions.some(matchesNode)
+            : node.conditions.every(matchesNode);
+        }
+        
+        const fieldLookupKey = node.property.toLowerCase();
         let value = fieldMap.get(fieldLookupKey);
         
+        // Typed filters compare the raw column value rather than its formatted display string
+        const rawValue = (item as any)[node.property];
+        if (node.valueType && node.valueType !== 'text' && rawValue !== undefined) {
+          value = rawValue;
+        }
+        
         if (value === undefined) return true;
         
-        return evaluateFilter(filter, value);
-      });
+        return evaluateFilter(node, value);
+      };
+      
+      const filterMatch = activeFilters.every(matchesNode);
       
       return searchMatch && filterMatch;
     });
@@ -94,7 +103,7 @@ function evaluateFilter(filter: Filter, value: any): boolean {
     return true;
   }
   
-  const stringValue = String(value);
+  const stringValue = Array.isArray(value) ? value.join(', ') : String(value);
   
   switch (filter.operator) {
     case 'equals':
@@ -109,6 +118,36 @@ function evaluateFilter(filter: Filter, value: any): boolean {
       
       return stringValue.toLowerCase() === filter.value.toLowerCase();
       
+    case 'not_equals':
+      return !evaluateFilter({ ...filter, operator: 'equals' }, value);
+      
+    case 'in_list': {
+      const selected = getFilterValues(filter).map(v => v.toLowerCase());
+      const parts = stringValue.split(',').map(part => part.trim().toLowerCase());
+      return parts.some(part => selected.includes(part)) || selected.includes(stringValue.toLowerCase());
+    }
+      
+    case 'array_contains': {
+      const parts = (Array.isArray(value) ? value : stringValue.split(',')).map(part => String(part).trim().toLowerCase());
+      return getFilterValues(filter).every(v => parts.includes(v.toLowerCase()));
+    }
+      
+    case 'between':
+    case 'before':
+    case 'after':
+    case 'in_last_days':
+    case 'in_next_days': {
+      const range = getFilterRange(filter);
+      if (!range) return true;
+      const isNumeric = filter.valueType === 'number';
+      const comparable = isNumeric ? toNumber(value) : toDateKey(value);
+      if (comparable === null) return false;
+      const bound = (v: string) => isNumeric ? Number(v) : v;
+      if (range.from !== undefined && comparable < bound(range.from)) return false;
+      if (range.to !== undefined && (range.toInclusive ? comparable > bound(range.to) : comparable >= bound(range.to))) return false;
+      return true;
+    }
+      
     case 'contains':
       if (stringValue.includes(',')) {
         const parts = stringValue.split(',').map(part => part.trim().toLowerCase());
@@ -116,6 +155,13 @@ function evaluateFilter(filter: Filter, value: any): boolean {
       }
       return stringValue.toLowerCase().includes(filter.value.toLowerCase());
       
+    case 'not_contains':
+      if (stringValue.includes(',')) {
+        const parts = stringValue.split(',').map(part => part.trim().toLowerCase());
+        return !parts.some(part => part.includes(filter.value.toLowerCase()));
+      }
+      return !stringValue.toLowerCase().includes(filter.value.toLowerCase());
+      
     case 'starts_with':
       if (stringValue.includes(',')) {
         const parts = stringValue.split(',').map(part => part.trim().toLowerCase());
@@ -137,6 +183,10 @@ function evaluateFilter(filter: Filter, value: any): boolean {
       return Boolean(stringValue && stringValue.trim() !== '');
       
     case 'greater_than':
+      if (filter.valueType === 'number') {
+        const number = toNumber(value);
+        return number !== null && number > Number(filter.value);
+      }
       try {
         if (stringValue.includes('-') && /\d{4}-\d{2}-\d{2}/.test(stringValue)) {
           return new Date(stringValue) > new Date(filter.value);
@@ -149,6 +199,10 @@ function evaluateFilter(filter: Filter, value: any): boolean {
       }
       
     case 'less_than':
+      if (filter.valueType === 'number') {
+        const number = toNumber(value);
+        return number !== null && number < Number(filter.value);
+      }
       try {
         if (stringValue.includes('-') && /\d{4}-\d{2}-\d{2}/.test(stringValue)) {
           return new Date(stringValue) < new Date(filter.value);
@@ -163,4 +217,24 @@ function evaluateFilter(filter: Filter, value: any): boolean {
     default:
       return true;
   }
-} 
\ No newline at end of file
+}
+
+// Read a number from a raw or formatted value (e.g. "$1,200,000")
+function toNumber(value: any): number | null {
+  const number = typeof value === 'number' ? value : Number(String(value).replace(/[^0-9.-]/g, ''));
+  return isNaN(number) ? null : number;
+}
+
+// Read a date as a YYYY-MM-DD string so it can be compared with range bounds
+function toDateKey(value: any): string | null {
+  const stringValue = String(value);
+  if (/^\d{4}-\d{2}-\d{2}/.test(stringValue)) {
+    return stringValue.slice(0, 10);
+  }
+  
+  const date = new Date(stringValue);
+  if (isNaN(date.getTime())) return null;
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
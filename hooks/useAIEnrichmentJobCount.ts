@@ -0,0 +1,40 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { fetchActiveAIEnrichmentJobCount, AI_ENRICHMENT_JOBS_CHANGED_EVENT } from '@/lib/aiEnrichmentJobs'
+
+// Jobs finish on the server, so the count is checked again this often while any are running
+const RUNNING_JOBS_POLL_INTERVAL_MS = 30000
+
+/**
+ * How many AI enrichment jobs are queued or running, refreshed whenever jobs are created, cancelled or retried
+ */
+export function useAIEnrichmentJobCount(): number {
+  const { user } = useAuth()
+  const [count, setCount] = useState(0)
+  const hasRunningJobs = count > 0
+
+  useEffect(() => {
+    if (!user) return
+
+    let cancelled = false
+    const loadCount = () => {
+      fetchActiveAIEnrichmentJobCount()
+        .then(loaded => {
+          if (!cancelled) setCount(loaded)
+        })
+        .catch(err => console.error('Failed to load AI enrichment job count:', err))
+    }
+
+    loadCount()
+    window.addEventListener(AI_ENRICHMENT_JOBS_CHANGED_EVENT, loadCount)
+    const interval = hasRunningJobs ? setInterval(loadCount, RUNNING_JOBS_POLL_INTERVAL_MS) : null
+
+    return () => {
+      cancelled = true
+      window.removeEventListener(AI_ENRICHMENT_JOBS_CHANGED_EVENT, loadCount)
+      if (interval) clearInterval(interval)
+    }
+  }, [user, hasRunningJobs])
+
+  return count
+}
@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react'
+import type { EntityTableName } from '@/lib/queryFilters'
+import { fetchAIProvenance, AIProvenanceMap, AI_PROVENANCE_CHANGED_EVENT } from '@/lib/aiProvenance'
+
+/**
+ * The provenance of the AI-written values of the records shown, refreshed when the records change or AI values are
+ * applied
+ */
+export function useAIProvenance(tableName: EntityTableName, items: Array<{ id: string }>): AIProvenanceMap {
+  const [provenance, setProvenance] = useState<AIProvenanceMap>({})
+  const recordIds = items.map(item => item.id).join(',')
+
+  useEffect(() => {
+    if (!recordIds) {
+      setProvenance({})
+      return
+    }
+
+    let cancelled = false
+    const loadProvenance = () => {
+      fetchAIProvenance(tableName, recordIds.split(','))
+        .then(loaded => {
+          if (!cancelled) setProvenance(loaded)
+        })
+        .catch(err => console.error('Failed to load AI provenance:', err))
+    }
+
+    loadProvenance()
+    window.addEventListener(AI_PROVENANCE_CHANGED_EVENT, loadProvenance)
+
+    return () => {
+      cancelled = true
+      window.removeEventListener(AI_PROVENANCE_CHANGED_EVENT, loadProvenance)
+    }
+  }, [tableName, recordIds])
+
+  return provenance
+}
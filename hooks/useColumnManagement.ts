@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react'
 import type { ColumnDef } from '@tanstack/react-table'
 import type { Attendee, HealthSystem, Conference } from '@/types'
 import { useDatabaseSchema } from '@/hooks/useDatabaseSchema'
+import { OWNER_COLUMN } from '@/lib/ownership'
 
 type TabType = 'attendees' | 'health-systems' | 'conferences'
 
@@ -30,6 +31,7 @@ export interface FieldInfo {
 interface UseColumnManagementResult {
   visibleColumns: Record<TabType, string[]>
   handleColumnToggle: (columnId: string) => void
+  setColumnsForTab: (columnIds: string[] | null) => void
   getVisibleColumns: () => ColumnDef<Attendee | HealthSystem | Conference>[]
   allColumns: ColumnDef<Attendee | HealthSystem | Conference>[]
   getFieldsForItem: (item: Attendee | HealthSystem | Conference) => { id: string, label: string, value: string, iconName: IconName }[]
@@ -43,6 +45,7 @@ export const getColumnIconName = (columnId: string): IconName => {
     case 'name':
     case 'first_name':
     case 'last_name':
+    case 'owner_email':
       return 'user';
     case 'email':
       return 'envelope';
@@ -234,6 +237,20 @@ export function useColumnManagement({
           },
           dataType: 'date'
         });
+      } else if (col.id === 'owner_id' || col.id === 'owner_overridden') {
+        // Ownership bookkeeping; the owner is shown through owner_email
+        return;
+      } else if (col.id === 'employment_history') {
+        // Raw Apollo data kept to spot job changes, not something to show in a column
+        return;
+      } else if (col.id === OWNER_COLUMN) {
+        fields.push({
+          id: OWNER_COLUMN,
+          label: 'Owner',
+          iconName: getColumnIconName(OWNER_COLUMN),
+          accessorKey: OWNER_COLUMN,
+          dataType: 'text'
+        });
       } else if (col.is_foreign_key && col.foreign_table) {
         // This is a direct foreign key within the main table (e.g., health_system_id in attendees)
         const displayName = col.header;
@@ -513,8 +530,19 @@ export function useColumnManagement({
     })
   }
 
+  // Replace the visible columns for the active tab (e.g. from a saved view), or reset to the defaults with null
+  const setColumnsForTab = (columnIds: string[] | null) => {
+    setVisibleColumns(prev => ({
+      ...prev,
+      [activeTab]: columnIds && columnIds.length > 0 ? columnIds : defaultVisibleColumns[activeTab]
+    }))
+  }
+
+  // Keep the order the columns were chosen in so saved views can reorder them
   const getVisibleColumns = () => {
-    return allColumns.filter(col => visibleColumns[activeTab].includes(String(col.id)))
+    return visibleColumns[activeTab]
+      .map(columnId => allColumns.find(col => String(col.id) === columnId))
+      .filter((col): col is ColumnDef<Attendee | HealthSystem | Conference> => !!col)
   }
   
   // Get field data for an item to display in ItemCard
@@ -577,6 +605,7 @@ export function useColumnManagement({
   return {
     visibleColumns,
     handleColumnToggle,
+    setColumnsForTab,
     getVisibleColumns,
     allColumns,
     getFieldsForItem,
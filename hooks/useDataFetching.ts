@@ -1,19 +1,18 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { supabase } from '@/lib/supabase'
-import type { Attendee, HealthSystem, Conference } from '@/types'
+import type { Attendee, HealthSystem, Conference, SortOption } from '@/types'
+import { buildFilteredQuery, stripFilterEmbeds, QueryFilterNode } from '@/lib/queryFilters'
 import { useAuth } from '@/hooks/useAuth'
 
 interface FetchOptions {
   page?: number
   pageSize?: number
   searchTerm?: string
-  filters?: Array<{
-    property: string
-    operator: 'equals' | 'contains' | 'starts_with' | 'ends_with' | 'is_empty' | 'is_not_empty' | 'greater_than' | 'less_than' | 'not_contains'
-    value: string
-  }>
+  filters?: QueryFilterNode[]
+  sort?: SortOption | null
   entityType?: 'attendees' | 'health-systems' | 'conferences'
   listId?: string | null
+  // Skip the rapid re-fetch guard, for explicit user actions like applying a saved view
+  force?: boolean
 }
 
 interface UseDataFetchingResult {
@@ -60,105 +59,11 @@ export function useDataFetching(): UseDataFetchingResult {
   // Add a ref to track the last fetch request timestamp to avoid too frequent refetches
   const lastFetchTimeRef = useRef<number>(0);
 
-  // Apply filters to a query builder
-  const applyFilters = useCallback((query: any, filters: FetchOptions['filters'] = [], searchTerm: string = '', tableName: string) => {
-    
-    // Check for null or undefined filters
-    if (!filters) {
-      return query;
-    }
-    
-    // Ensure filters is an array
-    const filtersArray = Array.isArray(filters) ? filters : [];
-    
-    // Apply search term if provided
-    if (searchTerm && searchTerm.trim() !== '') {
-      // Customize this based on which fields should be searched for each table
-      if (tableName === 'attendees') {
-        query = query.or(`first_name.ilike.%${searchTerm}%,last_name.ilike.%${searchTerm}%,email.ilike.%${searchTerm}%,title.ilike.%${searchTerm}%,company.ilike.%${searchTerm}%`)
-      } else if (tableName === 'health_systems') {
-        query = query.or(`name.ilike.%${searchTerm}%,city.ilike.%${searchTerm}%,state.ilike.%${searchTerm}%`)
-      } else if (tableName === 'conferences') {
-        query = query.or(`name.ilike.%${searchTerm}%,location.ilike.%${searchTerm}%`)
-      }
-    }
-
-    // Check for empty filters array after ensuring it's an array
-    if (filtersArray.length === 0) {
-      return query;
-    }
-
-    // Apply each filter
-    filtersArray.forEach((filter, _) => {
-      if (!filter) {
-        return;
-      }
-      
-      const { property, operator, value } = filter
-
-      if (!property || !operator) {
-        return;
-      }
-      
-      switch (operator) {
-        case 'equals':
-          // Check if this is a comma-separated list of values (like for filtering by a list of IDs)
-          if (value && value.includes(',')) {
-            const values = value.split(',').map(v => v.trim()).filter(Boolean);
-            if (values.length > 0) {
-              query = query.in(property, values);
-            }
-          } else if (value) {
-            query = query.eq(property, value);
-          }
-          break;
-        case 'contains':
-          if (value) {
-            query = query.ilike(property, `%${value}%`)
-          }
-          break
-        case 'not_contains':
-          if (value) {
-            query = query.not(property, 'ilike', `%${value}%`)
-          }
-          break
-        case 'starts_with':
-          if (value) {
-            query = query.ilike(property, `${value}%`)
-          }
-          break
-        case 'ends_with':
-          if (value) {
-            query = query.ilike(property, `%${value}`)
-          }
-          break
-        case 'is_empty':
-          query = query.or(`${property}.is.null,${property}.eq.''`)
-          break
-        case 'is_not_empty':
-          query = query.not(`${property}`, 'is', null).not(`${property}`, 'eq', '')
-          break
-        case 'greater_than':
-          if (value) {
-            query = query.gt(property, value)
-          }
-          break
-        case 'less_than':
-          if (value) {
-            query = query.lt(property, value)
-          }
-          break
-      }
-    })
-
-    return query
-  }, []);
-
   // Memoize fetchData to prevent it from causing render loops
   const fetchData = useCallback(async (options: FetchOptions = {}) => {
     const now = Date.now();
     // Prevent rapid re-fetches (debounce mechanism)
-    if (now - lastFetchTimeRef.current < 300) {
+    if (!options.force && now - lastFetchTimeRef.current < 300) {
       console.log('Fetch request debounced, too soon after previous fetch');
       return;
     }
@@ -170,7 +75,8 @@ export function useDataFetching(): UseDataFetchingResult {
       searchTerm = '',
       filters = [],
       entityType,
-      listId = null
+      listId = null,
+      sort = null
     } = options;
 
     // Show loading indicator
@@ -202,7 +108,8 @@ export function useDataFetching(): UseDataFetchingResult {
           to,
           searchTerm,
           filters: safeFilters,
-          listId
+          listId,
+          sort
         });
         
         fetchedAttendees = result.data;
@@ -215,6 +122,7 @@ export function useDataFetching(): UseDataFetchingResult {
           to,
           searchTerm,
           filters: safeFilters,
+          sort
         });
         
         fetchedHealthSystems = result.data;
@@ -227,6 +135,7 @@ export function useDataFetching(): UseDataFetchingResult {
           to,
           searchTerm,
           filters: safeFilters,
+          sort
         });
         
         fetchedConferences = result.data;
@@ -335,7 +244,7 @@ export function useDataFetching(): UseDataFetchingResult {
       // Always ensure loading state is reset
       setIsLoading(false);
     }
-  }, [applyFilters]); // Only depend on applyFilters - don't include state that changes due to this function
+  }, []); // Don't include state that changes due to this function
 
   // Helper function to ensure unique items by id
   const getUniqueItemsById = <T extends { id: string }>(items: T[]): T[] => {
@@ -354,16 +263,18 @@ export function useDataFetching(): UseDataFetchingResult {
     to,
     searchTerm,
     filters,
-    listId
+    listId,
+    sort
   }: {
     from: number;
     to: number;
     searchTerm: string;
-    filters: any[];
+    filters: QueryFilterNode[];
     listId: string | null;
+    sort: SortOption | null;
   }): Promise<{ data: Attendee[], count: number }> => {
     try {
-      let query = `
+      const query = `
         *,
         health_systems (id, name, definitive_id, website, address, city, state, zip),
         attendee_conferences (
@@ -378,69 +289,24 @@ export function useDataFetching(): UseDataFetchingResult {
         )
       `;
 
-      // Add attendee_lists join if filtering by list
-      if (listId) {
-        query = `
-          *,
-          health_systems (id, name, definitive_id, website, address, city, state, zip),
-          attendee_conferences (
-            conference_id,
-            conferences (
-              id,
-              name,
-              start_date,
-              end_date,
-              location
-            )
-          ),
-          attendee_lists!inner (
-            id,
-            list_id
-          )
-        `;
-      }
-
-      // Get count
-      let countQuery = supabase
-        .from('attendees')
-        .select('*', { count: 'exact', head: true });
-      
-      // Add list filter if listId is provided
-      if (listId) {
-        // For count query with list filter, we need to use a different approach
-        countQuery = supabase
-          .from('attendee_lists')
-          .select('attendee_id', { count: 'exact', head: true })
-          .eq('list_id', listId);
-      }
-      
-      // Apply filters to count query if not using listId
-      // (we can't apply complex filters to the join count query)
-      if (!listId) {
-        countQuery = applyFilters(countQuery, filters, searchTerm, 'attendees');
-      }
-      
-      const { count: attendeesCount, error: countError } = await countQuery;
+      // Get count - the same filters, search and list membership as the data query
+      const { count: attendeesCount, error: countError } = await buildFilteredQuery('attendees', 'id', {
+        filters,
+        searchTerm,
+        listId,
+        count: true,
+        head: true
+      });
 
       if (countError) throw countError;
 
       // Now get the actual data with pagination
-      let dataQuery = supabase
-        .from('attendees')
-        .select(query);
-      
-      // Apply list filter if listId is provided
-      if (listId) {
-        dataQuery = dataQuery.eq('attendee_lists.list_id', listId);
-      }
-      
-      // Apply filters to data query
-      dataQuery = applyFilters(dataQuery, filters, searchTerm, 'attendees');
-        
-      // Apply pagination
-      const { data: attendeesData, error: dataError } = await dataQuery
-        .range(from, to)
-        .order('last_name', { ascending: true });
+      const { data: attendeesData, error: dataError } = await buildFilteredQuery('attendees', query, {
+        filters,
+        searchTerm,
+        listId,
+        sort
+      }).range(from, to);
 
       if (dataError) throw dataError;
 
@@ -453,7 +319,7 @@ export function useDataFetching(): UseDataFetchingResult {
 
       // Return the validated data and count
       return {
-        data: isValidAttendeeArray(attendeesData) ? attendeesData : [],
+        data: isValidAttendeeArray(attendeesData) ? stripFilterEmbeds(attendeesData) : [],
         count: attendeesCount || 0
       };
     } catch (error) {
@@ -467,12 +333,14 @@ export function useDataFetching(): UseDataFetchingResult {
     from,
     to,
     searchTerm,
-    filters
+    filters,
+    sort
   }: {
     from: number;
     to: number;
     searchTerm: string;
-    filters: any[];
+    filters: QueryFilterNode[];
+    sort: SortOption | null;
   }): Promise<{ data: HealthSystem[], count: number }> => {
     try {
       const healthSystemsQuery = `
@@ -489,29 +357,21 @@ export function useDataFetching(): UseDataFetchingResult {
       `;
 
       // Get count
-      let countQuery = supabase
-        .from('health_systems')
-        .select('*', { count: 'exact', head: true });
-        
-      // Apply filters to count query
-      countQuery = applyFilters(countQuery, filters, searchTerm, 'health_systems');
-      
-      const { count: healthSystemsCount, error: countError } = await countQuery;
+      const { count: healthSystemsCount, error: countError } = await buildFilteredQuery('health_systems', 'id', {
+        filters,
+        searchTerm,
+        count: true,
+        head: true
+      });
 
       if (countError) throw countError;
 
       // Get data with pagination
-      let dataQuery = supabase
-        .from('health_systems')
-        .select(healthSystemsQuery);
-        
-      // Apply filters to data query  
-      dataQuery = applyFilters(dataQuery, filters, searchTerm, 'health_systems');
-        
-      // Apply pagination
-      const { data: healthSystemsData, error: dataError } = await dataQuery
-        .range(from, to)
-        .order('name', { ascending: true });
+      const { data: healthSystemsData, error: dataError } = await buildFilteredQuery('health_systems', healthSystemsQuery, {
+        filters,
+        searchTerm,
+        sort
+      }).range(from, to);
 
       if (dataError) throw dataError;
 
@@ -524,7 +384,7 @@ export function useDataFetching(): UseDataFetchingResult {
 
       // Return the validated data and count
       return {
-        data: isValidHealthSystemArray(healthSystemsData) ? healthSystemsData : [],
+        data: isValidHealthSystemArray(healthSystemsData) ? stripFilterEmbeds(healthSystemsData) : [],
         count: healthSystemsCount || 0
       };
     } catch (error) {
@@ -539,11 +399,13 @@ export function useDataFetching(): UseDataFetchingResult {
     to,
     searchTerm,
     filters,
+    sort
   }: {
     from: number;
     to: number;
     searchTerm: string;
-    filters: any[];
+    filters: QueryFilterNode[];
+    sort: SortOption | null;
   }): Promise<{ data: Conference[], count: number }> => {
     try {
       const conferencesQuery = `
@@ -563,35 +425,27 @@ export function useDataFetching(): UseDataFetchingResult {
       `;
 
       // Get count
-      let countQuery = supabase
-        .from('conferences')
-        .select('*', { count: 'exact', head: true });
-        
-      // Apply filters to count query
-      countQuery = applyFilters(countQuery, filters, searchTerm, 'conferences');
-      
-      const { count: conferencesCount, error: countError } = await countQuery;
+      const { count: conferencesCount, error: countError } = await buildFilteredQuery('conferences', 'id', {
+        filters,
+        searchTerm,
+        count: true,
+        head: true
+      });
 
       if (countError) throw countError;
 
       // Get data with pagination
-      let dataQuery = supabase
-        .from('conferences')
-        .select(conferencesQuery);
-        
-      // Apply filters to data query
-      dataQuery = applyFilters(dataQuery, filters, searchTerm, 'conferences');
-        
-      // Apply pagination
-      const { data: conferencesData, error: dataError } = await dataQuery
-        .range(from, to)
-        .order('start_date', { ascending: false });
+      const { data: conferencesData, error: dataError } = await buildFilteredQuery('conferences', conferencesQuery, {
+        filters,
+        searchTerm,
+        sort
+      }).range(from, to);
 
       if (dataError) throw dataError;
       
       // Process the data to ensure consistent structure
       if (conferencesData) {
-        conferencesData.forEach(conf => {
+        conferencesData.forEach((conf: any) => {
           if (conf.attendee_conferences) {
             // Make sure all attendee_conferences have properly structured attendees data
             conf.attendee_conferences = conf.attendee_conferences.map((ac: any) => {
@@ -614,7 +468,7 @@ export function useDataFetching(): UseDataFetchingResult {
 
       // Return the validated data and count
       return {
-        data: isValidConferenceArray(conferencesData) ? conferencesData : [],
+        data: isValidConferenceArray(conferencesData) ? stripFilterEmbeds(conferencesData) : [],
         count: conferencesCount || 0
       };
     } catch (error) {
@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { fetchPendingDefinitiveReviewCount, DEFINITIVE_REVIEWS_CHANGED_EVENT } from '@/lib/definitiveMatching'
+
+/**
+ * How many Definitive matches are waiting for a decision, refreshed whenever reviews are queued or resolved
+ */
+export function useDefinitiveReviewCount(): number {
+  const { user } = useAuth()
+  const [count, setCount] = useState(0)
+
+  useEffect(() => {
+    if (!user) return
+
+    let cancelled = false
+    const loadCount = () => {
+      fetchPendingDefinitiveReviewCount()
+        .then(loaded => {
+          if (!cancelled) setCount(loaded)
+        })
+        .catch(err => console.error('Failed to load Definitive review count:', err))
+    }
+
+    loadCount()
+    window.addEventListener(DEFINITIVE_REVIEWS_CHANGED_EVENT, loadCount)
+
+    return () => {
+      cancelled = true
+      window.removeEventListener(DEFINITIVE_REVIEWS_CHANGED_EVENT, loadCount)
+    }
+  }, [user])
+
+  return count
+}
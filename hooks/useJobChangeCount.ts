@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { fetchOpenJobChangeCount, JOB_CHANGES_CHANGED_EVENT } from '@/lib/jobChanges'
+
+/**
+ * How many job changes are waiting in the queue, refreshed whenever job changes are found or resolved
+ */
+export function useJobChangeCount(): number {
+  const { user } = useAuth()
+  const [count, setCount] = useState(0)
+
+  useEffect(() => {
+    if (!user) return
+
+    let cancelled = false
+    const loadCount = () => {
+      fetchOpenJobChangeCount()
+        .then(loaded => {
+          if (!cancelled) setCount(loaded)
+        })
+        .catch(err => console.error('Failed to load job change count:', err))
+    }
+
+    loadCount()
+    window.addEventListener(JOB_CHANGES_CHANGED_EVENT, loadCount)
+
+    return () => {
+      cancelled = true
+      window.removeEventListener(JOB_CHANGES_CHANGED_EVENT, loadCount)
+    }
+  }, [user])
+
+  return count
+}
@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { fetchPendingMatchReviewCount, MATCH_REVIEWS_CHANGED_EVENT } from '@/lib/apolloMatching'
+
+/**
+ * How many Apollo match reviews are waiting for a decision, refreshed whenever reviews are queued or resolved
+ */
+export function useMatchReviewCount(): number {
+  const { user } = useAuth()
+  const [count, setCount] = useState(0)
+
+  useEffect(() => {
+    if (!user) return
+
+    let cancelled = false
+    const loadCount = () => {
+      fetchPendingMatchReviewCount()
+        .then(loaded => {
+          if (!cancelled) setCount(loaded)
+        })
+        .catch(err => console.error('Failed to load match review count:', err))
+    }
+
+    loadCount()
+    window.addEventListener(MATCH_REVIEWS_CHANGED_EVENT, loadCount)
+
+    return () => {
+      cancelled = true
+      window.removeEventListener(MATCH_REVIEWS_CHANGED_EVENT, loadCount)
+    }
+  }, [user])
+
+  return count
+}
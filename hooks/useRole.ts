@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { fetchCurrentRole, roleCan, Permission, Role } from '@/lib/permissions'
+
+interface UseRoleReturn {
+  role: Role | null
+  isLoading: boolean
+  can: (permission: Permission) => boolean
+}
+
+// One lookup per user, shared by every component that asks
+const rolePromises = new Map<string, Promise<Role | null>>()
+
+/**
+ * The signed-in user's role, with a check for what it allows
+ */
+export function useRole(): UseRoleReturn {
+  const { user, isLoading: authLoading } = useAuth()
+  const [role, setRole] = useState<Role | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    if (authLoading) return
+
+    if (!user) {
+      setRole(null)
+      setIsLoading(false)
+      return
+    }
+
+    let cancelled = false
+    if (!rolePromises.has(user.id)) {
+      rolePromises.set(user.id, fetchCurrentRole().catch(err => {
+        console.error('Failed to load role:', err)
+        rolePromises.delete(user.id)
+        return null
+      }))
+    }
+
+    rolePromises.get(user.id)!.then(loaded => {
+      if (cancelled) return
+      setRole(loaded)
+      setIsLoading(false)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [user, authLoading])
+
+  const can = useCallback((permission: Permission) => roleCan(role, permission), [role])
+
+  return { role, isLoading, can }
+}
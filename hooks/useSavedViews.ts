@@ -0,0 +1,117 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import {
+  fetchSavedViews,
+  fetchDefaultViewId,
+  createSavedView,
+  updateSavedView,
+  deleteSavedView,
+  setDefaultView,
+  SavedView,
+  SavedViewState,
+  ViewEntityType
+} from '@/lib/savedViews'
+
+interface UseSavedViewsProps {
+  entityType: ViewEntityType
+  // Called with the view's state when a view is selected, or null to go back to the unfiltered tab
+  onApplyView: (view: SavedView | null) => void
+}
+
+export interface UseSavedViewsResult {
+  views: SavedView[]
+  activeViewId: string | null
+  defaultViewId: string | null
+  currentUserId: string | null
+  selectView: (viewId: string | null) => void
+  saveView: (name: string, isShared: boolean, state: SavedViewState) => Promise<void>
+  updateView: (viewId: string, state: SavedViewState) => Promise<void>
+  deleteView: (viewId: string) => Promise<void>
+  setDefault: (viewId: string | null) => Promise<void>
+}
+
+export function useSavedViews({ entityType, onApplyView }: UseSavedViewsProps): UseSavedViewsResult {
+  const { user } = useAuth()
+  const [views, setViews] = useState<SavedView[]>([])
+  const [activeViewId, setActiveViewId] = useState<string | null>(null)
+  const [defaultViewId, setDefaultViewId] = useState<string | null>(null)
+
+  // Keep the latest callback without re-running the load effect when the page re-renders
+  const onApplyViewRef = useRef(onApplyView)
+  onApplyViewRef.current = onApplyView
+
+  // Only apply the default view once per page visit
+  const defaultAppliedRef = useRef(false)
+
+  useEffect(() => {
+    if (!user) return
+
+    const loadViews = async () => {
+      try {
+        const [loadedViews, loadedDefaultId] = await Promise.all([
+          fetchSavedViews(entityType),
+          fetchDefaultViewId(entityType)
+        ])
+
+        setViews(loadedViews)
+        setDefaultViewId(loadedDefaultId)
+
+        const defaultView = loadedViews.find(view => view.id === loadedDefaultId)
+        if (defaultView && !defaultAppliedRef.current) {
+          defaultAppliedRef.current = true
+          setActiveViewId(defaultView.id)
+          onApplyViewRef.current(defaultView)
+        }
+      } catch (error) {
+        console.error('Error loading saved views:', error)
+      }
+    }
+
+    loadViews()
+  }, [entityType, user])
+
+  const selectView = useCallback((viewId: string | null) => {
+    const view = viewId ? views.find(v => v.id === viewId) || null : null
+    setActiveViewId(view?.id || null)
+    onApplyViewRef.current(view)
+  }, [views])
+
+  const saveView = useCallback(async (name: string, isShared: boolean, state: SavedViewState) => {
+    const view = await createSavedView(entityType, name, state, isShared)
+    setViews(prev => [...prev, view].sort((a, b) => a.name.localeCompare(b.name)))
+    setActiveViewId(view.id)
+  }, [entityType])
+
+  const updateView = useCallback(async (viewId: string, state: SavedViewState) => {
+    const view = await updateSavedView(viewId, state)
+    setViews(prev => prev.map(v => v.id === viewId ? view : v))
+  }, [])
+
+  const deleteView = useCallback(async (viewId: string) => {
+    await deleteSavedView(viewId)
+    setViews(prev => prev.filter(v => v.id !== viewId))
+    if (defaultViewId === viewId) setDefaultViewId(null)
+    if (activeViewId === viewId) {
+      setActiveViewId(null)
+      onApplyViewRef.current(null)
+    }
+  }, [activeViewId, defaultViewId])
+
+  const setDefault = useCallback(async (viewId: string | null) => {
+    if (!user) return
+    await setDefaultView(entityType, user.id, viewId)
+    setDefaultViewId(viewId)
+  }, [entityType, user])
+
+  return {
+    views,
+    activeViewId,
+    defaultViewId,
+    currentUserId: user?.id || null,
+    selectView,
+    saveView,
+    updateView,
+    deleteView,
+    setDefault
+  }
+}
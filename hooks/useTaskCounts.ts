@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { fetchTaskCounts, TaskCounts, TASKS_CHANGED_EVENT } from '@/lib/tasks'
+
+/**
+ * The signed-in user's open and overdue task counts, refreshed whenever tasks change
+ */
+export function useTaskCounts(): TaskCounts {
+  const { user } = useAuth()
+  const [counts, setCounts] = useState<TaskCounts>({ open: 0, overdue: 0 })
+
+  useEffect(() => {
+    if (!user) return
+
+    let cancelled = false
+    const loadCounts = () => {
+      fetchTaskCounts(user.id)
+        .then(loaded => {
+          if (!cancelled) setCounts(loaded)
+        })
+        .catch(err => console.error('Failed to load task counts:', err))
+    }
+
+    loadCounts()
+    window.addEventListener(TASKS_CHANGED_EVENT, loadCounts)
+
+    return () => {
+      cancelled = true
+      window.removeEventListener(TASKS_CHANGED_EVENT, loadCounts)
+    }
+  }, [user])
+
+  return counts
+}
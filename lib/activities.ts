@@ -0,0 +1,177 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+
+export type ActivityType =
+  | 'call'
+  | 'email'
+  | 'meeting'
+  | 'booth_visit'
+  | 'note'
+  | 'enrichment'
+  | 'apollo_push'
+  | 'apollo_sync'
+  | 'job_change'
+  | 'list_added'
+  | 'list_removed';
+
+// Types people log by hand; the others are written by the system
+export const MANUAL_ACTIVITY_TYPES: ActivityType[] = ['call', 'email', 'meeting', 'booth_visit', 'note'];
+
+export const ACTIVITY_TYPE_LABELS: Record<ActivityType, string> = {
+  call: 'Call',
+  email: 'Email',
+  meeting: 'Meeting',
+  booth_visit: 'Booth visit',
+  note: 'Note',
+  enrichment: 'Enrichment',
+  apollo_push: 'Apollo push',
+  apollo_sync: 'Apollo sync',
+  job_change: 'Job change',
+  list_added: 'Added to list',
+  list_removed: 'Removed from list',
+};
+
+export interface Activity {
+  id: string;
+  attendeeId: string | null;
+  attendeeName: string | null;
+  healthSystemId: string | null;
+  conferenceId: string | null;
+  conferenceName: string | null;
+  type: ActivityType;
+  summary: string;
+  details: Record<string, any>;
+  occurredAt: string;
+  authorId: string | null;
+  authorEmail: string | null;
+}
+
+// An activity to record; it must belong to an attendee or a health system
+export interface NewActivity {
+  attendeeId?: string | null;
+  healthSystemId?: string | null;
+  conferenceId?: string | null;
+  type: ActivityType;
+  summary: string;
+  details?: Record<string, any>;
+  occurredAt?: string;
+}
+
+const ACTIVITY_SELECT = '*, conferences(name), attendees(first_name, last_name)';
+
+// Map an activities row (with its embedded conference and attendee) to the shape the UI uses
+const toActivity = (row: any): Activity => ({
+  id: row.id,
+  attendeeId: row.attendee_id,
+  attendeeName: row.attendees ? `${row.attendees.first_name} ${row.attendees.last_name}` : null,
+  healthSystemId: row.health_system_id,
+  conferenceId: row.conference_id,
+  conferenceName: row.conferences?.name || null,
+  type: row.type,
+  summary: row.summary,
+  details: row.details || {},
+  occurredAt: row.occurred_at,
+  authorId: row.author_id,
+  authorEmail: row.author_email,
+});
+
+const toRow = (activity: NewActivity) => ({
+  attendee_id: activity.attendeeId || null,
+  health_system_id: activity.healthSystemId || null,
+  conference_id: activity.conferenceId || null,
+  type: activity.type,
+  summary: activity.summary.trim(),
+  details: activity.details || {},
+  ...(activity.occurredAt ? { occurred_at: activity.occurredAt } : {}),
+});
+
+/**
+ * Get an attendee's activity timeline, newest first
+ */
+export async function fetchAttendeeActivities(attendeeId: string): Promise<Activity[]> {
+  const { data, error } = await supabase
+    .from('activities')
+    .select(ACTIVITY_SELECT)
+    .eq('attendee_id', attendeeId)
+    .order('occurred_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching activities:', error);
+    throw new Error(`Failed to fetch activities: ${error.message}`);
+  }
+
+  return (data || []).map(toActivity);
+}
+
+/**
+ * Get a health system's timeline: its own activities rolled up with those of its attendees, newest first
+ */
+export async function fetchHealthSystemActivities(healthSystemId: string, attendeeIds: string[]): Promise<Activity[]> {
+  const conditions = [`health_system_id.eq.${healthSystemId}`];
+  if (attendeeIds.length > 0) {
+    conditions.push(`attendee_id.in.(${attendeeIds.join(',')})`);
+  }
+
+  const { data, error } = await supabase
+    .from('activities')
+    .select(ACTIVITY_SELECT)
+    .or(conditions.join(','))
+    .order('occurred_at', { ascending: false })
+    .limit(200);
+
+  if (error) {
+    console.error('Error fetching activities:', error);
+    throw new Error(`Failed to fetch activities: ${error.message}`);
+  }
+
+  return (data || []).map(toActivity);
+}
+
+/**
+ * Record an activity (the author is filled in by the database)
+ */
+export async function createActivity(activity: NewActivity): Promise<Activity> {
+  const { data, error } = await supabase
+    .from('activities')
+    .insert(toRow(activity))
+    .select(ACTIVITY_SELECT)
+    .single();
+
+  if (error) {
+    console.error('Error creating activity:', error);
+    throw new Error(`Failed to log activity: ${error.message}`);
+  }
+
+  return toActivity(data);
+}
+
+/**
+ * Delete an activity (only its author can)
+ */
+export async function deleteActivity(activityId: string): Promise<void> {
+  const { error } = await supabase
+    .from('activities')
+    .delete()
+    .eq('id', activityId);
+
+  if (error) {
+    console.error('Error deleting activity:', error);
+    throw new Error(`Failed to delete activity: ${error.message}`);
+  }
+}
+
+/**
+ * Record system events (enrichment runs, Apollo pushes). Failures are logged rather than thrown
+ * so a logging problem never breaks the action that triggered it.
+ */
+export async function logSystemActivities(activities: NewActivity[], client: SupabaseClient = supabase): Promise<void> {
+  if (activities.length === 0) return;
+
+  const { error } = await client
+    .from('activities')
+    .insert(activities.map(toRow));
+
+  if (error) {
+    console.error('Error logging system activities:', error);
+  }
+}
@@ -1,19 +1,28 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
-import { supabaseAdmin } from '@/lib/supabase';
+import { supabase } from '@/lib/supabase';
+import { getAccessToken } from '@/lib/permissions';
+import { createChangeBatch, withChangeBatch } from '@/lib/fieldHistory';
+import { logSystemActivities } from '@/lib/activities';
+import type { LLMModelsResponse } from '@/lib/llm';
+import { AIOutputField, AIOutputFieldType, AIValueProvenance, pgTypeForField } from '@/lib/aiOutputFields';
+import { saveAIProvenance } from '@/lib/aiProvenance';
 
 // Interface for the AI enrichment result
 export interface AIEnrichmentResult {
   item: any;
   success: boolean;
   enrichedData?: any;
+  // Each value's confidence, rationale, sources and model, keyed by column
+  provenance?: Record<string, AIValueProvenance>;
   error?: string;
 }
 
 export interface AIEnrichmentRequest {
   items: any[];
   promptTemplate: string;
-  columnName: string;
-  columnType: string;
+  // The columns to fill, each answered as a typed field
+  outputFields: AIOutputField[];
   getFieldsForAllColumns?: (item: any) => Array<{ id: string, label: string, value: string, iconName: string }>;
   includeDefinitiveData?: boolean;
 }
@@ -41,6 +50,15 @@ export class AIService {
       },
     });
 
+    // Send the signed-in user's token so the API route can check their role
+    this.client.interceptors.request.use(async (config) => {
+      const token = await getAccessToken();
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+      }
+      return config;
+    });
+
     // Add response interceptor for debugging
     this.client.interceptors.response.use(
       (response: AxiosResponse) => {
@@ -83,14 +101,28 @@ export class AIService {
     }
   }
 
+  /**
+   * Ask the server to work through queued enrichment jobs. Resolves once the worker stops, which can take minutes.
+   */
+  async runJobWorker(): Promise<void> {
+    await this.client.post('/jobs/worker');
+  }
+
+  /**
+   * Get the models that can be picked and the one each feature uses
+   */
+  async getModels(): Promise<LLMModelsResponse> {
+    const response = await this.client.get('/models');
+    return response.data;
+  }
+
   /**
    * Test a prompt template on a sample item
    */
   async testPrompt(
     item: any, 
     promptTemplate: string, 
-    columnName: string, 
-    columnType: string, 
+    outputFields: AIOutputField[], 
     getFieldsForAllColumns?: (item: any) => Array<{ id: string, label: string, value: string, iconName: string }>,
     includeDefinitiveData?: boolean
   ): Promise<any> {
@@ -98,8 +130,7 @@ export class AIService {
       const response = await this.client.post('/test-prompt', {
         item,
         promptTemplate,
-        columnName,
-        columnType,
+        outputFields,
         getFieldsForAllColumns,
         includeDefinitiveData
       });
@@ -107,72 +138,145 @@ export class AIService {
       return response.data;
     } catch (error) {
       console.error('Error testing AI prompt:', error);
+      // Show why the server turned the test down, e.g. an answer that didn't fit the output fields
+      if (axios.isAxiosError(error) && error.response?.data?.error) {
+        throw new Error(error.response.data.error);
+      }
       throw error;
     }
   }
 }
 
 /**
- * Ensure a column exists in the Supabase table
- * This function will check if a column exists, and create it if it doesn't
+ * Ensure several columns exist in the Supabase table, creating any that are missing together in one statement.
+ * Only admins can create columns; when they all exist already anyone can run this. Server jobs pass a service role
+ * client, which counts as an admin, so they say whether the user they act for may add columns.
  */
-export async function ensureColumnExists(
-  tableName: string, 
-  columnName: string, 
-  columnType: string
+export async function ensureColumnsExist(
+  tableName: string,
+  columns: Array<{ name: string; type: AIOutputFieldType }>,
+  client: SupabaseClient = supabase,
+  canAddColumns = true
 ): Promise<boolean> {
-  try {    
-    // First check if the column already exists using our SQL function
-    const { data: columnExists, error: checkError } = await supabaseAdmin.rpc(
-      'column_exists',
-      { in_column_name: columnName, in_table_name: tableName }
-    );
-    // If the column already exists, return true
-    if (columnExists) {
+  try {
+    if (!canAddColumns) {
+      for (const column of columns) {
+        const { data: exists, error } = await client.rpc('column_exists', { table_name: tableName, column_name: column.name });
+        if (error || !exists) {
+          console.error(`Column ${column.name} is missing from ${tableName} and only admins can add it`, error || '');
+          return false;
+        }
+      }
       return true;
     }
 
-    if (checkError) {
-      console.error('Error checking if column exists:', checkError);
-      // Instead of throwing, let's try to add the column anyway
-      console.log('Proceeding to add column despite check error...');
-    }
-
-    // Map the column type to PostgreSQL type
-    let pgType: string;
-    switch (columnType) {
-      case 'boolean':
-        pgType = 'boolean';
-        break;
-      case 'number':
-        pgType = 'float8';
-        break;
-      case 'text':
-      default:
-        pgType = 'text';
-        break;
-    }
-    
-    // Add the column to the table using our SQL function
-    const { error: addError } = await supabaseAdmin.rpc(
-      'add_column',
-      { 
-        table_name: tableName, 
-        column_name: columnName, 
-        column_type: pgType 
-      }
-    );
+    const { error } = await client.rpc('add_columns', {
+      table_name: tableName,
+      columns: columns.map(column => ({ name: column.name, type: pgTypeForField(column.type) })),
+    });
 
-    if (addError) {
-      console.error('Error adding column to table:', addError);
+    if (error) {
+      console.error('Error adding columns to table:', error);
       return false;
     }
     return true;
   } catch (error) {
-    console.error('Error ensuring column exists:', error);
+    console.error('Error ensuring columns exist:', error);
     // Return false instead of throwing to allow the process to continue
     return false;
   }
 }
 
-export const aiService = AIService.getInstance(); 
\ No newline at end of file
+// The table each kind of enriched record lives in, told apart by their fields
+const tableForItem = (item: any): 'attendees' | 'health_systems' | 'conferences' | null => {
+  if ('first_name' in item && 'last_name' in item) return 'attendees';
+  if (!('name' in item)) return null;
+  return 'start_date' in item ? 'conferences' : 'health_systems';
+};
+
+/**
+ * Write the values from the successful results of an AI enrichment run to their records, adding any new columns
+ * first. Values the AI didn't know are left as they were. Each written value's provenance is kept with it. The run is
+ * grouped in the change history under the prompt name and logged on attendee and health system timelines. Server jobs
+ * pass a service role client, and throw rather than write anything when the user they act for can't add a missing
+ * column.
+ */
+export async function applyAIEnrichmentResults(
+  results: AIEnrichmentResult[],
+  outputFields: AIOutputField[],
+  promptName?: string,
+  client: SupabaseClient = supabase,
+  canAddColumns = true
+): Promise<void> {
+  const successfullyEnriched = results.filter(result => result.success);
+  if (successfullyEnriched.length === 0) return;
+
+  const fieldNames = outputFields.map(field => field.name);
+  const fieldList = fieldNames.map(name => `"${name}"`).join(', ');
+
+  const tables = (['attendees', 'health_systems', 'conferences'] as const)
+    .filter(tableName => successfullyEnriched.some(result => tableForItem(result.item) === tableName));
+  if (!canAddColumns) {
+    for (const tableName of tables) {
+      if (!await ensureColumnsExist(tableName, outputFields, client, false)) {
+        throw new Error(`Only admins can add the columns ${fieldList} to ${tableName}`);
+      }
+    }
+  }
+
+  // Group the whole run in the change history, labelled with the prompt used
+  const changeBatchId = await createChangeBatch('ai', promptName || `Set ${fieldList}`, client);
+
+  for (const tableName of tables) {
+    const tableResults = successfullyEnriched.filter(result => tableForItem(result.item) === tableName);
+
+    // First ensure all the target columns exist in the table
+    const columnsCreated = await ensureColumnsExist(tableName, outputFields, client, canAddColumns);
+    if (!columnsCreated) {
+      console.error(`Could not add columns ${fieldList} to ${tableName}`);
+      continue;
+    }
+
+    const provenanceEntries: Parameters<typeof saveAIProvenance>[1] = [];
+    for (const { item, enrichedData, provenance } of tableResults) {
+      const values = Object.fromEntries(fieldNames
+        .filter(name => enrichedData[name] !== null && enrichedData[name] !== undefined)
+        .map(name => [name, enrichedData[name]]));
+      if (Object.keys(values).length === 0) continue;
+
+      const { error } = await withChangeBatch(client
+        .from(tableName)
+        .update(values)
+        .eq('id', item.id), changeBatchId);
+
+      if (error) {
+        console.error(`Error updating ${tableName} ${item.id}:`, error);
+        continue;
+      }
+
+      for (const [columnName, value] of Object.entries(values)) {
+        // Results from before provenance was kept only know the model
+        const valueProvenance = provenance?.[columnName]
+          || (enrichedData._source ? { confidence: null, rationale: null, sources: [], model: enrichedData._source } : null);
+        if (valueProvenance) {
+          provenanceEntries.push({ recordId: item.id, columnName, value, provenance: valueProvenance });
+        }
+      }
+    }
+
+    await saveAIProvenance(tableName, provenanceEntries, promptName, client);
+  }
+
+  // Record the run on attendee and health system timelines (conferences don't have one)
+  await logSystemActivities(successfullyEnriched
+    .filter(result => tableForItem(result.item) === 'attendees' || tableForItem(result.item) === 'health_systems')
+    .map(result => ({
+      attendeeId: tableForItem(result.item) === 'attendees' ? result.item.id : null,
+      healthSystemId: tableForItem(result.item) === 'health_systems' ? result.item.id : null,
+      type: 'enrichment' as const,
+      summary: `AI enrichment set ${fieldList}`,
+      details: { source: 'ai', columns: fieldNames }
+    })), client);
+}
+
+export const aiService = AIService.getInstance();
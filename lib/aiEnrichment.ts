@@ -0,0 +1,395 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AIEnrichmentResult } from '@/lib/ai';
+import { DefinitiveHospital } from '@/lib/definitive';
+import { searchDefinitiveCatalog, fetchDefinitiveCatalogStatus } from '@/lib/definitiveCatalog';
+import { supabaseAdmin } from '@/lib/supabase';
+import { TokenTally, UsageProvider, isBudgetExhausted } from '@/lib/enrichmentUsage';
+import { usageProviderForModel } from '@/lib/llm';
+import { AIOutputField, AIValueProvenance, toJSONSchema, validateAIOutput, parseAIProvenance } from '@/lib/aiOutputFields';
+import { LLMCitation, generateText, modelForFeature } from '@/lib/llmProviders';
+
+// Server-side only: the AI enrichment run shared by /api/ai/enrich and the enrichment job worker
+
+export interface AIEnrichmentRunOptions {
+  items: any[];
+  promptTemplate: string;
+  outputFields: AIOutputField[];
+  includeDefinitiveData?: boolean;
+}
+
+// An item with its prompt filled in from its fields
+interface PreparedItem {
+  id: string;
+  prompt: string;
+  originalItem: any;
+}
+
+// A checked answer for one item with where each value came from, or why it couldn't be used
+type ItemAnswer = { data: Record<string, unknown>; provenance: Record<string, AIValueProvenance> } | { errors: string[] };
+
+// Room for a batch of JSON answers with several fields each
+const ANSWER_MAX_TOKENS = 4096;
+
+// Helper function to chunk array into batches
+function chunkArray<T>(array: T[], size: number): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < array.length; i += size) {
+    result.push(array.slice(i, i + size));
+  }
+  return result;
+}
+
+/**
+ * The instructions for answering items as JSON objects of the output fields
+ */
+export function buildEnrichmentSystemPrompt(outputFields: AIOutputField[]): string {
+  return `You are an AI assistant helping to enrich data.
+Answer each of the following items independently.
+Reply with a single JSON object and nothing else, in the form {"items": [{"id": "<the item's ID>", "values": {...}, "evidence": {...}}]}, with one entry per item.
+Each item's "values" must match this JSON schema. Keep text answers concise and use null for anything you don't know:
+${JSON.stringify(toJSONSchema(outputFields))}
+Each item's "evidence" has an entry for every value that isn't null, keyed by field name, in the form {"confidence": <how sure you are, from 0 to 1>, "rationale": "<one short sentence on why>", "sources": ["<URL the answer is based on>"]}. Only list URLs you actually used; leave "sources" empty otherwise.`;
+}
+
+// The JSON schema of a reply to a batch, with one entry per item in order
+const batchAnswerSchema = (batch: PreparedItem[], outputFields: AIOutputField[]): Record<string, unknown> => ({
+  type: 'object',
+  properties: {
+    items: {
+      type: 'array',
+      prefixItems: batch.map(item => ({
+        type: 'object',
+        properties: { id: { const: item.id }, values: toJSONSchema(outputFields), evidence: { type: 'object' } },
+        required: ['id', 'values', 'evidence'],
+      })),
+    },
+  },
+  required: ['items'],
+});
+
+// Read {"items": [{"id": ..., "values": {...}, "evidence": {...}}]} out of a reply, keyed by item id
+const parseBatchAnswers = (reply: string): Record<string, { values?: unknown; evidence?: unknown }> => {
+  // Greedy, since the values nest objects
+  const jsonMatch = reply.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return {};
+
+  try {
+    const parsed = JSON.parse(jsonMatch[0]);
+    const entries: any[] = Array.isArray(parsed.items) ? parsed.items : [];
+    return Object.fromEntries(entries
+      .filter(entry => entry && entry.id !== undefined && entry.id !== null)
+      .map(entry => [String(entry.id), entry]));
+  } catch (error) {
+    console.error('Error parsing AI enrichment answers:', error);
+    return {};
+  }
+};
+
+// Web search citations point into the reply; each belongs to the item whose entry it falls in
+const citationsByItem = (reply: string, batch: PreparedItem[], citations: LLMCitation[]): Record<string, string[]> => {
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const starts = batch
+    .map(item => ({ id: item.id, at: reply.search(new RegExp(`"id"\\s*:\\s*"?${escape(item.id)}(?:"|[\\s,}])`)) }))
+    .filter(start => start.at !== -1)
+    .sort((a, b) => a.at - b.at);
+
+  const byItem: Record<string, string[]> = {};
+  for (const citation of citations) {
+    const owner = starts.filter(start => start.at <= citation.index).pop();
+    if (owner) {
+      byItem[owner.id] = [...(byItem[owner.id] || []), citation.url];
+    }
+  }
+  return byItem;
+};
+
+/**
+ * Ask a model to answer a batch of items and check each answer against the output fields. Returns the answers keyed
+ * by item id, with each value's confidence, rationale and sources, and the reply as the model gave it.
+ */
+export async function answerItems(
+  model: string,
+  systemContent: string,
+  batch: PreparedItem[],
+  outputFields: AIOutputField[],
+  tally: TokenTally
+): Promise<{ answers: Record<string, ItemAnswer>; reply: string }> {
+  const response = await generateText(model, {
+    messages: [
+      { role: 'system', content: systemContent },
+      { role: 'user', content: batch.map((item, i) => `Item ${i+1} (ID: ${item.id}):\n${item.prompt}`).join('\n\n---\n\n') }
+    ],
+    temperature: 0,
+    maxTokens: ANSWER_MAX_TOKENS,
+    json: true,
+    jsonSchema: batchAnswerSchema(batch, outputFields),
+  }, tally);
+
+  const parsed = parseBatchAnswers(response.text);
+  const citations = citationsByItem(response.text, batch, response.citations || []);
+  const answers: Record<string, ItemAnswer> = {};
+  for (const item of batch) {
+    if (!(item.id in parsed)) {
+      answers[item.id] = { errors: ['no answer from AI'] };
+      continue;
+    }
+
+    const answer = validateAIOutput(outputFields, parsed[item.id].values);
+    if ('errors' in answer) {
+      answers[item.id] = answer;
+    } else if (Object.values(answer.data).every(value => value === null)) {
+      // An answer of nothing but nulls has nothing to write
+      answers[item.id] = { errors: ['AI did not know any of the values'] };
+    } else {
+      answers[item.id] = {
+        data: answer.data,
+        provenance: parseAIProvenance(answer.data, parsed[item.id].evidence, model, citations[item.id]),
+      };
+    }
+  }
+
+  return { answers, reply: response.text };
+}
+
+/**
+ * The first provider used by AI enrichment whose blocking budget this month's spend has used up, or null when there
+ * is budget left for all of them
+ */
+export async function findExhaustedAIEnrichmentBudget(client: SupabaseClient): Promise<UsageProvider | null> {
+  const providers = (['enrichment', 'enrichmentFallback', 'extraction'] as const)
+    .map(feature => usageProviderForModel(modelForFeature(feature)))
+    .filter((provider): provider is UsageProvider => !!provider);
+
+  for (const provider of Array.from(new Set(providers))) {
+    if (await isBudgetExhausted(provider, client)) {
+      return provider;
+    }
+  }
+  return null;
+}
+
+/**
+ * Answer the prompt for each item, with Definitive context when asked for. Items that fail are returned with an
+ * error rather than thrown. The tokens of every model call are added to the tally.
+ */
+export async function enrichItemsWithAI(
+  { items, promptTemplate, outputFields, includeDefinitiveData }: AIEnrichmentRunOptions,
+  tally: TokenTally
+): Promise<AIEnrichmentResult[]> {
+  const enrichmentModel = modelForFeature('enrichment');
+  const fallbackModel = modelForFeature('enrichmentFallback');
+
+  // Definitive data comes from the stored catalog, searched by organization name below
+  let definitiveCatalogSize = 0;
+  if (includeDefinitiveData) {
+    try {
+      definitiveCatalogSize = (await fetchDefinitiveCatalogStatus(supabaseAdmin)).hospitalCount;
+    } catch (error) {
+      console.error('Error fetching Definitive catalog status:', error);
+      // Continue without Definitive data if there's an error
+    }
+  }
+
+  // Prepare all items with their resolved prompts first
+  const preparedItems: Array<PreparedItem & { error?: string }> = [];
+  for (const item of items) {
+    try {
+      // Generate a prompt from the template by replacing variables (keep existing logic)
+      let prompt = promptTemplate;
+      
+      // Replace all occurrences of variables in the format {{variableName}}
+      const variableRegex = /\{\{([^}]+)\}\}/g;
+      
+      // Fill variables from the item's own fields
+      prompt = prompt.replace(variableRegex, (_: string, variableName: string) => item[variableName] || '');
+
+      // Add to prepared items
+      preparedItems.push({
+        id: String(item.id),
+        prompt: prompt,
+        originalItem: item
+      });
+    } catch (error) {
+      console.error(`Error preparing item ${item.id}:`, error);
+      // If an item fails preparation, still add it to results as failed
+      preparedItems.push({
+        id: item.id,
+        prompt: '',
+        error: error instanceof Error ? error.message : 'Error preparing item',
+        originalItem: item
+      });
+    }
+  }
+
+  // Filter out items that failed preparation
+  const validItems = preparedItems.filter(item => !item.error);
+  const failedItems = preparedItems.filter(item => item.error);
+
+  // Initialize results array with failed items
+  const results: Array<{
+    item: any;
+    success: boolean;
+    error?: string;
+    enrichedData?: Record<string, any>;
+    provenance?: Record<string, AIValueProvenance>;
+  }> = failedItems.map(item => ({
+    item: item.originalItem,
+    success: false,
+    error: item.error
+  }));
+
+  const systemPrompt = buildEnrichmentSystemPrompt(outputFields);
+
+  // Process in batches of 15 items
+  const batchSize = 15;
+  const batches = chunkArray(validItems, batchSize);
+  
+  for (const batch of batches) {
+    try {
+      let definitiveSystemContent = '';
+      if (includeDefinitiveData && definitiveCatalogSize > 0) {
+        // For each batch item, try to find matches in Definitive data
+        // First, extract potential organization names from the prompts
+        const batchPromptForExtraction = batch.map((item, i) => 
+          `Item ${i+1} (ID: ${item.id}):\nExtract company/organization names from: ${item.prompt}`
+        ).join('\n\n---\n\n');
+        
+        // Extract organization names using a separate API call
+        try {
+          const extractionResponse = await generateText(modelForFeature('extraction'), {
+            messages: [
+              { 
+                role: 'system', 
+                content: `You are an extraction assistant. For each item, extract the name of any health system, hospital, or healthcare organization mentioned. 
+Return ONLY the extracted name for each item with no additional text or explanation. If multiple names are mentioned, return the most prominent one. 
+If no organization name is mentioned, respond with "NO_EXTRACTION_POSSIBLE".
+Always start your response with "Item X (ID: [id]): " followed by the extracted name.` 
+              },
+              { role: 'user', content: batchPromptForExtraction }
+            ],
+            temperature: 0.1,
+            maxTokens: 500,
+          }, tally);
+          
+          const extractionContent = extractionResponse.text;
+          const extractRegex = /Item (\d+) \(ID: ([^)]+)\):\s*([\s\S]*?)(?=(?:Item \d+|$)|$)/g;
+          
+          // Process matches to find health systems
+          const matchedSystems = [];
+          let extractMatch;
+          
+          while ((extractMatch = extractRegex.exec(extractionContent + "\n")) !== null) {
+            const [_, __, itemId, extractedName] = extractMatch;
+            
+            if (extractedName && extractedName.trim() !== "NO_EXTRACTION_POSSIBLE") {
+              // For each extracted name, look for matches in Definitive data
+              const searchTerm = extractedName.trim();
+              
+              // Limit to the 2 closest names to avoid overwhelming the context
+              const matches = await searchDefinitiveCatalog(searchTerm, 2, supabaseAdmin);
+              for (const match of matches) {
+                matchedSystems.push({
+                  itemId,
+                  system: match.hospital
+                });
+              }
+            }
+          }
+          
+          // If we found matches, create a detailed system content
+          if (matchedSystems.length > 0) {
+            definitiveSystemContent = `You have access to healthcare system data from Definitive Healthcare. Here is information about specific health systems relevant to these items:\n\n`;
+            
+            // Group matches by item ID for clarity
+            const systemsByItem: Record<string, DefinitiveHospital[]> = {};
+            for (const match of matchedSystems) {
+              if (!systemsByItem[match.itemId]) {
+                systemsByItem[match.itemId] = [];
+              }
+              systemsByItem[match.itemId].push(match.system);
+            }
+            
+            // Create detailed content
+            for (const [itemId, systems] of Object.entries(systemsByItem) as [string, DefinitiveHospital[]][]) {
+              definitiveSystemContent += `For item ID ${itemId}:\n`;
+              
+              for (const system of systems) {
+                definitiveSystemContent += `- ${system.Name}\n`;
+                definitiveSystemContent += `  - Type: ${system.FirmType || 'Unknown'}\n`;
+                definitiveSystemContent += `  - EMR Vendor (Ambulatory): ${system.EMRVendorAmbulatory || 'Unknown'}\n`;
+                definitiveSystemContent += `  - EMR Vendor (Inpatient): ${system.EMRVendorInpatient || 'Unknown'}\n`;
+                definitiveSystemContent += `  - Net Patient Revenue: ${system.NetPatientRev ? '$' + system.NetPatientRev.toLocaleString() : 'Unknown'}\n`;
+                definitiveSystemContent += `  - Number of Beds: ${system.NumBeds || 'Unknown'}\n`;
+                definitiveSystemContent += `  - Number of Hospitals: ${system.NumHospitals || 'Unknown'}\n`;
+                definitiveSystemContent += `  - Website: ${system.WebSite || 'Unknown'}\n`;
+                definitiveSystemContent += `  - Location: ${[system.HQCity, system.State].filter(Boolean).join(', ') || 'Unknown'}\n\n`;
+              }
+            }
+            
+            definitiveSystemContent += `Use this information to help with your classifications. Don't explicitly mention that you're using Definitive Healthcare data in your response.`;
+          } else {
+            // No matches found
+            definitiveSystemContent = `You checked a database of ${definitiveCatalogSize} health systems and did not find any matches for the organizations mentioned. Please use your general knowledge to answer the questions.`;
+          }
+        } catch (extractError) {
+          console.error('Error extracting organization names:', extractError);
+          // Fallback to generic context
+          definitiveSystemContent = `You have access to healthcare system data. Consider healthcare-specific factors when analyzing these items.`;
+        }
+      }
+
+      const systemContent = systemPrompt + (definitiveSystemContent ? '\n\n' + definitiveSystemContent : '');
+
+      // First pass with the cheaper enrichment model
+      const { answers } = await answerItems(enrichmentModel, systemContent, batch, outputFields, tally);
+      const sources: Record<string, string> = Object.fromEntries(batch.map(item => [item.id, enrichmentModel]));
+
+      // Answers that don't fit the output fields get another try with the fallback model (higher quality, but more expensive)
+      const unclearItems = batch.filter(item => 'errors' in answers[item.id]);
+      if (unclearItems.length > 0 && fallbackModel !== enrichmentModel) {
+        console.log(`Processing ${unclearItems.length} unclear items with ${fallbackModel}`);
+        try {
+          const fallback = await answerItems(fallbackModel, systemContent, unclearItems, outputFields, tally);
+          for (const item of unclearItems) {
+            if ('data' in fallback.answers[item.id]) {
+              answers[item.id] = fallback.answers[item.id];
+              sources[item.id] = fallbackModel;
+            }
+          }
+        } catch (fallbackError) {
+          // Keep the first pass's answers
+          console.error('Error processing unclear items:', fallbackError);
+        }
+      }
+
+      // Add the results from this batch
+      for (const batchItem of batch) {
+        const answer = answers[batchItem.id];
+        results.push('data' in answer
+          ? {
+            item: batchItem.originalItem,
+            success: true,
+            enrichedData: { ...answer.data, _source: sources[batchItem.id] }, // Track which model provided this result
+            provenance: answer.provenance
+          }
+          : {
+            item: batchItem.originalItem,
+            success: false,
+            error: `The AI's answer didn't fit the output fields (${answer.errors.join('; ')})`
+          });
+      }
+    } catch (batchError) {
+      console.error('Error processing batch:', batchError);
+      // If a batch fails, mark all items in the batch as failed
+      for (const batchItem of batch) {
+        results.push({
+          item: batchItem.originalItem,
+          success: false,
+          error: batchError instanceof Error ? batchError.message : 'Batch processing error'
+        });
+      }
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,289 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { AIEnrichmentResult, applyAIEnrichmentResults, aiService } from '@/lib/ai';
+import type { AIOutputField } from '@/lib/aiOutputFields';
+
+export type AIEnrichmentJobStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+export const AI_ENRICHMENT_JOB_STATUS_LABELS: Record<AIEnrichmentJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  failed: 'Failed',
+};
+
+// Dispatched on window whenever a job is created, cancelled or retried, so job counts can refresh
+export const AI_ENRICHMENT_JOBS_CHANGED_EVENT = 'aiEnrichmentJobsChanged';
+
+export interface AIEnrichmentJob {
+  id: string;
+  createdBy: string | null;
+  status: AIEnrichmentJobStatus;
+  promptTemplate: string;
+  promptName: string | null;
+  outputFields: AIOutputField[];
+  includeDefinitiveData: boolean;
+  // The automation rule that queued the job; the worker writes the results of these itself
+  automationRuleId: string | null;
+  totalItems: number;
+  succeededItems: number;
+  failedItems: number;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface NewAIEnrichmentJob {
+  items: any[];
+  promptTemplate: string;
+  promptName?: string;
+  outputFields: AIOutputField[];
+  includeDefinitiveData?: boolean;
+  // Left out to queue the job as the signed-in user
+  createdBy?: string | null;
+  automationRuleId?: string;
+}
+
+// Job items are inserted and read in pages of this many rows
+const ITEM_PAGE_SIZE = 500;
+
+const toJob = (row: any): AIEnrichmentJob => ({
+  id: row.id,
+  createdBy: row.created_by,
+  status: row.status,
+  promptTemplate: row.prompt_template,
+  promptName: row.prompt_name,
+  outputFields: row.output_fields,
+  includeDefinitiveData: row.include_definitive_data,
+  automationRuleId: row.automation_rule_id || null,
+  totalItems: row.total_items,
+  succeededItems: row.succeeded_items,
+  failedItems: row.failed_items,
+  error: row.error,
+  createdAt: row.created_at,
+  startedAt: row.started_at,
+  finishedAt: row.finished_at,
+});
+
+const notifyAIEnrichmentJobsChanged = () => {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(AI_ENRICHMENT_JOBS_CHANGED_EVENT));
+  }
+};
+
+/**
+ * Whether the worker still has items of the job to process
+ */
+export function isActiveJob(job: AIEnrichmentJob): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+/**
+ * Queue an AI enrichment run. The items are stored with the job, so the run doesn't need the browser once it's queued.
+ * Server jobs pass a service role client and the user to queue it for.
+ */
+export async function createAIEnrichmentJob(input: NewAIEnrichmentJob, client: SupabaseClient = supabase): Promise<AIEnrichmentJob> {
+  const { data, error } = await client
+    .from('ai_enrichment_jobs')
+    .insert({
+      ...(input.createdBy !== undefined ? { created_by: input.createdBy } : {}),
+      ...(input.automationRuleId ? { automation_rule_id: input.automationRuleId } : {}),
+      prompt_template: input.promptTemplate,
+      prompt_name: input.promptName || null,
+      output_fields: input.outputFields,
+      include_definitive_data: !!input.includeDefinitiveData,
+      total_items: input.items.length,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('Error creating AI enrichment job:', error);
+    throw new Error(`Failed to create AI enrichment job: ${error.message}`);
+  }
+
+  for (let start = 0; start < input.items.length; start += ITEM_PAGE_SIZE) {
+    const { error: itemsError } = await client
+      .from('ai_enrichment_job_items')
+      .insert(input.items.slice(start, start + ITEM_PAGE_SIZE).map((item, index) => ({
+        job_id: data.id,
+        position: start + index,
+        item,
+      })));
+
+    if (itemsError) {
+      console.error('Error adding AI enrichment job items:', itemsError);
+      // Don't leave a half-filled job for the worker to pick up
+      await client.rpc('cancel_ai_enrichment_job', { in_job_id: data.id });
+      throw new Error(`Failed to add AI enrichment job items: ${itemsError.message}`);
+    }
+  }
+
+  notifyAIEnrichmentJobsChanged();
+  return toJob(data);
+}
+
+/**
+ * Start the worker on queued jobs without waiting for it. The scheduled worker picks up anything this misses.
+ */
+export function startAIEnrichmentWorker(): Promise<void> {
+  return aiService.runJobWorker().catch(error => {
+    console.error('Error starting the AI enrichment worker:', error);
+  });
+}
+
+/**
+ * Get recent AI enrichment jobs, newest first. Admins and managers see the whole team's, others their own.
+ */
+export async function fetchAIEnrichmentJobs(limit = 50): Promise<AIEnrichmentJob[]> {
+  const { data, error } = await supabase
+    .from('ai_enrichment_jobs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching AI enrichment jobs:', error);
+    throw new Error(`Failed to fetch AI enrichment jobs: ${error.message}`);
+  }
+
+  return (data || []).map(toJob);
+}
+
+/**
+ * Get one AI enrichment job with its current progress
+ */
+export async function fetchAIEnrichmentJob(jobId: string, client: SupabaseClient = supabase): Promise<AIEnrichmentJob> {
+  const { data, error } = await client
+    .from('ai_enrichment_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching AI enrichment job:', error);
+    throw new Error(`Failed to fetch AI enrichment job: ${error.message}`);
+  }
+
+  return toJob(data);
+}
+
+/**
+ * Count the queued and running jobs the user can see
+ */
+export async function fetchActiveAIEnrichmentJobCount(): Promise<number> {
+  const { count, error } = await supabase
+    .from('ai_enrichment_jobs')
+    .select('id', { count: 'exact', head: true })
+    .in('status', ['queued', 'running']);
+
+  if (error) {
+    console.error('Error counting AI enrichment jobs:', error);
+    throw new Error(`Failed to count AI enrichment jobs: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+// Page through a job's items with the given statuses, in the order they were queued
+const fetchJobItems = async (jobId: string, statuses: string[], unappliedOnly = false, client: SupabaseClient = supabase) => {
+  const rows: any[] = [];
+  for (let start = 0; ; start += ITEM_PAGE_SIZE) {
+    let query = client
+      .from('ai_enrichment_job_items')
+      .select('id, item, status, enriched_data, provenance, error')
+      .eq('job_id', jobId)
+      .in('status', statuses)
+      .order('position')
+      .range(start, start + ITEM_PAGE_SIZE - 1);
+
+    if (unappliedOnly) {
+      query = query.is('applied_at', null);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching AI enrichment job items:', error);
+      throw new Error(`Failed to fetch AI enrichment job items: ${error.message}`);
+    }
+
+    rows.push(...(data || []));
+    if (!data || data.length < ITEM_PAGE_SIZE) return rows;
+  }
+};
+
+const toResult = (row: any): AIEnrichmentResult => ({
+  item: row.item,
+  success: row.status === 'succeeded',
+  enrichedData: row.enriched_data || undefined,
+  provenance: row.provenance || undefined,
+  error: row.status === 'cancelled' ? 'Cancelled before it was enriched' : row.error || undefined,
+});
+
+/**
+ * The results of a job's processed items, in the shape the AI enrichment results dialog shows
+ */
+export async function fetchAIEnrichmentJobResults(jobId: string): Promise<AIEnrichmentResult[]> {
+  return (await fetchJobItems(jobId, ['succeeded', 'failed', 'cancelled'])).map(toResult);
+}
+
+/**
+ * Write the job's successful values that haven't been written yet to their records. Each value is applied once, so
+ * this is safe to call again after retrying failed items. The worker passes a service role client for jobs queued by
+ * automation rules, with whether the rule's author may add columns.
+ */
+export async function applyAIEnrichmentJobResults(
+  job: AIEnrichmentJob,
+  client: SupabaseClient = supabase,
+  canAddColumns = true
+): Promise<number> {
+  const rows = await fetchJobItems(job.id, ['succeeded'], true, client);
+  if (rows.length === 0) return 0;
+
+  await applyAIEnrichmentResults(rows.map(toResult), job.outputFields, job.promptName || undefined, client, canAddColumns);
+
+  const ids = rows.map(row => row.id);
+  for (let start = 0; start < ids.length; start += ITEM_PAGE_SIZE) {
+    const { error } = await client.rpc('mark_ai_enrichment_items_applied', {
+      in_item_ids: ids.slice(start, start + ITEM_PAGE_SIZE),
+    });
+
+    if (error) {
+      console.error('Error marking AI enrichment results applied:', error);
+      throw new Error(`Failed to mark AI enrichment results applied: ${error.message}`);
+    }
+  }
+
+  return rows.length;
+}
+
+/**
+ * Stop a queued or running job. Items already enriched keep their results; the rest are marked cancelled.
+ */
+export async function cancelAIEnrichmentJob(jobId: string): Promise<void> {
+  const { error } = await supabase.rpc('cancel_ai_enrichment_job', { in_job_id: jobId });
+
+  if (error) {
+    console.error('Error cancelling AI enrichment job:', error);
+    throw new Error(`Failed to cancel AI enrichment job: ${error.message}`);
+  }
+
+  notifyAIEnrichmentJobsChanged();
+}
+
+/**
+ * Queue a finished job's failed and cancelled items to run again
+ */
+export async function retryAIEnrichmentJob(jobId: string): Promise<void> {
+  const { error } = await supabase.rpc('retry_ai_enrichment_job', { in_job_id: jobId });
+
+  if (error) {
+    console.error('Error retrying AI enrichment job:', error);
+    throw new Error(`Failed to retry AI enrichment job: ${error.message}`);
+  }
+
+  notifyAIEnrichmentJobsChanged();
+}
@@ -0,0 +1,191 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { enrichItemsWithAI, findExhaustedAIEnrichmentBudget } from '@/lib/aiEnrichment';
+import { recordTokenUsage, createTokenTally, USAGE_PROVIDER_LABELS } from '@/lib/enrichmentUsage';
+import { fetchAIEnrichmentJob, applyAIEnrichmentJobResults } from '@/lib/aiEnrichmentJobs';
+import { fetchUserRole } from '@/lib/permissions';
+
+// Server-side only: works through queued AI enrichment jobs. Needs a service role client.
+
+// Items sent to the model per call, as in /api/ai/enrich
+const WORKER_BATCH_SIZE = 15;
+
+// How long a worker holds a job between batches. Longer than a batch takes, so two workers don't share a job.
+const JOB_LEASE_SECONDS = 180;
+
+export interface AIEnrichmentWorkerResult {
+  jobs: number;
+  items: number;
+}
+
+const countItems = async (client: SupabaseClient, jobId: string, status: string) => {
+  const { count, error } = await client
+    .from('ai_enrichment_job_items')
+    .select('id', { count: 'exact', head: true })
+    .eq('job_id', jobId)
+    .eq('status', status);
+
+  if (error) {
+    throw new Error(`Failed to count AI enrichment job items: ${error.message}`);
+  }
+  return count || 0;
+};
+
+const finishJob = async (client: SupabaseClient, jobId: string, status: 'completed' | 'failed', error: string | null = null) => {
+  // Leave a job someone cancelled meanwhile as it is
+  const { error: updateError } = await client
+    .from('ai_enrichment_jobs')
+    .update({ status, error, finished_at: new Date().toISOString(), locked_until: null })
+    .eq('id', jobId)
+    .eq('status', 'running');
+
+  if (updateError) {
+    throw new Error(`Failed to finish AI enrichment job: ${updateError.message}`);
+  }
+};
+
+// Write the results of a job an automation rule queued, as nobody opens those on the Jobs page. New columns are only
+// added when the rule's author is an admin. Left for the Jobs page when it fails, or when the job was cancelled
+// meanwhile.
+const applyAutomationJobResults = async (client: SupabaseClient, jobId: string) => {
+  try {
+    const job = await fetchAIEnrichmentJob(jobId, client);
+    if (job.status === 'completed') {
+      const role = await fetchUserRole(job.createdBy, client);
+      await applyAIEnrichmentJobResults(job, client, role === 'admin');
+    }
+  } catch (error) {
+    console.error(`Error applying the results of AI enrichment job ${jobId}:`, error);
+  }
+};
+
+/**
+ * Process one claimed job batch by batch until it runs out of items, is cancelled or the deadline passes. A job
+ * left unfinished at the deadline is released for the next worker run, and a finished job queued by an automation
+ * rule has its results written. Returns the number of items processed.
+ */
+async function processJob(client: SupabaseClient, job: any, deadline: number): Promise<number> {
+  let processed = 0;
+
+  while (true) {
+    const { data: current, error: jobError } = await client
+      .from('ai_enrichment_jobs')
+      .select('status')
+      .eq('id', job.id)
+      .single();
+
+    if (jobError) {
+      throw new Error(`Failed to fetch AI enrichment job: ${jobError.message}`);
+    }
+    if (current.status !== 'running') return processed;
+
+    if (Date.now() >= deadline) {
+      await client.from('ai_enrichment_jobs').update({ locked_until: null }).eq('id', job.id);
+      return processed;
+    }
+
+    const exhaustedProvider = await findExhaustedAIEnrichmentBudget(client);
+    if (exhaustedProvider) {
+      await finishJob(client, job.id, 'failed', `This month's ${USAGE_PROVIDER_LABELS[exhaustedProvider]} budget is used up`);
+      return processed;
+    }
+
+    const { data: batch, error: itemsError } = await client
+      .from('ai_enrichment_job_items')
+      .select('id, item, attempts')
+      .eq('job_id', job.id)
+      .eq('status', 'pending')
+      .order('position')
+      .limit(WORKER_BATCH_SIZE);
+
+    if (itemsError) {
+      throw new Error(`Failed to fetch AI enrichment job items: ${itemsError.message}`);
+    }
+
+    if (!batch || batch.length === 0) {
+      await finishJob(client, job.id, 'completed');
+      if (job.automation_rule_id) {
+        await applyAutomationJobResults(client, job.id);
+      }
+      return processed;
+    }
+
+    const tally = createTokenTally();
+    const results = await enrichItemsWithAI({
+      items: batch.map(row => row.item),
+      promptTemplate: job.prompt_template,
+      outputFields: job.output_fields,
+      includeDefinitiveData: job.include_definitive_data,
+    }, tally);
+
+    // Results carry the item objects they were given, so match them back by reference
+    for (const row of batch) {
+      const result = results.find(candidate => candidate.item === row.item);
+      const { error } = await client
+        .from('ai_enrichment_job_items')
+        .update({
+          status: result?.success ? 'succeeded' : 'failed',
+          enriched_data: result?.enrichedData || null,
+          provenance: result?.provenance || null,
+          error: result?.success ? null : result?.error || 'Failed to get a response from AI',
+          attempts: row.attempts + 1,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', row.id);
+
+      if (error) {
+        console.error(`Error saving AI enrichment job item ${row.id}:`, error);
+      }
+    }
+
+    await recordTokenUsage(tally, {
+      operation: 'enrichJob',
+      userId: job.created_by,
+      recordCount: batch.length,
+    });
+
+    const [succeeded, failed] = await Promise.all([
+      countItems(client, job.id, 'succeeded'),
+      countItems(client, job.id, 'failed'),
+    ]);
+    await client
+      .from('ai_enrichment_jobs')
+      .update({
+        succeeded_items: succeeded,
+        failed_items: failed,
+        locked_until: new Date(Date.now() + JOB_LEASE_SECONDS * 1000).toISOString(),
+      })
+      .eq('id', job.id);
+
+    processed += batch.length;
+  }
+}
+
+/**
+ * Claim and process queued AI enrichment jobs, oldest first, until there are none left or the deadline (a timestamp
+ * in milliseconds) passes.
+ */
+export async function processAIEnrichmentJobs(client: SupabaseClient, deadline: number): Promise<AIEnrichmentWorkerResult> {
+  const result: AIEnrichmentWorkerResult = { jobs: 0, items: 0 };
+
+  while (Date.now() < deadline) {
+    const { data, error } = await client.rpc('claim_ai_enrichment_job', { lease_seconds: JOB_LEASE_SECONDS });
+
+    if (error) {
+      console.error('Error claiming an AI enrichment job:', error);
+      throw new Error(`Failed to claim an AI enrichment job: ${error.message}`);
+    }
+
+    const job = (data || [])[0];
+    if (!job) break;
+
+    result.jobs++;
+    try {
+      result.items += await processJob(client, job, deadline);
+    } catch (error) {
+      console.error(`Error processing AI enrichment job ${job.id}:`, error);
+      await finishJob(client, job.id, 'failed', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  return result;
+}
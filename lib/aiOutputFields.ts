@@ -0,0 +1,238 @@
+// The fields an AI enrichment run fills in, shared by the dialog, the API routes and the job worker. The model answers
+// each item with a JSON object of these fields, checked with validateAIOutput before any value is written.
+
+export type AIOutputFieldType = 'text' | 'boolean' | 'number' | 'select' | 'date' | 'url' | 'list';
+
+export interface AIOutputField {
+  // The column the value is written to
+  name: string;
+  type: AIOutputFieldType;
+  // What the value should be, passed to the model
+  description?: string;
+  // The allowed values of a select field
+  options?: string[];
+}
+
+export const AI_OUTPUT_FIELD_TYPE_LABELS: Record<AIOutputFieldType, string> = {
+  text: 'Text',
+  boolean: 'Boolean (Yes/No)',
+  number: 'Number',
+  select: 'Select (one of a list)',
+  date: 'Date',
+  url: 'URL',
+  list: 'List of text',
+};
+
+// The Postgres type of the column each field type is written to
+const PG_TYPES: Record<AIOutputFieldType, string> = {
+  text: 'text',
+  boolean: 'boolean',
+  number: 'float8',
+  select: 'text',
+  date: 'date',
+  url: 'text',
+  list: 'text[]',
+};
+
+/**
+ * The Postgres column type for a field type, for creating target columns
+ */
+export function pgTypeForField(type: AIOutputFieldType): string {
+  return PG_TYPES[type];
+}
+
+/**
+ * What's wrong with a set of output fields, or null when they can be run
+ */
+export function validateAIOutputFields(fields: AIOutputField[]): string | null {
+  if (fields.length === 0) {
+    return 'Add at least one output field';
+  }
+
+  const names = new Set<string>();
+  for (const field of fields) {
+    if (!field.name.trim()) {
+      return 'Every output field needs a column name';
+    }
+    if (!/^[a-z_][a-z0-9_]*$/.test(field.name)) {
+      return `"${field.name}" can only use lowercase letters, numbers and underscores`;
+    }
+    if (names.has(field.name)) {
+      return `"${field.name}" is used for more than one field`;
+    }
+    if (!(field.type in PG_TYPES)) {
+      return `"${field.name}" has an unknown type`;
+    }
+    if (field.type === 'select' && !(field.options || []).some(option => option.trim())) {
+      return `"${field.name}" needs at least one option`;
+    }
+    names.add(field.name);
+  }
+  return null;
+}
+
+const jsonSchemaForField = (field: AIOutputField) => {
+  const description = field.description ? { description: field.description } : {};
+  switch (field.type) {
+    case 'boolean':
+      return { type: ['boolean', 'null'], ...description };
+    case 'number':
+      return { type: ['number', 'null'], ...description };
+    case 'select':
+      return { type: ['string', 'null'], enum: [...(field.options || []), null], ...description };
+    case 'date':
+      return { type: ['string', 'null'], format: 'date', ...description };
+    case 'url':
+      return { type: ['string', 'null'], format: 'uri', ...description };
+    case 'list':
+      return { type: ['array', 'null'], items: { type: 'string' }, ...description };
+    case 'text':
+    default:
+      return { type: ['string', 'null'], ...description };
+  }
+};
+
+/**
+ * The JSON schema of one item's answer. Every field is required but may be null when the model doesn't know.
+ */
+export function toJSONSchema(fields: AIOutputField[]): Record<string, unknown> {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(fields.map(field => [field.name, jsonSchemaForField(field)])),
+    required: fields.map(field => field.name),
+    additionalProperties: false,
+  };
+}
+
+const BOOLEAN_WORDS: Record<string, boolean> = { true: true, yes: true, y: true, false: false, no: false, n: false };
+
+// Turn one answered value into the field's type, or explain why it can't be
+const coerceValue = (field: AIOutputField, value: unknown): { value: unknown } | { error: string } => {
+  if (value === null || value === undefined || value === '') {
+    return { value: null };
+  }
+
+  switch (field.type) {
+    case 'boolean': {
+      if (typeof value === 'boolean') return { value };
+      const word = BOOLEAN_WORDS[String(value).trim().toLowerCase()];
+      return word === undefined ? { error: 'expected yes or no' } : { value: word };
+    }
+    case 'number': {
+      const number = typeof value === 'number' ? value : parseFloat(String(value).replace(/[$,]/g, ''));
+      return isNaN(number) ? { error: 'expected a number' } : { value: number };
+    }
+    case 'select': {
+      const option = (field.options || []).find(candidate => candidate.toLowerCase() === String(value).trim().toLowerCase());
+      return option === undefined ? { error: `expected one of ${(field.options || []).join(', ')}` } : { value: option };
+    }
+    case 'date': {
+      const date = new Date(String(value));
+      return isNaN(date.getTime()) ? { error: 'expected a date' } : { value: date.toISOString().slice(0, 10) };
+    }
+    case 'url': {
+      const text = String(value).trim();
+      try {
+        const url = new URL(/^https?:\/\//i.test(text) ? text : `https://${text}`);
+        return url.hostname.includes('.') ? { value: url.toString() } : { error: 'expected a URL' };
+      } catch {
+        return { error: 'expected a URL' };
+      }
+    }
+    case 'list': {
+      const items = Array.isArray(value) ? value : String(value).split(',');
+      return { value: items.map(item => String(item).trim()).filter(Boolean) };
+    }
+    case 'text':
+    default:
+      return { value: typeof value === 'string' ? value.trim() : JSON.stringify(value) };
+  }
+};
+
+/**
+ * Check a model's answer for one item against the output fields, converting values to the fields' types. Fields the
+ * model left out or answered with null are null. Returns the errors found instead when any value doesn't fit.
+ */
+export function validateAIOutput(
+  fields: AIOutputField[],
+  answer: unknown
+): { data: Record<string, unknown> } | { errors: string[] } {
+  if (!answer || typeof answer !== 'object' || Array.isArray(answer)) {
+    return { errors: ['expected a JSON object'] };
+  }
+
+  const data: Record<string, unknown> = {};
+  const errors: string[] = [];
+  for (const field of fields) {
+    const result = coerceValue(field, (answer as Record<string, unknown>)[field.name]);
+    if ('error' in result) {
+      errors.push(`${field.name}: ${result.error}`);
+    } else {
+      data[field.name] = result.value;
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { data };
+}
+
+/**
+ * Show an enriched value the way people read it: Yes/No for booleans, comma-separated lists, N/A for no value
+ */
+export function formatAIOutputValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return 'N/A';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'N/A';
+  return String(value);
+}
+
+// Where an enriched value came from, kept with the value so people can see why the AI answered as it did
+export interface AIValueProvenance {
+  // How sure the model was, from 0 to 1
+  confidence: number | null;
+  rationale: string | null;
+  // Pages the answer was based on
+  sources: string[];
+  // The model that answered, as provider:model
+  model: string;
+}
+
+const isURL = (value: unknown): value is string => typeof value === 'string' && /^https?:\/\/\S+$/i.test(value.trim());
+
+/**
+ * Read the model's confidence, rationale and sources for each field that has a value. The model's evidence is taken
+ * as given where it fits; anything malformed is left out rather than failing the answer. Pages the model cited while
+ * searching are added to every field's sources.
+ */
+export function parseAIProvenance(
+  data: Record<string, unknown>,
+  evidence: unknown,
+  model: string,
+  citations: string[] = []
+): Record<string, AIValueProvenance> {
+  const evidenceByField = evidence && typeof evidence === 'object' && !Array.isArray(evidence)
+    ? evidence as Record<string, any>
+    : {};
+
+  return Object.fromEntries(Object.keys(data)
+    .filter(name => data[name] !== null)
+    .map(name => {
+      const fieldEvidence = evidenceByField[name] && typeof evidenceByField[name] === 'object' ? evidenceByField[name] : {};
+      const confidence = typeof fieldEvidence.confidence === 'number' ? fieldEvidence.confidence : parseFloat(fieldEvidence.confidence);
+      const sources = (Array.isArray(fieldEvidence.sources) ? fieldEvidence.sources : []).filter(isURL).map((url: string) => url.trim());
+
+      return [name, {
+        // Some models answer in percent
+        confidence: isNaN(confidence) ? null : Math.min(1, Math.max(0, confidence > 1 ? confidence / 100 : confidence)),
+        rationale: typeof fieldEvidence.rationale === 'string' && fieldEvidence.rationale.trim() ? fieldEvidence.rationale.trim() : null,
+        sources: Array.from(new Set([...sources, ...citations])),
+        model,
+      }];
+    }));
+}
+
+/**
+ * A confidence as people read it, e.g. "85%"
+ */
+export function formatConfidence(confidence: number | null): string {
+  return confidence === null ? 'Unknown' : `${Math.round(confidence * 100)}%`;
+}
@@ -1,10 +1,13 @@
 import { supabase } from './supabase'
+import type { AIOutputField } from './aiOutputFields'
 
 export interface AIPrompt {
   id: string
   name: string
   prompt_template: string
   column_type: 'text' | 'boolean' | 'number'
+  // The fields the prompt fills in. Prompts saved before output fields only have column_type.
+  output_fields?: AIOutputField[] | null
   description?: string
   is_default: boolean
   created_at: string
@@ -15,6 +18,8 @@ export interface CreateAIPromptData {
   name: string
   prompt_template: string
   column_type: 'text' | 'boolean' | 'number'
+  // The fields the prompt fills in. Prompts saved before output fields only have column_type.
+  output_fields?: AIOutputField[] | null
   description?: string
   is_default?: boolean
 }
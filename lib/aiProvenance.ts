@@ -0,0 +1,114 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { EntityTableName } from '@/lib/queryFilters';
+import type { AIValueProvenance } from '@/lib/aiOutputFields';
+
+// Dispatched on window whenever AI values are written with their provenance, so shown provenance can refresh
+export const AI_PROVENANCE_CHANGED_EVENT = 'aiProvenanceChanged';
+
+// Where the value in one column of a record came from, as last written by AI enrichment
+export interface AIProvenance extends AIValueProvenance {
+  tableName: EntityTableName;
+  recordId: string;
+  columnName: string;
+  // The value the AI gave; the provenance only applies while the record still holds it
+  value: unknown;
+  promptName: string | null;
+  enrichedAt: string;
+}
+
+// Provenance for a set of records, keyed by record id and then column name
+export type AIProvenanceMap = Record<string, Record<string, AIProvenance>>;
+
+// Record ids per request, to keep the query string short
+const RECORD_ID_CHUNK_SIZE = 100;
+
+// Map an ai_value_provenance row to the shape the UI uses
+const toProvenance = (row: any): AIProvenance => ({
+  tableName: row.table_name,
+  recordId: row.record_id,
+  columnName: row.column_name,
+  value: row.value,
+  confidence: row.confidence,
+  rationale: row.rationale,
+  sources: row.sources || [],
+  model: row.model,
+  promptName: row.prompt_name,
+  enrichedAt: row.enriched_at,
+});
+
+const notifyAIProvenanceChanged = () => {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(AI_PROVENANCE_CHANGED_EVENT));
+  }
+};
+
+/**
+ * Record where AI-written values came from, replacing what was kept for the same columns before. Failures are
+ * logged rather than thrown, since the values themselves are already written.
+ */
+export async function saveAIProvenance(
+  tableName: EntityTableName,
+  entries: Array<{ recordId: string; columnName: string; value: unknown; provenance: AIValueProvenance }>,
+  promptName?: string,
+  client: SupabaseClient = supabase
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const { error } = await client
+    .from('ai_value_provenance')
+    .upsert(entries.map(({ recordId, columnName, value, provenance }) => ({
+      table_name: tableName,
+      record_id: recordId,
+      column_name: columnName,
+      value,
+      confidence: provenance.confidence,
+      rationale: provenance.rationale,
+      sources: provenance.sources,
+      model: provenance.model,
+      prompt_name: promptName || null,
+      enriched_at: new Date().toISOString(),
+    })), { onConflict: 'table_name,record_id,column_name' });
+
+  if (error) {
+    console.error('Error saving AI provenance:', error);
+    return;
+  }
+
+  notifyAIProvenanceChanged();
+}
+
+/**
+ * Get the provenance of the AI-written values of some records
+ */
+export async function fetchAIProvenance(tableName: EntityTableName, recordIds: string[]): Promise<AIProvenanceMap> {
+  const provenance: AIProvenanceMap = {};
+
+  for (let start = 0; start < recordIds.length; start += RECORD_ID_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('ai_value_provenance')
+      .select('*')
+      .eq('table_name', tableName)
+      .in('record_id', recordIds.slice(start, start + RECORD_ID_CHUNK_SIZE));
+
+    if (error) {
+      console.error('Error fetching AI provenance:', error);
+      throw new Error(`Failed to fetch AI provenance: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      const entry = toProvenance(row);
+      provenance[entry.recordId] = { ...provenance[entry.recordId], [entry.columnName]: entry };
+    }
+  }
+
+  return provenance;
+}
+
+/**
+ * Whether a record's current value is still the one the AI wrote, so its provenance applies. Values edited since
+ * then have no AI provenance.
+ */
+export function isCurrentAIValue(provenance: AIProvenance, currentValue: unknown): boolean {
+  return JSON.stringify(provenance.value ?? null) === JSON.stringify(currentValue ?? null);
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { Permission, Role, roleCan } from '@/lib/permissions';
+
+export interface RequestAuth {
+  userId: string;
+  role: Role;
+  // Queries as the caller, so row level security applies to them
+  client: SupabaseClient;
+}
+
+/**
+ * Check the caller of an API route. The client sends its Supabase access token as a bearer token;
+ * the role is looked up as that user so it matches what row level security sees.
+ * Returns the caller, with a client that queries as them, or a 401/403 response to send back as is.
+ */
+export async function authorizeRequest(request: Request, permission?: Permission): Promise<RequestAuth | NextResponse> {
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+
+  if (!token) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const client = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL as string,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY as string,
+    {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { autoRefreshToken: false, persistSession: false },
+    }
+  );
+
+  const { data: { user }, error: userError } = await client.auth.getUser(token);
+
+  if (userError || !user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const { data: role, error: roleError } = await client.rpc('current_user_role');
+
+  if (roleError) {
+    console.error('Error fetching role:', roleError);
+    return NextResponse.json({ error: 'Failed to check permissions' }, { status: 500 });
+  }
+
+  if (permission && !roleCan(role as Role | null, permission)) {
+    return NextResponse.json({ error: 'Your role does not allow this action' }, { status: 403 });
+  }
+
+  return { userId: user.id, role: role as Role, client };
+}
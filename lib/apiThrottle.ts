@@ -0,0 +1,155 @@
+import { NextResponse } from 'next/server';
+
+// Server-side throttling for the routes that proxy paid third-party APIs (Definitive, Apollo)
+
+/**
+ * What went wrong talking to a third-party API. Sent back by the proxy routes as `code` next to `error`.
+ */
+export type UpstreamErrorCode =
+  // The API's credentials aren't set on the server
+  | 'not_configured'
+  // The API turned down our credentials
+  | 'auth_failed'
+  // Still throttled after retrying
+  | 'rate_limited'
+  // Still failing with a server error, or unreachable, after retrying
+  | 'upstream_error'
+  | 'not_found'
+  // Any other 4xx: the request itself was wrong
+  | 'invalid_request'
+  // The API answered with something that isn't JSON
+  | 'invalid_response'
+  // A blocking monthly budget for the API is used up, so the call wasn't made
+  | 'budget_exceeded';
+
+export interface ThrottleOptions {
+  // Requests in flight at once, per server instance
+  concurrency: number;
+  // Retries of a 429, or of a 5xx or network failure of an idempotent request
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_THROTTLE_OPTIONS: ThrottleOptions = {
+  concurrency: 4,
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+};
+
+/**
+ * Read throttle options from `<PREFIX>_MAX_CONCURRENCY` and `<PREFIX>_MAX_RETRIES`, falling back to the defaults
+ */
+export function throttleOptionsFromEnv(prefix: string): ThrottleOptions {
+  const readNumber = (name: string, fallback: number) => {
+    const value = Number(process.env[`${prefix}_${name}`]);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+
+  return {
+    ...DEFAULT_THROTTLE_OPTIONS,
+    concurrency: Math.max(1, readNumber('MAX_CONCURRENCY', DEFAULT_THROTTLE_OPTIONS.concurrency)),
+    retries: readNumber('MAX_RETRIES', DEFAULT_THROTTLE_OPTIONS.retries),
+  };
+}
+
+/**
+ * The error code for a failed response from a third-party API
+ */
+export function errorCodeForStatus(status: number): UpstreamErrorCode {
+  if (status === 429) return 'rate_limited';
+  if (status === 401 || status === 403) return 'auth_failed';
+  if (status === 404) return 'not_found';
+  if (status >= 500) return 'upstream_error';
+  return 'invalid_request';
+}
+
+/**
+ * The JSON error response the proxy routes send back
+ */
+export function upstreamErrorResponse(code: UpstreamErrorCode, error: string, status: number, details?: unknown) {
+  return NextResponse.json({ error, code, details }, { status });
+}
+
+// Methods that can be sent again after a server error or timeout without doing the work twice
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT'];
+
+export interface ThrottledRequestOptions {
+  // Whether a 5xx or network failure may be retried. Defaults to true for GET, HEAD and PUT; set it for a POST that
+  // only looks things up. A 429 is retried either way, since the request wasn't handled.
+  idempotent?: boolean;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Retry-After is either a number of seconds or an HTTP date
+const retryAfterMs = (response: Response): number | null => {
+  const header = response.headers.get('retry-after');
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * A fetch that runs at most `concurrency` requests at once and retries 429s, and 5xx and network failures of
+ * idempotent requests, with exponential backoff, honouring Retry-After. The limit is per server instance, so share one per API at module level.
+ * Gives back the last response once retries run out, or throws the last network error.
+ */
+export function createThrottledFetch(name: string, options: Partial<ThrottleOptions> = {}) {
+  const { concurrency, retries, baseDelayMs, maxDelayMs } = { ...DEFAULT_THROTTLE_OPTIONS, ...options };
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  const acquire = async () => {
+    if (active < concurrency) {
+      active++;
+      return;
+    }
+    // The releasing request hands its slot straight over
+    await new Promise<void>(resolve => waiting.push(resolve));
+  };
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return async function throttledFetch(url: string, init?: RequestInit, requestOptions: ThrottledRequestOptions = {}): Promise<Response> {
+    const idempotent = requestOptions.idempotent ?? IDEMPOTENT_METHODS.includes((init?.method || 'GET').toUpperCase());
+    // A server error or timeout may come after the API did the work, so only idempotent requests are sent again
+    const isRetryable = (failed: Response | null) => failed ? failed.status === 429 || (idempotent && failed.status >= 500) : idempotent;
+
+    for (let attempt = 0; ; attempt++) {
+      // Hold a slot only while the request is in flight, not while backing off
+      await acquire();
+      let response: Response | null = null;
+      let networkError: unknown = null;
+      try {
+        response = await fetch(url, init);
+      } catch (error) {
+        networkError = error;
+      } finally {
+        release();
+      }
+
+      if (!isRetryable(response) || attempt >= retries) {
+        if (response) return response;
+        throw networkError;
+      }
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+      const wait = Math.min(maxDelayMs, (response && retryAfterMs(response)) ?? backoff);
+      console.warn(`${name} request failed (${response ? response.status : 'network error'}), retrying in ${Math.round(wait)}ms`);
+      await delay(wait);
+    }
+  };
+}
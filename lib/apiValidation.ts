@@ -0,0 +1,74 @@
+// Input checks for the API routes. Each helper throws an InvalidRequestError naming the field, which the routes send
+// back as a 400.
+
+export class InvalidRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+/**
+ * The value as an object, or an error when it isn't one
+ */
+export function requireObject(value: unknown, field: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new InvalidRequestError(`${field} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * A non-empty string of at most maxLength characters, trimmed
+ */
+export function requireString(value: unknown, field: string, maxLength = 200): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new InvalidRequestError(`${field} is required`);
+  }
+  if (value.length > maxLength) {
+    throw new InvalidRequestError(`${field} must be at most ${maxLength} characters`);
+  }
+  return value.trim();
+}
+
+/**
+ * Like requireString, but missing and empty values are left out
+ */
+export function optionalString(value: unknown, field: string, maxLength = 200): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  return requireString(value, field, maxLength);
+}
+
+/**
+ * An ID made of letters, digits, dashes and underscores, safe to put in a URL path
+ */
+export function requireId(value: unknown, field: string): string {
+  const id = requireString(value, field, 64);
+  if (!/^[A-Za-z0-9_-]+$/.test(id)) {
+    throw new InvalidRequestError(`${field} is not a valid ID`);
+  }
+  return id;
+}
+
+/**
+ * A whole number between min and max
+ */
+export function requireInteger(value: unknown, field: string, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new InvalidRequestError(`${field} must be a whole number from ${min} to ${max}`);
+  }
+  return value;
+}
+
+/**
+ * An array of at most maxItems items, each checked by parseItem
+ */
+export function requireArray<T>(value: unknown, field: string, maxItems: number, parseItem: (item: unknown, itemField: string) => T): T[] {
+  if (!Array.isArray(value)) {
+    throw new InvalidRequestError(`${field} must be a list`);
+  }
+  if (value.length > maxItems) {
+    throw new InvalidRequestError(`${field} can have at most ${maxItems} items`);
+  }
+  return value.map((item, index) => parseItem(item, `${field}[${index}]`));
+}
@@ -1,4 +1,6 @@
 import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
+import { getAccessToken } from '@/lib/permissions';
+import type { ApolloOperation } from '@/lib/apolloProxy';
 
 export interface ApolloContactCreate {
   firstName: string;
@@ -9,6 +11,27 @@ export interface ApolloContactCreate {
   organization: string;
   phone: string;
   linkedinUrl: string;
+  // The contact this attendee was pushed as before, updated instead of searching again
+  apolloContactId?: string | null;
+}
+
+// A contact as Apollo returns it
+export interface ApolloContactRecord {
+  id: string;
+  person_id?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  title?: string | null;
+  organization_name?: string | null;
+  email?: string | null;
+  label_names?: string[];
+  updated_at?: string;
+}
+
+// The Apollo contact each pushed contact ended up as, in the order they were pushed
+export interface ApolloPushResult {
+  contactId: string | null;
+  created: boolean;
 }
 
 export interface ApolloContact {
@@ -80,7 +103,7 @@ export interface ApolloEnrichmentResponse {
   }>;
 }
 
-interface ApolloSearchParams {
+export interface ApolloSearchParams {
   firstName?: string;
   lastName?: string;
   organization?: string;
@@ -107,18 +130,45 @@ interface ApolloApiListResponse {
   modality: string;
 }
 
+/**
+ * Whether a proxy URL points at this app, so the user's access token is never sent to another origin
+ */
+function isSameOrigin(url: string): boolean {
+  if (url.startsWith('/') && !url.startsWith('//')) return true;
+  if (typeof window === 'undefined') return false;
+  try {
+    return new URL(url, window.location.origin).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+}
+
 export class ApolloService {
   private static instance: ApolloService;
   private client: AxiosInstance;
 
-  private constructor() {
+  protected constructor() {
+    // Point NEXT_PUBLIC_APOLLO_PROXY_URL at a local mock of the proxy to work without Apollo credits
+    const baseURL = process.env.NEXT_PUBLIC_APOLLO_PROXY_URL || '/api/apollo';
+    const sendToken = isSameOrigin(baseURL);
+
     this.client = axios.create({
-      baseURL: '/api/apollo',
+      baseURL,
       headers: {
         'Content-Type': 'application/json',
       },
     });
 
+    // Send the signed-in user's token so the API route can check their role, but only to this app
+    this.client.interceptors.request.use(async (config) => {
+      if (!sendToken) return config;
+      const token = await getAccessToken();
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+      }
+      return config;
+    });
+
     // Add response interceptor for debugging
     this.client.interceptors.response.use(
       (response: AxiosResponse) => {
@@ -141,6 +191,11 @@ export class ApolloService {
     );
   }
 
+  // Run one of the operations the /api/apollo route allows
+  protected request(operation: ApolloOperation): Promise<{ data: any }> {
+    return this.client.post('', operation);
+  }
+
   public static getInstance(): ApolloService {
     if (!ApolloService.instance) {
       ApolloService.instance = new ApolloService();
@@ -166,10 +221,9 @@ export class ApolloService {
           email: contact.email || ''
         }));
         
-        const bulkResponse = await this.client.post('', {
-          endpoint: 'people/bulk_match',
-          method: 'POST',
-          data: { details: bulkDetails }
+        const bulkResponse = await this.request({
+          operation: 'peopleBulkMatch',
+          input: { details: bulkDetails }
         });
         
         if (bulkResponse.data?.matches) {
@@ -267,7 +321,6 @@ export class ApolloService {
         if (contact.email) matchData.email = contact.email;
         
         searchStrategies.push({
-          endpoint: 'people/match',
           name: 'People Match - Full Data',
           data: matchData
         });
@@ -276,7 +329,6 @@ export class ApolloService {
       // Strategy 2: Email-only search (if we have email)
       if (contact.email) {
         searchStrategies.push({
-          endpoint: 'people/match',
           name: 'People Match - Email Only',
           data: {
             email: contact.email
@@ -287,7 +339,6 @@ export class ApolloService {
       // Strategy 3: Name + oncology keywords search
       if (contact.firstName && contact.lastName) {
         searchStrategies.push({
-          endpoint: 'people/match',
           name: 'People Match - Oncology Keywords',
           data: {
             first_name: contact.firstName,
@@ -302,10 +353,9 @@ export class ApolloService {
       
       for (const strategy of searchStrategies) {
         try {
-          const response = await this.client.post('', {
-            endpoint: strategy.endpoint,
-            method: 'POST',
-            data: strategy.data
+          const response = await this.request({
+            operation: 'peopleMatch',
+            input: strategy.data
           });
           
           // Handle different response structures
@@ -358,28 +408,49 @@ export class ApolloService {
         params.organization
       ].filter(Boolean).join('; ');
 
-      const response = await this.client.post('', {
-        endpoint: 'contacts/search',
-        method: 'POST',
-        data: {
+      const response = await this.request({
+        operation: 'searchContacts',
+        input: {
           q_keywords: keywords
         }
       });
       
-      return response.data || [];
+      // Apollo wraps the results in { contacts: [...] }
+      const contacts = Array.isArray(response.data) ? response.data : response.data?.contacts;
+      return contacts || [];
     } catch (error) {
       console.error('Error searching Apollo contacts:', error);
       throw error;
     }
   }
 
+  /**
+   * Get a contact by its Apollo ID, or null when it no longer exists in Apollo
+   */
+  async getContact(contactId: string): Promise<ApolloContactRecord | null> {
+    try {
+      const response = await this.request({
+        operation: 'getContact',
+        input: { contactId }
+      });
+
+      return response.data?.contact || null;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      console.error('Error fetching Apollo contact:', error);
+      throw error;
+    }
+  }
+
   async createContact(contact: ApolloContactCreate, labelNames: string[]): Promise<ApolloContact> {
     try {
-      const response = await this.client.post('', {
-        endpoint: 'contacts',
-        method: 'POST',
-        data: {
-          ...contact,
+      const { apolloContactId, ...contactData } = contact;
+      const response = await this.request({
+        operation: 'createContact',
+        input: {
+          ...contactData,
           label_names: labelNames
         }
       });
@@ -393,10 +464,10 @@ export class ApolloService {
 
   async updateContact(contactId: string, labelNames: string[]): Promise<ApolloContact> {
     try {
-      const response = await this.client.post('', {
-        endpoint: `contacts/${contactId}`,
-        method: 'PATCH',
-        data: {
+      const response = await this.request({
+        operation: 'updateContactLabels',
+        input: {
+          contactId,
           label_names: labelNames
         }
       });
@@ -408,17 +479,25 @@ export class ApolloService {
     }
   }
 
-  async pushContactsToApollo(contacts: ApolloContactCreate[], labelName: string): Promise<void> {
+  /**
+   * Create or label each contact in Apollo. Returns the Apollo contact each one ended up as,
+   * so the attendees can be linked to them.
+   */
+  async pushContactsToApollo(contacts: ApolloContactCreate[], labelName: string): Promise<ApolloPushResult[]> {
     try {
       console.warn('Pushing contacts to Apollo:', { contacts, labelName });
+      const results: ApolloPushResult[] = [];
       
       for (const contact of contacts) {
-        // Search for existing contact
-        const existingContacts = await this.searchContacts([{
-          firstName: contact.firstName,
-          lastName: contact.lastName,
-          organization: contact.organization
-        }]);
+        // Use the linked contact when there is one, otherwise search for an existing contact
+        const linkedContact = contact.apolloContactId ? await this.getContact(contact.apolloContactId) : null;
+        const existingContacts: Array<{ id: string; label_names?: string[] }> = linkedContact
+          ? [linkedContact]
+          : await this.searchContacts([{
+            firstName: contact.firstName,
+            lastName: contact.lastName,
+            organization: contact.organization
+          }]);
 
         if (existingContacts.length > 0) {
           // Contact exists, update with new label while preserving existing labels
@@ -426,13 +505,17 @@ export class ApolloService {
           const existingLabels = existingContact.label_names || [];
           const updatedLabels = Array.from(new Set([...existingLabels, labelName])); // Remove duplicates
           await this.updateContact(existingContact.id, updatedLabels);
+          results.push({ contactId: existingContact.id, created: false });
         } else {
           // Contact doesn't exist, create new with label
-          await this.createContact(contact, [labelName]);
+          const created: any = await this.createContact(contact, [labelName]);
+          // Apollo wraps the new contact in { contact: {...} }
+          results.push({ contactId: created?.contact?.id || created?.id || null, created: true });
         }
       }
       
       console.warn('Successfully pushed contacts to Apollo');
+      return results;
     } catch (error) {
       console.error('Error pushing contacts to Apollo:', error);
       throw error;
@@ -441,10 +524,7 @@ export class ApolloService {
 
   async getLists(): Promise<ApolloList[]> {
     try {
-      const response = await this.client.post('', {
-        endpoint: 'labels',
-        method: 'GET'
-      });
+      const response = await this.request({ operation: 'listLabels' });
       
       // Filter for contact lists only and map to our ApolloList interface
       return (response.data || [])
@@ -462,39 +542,11 @@ export class ApolloService {
     }
   }
 
-  async createList(name: string): Promise<ApolloList> {
-    try {
-      const response = await this.client.post('', {
-        endpoint: 'lists',
-        method: 'POST',
-        data: { name }
-      });
-      
-      return response.data;
-    } catch (error) {
-      console.error('Error creating Apollo list:', error);
-      throw error;
-    }
-  }
-
-  async addContactsToList(listId: string, contactIds: string[]): Promise<void> {
-    try {
-      await this.client.post('', {
-        endpoint: `lists/${listId}/add_contacts`,
-        method: 'PATCH',
-        data: { contact_ids: contactIds }
-      });
-    } catch (error) {
-      console.error('Error adding contacts to Apollo list:', error);
-      throw error;
-    }
-  }
-
   async deleteList(listId: string): Promise<void> {
     try {
-      await this.client.post('', {
-        endpoint: `lists/${listId}`,
-        method: 'DELETE'
+      await this.request({
+        operation: 'deleteList',
+        input: { listId }
       });
     } catch (error) {
       console.error('Error deleting Apollo list:', error);
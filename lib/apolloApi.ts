@@ -0,0 +1,134 @@
+import { createThrottledFetch, throttleOptionsFromEnv, errorCodeForStatus, UpstreamErrorCode } from '@/lib/apiThrottle';
+import type { ApolloProxyRequest } from '@/lib/apolloProxy';
+import { recordUsage, USAGE_PRICING } from '@/lib/enrichmentUsage';
+
+// Server-side access to the Apollo API. Only import this from API routes and server jobs: it uses the API key.
+
+export interface ApolloResponse {
+  ok: boolean;
+  status: number;
+  // Set when ok is false
+  code?: UpstreamErrorCode;
+  message?: string;
+  data: any;
+}
+
+// Every Apollo call from this server instance goes through one queue, tuned with APOLLO_MAX_CONCURRENCY and APOLLO_MAX_RETRIES
+const apolloFetch = createThrottledFetch('Apollo', throttleOptionsFromEnv('APOLLO'));
+
+/**
+ * Whether the Apollo API key is set in the environment
+ */
+export function hasApolloCredentials(): boolean {
+  return !!process.env.APOLLO_API_KEY;
+}
+
+/**
+ * Call the Apollo API through the shared queue. Failed responses are returned, not thrown, with an error code, a
+ * message and what Apollo sent back.
+ */
+export async function requestApollo({ endpoint, method, data, idempotent }: ApolloProxyRequest): Promise<ApolloResponse> {
+  const url = `${process.env.APOLLO_API_URL}/${endpoint}`;
+
+  const fetchOptions: RequestInit = {
+    method,
+    headers: {
+      'x-api-key': process.env.APOLLO_API_KEY as string,
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-cache',
+      'accept': 'application/json'
+    },
+  };
+
+  if (data) {
+    fetchOptions.body = JSON.stringify(data);
+  }
+
+  let response: Response;
+  try {
+    response = await apolloFetch(url, fetchOptions, { idempotent });
+  } catch (fetchError) {
+    console.error('Failed to reach Apollo API:', fetchError);
+    return {
+      ok: false,
+      status: 502,
+      code: 'upstream_error',
+      message: 'Failed to reach Apollo API',
+      data: { message: fetchError instanceof Error ? fetchError.message : String(fetchError) },
+    };
+  }
+
+  let responseData;
+  const responseText = await response.text();
+
+  try {
+    responseData = responseText ? JSON.parse(responseText) : null;
+  } catch (parseError) {
+    console.error('Failed to parse Apollo API response:', {
+      status: response.status,
+      text: responseText.substring(0, 1000), // Log first 1000 chars in case of large response
+      error: parseError,
+      url
+    });
+    return {
+      ok: false,
+      status: 500,
+      code: 'invalid_response',
+      message: 'Invalid response from Apollo API',
+      data: {
+        status: response.status,
+        text: responseText.substring(0, 1000),
+        parseError: parseError instanceof Error ? parseError.message : String(parseError)
+      },
+    };
+  }
+
+  if (!response.ok) {
+    console.error('Apollo API error response:', {
+      status: response.status,
+      data: responseData,
+      url
+    });
+    return {
+      ok: false,
+      status: response.status,
+      code: errorCodeForStatus(response.status),
+      message: responseData?.message || 'Apollo API request failed',
+      data: { status: response.status, data: responseData, url },
+    };
+  }
+
+  if (!responseData) {
+    return {
+      ok: false,
+      status: 500,
+      code: 'invalid_response',
+      message: 'Empty response from Apollo API',
+      data: { url, status: response.status },
+    };
+  }
+
+  return { ok: true, status: response.status, data: responseData };
+}
+
+/**
+ * Log a successful Apollo call. Apollo reports the credits a match spent; without that, assume one per person asked
+ * about. Calls that don't spend credits are logged at no cost.
+ */
+export async function recordApolloUsage(
+  apolloRequest: ApolloProxyRequest,
+  responseData: any,
+  userId: string | null
+): Promise<void> {
+  const isPaid = apolloRequest.permission === 'runPaidEnrichment';
+  const credits = isPaid ? Number(responseData?.credits_consumed ?? apolloRequest.recordCount) || 0 : 0;
+
+  await recordUsage({
+    provider: 'apollo',
+    operation: apolloRequest.operation,
+    userId,
+    recordCount: apolloRequest.recordCount,
+    credits,
+    estimatedCost: credits * USAGE_PRICING.apolloCredit,
+  });
+}
@@ -0,0 +1,443 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { ApolloEnrichmentResponse, ApolloSearchParams } from '@/lib/apollo';
+import { logSystemActivities } from '@/lib/activities';
+import { createChangeBatch, withChangeBatch } from '@/lib/fieldHistory';
+import { stringSimilarity } from '@/lib/enrichment';
+import { recordEmploymentHistories } from '@/lib/jobChanges';
+import type { Attendee } from '@/types';
+
+// Window event fired whenever match reviews are queued or resolved, so the queue count in the sidebar can refresh
+export const MATCH_REVIEWS_CHANGED_EVENT = 'matchReviewsChanged';
+
+export type ApolloMatchFactor = 'name' | 'company' | 'oncology' | 'title' | 'recency';
+
+export type ApolloMatchWeights = Record<ApolloMatchFactor, number>;
+
+export const APOLLO_MATCH_FACTORS: Array<{ factor: ApolloMatchFactor; label: string; description: string }> = [
+  { factor: 'name', label: 'Name', description: 'How close the first and last names are' },
+  { factor: 'company', label: 'Company', description: 'Whether the organization matches the attendee\'s company' },
+  { factor: 'oncology', label: 'Oncology', description: 'Whether the profile mentions an oncology keyword' },
+  { factor: 'title', label: 'Title', description: 'How close the title is' },
+  { factor: 'recency', label: 'Recency', description: 'Whether the person has a current or recent job' },
+];
+
+export interface ApolloMatchSettings {
+  weights: ApolloMatchWeights;
+  oncologyKeywords: string[];
+  // Best candidates scoring at least this (out of 100) with a close enough name are applied without review
+  autoAcceptScore: number;
+  // Best candidates scoring below this are treated as no match
+  minScore: number;
+  // Share of the name points needed to apply a match without review, from 0 to 1
+  minNameSimilarity: number;
+}
+
+export const DEFAULT_APOLLO_MATCH_SETTINGS: ApolloMatchSettings = {
+  weights: { name: 40, company: 25, oncology: 25, title: 7, recency: 3 },
+  oncologyKeywords: [
+    'oncology', 'oncologist', 'cancer', 'tumor', 'chemotherapy', 'radiation',
+    'hematology', 'leukemia', 'lymphoma', 'melanoma', 'carcinoma',
+    'oncological', 'chemotherap', 'radiolog', 'patholog', 'surgical oncolog',
+    'medical oncolog', 'radiation oncolog', 'hematolog oncolog',
+    'gynecologic oncolog', 'pediatric oncolog', 'neuro-oncolog'
+  ],
+  autoAcceptScore: 65,
+  minScore: 35,
+  minNameSimilarity: 0.75,
+};
+
+// A person Apollo returned, tagged with the contact it was searched for
+export type ApolloCandidate = ApolloEnrichmentResponse['matches'][number] & {
+  _originalContact?: { firstName?: string; lastName?: string };
+};
+
+export interface ScoredApolloCandidate {
+  match: ApolloCandidate;
+  // Out of 100
+  score: number;
+  // Points scored on each factor, out of 100 across all factors
+  breakdown: ApolloMatchWeights;
+}
+
+// accept: apply the best candidate; review: queue the candidates for a person to pick; none: no plausible match
+export type ApolloMatchDecision = 'accept' | 'review' | 'none';
+
+export type ApolloMatchReviewStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface ApolloMatchReview {
+  id: string;
+  attendeeId: string;
+  attendee: Pick<Attendee, 'id' | 'first_name' | 'last_name' | 'title' | 'company' | 'email' | 'linkedin_url'> | null;
+  candidates: ScoredApolloCandidate[];
+  status: ApolloMatchReviewStatus;
+  chosenPersonId: string | null;
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+const SETTINGS_ID = true;
+
+// Map an apollo_match_settings row to the shape the UI uses, filling in anything missing from the defaults
+const toSettings = (row: any): ApolloMatchSettings => ({
+  weights: { ...DEFAULT_APOLLO_MATCH_SETTINGS.weights, ...(row.weights || {}) },
+  oncologyKeywords: row.oncology_keywords || DEFAULT_APOLLO_MATCH_SETTINGS.oncologyKeywords,
+  autoAcceptScore: Number(row.auto_accept_score),
+  minScore: Number(row.min_score),
+  minNameSimilarity: Number(row.min_name_similarity),
+});
+
+// Map an apollo_match_reviews row (with its embedded attendee) to the shape the UI uses
+const toReview = (row: any): ApolloMatchReview => ({
+  id: row.id,
+  attendeeId: row.attendee_id,
+  attendee: row.attendees ? { id: row.attendee_id, ...row.attendees } : null,
+  candidates: row.candidates || [],
+  status: row.status,
+  chosenPersonId: row.chosen_person_id,
+  createdAt: row.created_at,
+  resolvedAt: row.resolved_at,
+});
+
+const notifyMatchReviewsChanged = () => {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(MATCH_REVIEWS_CHANGED_EVENT));
+  }
+};
+
+/**
+ * Get the workspace's match settings, or the defaults when none have been saved
+ */
+export async function fetchApolloMatchSettings(client: SupabaseClient = supabase): Promise<ApolloMatchSettings> {
+  const { data, error } = await client
+    .from('apollo_match_settings')
+    .select('*')
+    .eq('id', SETTINGS_ID)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching Apollo match settings:', error);
+    throw new Error(`Failed to fetch Apollo match settings: ${error.message}`);
+  }
+
+  return data ? toSettings(data) : DEFAULT_APOLLO_MATCH_SETTINGS;
+}
+
+/**
+ * Save the workspace's match settings
+ */
+export async function saveApolloMatchSettings(settings: ApolloMatchSettings): Promise<ApolloMatchSettings> {
+  const { data, error } = await supabase
+    .from('apollo_match_settings')
+    .upsert({
+      id: SETTINGS_ID,
+      weights: settings.weights,
+      oncology_keywords: settings.oncologyKeywords.map(keyword => keyword.trim().toLowerCase()).filter(Boolean),
+      auto_accept_score: settings.autoAcceptScore,
+      min_score: settings.minScore,
+      min_name_similarity: settings.minNameSimilarity,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving Apollo match settings:', error);
+    throw new Error(`Failed to save Apollo match settings: ${error.message}`);
+  }
+
+  return toSettings(data);
+}
+
+/**
+ * Whether an Apollo person's title, headline, organization or past jobs mention one of the oncology keywords
+ */
+export function isOncologyRelated(match: ApolloCandidate, keywords: string[]): boolean {
+  const searchText = [
+    match.title || '',
+    match.headline || '',
+    match.organization?.name || '',
+    match.organization?.industry || '',
+    ...(match.employment_history || []).map(job => `${job.title} ${job.organization_name}`)
+  ].join(' ').toLowerCase();
+
+  return keywords.some(keyword => searchText.includes(keyword.toLowerCase()));
+}
+
+/**
+ * Score how likely an Apollo person is to be the attendee, out of 100, with the points from each factor
+ */
+export function scoreApolloCandidate(attendee: Attendee, match: ApolloCandidate, settings: ApolloMatchSettings): ScoredApolloCandidate {
+  const { weights } = settings;
+  const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0) || 1;
+  const scale = (points: number) => points * 100 / totalWeight;
+
+  const firstNameSimilarity = stringSimilarity(match.first_name?.toLowerCase() || '', attendee.first_name.toLowerCase());
+  const lastNameSimilarity = stringSimilarity(match.last_name?.toLowerCase() || '', attendee.last_name.toLowerCase());
+  const name = (firstNameSimilarity * 0.4 + lastNameSimilarity * 0.6) * weights.name;
+
+  // Full points for the same company, most for one name containing the other, and a share of the fuzzy similarity otherwise
+  let company = 0;
+  if (attendee.company && match.organization?.name) {
+    const companyName = attendee.company.toLowerCase();
+    const matchCompanyName = match.organization.name.toLowerCase();
+
+    if (companyName === matchCompanyName) {
+      company = weights.company;
+    } else if (companyName.includes(matchCompanyName) || matchCompanyName.includes(companyName)) {
+      company = weights.company * 0.8;
+    } else {
+      company = stringSimilarity(companyName, matchCompanyName) * weights.company * 0.6;
+    }
+  }
+
+  const oncology = isOncologyRelated(match, settings.oncologyKeywords) ? weights.oncology : 0;
+
+  const title = attendee.title && match.title
+    ? stringSimilarity(attendee.title.toLowerCase(), match.title.toLowerCase()) * weights.title
+    : 0;
+
+  // Full points for a current job, half for one that ended in the last two years
+  let recency = 0;
+  const history = match.employment_history || [];
+  if (history.some(job => job.current)) {
+    recency = weights.recency;
+  } else {
+    const mostRecent = history
+      .filter(job => job.end_date)
+      .sort((a, b) => new Date(b.end_date as string).getTime() - new Date(a.end_date as string).getTime())[0];
+    const twoYearsAgo = new Date();
+    twoYearsAgo.setFullYear(twoYearsAgo.getFullYear() - 2);
+
+    if (mostRecent && new Date(mostRecent.end_date as string) > twoYearsAgo) {
+      recency = weights.recency * 0.5;
+    }
+  }
+
+  const breakdown = {
+    name: scale(name),
+    company: scale(company),
+    oncology: scale(oncology),
+    title: scale(title),
+    recency: scale(recency),
+  };
+
+  return {
+    match,
+    score: Object.values(breakdown).reduce((sum, points) => sum + points, 0),
+    breakdown,
+  };
+}
+
+/**
+ * Score the Apollo people found for an attendee and return the best few, best first.
+ * Only people found by searching for a similar name are considered.
+ */
+export function rankApolloCandidates(
+  attendee: Attendee,
+  matches: ApolloCandidate[],
+  settings: ApolloMatchSettings,
+  limit = 5
+): ScoredApolloCandidate[] {
+  return matches
+    .filter(match => {
+      const original = match._originalContact;
+      if (!original) return false;
+
+      return stringSimilarity(original.firstName?.toLowerCase() || '', attendee.first_name.toLowerCase()) > 0.7
+        && stringSimilarity(original.lastName?.toLowerCase() || '', attendee.last_name.toLowerCase()) > 0.7;
+    })
+    .map(match => scoreApolloCandidate(attendee, match, settings))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Decide what to do with an attendee's ranked candidates
+ */
+export function decideApolloMatch(candidates: ScoredApolloCandidate[], settings: ApolloMatchSettings): ApolloMatchDecision {
+  const best = candidates[0];
+  if (!best || best.score < settings.minScore) return 'none';
+
+  const totalWeight = Object.values(settings.weights).reduce((sum, weight) => sum + weight, 0) || 1;
+  const nameShare = settings.weights.name > 0 ? best.breakdown.name / (settings.weights.name * 100 / totalWeight) : 1;
+
+  return best.score >= settings.autoAcceptScore && nameShare >= settings.minNameSimilarity ? 'accept' : 'review';
+}
+
+/**
+ * What Apollo is asked to match an attendee on
+ */
+export function toApolloSearchParams(attendee: Attendee): ApolloSearchParams {
+  return {
+    firstName: attendee.first_name,
+    lastName: attendee.last_name,
+    organization: attendee.company || '',
+    title: attendee.title || '',
+    email: attendee.email || '',
+    phone: attendee.phone || '',
+    linkedinUrl: attendee.linkedin_url || ''
+  };
+}
+
+/**
+ * Save matched Apollo people onto their attendees as one change batch, keeping existing values Apollo doesn't have,
+ * then compare their employment histories to queue job changes
+ */
+export async function applyApolloMatches(
+  entries: Array<{ attendee: Attendee; match: ApolloCandidate }>,
+  label = 'Apollo enrichment',
+  client: SupabaseClient = supabase
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const changeBatchId = await createChangeBatch('apollo', label, client);
+
+  const results = await Promise.all(entries.map(({ attendee, match }) =>
+    withChangeBatch(client
+      .from('attendees')
+      .update({
+        email: match.email || attendee.email,
+        phone: match.phone || attendee.phone,
+        title: match.headline || attendee.title,
+        company: match.organization?.name || attendee.company,
+        linkedin_url: match.linkedin_url || attendee.linkedin_url,
+        apollo_person_id: match.id || attendee.apollo_person_id,
+      })
+      .eq('id', attendee.id), changeBatchId)
+  ));
+
+  const failed = results.find(result => result.error);
+  if (failed?.error) {
+    console.error('Error applying Apollo matches:', failed.error);
+    throw new Error(`Failed to apply Apollo matches: ${failed.error.message}`);
+  }
+
+  await recordEmploymentHistories(entries.map(({ attendee, match }) => ({
+    attendeeId: attendee.id,
+    history: match.employment_history || [],
+  })), client).catch(err => console.error('Failed to check for job changes:', err));
+}
+
+/**
+ * Queue low-confidence matches for review, replacing the attendees' pending reviews
+ */
+export async function queueApolloMatchReviews(
+  entries: Array<{ attendeeId: string; candidates: ScoredApolloCandidate[] }>,
+  client: SupabaseClient = supabase
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const { error: deleteError } = await client
+    .from('apollo_match_reviews')
+    .delete()
+    .eq('status', 'pending')
+    .in('attendee_id', entries.map(entry => entry.attendeeId));
+
+  if (deleteError) {
+    console.error('Error replacing match reviews:', deleteError);
+    throw new Error(`Failed to replace match reviews: ${deleteError.message}`);
+  }
+
+  const { error } = await client
+    .from('apollo_match_reviews')
+    .insert(entries.map(entry => ({ attendee_id: entry.attendeeId, candidates: entry.candidates })));
+
+  if (error) {
+    console.error('Error queueing match reviews:', error);
+    throw new Error(`Failed to queue match reviews: ${error.message}`);
+  }
+
+  notifyMatchReviewsChanged();
+}
+
+/**
+ * Get the match reviews waiting for a decision, oldest first
+ */
+export async function fetchPendingMatchReviews(): Promise<ApolloMatchReview[]> {
+  const { data, error } = await supabase
+    .from('apollo_match_reviews')
+    .select('*, attendees(first_name, last_name, title, company, email, linkedin_url)')
+    .eq('status', 'pending')
+    .order('created_at');
+
+  if (error) {
+    console.error('Error fetching match reviews:', error);
+    throw new Error(`Failed to fetch match reviews: ${error.message}`);
+  }
+
+  return (data || []).map(toReview);
+}
+
+/**
+ * Count the match reviews waiting for a decision
+ */
+export async function fetchPendingMatchReviewCount(): Promise<number> {
+  const { count, error } = await supabase
+    .from('apollo_match_reviews')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'pending');
+
+  if (error) {
+    console.error('Error counting match reviews:', error);
+    throw new Error(`Failed to count match reviews: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+const resolveReview = async (reviewId: string, status: ApolloMatchReviewStatus, userId: string | null, chosenPersonId: string | null = null) => {
+  const { error } = await supabase
+    .from('apollo_match_reviews')
+    .update({ status, chosen_person_id: chosenPersonId, resolved_at: new Date().toISOString(), resolved_by: userId })
+    .eq('id', reviewId);
+
+  if (error) {
+    console.error('Error resolving match review:', error);
+    throw new Error(`Failed to resolve match review: ${error.message}`);
+  }
+};
+
+/**
+ * Apply one of a review's candidates to its attendee
+ */
+export async function acceptMatchReview(review: ApolloMatchReview, candidate: ScoredApolloCandidate, userId: string | null): Promise<void> {
+  const { data: attendee, error } = await supabase
+    .from('attendees')
+    .select('*')
+    .eq('id', review.attendeeId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching attendee for match review:', error);
+    throw new Error(`Failed to fetch attendee: ${error.message}`);
+  }
+
+  await applyApolloMatches([{ attendee, match: candidate.match }], 'Apollo match review');
+  await resolveReview(review.id, 'accepted', userId, candidate.match.id);
+
+  await logSystemActivities([{
+    attendeeId: review.attendeeId,
+    type: 'enrichment',
+    summary: `Apollo match accepted in review (score ${Math.round(candidate.score)})`,
+    details: { source: 'apollo', success: true, person_id: candidate.match.id },
+  }]);
+
+  notifyMatchReviewsChanged();
+}
+
+/**
+ * Reject every candidate in a review, leaving the attendee as is
+ */
+export async function rejectMatchReview(review: ApolloMatchReview, userId: string | null): Promise<void> {
+  await resolveReview(review.id, 'rejected', userId);
+
+  await logSystemActivities([{
+    attendeeId: review.attendeeId,
+    type: 'enrichment',
+    summary: 'Apollo matches rejected in review',
+    details: { source: 'apollo', success: false },
+  }]);
+
+  notifyMatchReviewsChanged();
+}
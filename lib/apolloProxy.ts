@@ -0,0 +1,163 @@
+import type { Permission } from '@/lib/permissions';
+import { requireObject, requireString, optionalString, requireId, requireArray, InvalidRequestError } from '@/lib/apiValidation';
+
+// The Apollo operations the app uses. The browser names one of these and the /api/apollo route builds the Apollo
+// request itself, so callers can't reach any other endpoint.
+
+export interface ApolloPersonMatchInput {
+  first_name?: string;
+  last_name?: string;
+  organization_name?: string;
+  title?: string;
+  email?: string;
+  q_keywords?: string;
+}
+
+export interface ApolloContactInput {
+  firstName: string;
+  lastName: string;
+  name?: string;
+  email?: string;
+  title?: string;
+  organization?: string;
+  phone?: string;
+  linkedinUrl?: string;
+  label_names: string[];
+}
+
+export type ApolloOperation =
+  | { operation: 'peopleBulkMatch'; input: { details: ApolloPersonMatchInput[] } }
+  | { operation: 'peopleMatch'; input: ApolloPersonMatchInput }
+  | { operation: 'searchContacts'; input: { q_keywords: string } }
+  | { operation: 'getContact'; input: { contactId: string } }
+  | { operation: 'createContact'; input: ApolloContactInput }
+  | { operation: 'updateContactLabels'; input: { contactId: string; label_names: string[] } }
+  | { operation: 'listLabels' }
+  | { operation: 'deleteList'; input: { listId: string } };
+
+export interface ApolloProxyRequest {
+  operation: ApolloOperation['operation'];
+  // The people the call is about, for the usage log
+  recordCount: number;
+  endpoint: string;
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  data?: Record<string, unknown>;
+  // A POST that only looks things up, so it can be retried after a server error
+  idempotent?: boolean;
+  permission: Permission;
+}
+
+// Bulk match requests with more people than this are turned down
+const MAX_BULK_MATCH_DETAILS = 100;
+
+const parsePersonMatch = (value: unknown, field: string): ApolloPersonMatchInput => {
+  const input = requireObject(value, field);
+  const person: ApolloPersonMatchInput = {
+    first_name: optionalString(input.first_name, `${field}.first_name`),
+    last_name: optionalString(input.last_name, `${field}.last_name`),
+    organization_name: optionalString(input.organization_name, `${field}.organization_name`),
+    title: optionalString(input.title, `${field}.title`),
+    email: optionalString(input.email, `${field}.email`),
+    q_keywords: optionalString(input.q_keywords, `${field}.q_keywords`),
+  };
+
+  if (!person.email && !(person.first_name && person.last_name)) {
+    throw new InvalidRequestError(`${field} needs an email or a first and last name`);
+  }
+  return person;
+};
+
+const parseLabelNames = (value: unknown, field: string) =>
+  requireArray(value, field, 50, (label, labelField) => requireString(label, labelField, 100));
+
+/**
+ * Check an operation sent by the browser and turn it into the Apollo request to make, with the permission it needs.
+ * Throws an InvalidRequestError for unknown operations and bad input.
+ */
+export function toApolloRequest(body: unknown): ApolloProxyRequest {
+  const { operation, input: rawInput } = requireObject(body, 'body');
+  const input = rawInput === undefined ? {} : requireObject(rawInput, 'input');
+
+  switch (operation) {
+    case 'peopleBulkMatch': {
+      const details = requireArray(input.details, 'details', MAX_BULK_MATCH_DETAILS, parsePersonMatch);
+      return {
+        operation,
+        recordCount: details.length,
+        endpoint: 'people/bulk_match',
+        method: 'POST',
+        data: { details },
+        idempotent: true,
+        permission: 'runPaidEnrichment',
+      };
+    }
+    case 'peopleMatch':
+      return {
+        operation,
+        recordCount: 1,
+        endpoint: 'people/match',
+        method: 'POST',
+        data: { ...parsePersonMatch(input, 'input') },
+        idempotent: true,
+        permission: 'runPaidEnrichment',
+      };
+    case 'searchContacts':
+      return {
+        operation,
+        recordCount: 0,
+        endpoint: 'contacts/search',
+        method: 'POST',
+        data: { q_keywords: requireString(input.q_keywords, 'q_keywords', 500) },
+        idempotent: true,
+        permission: 'editRecords',
+      };
+    case 'getContact':
+      return {
+        operation,
+        recordCount: 1,
+        endpoint: `contacts/${requireId(input.contactId, 'contactId')}`,
+        method: 'GET',
+        permission: 'editRecords',
+      };
+    case 'createContact':
+      return {
+        operation,
+        recordCount: 1,
+        endpoint: 'contacts',
+        method: 'POST',
+        data: {
+          firstName: requireString(input.firstName, 'firstName'),
+          lastName: requireString(input.lastName, 'lastName'),
+          name: optionalString(input.name, 'name'),
+          email: optionalString(input.email, 'email'),
+          title: optionalString(input.title, 'title'),
+          organization: optionalString(input.organization, 'organization'),
+          phone: optionalString(input.phone, 'phone', 50),
+          linkedinUrl: optionalString(input.linkedinUrl, 'linkedinUrl', 500),
+          label_names: parseLabelNames(input.label_names, 'label_names'),
+        },
+        permission: 'editRecords',
+      };
+    case 'updateContactLabels':
+      return {
+        operation,
+        recordCount: 1,
+        endpoint: `contacts/${requireId(input.contactId, 'contactId')}`,
+        method: 'PATCH',
+        data: { label_names: parseLabelNames(input.label_names, 'label_names') },
+        permission: 'editRecords',
+      };
+    case 'listLabels':
+      return { operation, recordCount: 0, endpoint: 'labels', method: 'GET', permission: 'editRecords' };
+    case 'deleteList':
+      return {
+        operation,
+        recordCount: 0,
+        endpoint: `lists/${requireId(input.listId, 'listId')}`,
+        method: 'DELETE',
+        permission: 'editRecords',
+      };
+    default:
+      throw new InvalidRequestError('Unknown Apollo operation');
+  }
+}
@@ -0,0 +1,179 @@
+import { supabase } from '@/lib/supabase';
+import { apolloService, ApolloContactRecord, ApolloPushResult } from '@/lib/apollo';
+import { logSystemActivities } from '@/lib/activities';
+import { createChangeBatch, withChangeBatch } from '@/lib/fieldHistory';
+import type { Attendee } from '@/types';
+
+export type ApolloSyncField = 'title' | 'company' | 'email';
+
+// The attendee fields pulled from Apollo, and where each one comes from on an Apollo contact
+export const APOLLO_SYNC_FIELDS: Array<{
+  field: ApolloSyncField;
+  label: string;
+  getValue: (contact: ApolloContactRecord) => string | null | undefined;
+}> = [
+  { field: 'title', label: 'Title', getValue: contact => contact.title },
+  { field: 'company', label: 'Company', getValue: contact => contact.organization_name },
+  { field: 'email', label: 'Email', getValue: contact => contact.email },
+];
+
+// A field whose value in Apollo differs from the attendee's
+export interface ApolloFieldChange {
+  attendeeId: string;
+  attendeeName: string;
+  field: ApolloSyncField;
+  label: string;
+  currentValue: string | null;
+  apolloValue: string;
+}
+
+export interface ApolloSyncPreview {
+  changes: ApolloFieldChange[];
+  // Linked attendees that were checked, whether or not anything changed
+  checkedIds: string[];
+  // Attendees that were never pushed, so have no Apollo contact to pull from
+  notLinked: Attendee[];
+  // Attendees whose Apollo contact has been deleted
+  missing: Attendee[];
+  failed: Array<{ attendee: Attendee; error: string }>;
+}
+
+const normalize = (field: ApolloSyncField, value: string | null | undefined) => {
+  const trimmed = (value || '').trim();
+  return field === 'email' ? trimmed.toLowerCase() : trimmed;
+};
+
+/**
+ * Compare an attendee with its Apollo contact. Fields empty in Apollo are left alone rather than cleared.
+ */
+export function diffApolloContact(attendee: Attendee, contact: ApolloContactRecord): ApolloFieldChange[] {
+  return APOLLO_SYNC_FIELDS.flatMap(({ field, label, getValue }) => {
+    const apolloValue = (getValue(contact) || '').trim();
+    const currentValue = attendee[field] || null;
+
+    if (!apolloValue || normalize(field, apolloValue) === normalize(field, currentValue)) return [];
+
+    return [{
+      attendeeId: attendee.id,
+      attendeeName: `${attendee.first_name} ${attendee.last_name}`,
+      field,
+      label,
+      currentValue,
+      apolloValue,
+    }];
+  });
+}
+
+/**
+ * Fetch the linked Apollo contact of each attendee and work out what changed, without saving anything
+ */
+export async function previewApolloSync(
+  attendees: Attendee[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ApolloSyncPreview> {
+  const preview: ApolloSyncPreview = { changes: [], checkedIds: [], notLinked: [], missing: [], failed: [] };
+  const linked = attendees.filter(attendee => attendee.apollo_contact_id);
+  preview.notLinked = attendees.filter(attendee => !attendee.apollo_contact_id);
+
+  for (const [index, attendee] of Array.from(linked.entries())) {
+    try {
+      const contact = await apolloService.getContact(attendee.apollo_contact_id as string);
+      if (contact) {
+        preview.changes.push(...diffApolloContact(attendee, contact));
+        preview.checkedIds.push(attendee.id);
+      } else {
+        preview.missing.push(attendee);
+      }
+    } catch (error) {
+      preview.failed.push({ attendee, error: error instanceof Error ? error.message : 'Failed to fetch from Apollo' });
+    }
+    onProgress?.(index + 1, linked.length);
+  }
+
+  return preview;
+}
+
+/**
+ * Save the chosen changes as one Apollo change batch and mark every checked attendee as synced.
+ * Returns how many attendees were updated.
+ */
+export async function applyApolloSync(changes: ApolloFieldChange[], checkedIds: string[]): Promise<number> {
+  const syncedAt = new Date().toISOString();
+  const changesByAttendee = new Map<string, ApolloFieldChange[]>();
+  changes.forEach(change => {
+    changesByAttendee.set(change.attendeeId, [...(changesByAttendee.get(change.attendeeId) || []), change]);
+  });
+
+  const changeBatchId = changes.length > 0 ? await createChangeBatch('apollo', 'Apollo sync') : null;
+
+  for (const [attendeeId, attendeeChanges] of Array.from(changesByAttendee.entries())) {
+    const updates = Object.fromEntries(attendeeChanges.map(change => [change.field, change.apolloValue]));
+    const { error } = await withChangeBatch(supabase
+      .from('attendees')
+      .update({ ...updates, apollo_synced_at: syncedAt })
+      .eq('id', attendeeId), changeBatchId);
+
+    if (error) {
+      console.error('Error applying Apollo changes:', error);
+      throw new Error(`Failed to apply Apollo changes: ${error.message}`);
+    }
+  }
+
+  // Attendees that were checked but had nothing to change (or whose changes were skipped) are in sync too
+  const unchangedIds = checkedIds.filter(id => !changesByAttendee.has(id));
+  if (unchangedIds.length > 0) {
+    const { error } = await supabase
+      .from('attendees')
+      .update({ apollo_synced_at: syncedAt })
+      .in('id', unchangedIds);
+
+    if (error) {
+      console.error('Error marking attendees as synced:', error);
+      throw new Error(`Failed to mark attendees as synced: ${error.message}`);
+    }
+  }
+
+  await logSystemActivities(Array.from(changesByAttendee.entries()).map(([attendeeId, attendeeChanges]) => ({
+    attendeeId,
+    type: 'apollo_sync',
+    summary: `Updated ${attendeeChanges.map(change => change.label.toLowerCase()).join(', ')} from Apollo`,
+    details: { fields: attendeeChanges.map(change => change.field) },
+  })));
+
+  return changesByAttendee.size;
+}
+
+/**
+ * Link attendees to the Apollo contacts they were pushed as, in the same order
+ */
+export async function linkApolloContacts(attendeeIds: string[], results: ApolloPushResult[]): Promise<void> {
+  const pushedAt = new Date().toISOString();
+
+  const updates = await Promise.all(attendeeIds.map((attendeeId, index) => {
+    const contactId = results[index]?.contactId;
+    return supabase
+      .from('attendees')
+      .update(contactId ? { apollo_contact_id: contactId, apollo_pushed_at: pushedAt } : { apollo_pushed_at: pushedAt })
+      .eq('id', attendeeId);
+  }));
+
+  const failed = updates.find(result => result.error);
+  if (failed?.error) {
+    console.error('Error linking Apollo contacts:', failed.error);
+    throw new Error(`Failed to link Apollo contacts: ${failed.error.message}`);
+  }
+}
+
+/**
+ * Describe an attendee's Apollo link, e.g. "In Apollo, synced Mar 3"
+ */
+export function describeApolloSync(attendee: Attendee): string {
+  if (!attendee.apollo_contact_id) return 'Not in Apollo';
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+  if (attendee.apollo_synced_at) return `In Apollo, synced ${formatDate(attendee.apollo_synced_at)}`;
+  if (attendee.apollo_pushed_at) return `In Apollo, pushed ${formatDate(attendee.apollo_pushed_at)}`;
+  return 'In Apollo';
+}
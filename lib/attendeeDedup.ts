@@ -0,0 +1,219 @@
+import { supabase } from '@/lib/supabase';
+import { stringSimilarity } from '@/lib/enrichment';
+import type { Attendee } from '@/types';
+import { createChangeBatch, withChangeBatch } from '@/lib/fieldHistory';
+
+// Fields that are never offered as merge choices (the survivor keeps its owner)
+const SYSTEM_FIELDS = [
+  'id', 'created_at', 'updated_at', 'health_systems', 'attendee_conferences', 'attendee_lists',
+  'owner_id', 'owner_email', 'owner_overridden', 'employment_history',
+];
+
+export interface DuplicateCandidate {
+  key: string;
+  attendees: [Attendee, Attendee];
+  score: number;
+  reasons: string[];
+}
+
+export interface MergeResult {
+  survivor: Attendee;
+  merged: Attendee[];
+  success: boolean;
+  error?: string;
+  conferencesMoved?: number;
+  listsMoved?: number;
+}
+
+const normalize = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+const normalizePhone = (value: unknown) => {
+  const digits = String(value ?? '').replace(/\D/g, '');
+  // Compare on the last 10 digits so "+1 (555) 123-4567" matches "555.123.4567"
+  return digits.length >= 7 ? digits.slice(-10) : '';
+};
+
+const normalizeLinkedIn = (value: unknown) =>
+  normalize(value)
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/[?#].*$/, '')
+    .replace(/\/+$/, '');
+
+const fullName = (attendee: Attendee) => `${normalize(attendee.first_name)} ${normalize(attendee.last_name)}`.trim();
+
+/**
+ * Score how likely two attendees are the same person (0-100)
+ */
+export function scoreAttendeePair(a: Attendee, b: Attendee): { score: number; reasons: string[] } {
+  const reasons: string[] = [];
+  let score = 0;
+
+  // Name similarity carries up to 50 points
+  const nameSimilarity = stringSimilarity(fullName(a), fullName(b));
+  if (nameSimilarity === 1) {
+    reasons.push('Same name');
+  } else if (nameSimilarity >= 0.8) {
+    reasons.push(`Similar name (${Math.round(nameSimilarity * 100)}%)`);
+  }
+  score += nameSimilarity * 50;
+
+  if (normalize(a.email) && normalize(a.email) === normalize(b.email)) {
+    score += 35;
+    reasons.push('Same email');
+  }
+
+  if (normalizePhone(a.phone) && normalizePhone(a.phone) === normalizePhone(b.phone)) {
+    score += 25;
+    reasons.push('Same phone');
+  }
+
+  if (normalizeLinkedIn(a.linkedin_url) && normalizeLinkedIn(a.linkedin_url) === normalizeLinkedIn(b.linkedin_url)) {
+    score += 35;
+    reasons.push('Same LinkedIn');
+  }
+
+  if (normalize(a.company) && normalize(b.company)) {
+    const companySimilarity = stringSimilarity(normalize(a.company), normalize(b.company));
+    if (companySimilarity >= 0.8) {
+      score += 10;
+      reasons.push('Same company');
+    }
+  }
+
+  return { score: Math.min(100, Math.round(score)), reasons };
+}
+
+/**
+ * Load every attendee in pages (Supabase caps a single select at 1000 rows)
+ */
+export async function fetchAllAttendees(): Promise<Attendee[]> {
+  const pageSize = 1000;
+  const attendees: Attendee[] = [];
+  let page = 0;
+
+  while (true) {
+    const { data, error } = await supabase
+      .from('attendees')
+      .select('*, health_systems (id, name)')
+      .order('created_at', { ascending: true })
+      .range(page * pageSize, (page + 1) * pageSize - 1);
+
+    if (error) {
+      console.error('Error fetching attendees for duplicate check:', error);
+      throw new Error(`Failed to fetch attendees: ${error.message}`);
+    }
+
+    attendees.push(...(data || []));
+
+    if (!data || data.length < pageSize) break;
+    page++;
+  }
+
+  return attendees;
+}
+
+/**
+ * Find candidate duplicate pairs scoring at or above minScore.
+ * Attendees are only compared within blocks that share an email, phone, LinkedIn
+ * or the start of their last name, so large tables don't need an all-pairs scan.
+ */
+export function findDuplicateCandidates(attendees: Attendee[], minScore = 60): DuplicateCandidate[] {
+  const blocks = new Map<string, number[]>();
+
+  const addToBlock = (key: string, index: number) => {
+    const block = blocks.get(key);
+    if (block) {
+      block.push(index);
+    } else {
+      blocks.set(key, [index]);
+    }
+  };
+
+  attendees.forEach((attendee, index) => {
+    const lastName = normalize(attendee.last_name).replace(/[^a-z]/g, '');
+    if (lastName) addToBlock(`name:${lastName.slice(0, 2)}`, index);
+    if (normalize(attendee.email)) addToBlock(`email:${normalize(attendee.email)}`, index);
+    if (normalizePhone(attendee.phone)) addToBlock(`phone:${normalizePhone(attendee.phone)}`, index);
+    if (normalizeLinkedIn(attendee.linkedin_url)) addToBlock(`linkedin:${normalizeLinkedIn(attendee.linkedin_url)}`, index);
+  });
+
+  const candidates = new Map<string, DuplicateCandidate>();
+
+  blocks.forEach(indices => {
+    for (let i = 0; i < indices.length; i++) {
+      for (let j = i + 1; j < indices.length; j++) {
+        const a = attendees[indices[i]];
+        const b = attendees[indices[j]];
+        const key = [a.id, b.id].sort().join(':');
+        if (candidates.has(key)) continue;
+
+        const { score, reasons } = scoreAttendeePair(a, b);
+        if (score >= minScore) {
+          candidates.set(key, { key, attendees: [a, b], score, reasons });
+        }
+      }
+    }
+  });
+
+  return Array.from(candidates.values()).sort((x, y) => y.score - x.score);
+}
+
+/**
+ * Get the fields that can be picked per attendee on the merge screen
+ */
+export function getMergeFields(attendees: Attendee[]): string[] {
+  const keys = new Set<string>();
+  attendees.forEach(attendee => {
+    Object.keys(attendee).forEach(key => {
+      if (!SYSTEM_FIELDS.includes(key)) keys.add(key);
+    });
+  });
+
+  // Keep the core fields first in a predictable order
+  const preferred = ['first_name', 'last_name', 'email', 'phone', 'title', 'company', 'linkedin_url', 'health_system_id', 'certifications', 'notes'];
+  return [
+    ...preferred.filter(key => keys.has(key)),
+    ...Array.from(keys).filter(key => !preferred.includes(key)).sort()
+  ];
+}
+
+/**
+ * Merge duplicates into the survivor in a single transaction via the merge_attendees database function
+ */
+export async function mergeAttendees(
+  survivor: Attendee,
+  duplicates: Attendee[],
+  values: Record<string, any>
+): Promise<MergeResult> {
+  try {
+    // Record the survivor's field changes as a merge in its history
+    const changeBatchId = await createChangeBatch('merge', `Merged ${duplicates.length} duplicate${duplicates.length === 1 ? '' : 's'}`);
+
+    const { data, error } = await withChangeBatch(supabase.rpc('merge_attendees', {
+      in_survivor_id: survivor.id,
+      in_duplicate_ids: duplicates.map(duplicate => duplicate.id),
+      in_values: values,
+    }), changeBatchId);
+
+    if (error) {
+      console.error('Error merging attendees:', error);
+      throw new Error(`Failed to merge attendees: ${error.message}`);
+    }
+
+    return {
+      survivor: { ...survivor, ...values },
+      merged: duplicates,
+      success: true,
+      conferencesMoved: data?.conferences_moved ?? 0,
+      listsMoved: data?.lists_moved ?? 0,
+    };
+  } catch (error) {
+    return {
+      survivor,
+      merged: duplicates,
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to merge attendees',
+    };
+  }
+}
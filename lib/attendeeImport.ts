@@ -0,0 +1,335 @@
+import * as XLSX from 'xlsx';
+import { supabase } from '@/lib/supabase';
+import type { Attendee } from '@/types';
+
+// Virtual target that splits a single "Name" column into first_name / last_name
+export const FULL_NAME_FIELD = '__full_name';
+
+// Columns that are managed by the database and never mapped from a spreadsheet
+const EXCLUDED_COLUMNS = ['id', 'created_at', 'updated_at', 'health_system_id', 'owner_id', 'owner_email', 'owner_overridden',
+  'apollo_contact_id', 'apollo_person_id', 'apollo_pushed_at', 'apollo_synced_at', 'employment_history'];
+
+// Common spreadsheet header spellings for the built-in attendee fields
+const HEADER_ALIASES: Record<string, string[]> = {
+  [FULL_NAME_FIELD]: ['name', 'fullname', 'attendee', 'attendeename', 'contactname'],
+  first_name: ['firstname', 'first', 'givenname', 'fname'],
+  last_name: ['lastname', 'last', 'surname', 'familyname', 'lname'],
+  email: ['email', 'emailaddress', 'email1', 'workemail', 'businessemail'],
+  phone: ['phone', 'phonenumber', 'telephone', 'mobile', 'cell', 'workphone'],
+  title: ['title', 'jobtitle', 'position', 'role'],
+  company: ['company', 'companyname', 'organization', 'organisation', 'institution', 'employer', 'affiliation'],
+  linkedin_url: ['linkedin', 'linkedinurl', 'linkedinprofile'],
+  certifications: ['certifications', 'credentials', 'degrees'],
+  notes: ['notes', 'comments'],
+};
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ImportField {
+  id: string;
+  label: string;
+  dataType: string;
+}
+
+// Maps a spreadsheet header to an attendee column id ('' means skip)
+export type ColumnMapping = Record<string, string>;
+
+export type ImportAction = 'create' | 'link' | 'skip';
+
+export interface DuplicateMatch {
+  attendee: Pick<Attendee, 'id' | 'first_name' | 'last_name' | 'email' | 'company'> | null;
+  reason: 'email' | 'name_company' | 'in_file';
+}
+
+export interface ImportRow {
+  index: number;
+  data: Record<string, any>;
+  action: ImportAction;
+  duplicate?: DuplicateMatch;
+  error?: string;
+}
+
+export interface ImportResult {
+  row: ImportRow;
+  success: boolean;
+  attendeeId?: string;
+  error?: string;
+}
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const normalizeValue = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+/**
+ * Read a CSV or XLSX file into a list of header-keyed rows (first sheet only)
+ */
+export async function parseImportFile(file: File): Promise<ParsedSheet> {
+  const isCsv = file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv';
+
+  const workbook = isCsv
+    ? XLSX.read(await file.text(), { type: 'string', raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) {
+    throw new Error('The file does not contain any sheets');
+  }
+
+  const grid = XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    raw: false,
+    defval: '',
+    blankrows: false,
+  });
+
+  if (grid.length === 0) {
+    throw new Error('The file is empty');
+  }
+
+  // De-duplicate header names so every column stays addressable
+  const seen: Record<string, number> = {};
+  const headers = grid[0].map((header, index) => {
+    const base = String(header).trim() || `Column ${index + 1}`;
+    seen[base] = (seen[base] || 0) + 1;
+    return seen[base] > 1 ? `${base} (${seen[base]})` : base;
+  });
+
+  const rows = grid.slice(1)
+    .map(cells => {
+      const row: Record<string, string> = {};
+      headers.forEach((header, index) => {
+        row[header] = String(cells[index] ?? '').trim();
+      });
+      return row;
+    })
+    .filter(row => Object.values(row).some(value => value !== ''));
+
+  return { headers, rows };
+}
+
+/**
+ * Build the list of attendee columns a spreadsheet column can be mapped to
+ */
+export function getImportFields(
+  columns: Array<{ id: string; header: string; table: string; data_type: string }>
+): ImportField[] {
+  const fields: ImportField[] = [
+    { id: FULL_NAME_FIELD, label: 'Full Name (split into first/last)', dataType: 'text' },
+  ];
+
+  columns
+    .filter(col => col.table === 'attendees' && !EXCLUDED_COLUMNS.includes(col.id))
+    .forEach(col => {
+      fields.push({ id: col.id, label: col.header, dataType: col.data_type });
+    });
+
+  return fields;
+}
+
+/**
+ * Guess a mapping from spreadsheet headers to attendee columns
+ */
+export function autoMapColumns(headers: string[], fields: ImportField[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  headers.forEach(header => {
+    const normalized = normalizeHeader(header);
+
+    // Exact column name match first (covers dynamic columns), then known aliases
+    let match = fields.find(field => normalizeHeader(field.id) === normalized || normalizeHeader(field.label) === normalized);
+    if (!match) {
+      match = fields.find(field => HEADER_ALIASES[field.id]?.includes(normalized));
+    }
+
+    if (match && !used.has(match.id)) {
+      mapping[header] = match.id;
+      used.add(match.id);
+    } else {
+      mapping[header] = '';
+    }
+  });
+
+  // Prefer explicit first/last columns over a combined name column
+  if (used.has(FULL_NAME_FIELD) && used.has('first_name') && used.has('last_name')) {
+    const fullNameHeader = Object.keys(mapping).find(header => mapping[header] === FULL_NAME_FIELD);
+    if (fullNameHeader) {
+      mapping[fullNameHeader] = '';
+    }
+  }
+
+  return mapping;
+}
+
+// Convert a raw cell into the value expected by the target column type
+const coerceValue = (value: string, dataType: string): any => {
+  if (dataType === 'ARRAY') {
+    return value.split(/[;,]/).map(part => part.trim()).filter(Boolean);
+  }
+  if (['integer', 'bigint', 'smallint', 'numeric', 'real', 'double precision'].includes(dataType)) {
+    const parsed = Number(value.replace(/[$,]/g, ''));
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  if (dataType === 'boolean') {
+    return ['true', 'yes', 'y', '1'].includes(value.toLowerCase());
+  }
+  return value;
+};
+
+/**
+ * Apply a column mapping to the parsed rows
+ */
+export function buildImportRows(sheet: ParsedSheet, mapping: ColumnMapping, fields: ImportField[]): ImportRow[] {
+  return sheet.rows.map((sourceRow, index) => {
+    const data: Record<string, any> = {};
+
+    Object.entries(mapping).forEach(([header, fieldId]) => {
+      const value = sourceRow[header];
+      if (!fieldId || !value) return;
+
+      if (fieldId === FULL_NAME_FIELD) {
+        const parts = value.split(/\s+/);
+        if (!data.first_name) data.first_name = parts.shift() || '';
+        if (!data.last_name) data.last_name = parts.join(' ');
+        return;
+      }
+
+      const field = fields.find(f => f.id === fieldId);
+      const coerced = coerceValue(value, field?.dataType || 'text');
+      if (coerced !== null) {
+        data[fieldId] = coerced;
+      }
+    });
+
+    if (!data.certifications) {
+      data.certifications = [];
+    }
+
+    const row: ImportRow = { index, data, action: 'create' };
+
+    if (!data.first_name || !data.last_name) {
+      row.action = 'skip';
+      row.error = 'Missing first or last name';
+    }
+
+    return row;
+  });
+}
+
+// Split an array into chunks so .in() filters stay within URL limits
+const chunk = <T,>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/**
+ * Flag rows that likely already exist, either in the database or earlier in the same file.
+ * A row is a duplicate when its email matches, or when first name, last name and company all match.
+ * Duplicates of existing attendees default to "link" so they are only added to the conference.
+ */
+export async function detectDuplicates(rows: ImportRow[]): Promise<ImportRow[]> {
+  const candidates = rows.filter(row => !row.error);
+  const emails = Array.from(new Set(candidates.map(row => normalizeValue(row.data.email)).filter(Boolean)));
+  const lastNames = Array.from(new Set(candidates.map(row => String(row.data.last_name || '').trim()).filter(Boolean)));
+
+  const existing = new Map<string, DuplicateMatch['attendee']>();
+  const select = 'id, first_name, last_name, email, company';
+
+  for (const emailChunk of chunk(emails, 100)) {
+    const { data, error } = await supabase.from('attendees').select(select).in('email', emailChunk);
+    if (error) throw new Error(`Failed to check for duplicates: ${error.message}`);
+    data?.forEach(attendee => existing.set(attendee.id, attendee));
+  }
+
+  for (const nameChunk of chunk(lastNames, 100)) {
+    const { data, error } = await supabase.from('attendees').select(select).in('last_name', nameChunk);
+    if (error) throw new Error(`Failed to check for duplicates: ${error.message}`);
+    data?.forEach(attendee => existing.set(attendee.id, attendee));
+  }
+
+  const existingAttendees = Array.from(existing.values()).filter(Boolean) as NonNullable<DuplicateMatch['attendee']>[];
+  const nameKey = (first: unknown, last: unknown, company: unknown) =>
+    `${normalizeValue(first)}|${normalizeValue(last)}|${normalizeValue(company)}`;
+
+  const seenEmails = new Set<string>();
+  const seenNames = new Set<string>();
+
+  return rows.map(row => {
+    if (row.error) return row;
+
+    const email = normalizeValue(row.data.email);
+    const key = nameKey(row.data.first_name, row.data.last_name, row.data.company);
+
+    const emailMatch = email
+      ? existingAttendees.find(attendee => normalizeValue(attendee.email) === email)
+      : undefined;
+    const nameMatch = existingAttendees.find(attendee =>
+      nameKey(attendee.first_name, attendee.last_name, attendee.company) === key
+    );
+
+    let updated: ImportRow = row;
+
+    if (emailMatch || nameMatch) {
+      updated = {
+        ...row,
+        action: 'link',
+        duplicate: {
+          attendee: (emailMatch || nameMatch)!,
+          reason: emailMatch ? 'email' : 'name_company'
+        }
+      };
+    } else if ((email && seenEmails.has(email)) || seenNames.has(key)) {
+      updated = { ...row, action: 'skip', duplicate: { attendee: null, reason: 'in_file' } };
+    }
+
+    if (email) seenEmails.add(email);
+    seenNames.add(key);
+
+    return updated;
+  });
+}
+
+/**
+ * Write the import in a single transaction via the import_attendees database function
+ */
+export async function importAttendees(rows: ImportRow[], conferenceId: string | null): Promise<ImportResult[]> {
+  const payload = rows
+    .filter(row => row.action !== 'skip')
+    .map(row => ({
+      row_index: row.index,
+      action: row.action,
+      data: row.action === 'create' ? row.data : undefined,
+      existing_id: row.action === 'link' ? row.duplicate?.attendee?.id : undefined,
+    }));
+
+  if (payload.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase.rpc('import_attendees', {
+    in_rows: payload,
+    in_conference_id: conferenceId,
+  });
+
+  if (error) {
+    console.error('Error importing attendees:', error);
+    throw new Error(`Failed to import attendees: ${error.message}`);
+  }
+
+  const written = (data || []) as Array<{ row_index: number; attendee_id: string }>;
+
+  return rows
+    .filter(row => row.action !== 'skip')
+    .map(row => {
+      const result = written.find(item => item.row_index === row.index);
+      return result
+        ? { row, success: true, attendeeId: result.attendee_id }
+        : { row, success: false, error: 'Row was not written' };
+    });
+}
@@ -0,0 +1,259 @@
+import { supabase } from '@/lib/supabase';
+import type { EntityTableName } from '@/lib/queryFilters';
+import { getAccessToken, Permission } from '@/lib/permissions';
+
+export type AutomationAction = 'ai_prompt' | 'definitive' | 'apollo_match';
+
+export type AutomationTrigger = 'schedule' | 'conference_attendee_added' | 'stale_data';
+
+export type AutomationRunStatus = 'running' | 'completed' | 'failed';
+
+export const AUTOMATION_ACTION_LABELS: Record<AutomationAction, string> = {
+  ai_prompt: 'Run a saved AI prompt',
+  definitive: 'Definitive enrichment',
+  apollo_match: 'Apollo match',
+};
+
+export const AUTOMATION_TRIGGER_LABELS: Record<AutomationTrigger, string> = {
+  schedule: 'On a schedule',
+  conference_attendee_added: 'When an attendee is added to a conference',
+  stale_data: 'When data is older than',
+};
+
+export const AUTOMATION_RUN_STATUS_LABELS: Record<AutomationRunStatus, string> = {
+  running: 'Running',
+  completed: 'Completed',
+  failed: 'Failed',
+};
+
+export const AUTOMATION_TABLE_LABELS: Record<EntityTableName, string> = {
+  attendees: 'Attendees',
+  health_systems: 'Health systems',
+  conferences: 'Conferences',
+};
+
+// The tables each action can run on
+export const AUTOMATION_ACTION_TABLES: Record<AutomationAction, EntityTableName[]> = {
+  ai_prompt: ['attendees', 'health_systems', 'conferences'],
+  definitive: ['health_systems'],
+  apollo_match: ['attendees'],
+};
+
+// The permission needed to manage rules with each action, as with running it by hand
+export const AUTOMATION_ACTION_PERMISSIONS: Record<AutomationAction, Permission> = {
+  ai_prompt: 'manageEnrichmentSettings',
+  definitive: 'runPaidEnrichment',
+  apollo_match: 'runPaidEnrichment',
+};
+
+// Schedule periods that can be picked, in days
+export const AUTOMATION_SCHEDULE_PERIODS: Array<{ days: number; label: string }> = [
+  { days: 1, label: 'Daily' },
+  { days: 7, label: 'Weekly' },
+  { days: 30, label: 'Monthly' },
+  { days: 90, label: 'Quarterly' },
+];
+
+export interface AutomationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  action: AutomationAction;
+  promptId: string | null;
+  tableName: EntityTableName;
+  trigger: AutomationTrigger;
+  // How often a scheduled rule runs each record, or how old a stale data rule's records must be
+  periodDays: number | null;
+  conferenceId: string | null;
+  lastRunAt: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface NewAutomationRule {
+  name: string;
+  action: AutomationAction;
+  promptId?: string | null;
+  tableName: EntityTableName;
+  trigger: AutomationTrigger;
+  periodDays?: number | null;
+  conferenceId?: string | null;
+}
+
+export interface AutomationRuleRun {
+  id: string;
+  ruleId: string;
+  status: AutomationRunStatus;
+  recordCount: number;
+  succeededCount: number;
+  failedCount: number;
+  aiJobId: string | null;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+// What a pass of the runner did
+export interface AutomationRunnerResult {
+  // Rules checked for records to run on
+  rules: number;
+  // Rules that ran on records
+  runs: number;
+  records: number;
+}
+
+const toRule = (row: any): AutomationRule => ({
+  id: row.id,
+  name: row.name,
+  enabled: row.enabled,
+  action: row.action,
+  promptId: row.prompt_id,
+  tableName: row.table_name,
+  trigger: row.trigger_type,
+  periodDays: row.period_days,
+  conferenceId: row.conference_id,
+  lastRunAt: row.last_run_at,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+});
+
+const toRun = (row: any): AutomationRuleRun => ({
+  id: row.id,
+  ruleId: row.rule_id,
+  status: row.status,
+  recordCount: row.record_count,
+  succeededCount: row.succeeded_count,
+  failedCount: row.failed_count,
+  aiJobId: row.ai_job_id,
+  error: row.error,
+  startedAt: row.started_at,
+  finishedAt: row.finished_at,
+});
+
+/**
+ * Check a rule before saving it. Returns what is wrong, or null when it can be saved.
+ */
+export function validateAutomationRule(rule: NewAutomationRule): string | null {
+  if (!rule.name.trim()) return 'Give the rule a name';
+  if (rule.action === 'ai_prompt' && !rule.promptId) return 'Pick the saved prompt to run';
+  if (!AUTOMATION_ACTION_TABLES[rule.action].includes(rule.tableName)) {
+    return `${AUTOMATION_ACTION_LABELS[rule.action]} can't run on this table`;
+  }
+  if (rule.trigger === 'conference_attendee_added') {
+    if (rule.tableName !== 'attendees') return 'Conference rules run on attendees';
+    if (!rule.conferenceId) return 'Pick the conference to watch';
+  } else if (!rule.periodDays || rule.periodDays < 1) {
+    return 'Set a number of days of at least 1';
+  }
+  return null;
+}
+
+/**
+ * Get the automation rules, oldest first
+ */
+export async function fetchAutomationRules(): Promise<AutomationRule[]> {
+  const { data, error } = await supabase
+    .from('automation_rules')
+    .select('*')
+    .order('created_at');
+
+  if (error) {
+    console.error('Error fetching automation rules:', error);
+    throw new Error(`Failed to fetch automation rules: ${error.message}`);
+  }
+
+  return (data || []).map(toRule);
+}
+
+/**
+ * Add an automation rule. It starts enabled and is picked up by the next runner check.
+ */
+export async function createAutomationRule(rule: NewAutomationRule): Promise<AutomationRule> {
+  const { data, error } = await supabase
+    .from('automation_rules')
+    .insert({
+      name: rule.name.trim(),
+      action: rule.action,
+      prompt_id: rule.action === 'ai_prompt' ? rule.promptId : null,
+      table_name: rule.tableName,
+      trigger_type: rule.trigger,
+      period_days: rule.trigger === 'conference_attendee_added' ? null : rule.periodDays,
+      conference_id: rule.trigger === 'conference_attendee_added' ? rule.conferenceId : null,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('Error creating automation rule:', error);
+    throw new Error(`Failed to create automation rule: ${error.message}`);
+  }
+
+  return toRule(data);
+}
+
+/**
+ * Turn a rule on or off. A rule turned back on carries on with the records it hasn't run on.
+ */
+export async function setAutomationRuleEnabled(ruleId: string, enabled: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('automation_rules')
+    .update({ enabled })
+    .eq('id', ruleId);
+
+  if (error) {
+    console.error('Error updating automation rule:', error);
+    throw new Error(`Failed to update automation rule: ${error.message}`);
+  }
+}
+
+/**
+ * Delete a rule with its run history
+ */
+export async function deleteAutomationRule(ruleId: string): Promise<void> {
+  const { error } = await supabase
+    .from('automation_rules')
+    .delete()
+    .eq('id', ruleId);
+
+  if (error) {
+    console.error('Error deleting automation rule:', error);
+    throw new Error(`Failed to delete automation rule: ${error.message}`);
+  }
+}
+
+/**
+ * Get a rule's recent runs, newest first
+ */
+export async function fetchAutomationRuleRuns(ruleId: string, limit = 20): Promise<AutomationRuleRun[]> {
+  const { data, error } = await supabase
+    .from('automation_rule_runs')
+    .select('*')
+    .eq('rule_id', ruleId)
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching automation rule runs:', error);
+    throw new Error(`Failed to fetch automation rule runs: ${error.message}`);
+  }
+
+  return (data || []).map(toRun);
+}
+
+/**
+ * Check the enabled rules now instead of waiting for the scheduler
+ */
+export async function runAutomationRulesNow(): Promise<AutomationRunnerResult> {
+  const accessToken = await getAccessToken();
+  const response = await fetch('/api/automation/run', {
+    method: 'POST',
+    headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(body.details || body.error || 'Failed to run automation rules');
+  }
+
+  return body;
+}
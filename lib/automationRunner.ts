@@ -0,0 +1,306 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AutomationAction, AutomationRunnerResult } from '@/lib/automationRules';
+import { createAIEnrichmentJob } from '@/lib/aiEnrichmentJobs';
+import { findExhaustedAIEnrichmentBudget } from '@/lib/aiEnrichment';
+import { fetchSettledHealthSystemIds, recordDefinitiveMatchResults, applyDefinitiveMatches, needsDefinitiveReview } from '@/lib/definitiveMatching';
+import {
+  fetchApolloMatchSettings,
+  toApolloSearchParams,
+  rankApolloCandidates,
+  decideApolloMatch,
+  applyApolloMatches,
+  queueApolloMatchReviews,
+  ApolloCandidate,
+  ScoredApolloCandidate
+} from '@/lib/apolloMatching';
+import { ServerDefinitiveService, ServerApolloService } from '@/lib/serverEnrichment';
+import { createChangeBatch } from '@/lib/fieldHistory';
+import { fetchUserRole } from '@/lib/permissions';
+import { logSystemActivities, NewActivity } from '@/lib/activities';
+import { isBudgetExhausted, USAGE_PROVIDER_LABELS } from '@/lib/enrichmentUsage';
+import type { Attendee, HealthSystem } from '@/types';
+
+// Server-side only: checks the enabled automation rules and runs each on the records it picks, with the same
+// services as the manual runs. Needs a service role client.
+
+// How long a runner holds a rule. Longer than a run takes, so two runners don't share a rule.
+const RULE_LEASE_SECONDS = 240;
+
+// A rule isn't started with less time than this left before the deadline
+const MIN_RUN_TIME_MS = 90 * 1000;
+
+// Records per run; the rest wait for the next check. AI prompt rules only queue a job, so they take more.
+const MAX_RECORDS_PER_RUN: Record<AutomationAction, number> = {
+  ai_prompt: 500,
+  definitive: 25,
+  apollo_match: 40,
+};
+
+// Attendees sent to Apollo per call, as in the manual run
+const APOLLO_BATCH_SIZE = 20;
+
+// Record ids per request, to keep the query string short
+const RECORD_ID_CHUNK_SIZE = 100;
+
+// What a rule's action did with its records
+interface RunOutcome {
+  succeeded: number;
+  failed: number;
+  aiJobId?: string;
+}
+
+type ActionRunner = (client: SupabaseClient, rule: any, recordIds: string[]) => Promise<RunOutcome>;
+
+const fetchRecords = async (client: SupabaseClient, tableName: string, recordIds: string[]) => {
+  const records: any[] = [];
+  for (let start = 0; start < recordIds.length; start += RECORD_ID_CHUNK_SIZE) {
+    const { data, error } = await client
+      .from(tableName)
+      .select('*')
+      .in('id', recordIds.slice(start, start + RECORD_ID_CHUNK_SIZE));
+
+    if (error) {
+      throw new Error(`Failed to fetch ${tableName}: ${error.message}`);
+    }
+    records.push(...(data || []));
+  }
+  return records;
+};
+
+// Queue an AI enrichment job with the saved prompt. The worker writes its results to the records when it finishes.
+const runAIPrompt: ActionRunner = async (client, rule, recordIds) => {
+  const exhaustedProvider = await findExhaustedAIEnrichmentBudget(client);
+  if (exhaustedProvider) {
+    throw new Error(`This month's ${USAGE_PROVIDER_LABELS[exhaustedProvider]} budget is used up`);
+  }
+
+  const { data: prompt, error } = await client
+    .from('ai_prompts')
+    .select('*')
+    .eq('id', rule.prompt_id)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to fetch the saved prompt: ${error.message}`);
+  }
+  // Prompts saved before output fields don't say which column to fill in
+  if (!prompt.output_fields || prompt.output_fields.length === 0) {
+    throw new Error(`The saved prompt "${prompt.name}" has no output fields; save it again from AI enrichment`);
+  }
+
+  const items = await fetchRecords(client, rule.table_name, recordIds);
+  const job = await createAIEnrichmentJob({
+    items,
+    promptTemplate: prompt.prompt_template,
+    promptName: prompt.name,
+    outputFields: prompt.output_fields,
+    createdBy: rule.created_by,
+    automationRuleId: rule.id,
+  }, client);
+
+  return { succeeded: items.length, failed: 0, aiJobId: job.id };
+};
+
+// Match health systems in Definitive, writing confident matches and queueing the rest for review
+const runDefinitive: ActionRunner = async (client, rule, recordIds) => {
+  if (await isBudgetExhausted('definitive', client)) {
+    throw new Error('This month\'s Definitive budget is used up');
+  }
+
+  // Skip health systems whose Definitive link was confirmed in review
+  const settledIds = await fetchSettledHealthSystemIds(recordIds, client);
+  const healthSystems = (await fetchRecords(client, 'health_systems', recordIds) as HealthSystem[])
+    .filter(system => !settledIds.has(system.id));
+
+  if (healthSystems.length === 0) return { succeeded: 0, failed: 0 };
+
+  // The runner counts as an admin, so only add missing columns for rules an admin made
+  const canAddColumns = await fetchUserRole(rule.created_by, client) === 'admin';
+  const results = await new ServerDefinitiveService(client, rule.created_by).enrichHealthSystems(healthSystems);
+
+  const changeBatchId = await createChangeBatch('definitive', rule.name, client);
+  await recordDefinitiveMatchResults(results, client);
+  await applyDefinitiveMatches(results, changeBatchId, client, canAddColumns);
+
+  await logSystemActivities(results.map(result => ({
+    healthSystemId: result.healthSystem.id,
+    type: 'enrichment',
+    summary: needsDefinitiveReview(result)
+      ? `Automation rule "${rule.name}" sent the Definitive match to review`
+      : `Enriched from Definitive by automation rule "${rule.name}"`,
+    details: { source: 'definitive', success: !needsDefinitiveReview(result), automationRuleId: rule.id }
+  })), client);
+
+  const succeeded = results.filter(result => !needsDefinitiveReview(result)).length;
+  return { succeeded, failed: results.length - succeeded };
+};
+
+// Match attendees in Apollo with the workspace's match settings, writing confident matches and queueing the rest for
+// review
+const runApolloMatch: ActionRunner = async (client, rule, recordIds) => {
+  if (await isBudgetExhausted('apollo', client)) {
+    throw new Error('This month\'s Apollo budget is used up');
+  }
+
+  const attendees = await fetchRecords(client, 'attendees', recordIds) as Attendee[];
+  const matchSettings = await fetchApolloMatchSettings(client);
+  const service = new ServerApolloService(client, rule.created_by);
+
+  const acceptedMatches: Array<{ attendee: Attendee; match: ApolloCandidate }> = [];
+  const reviews: Array<{ attendeeId: string; candidates: ScoredApolloCandidate[] }> = [];
+  const activities: NewActivity[] = [];
+
+  for (let start = 0; start < attendees.length; start += APOLLO_BATCH_SIZE) {
+    const batch = attendees.slice(start, start + APOLLO_BATCH_SIZE);
+    const enrichedData = await service.enrichContacts(batch.map(toApolloSearchParams));
+
+    for (const attendee of batch) {
+      const candidates = rankApolloCandidates(attendee, enrichedData?.matches || [], matchSettings);
+      const decision = decideApolloMatch(candidates, matchSettings);
+
+      if (decision === 'accept') {
+        acceptedMatches.push({ attendee, match: candidates[0].match });
+      } else if (decision === 'review') {
+        reviews.push({ attendeeId: attendee.id, candidates });
+      }
+
+      activities.push({
+        attendeeId: attendee.id,
+        type: 'enrichment',
+        summary: decision === 'accept'
+          ? `Automation rule "${rule.name}" found an Apollo match`
+          : decision === 'review'
+            ? `Automation rule "${rule.name}" sent a low-confidence Apollo match to review`
+            : `Automation rule "${rule.name}" found no Apollo match`,
+        details: { source: 'apollo', success: decision === 'accept', automationRuleId: rule.id }
+      });
+    }
+  }
+
+  await applyApolloMatches(acceptedMatches, rule.name, client);
+  await queueApolloMatchReviews(reviews, client);
+  await logSystemActivities(activities, client);
+
+  return { succeeded: acceptedMatches.length, failed: attendees.length - acceptedMatches.length };
+};
+
+const ACTION_RUNNERS: Record<AutomationAction, ActionRunner> = {
+  ai_prompt: runAIPrompt,
+  definitive: runDefinitive,
+  apollo_match: runApolloMatch,
+};
+
+// Remember that the rule ran on the records, so they wait for their next period
+const markRecordsRun = async (client: SupabaseClient, ruleId: string, recordIds: string[]) => {
+  const now = new Date().toISOString();
+  const { error } = await client
+    .from('automation_rule_records')
+    .upsert(recordIds.map(recordId => ({ rule_id: ruleId, record_id: recordId, last_run_at: now })), {
+      onConflict: 'rule_id,record_id',
+    });
+
+  if (error) {
+    throw new Error(`Failed to record automation rule records: ${error.message}`);
+  }
+};
+
+const finishRun = async (client: SupabaseClient, runId: string, changes: Record<string, unknown>) => {
+  const { error } = await client
+    .from('automation_rule_runs')
+    .update({ ...changes, finished_at: new Date().toISOString() })
+    .eq('id', runId);
+
+  if (error) {
+    console.error(`Error finishing automation rule run ${runId}:`, error);
+  }
+};
+
+/**
+ * Run a claimed rule on the records it picks now, recording the run. Records of a failed run are picked again at the
+ * next check. Returns the number of records the rule ran on.
+ */
+async function runRule(client: SupabaseClient, rule: any): Promise<number> {
+  const action = rule.action as AutomationAction;
+  const { data: targets, error } = await client.rpc('automation_rule_targets', {
+    target_rule_id: rule.id,
+    max_records: MAX_RECORDS_PER_RUN[action],
+  });
+
+  if (error) {
+    throw new Error(`Failed to pick records for automation rule: ${error.message}`);
+  }
+
+  const recordIds: string[] = (targets || []).map((row: any) => row.target_id);
+  if (recordIds.length === 0) return 0;
+
+  const { data: run, error: runError } = await client
+    .from('automation_rule_runs')
+    .insert({ rule_id: rule.id, record_count: recordIds.length })
+    .select('id')
+    .single();
+
+  if (runError) {
+    throw new Error(`Failed to start automation rule run: ${runError.message}`);
+  }
+
+  try {
+    const outcome = await ACTION_RUNNERS[action](client, rule, recordIds);
+    await markRecordsRun(client, rule.id, recordIds);
+    await finishRun(client, run.id, {
+      status: 'completed',
+      succeeded_count: outcome.succeeded,
+      failed_count: outcome.failed,
+      ai_job_id: outcome.aiJobId || null,
+    });
+  } catch (runFailure) {
+    console.error(`Error running automation rule ${rule.id}:`, runFailure);
+    await finishRun(client, run.id, {
+      status: 'failed',
+      failed_count: recordIds.length,
+      error: runFailure instanceof Error ? runFailure.message : 'Unknown error',
+    });
+  }
+
+  await client.from('automation_rules').update({ last_run_at: new Date().toISOString() }).eq('id', rule.id);
+  return recordIds.length;
+}
+
+/**
+ * Check each enabled rule once, oldest checked first, running it on the records it picks, until every rule has been
+ * checked or too little time is left before the deadline (a timestamp in milliseconds). Rules left for lack of time
+ * are checked first next time.
+ */
+export async function processAutomationRules(client: SupabaseClient, deadline: number): Promise<AutomationRunnerResult> {
+  const result: AutomationRunnerResult = { rules: 0, runs: 0, records: 0 };
+  const checkedBefore = new Date().toISOString();
+
+  while (deadline - Date.now() >= MIN_RUN_TIME_MS) {
+    const { data, error } = await client.rpc('claim_automation_rule', {
+      checked_before: checkedBefore,
+      lease_seconds: RULE_LEASE_SECONDS,
+    });
+
+    if (error) {
+      console.error('Error claiming an automation rule:', error);
+      throw new Error(`Failed to claim an automation rule: ${error.message}`);
+    }
+
+    const rule = (data || [])[0];
+    if (!rule) break;
+
+    result.rules++;
+    try {
+      const records = await runRule(client, rule);
+      if (records > 0) {
+        result.runs++;
+        result.records += records;
+      }
+    } catch (ruleError) {
+      console.error(`Error checking automation rule ${rule.id}:`, ruleError);
+    } finally {
+      await client.from('automation_rules').update({ locked_until: null }).eq('id', rule.id);
+    }
+  }
+
+  return result;
+}
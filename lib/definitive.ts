@@ -1,4 +1,9 @@
 import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAccessToken } from '@/lib/permissions';
+import { searchDefinitiveCatalog } from '@/lib/definitiveCatalog';
+import type { UpstreamErrorCode } from '@/lib/apiThrottle';
+import { sanitizeHospitalQuery, DefinitiveOperation } from '@/lib/definitiveProxy';
 
 // Interfaces for Definitive API types
 export interface DefinitiveHospitalSearchResult {
@@ -52,26 +57,66 @@ export interface DefinitiveEnrichmentResult {
   success: boolean;
   error?: string;
   confidence?: number;
+  // The matched hospital, kept so a reviewer can confirm it without another lookup
+  match?: DefinitiveHospital;
   alternativeMatches?: Array<{
     name: string;
     id: number;
     confidence: number;
+    hospital?: DefinitiveHospital;
   }>;
+  // A low-confidence match sent to the Definitive review queue instead of being applied
+  inReview?: boolean;
 }
 
-// Interface for health system cache
-export interface HealthSystemCache {
-  timestamp: number;
-  systems: DefinitiveHospital[];
+/**
+ * The health system fields filled in from a Definitive hospital
+ */
+export function toHealthSystemFields(hospital: DefinitiveHospital) {
+  return {
+    definitive_id: hospital.Id.toString(),
+    website: hospital.WebSite,
+    address: hospital.Address,
+    city: hospital.HQCity,
+    state: hospital.State,
+    zip: hospital.Zip,
+    ambulatory_ehr: hospital.EMRVendorAmbulatory,
+    net_patient_revenue: hospital.NetPatientRev,
+    number_of_beds: hospital.NumBeds,
+    number_of_hospitals_in_network: hospital.NumHospitals || 1
+  };
+}
+
+// Messages for the error codes the proxy route sends back
+export const DEFINITIVE_ERROR_MESSAGES: Partial<Record<UpstreamErrorCode, string>> = {
+  not_configured: 'Definitive is not set up on the server',
+  auth_failed: 'Definitive turned down the server\'s credentials',
+  rate_limited: 'Definitive is rate limiting requests, try again in a few minutes',
+  upstream_error: 'Definitive is not responding, try again later',
+  budget_exceeded: 'This month\'s Definitive budget is used up',
+};
+
+/**
+ * A failed call to the Definitive proxy, with the error code it sent back. Permission failures from the route itself
+ * have no code.
+ */
+export class DefinitiveApiError extends Error {
+  constructor(message: string, public code: UpstreamErrorCode | null, public status: number | null) {
+    super(message);
+    this.name = 'DefinitiveApiError';
+  }
 }
 
+// Hospitals taken from the catalog search to score against a health system name
+const CATALOG_CANDIDATES = 25;
+
 export class DefinitiveService {
   private static instance: DefinitiveService;
   private client: AxiosInstance;
-  private healthSystemsCache: HealthSystemCache | null = null;
-  private readonly CACHE_DURATION_MS = 24 * 60 * 60 * 1000; // 24 hours
+  // Searches the stored catalog as the signed-in user unless a subclass sets another client
+  protected catalogClient?: SupabaseClient;
 
-  private constructor() {
+  protected constructor() {
     this.client = axios.create({
       baseURL: '/api/definitive',
       headers: {
@@ -79,6 +124,15 @@ export class DefinitiveService {
       },
     });
 
+    // Send the signed-in user's token so the API route can check their role
+    this.client.interceptors.request.use(async (config) => {
+      const token = await getAccessToken();
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+      }
+      return config;
+    });
+
     // Add response interceptor for debugging
     this.client.interceptors.response.use(
       (response: AxiosResponse) => {
@@ -89,18 +143,28 @@ export class DefinitiveService {
         });
         return response;
       },
-      (error: AxiosError) => {
+      (error: AxiosError<{ error?: string; code?: UpstreamErrorCode }>) => {
         console.error('Definitive API Error:', {
           url: error.config?.url,
           status: error.response?.status,
           data: error.response?.data,
           message: error.message,
         });
-        throw error;
+        const code = error.response?.data?.code || null;
+        throw new DefinitiveApiError(
+          (code && DEFINITIVE_ERROR_MESSAGES[code]) || error.response?.data?.error || error.message,
+          code,
+          error.response?.status ?? null
+        );
       }
     );
   }
 
+  // Run one of the operations the /api/definitive route allows
+  protected request(operation: DefinitiveOperation): Promise<{ data: any }> {
+    return this.client.post('', operation);
+  }
+
   public static getInstance(): DefinitiveService {
     if (!DefinitiveService.instance) {
       DefinitiveService.instance = new DefinitiveService();
@@ -108,55 +172,6 @@ export class DefinitiveService {
     return DefinitiveService.instance;
   }
 
-  /**
-   * Fetch all health systems from Definitive Healthcare
-   * Uses caching to avoid excessive API calls
-   */
-  async getAllHealthSystems(): Promise<DefinitiveHospital[]> {
-    try {
-      // Check if we have a valid cache
-      const now = Date.now();
-      if (this.healthSystemsCache && 
-          (now - this.healthSystemsCache.timestamp < this.CACHE_DURATION_MS)) {
-        console.log('Using cached health systems data');
-        return this.healthSystemsCache.systems;
-      }
-
-      console.log('Fetching all health systems from Definitive');
-      
-      // Fetch health systems - adjust the filter as needed based on API capabilities
-      const response = await this.client.post('', {
-        endpoint: 'odata-v4/Hospitals',
-        method: 'GET',
-        params: {
-          '$orderby': 'Name asc'
-        }
-      });
-
-      if (response.data?.value) {
-        console.log('Fetched health systems:', response.data.value.length);
-        // Update cache
-        this.healthSystemsCache = {
-          timestamp: now,
-          systems: response.data.value
-        };
-        return response.data.value;
-      }
-      
-      return [];
-    } catch (error) {
-      console.error('Error fetching all health systems:', error);
-      
-      // If cache exists but is expired, still use it in case of error
-      if (this.healthSystemsCache) {
-        console.log('Using expired cache due to fetch error');
-        return this.healthSystemsCache.systems;
-      }
-      
-      return [];
-    }
-  }
-
   /**
    * Calculate string similarity score using Levenshtein distance
    * Returns a value between 0 (no match) and 1 (perfect match)
@@ -201,22 +216,17 @@ export class DefinitiveService {
 
   /**
    * Search for hospitals in Definitive Healthcare by name
+   * Throws a DefinitiveApiError when Definitive can't be searched right now, rather than reporting no results
    */
   async searchHospitals(searchParams: DefinitiveSearchParams): Promise<DefinitiveHospitalSearchResult> {
     try {
-      // First, try to sanitize the input to make it more OData-friendly
-      const sanitizeInput = (input: string): string => {
-        // Remove any characters that might cause issues with OData
-        return input.replace(/[^\w\s.-]/g, '').trim();
-      };
-
       // Start with the original query
       let safeQuery = searchParams.query.trim();
       let searchTerms = safeQuery.split(/\s+/).filter(term => term.length > 1);
       
       // If no valid search terms, use a sanitized version
       if (searchTerms.length === 0) {
-        safeQuery = sanitizeInput(safeQuery);
+        safeQuery = sanitizeHospitalQuery(safeQuery);
         searchTerms = [safeQuery];
       }
 
@@ -224,26 +234,25 @@ export class DefinitiveService {
       try {
         // APPROACH 1: Try a sanitized search (most likely to succeed)
         // Remove special characters entirely for a simple search
-        const sanitizedQuery = sanitizeInput(safeQuery);
+        const sanitizedQuery = sanitizeHospitalQuery(safeQuery);
         
         if (sanitizedQuery.length > 0) {
           console.log('Trying sanitized search:', sanitizedQuery);
           
           try {
-            const sanitizedResponse = await this.client.post('', {
-              endpoint: 'odata-v4/Hospitals',
-              method: 'GET',
-              params: {
-                '$filter': `contains(Name, '${sanitizedQuery}')`,
-                '$top': 20,
-                '$orderby': 'Name asc'
-              }
+            const sanitizedResponse = await this.request({
+              operation: 'searchHospitals',
+              input: { query: sanitizedQuery, top: 20 }
             });
             
             if (sanitizedResponse.data?.value?.length > 0) {
               return sanitizedResponse.data;
             }
           } catch (error) {
+            // A bad filter just means no results; rate limits and outages are worth telling the caller about
+            if (error instanceof DefinitiveApiError && error.code !== 'invalid_request') {
+              throw error;
+            }
             console.warn('Sanitized search failed, trying alternatives');
           }
         }
@@ -252,11 +261,13 @@ export class DefinitiveService {
         return { value: [] };
         
       } catch (searchError) {
+        if (searchError instanceof DefinitiveApiError) throw searchError;
         console.error('All search approaches failed:', searchError);
         return { value: [] };
       }
     } catch (error) {
       console.error('Error searching Definitive hospitals:', error);
+      if (error instanceof DefinitiveApiError) throw error;
       return { value: [] }; // Return empty results instead of throwing
     }
   }
@@ -266,9 +277,9 @@ export class DefinitiveService {
    */
   async getHospital(hospitalId: number): Promise<DefinitiveHospital> {
     try {
-      const response = await this.client.post('', {
-        endpoint: `odata-v4/Hospitals(${hospitalId})`,
-        method: 'GET'
+      const response = await this.request({
+        operation: 'getHospital',
+        input: { id: hospitalId }
       });
       
       return response.data;
@@ -287,11 +298,17 @@ export class DefinitiveService {
     confidence: number,
     alternatives: Array<{hospital: DefinitiveHospital, confidence: number}>
   }> {
-    // Fetch all health systems
-    const allSystems = await this.getAllHealthSystems();
+    // Look for similar names in the stored catalog rather than asking Definitive
+    let candidateSystems: DefinitiveHospital[] | null = null;
+    try {
+      const catalogMatches = await searchDefinitiveCatalog(searchName, CATALOG_CANDIDATES, this.catalogClient);
+      candidateSystems = catalogMatches.map(match => match.hospital);
+    } catch (error) {
+      console.warn('Definitive catalog search failed, searching the API instead:', error);
+    }
     
-    if (allSystems.length === 0) {
-      // Fallback to regular search if we couldn't get all systems
+    if (candidateSystems === null) {
+      // Fallback to regular search if we couldn't search the catalog
       const searchResult = await this.searchHospitals({ query: searchName });
       if (searchResult.value && searchResult.value.length > 0) {
         return {
@@ -306,8 +323,8 @@ export class DefinitiveService {
       return { bestMatch: null, confidence: 0, alternatives: [] };
     }
     
-    // Calculate similarity scores for all health systems
-    const matches = allSystems.map(system => {
+    // Calculate similarity scores for the candidate health systems
+    const matches = candidateSystems.map(system => {
       // Calculate similarity between search name and system name
       const similarity = this.calculateSimilarity(searchName, system.Name);
       
@@ -366,23 +383,16 @@ export class DefinitiveService {
             healthSystem: {
               id: system.id,
               name: system.name,
-              definitive_id: bestMatch.Id.toString(),
-              website: bestMatch.WebSite,
-              address: bestMatch.Address,
-              city: bestMatch.HQCity,
-              state: bestMatch.State,
-              zip: bestMatch.Zip,
-              ambulatory_ehr: bestMatch.EMRVendorAmbulatory,
-              net_patient_revenue: bestMatch.NetPatientRev,
-              number_of_beds: bestMatch.NumBeds,
-              number_of_hospitals_in_network: bestMatch.NumHospitals || 1
+              ...toHealthSystemFields(bestMatch)
             },
             success: true,
             confidence: confidence,
+            match: bestMatch,
             alternativeMatches: alternatives.map(alt => ({
               name: alt.hospital.Name,
               id: alt.hospital.Id,
-              confidence: alt.confidence
+              confidence: alt.confidence,
+              hospital: alt.hospital
             }))
           });
         } else {
@@ -398,23 +408,16 @@ export class DefinitiveService {
               healthSystem: {
                 id: system.id,
                 name: system.name,
-                definitive_id: match.Id.toString(),
-                website: match.WebSite,
-                address: match.Address,
-                city: match.HQCity,
-                state: match.State,
-                zip: match.Zip,
-                ambulatory_ehr: match.EMRVendorAmbulatory,
-                net_patient_revenue: match.NetPatientRev,
-                number_of_beds: match.NumBeds,
-                number_of_hospitals_in_network: match.NumHospitals || 1
+                ...toHealthSystemFields(match)
               },
               success: true,
               confidence: 0.6, // Arbitrary confidence for API search results
+              match,
               alternativeMatches: searchResult.value.slice(1, 4).map(h => ({
                 name: h.Name,
                 id: h.Id,
-                confidence: 0.5
+                confidence: 0.5,
+                hospital: h
               }))
             });
           } else {
@@ -432,7 +435,8 @@ export class DefinitiveService {
               alternativeMatches: alternatives.slice(0, 3).map(alt => ({
                 name: alt.hospital.Name,
                 id: alt.hospital.Id,
-                confidence: alt.confidence
+                confidence: alt.confidence,
+                hospital: alt.hospital
               }))
             });
           }
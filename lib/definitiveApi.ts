@@ -0,0 +1,185 @@
+import { createThrottledFetch, throttleOptionsFromEnv, errorCodeForStatus, UpstreamErrorCode } from '@/lib/apiThrottle';
+import { recordUsage, USAGE_PRICING } from '@/lib/enrichmentUsage';
+
+// Server-side access to the Definitive Healthcare API. Only import this from API routes and server jobs: it uses the
+// API credentials.
+
+// Definitive API base URL
+const DEFINITIVE_API_URL = 'https://api.defhc.com/v4';
+
+// Tokens are fetched again this long before they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Used when the token response doesn't say how long the token lasts
+const DEFAULT_TOKEN_LIFETIME_MS = 20 * 60 * 1000;
+
+export interface DefinitiveRequest {
+  endpoint: string;
+  method?: string;
+  params?: Record<string, string | number>;
+  data?: unknown;
+}
+
+export interface DefinitiveResponse {
+  ok: boolean;
+  status: number;
+  // Set when ok is false
+  code?: UpstreamErrorCode;
+  data: any;
+}
+
+// Every Definitive call from this server instance goes through one queue, tuned with DEFINITIVE_MAX_CONCURRENCY
+// and DEFINITIVE_MAX_RETRIES
+const definitiveFetch = createThrottledFetch('Definitive', throttleOptionsFromEnv('DEFINITIVE'));
+
+let cachedToken: { token: string; expiresAt: number } | null = null;
+// The token request in flight, so concurrent requests wait for it instead of each signing in
+let pendingToken: Promise<string> | null = null;
+
+/**
+ * Whether the Definitive API credentials are set in the environment
+ */
+export function hasDefinitiveCredentials(): boolean {
+  return !!process.env.DEFINITIVE_USERNAME && !!process.env.DEFINITIVE_PASSWORD;
+}
+
+// A failed token request, with the response to pass on
+class DefinitiveTokenError extends Error {
+  constructor(public response: DefinitiveResponse) {
+    super('Failed to get Definitive API token');
+  }
+}
+
+// Function to get an access token
+async function fetchDefinitiveToken(): Promise<string> {
+  const tokenUrl = `${DEFINITIVE_API_URL}/token`;
+
+  // Prepare the form data
+  const formData = new URLSearchParams();
+  formData.append('grant_type', 'password');
+  formData.append('username', process.env.DEFINITIVE_USERNAME as string);
+  formData.append('password', process.env.DEFINITIVE_PASSWORD as string);
+
+  // Make the token request
+  const response = await definitiveFetch(tokenUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: formData.toString(),
+  }, { idempotent: true });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Failed to get Definitive API token:', response.status, errorText);
+    // A rejected sign-in is a credentials problem whatever status Definitive used for it
+    throw new DefinitiveTokenError({
+      ok: false,
+      status: response.status,
+      code: response.status === 429 || response.status >= 500 ? errorCodeForStatus(response.status) : 'auth_failed',
+      data: { message: 'Failed to get Definitive API token', details: errorText },
+    });
+  }
+
+  const data = await response.json();
+  const lifetimeMs = Number(data.expires_in) > 0 ? Number(data.expires_in) * 1000 : DEFAULT_TOKEN_LIFETIME_MS;
+  cachedToken = { token: data.access_token, expiresAt: Date.now() + lifetimeMs };
+  return data.access_token;
+}
+
+// The cached token while it has more than a minute left, otherwise a new one
+async function getDefinitiveToken(): Promise<string> {
+  if (cachedToken && cachedToken.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+    return cachedToken.token;
+  }
+
+  if (!pendingToken) {
+    pendingToken = fetchDefinitiveToken().finally(() => {
+      pendingToken = null;
+    });
+  }
+  return pendingToken;
+}
+
+/**
+ * Call the Definitive API through the shared queue, reusing the access token until it expires.
+ * Failed responses are returned, not thrown, with an error code and whatever body Definitive sent back.
+ */
+export async function requestDefinitive({ endpoint, method = 'GET', params, data }: DefinitiveRequest): Promise<DefinitiveResponse> {
+  // Remove any leading slashes from the endpoint
+  const cleanEndpoint = endpoint.replace(/^\/+/, '');
+
+  // Build URL with query parameters if they exist
+  const searchParams = new URLSearchParams(params as Record<string, string>);
+  const queryString = params ? `?${searchParams.toString()}` : '';
+  const url = `${DEFINITIVE_API_URL}/${cleanEndpoint}${queryString}`;
+
+  // A cached token can be revoked before it expires; if Definitive turns it down, sign in again once
+  for (let attempt = 0; ; attempt++) {
+    let accessToken: string;
+    let response: Response;
+    try {
+      accessToken = await getDefinitiveToken();
+      response = await definitiveFetch(url, {
+        method,
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-cache',
+          'accept': 'application/json'
+        },
+        body: data ? JSON.stringify(data) : undefined,
+      });
+    } catch (error) {
+      if (error instanceof DefinitiveTokenError) {
+        return error.response;
+      }
+      console.error('Error calling Definitive API:', error);
+      return {
+        ok: false,
+        status: 502,
+        code: 'upstream_error',
+        data: { message: error instanceof Error ? error.message : 'Failed to reach Definitive' },
+      };
+    }
+
+    if (response.status === 401 && attempt === 0) {
+      cachedToken = null;
+      continue;
+    }
+
+    let responseData;
+    const responseText = await response.text();
+    try {
+      responseData = responseText ? JSON.parse(responseText) : {};
+    } catch (e) {
+      console.error('Definitive API response is not JSON:', responseText);
+      return { ok: false, status: 502, code: 'invalid_response', data: responseText };
+    }
+
+    if (!response.ok) {
+      console.error('Definitive API request failed:', response.status, responseText);
+      return { ok: false, status: response.status, code: errorCodeForStatus(response.status), data: responseData };
+    }
+
+    return { ok: true, status: response.status, data: responseData };
+  }
+}
+
+/**
+ * Log a successful Definitive call. Every call is paid for, whatever it returns.
+ */
+export async function recordDefinitiveUsage(
+  operation: string,
+  responseData: any,
+  userId: string | null
+): Promise<void> {
+  await recordUsage({
+    provider: 'definitive',
+    operation,
+    userId,
+    recordCount: Array.isArray(responseData?.value) ? responseData.value.length : 1,
+    credits: 1,
+    estimatedCost: USAGE_PRICING.definitiveRequest,
+  });
+}
@@ -0,0 +1,193 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { DefinitiveHospital } from '@/lib/definitive';
+import { requestDefinitive } from '@/lib/definitiveApi';
+
+// Hospitals fetched per Definitive request while refreshing the catalog
+const CATALOG_PAGE_SIZE = 500;
+
+// Pages fetched per refresh run, so a run fits in one serverless invocation; the next run carries on from there
+const CATALOG_PAGES_PER_RUN = 20;
+
+export interface DefinitiveCatalogMatch {
+  hospital: DefinitiveHospital;
+  // Trigram similarity of the names, from 0 to 1
+  similarity: number;
+}
+
+export interface DefinitiveCatalogStatus {
+  hospitalCount: number;
+  lastCompletedAt: string | null;
+  lastRunAt: string | null;
+  lastError: string | null;
+}
+
+export interface DefinitiveCatalogRefreshResult {
+  fetched: number;
+  // Definitive requests made, for the usage log
+  requests: number;
+  // Whether this run finished a pass over the whole catalog
+  completedPass: boolean;
+}
+
+/**
+ * Search the stored Definitive catalog for hospitals named like the search, most similar first.
+ * Server routes pass a client that can read the catalog without a signed-in user.
+ */
+export async function searchDefinitiveCatalog(
+  search: string,
+  maxResults = 10,
+  client: SupabaseClient = supabase
+): Promise<DefinitiveCatalogMatch[]> {
+  if (!search.trim()) return [];
+
+  const { data, error } = await client.rpc('search_definitive_hospitals', {
+    search: search.trim(),
+    max_results: maxResults,
+  });
+
+  if (error) {
+    console.error('Error searching the Definitive catalog:', error);
+    throw new Error(`Failed to search the Definitive catalog: ${error.message}`);
+  }
+
+  return (data || []).map((row: any) => ({ hospital: row.data, similarity: row.similarity }));
+}
+
+/**
+ * How much of the Definitive catalog is stored and when it was last refreshed
+ */
+export async function fetchDefinitiveCatalogStatus(client: SupabaseClient = supabase): Promise<DefinitiveCatalogStatus> {
+  const { data, error } = await client
+    .from('definitive_catalog_sync')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching Definitive catalog status:', error);
+    throw new Error(`Failed to fetch Definitive catalog status: ${error.message}`);
+  }
+
+  return {
+    hospitalCount: data?.hospital_count || 0,
+    lastCompletedAt: data?.last_completed_at || null,
+    lastRunAt: data?.last_run_at || null,
+    lastError: data?.last_error || null,
+  };
+}
+
+const saveSyncState = async (client: SupabaseClient, state: Record<string, unknown>) => {
+  const { error } = await client
+    .from('definitive_catalog_sync')
+    .upsert({ id: true, ...state, last_run_at: new Date().toISOString() });
+
+  if (error) {
+    console.error('Error saving Definitive catalog sync state:', error);
+    throw new Error(`Failed to save Definitive catalog sync state: ${error.message}`);
+  }
+};
+
+/**
+ * Copy the next pages of the Definitive catalog into the database, in ID order from where the last run stopped.
+ * When a run reaches the end of the catalog, hospitals Definitive no longer lists are removed and the next run starts over.
+ * Needs a client that can write the catalog, i.e. the service role. Server-side only: it calls Definitive directly.
+ */
+export async function refreshDefinitiveCatalog(client: SupabaseClient): Promise<DefinitiveCatalogRefreshResult> {
+  const { data: state, error: stateError } = await client
+    .from('definitive_catalog_sync')
+    .select('*')
+    .maybeSingle();
+
+  if (stateError) {
+    console.error('Error fetching Definitive catalog sync state:', stateError);
+    throw new Error(`Failed to fetch Definitive catalog sync state: ${stateError.message}`);
+  }
+
+  let cursorId: number = state?.cursor_id || 0;
+  const passStartedAt: string = cursorId > 0 && state?.pass_started_at ? state.pass_started_at : new Date().toISOString();
+  let fetched = 0;
+  let requests = 0;
+
+  try {
+    for (let page = 0; page < CATALOG_PAGES_PER_RUN; page++) {
+      const response = await requestDefinitive({
+        endpoint: 'odata-v4/Hospitals',
+        params: {
+          '$filter': `Id gt ${cursorId}`,
+          '$orderby': 'Id asc',
+          '$top': CATALOG_PAGE_SIZE,
+        },
+      });
+      requests++;
+
+      if (!response.ok) {
+        throw new Error(`Definitive returned ${response.status} (${response.code})`);
+      }
+
+      const hospitals: DefinitiveHospital[] = response.data?.value || [];
+
+      if (hospitals.length > 0) {
+        const syncedAt = new Date().toISOString();
+        const { error } = await client
+          .from('definitive_hospitals')
+          .upsert(hospitals.map(hospital => ({
+            id: hospital.Id,
+            name: hospital.Name,
+            city: hospital.HQCity || null,
+            state: hospital.State || null,
+            data: hospital,
+            synced_at: syncedAt,
+          })));
+
+        if (error) {
+          throw new Error(`Failed to save Definitive hospitals: ${error.message}`);
+        }
+
+        fetched += hospitals.length;
+        cursorId = hospitals[hospitals.length - 1].Id;
+      }
+
+      if (hospitals.length < CATALOG_PAGE_SIZE) {
+        // End of the catalog: drop what this pass didn't see and start over next time
+        const { error: deleteError } = await client
+          .from('definitive_hospitals')
+          .delete()
+          .lt('synced_at', passStartedAt);
+
+        if (deleteError) {
+          throw new Error(`Failed to remove old Definitive hospitals: ${deleteError.message}`);
+        }
+
+        const { count, error: countError } = await client
+          .from('definitive_hospitals')
+          .select('id', { count: 'exact', head: true });
+
+        if (countError) {
+          throw new Error(`Failed to count Definitive hospitals: ${countError.message}`);
+        }
+
+        await saveSyncState(client, {
+          cursor_id: 0,
+          pass_started_at: null,
+          last_completed_at: new Date().toISOString(),
+          last_error: null,
+          hospital_count: count || 0,
+        });
+
+        return { fetched, requests, completedPass: true };
+      }
+    }
+
+    await saveSyncState(client, { cursor_id: cursorId, pass_started_at: passStartedAt, last_error: null });
+    return { fetched, requests, completedPass: false };
+  } catch (error) {
+    console.error('Error refreshing the Definitive catalog:', error);
+    // Keep what was saved so the next run carries on from the last page that made it in
+    await saveSyncState(client, {
+      cursor_id: cursorId,
+      pass_started_at: passStartedAt,
+      last_error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,263 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { DefinitiveEnrichmentResult, DefinitiveHospital, toHealthSystemFields } from '@/lib/definitive';
+import { logSystemActivities } from '@/lib/activities';
+import { createChangeBatch, withChangeBatch } from '@/lib/fieldHistory';
+import { ensureColumnsExist } from '@/lib/ai';
+
+// Window event fired whenever Definitive reviews are queued or resolved, so the queue count in the sidebar can refresh
+export const DEFINITIVE_REVIEWS_CHANGED_EVENT = 'definitiveReviewsChanged';
+
+// Matches at least this confident are applied by enrichment runs; less confident ones wait for review
+export const DEFINITIVE_AUTO_ACCEPT_CONFIDENCE = 0.85;
+
+export type DefinitiveMatchStatus = 'pending' | 'confirmed' | 'no_match';
+
+export interface DefinitiveCandidate {
+  hospital: DefinitiveHospital;
+  // From 0 to 1
+  confidence: number;
+}
+
+export interface DefinitiveMatchReview {
+  healthSystemId: string;
+  healthSystem: { name: string; city?: string; state?: string; website?: string } | null;
+  status: DefinitiveMatchStatus;
+  candidates: DefinitiveCandidate[];
+  definitiveId: string | null;
+  createdAt: string;
+}
+
+// Map a definitive_matches row (with its embedded health system) to the shape the UI uses
+const toReview = (row: any): DefinitiveMatchReview => ({
+  healthSystemId: row.health_system_id,
+  healthSystem: row.health_systems || null,
+  status: row.status,
+  candidates: row.candidates || [],
+  definitiveId: row.definitive_id,
+  createdAt: row.created_at,
+});
+
+const notifyDefinitiveReviewsChanged = () => {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(DEFINITIVE_REVIEWS_CHANGED_EVENT));
+  }
+};
+
+/**
+ * Whether an enrichment result is too unsure to apply without review
+ */
+export function needsDefinitiveReview(result: DefinitiveEnrichmentResult): boolean {
+  return !result.success || (result.confidence ?? 0) < DEFINITIVE_AUTO_ACCEPT_CONFIDENCE;
+}
+
+// The columns enrichment writes that aren't part of the base health_systems table
+const DEFINITIVE_COLUMNS = [
+  { name: 'ambulatory_ehr', type: 'text' as const },
+  { name: 'net_patient_revenue', type: 'number' as const },
+  { name: 'number_of_beds', type: 'number' as const },
+  { name: 'state', type: 'text' as const },
+  { name: 'number_of_hospitals_in_network', type: 'number' as const },
+];
+
+// The hospitals an enrichment result considered, best first
+const toCandidates = (result: DefinitiveEnrichmentResult): DefinitiveCandidate[] => [
+  ...(result.success && result.match ? [{ hospital: result.match, confidence: result.confidence ?? 0 }] : []),
+  ...(result.alternativeMatches || []).flatMap(alt => alt.hospital ? [{ hospital: alt.hospital, confidence: alt.confidence }] : []),
+];
+
+/**
+ * Of the given health systems, the ones whose link was confirmed or that were marked as not in Definitive.
+ * Enrichment runs skip these.
+ */
+export async function fetchSettledHealthSystemIds(healthSystemIds: string[], client: SupabaseClient = supabase): Promise<Set<string>> {
+  if (healthSystemIds.length === 0) return new Set();
+
+  const { data, error } = await client
+    .from('definitive_matches')
+    .select('health_system_id')
+    .in('status', ['confirmed', 'no_match'])
+    .in('health_system_id', healthSystemIds);
+
+  if (error) {
+    console.error('Error fetching confirmed Definitive links:', error);
+    throw new Error(`Failed to fetch confirmed Definitive links: ${error.message}`);
+  }
+
+  return new Set((data || []).map(row => row.health_system_id));
+}
+
+/**
+ * Queue the unsure results of an enrichment run for review. Health systems that were matched confidently this time
+ * leave the queue.
+ */
+export async function recordDefinitiveMatchResults(results: DefinitiveEnrichmentResult[], client: SupabaseClient = supabase): Promise<void> {
+  const unsure = results.filter(needsDefinitiveReview);
+  const matchedIds = results.filter(result => !needsDefinitiveReview(result)).map(result => result.healthSystem.id);
+
+  if (matchedIds.length > 0) {
+    const { error } = await client
+      .from('definitive_matches')
+      .delete()
+      .eq('status', 'pending')
+      .in('health_system_id', matchedIds);
+
+    if (error) {
+      console.error('Error clearing Definitive reviews:', error);
+      throw new Error(`Failed to clear Definitive reviews: ${error.message}`);
+    }
+  }
+
+  if (unsure.length > 0) {
+    const { error } = await client
+      .from('definitive_matches')
+      .upsert(unsure.map(result => ({
+        health_system_id: result.healthSystem.id,
+        status: 'pending',
+        candidates: toCandidates(result),
+        definitive_id: null,
+        created_at: new Date().toISOString(),
+        resolved_at: null,
+        resolved_by: null,
+      })), { onConflict: 'health_system_id' });
+
+    if (error) {
+      console.error('Error queueing Definitive reviews:', error);
+      throw new Error(`Failed to queue Definitive reviews: ${error.message}`);
+    }
+  }
+
+  notifyDefinitiveReviewsChanged();
+}
+
+/**
+ * Write the confident results of an enrichment run to their health systems, tagged with the run's change batch.
+ * Results that need review are left for the queue. Failed updates are logged rather than thrown, so one bad record
+ * doesn't stop the rest. Automation rules pass a service role client, with whether the rule's author may add columns;
+ * without that, missing columns fail the run.
+ */
+export async function applyDefinitiveMatches(
+  results: DefinitiveEnrichmentResult[],
+  changeBatchId: string | null,
+  client: SupabaseClient = supabase,
+  canAddColumns = true
+): Promise<void> {
+  const confident = results.filter(result => !needsDefinitiveReview(result));
+  if (confident.length === 0) return;
+
+  // Definitive fills in columns the table may not have yet
+  const columnsCreated = await ensureColumnsExist('health_systems', DEFINITIVE_COLUMNS, client, canAddColumns);
+  if (!columnsCreated && !canAddColumns) {
+    throw new Error('Only admins can add the Definitive columns to health_systems');
+  }
+  console.log(`Column creation for health_systems ${columnsCreated ? 'succeeded' : 'failed'}`);
+
+  for (const { healthSystem } of confident) {
+    const { error } = await withChangeBatch(client
+      .from('health_systems')
+      .update({
+        definitive_id: healthSystem.definitive_id,
+        website: healthSystem.website,
+        address: healthSystem.address,
+        city: healthSystem.city,
+        state: healthSystem.state,
+        zip: healthSystem.zip,
+        ambulatory_ehr: healthSystem.ambulatory_ehr,
+        net_patient_revenue: healthSystem.net_patient_revenue,
+        number_of_beds: healthSystem.number_of_beds,
+        number_of_hospitals_in_network: healthSystem.number_of_hospitals_in_network
+      })
+      .eq('id', healthSystem.id), changeBatchId);
+
+    if (error) {
+      console.error(`Error updating health system ${healthSystem.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Get the Definitive matches waiting for review, oldest first
+ */
+export async function fetchPendingDefinitiveReviews(): Promise<DefinitiveMatchReview[]> {
+  const { data, error } = await supabase
+    .from('definitive_matches')
+    .select('*, health_systems(name, city, state, website)')
+    .eq('status', 'pending')
+    .order('created_at');
+
+  if (error) {
+    console.error('Error fetching Definitive reviews:', error);
+    throw new Error(`Failed to fetch Definitive reviews: ${error.message}`);
+  }
+
+  return (data || []).map(toReview);
+}
+
+/**
+ * Count the Definitive matches waiting for review
+ */
+export async function fetchPendingDefinitiveReviewCount(): Promise<number> {
+  const { count, error } = await supabase
+    .from('definitive_matches')
+    .select('health_system_id', { count: 'exact', head: true })
+    .eq('status', 'pending');
+
+  if (error) {
+    console.error('Error counting Definitive reviews:', error);
+    throw new Error(`Failed to count Definitive reviews: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+const resolveMatch = async (healthSystemId: string, status: DefinitiveMatchStatus, definitiveId: string | null, userId: string | null) => {
+  const { error } = await supabase
+    .from('definitive_matches')
+    .upsert({
+      health_system_id: healthSystemId,
+      status,
+      definitive_id: definitiveId,
+      resolved_at: new Date().toISOString(),
+      resolved_by: userId,
+    }, { onConflict: 'health_system_id' });
+
+  if (error) {
+    console.error('Error resolving Definitive match:', error);
+    throw new Error(`Failed to resolve Definitive match: ${error.message}`);
+  }
+};
+
+/**
+ * Link a health system to a Definitive hospital, filling in its details, and remember the link so enrichment runs skip it
+ */
+export async function linkDefinitiveHospital(healthSystemId: string, hospital: DefinitiveHospital, userId: string | null): Promise<void> {
+  const changeBatchId = await createChangeBatch('definitive', 'Definitive link');
+  const { error } = await withChangeBatch(supabase
+    .from('health_systems')
+    .update(toHealthSystemFields(hospital))
+    .eq('id', healthSystemId), changeBatchId);
+
+  if (error) {
+    console.error('Error linking Definitive hospital:', error);
+    throw new Error(`Failed to link Definitive hospital: ${error.message}`);
+  }
+
+  await resolveMatch(healthSystemId, 'confirmed', hospital.Id.toString(), userId);
+
+  await logSystemActivities([{
+    healthSystemId,
+    type: 'enrichment',
+    summary: `Linked to ${hospital.Name} in Definitive`,
+    details: { source: 'definitive', success: true, definitive_id: hospital.Id },
+  }]);
+
+  notifyDefinitiveReviewsChanged();
+}
+
+/**
+ * Record that a health system isn't in Definitive, so enrichment runs skip it
+ */
+export async function markNotInDefinitive(healthSystemId: string, userId: string | null): Promise<void> {
+  await resolveMatch(healthSystemId, 'no_match', null, userId);
+  notifyDefinitiveReviewsChanged();
+}
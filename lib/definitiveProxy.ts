@@ -0,0 +1,54 @@
+import type { DefinitiveRequest } from '@/lib/definitiveApi';
+import { requireObject, requireString, requireInteger, InvalidRequestError } from '@/lib/apiValidation';
+
+// The Definitive operations the app uses. The browser names one of these and the /api/definitive route builds the
+// OData request itself, so callers can't reach any other endpoint or write their own filters.
+
+export type DefinitiveOperation =
+  | { operation: 'searchHospitals'; input: { query: string; top?: number } }
+  | { operation: 'getHospital'; input: { id: number } };
+
+export interface DefinitiveProxyRequest extends DefinitiveRequest {
+  operation: DefinitiveOperation['operation'];
+}
+
+// Searches return at most this many hospitals
+const MAX_SEARCH_RESULTS = 50;
+
+/**
+ * Keep only the characters that are safe inside an OData string literal
+ */
+export function sanitizeHospitalQuery(query: string): string {
+  return query.replace(/[^\w\s.-]/g, '').trim();
+}
+
+/**
+ * Check an operation sent by the browser and turn it into the Definitive request to make.
+ * Throws an InvalidRequestError for unknown operations and bad input.
+ */
+export function toDefinitiveRequest(body: unknown): DefinitiveProxyRequest {
+  const { operation, input: rawInput } = requireObject(body, 'body');
+  const input = requireObject(rawInput, 'input');
+
+  switch (operation) {
+    case 'searchHospitals': {
+      const query = sanitizeHospitalQuery(requireString(input.query, 'query'));
+      if (!query) {
+        throw new InvalidRequestError('query has nothing to search for');
+      }
+      return {
+        operation,
+        endpoint: 'odata-v4/Hospitals',
+        params: {
+          '$filter': `contains(Name, '${query}')`,
+          '$top': input.top === undefined ? 20 : requireInteger(input.top, 'top', 1, MAX_SEARCH_RESULTS),
+          '$orderby': 'Name asc'
+        }
+      };
+    }
+    case 'getHospital':
+      return { operation, endpoint: `odata-v4/Hospitals(${requireInteger(input.id, 'id', 1, Number.MAX_SAFE_INTEGER)})` };
+    default:
+      throw new InvalidRequestError('Unknown Definitive operation');
+  }
+}
@@ -1,6 +1,9 @@
 import type { Attendee } from '@/types'
 import { supabase } from '@/lib/supabase'
 import { ApolloEnrichmentResponse } from '@/lib/apollo'
+import { logSystemActivities } from '@/lib/activities'
+import { createChangeBatch, withChangeBatch } from '@/lib/fieldHistory'
+import { recordEmploymentHistories } from '@/lib/jobChanges'
 
 export async function handleEnrichmentComplete(
   enrichedData: ApolloEnrichmentResponse,
@@ -35,6 +38,7 @@ export async function handleEnrichmentComplete(
           title: enriched.headline || attendee.title,
           company: enriched.organization?.name || attendee.company,
           linkedin_url: enriched.linkedin_url || attendee.linkedin_url,
+          apollo_person_id: enriched.id || attendee.apollo_person_id,
         }
         return {
           ...attendee,
@@ -44,6 +48,11 @@ export async function handleEnrichmentComplete(
       return attendee
     })
 
+    // Group the run in the change history so it can be reverted at once
+    const changeBatchId = attendeesToUpdate.length > 0
+      ? await createChangeBatch('apollo', 'Apollo enrichment')
+      : null
+
     // Only update attendees that have enriched data
     const updatePromises = attendeesToUpdate.map(async (attendee) => {
       const enriched = enrichedData.matches.find(e => {
@@ -53,7 +62,7 @@ export async function handleEnrichmentComplete(
           && firstNameSimilarity > 0.6;
       });
 
-      if (!enriched) return attendee;
+      if (!enriched) return null;
 
       const updateData = {
         email: enriched.email || attendee.email,
@@ -61,22 +70,34 @@ export async function handleEnrichmentComplete(
         title: enriched.headline || attendee.title,
         company: enriched.organization?.name || attendee.company,
         linkedin_url: enriched.linkedin_url || attendee.linkedin_url,
+        // Link the attendee to the person Apollo matched
+        apollo_person_id: enriched.id || attendee.apollo_person_id,
       }
 
-      const { error } = await supabase
+      const { error } = await withChangeBatch(supabase
         .from('attendees')
         .update(updateData)
-        .eq('id', attendee.id)
+        .eq('id', attendee.id), changeBatchId)
 
       if (error) {
         console.error('Supabase update error:', error)
         throw new Error(`Failed to update attendee ${attendee.id}: ${error.message}`)
       }
-      return attendee
+      return { attendeeId: attendee.id, history: enriched.employment_history || [] }
     })
 
     // Wait for all updates to complete
-    await Promise.all(updatePromises)
+    const employmentHistories = await Promise.all(updatePromises)
+
+    // Compare the new employment histories with the saved ones to queue job changes
+    await recordEmploymentHistories(employmentHistories.flatMap(entry => entry ? [entry] : [])).catch(err => console.error('Failed to check for job changes:', err))
+
+    await logSystemActivities(attendeesToUpdate.map(attendee => ({
+      attendeeId: attendee.id,
+      type: 'enrichment',
+      summary: 'Enriched from Apollo',
+      details: { source: 'apollo', success: true }
+    })))
 
     // Only update local state if all database updates were successful
     setAttendees(updatedAttendees)
@@ -86,7 +107,8 @@ export async function handleEnrichmentComplete(
   }
 }
 
-function stringSimilarity(str1: string, str2: string): number {
+// Levenshtein-based similarity between two strings, from 0 (different) to 1 (identical)
+export function stringSimilarity(str1: string, str2: string): number {
   const len1 = str1.length;
   const len2 = str2.length;
   const matrix = Array(len1 + 1).fill(null).map(() => Array(len2 + 1).fill(0));
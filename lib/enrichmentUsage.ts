@@ -0,0 +1,283 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase, supabaseAdmin } from '@/lib/supabase';
+
+export type UsageProvider = 'apollo' | 'definitive' | 'openai' | 'gemini' | 'anthropic';
+
+export const USAGE_PROVIDERS: UsageProvider[] = ['apollo', 'definitive', 'openai', 'gemini', 'anthropic'];
+
+export const USAGE_PROVIDER_LABELS: Record<UsageProvider, string> = {
+  apollo: 'Apollo',
+  definitive: 'Definitive',
+  openai: 'OpenAI',
+  gemini: 'Gemini',
+  anthropic: 'Anthropic',
+};
+
+export type BudgetMode = 'block' | 'confirm';
+
+export interface EnrichmentBudget {
+  provider: UsageProvider;
+  // US dollars per calendar month
+  monthlyLimit: number;
+  mode: BudgetMode;
+}
+
+export interface UsageEntry {
+  provider: UsageProvider;
+  operation: string;
+  // Null for scheduled jobs
+  userId: string | null;
+  recordCount?: number;
+  credits?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  estimatedCost?: number;
+}
+
+// A user's usage of one provider over a month
+export interface UsageTotals {
+  userId: string | null;
+  provider: UsageProvider;
+  calls: number;
+  records: number;
+  credits: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number;
+}
+
+export interface BudgetCheck {
+  status: 'ok' | 'confirm' | 'blocked';
+  // Why the run needs confirming or was blocked
+  message?: string;
+}
+
+// Estimated unit prices in US dollars. Adjust to the team's contracts; they only feed the estimates and budgets.
+export const USAGE_PRICING = {
+  apolloCredit: 0.05,
+  definitiveRequest: 0.02,
+  // Per million input and output tokens
+  models: {
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4o-mini-search-preview': { input: 0.15, output: 0.6 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+    'gemini-pro': { input: 0.5, output: 1.5 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+    'gemini-1.5-pro': { input: 1.25, output: 5 },
+    'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+    'claude-3-5-sonnet-latest': { input: 3, output: 15 },
+  } as Record<string, { input: number; output: number }>,
+};
+
+// Models not in the price list are costed like gpt-4o, to err on the high side
+const DEFAULT_MODEL_PRICE = USAGE_PRICING.models['gpt-4o'];
+
+// Tokens an AI enrichment item takes on average, for estimating a run before it starts
+const AI_TOKENS_PER_ITEM = { input: 400, output: 150 };
+
+/**
+ * The estimated cost in US dollars of a model call
+ */
+export function tokenCost(model: string, inputTokens: number, outputTokens: number): number {
+  const price = USAGE_PRICING.models[model] || DEFAULT_MODEL_PRICE;
+  return (inputTokens * price.input + outputTokens * price.output) / 1000000;
+}
+
+/**
+ * Adds up the tokens and cost of the model calls a route makes per provider, so they can be logged as one entry each
+ */
+export function createTokenTally() {
+  const totals = new Map<UsageProvider, { inputTokens: number; outputTokens: number; estimatedCost: number }>();
+
+  return {
+    add(provider: UsageProvider, model: string, inputTokens = 0, outputTokens = 0) {
+      const total = totals.get(provider) || { inputTokens: 0, outputTokens: 0, estimatedCost: 0 };
+      total.inputTokens += inputTokens;
+      total.outputTokens += outputTokens;
+      total.estimatedCost += tokenCost(model, inputTokens, outputTokens);
+      totals.set(provider, total);
+    },
+    entries: () => Array.from(totals.entries()).map(([provider, total]) => ({ provider, ...total })),
+  };
+}
+
+export type TokenTally = ReturnType<typeof createTokenTally>;
+
+/**
+ * The estimated cost in US dollars of running a provider over some records
+ */
+export function estimateEnrichmentCost(provider: UsageProvider, recordCount: number): number {
+  switch (provider) {
+    case 'apollo':
+      return recordCount * USAGE_PRICING.apolloCredit;
+    case 'definitive':
+      return recordCount * USAGE_PRICING.definitiveRequest;
+    case 'openai':
+      return recordCount * tokenCost('gpt-3.5-turbo', AI_TOKENS_PER_ITEM.input, AI_TOKENS_PER_ITEM.output);
+    case 'gemini':
+      return recordCount * tokenCost('gemini-1.5-flash', AI_TOKENS_PER_ITEM.input, AI_TOKENS_PER_ITEM.output);
+    case 'anthropic':
+      return recordCount * tokenCost('claude-3-5-haiku-latest', AI_TOKENS_PER_ITEM.input, AI_TOKENS_PER_ITEM.output);
+  }
+}
+
+/**
+ * Log a provider call. Server-side only: the log is written with the service role so users can't add or change
+ * entries themselves. Never throws: a failed log shouldn't fail the call it describes.
+ */
+export async function recordUsage(entry: UsageEntry): Promise<void> {
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('Error logging enrichment usage: SUPABASE_SERVICE_ROLE_KEY is not configured');
+    return;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('enrichment_usage')
+    .insert({
+      user_id: entry.userId,
+      provider: entry.provider,
+      operation: entry.operation,
+      record_count: entry.recordCount || 0,
+      credits: entry.credits || 0,
+      input_tokens: entry.inputTokens || 0,
+      output_tokens: entry.outputTokens || 0,
+      estimated_cost: entry.estimatedCost || 0,
+    });
+
+  if (error) {
+    console.error('Error logging enrichment usage:', error);
+  }
+}
+
+/**
+ * Log the model calls added up in a tally, one entry per provider that was called
+ */
+export async function recordTokenUsage(
+  tally: TokenTally,
+  entry: Omit<UsageEntry, 'provider' | 'inputTokens' | 'outputTokens' | 'estimatedCost'>
+): Promise<void> {
+  for (const total of tally.entries()) {
+    await recordUsage({ ...entry, ...total });
+  }
+}
+
+/**
+ * Get the monthly budgets that have been set
+ */
+export async function fetchEnrichmentBudgets(client: SupabaseClient = supabase): Promise<EnrichmentBudget[]> {
+  const { data, error } = await client
+    .from('enrichment_budgets')
+    .select('*')
+    .order('provider');
+
+  if (error) {
+    console.error('Error fetching enrichment budgets:', error);
+    throw new Error(`Failed to fetch enrichment budgets: ${error.message}`);
+  }
+
+  return (data || []).map(row => ({
+    provider: row.provider,
+    monthlyLimit: Number(row.monthly_limit),
+    mode: row.mode,
+  }));
+}
+
+/**
+ * Set a provider's monthly budget, or remove it when the limit is null
+ */
+export async function saveEnrichmentBudget(provider: UsageProvider, monthlyLimit: number | null, mode: BudgetMode): Promise<void> {
+  const { error } = monthlyLimit === null
+    ? await supabase.from('enrichment_budgets').delete().eq('provider', provider)
+    : await supabase.from('enrichment_budgets').upsert({
+      provider,
+      monthly_limit: monthlyLimit,
+      mode,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    console.error('Error saving enrichment budget:', error);
+    throw new Error(`Failed to save enrichment budget: ${error.message}`);
+  }
+}
+
+/**
+ * The whole team's estimated spend per provider so far this month
+ */
+export async function fetchCurrentMonthSpend(client: SupabaseClient = supabase): Promise<Record<UsageProvider, number>> {
+  const { data, error } = await client.rpc('current_month_enrichment_spend');
+
+  if (error) {
+    console.error('Error fetching enrichment spend:', error);
+    throw new Error(`Failed to fetch enrichment spend: ${error.message}`);
+  }
+
+  const spend = { apollo: 0, definitive: 0, openai: 0, gemini: 0, anthropic: 0 };
+  (data || []).forEach((row: { provider: UsageProvider; estimated_cost: number }) => {
+    spend[row.provider] = Number(row.estimated_cost) || 0;
+  });
+  return spend;
+}
+
+const formatDollars = (amount: number) => `$${amount.toFixed(2)}`;
+
+/**
+ * Whether a run estimated to cost estimatedCost fits in the provider's budget for this month
+ */
+export async function checkEnrichmentBudget(provider: UsageProvider, estimatedCost: number): Promise<BudgetCheck> {
+  const [budgets, spend] = await Promise.all([fetchEnrichmentBudgets(), fetchCurrentMonthSpend()]);
+  const budget = budgets.find(item => item.provider === provider);
+
+  if (!budget || spend[provider] + estimatedCost <= budget.monthlyLimit) {
+    return { status: 'ok' };
+  }
+
+  const summary = `This run is estimated at ${formatDollars(estimatedCost)} and ${formatDollars(spend[provider])} of the ` +
+    `${formatDollars(budget.monthlyLimit)} ${USAGE_PROVIDER_LABELS[provider]} budget has been used this month.`;
+
+  return budget.mode === 'block'
+    ? { status: 'blocked', message: `${summary} Ask an admin or manager to raise the budget.` }
+    : { status: 'confirm', message: `${summary} Go over the budget?` };
+}
+
+/**
+ * Whether the provider has a blocking budget that this month's spend has already used up. API routes check this
+ * before making paid calls, so a blocking budget holds even for runs that skipped the check in the app.
+ */
+export async function isBudgetExhausted(provider: UsageProvider, client: SupabaseClient): Promise<boolean> {
+  try {
+    const [budgets, spend] = await Promise.all([fetchEnrichmentBudgets(client), fetchCurrentMonthSpend(client)]);
+    const budget = budgets.find(item => item.provider === provider);
+    return !!budget && budget.mode === 'block' && spend[provider] >= budget.monthlyLimit;
+  } catch (error) {
+    // Don't stop work because the budget couldn't be read
+    console.error('Error checking enrichment budget:', error);
+    return false;
+  }
+}
+
+/**
+ * Usage per user and provider for a month, given as YYYY-MM. Admins and managers get the whole team, others themselves.
+ */
+export async function fetchUsageTotals(month: string): Promise<UsageTotals[]> {
+  // Added up in the database, which also keeps months in UTC like the budget checks
+  const { data, error } = await supabase.rpc('monthly_enrichment_usage', { in_month: `${month}-01` });
+
+  if (error) {
+    console.error('Error fetching enrichment usage:', error);
+    throw new Error(`Failed to fetch enrichment usage: ${error.message}`);
+  }
+
+  return (data || []).map((row: any) => ({
+    userId: row.user_id,
+    provider: row.provider,
+    calls: Number(row.calls),
+    records: Number(row.records),
+    credits: Number(row.credits),
+    inputTokens: Number(row.input_tokens),
+    outputTokens: Number(row.output_tokens),
+    estimatedCost: Number(row.estimated_cost),
+  }));
+}
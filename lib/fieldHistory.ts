@@ -0,0 +1,140 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { EntityTableName } from '@/lib/queryFilters';
+
+export type ChangeSource = 'manual' | 'apollo' | 'definitive' | 'ai' | 'merge' | 'revert';
+
+export const CHANGE_SOURCE_LABELS: Record<ChangeSource, string> = {
+  manual: 'Manual edit',
+  apollo: 'Apollo',
+  definitive: 'Definitive',
+  ai: 'AI',
+  merge: 'Merge',
+  revert: 'Revert',
+};
+
+export interface FieldChange {
+  id: string;
+  tableName: EntityTableName;
+  recordId: string;
+  columnName: string;
+  oldValue: any;
+  newValue: any;
+  source: ChangeSource;
+  // Extra detail about the source, e.g. the AI prompt name
+  sourceLabel: string | null;
+  batchId: string | null;
+  changedBy: string | null;
+  changedByEmail: string | null;
+  changedAt: string;
+  revertedAt: string | null;
+}
+
+export interface RevertResult {
+  reverted: number;
+  // Fields left alone because they have changed again since
+  skipped: number;
+}
+
+// Any Supabase query builder; used to tag writes with a change batch
+interface HeaderSettable {
+  setHeader(name: string, value: string): this;
+}
+
+// Map a field_changes row to the shape the UI uses
+const toFieldChange = (row: any): FieldChange => ({
+  id: row.id,
+  tableName: row.table_name,
+  recordId: row.record_id,
+  columnName: row.column_name,
+  oldValue: row.old_value,
+  newValue: row.new_value,
+  source: row.source,
+  sourceLabel: row.source_label,
+  batchId: row.batch_id,
+  changedBy: row.changed_by,
+  changedByEmail: row.changed_by_email,
+  changedAt: row.changed_at,
+  revertedAt: row.reverted_at,
+});
+
+/**
+ * Start a change batch for an action that updates records (an enrichment run, a merge). Failures are logged
+ * and null is returned rather than thrown, so the action still runs and its changes are recorded untagged.
+ */
+export async function createChangeBatch(source: ChangeSource, label?: string, client: SupabaseClient = supabase): Promise<string | null> {
+  const { data, error } = await client
+    .from('change_batches')
+    .insert({ source, label: label || null })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error creating change batch:', error);
+    return null;
+  }
+
+  return data.id;
+}
+
+/**
+ * Tag a write with a change batch so the history records its source. Without a batch the query is left as is
+ * and its changes are recorded as manual edits.
+ */
+export function withChangeBatch<T extends HeaderSettable>(query: T, batchId: string | null): T {
+  return batchId ? query.setHeader('x-change-batch', batchId) : query;
+}
+
+/**
+ * Get the change history of a record, newest first
+ */
+export async function fetchFieldHistory(tableName: EntityTableName, recordId: string): Promise<FieldChange[]> {
+  const { data, error } = await supabase
+    .from('field_changes')
+    .select('*')
+    .eq('table_name', tableName)
+    .eq('record_id', recordId)
+    .order('changed_at', { ascending: false })
+    .limit(200);
+
+  if (error) {
+    console.error('Error fetching field history:', error);
+    throw new Error(`Failed to fetch history: ${error.message}`);
+  }
+
+  return (data || []).map(toFieldChange);
+}
+
+/**
+ * Put back the old value of a single change
+ */
+export async function revertFieldChange(change: FieldChange): Promise<RevertResult> {
+  const { data, error } = await supabase.rpc('revert_field_changes', {
+    in_change_ids: [change.id],
+    in_label: `Reverted "${change.columnName}"`,
+  });
+
+  if (error) {
+    console.error('Error reverting change:', error);
+    throw new Error(`Failed to revert change: ${error.message}`);
+  }
+
+  return data as RevertResult;
+}
+
+/**
+ * Put back the old values of every change in a batch, across all the records it touched
+ */
+export async function revertChangeBatch(batchId: string, label?: string): Promise<RevertResult> {
+  const { data, error } = await supabase.rpc('revert_change_batch', {
+    in_batch_id: batchId,
+    in_label: label || null,
+  });
+
+  if (error) {
+    console.error('Error reverting batch:', error);
+    throw new Error(`Failed to revert batch: ${error.message}`);
+  }
+
+  return data as RevertResult;
+}
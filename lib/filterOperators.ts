@@ -0,0 +1,173 @@
+import type { Filter, FilterOperator, FilterValueType } from '@/types';
+
+export interface FilterOperatorOption {
+  value: FilterOperator;
+  label: string;
+}
+
+const EMPTY_OPERATORS: FilterOperatorOption[] = [
+  { value: 'is_empty', label: 'Is empty' },
+  { value: 'is_not_empty', label: 'Is not empty' },
+];
+
+const DATE_OPERATORS: FilterOperatorOption[] = [
+  { value: 'equals', label: 'On' },
+  { value: 'before', label: 'Before' },
+  { value: 'after', label: 'After' },
+  { value: 'between', label: 'Between' },
+  { value: 'in_last_days', label: 'Within the last' },
+  { value: 'in_next_days', label: 'Within the next' },
+  ...EMPTY_OPERATORS,
+];
+
+const OPERATORS_BY_TYPE: Record<FilterValueType, FilterOperatorOption[]> = {
+  text: [
+    { value: 'equals', label: 'Equals' },
+    { value: 'not_equals', label: 'Does not equal' },
+    { value: 'contains', label: 'Contains' },
+    { value: 'not_contains', label: 'Not contains' },
+    { value: 'starts_with', label: 'Starts with' },
+    { value: 'ends_with', label: 'Ends with' },
+    { value: 'in_list', label: 'Is any of' },
+    ...EMPTY_OPERATORS,
+  ],
+  number: [
+    { value: 'equals', label: 'Equals' },
+    { value: 'not_equals', label: 'Does not equal' },
+    { value: 'greater_than', label: 'Greater than' },
+    { value: 'less_than', label: 'Less than' },
+    { value: 'between', label: 'Between' },
+    { value: 'in_list', label: 'Is any of' },
+    ...EMPTY_OPERATORS,
+  ],
+  date: DATE_OPERATORS,
+  // Timestamps filter at day granularity, so "on" a single day isn't offered
+  datetime: DATE_OPERATORS.filter(option => option.value !== 'equals'),
+  boolean: [
+    { value: 'equals', label: 'Equals' },
+    ...EMPTY_OPERATORS,
+  ],
+  array: [
+    { value: 'array_contains', label: 'Includes all of' },
+    ...EMPTY_OPERATORS,
+  ],
+};
+
+/**
+ * Map a Postgres data type (as reported by information_schema, e.g. "timestamp with time zone" or "ARRAY") to a filter value type
+ */
+export function getFilterValueType(dataType?: string): FilterValueType {
+  const type = (dataType || '').toLowerCase();
+
+  if (type === 'array' || type.endsWith('[]')) return 'array';
+  if (type === 'date') return 'date';
+  if (type.startsWith('timestamp')) return 'datetime';
+  if (type === 'boolean') return 'boolean';
+  if (['integer', 'bigint', 'smallint', 'numeric', 'real', 'double precision', 'decimal'].includes(type)) return 'number';
+  return 'text';
+}
+
+/**
+ * Get the operators that make sense for a value type
+ */
+export function getOperatorOptions(valueType: FilterValueType): FilterOperatorOption[] {
+  return OPERATORS_BY_TYPE[valueType];
+}
+
+/**
+ * Check whether an operator compares against a value (is_empty and is_not_empty don't)
+ */
+export function operatorNeedsValue(operator: FilterOperator): boolean {
+  return operator !== 'is_empty' && operator !== 'is_not_empty';
+}
+
+/**
+ * Check whether a filter has everything its operator needs to be applied
+ */
+export function hasFilterValue(filter: Pick<Filter, 'operator' | 'value' | 'valueTo' | 'values'>): boolean {
+  switch (filter.operator) {
+    case 'is_empty':
+    case 'is_not_empty':
+      return true;
+    case 'between':
+      return !!filter.value || !!filter.valueTo;
+    case 'in_list':
+    case 'array_contains':
+      return (filter.values || []).length > 0 || !!filter.value;
+    case 'in_last_days':
+    case 'in_next_days':
+      return !isNaN(parseInt(filter.value, 10));
+    default:
+      return !!filter.value;
+  }
+}
+
+/**
+ * Get the selected values of a list filter, falling back to a comma-separated value (e.g. from the chat assistant)
+ */
+export function getFilterValues(filter: Pick<Filter, 'value' | 'values'>): string[] {
+  if (filter.values && filter.values.length > 0) return filter.values;
+  return (filter.value || '').split(',').map(v => v.trim()).filter(Boolean);
+}
+
+// Format a date as YYYY-MM-DD in local time
+const toDateString = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Get the day after a YYYY-MM-DD date, used to make date upper bounds include the whole day
+ */
+export function getNextDay(value: string): string {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return toDateString(new Date(year, month - 1, day + 1));
+}
+
+// A range bound to a column: from is inclusive, to is exclusive unless toInclusive is set
+export interface FilterRange {
+  from?: string;
+  to?: string;
+  toInclusive?: boolean;
+}
+
+const isDateOnly = (value?: string) => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+/**
+ * Resolve a range operator (between, before/after, within the last/next N days) to the bounds to compare against.
+ * Date upper bounds are moved to the next day so the whole day is included, and relative
+ * operators are resolved against today.
+ */
+export function getFilterRange(
+  filter: Pick<Filter, 'operator' | 'value' | 'valueTo'>,
+  today: Date = new Date()
+): FilterRange | null {
+  const { operator, value, valueTo } = filter;
+
+  switch (operator) {
+    case 'in_last_days':
+    case 'in_next_days': {
+      const days = parseInt(value, 10);
+      if (isNaN(days)) return null;
+      const todayString = toDateString(today);
+      const edge = toDateString(new Date(today.getFullYear(), today.getMonth(), today.getDate() + (operator === 'in_last_days' ? -days : days)));
+      return operator === 'in_last_days'
+        ? { from: edge, to: getNextDay(todayString) }
+        : { from: todayString, to: getNextDay(edge) };
+    }
+    case 'before':
+      return value ? { to: value } : null;
+    case 'after':
+      return value ? { from: isDateOnly(value) ? getNextDay(value) : value } : null;
+    case 'between':
+      if (!value && !valueTo) return null;
+      // Dates include the whole end day; numbers include the upper bound itself
+      if (isDateOnly(value) || isDateOnly(valueTo)) {
+        return { from: value || undefined, to: valueTo ? getNextDay(valueTo) : undefined };
+      }
+      return { from: value || undefined, to: valueTo || undefined, toInclusive: true };
+    default:
+      return null;
+  }
+}
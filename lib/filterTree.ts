@@ -0,0 +1,30 @@
+import type { FilterGroup, FilterNode } from '@/types';
+
+/**
+ * Check whether a filter node is an AND/OR group rather than a single condition
+ */
+export function isFilterGroup(node: FilterNode): node is FilterGroup {
+  return Array.isArray((node as FilterGroup).conditions);
+}
+
+/**
+ * Count the individual conditions in a filter tree (used for the filter badge)
+ */
+export function countFilterConditions(nodes: FilterNode[]): number {
+  return nodes.reduce(
+    (total, node) => total + (isFilterGroup(node) ? countFilterConditions(node.conditions) : 1),
+    0
+  );
+}
+
+/**
+ * Make sure every node has an id, e.g. for trees produced by the chat assistant
+ */
+export function ensureFilterIds(nodes: any[]): FilterNode[] {
+  return (nodes || []).filter(Boolean).map(node => {
+    const id = node.id || Math.random().toString(36).substr(2, 9);
+    return Array.isArray(node.conditions)
+      ? { id, combinator: node.combinator === 'or' ? 'or' : 'and', conditions: ensureFilterIds(node.conditions) }
+      : { ...node, id, value: node.value ?? '' };
+  });
+}
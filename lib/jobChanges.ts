@@ -0,0 +1,355 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { logSystemActivities } from '@/lib/activities';
+import { createChangeBatch, withChangeBatch } from '@/lib/fieldHistory';
+import type { EmploymentHistoryEntry } from '@/types';
+
+// Window event fired whenever job changes are found or resolved, so the queue count in the sidebar can refresh
+export const JOB_CHANGES_CHANGED_EVENT = 'jobChangesChanged';
+
+export type JobChangeKind = 'left_health_system' | 'promoted';
+
+export type JobChangeStatus = 'open' | 'applied' | 'dismissed';
+
+export const JOB_CHANGE_KIND_LABELS: Record<JobChangeKind, string> = {
+  left_health_system: 'Left health system',
+  promoted: 'Promoted to oncology leadership',
+};
+
+export interface JobChange {
+  id: string;
+  attendeeId: string;
+  attendeeName: string;
+  kind: JobChangeKind;
+  previousTitle: string | null;
+  previousCompany: string | null;
+  newTitle: string | null;
+  newCompany: string | null;
+  // The health system the attendee is linked to now
+  healthSystemId: string | null;
+  healthSystemName: string | null;
+  // The health system matching the new company, if the CRM has one
+  newHealthSystemId: string | null;
+  newHealthSystemName: string | null;
+  status: JobChangeStatus;
+  detectedAt: string;
+  resolvedAt: string | null;
+}
+
+// A job change found in an attendee's employment history, before it is saved
+export interface DetectedJobChange {
+  kind: JobChangeKind;
+  previousTitle: string | null;
+  previousCompany: string | null;
+  newTitle: string | null;
+  newCompany: string | null;
+}
+
+// What detection knows about an attendee before the new employment history is saved
+export interface JobChangeBaseline {
+  title?: string | null;
+  company?: string | null;
+  healthSystemName?: string | null;
+  employmentHistory?: EmploymentHistoryEntry[] | null;
+}
+
+const JOB_CHANGE_SELECT = '*, attendees(first_name, last_name, health_system_id, health_systems(name)), health_systems(name)';
+
+// Map a job_changes row (with its embedded attendee and new health system) to the shape the UI uses
+const toJobChange = (row: any): JobChange => ({
+  id: row.id,
+  attendeeId: row.attendee_id,
+  attendeeName: row.attendees ? `${row.attendees.first_name} ${row.attendees.last_name}` : 'Unknown attendee',
+  kind: row.kind,
+  previousTitle: row.previous_title,
+  previousCompany: row.previous_company,
+  newTitle: row.new_title,
+  newCompany: row.new_company,
+  healthSystemId: row.attendees?.health_system_id || null,
+  healthSystemName: row.attendees?.health_systems?.name || null,
+  newHealthSystemId: row.new_health_system_id,
+  newHealthSystemName: row.health_systems?.name || null,
+  status: row.status,
+  detectedAt: row.detected_at,
+  resolvedAt: row.resolved_at,
+});
+
+const notifyJobChangesChanged = () => {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(JOB_CHANGES_CHANGED_EVENT));
+  }
+};
+
+const SENIOR_TITLE = /\b(director|vp|svp|avp|evp|vice president)\b/i;
+const ONCOLOGY_TITLE = /oncolog|cancer|hematolog/i;
+
+/**
+ * Whether a title is a director or VP role in oncology, e.g. "VP, Oncology Services"
+ */
+export function isOncologyLeadershipTitle(title: string | null | undefined): boolean {
+  return !!title && SENIOR_TITLE.test(title) && ONCOLOGY_TITLE.test(title);
+}
+
+/**
+ * The job marked current in an employment history, or else the one without an end date
+ */
+export function getCurrentJob(history: EmploymentHistoryEntry[] | null | undefined): EmploymentHistoryEntry | null {
+  if (!history || history.length === 0) return null;
+  return history.find(job => job.current) || history.find(job => !job.end_date) || null;
+}
+
+const normalizeOrganization = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Organization names match when one contains the other, e.g. "Mayo Clinic" and "Mayo Clinic Health System"
+const isSameOrganization = (a: string, b: string) => {
+  const first = normalizeOrganization(a);
+  const second = normalizeOrganization(b);
+  return !!first && !!second && (first.includes(second) || second.includes(first));
+};
+
+/**
+ * Compare a new employment history with what was known about the attendee. The previous history is used when there is one,
+ * otherwise the attendee's health system, company and title. Leaving the health system takes precedence over a promotion.
+ */
+export function detectJobChange(baseline: JobChangeBaseline, history: EmploymentHistoryEntry[]): DetectedJobChange | null {
+  const newJob = getCurrentJob(history);
+  if (!newJob) return null;
+
+  const previousJob = getCurrentJob(baseline.employmentHistory);
+  const previousCompany = previousJob?.organization_name || baseline.healthSystemName || baseline.company || null;
+  const previousTitle = previousJob?.title || baseline.title || null;
+  const change = {
+    previousTitle,
+    previousCompany,
+    newTitle: newJob.title || null,
+    newCompany: newJob.organization_name || null,
+  };
+
+  if (previousCompany && newJob.organization_name && !isSameOrganization(previousCompany, newJob.organization_name)) {
+    return { kind: 'left_health_system', ...change };
+  }
+
+  if (isOncologyLeadershipTitle(newJob.title) && !isOncologyLeadershipTitle(previousTitle)) {
+    return { kind: 'promoted', ...change };
+  }
+
+  return null;
+}
+
+// Find the health system each company name matches, ignoring case
+const findHealthSystemIds = async (companies: string[], client: SupabaseClient): Promise<Map<string, string>> => {
+  const uniqueCompanies = Array.from(new Set(companies));
+  const results = await Promise.all(uniqueCompanies.map(company =>
+    client
+      .from('health_systems')
+      .select('id')
+      .ilike('name', company.replace(/[%_]/g, '\\$&'))
+      .limit(1)
+  ));
+
+  const ids = new Map<string, string>();
+  results.forEach((result, index) => {
+    if (result.error) {
+      console.error('Error matching health system:', result.error);
+    } else if (result.data && result.data.length > 0) {
+      ids.set(uniqueCompanies[index], result.data[0].id);
+    }
+  });
+  return ids;
+};
+
+/**
+ * Save the employment histories returned by an Apollo enrichment, comparing each with the attendee's previous one.
+ * Job changes found are added to the queue, replacing the attendee's open one. Returns how many were found.
+ */
+export async function recordEmploymentHistories(
+  entries: Array<{ attendeeId: string; history: EmploymentHistoryEntry[] }>,
+  client: SupabaseClient = supabase
+): Promise<number> {
+  const withHistory = entries.filter(entry => entry.history && entry.history.length > 0);
+  if (withHistory.length === 0) return 0;
+
+  const { data: attendees, error: fetchError } = await client
+    .from('attendees')
+    .select('id, title, company, employment_history, health_systems(name)')
+    .in('id', withHistory.map(entry => entry.attendeeId));
+
+  if (fetchError) {
+    console.error('Error fetching attendees for job changes:', fetchError);
+    throw new Error(`Failed to fetch attendees: ${fetchError.message}`);
+  }
+
+  const baselines = new Map((attendees || []).map((attendee: any) => [attendee.id, {
+    title: attendee.title,
+    company: attendee.company,
+    healthSystemName: attendee.health_systems?.name || null,
+    employmentHistory: attendee.employment_history,
+  } as JobChangeBaseline]));
+
+  const detected = withHistory.flatMap(entry => {
+    const baseline = baselines.get(entry.attendeeId);
+    const change = baseline ? detectJobChange(baseline, entry.history) : null;
+    return change ? [{ attendeeId: entry.attendeeId, change }] : [];
+  });
+
+  const historyUpdates = await Promise.all(withHistory.map(entry =>
+    client
+      .from('attendees')
+      .update({ employment_history: entry.history })
+      .eq('id', entry.attendeeId)
+  ));
+
+  const failedUpdate = historyUpdates.find(result => result.error);
+  if (failedUpdate?.error) {
+    console.error('Error saving employment history:', failedUpdate.error);
+    throw new Error(`Failed to save employment history: ${failedUpdate.error.message}`);
+  }
+
+  if (detected.length === 0) return 0;
+
+  const healthSystemIds = await findHealthSystemIds(
+    detected.flatMap(({ change }) => change.newCompany ? [change.newCompany] : []),
+    client
+  );
+
+  // Replace any open job change rather than queueing a second one for the same attendee
+  const { error: deleteError } = await client
+    .from('job_changes')
+    .delete()
+    .eq('status', 'open')
+    .in('attendee_id', detected.map(({ attendeeId }) => attendeeId));
+
+  if (deleteError) {
+    console.error('Error replacing job changes:', deleteError);
+    throw new Error(`Failed to replace job changes: ${deleteError.message}`);
+  }
+
+  const { error } = await client
+    .from('job_changes')
+    .insert(detected.map(({ attendeeId, change }) => ({
+      attendee_id: attendeeId,
+      kind: change.kind,
+      previous_title: change.previousTitle,
+      previous_company: change.previousCompany,
+      new_title: change.newTitle,
+      new_company: change.newCompany,
+      new_health_system_id: change.newCompany ? healthSystemIds.get(change.newCompany) || null : null,
+    })));
+
+  if (error) {
+    console.error('Error recording job changes:', error);
+    throw new Error(`Failed to record job changes: ${error.message}`);
+  }
+
+  notifyJobChangesChanged();
+  return detected.length;
+}
+
+/**
+ * Get the open job changes, newest first, or the resolved ones
+ */
+export async function fetchJobChanges(resolved = false): Promise<JobChange[]> {
+  let query = supabase
+    .from('job_changes')
+    .select(JOB_CHANGE_SELECT)
+    .order(resolved ? 'resolved_at' : 'detected_at', { ascending: false });
+
+  query = resolved ? query.neq('status', 'open') : query.eq('status', 'open');
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching job changes:', error);
+    throw new Error(`Failed to fetch job changes: ${error.message}`);
+  }
+
+  return (data || []).map(toJobChange);
+}
+
+/**
+ * Count the job changes waiting in the queue
+ */
+export async function fetchOpenJobChangeCount(): Promise<number> {
+  const { count, error } = await supabase
+    .from('job_changes')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'open');
+
+  if (error) {
+    console.error('Error counting job changes:', error);
+    throw new Error(`Failed to count job changes: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+const resolveJobChange = async (jobChangeId: string, status: JobChangeStatus, userId: string | null) => {
+  const { error } = await supabase
+    .from('job_changes')
+    .update({ status, resolved_at: new Date().toISOString(), resolved_by: userId })
+    .eq('id', jobChangeId);
+
+  if (error) {
+    console.error('Error resolving job change:', error);
+    throw new Error(`Failed to resolve job change: ${error.message}`);
+  }
+};
+
+/**
+ * Update the attendee from a job change and note it on their timeline. An attendee who left gets the new company
+ * and the matching health system (or none); a promoted attendee only gets the new title.
+ */
+export async function applyJobChange(change: JobChange, userId: string | null): Promise<void> {
+  const updates = change.kind === 'left_health_system'
+    ? { title: change.newTitle, company: change.newCompany, health_system_id: change.newHealthSystemId }
+    : { title: change.newTitle };
+
+  const changeBatchId = await createChangeBatch('apollo', 'Job change');
+  const { error } = await withChangeBatch(supabase
+    .from('attendees')
+    .update(updates)
+    .eq('id', change.attendeeId), changeBatchId);
+
+  if (error) {
+    console.error('Error applying job change:', error);
+    throw new Error(`Failed to apply job change: ${error.message}`);
+  }
+
+  await resolveJobChange(change.id, 'applied', userId);
+
+  await logSystemActivities([{
+    attendeeId: change.attendeeId,
+    healthSystemId: change.healthSystemId,
+    type: 'job_change',
+    summary: describeJobChange(change),
+    details: {
+      kind: change.kind,
+      previous_title: change.previousTitle,
+      previous_company: change.previousCompany,
+      new_title: change.newTitle,
+      new_company: change.newCompany,
+    },
+  }]);
+
+  notifyJobChangesChanged();
+}
+
+/**
+ * Take a job change out of the queue without touching the attendee
+ */
+export async function dismissJobChange(jobChangeId: string, userId: string | null): Promise<void> {
+  await resolveJobChange(jobChangeId, 'dismissed', userId);
+  notifyJobChangesChanged();
+}
+
+/**
+ * Describe a job change, e.g. "Moved to Mayo Clinic as Director of Oncology"
+ */
+export function describeJobChange(change: Pick<JobChange, 'kind' | 'newTitle' | 'newCompany'>): string {
+  if (change.kind === 'left_health_system') {
+    const role = change.newTitle ? ` as ${change.newTitle}` : '';
+    return change.newCompany ? `Moved to ${change.newCompany}${role}` : `Left their health system${role}`;
+  }
+  return `Promoted to ${change.newTitle || 'oncology leadership'}`;
+}
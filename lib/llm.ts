@@ -0,0 +1,87 @@
+import type { UsageProvider } from '@/lib/enrichmentUsage';
+
+// Safe to use in the browser: the models the app knows about and what each feature uses by default. The providers
+// that call them are in lib/llmProviders.ts, which is server-side only.
+
+export type LLMProviderId = 'openai' | 'gemini' | 'anthropic' | 'local' | 'fake';
+
+// The parts of the app that call a model. Each can be pointed at a different model.
+export type LLMFeature = 'enrichment' | 'enrichmentFallback' | 'extraction' | 'chat';
+
+export interface LLMModelOption {
+  // provider:model, e.g. openai:gpt-4o
+  id: string;
+  label: string;
+}
+
+// What /api/ai/models returns: the models that can be used and the one each feature uses
+export interface LLMModelsResponse {
+  models: LLMModelOption[];
+  features: Record<LLMFeature, string>;
+}
+
+export const LLM_PROVIDER_LABELS: Record<LLMProviderId, string> = {
+  openai: 'OpenAI',
+  gemini: 'Gemini',
+  anthropic: 'Anthropic',
+  local: 'Local',
+  fake: 'Fake',
+};
+
+// Overridden per feature with AI_MODEL_ENRICHMENT, AI_MODEL_ENRICHMENT_FALLBACK, AI_MODEL_EXTRACTION and AI_MODEL_CHAT
+export const DEFAULT_FEATURE_MODELS: Record<LLMFeature, string> = {
+  // Cheap first pass over every item
+  enrichment: 'openai:gpt-3.5-turbo',
+  // Boolean answers the first pass couldn't give as yes or no
+  enrichmentFallback: 'openai:gpt-4o',
+  // Pulls organization names out of prompts for the Definitive lookup
+  extraction: 'openai:gpt-3.5-turbo',
+  chat: 'openai:gpt-4.1-nano',
+};
+
+export const LLM_MODELS: LLMModelOption[] = [
+  { id: 'openai:gpt-4.1-nano', label: 'GPT-4.1 nano' },
+  { id: 'openai:gpt-4o-mini', label: 'GPT-4o mini' },
+  { id: 'openai:gpt-4o', label: 'GPT-4o' },
+  { id: 'openai:gpt-4o-mini-search-preview', label: 'GPT-4o mini Search' },
+  { id: 'openai:gpt-3.5-turbo', label: 'GPT-3.5 Turbo' },
+  { id: 'gemini:gemini-1.5-flash', label: 'Gemini 1.5 Flash' },
+  { id: 'gemini:gemini-1.5-pro', label: 'Gemini 1.5 Pro' },
+  { id: 'anthropic:claude-3-5-haiku-latest', label: 'Claude 3.5 Haiku' },
+  { id: 'anthropic:claude-3-5-sonnet-latest', label: 'Claude 3.5 Sonnet' },
+];
+
+/**
+ * Split a model id into its provider and the provider's model name. Ids without a provider are OpenAI models.
+ */
+export function parseModelId(id: string): { provider: LLMProviderId; model: string } {
+  const separator = id.indexOf(':');
+  if (separator === -1) {
+    return { provider: 'openai', model: id };
+  }
+
+  const provider = id.slice(0, separator) as LLMProviderId;
+  if (!(provider in LLM_PROVIDER_LABELS)) {
+    throw new Error(`Unknown model provider: ${provider}`);
+  }
+  return { provider, model: id.slice(separator + 1) };
+}
+
+/**
+ * The name to show for a model, e.g. in the chat's model picker
+ */
+export function modelLabel(id: string): string {
+  const known = LLM_MODELS.find(option => option.id === id);
+  if (known) return known.label;
+
+  const { provider, model } = parseModelId(id);
+  return `${LLM_PROVIDER_LABELS[provider]} ${model}`;
+}
+
+/**
+ * The provider a model's calls are logged and budgeted under. Local and fake models cost nothing and aren't logged.
+ */
+export function usageProviderForModel(id: string): UsageProvider | null {
+  const { provider } = parseModelId(id);
+  return provider === 'local' || provider === 'fake' ? null : provider;
+}
@@ -0,0 +1,330 @@
+import OpenAI from 'openai';
+import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
+import {
+  LLMProviderId,
+  LLMFeature,
+  LLMModelOption,
+  LLM_MODELS,
+  DEFAULT_FEATURE_MODELS,
+  parseModelId,
+  modelLabel,
+  usageProviderForModel,
+} from '@/lib/llm';
+import type { TokenTally } from '@/lib/enrichmentUsage';
+
+// Server-side only: the model providers behind AI enrichment, prompt testing and chat
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  // The provider's own model name, without the provider prefix
+  model: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a JSON object back, where the provider supports it. The prompt should still describe the JSON.
+  json?: boolean;
+  // The JSON schema of the reply when json is set. The real models only go by the prompt; the fake provider answers
+  // with a reply of this shape.
+  jsonSchema?: Record<string, unknown>;
+}
+
+export interface LLMResponse {
+  text: string;
+  inputTokens: number;
+  outputTokens: number;
+  // Pages a web search model cited, with where in the text each citation starts
+  citations?: LLMCitation[];
+}
+
+export interface LLMCitation {
+  url: string;
+  index: number;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  // Whether the keys or endpoint the provider needs are set
+  isConfigured(): boolean;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+const FEATURE_MODEL_ENV: Record<LLMFeature, string> = {
+  enrichment: 'AI_MODEL_ENRICHMENT',
+  enrichmentFallback: 'AI_MODEL_ENRICHMENT_FALLBACK',
+  extraction: 'AI_MODEL_EXTRACTION',
+  chat: 'AI_MODEL_CHAT',
+};
+
+// Ollama's OpenAI-compatible endpoint ignores the key, but the OpenAI client needs one
+const LOCAL_API_KEY_PLACEHOLDER = 'local';
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+// Anthropic requires a limit on every call
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 1024;
+// Anthropic has no JSON mode, so JSON is asked for in the system prompt and the reply is started with its opening brace
+const ANTHROPIC_JSON_INSTRUCTION = 'Reply with a single JSON object and nothing else.';
+const ANTHROPIC_JSON_PREFILL = '{';
+
+// OpenAI's web search models look pages up while answering. They don't take a temperature or a JSON response format.
+const isWebSearchModel = (model: string) => model.includes('-search-');
+
+// OpenAI and local endpoints speak the same API, so they share one implementation
+function openAICompatibleProvider(id: LLMProviderId, isConfigured: () => boolean, createClient: () => OpenAI): LLMProvider {
+  let client: OpenAI | null = null;
+
+  return {
+    id,
+    isConfigured,
+    async complete({ model, messages, temperature, maxTokens, json }) {
+      client = client || createClient();
+      const webSearch = isWebSearchModel(model);
+      const response = await client.chat.completions.create({
+        model,
+        messages,
+        temperature: webSearch ? undefined : temperature,
+        max_tokens: maxTokens,
+        ...(json && !webSearch ? { response_format: { type: 'json_object' as const } } : {}),
+      });
+
+      const message = response.choices[0]?.message;
+      return {
+        text: message?.content || '',
+        inputTokens: response.usage?.prompt_tokens || 0,
+        outputTokens: response.usage?.completion_tokens || 0,
+        citations: (message?.annotations || [])
+          .filter(annotation => annotation.type === 'url_citation')
+          .map(annotation => ({ url: annotation.url_citation.url, index: annotation.url_citation.start_index })),
+      };
+    },
+  };
+}
+
+const openAIProvider = openAICompatibleProvider(
+  'openai',
+  () => !!process.env.OPENAI_API_KEY,
+  () => new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+);
+
+// e.g. LOCAL_LLM_BASE_URL=http://localhost:11434/v1 for Ollama
+const localProvider = openAICompatibleProvider(
+  'local',
+  () => !!process.env.LOCAL_LLM_BASE_URL,
+  () => new OpenAI({
+    baseURL: process.env.LOCAL_LLM_BASE_URL,
+    apiKey: process.env.LOCAL_LLM_API_KEY || LOCAL_API_KEY_PLACEHOLDER,
+  })
+);
+
+const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  isConfigured: () => !!process.env.GEMINI_API_KEY,
+  async complete({ model, messages, temperature, maxTokens, json }) {
+    const systemInstruction = messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+    const generativeModel = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '').getGenerativeModel({
+      model,
+      ...(systemInstruction ? { systemInstruction } : {}),
+      generationConfig: {
+        temperature,
+        maxOutputTokens: maxTokens,
+        ...(json ? { responseMimeType: 'application/json' } : {}),
+      },
+      safetySettings: [
+        {
+          category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+        },
+        {
+          category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+        },
+      ],
+    });
+
+    const result = await generativeModel.generateContent({
+      contents: messages
+        .filter(message => message.role !== 'system')
+        .map(message => ({
+          role: message.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: message.content }],
+        })),
+    });
+
+    return {
+      text: result.response.text(),
+      inputTokens: result.response.usageMetadata?.promptTokenCount || 0,
+      outputTokens: result.response.usageMetadata?.candidatesTokenCount || 0,
+    };
+  },
+};
+
+const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+  async complete({ model, messages, temperature, maxTokens, json }) {
+    const system = [
+      ...messages.filter(message => message.role === 'system').map(message => message.content),
+      ...(json ? [ANTHROPIC_JSON_INSTRUCTION] : []),
+    ].join('\n\n');
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': process.env.ANTHROPIC_API_KEY || '',
+        'anthropic-version': ANTHROPIC_API_VERSION,
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: maxTokens || ANTHROPIC_DEFAULT_MAX_TOKENS,
+        temperature,
+        ...(system ? { system } : {}),
+        messages: [
+          ...messages.filter(message => message.role !== 'system'),
+          ...(json ? [{ role: 'assistant', content: ANTHROPIC_JSON_PREFILL }] : []),
+        ],
+      }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(`Anthropic request failed (${response.status}): ${data?.error?.message || response.statusText}`);
+    }
+
+    const text = (data.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('');
+
+    return {
+      // The reply carries on from the prefill, so put the brace back
+      text: json ? ANTHROPIC_JSON_PREFILL + text : text,
+      inputTokens: data.usage?.input_tokens || 0,
+      outputTokens: data.usage?.output_tokens || 0,
+    };
+  },
+};
+
+// The parts of a JSON schema the fake provider reads
+interface FakeSchema {
+  const?: unknown;
+  enum?: unknown[];
+  type?: string | string[];
+  format?: string;
+  properties?: Record<string, FakeSchema>;
+  items?: FakeSchema;
+  prefixItems?: FakeSchema[];
+}
+
+// Fixed values the fake provider answers with, by JSON schema format
+const FAKE_FORMAT_VALUES: Record<string, string> = {
+  date: '2024-01-01',
+  uri: 'https://example.com',
+};
+
+// A value of the given JSON schema, the same every time: consts and the first enum option as they are, fixed values
+// for the other types and the prompt for plain strings
+const fakeValueForSchema = (schema: FakeSchema, prompt: string): unknown => {
+  if ('const' in schema) return schema.const;
+  if (Array.isArray(schema.enum)) return schema.enum.find(option => option !== null) ?? null;
+
+  const type = Array.isArray(schema.type) ? schema.type.find(candidate => candidate !== 'null') : schema.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {})
+        .map(([name, property]) => [name, fakeValueForSchema(property, prompt)]));
+    case 'array':
+      return schema.prefixItems
+        ? schema.prefixItems.map(item => fakeValueForSchema(item, prompt))
+        : schema.items ? [fakeValueForSchema(schema.items, prompt)] : [];
+    case 'number':
+    case 'integer':
+      return 1;
+    case 'boolean':
+      return true;
+    case 'string':
+      return (schema.format && FAKE_FORMAT_VALUES[schema.format]) || prompt;
+    default:
+      return null;
+  }
+};
+
+// Answers with the last user message, or when JSON is asked for with a reply shaped like the schema (or {"text": ...}
+// without one), so tests get the same output every time. Enabled with LLM_FAKE_PROVIDER=true.
+const fakeProvider: LLMProvider = {
+  id: 'fake',
+  isConfigured: () => process.env.LLM_FAKE_PROVIDER === 'true',
+  async complete({ messages, json, jsonSchema }) {
+    const prompt = messages.filter(message => message.role === 'user').pop()?.content || '';
+    const text = json
+      ? JSON.stringify(jsonSchema ? fakeValueForSchema(jsonSchema as FakeSchema, prompt) : { text: prompt })
+      : prompt;
+
+    // Roughly four characters a token, like the real models
+    return {
+      text,
+      inputTokens: Math.ceil(messages.reduce((length, message) => length + message.content.length, 0) / 4),
+      outputTokens: Math.ceil(text.length / 4),
+    };
+  },
+};
+
+const PROVIDERS: Record<LLMProviderId, LLMProvider> = {
+  openai: openAIProvider,
+  gemini: geminiProvider,
+  anthropic: anthropicProvider,
+  local: localProvider,
+  fake: fakeProvider,
+};
+
+/**
+ * The model a feature uses: its AI_MODEL_* environment variable, or the default in lib/llm.ts
+ */
+export function modelForFeature(feature: LLMFeature): string {
+  return process.env[FEATURE_MODEL_ENV[feature]] || DEFAULT_FEATURE_MODELS[feature];
+}
+
+/**
+ * The models whose providers are set up, for pickers. Includes each feature's model and the local model.
+ */
+export function availableModels(): LLMModelOption[] {
+  const ids = LLM_MODELS.map(option => option.id);
+  if (localProvider.isConfigured()) {
+    ids.push(`local:${process.env.LOCAL_LLM_MODEL || DEFAULT_LOCAL_MODEL}`);
+  }
+  if (fakeProvider.isConfigured()) {
+    ids.push('fake:echo');
+  }
+  (Object.keys(FEATURE_MODEL_ENV) as LLMFeature[]).forEach(feature => ids.push(modelForFeature(feature)));
+
+  return Array.from(new Set(ids))
+    .filter(id => PROVIDERS[parseModelId(id).provider].isConfigured())
+    .map(id => ({ id, label: modelLabel(id) }));
+}
+
+/**
+ * Send messages to a model, given as provider:model. The call's tokens are added to the tally under the model's
+ * usage provider.
+ */
+export async function generateText(
+  modelId: string,
+  request: Omit<LLMRequest, 'model'>,
+  tally?: TokenTally
+): Promise<LLMResponse> {
+  const { provider, model } = parseModelId(modelId);
+  if (!PROVIDERS[provider].isConfigured()) {
+    throw new Error(`${modelLabel(modelId)} is not configured`);
+  }
+
+  const response = await PROVIDERS[provider].complete({ ...request, model });
+
+  const usageProvider = usageProviderForModel(modelId);
+  if (tally && usageProvider) {
+    tally.add(usageProvider, model, response.inputTokens, response.outputTokens);
+  }
+  return response;
+}
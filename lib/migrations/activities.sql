@@ -0,0 +1,81 @@
+-- Activity log for attendees and health systems: interactions people record (calls, emails, booth visits, meetings)
+-- and events the system writes itself (enrichment runs, Apollo pushes, list membership changes)
+CREATE TABLE IF NOT EXISTS activities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  attendee_id uuid REFERENCES attendees (id) ON DELETE CASCADE,
+  health_system_id uuid REFERENCES health_systems (id) ON DELETE CASCADE,
+  conference_id uuid REFERENCES conferences (id) ON DELETE SET NULL,
+  type text NOT NULL CHECK (type IN (
+    'call', 'email', 'meeting', 'booth_visit', 'note',
+    'enrichment', 'apollo_push', 'apollo_sync', 'job_change', 'list_added', 'list_removed'
+  )),
+  summary text NOT NULL,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  author_id uuid DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE SET NULL,
+  author_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (attendee_id IS NOT NULL OR health_system_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS activities_attendee_id_idx ON activities (attendee_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS activities_health_system_id_idx ON activities (health_system_id, occurred_at DESC);
+
+ALTER TABLE activities ENABLE ROW LEVEL SECURITY;
+
+-- The whole team sees the log; entries are written as yourself (not by read-only users) and only your own can be removed
+DROP POLICY IF EXISTS activities_select ON activities;
+CREATE POLICY activities_select ON activities
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS activities_insert ON activities;
+CREATE POLICY activities_insert ON activities
+  FOR INSERT WITH CHECK (author_id = auth.uid() AND current_user_role() IN ('admin', 'manager', 'rep'));
+
+DROP POLICY IF EXISTS activities_delete ON activities;
+CREATE POLICY activities_delete ON activities
+  FOR DELETE USING (author_id = auth.uid());
+
+-- Log list membership changes however they happen (adding to a list, deleting a list, merging attendees)
+CREATE OR REPLACE FUNCTION log_attendee_list_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  membership attendee_lists;
+  list_name text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    membership := NEW;
+  ELSE
+    membership := OLD;
+  END IF;
+
+  -- Skip rows removed because the attendee itself is being deleted
+  IF NOT EXISTS (SELECT 1 FROM attendees WHERE id = membership.attendee_id) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT name INTO list_name FROM lists WHERE id = membership.list_id;
+
+  INSERT INTO activities (attendee_id, type, summary, details)
+  VALUES (
+    membership.attendee_id,
+    CASE WHEN TG_OP = 'INSERT' THEN 'list_added' ELSE 'list_removed' END,
+    format(
+      CASE WHEN TG_OP = 'INSERT' THEN 'Added to list "%s"' ELSE 'Removed from list "%s"' END,
+      coalesce(list_name, 'deleted list')
+    ),
+    jsonb_build_object('list_id', membership.list_id, 'list_name', list_name)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS attendee_lists_activity ON attendee_lists;
+CREATE TRIGGER attendee_lists_activity
+  AFTER INSERT OR DELETE ON attendee_lists
+  FOR EACH ROW EXECUTE FUNCTION log_attendee_list_change();
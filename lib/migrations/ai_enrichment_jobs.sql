@@ -0,0 +1,202 @@
+-- AI enrichment runs, kept as jobs so they carry on after the dialog or tab is closed. The worker route
+-- (/api/ai/jobs/worker) processes pending items in batches and can pick a job up again where it stopped.
+CREATE TABLE IF NOT EXISTS ai_enrichment_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE SET NULL,
+  -- queued: waiting for the worker; running: being worked on; completed: every item was tried;
+  -- cancelled: stopped by a person; failed: stopped by the worker, see error
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'cancelled', 'failed')),
+  prompt_template text NOT NULL,
+  -- The saved prompt the run used, if any
+  prompt_name text,
+  -- The fields the run fills in: [{"name", "type", "description", "options"}], see lib/aiOutputFields.ts
+  output_fields jsonb NOT NULL CHECK (jsonb_typeof(output_fields) = 'array'),
+  include_definitive_data boolean NOT NULL DEFAULT false,
+  total_items integer NOT NULL DEFAULT 0,
+  succeeded_items integer NOT NULL DEFAULT 0,
+  failed_items integer NOT NULL DEFAULT 0,
+  error text,
+  -- A worker holds the job until then; a job whose lease ran out can be picked up by the next worker
+  locked_until timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+-- Jobs created before output fields filled a single column_name of column_type
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'ai_enrichment_jobs' AND column_name = 'column_name'
+  ) THEN
+    ALTER TABLE ai_enrichment_jobs ADD COLUMN IF NOT EXISTS output_fields jsonb;
+    UPDATE ai_enrichment_jobs
+    SET output_fields = jsonb_build_array(jsonb_build_object('name', column_name, 'type', column_type))
+    WHERE output_fields IS NULL;
+    ALTER TABLE ai_enrichment_jobs ALTER COLUMN output_fields SET NOT NULL;
+    ALTER TABLE ai_enrichment_jobs DROP COLUMN column_name, DROP COLUMN column_type;
+  END IF;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS ai_enrichment_jobs_status_idx ON ai_enrichment_jobs (status, created_at);
+CREATE INDEX IF NOT EXISTS ai_enrichment_jobs_created_by_idx ON ai_enrichment_jobs (created_by, created_at DESC);
+
+-- One row per record in a job, with the record as it was when the job was created
+CREATE TABLE IF NOT EXISTS ai_enrichment_job_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES ai_enrichment_jobs (id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  item jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed', 'cancelled')),
+  enriched_data jsonb,
+  -- Each value's confidence, rationale, sources and model, keyed by column
+  provenance jsonb,
+  error text,
+  attempts integer NOT NULL DEFAULT 0,
+  -- When the value was written to the record; results are applied once, by the app
+  applied_at timestamptz,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Tables from before provenance was kept
+ALTER TABLE ai_enrichment_job_items ADD COLUMN IF NOT EXISTS provenance jsonb;
+
+CREATE INDEX IF NOT EXISTS ai_enrichment_job_items_job_idx ON ai_enrichment_job_items (job_id, status, position);
+
+ALTER TABLE ai_enrichment_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_enrichment_job_items ENABLE ROW LEVEL SECURITY;
+
+-- People see and manage their own jobs; admins and managers see and manage everyone's. Only roles that run AI
+-- enrichment create jobs, and only admins (paid enrichment) include Definitive data. Jobs and items are only changed
+-- by the worker, which uses the service role, and by the cancel, retry and applied functions below.
+DROP POLICY IF EXISTS ai_enrichment_jobs_select ON ai_enrichment_jobs;
+CREATE POLICY ai_enrichment_jobs_select ON ai_enrichment_jobs
+  FOR SELECT USING (created_by = auth.uid() OR current_user_role() IN ('admin', 'manager'));
+
+DROP POLICY IF EXISTS ai_enrichment_jobs_insert ON ai_enrichment_jobs;
+CREATE POLICY ai_enrichment_jobs_insert ON ai_enrichment_jobs
+  FOR INSERT WITH CHECK (created_by = auth.uid() AND current_user_role() IN ('admin', 'manager', 'rep') AND (NOT include_definitive_data OR current_user_role() = 'admin'));
+
+DROP POLICY IF EXISTS ai_enrichment_jobs_update ON ai_enrichment_jobs;
+
+DROP POLICY IF EXISTS ai_enrichment_job_items_select ON ai_enrichment_job_items;
+CREATE POLICY ai_enrichment_job_items_select ON ai_enrichment_job_items
+  FOR SELECT USING (EXISTS (SELECT 1 FROM ai_enrichment_jobs j WHERE j.id = job_id AND (j.created_by = auth.uid() OR current_user_role() IN ('admin', 'manager'))));
+
+DROP POLICY IF EXISTS ai_enrichment_job_items_insert ON ai_enrichment_job_items;
+CREATE POLICY ai_enrichment_job_items_insert ON ai_enrichment_job_items
+  FOR INSERT WITH CHECK (EXISTS (SELECT 1 FROM ai_enrichment_jobs j WHERE j.id = job_id AND j.created_by = auth.uid() AND j.status = 'queued'));
+
+DROP POLICY IF EXISTS ai_enrichment_job_items_update ON ai_enrichment_job_items;
+
+-- Whether the caller can manage a job: their own, or anyone's for admins and managers
+CREATE OR REPLACE FUNCTION can_manage_ai_enrichment_job(in_job_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM ai_enrichment_jobs
+    WHERE id = in_job_id AND (created_by = auth.uid() OR current_user_role() IN ('admin', 'manager'))
+  );
+$$;
+
+-- Stop a queued or running job. Items already enriched keep their results; the rest are marked cancelled.
+CREATE OR REPLACE FUNCTION cancel_ai_enrichment_job(in_job_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_manage_ai_enrichment_job(in_job_id) THEN
+    RAISE EXCEPTION 'Not allowed to cancel this job' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE ai_enrichment_jobs
+  SET status = 'cancelled', finished_at = now(), locked_until = NULL
+  WHERE id = in_job_id AND status IN ('queued', 'running');
+
+  UPDATE ai_enrichment_job_items
+  SET status = 'cancelled', updated_at = now()
+  WHERE job_id = in_job_id AND status = 'pending';
+END;
+$$;
+
+-- Queue a finished job's failed and cancelled items to run again
+CREATE OR REPLACE FUNCTION retry_ai_enrichment_job(in_job_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_manage_ai_enrichment_job(in_job_id) OR current_user_role() NOT IN ('admin', 'manager', 'rep') THEN
+    RAISE EXCEPTION 'Not allowed to retry this job' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE ai_enrichment_jobs
+  SET status = 'queued', error = NULL, failed_items = 0, finished_at = NULL, locked_until = NULL
+  WHERE id = in_job_id AND status IN ('completed', 'cancelled', 'failed');
+
+  IF FOUND THEN
+    UPDATE ai_enrichment_job_items
+    SET status = 'pending', error = NULL, updated_at = now()
+    WHERE job_id = in_job_id AND status IN ('failed', 'cancelled');
+  END IF;
+END;
+$$;
+
+-- Mark succeeded items as written to their records, after the app applied their values. Returns how many were marked.
+CREATE OR REPLACE FUNCTION mark_ai_enrichment_items_applied(in_item_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  marked_count integer;
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'manager', 'rep') THEN
+    RAISE EXCEPTION 'Not allowed to apply enrichment results' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE ai_enrichment_job_items
+  SET applied_at = now(), updated_at = now()
+  WHERE id = ANY(in_item_ids) AND status = 'succeeded' AND applied_at IS NULL AND can_manage_ai_enrichment_job(job_id);
+
+  GET DIAGNOSTICS marked_count = ROW_COUNT;
+  RETURN marked_count;
+END;
+$$;
+
+-- Hand the oldest job that is waiting, or whose worker's lease ran out, to a worker for lease_seconds.
+-- Returns nothing when there's no work. Service role only.
+CREATE OR REPLACE FUNCTION claim_ai_enrichment_job(lease_seconds integer DEFAULT 300)
+RETURNS SETOF ai_enrichment_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Not allowed to claim enrichment jobs';
+  END IF;
+
+  RETURN QUERY
+  UPDATE ai_enrichment_jobs
+  SET status = 'running',
+      started_at = coalesce(started_at, now()),
+      locked_until = now() + make_interval(secs => lease_seconds)
+  WHERE id = (
+    SELECT id FROM ai_enrichment_jobs
+    WHERE status IN ('queued', 'running') AND (locked_until IS NULL OR locked_until < now())
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
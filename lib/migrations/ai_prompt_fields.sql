@@ -0,0 +1,3 @@
+-- The output fields a saved AI prompt fills in: [{"name", "type", "description", "options"}], see
+-- lib/aiOutputFields.ts. Prompts saved before this only have column_type, which is kept for them.
+ALTER TABLE ai_prompts ADD COLUMN IF NOT EXISTS output_fields jsonb;
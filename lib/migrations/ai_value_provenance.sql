@@ -0,0 +1,49 @@
+-- Where each AI-enriched value came from: the model's confidence, rationale and sources, and which model answered.
+-- One row per record and column, replaced whenever AI enrichment writes the column again.
+CREATE TABLE IF NOT EXISTS ai_value_provenance (
+  table_name text NOT NULL CHECK (table_name IN ('attendees', 'health_systems', 'conferences')),
+  record_id uuid NOT NULL,
+  column_name text NOT NULL,
+  -- The value as the AI gave it; the app only shows the provenance while the record still holds this value
+  value jsonb,
+  confidence real CHECK (confidence BETWEEN 0 AND 1),
+  rationale text,
+  sources text[] NOT NULL DEFAULT '{}',
+  -- provider:model, e.g. openai:gpt-4o
+  model text NOT NULL,
+  prompt_name text,
+  enriched_by uuid DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE SET NULL,
+  enriched_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (table_name, record_id, column_name)
+);
+
+ALTER TABLE ai_value_provenance ENABLE ROW LEVEL SECURITY;
+
+-- The person who applied the values, however the row was written
+CREATE OR REPLACE FUNCTION set_ai_value_provenance_enriched_by()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.enriched_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ai_value_provenance_enriched_by ON ai_value_provenance;
+CREATE TRIGGER ai_value_provenance_enriched_by
+  BEFORE INSERT OR UPDATE ON ai_value_provenance
+  FOR EACH ROW EXECUTE FUNCTION set_ai_value_provenance_enriched_by();
+
+-- The whole team sees provenance; it is written by the roles that run AI enrichment, as the values are applied
+DROP POLICY IF EXISTS ai_value_provenance_select ON ai_value_provenance;
+CREATE POLICY ai_value_provenance_select ON ai_value_provenance
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS ai_value_provenance_insert ON ai_value_provenance;
+CREATE POLICY ai_value_provenance_insert ON ai_value_provenance
+  FOR INSERT WITH CHECK (current_user_role() IN ('admin', 'manager', 'rep'));
+
+DROP POLICY IF EXISTS ai_value_provenance_update ON ai_value_provenance;
+CREATE POLICY ai_value_provenance_update ON ai_value_provenance
+  FOR UPDATE USING (current_user_role() IN ('admin', 'manager', 'rep'));
@@ -0,0 +1,63 @@
+-- How Apollo bulk enrichment scores candidate matches. There is one row for the workspace; the client falls back to
+-- the same defaults when it is missing.
+CREATE TABLE IF NOT EXISTS apollo_match_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  -- Points each factor is worth; scores are scaled to 0-100 whatever the weights add up to
+  weights jsonb NOT NULL DEFAULT '{"name": 40, "company": 25, "oncology": 25, "title": 7, "recency": 3}'::jsonb,
+  oncology_keywords text[] NOT NULL DEFAULT ARRAY[
+    'oncology', 'oncologist', 'cancer', 'tumor', 'chemotherapy', 'radiation',
+    'hematology', 'leukemia', 'lymphoma', 'melanoma', 'carcinoma',
+    'oncological', 'chemotherap', 'radiolog', 'patholog', 'surgical oncolog',
+    'medical oncolog', 'radiation oncolog', 'hematolog oncolog',
+    'gynecologic oncolog', 'pediatric oncolog', 'neuro-oncolog'
+  ],
+  -- Best candidates scoring at least this (with a close enough name) are applied; lower ones go to review
+  auto_accept_score numeric NOT NULL DEFAULT 65,
+  -- Best candidates scoring below this are treated as no match
+  min_score numeric NOT NULL DEFAULT 35,
+  -- Share of the name points needed to apply a match without review
+  min_name_similarity numeric NOT NULL DEFAULT 0.75,
+  updated_by uuid DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (min_score <= auto_accept_score)
+);
+
+-- Low-confidence Apollo matches waiting for someone to accept a candidate or reject them all
+CREATE TABLE IF NOT EXISTS apollo_match_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  attendee_id uuid NOT NULL REFERENCES attendees (id) ON DELETE CASCADE,
+  -- The top candidates, best first, each with its Apollo person, total score and per-factor breakdown
+  candidates jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  -- The Apollo person that was accepted
+  chosen_person_id text,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz,
+  resolved_by uuid REFERENCES auth.users (id) ON DELETE SET NULL
+);
+
+-- At most one pending review per attendee; a newer enrichment replaces it
+CREATE UNIQUE INDEX IF NOT EXISTS apollo_match_reviews_pending_attendee_idx ON apollo_match_reviews (attendee_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS apollo_match_reviews_status_idx ON apollo_match_reviews (status, created_at DESC);
+
+ALTER TABLE apollo_match_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE apollo_match_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Everyone reads the settings, only admins and managers change them
+DROP POLICY IF EXISTS apollo_match_settings_select ON apollo_match_settings;
+CREATE POLICY apollo_match_settings_select ON apollo_match_settings
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS apollo_match_settings_write ON apollo_match_settings;
+CREATE POLICY apollo_match_settings_write ON apollo_match_settings
+  FOR ALL USING (current_user_role() IN ('admin', 'manager')) WITH CHECK (current_user_role() IN ('admin', 'manager'));
+
+-- The whole team sees the queue; everyone but read-only users adds to and resolves it
+DROP POLICY IF EXISTS apollo_match_reviews_select ON apollo_match_reviews;
+CREATE POLICY apollo_match_reviews_select ON apollo_match_reviews
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS apollo_match_reviews_write ON apollo_match_reviews;
+CREATE POLICY apollo_match_reviews_write ON apollo_match_reviews
+  FOR ALL USING (current_user_role() IN ('admin', 'manager', 'rep')) WITH CHECK (current_user_role() IN ('admin', 'manager', 'rep'));
@@ -0,0 +1,17 @@
+-- Links attendees to Apollo so the two systems can be kept in step.
+--   apollo_contact_id - the contact in the team's Apollo account, set when the attendee is pushed
+--   apollo_person_id  - the person in Apollo's database, set when the attendee is enriched
+ALTER TABLE attendees ADD COLUMN IF NOT EXISTS apollo_contact_id text;
+ALTER TABLE attendees ADD COLUMN IF NOT EXISTS apollo_person_id text;
+ALTER TABLE attendees ADD COLUMN IF NOT EXISTS apollo_pushed_at timestamptz;
+-- When changes were last pulled from the linked Apollo contact
+ALTER TABLE attendees ADD COLUMN IF NOT EXISTS apollo_synced_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS attendees_apollo_contact_id_idx ON attendees (apollo_contact_id);
+
+-- Record pulls from Apollo on the activity timeline
+ALTER TABLE activities DROP CONSTRAINT IF EXISTS activities_type_check;
+ALTER TABLE activities ADD CONSTRAINT activities_type_check CHECK (type IN (
+  'call', 'email', 'meeting', 'booth_visit', 'note',
+  'enrichment', 'apollo_push', 'apollo_sync', 'list_added', 'list_removed'
+));
@@ -0,0 +1,77 @@
+-- Function to import a batch of attendees and link them to a conference.
+-- Runs as a single transaction: if any row fails, nothing is written.
+--
+-- in_rows is a JSON array of objects shaped like:
+--   { "row_index": 0, "action": "create", "data": { "first_name": "...", ... } }
+--   { "row_index": 1, "action": "link", "existing_id": "<attendee uuid>" }
+-- Rows with any other action are ignored.
+CREATE OR REPLACE FUNCTION import_attendees(in_rows jsonb, in_conference_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  import_row jsonb;
+  row_data jsonb;
+  column_list text;
+  target_id uuid;
+  results jsonb := '[]'::jsonb;
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'manager', 'rep') THEN
+    RAISE EXCEPTION 'Not allowed to import attendees' USING ERRCODE = '42501';
+  END IF;
+
+  FOR import_row IN SELECT * FROM jsonb_array_elements(in_rows)
+  LOOP
+    target_id := NULL;
+
+    IF import_row->>'action' = 'create' THEN
+      row_data := import_row->'data';
+
+      -- Only insert keys that are real columns on attendees, so defaults (id, timestamps) still apply
+      SELECT string_agg(quote_ident(c.column_name), ', ')
+      INTO column_list
+      FROM information_schema.columns c
+      WHERE c.table_schema = 'public'
+      AND c.table_name = 'attendees'
+      AND c.column_name NOT IN ('id', 'created_at', 'updated_at')
+      AND row_data ? c.column_name;
+
+      IF column_list IS NULL THEN
+        RAISE EXCEPTION 'Row % has no importable columns', import_row->>'row_index';
+      END IF;
+
+      EXECUTE format(
+        'INSERT INTO attendees (%s) SELECT %s FROM jsonb_populate_record(NULL::attendees, $1) RETURNING id',
+        column_list,
+        column_list
+      )
+      USING row_data
+      INTO target_id;
+    ELSIF import_row->>'action' = 'link' THEN
+      target_id := (import_row->>'existing_id')::uuid;
+    ELSE
+      CONTINUE;
+    END IF;
+
+    IF in_conference_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1
+      FROM attendee_conferences
+      WHERE attendee_id = target_id
+      AND conference_id = in_conference_id
+    ) THEN
+      INSERT INTO attendee_conferences (attendee_id, conference_id)
+      VALUES (target_id, in_conference_id);
+    END IF;
+
+    results := results || jsonb_build_object(
+      'row_index', (import_row->>'row_index')::int,
+      'attendee_id', target_id,
+      'action', import_row->>'action'
+    );
+  END LOOP;
+
+  RETURN results;
+END;
+$$;
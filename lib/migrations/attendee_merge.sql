@@ -0,0 +1,107 @@
+-- Function to merge duplicate attendees into a single surviving record.
+-- Runs as a single transaction: if any step fails, nothing is changed.
+--
+-- in_values holds the field values picked for the survivor, e.g. { "email": "...", "health_system_id": "..." }.
+-- Conference and list memberships of the duplicates are moved to the survivor (skipping ones it already has),
+-- along with their activity log, tasks and opportunities they champion, then the duplicates are deleted.
+CREATE OR REPLACE FUNCTION merge_attendees(in_survivor_id uuid, in_duplicate_ids uuid[], in_values jsonb DEFAULT '{}'::jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  duplicate_id uuid;
+  set_list text;
+  moved_count integer;
+  conferences_moved integer := 0;
+  lists_moved integer := 0;
+  deleted_count integer;
+BEGIN
+  -- Merging deletes the duplicates, so it takes the same role as deleting attendees
+  IF current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can merge attendees' USING ERRCODE = '42501';
+  END IF;
+
+  IF in_survivor_id = ANY(in_duplicate_ids) THEN
+    RAISE EXCEPTION 'Survivor % cannot also be merged as a duplicate', in_survivor_id;
+  END IF;
+
+  -- Apply the chosen field values to the survivor (only keys that are real attendee columns)
+  SELECT string_agg(format('%I = src.%I', c.column_name, c.column_name), ', ')
+  INTO set_list
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+  AND c.table_name = 'attendees'
+  AND c.column_name NOT IN ('id', 'created_at', 'updated_at')
+  AND in_values ? c.column_name;
+
+  IF set_list IS NOT NULL THEN
+    EXECUTE format(
+      'UPDATE attendees SET %s, updated_at = now() FROM jsonb_populate_record(NULL::attendees, $1) AS src WHERE attendees.id = $2',
+      set_list
+    )
+    USING in_values, in_survivor_id;
+  END IF;
+
+  -- Move memberships one duplicate at a time so two duplicates in the same conference/list don't collide
+  FOREACH duplicate_id IN ARRAY in_duplicate_ids
+  LOOP
+    UPDATE attendee_conferences ac
+    SET attendee_id = in_survivor_id
+    WHERE ac.attendee_id = duplicate_id
+    AND NOT EXISTS (
+      SELECT 1 FROM attendee_conferences s
+      WHERE s.attendee_id = in_survivor_id
+      AND s.conference_id = ac.conference_id
+    );
+    GET DIAGNOSTICS moved_count = ROW_COUNT;
+    conferences_moved := conferences_moved + moved_count;
+
+    UPDATE attendee_lists al
+    SET attendee_id = in_survivor_id
+    WHERE al.attendee_id = duplicate_id
+    AND NOT EXISTS (
+      SELECT 1 FROM attendee_lists s
+      WHERE s.attendee_id = in_survivor_id
+      AND s.list_id = al.list_id
+    );
+    GET DIAGNOSTICS moved_count = ROW_COUNT;
+    lists_moved := lists_moved + moved_count;
+
+    -- Remaining rows are memberships the survivor already has
+    DELETE FROM attendee_conferences WHERE attendee_id = duplicate_id;
+    DELETE FROM attendee_lists WHERE attendee_id = duplicate_id;
+  END LOOP;
+
+  -- Keep the duplicates' activity history on the survivor
+  IF to_regclass('public.activities') IS NOT NULL THEN
+    EXECUTE 'UPDATE activities SET attendee_id = $1 WHERE attendee_id = ANY($2)'
+    USING in_survivor_id, in_duplicate_ids;
+  END IF;
+
+  -- Keep follow-up tasks for the duplicates on the survivor
+  IF to_regclass('public.tasks') IS NOT NULL THEN
+    EXECUTE 'UPDATE tasks SET attendee_id = $1 WHERE attendee_id = ANY($2)'
+    USING in_survivor_id, in_duplicate_ids;
+  END IF;
+
+  -- Keep the duplicates' opportunities championed by the survivor
+  IF to_regclass('public.opportunity_champions') IS NOT NULL THEN
+    EXECUTE 'INSERT INTO opportunity_champions (opportunity_id, attendee_id)
+      SELECT DISTINCT opportunity_id, $1 FROM opportunity_champions WHERE attendee_id = ANY($2)
+      ON CONFLICT DO NOTHING'
+    USING in_survivor_id, in_duplicate_ids;
+  END IF;
+
+  DELETE FROM attendees WHERE id = ANY(in_duplicate_ids);
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'survivor_id', in_survivor_id,
+    'merged_count', deleted_count,
+    'conferences_moved', conferences_moved,
+    'lists_moved', lists_moved
+  );
+END;
+$$;
@@ -0,0 +1,152 @@
+-- Rules that re-run enrichment without anyone starting it: a saved AI prompt, Definitive enrichment or the Apollo
+-- match, run on a schedule, when attendees are added to a conference or when records' data gets old. The runner route
+-- (/api/automation/run) checks the enabled rules on a schedule and records each run.
+CREATE TABLE IF NOT EXISTS automation_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  enabled boolean NOT NULL DEFAULT true,
+  -- ai_prompt: run prompt_id as an AI enrichment job; definitive: Definitive enrichment of health systems;
+  -- apollo_match: Apollo match of attendees
+  action text NOT NULL CHECK (action IN ('ai_prompt', 'definitive', 'apollo_match')),
+  prompt_id uuid REFERENCES ai_prompts (id) ON DELETE CASCADE,
+  table_name text NOT NULL CHECK (table_name IN ('attendees', 'health_systems', 'conferences')),
+  -- schedule: every record again each period_days; conference_attendee_added: attendees added to conference_id after
+  -- the rule was made, once each; stale_data: records not updated in period_days, again each period_days at most
+  trigger_type text NOT NULL CHECK (trigger_type IN ('schedule', 'conference_attendee_added', 'stale_data')),
+  period_days integer CHECK (period_days > 0),
+  conference_id uuid REFERENCES conferences (id) ON DELETE CASCADE,
+  -- When the rule last ran on any records
+  last_run_at timestamptz,
+  -- When the runner last looked for records to run on
+  last_checked_at timestamptz,
+  -- A runner holds the rule until then
+  locked_until timestamptz,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((action = 'ai_prompt') = (prompt_id IS NOT NULL)),
+  CHECK (action <> 'definitive' OR table_name = 'health_systems'),
+  CHECK (action <> 'apollo_match' OR table_name = 'attendees'),
+  CHECK (trigger_type <> 'conference_attendee_added' OR (table_name = 'attendees' AND conference_id IS NOT NULL)),
+  CHECK (trigger_type = 'conference_attendee_added' OR period_days IS NOT NULL)
+);
+
+-- One row per time a rule ran on a set of records
+CREATE TABLE IF NOT EXISTS automation_rule_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id uuid NOT NULL REFERENCES automation_rules (id) ON DELETE CASCADE,
+  -- running: in progress; completed: every record was tried; failed: stopped, see error
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  record_count integer NOT NULL DEFAULT 0,
+  succeeded_count integer NOT NULL DEFAULT 0,
+  failed_count integer NOT NULL DEFAULT 0,
+  -- The job an AI prompt rule queued; the worker writes its results when it finishes
+  ai_job_id uuid REFERENCES ai_enrichment_jobs (id) ON DELETE SET NULL,
+  error text,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS automation_rule_runs_rule_idx ON automation_rule_runs (rule_id, started_at DESC);
+
+-- Jobs queued by a rule have their results written by the worker, since nobody is there to apply them
+ALTER TABLE ai_enrichment_jobs ADD COLUMN IF NOT EXISTS automation_rule_id uuid REFERENCES automation_rules (id) ON DELETE SET NULL;
+
+-- When each rule last ran on each record, so records aren't run again before their period is up
+CREATE TABLE IF NOT EXISTS automation_rule_records (
+  rule_id uuid NOT NULL REFERENCES automation_rules (id) ON DELETE CASCADE,
+  record_id uuid NOT NULL,
+  last_run_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (rule_id, record_id)
+);
+
+ALTER TABLE automation_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE automation_rule_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE automation_rule_records ENABLE ROW LEVEL SECURITY;
+
+-- The whole team sees the rules and their runs. Admins and managers (enrichment settings) manage rules; only admins
+-- (paid enrichment) manage Definitive and Apollo rules. Runs and records are written by the runner's service role.
+DROP POLICY IF EXISTS automation_rules_select ON automation_rules;
+CREATE POLICY automation_rules_select ON automation_rules
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS automation_rules_write ON automation_rules;
+CREATE POLICY automation_rules_write ON automation_rules
+  FOR ALL USING (current_user_role() = 'admin' OR (current_user_role() = 'manager' AND action = 'ai_prompt'))
+  WITH CHECK (current_user_role() = 'admin' OR (current_user_role() = 'manager' AND action = 'ai_prompt'));
+
+DROP POLICY IF EXISTS automation_rule_runs_select ON automation_rule_runs;
+CREATE POLICY automation_rule_runs_select ON automation_rule_runs
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Hand an enabled rule that hasn't been checked since checked_before, and isn't held by another runner, to a runner
+-- for lease_seconds. Returns nothing when every rule has been checked. Service role only.
+CREATE OR REPLACE FUNCTION claim_automation_rule(checked_before timestamptz, lease_seconds integer DEFAULT 300)
+RETURNS SETOF automation_rules
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Not allowed to claim automation rules';
+  END IF;
+
+  RETURN QUERY
+  UPDATE automation_rules
+  SET last_checked_at = now(),
+      locked_until = now() + make_interval(secs => lease_seconds)
+  WHERE id = (
+    SELECT id FROM automation_rules
+    WHERE enabled
+      AND (last_checked_at IS NULL OR last_checked_at < checked_before)
+      AND (locked_until IS NULL OR locked_until < now())
+    ORDER BY last_checked_at NULLS FIRST
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+-- The records a rule should run on now, oldest first, up to max_records. Service role only.
+CREATE OR REPLACE FUNCTION automation_rule_targets(target_rule_id uuid, max_records integer DEFAULT 100)
+RETURNS TABLE (target_id uuid)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  found_rule automation_rules;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Not allowed to pick automation rule records';
+  END IF;
+
+  SELECT * INTO found_rule FROM automation_rules r WHERE r.id = target_rule_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF found_rule.trigger_type = 'conference_attendee_added' THEN
+    RETURN QUERY
+    SELECT ac.attendee_id FROM attendee_conferences ac
+    WHERE ac.conference_id = found_rule.conference_id
+      AND ac.created_at >= found_rule.created_at
+      AND NOT EXISTS (
+        SELECT 1 FROM automation_rule_records rr WHERE rr.rule_id = found_rule.id AND rr.record_id = ac.attendee_id
+      )
+    GROUP BY ac.attendee_id
+    ORDER BY min(ac.created_at)
+    LIMIT max_records;
+    RETURN;
+  END IF;
+
+  -- Records the rule hasn't run on within the period; stale data rules also skip records updated within it. Tables
+  -- without updated_at go by created_at.
+  RETURN QUERY EXECUTE format(
+    'SELECT t.id FROM %I t
+     LEFT JOIN automation_rule_records rr ON rr.rule_id = $1 AND rr.record_id = t.id
+     WHERE (rr.last_run_at IS NULL OR rr.last_run_at < now() - make_interval(days => $2))
+       AND ($3 <> ''stale_data'' OR coalesce((to_jsonb(t) ->> ''updated_at'')::timestamptz, t.created_at) < now() - make_interval(days => $2))
+     ORDER BY rr.last_run_at NULLS FIRST, t.created_at
+     LIMIT $4',
+    found_rule.table_name
+  ) USING found_rule.id, found_rule.period_days, found_rule.trigger_type, max_records;
+END;
+$$;
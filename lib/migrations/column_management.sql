@@ -3,6 +3,7 @@ CREATE OR REPLACE FUNCTION column_exists(table_name text, column_name text)
 RETURNS boolean
 LANGUAGE plpgsql
 SECURITY DEFINER
+SET search_path = public
 AS $$
 DECLARE
   column_exists boolean;
@@ -19,13 +20,52 @@ BEGIN
 END;
 $$;
 
--- Function to add a column to a table
+-- Function to add a column to a table (admins only)
 CREATE OR REPLACE FUNCTION add_column(table_name text, column_name text, column_type text)
 RETURNS void
 LANGUAGE plpgsql
 SECURITY DEFINER
+SET search_path = public
 AS $$
 BEGIN
+  IF current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can add columns' USING ERRCODE = '42501';
+  END IF;
+
   EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS %I %s', table_name, column_name, column_type);
 END;
-$$; 
\ No newline at end of file
+$$;
+
+-- Function to add several columns to a table in one statement (admins only). columns is a JSON array of
+-- {"name", "type"} objects; columns that already exist are skipped, so anyone can call it when nothing is new.
+CREATE OR REPLACE FUNCTION add_columns(table_name text, columns jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_column jsonb;
+  clauses text[] := ARRAY[]::text[];
+BEGIN
+  FOR new_column IN SELECT * FROM jsonb_array_elements(columns)
+  LOOP
+    IF NOT column_exists($1, new_column->>'name') THEN
+      IF new_column->>'type' NOT IN ('text', 'boolean', 'float8', 'date', 'text[]') THEN
+        RAISE EXCEPTION 'Unsupported column type: %', new_column->>'type' USING ERRCODE = '22023';
+      END IF;
+      clauses := clauses || format('ADD COLUMN IF NOT EXISTS %I %s', new_column->>'name', new_column->>'type');
+    END IF;
+  END LOOP;
+
+  IF array_length(clauses, 1) IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can add columns' USING ERRCODE = '42501';
+  END IF;
+
+  EXECUTE format('ALTER TABLE %I %s', $1, array_to_string(clauses, ', '));
+END;
+$$;
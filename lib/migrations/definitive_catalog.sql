@@ -0,0 +1,55 @@
+-- A copy of the Definitive Healthcare hospital catalog, so matching and AI enrichment search the database instead of
+-- pulling the whole catalog from the API. Refreshed in pages by the /api/definitive/catalog/refresh job.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE IF NOT EXISTS definitive_hospitals (
+  -- The Definitive ID
+  id integer PRIMARY KEY,
+  name text NOT NULL,
+  city text,
+  state text,
+  -- The whole record as Definitive returns it
+  data jsonb NOT NULL,
+  synced_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS definitive_hospitals_name_trgm_idx ON definitive_hospitals USING gin (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS definitive_hospitals_synced_at_idx ON definitive_hospitals (synced_at);
+
+-- Where the refresh job is in its pass over the catalog. A single row.
+CREATE TABLE IF NOT EXISTS definitive_catalog_sync (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  -- The last Definitive ID fetched in the current pass; 0 when the next run starts a new pass
+  cursor_id integer NOT NULL DEFAULT 0,
+  pass_started_at timestamptz,
+  last_completed_at timestamptz,
+  last_run_at timestamptz,
+  last_error text,
+  hospital_count integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE definitive_hospitals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE definitive_catalog_sync ENABLE ROW LEVEL SECURITY;
+
+-- The whole team can search the catalog; only the refresh job writes it, with the service role
+DROP POLICY IF EXISTS definitive_hospitals_select ON definitive_hospitals;
+CREATE POLICY definitive_hospitals_select ON definitive_hospitals
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS definitive_catalog_sync_select ON definitive_catalog_sync;
+CREATE POLICY definitive_catalog_sync_select ON definitive_catalog_sync
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Hospitals whose name is like the search, most similar first
+CREATE OR REPLACE FUNCTION search_definitive_hospitals(search text, max_results integer DEFAULT 10)
+RETURNS TABLE (id integer, data jsonb, similarity real)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT h.id, h.data, similarity(h.name, search)
+  FROM definitive_hospitals h
+  WHERE h.name % search
+     OR h.name ILIKE '%' || replace(replace(replace(search, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+  ORDER BY similarity(h.name, search) DESC, h.name
+  LIMIT max_results;
+$$;
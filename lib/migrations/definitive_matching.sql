@@ -0,0 +1,28 @@
+-- Review state of each health system's Definitive Healthcare match. Low-confidence matches wait here for someone to
+-- confirm them, pick an alternative or link a hospital by hand; confirmed links are skipped by later enrichment runs.
+CREATE TABLE IF NOT EXISTS definitive_matches (
+  health_system_id uuid PRIMARY KEY REFERENCES health_systems (id) ON DELETE CASCADE,
+  -- pending: waiting for review; confirmed: linked to definitive_id by a person; no_match: not in Definitive
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'no_match')),
+  -- The candidate hospitals from the last enrichment run, best first, each with its Definitive record and confidence
+  candidates jsonb NOT NULL DEFAULT '[]'::jsonb,
+  definitive_id text,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz,
+  resolved_by uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  CHECK (status <> 'confirmed' OR definitive_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS definitive_matches_status_idx ON definitive_matches (status, created_at);
+
+ALTER TABLE definitive_matches ENABLE ROW LEVEL SECURITY;
+
+-- The whole team sees the queue; everyone but read-only users adds to and resolves it
+DROP POLICY IF EXISTS definitive_matches_select ON definitive_matches;
+CREATE POLICY definitive_matches_select ON definitive_matches
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS definitive_matches_write ON definitive_matches;
+CREATE POLICY definitive_matches_write ON definitive_matches
+  FOR ALL USING (current_user_role() IN ('admin', 'manager', 'rep')) WITH CHECK (current_user_role() IN ('admin', 'manager', 'rep'));
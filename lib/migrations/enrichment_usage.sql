@@ -0,0 +1,119 @@
+-- Every paid call to Apollo, Definitive and the AI providers, logged by the API routes that make them
+CREATE TABLE IF NOT EXISTS enrichment_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Null for scheduled jobs
+  user_id uuid DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE SET NULL,
+  provider text NOT NULL CHECK (provider IN ('apollo', 'definitive', 'openai', 'gemini', 'anthropic')),
+  -- What the call was for, e.g. peopleBulkMatch or enrich
+  operation text NOT NULL,
+  -- The records the call was about
+  record_count integer NOT NULL DEFAULT 0 CHECK (record_count >= 0),
+  -- Provider credits spent (Apollo credits, Definitive requests)
+  credits numeric NOT NULL DEFAULT 0 CHECK (credits >= 0),
+  input_tokens integer NOT NULL DEFAULT 0 CHECK (input_tokens >= 0),
+  output_tokens integer NOT NULL DEFAULT 0 CHECK (output_tokens >= 0),
+  -- In US dollars, from the unit prices in lib/enrichmentUsage.ts
+  estimated_cost numeric(12, 4) NOT NULL DEFAULT 0 CHECK (estimated_cost >= 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS enrichment_usage_created_at_idx ON enrichment_usage (created_at DESC);
+CREATE INDEX IF NOT EXISTS enrichment_usage_user_idx ON enrichment_usage (user_id, created_at DESC);
+
+-- Monthly spending limit per provider. Without a row a provider has no limit.
+CREATE TABLE IF NOT EXISTS enrichment_budgets (
+  provider text PRIMARY KEY CHECK (provider IN ('apollo', 'definitive', 'openai', 'gemini', 'anthropic')),
+  -- In US dollars per calendar month, for the whole team
+  monthly_limit numeric(12, 2) NOT NULL CHECK (monthly_limit >= 0),
+  -- block: runs that would go over are refused; confirm: the user is asked first
+  mode text NOT NULL DEFAULT 'confirm' CHECK (mode IN ('block', 'confirm')),
+  updated_by uuid DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Anthropic was added after the tables were first created
+ALTER TABLE enrichment_usage DROP CONSTRAINT IF EXISTS enrichment_usage_provider_check;
+ALTER TABLE enrichment_usage ADD CONSTRAINT enrichment_usage_provider_check
+  CHECK (provider IN ('apollo', 'definitive', 'openai', 'gemini', 'anthropic'));
+
+-- Negative amounts would lower the month's spend. Added for tables created before these checks.
+ALTER TABLE enrichment_usage DROP CONSTRAINT IF EXISTS enrichment_usage_record_count_check;
+ALTER TABLE enrichment_usage ADD CONSTRAINT enrichment_usage_record_count_check CHECK (record_count >= 0);
+ALTER TABLE enrichment_usage DROP CONSTRAINT IF EXISTS enrichment_usage_credits_check;
+ALTER TABLE enrichment_usage ADD CONSTRAINT enrichment_usage_credits_check CHECK (credits >= 0);
+ALTER TABLE enrichment_usage DROP CONSTRAINT IF EXISTS enrichment_usage_input_tokens_check;
+ALTER TABLE enrichment_usage ADD CONSTRAINT enrichment_usage_input_tokens_check CHECK (input_tokens >= 0);
+ALTER TABLE enrichment_usage DROP CONSTRAINT IF EXISTS enrichment_usage_output_tokens_check;
+ALTER TABLE enrichment_usage ADD CONSTRAINT enrichment_usage_output_tokens_check CHECK (output_tokens >= 0);
+ALTER TABLE enrichment_usage DROP CONSTRAINT IF EXISTS enrichment_usage_estimated_cost_check;
+ALTER TABLE enrichment_usage ADD CONSTRAINT enrichment_usage_estimated_cost_check CHECK (estimated_cost >= 0);
+
+ALTER TABLE enrichment_budgets DROP CONSTRAINT IF EXISTS enrichment_budgets_provider_check;
+ALTER TABLE enrichment_budgets ADD CONSTRAINT enrichment_budgets_provider_check
+  CHECK (provider IN ('apollo', 'definitive', 'openai', 'gemini', 'anthropic'));
+
+ALTER TABLE enrichment_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE enrichment_budgets ENABLE ROW LEVEL SECURITY;
+
+-- Admins and managers see everyone's usage, others their own. There is no insert policy: only the API routes write
+-- the log, with the service role, so users can't add or change entries to get around the budgets.
+DROP POLICY IF EXISTS enrichment_usage_select ON enrichment_usage;
+CREATE POLICY enrichment_usage_select ON enrichment_usage
+  FOR SELECT USING (user_id = auth.uid() OR current_user_role() IN ('admin', 'manager'));
+
+DROP POLICY IF EXISTS enrichment_usage_insert ON enrichment_usage;
+
+-- Everyone reads the budgets, only admins and managers change them
+DROP POLICY IF EXISTS enrichment_budgets_select ON enrichment_budgets;
+CREATE POLICY enrichment_budgets_select ON enrichment_budgets
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS enrichment_budgets_write ON enrichment_budgets;
+CREATE POLICY enrichment_budgets_write ON enrichment_budgets
+  FOR ALL USING (current_user_role() IN ('admin', 'manager')) WITH CHECK (current_user_role() IN ('admin', 'manager'));
+
+-- The whole team's estimated spend per provider this calendar month, for checking budgets. Everyone can call it,
+-- even though reps only see their own usage rows, and so can background workers using the service role.
+CREATE OR REPLACE FUNCTION current_month_enrichment_spend()
+RETURNS TABLE (provider text, estimated_cost numeric)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(auth.role(), '') NOT IN ('authenticated', 'service_role') THEN
+    RAISE EXCEPTION 'Not allowed to read enrichment spend';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.provider, sum(u.estimated_cost)
+  FROM enrichment_usage u
+  WHERE u.created_at >= date_trunc('month', now())
+  GROUP BY u.provider;
+END;
+$$;
+
+-- Usage per user and provider over the calendar month (UTC) that in_month falls in, for the Usage page. Runs as the
+-- caller, so admins and managers get the whole team and others themselves.
+CREATE OR REPLACE FUNCTION monthly_enrichment_usage(in_month date)
+RETURNS TABLE (
+  user_id uuid,
+  provider text,
+  calls bigint,
+  records bigint,
+  credits numeric,
+  input_tokens bigint,
+  output_tokens bigint,
+  estimated_cost numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT u.user_id, u.provider, count(*), sum(u.record_count), sum(u.credits), sum(u.input_tokens), sum(u.output_tokens),
+    sum(u.estimated_cost)
+  FROM enrichment_usage u
+  WHERE u.created_at >= date_trunc('month', in_month::timestamp) AT TIME ZONE 'UTC'
+  AND u.created_at < (date_trunc('month', in_month::timestamp) + interval '1 month') AT TIME ZONE 'UTC'
+  GROUP BY u.user_id, u.provider;
+$$;
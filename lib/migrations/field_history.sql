@@ -0,0 +1,191 @@
+-- Field-level change history for attendees, health systems and conferences.
+-- Every update is diffed column by column by a trigger, so edits are recorded however they are made.
+--
+-- Changes made by one action (an enrichment run, a merge, a revert) share a change batch. Clients tag their
+-- updates with a batch by sending its id in the x-change-batch request header; untagged updates are
+-- recorded as manual edits.
+CREATE TABLE IF NOT EXISTS change_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  source text NOT NULL CHECK (source IN ('manual', 'apollo', 'definitive', 'ai', 'merge', 'revert')),
+  label text,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS field_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name text NOT NULL CHECK (table_name IN ('attendees', 'health_systems', 'conferences')),
+  record_id uuid NOT NULL,
+  column_name text NOT NULL,
+  old_value jsonb,
+  new_value jsonb,
+  source text NOT NULL DEFAULT 'manual',
+  source_label text,
+  batch_id uuid REFERENCES change_batches (id) ON DELETE SET NULL,
+  changed_by uuid DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE SET NULL,
+  changed_by_email text DEFAULT (auth.jwt() ->> 'email'),
+  changed_at timestamptz NOT NULL DEFAULT now(),
+  reverted_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS field_changes_record_idx ON field_changes (table_name, record_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS field_changes_batch_id_idx ON field_changes (batch_id);
+
+ALTER TABLE change_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE field_changes ENABLE ROW LEVEL SECURITY;
+
+-- The whole team sees the history; batches are started as yourself (not by read-only users) and changes are only written by the trigger
+DROP POLICY IF EXISTS change_batches_select ON change_batches;
+CREATE POLICY change_batches_select ON change_batches
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS change_batches_insert ON change_batches;
+CREATE POLICY change_batches_insert ON change_batches
+  FOR INSERT WITH CHECK (created_by = auth.uid() AND current_user_role() IN ('admin', 'manager', 'rep'));
+
+DROP POLICY IF EXISTS field_changes_select ON field_changes;
+CREATE POLICY field_changes_select ON field_changes
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- The batch the current transaction belongs to: one set by revert_field_changes, or the one sent in the request header
+CREATE OR REPLACE FUNCTION current_change_batch()
+RETURNS change_batches
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  headers json := coalesce(nullif(current_setting('request.headers', true), ''), '{}')::json;
+  batch_id text := coalesce(nullif(current_setting('app.change_batch', true), ''), headers ->> 'x-change-batch');
+  batch change_batches;
+BEGIN
+  IF batch_id IS NULL OR batch_id !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN NULL;
+  END IF;
+
+  -- Only your own batches can be used to tag changes
+  SELECT * INTO batch FROM change_batches WHERE id = batch_id::uuid AND created_by IS NOT DISTINCT FROM auth.uid();
+  RETURN batch;
+END;
+$$;
+
+-- Record one field_changes row per column that an update changed
+CREATE OR REPLACE FUNCTION record_field_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row jsonb := to_jsonb(OLD);
+  new_row jsonb := to_jsonb(NEW);
+  batch change_batches := current_change_batch();
+  column_key text;
+BEGIN
+  FOR column_key IN SELECT jsonb_object_keys(new_row) LOOP
+    -- Bookkeeping timestamps and the raw employment history would only clutter the history
+    CONTINUE WHEN column_key IN ('updated_at', 'apollo_pushed_at', 'apollo_synced_at', 'employment_history');
+
+    IF (old_row -> column_key) IS DISTINCT FROM (new_row -> column_key) THEN
+      INSERT INTO field_changes (table_name, record_id, column_name, old_value, new_value, source, source_label, batch_id)
+      VALUES (
+        TG_TABLE_NAME,
+        NEW.id,
+        column_key,
+        old_row -> column_key,
+        new_row -> column_key,
+        coalesce(batch.source, 'manual'),
+        batch.label,
+        batch.id
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS attendees_field_history ON attendees;
+CREATE TRIGGER attendees_field_history
+  AFTER UPDATE ON attendees
+  FOR EACH ROW EXECUTE FUNCTION record_field_changes();
+
+DROP TRIGGER IF EXISTS health_systems_field_history ON health_systems;
+CREATE TRIGGER health_systems_field_history
+  AFTER UPDATE ON health_systems
+  FOR EACH ROW EXECUTE FUNCTION record_field_changes();
+
+DROP TRIGGER IF EXISTS conferences_field_history ON conferences;
+CREATE TRIGGER conferences_field_history
+  AFTER UPDATE ON conferences
+  FOR EACH ROW EXECUTE FUNCTION record_field_changes();
+
+-- Put back the old values of the given changes as a new 'revert' batch. Newest changes are undone first, and
+-- fields that have changed again since (or whose record is gone) are skipped rather than overwritten.
+CREATE OR REPLACE FUNCTION revert_field_changes(in_change_ids uuid[], in_label text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  change field_changes;
+  revert_batch_id uuid;
+  current_row jsonb;
+  reverted_count integer := 0;
+  skipped_count integer := 0;
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'manager', 'rep') THEN
+    RAISE EXCEPTION 'Not allowed to revert changes' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO change_batches (source, label)
+  VALUES ('revert', in_label)
+  RETURNING id INTO revert_batch_id;
+
+  -- Tag the updates below with the revert batch for the rest of this transaction
+  PERFORM set_config('app.change_batch', revert_batch_id::text, true);
+
+  FOR change IN
+    SELECT * FROM field_changes
+    WHERE id = ANY(in_change_ids)
+    AND reverted_at IS NULL
+    ORDER BY changed_at DESC
+  LOOP
+    EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE id = $1', change.table_name)
+    INTO current_row
+    USING change.record_id;
+
+    IF current_row IS NULL OR (current_row -> change.column_name) IS DISTINCT FROM change.new_value THEN
+      skipped_count := skipped_count + 1;
+      CONTINUE;
+    END IF;
+
+    EXECUTE format(
+      'UPDATE %I SET %I = (jsonb_populate_record(NULL::%I, $1)).%I WHERE id = $2',
+      change.table_name, change.column_name, change.table_name, change.column_name
+    )
+    USING jsonb_build_object(change.column_name, change.old_value), change.record_id;
+
+    UPDATE field_changes SET reverted_at = now() WHERE id = change.id;
+    reverted_count := reverted_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('reverted', reverted_count, 'skipped', skipped_count);
+END;
+$$;
+
+-- Revert every change of a batch (e.g. a whole enrichment run)
+CREATE OR REPLACE FUNCTION revert_change_batch(in_batch_id uuid, in_label text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN revert_field_changes(
+    ARRAY(SELECT id FROM field_changes WHERE batch_id = in_batch_id),
+    in_label
+  );
+END;
+$$;
@@ -0,0 +1,42 @@
+-- Each attendee's employment history as last returned by Apollo enrichment, compared on the next enrichment to spot job changes
+ALTER TABLE attendees ADD COLUMN IF NOT EXISTS employment_history jsonb;
+
+-- Job changes found by comparing employment histories, waiting for someone to apply or dismiss them
+CREATE TABLE IF NOT EXISTS job_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  attendee_id uuid NOT NULL REFERENCES attendees (id) ON DELETE CASCADE,
+  -- left_health_system: now works somewhere else; promoted: moved into a director/VP oncology role
+  kind text NOT NULL CHECK (kind IN ('left_health_system', 'promoted')),
+  previous_title text,
+  previous_company text,
+  new_title text,
+  new_company text,
+  -- The health system matching the new company, if there is one in the CRM
+  new_health_system_id uuid REFERENCES health_systems (id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'applied', 'dismissed')),
+  detected_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz,
+  resolved_by uuid REFERENCES auth.users (id) ON DELETE SET NULL
+);
+
+-- At most one open job change per attendee; a newer detection replaces it
+CREATE UNIQUE INDEX IF NOT EXISTS job_changes_open_attendee_idx ON job_changes (attendee_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS job_changes_status_idx ON job_changes (status, detected_at DESC);
+
+ALTER TABLE job_changes ENABLE ROW LEVEL SECURITY;
+
+-- The whole team sees the queue; everyone but read-only users records and resolves job changes
+DROP POLICY IF EXISTS job_changes_select ON job_changes;
+CREATE POLICY job_changes_select ON job_changes
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS job_changes_write ON job_changes;
+CREATE POLICY job_changes_write ON job_changes
+  FOR ALL USING (current_user_role() IN ('admin', 'manager', 'rep')) WITH CHECK (current_user_role() IN ('admin', 'manager', 'rep'));
+
+-- Record applied job changes on the activity timeline
+ALTER TABLE activities DROP CONSTRAINT IF EXISTS activities_type_check;
+ALTER TABLE activities ADD CONSTRAINT activities_type_check CHECK (type IN (
+  'call', 'email', 'meeting', 'booth_visit', 'note',
+  'enrichment', 'apollo_push', 'apollo_sync', 'job_change', 'list_added', 'list_removed'
+));
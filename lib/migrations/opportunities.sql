@@ -0,0 +1,81 @@
+-- Sales pipeline: opportunities with a health system, moved through configurable stages on the pipeline board
+CREATE TABLE IF NOT EXISTS opportunity_stages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  -- Closed stages are left out of open pipeline totals
+  is_closed boolean NOT NULL DEFAULT false,
+  is_won boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (NOT is_won OR is_closed)
+);
+
+CREATE TABLE IF NOT EXISTS opportunities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  health_system_id uuid NOT NULL REFERENCES health_systems (id) ON DELETE CASCADE,
+  stage_id uuid NOT NULL REFERENCES opportunity_stages (id) ON DELETE RESTRICT,
+  amount numeric,
+  expected_close_date date,
+  source_conference_id uuid REFERENCES conferences (id) ON DELETE SET NULL,
+  notes text,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Attendees championing an opportunity
+CREATE TABLE IF NOT EXISTS opportunity_champions (
+  opportunity_id uuid NOT NULL REFERENCES opportunities (id) ON DELETE CASCADE,
+  attendee_id uuid NOT NULL REFERENCES attendees (id) ON DELETE CASCADE,
+  PRIMARY KEY (opportunity_id, attendee_id)
+);
+
+CREATE INDEX IF NOT EXISTS opportunities_health_system_id_idx ON opportunities (health_system_id);
+CREATE INDEX IF NOT EXISTS opportunities_stage_id_idx ON opportunities (stage_id);
+CREATE INDEX IF NOT EXISTS opportunity_champions_attendee_id_idx ON opportunity_champions (attendee_id);
+
+-- Default stages, only added when none exist yet
+INSERT INTO opportunity_stages (name, position, is_closed, is_won)
+SELECT name, position, is_closed, is_won
+FROM (VALUES
+  ('Prospecting', 0, false, false),
+  ('Discovery', 1, false, false),
+  ('Proposal', 2, false, false),
+  ('Negotiation', 3, false, false),
+  ('Closed Won', 4, true, true),
+  ('Closed Lost', 5, true, false)
+) AS defaults (name, position, is_closed, is_won)
+WHERE NOT EXISTS (SELECT 1 FROM opportunity_stages);
+
+ALTER TABLE opportunity_stages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE opportunities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE opportunity_champions ENABLE ROW LEVEL SECURITY;
+
+-- The pipeline is shared by the whole team; read-only users can't change it and only admins and managers set up stages
+DROP POLICY IF EXISTS opportunity_stages_all ON opportunity_stages;
+DROP POLICY IF EXISTS opportunity_stages_select ON opportunity_stages;
+CREATE POLICY opportunity_stages_select ON opportunity_stages
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS opportunity_stages_write ON opportunity_stages;
+CREATE POLICY opportunity_stages_write ON opportunity_stages
+  FOR ALL USING (current_user_role() IN ('admin', 'manager')) WITH CHECK (current_user_role() IN ('admin', 'manager'));
+
+DROP POLICY IF EXISTS opportunities_all ON opportunities;
+DROP POLICY IF EXISTS opportunities_select ON opportunities;
+CREATE POLICY opportunities_select ON opportunities
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS opportunities_write ON opportunities;
+CREATE POLICY opportunities_write ON opportunities
+  FOR ALL USING (current_user_role() IN ('admin', 'manager', 'rep')) WITH CHECK (current_user_role() IN ('admin', 'manager', 'rep'));
+
+DROP POLICY IF EXISTS opportunity_champions_all ON opportunity_champions;
+DROP POLICY IF EXISTS opportunity_champions_select ON opportunity_champions;
+CREATE POLICY opportunity_champions_select ON opportunity_champions
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS opportunity_champions_write ON opportunity_champions;
+CREATE POLICY opportunity_champions_write ON opportunity_champions
+  FOR ALL USING (current_user_role() IN ('admin', 'manager', 'rep')) WITH CHECK (current_user_role() IN ('admin', 'manager', 'rep'));
@@ -0,0 +1,227 @@
+-- Record ownership: the rep who owns each health system and attendee.
+-- Attendees inherit their health system's owner, and follow it when it changes, unless their owner was set by hand.
+ALTER TABLE health_systems ADD COLUMN IF NOT EXISTS owner_id uuid REFERENCES auth.users (id) ON DELETE SET NULL;
+ALTER TABLE health_systems ADD COLUMN IF NOT EXISTS owner_email text;
+
+ALTER TABLE attendees ADD COLUMN IF NOT EXISTS owner_id uuid REFERENCES auth.users (id) ON DELETE SET NULL;
+ALTER TABLE attendees ADD COLUMN IF NOT EXISTS owner_email text;
+-- Set when the owner was picked for this attendee rather than inherited from the health system
+ALTER TABLE attendees ADD COLUMN IF NOT EXISTS owner_overridden boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS health_systems_owner_id_idx ON health_systems (owner_id);
+CREATE INDEX IF NOT EXISTS attendees_owner_id_idx ON attendees (owner_id);
+
+-- Territory rules pick the owner of new health systems. The first active rule (by position) whose conditions all
+-- match wins; empty conditions match anything.
+CREATE TABLE IF NOT EXISTS territory_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  owner_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  owner_email text,
+  position integer NOT NULL DEFAULT 0,
+  states text[] NOT NULL DEFAULT '{}',
+  min_beds integer,
+  max_beds integer,
+  min_revenue numeric,
+  max_revenue numeric,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE territory_rules ENABLE ROW LEVEL SECURITY;
+
+-- The whole team sees the territories; only admins and managers change them
+DROP POLICY IF EXISTS territory_rules_select ON territory_rules;
+CREATE POLICY territory_rules_select ON territory_rules
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS territory_rules_write ON territory_rules;
+CREATE POLICY territory_rules_write ON territory_rules
+  FOR ALL USING (current_user_role() IN ('admin', 'manager')) WITH CHECK (current_user_role() IN ('admin', 'manager'));
+
+CREATE OR REPLACE FUNCTION owner_email_for(in_user_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT email::text FROM auth.users WHERE id = in_user_id;
+$$;
+
+-- Keep the rule's owner email in step with its owner, for display
+CREATE OR REPLACE FUNCTION set_territory_rule_owner_email()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.owner_email := owner_email_for(NEW.owner_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS territory_rules_owner_email ON territory_rules;
+CREATE TRIGGER territory_rules_owner_email
+  BEFORE INSERT OR UPDATE OF owner_id ON territory_rules
+  FOR EACH ROW EXECUTE FUNCTION set_territory_rule_owner_email();
+
+-- The owner the territory rules give a health system
+CREATE OR REPLACE FUNCTION territory_owner_for(in_state text, in_beds numeric, in_revenue numeric)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT owner_id
+  FROM territory_rules
+  WHERE is_active
+  AND (cardinality(states) = 0 OR upper(trim(in_state)) = ANY(SELECT upper(trim(s)) FROM unnest(states) s))
+  AND (min_beds IS NULL OR in_beds >= min_beds)
+  AND (max_beds IS NULL OR in_beds <= max_beds)
+  AND (min_revenue IS NULL OR in_revenue >= min_revenue)
+  AND (max_revenue IS NULL OR in_revenue <= max_revenue)
+  ORDER BY position, created_at
+  LIMIT 1;
+$$;
+
+-- Owner changes are made by admins and managers, or by the cascade from a health system to its attendees
+CREATE OR REPLACE FUNCTION owner_change_allowed()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT current_setting('app.owner_cascade', true) = 'on'
+    OR coalesce(current_user_role() IN ('admin', 'manager'), false);
+$$;
+
+-- Health systems: new ones get their owner from the territory rules, and only admins and managers reassign them
+CREATE OR REPLACE FUNCTION set_health_system_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.owner_id IS DISTINCT FROM OLD.owner_id AND NOT owner_change_allowed() THEN
+    RAISE EXCEPTION 'Only admins and managers can change owners' USING ERRCODE = '42501';
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.owner_id IS NULL THEN
+    NEW.owner_id := territory_owner_for(NEW.state, NEW.number_of_beds, NEW.net_patient_revenue);
+  END IF;
+
+  NEW.owner_email := owner_email_for(NEW.owner_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS health_systems_owner ON health_systems;
+CREATE TRIGGER health_systems_owner
+  BEFORE INSERT OR UPDATE ON health_systems
+  FOR EACH ROW EXECUTE FUNCTION set_health_system_owner();
+
+-- Pass a health system's new owner on to its attendees that inherit it
+CREATE OR REPLACE FUNCTION cascade_health_system_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.owner_cascade', 'on', true);
+
+  UPDATE attendees
+  SET owner_id = NEW.owner_id
+  WHERE health_system_id = NEW.id
+  AND NOT owner_overridden
+  AND owner_id IS DISTINCT FROM NEW.owner_id;
+
+  PERFORM set_config('app.owner_cascade', 'off', true);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS health_systems_owner_cascade ON health_systems;
+CREATE TRIGGER health_systems_owner_cascade
+  AFTER UPDATE OF owner_id ON health_systems
+  FOR EACH ROW
+  WHEN (NEW.owner_id IS DISTINCT FROM OLD.owner_id)
+  EXECUTE FUNCTION cascade_health_system_owner();
+
+-- Attendees: an owner picked by hand overrides the health system's; otherwise the owner follows the health system.
+-- Attendees without a health system stay unowned until they're linked to one. Clearing the override re-inherits.
+CREATE OR REPLACE FUNCTION set_attendee_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  cascading boolean := current_setting('app.owner_cascade', true) = 'on';
+  inherit boolean;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NOT cascading THEN
+    IF (NEW.owner_id IS DISTINCT FROM OLD.owner_id OR NEW.owner_overridden IS DISTINCT FROM OLD.owner_overridden)
+    AND NOT owner_change_allowed() THEN
+      RAISE EXCEPTION 'Only admins and managers can change owners' USING ERRCODE = '42501';
+    END IF;
+
+    -- Picking an owner by hand overrides the health system's, unless the same update says otherwise
+    IF NEW.owner_id IS DISTINCT FROM OLD.owner_id AND NEW.owner_overridden IS NOT DISTINCT FROM OLD.owner_overridden THEN
+      NEW.owner_overridden := true;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.owner_id IS NULL THEN
+      NEW.owner_overridden := false;
+    ELSIF NEW.health_system_id IS NOT NULL THEN
+      NEW.owner_overridden := NEW.owner_id IS DISTINCT FROM (SELECT owner_id FROM health_systems WHERE id = NEW.health_system_id);
+    END IF;
+    inherit := NOT NEW.owner_overridden;
+  ELSE
+    inherit := NOT cascading AND NOT NEW.owner_overridden
+      AND (NEW.health_system_id IS DISTINCT FROM OLD.health_system_id OR OLD.owner_overridden);
+  END IF;
+
+  IF inherit THEN
+    IF NEW.health_system_id IS NOT NULL THEN
+      NEW.owner_id := (SELECT owner_id FROM health_systems WHERE id = NEW.health_system_id);
+    END IF;
+  END IF;
+
+  NEW.owner_email := owner_email_for(NEW.owner_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS attendees_owner ON attendees;
+CREATE TRIGGER attendees_owner
+  BEFORE INSERT OR UPDATE ON attendees
+  FOR EACH ROW EXECUTE FUNCTION set_attendee_owner();
+
+-- Run the territory rules over existing health systems (all of them, or the given ones). Health systems that
+-- already have an owner are only reassigned when in_overwrite is set. Returns how many were assigned.
+CREATE OR REPLACE FUNCTION apply_territory_rules(in_health_system_ids uuid[] DEFAULT NULL, in_overwrite boolean DEFAULT false)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  assigned_count integer;
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'manager') THEN
+    RAISE EXCEPTION 'Not allowed to apply territory rules' USING ERRCODE = '42501';
+  END IF;
+
+  WITH matches AS (
+    SELECT id, territory_owner_for(state, number_of_beds, net_patient_revenue) AS rule_owner_id
+    FROM health_systems
+    WHERE (in_health_system_ids IS NULL OR id = ANY(in_health_system_ids))
+    AND (in_overwrite OR owner_id IS NULL)
+  )
+  UPDATE health_systems hs
+  SET owner_id = matches.rule_owner_id
+  FROM matches
+  WHERE hs.id = matches.id
+  AND matches.rule_owner_id IS NOT NULL
+  AND hs.owner_id IS DISTINCT FROM matches.rule_owner_id;
+
+  GET DIAGNOSTICS assigned_count = ROW_COUNT;
+  RETURN assigned_count;
+END;
+$$;
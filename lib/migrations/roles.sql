@@ -0,0 +1,162 @@
+-- Team roles. Anyone without a row here is a rep.
+--   admin     - everything, including adding columns, bulk deletes, paid enrichments and managing roles
+--   manager   - edits records, manages pipeline stages
+--   rep       - creates and edits records
+--   read_only - views records only
+CREATE TABLE IF NOT EXISTS user_roles (
+  user_id uuid PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'rep' CHECK (role IN ('admin', 'manager', 'rep', 'read_only')),
+  updated_by uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Roles are visible to the team and only changed through set_user_role
+DROP POLICY IF EXISTS user_roles_select ON user_roles;
+CREATE POLICY user_roles_select ON user_roles
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- The caller's role: their user_roles entry, 'rep' when they have none, 'admin' for the service role and NULL when signed out
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN 'admin';
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN COALESCE((SELECT role FROM user_roles WHERE user_id = auth.uid()), 'rep');
+END;
+$$;
+
+-- Every team member with their role, for the team settings page
+CREATE OR REPLACE FUNCTION list_user_roles()
+RETURNS TABLE (id uuid, email text, role text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RAISE EXCEPTION 'Not allowed to list team members';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.id, u.email::text, COALESCE(r.role, 'rep')
+  FROM auth.users u
+  LEFT JOIN user_roles r ON r.user_id = u.id
+  WHERE u.email IS NOT NULL
+  ORDER BY u.email;
+END;
+$$;
+
+-- Change a team member's role. Admins only, and the last admin can't be demoted.
+CREATE OR REPLACE FUNCTION set_user_role(in_user_id uuid, in_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can change roles' USING ERRCODE = '42501';
+  END IF;
+
+  IF in_role <> 'admin'
+  AND EXISTS (SELECT 1 FROM user_roles WHERE user_id = in_user_id AND role = 'admin')
+  AND (SELECT count(*) FROM user_roles WHERE role = 'admin') = 1 THEN
+    RAISE EXCEPTION 'The last admin cannot be demoted';
+  END IF;
+
+  INSERT INTO user_roles (user_id, role, updated_by, updated_at)
+  VALUES (in_user_id, in_role, auth.uid(), now())
+  ON CONFLICT (user_id) DO UPDATE
+  SET role = EXCLUDED.role, updated_by = EXCLUDED.updated_by, updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+-- Make the first admin on a fresh install, when nobody can call set_user_role yet. Only from the SQL editor or with
+-- the service role key: SELECT bootstrap_admin('you@example.com');
+CREATE OR REPLACE FUNCTION bootstrap_admin(in_email text)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  target_user_id uuid;
+BEGIN
+  IF auth.role() IS NOT NULL AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only the service role can bootstrap an admin' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO target_user_id FROM auth.users WHERE lower(email) = lower(in_email);
+  IF target_user_id IS NULL THEN
+    RAISE EXCEPTION 'No user signed up with %', in_email;
+  END IF;
+
+  INSERT INTO user_roles (user_id, role, updated_at)
+  VALUES (target_user_id, 'admin', now())
+  ON CONFLICT (user_id) DO UPDATE
+  SET role = 'admin', updated_by = NULL, updated_at = now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION bootstrap_admin(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION bootstrap_admin(text) TO service_role;
+
+-- Replace whatever policies the shared tables had with role-based ones: everyone signed in reads,
+-- read-only users can't write, and only admins delete attendees, health systems and conferences.
+DO $$
+DECLARE
+  target_table text;
+  existing_policy record;
+BEGIN
+  FOREACH target_table IN ARRAY ARRAY['attendees', 'health_systems', 'conferences', 'attendee_conferences', 'lists', 'attendee_lists', 'ai_prompts']
+  LOOP
+    IF to_regclass(target_table) IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    FOR existing_policy IN SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = target_table
+    LOOP
+      EXECUTE format('DROP POLICY %I ON %I', existing_policy.policyname, target_table);
+    END LOOP;
+
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', target_table);
+
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR SELECT USING (auth.role() = ''authenticated'')',
+      target_table || '_select', target_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR INSERT WITH CHECK (current_user_role() IN (''admin'', ''manager'', ''rep''))',
+      target_table || '_insert', target_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR UPDATE USING (current_user_role() IN (''admin'', ''manager'', ''rep''))',
+      target_table || '_update', target_table
+    );
+
+    IF target_table IN ('attendees', 'health_systems', 'conferences') THEN
+      EXECUTE format(
+        'CREATE POLICY %I ON %I FOR DELETE USING (current_user_role() = ''admin'')',
+        target_table || '_delete', target_table
+      );
+    ELSE
+      EXECUTE format(
+        'CREATE POLICY %I ON %I FOR DELETE USING (current_user_role() IN (''admin'', ''manager'', ''rep''))',
+        target_table || '_delete', target_table
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
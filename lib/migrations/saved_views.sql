@@ -0,0 +1,49 @@
+-- Named views (filters, sort, visible columns and search) for the attendees, health systems and conferences tabs
+CREATE TABLE IF NOT EXISTS saved_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  entity_type text NOT NULL CHECK (entity_type IN ('attendees', 'health-systems', 'conferences')),
+  owner_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  is_shared boolean NOT NULL DEFAULT false,
+  filters jsonb NOT NULL DEFAULT '[]'::jsonb,
+  sort jsonb,
+  visible_columns jsonb NOT NULL DEFAULT '[]'::jsonb,
+  search_term text NOT NULL DEFAULT '',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS saved_views_entity_type_idx ON saved_views (entity_type);
+
+-- Each user can pick one default view per tab, which may be their own or a shared one
+CREATE TABLE IF NOT EXISTS user_default_views (
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  entity_type text NOT NULL CHECK (entity_type IN ('attendees', 'health-systems', 'conferences')),
+  view_id uuid NOT NULL REFERENCES saved_views (id) ON DELETE CASCADE,
+  PRIMARY KEY (user_id, entity_type)
+);
+
+ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_default_views ENABLE ROW LEVEL SECURITY;
+
+-- Everyone sees their own views plus the ones shared with the team
+DROP POLICY IF EXISTS saved_views_select ON saved_views;
+CREATE POLICY saved_views_select ON saved_views
+  FOR SELECT USING (owner_id = auth.uid() OR is_shared);
+
+-- Only the owner can change or delete a view
+DROP POLICY IF EXISTS saved_views_insert ON saved_views;
+CREATE POLICY saved_views_insert ON saved_views
+  FOR INSERT WITH CHECK (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS saved_views_update ON saved_views;
+CREATE POLICY saved_views_update ON saved_views
+  FOR UPDATE USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS saved_views_delete ON saved_views;
+CREATE POLICY saved_views_delete ON saved_views
+  FOR DELETE USING (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS user_default_views_own ON user_default_views;
+CREATE POLICY user_default_views_own ON user_default_views
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
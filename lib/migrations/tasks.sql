@@ -0,0 +1,60 @@
+-- Follow-up tasks assigned to team members, optionally tied to an attendee, health system and/or conference
+CREATE TABLE IF NOT EXISTS tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  notes text,
+  due_date date,
+  attendee_id uuid REFERENCES attendees (id) ON DELETE CASCADE,
+  health_system_id uuid REFERENCES health_systems (id) ON DELETE CASCADE,
+  conference_id uuid REFERENCES conferences (id) ON DELETE SET NULL,
+  assigned_to uuid DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE SET NULL,
+  assigned_to_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE SET NULL,
+  completed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tasks_assigned_to_idx ON tasks (assigned_to, completed_at, due_date);
+CREATE INDEX IF NOT EXISTS tasks_attendee_id_idx ON tasks (attendee_id);
+CREATE INDEX IF NOT EXISTS tasks_health_system_id_idx ON tasks (health_system_id);
+CREATE INDEX IF NOT EXISTS tasks_conference_id_idx ON tasks (conference_id);
+
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+
+-- The whole team sees tasks and everyone but read-only users creates them; the creator or assignee can update one,
+-- only the creator can delete it
+DROP POLICY IF EXISTS tasks_select ON tasks;
+CREATE POLICY tasks_select ON tasks
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS tasks_insert ON tasks;
+CREATE POLICY tasks_insert ON tasks
+  FOR INSERT WITH CHECK (created_by = auth.uid() AND current_user_role() IN ('admin', 'manager', 'rep'));
+
+DROP POLICY IF EXISTS tasks_update ON tasks;
+CREATE POLICY tasks_update ON tasks
+  FOR UPDATE USING (created_by = auth.uid() OR assigned_to = auth.uid());
+
+DROP POLICY IF EXISTS tasks_delete ON tasks;
+CREATE POLICY tasks_delete ON tasks
+  FOR DELETE USING (created_by = auth.uid());
+
+-- Team members tasks can be assigned to. auth.users isn't readable from the client, so this exposes just the id and email.
+CREATE OR REPLACE FUNCTION list_team_members()
+RETURNS TABLE (id uuid, email text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RAISE EXCEPTION 'Not allowed to list team members';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.id, u.email::text
+  FROM auth.users u
+  WHERE u.email IS NOT NULL
+  ORDER BY u.email;
+END;
+$$;
@@ -0,0 +1,339 @@
+import { supabase } from '@/lib/supabase';
+
+export interface OpportunityStage {
+  id: string;
+  name: string;
+  position: number;
+  isClosed: boolean;
+  isWon: boolean;
+}
+
+export interface OpportunityChampion {
+  id: string;
+  name: string;
+}
+
+export interface Opportunity {
+  id: string;
+  name: string;
+  healthSystemId: string;
+  healthSystemName: string | null;
+  stageId: string;
+  amount: number | null;
+  expectedCloseDate: string | null;
+  sourceConferenceId: string | null;
+  sourceConferenceName: string | null;
+  notes: string | null;
+  champions: OpportunityChampion[];
+  createdAt: string;
+}
+
+// The editable fields of an opportunity
+export interface OpportunityInput {
+  name: string;
+  healthSystemId: string;
+  stageId: string;
+  amount?: number | null;
+  expectedCloseDate?: string | null;
+  sourceConferenceId?: string | null;
+  notes?: string | null;
+  championIds: string[];
+}
+
+const OPPORTUNITY_SELECT = `
+  *,
+  health_systems(name),
+  conferences(name),
+  opportunity_champions(attendees(id, first_name, last_name))
+`;
+
+// Map an opportunity_stages row to the shape the UI uses
+const toStage = (row: any): OpportunityStage => ({
+  id: row.id,
+  name: row.name,
+  position: row.position,
+  isClosed: row.is_closed,
+  isWon: row.is_won,
+});
+
+// Map an opportunities row (with its embedded health system, conference and champions) to the shape the UI uses
+const toOpportunity = (row: any): Opportunity => ({
+  id: row.id,
+  name: row.name,
+  healthSystemId: row.health_system_id,
+  healthSystemName: row.health_systems?.name || null,
+  stageId: row.stage_id,
+  amount: row.amount === null || row.amount === undefined ? null : Number(row.amount),
+  expectedCloseDate: row.expected_close_date,
+  sourceConferenceId: row.source_conference_id,
+  sourceConferenceName: row.conferences?.name || null,
+  notes: row.notes,
+  champions: (row.opportunity_champions || [])
+    .filter((champion: any) => champion.attendees)
+    .map((champion: any) => ({
+      id: champion.attendees.id,
+      name: `${champion.attendees.first_name} ${champion.attendees.last_name}`,
+    })),
+  createdAt: row.created_at,
+});
+
+const toRow = (opportunity: OpportunityInput) => ({
+  name: opportunity.name.trim(),
+  health_system_id: opportunity.healthSystemId,
+  stage_id: opportunity.stageId,
+  amount: opportunity.amount ?? null,
+  expected_close_date: opportunity.expectedCloseDate || null,
+  source_conference_id: opportunity.sourceConferenceId || null,
+  notes: opportunity.notes?.trim() || null,
+});
+
+/**
+ * Format an amount as whole US dollars, e.g. "$120,000"
+ */
+export function formatAmount(amount: number | null): string {
+  if (amount === null) return '-';
+  return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+}
+
+/**
+ * Get the pipeline stages in board order
+ */
+export async function fetchOpportunityStages(): Promise<OpportunityStage[]> {
+  const { data, error } = await supabase
+    .from('opportunity_stages')
+    .select('*')
+    .order('position')
+    .order('created_at');
+
+  if (error) {
+    console.error('Error fetching opportunity stages:', error);
+    throw new Error(`Failed to fetch stages: ${error.message}`);
+  }
+
+  return (data || []).map(toStage);
+}
+
+/**
+ * Add a stage at the end of the board
+ */
+export async function createOpportunityStage(name: string, position: number): Promise<OpportunityStage> {
+  const { data, error } = await supabase
+    .from('opportunity_stages')
+    .insert({ name: name.trim(), position })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating opportunity stage:', error);
+    throw new Error(`Failed to create stage: ${error.message}`);
+  }
+
+  return toStage(data);
+}
+
+/**
+ * Rename a stage or change whether it is closed/won
+ */
+export async function updateOpportunityStage(
+  stageId: string,
+  updates: Partial<Pick<OpportunityStage, 'name' | 'isClosed' | 'isWon'>>
+): Promise<void> {
+  const { error } = await supabase
+    .from('opportunity_stages')
+    .update({
+      ...(updates.name !== undefined ? { name: updates.name.trim() } : {}),
+      ...(updates.isClosed !== undefined ? { is_closed: updates.isClosed } : {}),
+      ...(updates.isWon !== undefined ? { is_won: updates.isWon } : {}),
+    })
+    .eq('id', stageId);
+
+  if (error) {
+    console.error('Error updating opportunity stage:', error);
+    throw new Error(`Failed to update stage: ${error.message}`);
+  }
+}
+
+/**
+ * Save the board order of the stages (their position is their index in the array)
+ */
+export async function reorderOpportunityStages(stageIds: string[]): Promise<void> {
+  const results = await Promise.all(stageIds.map((stageId, position) =>
+    supabase
+      .from('opportunity_stages')
+      .update({ position })
+      .eq('id', stageId)
+  ));
+
+  const failed = results.find(result => result.error);
+  if (failed?.error) {
+    console.error('Error reordering opportunity stages:', failed.error);
+    throw new Error(`Failed to reorder stages: ${failed.error.message}`);
+  }
+}
+
+/**
+ * Delete a stage. The database refuses while opportunities are still in it.
+ */
+export async function deleteOpportunityStage(stageId: string): Promise<void> {
+  const { error } = await supabase
+    .from('opportunity_stages')
+    .delete()
+    .eq('id', stageId);
+
+  if (error) {
+    console.error('Error deleting opportunity stage:', error);
+    // 23503 = foreign key violation: opportunities still reference the stage
+    throw new Error(error.code === '23503'
+      ? 'Move the opportunities in this stage to another stage before deleting it'
+      : `Failed to delete stage: ${error.message}`);
+  }
+}
+
+/**
+ * Get opportunities, optionally only those of one health system, newest first
+ */
+export async function fetchOpportunities(healthSystemId?: string): Promise<Opportunity[]> {
+  let query = supabase
+    .from('opportunities')
+    .select(OPPORTUNITY_SELECT)
+    .order('created_at', { ascending: false });
+
+  if (healthSystemId) {
+    query = query.eq('health_system_id', healthSystemId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching opportunities:', error);
+    throw new Error(`Failed to fetch opportunities: ${error.message}`);
+  }
+
+  return (data || []).map(toOpportunity);
+}
+
+// Replace an opportunity's champions with the given attendees
+async function saveChampions(opportunityId: string, championIds: string[]): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('opportunity_champions')
+    .delete()
+    .eq('opportunity_id', opportunityId);
+
+  if (deleteError) {
+    console.error('Error clearing opportunity champions:', deleteError);
+    throw new Error(`Failed to save champions: ${deleteError.message}`);
+  }
+
+  if (championIds.length === 0) return;
+
+  const { error: insertError } = await supabase
+    .from('opportunity_champions')
+    .insert(championIds.map(attendeeId => ({ opportunity_id: opportunityId, attendee_id: attendeeId })));
+
+  if (insertError) {
+    console.error('Error saving opportunity champions:', insertError);
+    throw new Error(`Failed to save champions: ${insertError.message}`);
+  }
+}
+
+// Reload a single opportunity with its embedded relations
+async function fetchOpportunity(opportunityId: string): Promise<Opportunity> {
+  const { data, error } = await supabase
+    .from('opportunities')
+    .select(OPPORTUNITY_SELECT)
+    .eq('id', opportunityId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching opportunity:', error);
+    throw new Error(`Failed to fetch opportunity: ${error.message}`);
+  }
+
+  return toOpportunity(data);
+}
+
+/**
+ * Create an opportunity with its champions
+ */
+export async function createOpportunity(opportunity: OpportunityInput): Promise<Opportunity> {
+  const { data, error } = await supabase
+    .from('opportunities')
+    .insert(toRow(opportunity))
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error creating opportunity:', error);
+    throw new Error(`Failed to create opportunity: ${error.message}`);
+  }
+
+  await saveChampions(data.id, opportunity.championIds);
+  return fetchOpportunity(data.id);
+}
+
+/**
+ * Update an opportunity and replace its champions
+ */
+export async function updateOpportunity(opportunityId: string, opportunity: OpportunityInput): Promise<Opportunity> {
+  const { error } = await supabase
+    .from('opportunities')
+    .update({ ...toRow(opportunity), updated_at: new Date().toISOString() })
+    .eq('id', opportunityId);
+
+  if (error) {
+    console.error('Error updating opportunity:', error);
+    throw new Error(`Failed to update opportunity: ${error.message}`);
+  }
+
+  await saveChampions(opportunityId, opportunity.championIds);
+  return fetchOpportunity(opportunityId);
+}
+
+/**
+ * Move an opportunity to another stage (used when a card is dropped on the board)
+ */
+export async function moveOpportunityToStage(opportunityId: string, stageId: string): Promise<void> {
+  const { error } = await supabase
+    .from('opportunities')
+    .update({ stage_id: stageId, updated_at: new Date().toISOString() })
+    .eq('id', opportunityId);
+
+  if (error) {
+    console.error('Error moving opportunity:', error);
+    throw new Error(`Failed to move opportunity: ${error.message}`);
+  }
+}
+
+/**
+ * Delete an opportunity (its champions go with it)
+ */
+export async function deleteOpportunity(opportunityId: string): Promise<void> {
+  const { error } = await supabase
+    .from('opportunities')
+    .delete()
+    .eq('id', opportunityId);
+
+  if (error) {
+    console.error('Error deleting opportunity:', error);
+    throw new Error(`Failed to delete opportunity: ${error.message}`);
+  }
+}
+
+/**
+ * Search health systems by name for the opportunity form
+ */
+export async function searchHealthSystems(term: string, limit = 10): Promise<Array<{ id: string; name: string }>> {
+  const { data, error } = await supabase
+    .from('health_systems')
+    .select('id, name')
+    .ilike('name', `%${term.trim()}%`)
+    .order('name')
+    .limit(limit);
+
+  if (error) {
+    console.error('Error searching health systems:', error);
+    throw new Error(`Failed to search health systems: ${error.message}`);
+  }
+
+  return data || [];
+}
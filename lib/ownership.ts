@@ -0,0 +1,211 @@
+import { supabase } from '@/lib/supabase';
+
+// The owner column shown in tables and filters; owner_id and owner_overridden stay hidden
+export const OWNER_COLUMN = 'owner_email';
+
+export type OwnedTable = 'attendees' | 'health_systems';
+
+export interface TerritoryRule {
+  id: string;
+  name: string;
+  ownerId: string;
+  ownerEmail: string | null;
+  position: number;
+  states: string[];
+  minBeds: number | null;
+  maxBeds: number | null;
+  minRevenue: number | null;
+  maxRevenue: number | null;
+  isActive: boolean;
+}
+
+// The editable fields of a territory rule
+export type TerritoryRuleInput = Omit<TerritoryRule, 'id' | 'ownerEmail' | 'position'>;
+
+const toNumber = (value: any): number | null => value === null || value === undefined ? null : Number(value);
+
+// Map a territory_rules row to the shape the UI uses
+const toTerritoryRule = (row: any): TerritoryRule => ({
+  id: row.id,
+  name: row.name,
+  ownerId: row.owner_id,
+  ownerEmail: row.owner_email,
+  position: row.position,
+  states: row.states || [],
+  minBeds: toNumber(row.min_beds),
+  maxBeds: toNumber(row.max_beds),
+  minRevenue: toNumber(row.min_revenue),
+  maxRevenue: toNumber(row.max_revenue),
+  isActive: row.is_active,
+});
+
+const toRow = (rule: TerritoryRuleInput) => ({
+  name: rule.name.trim(),
+  owner_id: rule.ownerId,
+  states: rule.states.map(state => state.trim().toUpperCase()).filter(Boolean),
+  min_beds: rule.minBeds,
+  max_beds: rule.maxBeds,
+  min_revenue: rule.minRevenue,
+  max_revenue: rule.maxRevenue,
+  is_active: rule.isActive,
+});
+
+/**
+ * Describe what a territory rule matches, e.g. "CA, NV · 200+ beds"
+ */
+export function describeTerritoryRule(rule: TerritoryRule): string {
+  const formatRange = (min: number | null, max: number | null, unit: string, format = (value: number) => value.toLocaleString('en-US')) => {
+    if (min !== null && max !== null) return `${format(min)}-${format(max)} ${unit}`;
+    if (min !== null) return `${format(min)}+ ${unit}`;
+    if (max !== null) return `up to ${format(max)} ${unit}`;
+    return null;
+  };
+  const formatRevenue = (value: number) =>
+    value.toLocaleString('en-US', { style: 'currency', currency: 'USD', notation: 'compact', maximumFractionDigits: 1 });
+
+  const parts = [
+    rule.states.length > 0 ? rule.states.join(', ') : null,
+    formatRange(rule.minBeds, rule.maxBeds, 'beds'),
+    formatRange(rule.minRevenue, rule.maxRevenue, 'revenue', formatRevenue),
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(' · ') : 'Everything';
+}
+
+/**
+ * Get the territory rules in the order they are tried
+ */
+export async function fetchTerritoryRules(): Promise<TerritoryRule[]> {
+  const { data, error } = await supabase
+    .from('territory_rules')
+    .select('*')
+    .order('position')
+    .order('created_at');
+
+  if (error) {
+    console.error('Error fetching territory rules:', error);
+    throw new Error(`Failed to fetch territory rules: ${error.message}`);
+  }
+
+  return (data || []).map(toTerritoryRule);
+}
+
+/**
+ * Add a territory rule, tried after the existing ones
+ */
+export async function createTerritoryRule(rule: TerritoryRuleInput, position: number): Promise<TerritoryRule> {
+  const { data, error } = await supabase
+    .from('territory_rules')
+    .insert({ ...toRow(rule), position })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating territory rule:', error);
+    throw new Error(`Failed to create territory rule: ${error.message}`);
+  }
+
+  return toTerritoryRule(data);
+}
+
+/**
+ * Save changes to a territory rule
+ */
+export async function updateTerritoryRule(ruleId: string, rule: TerritoryRuleInput): Promise<TerritoryRule> {
+  const { data, error } = await supabase
+    .from('territory_rules')
+    .update(toRow(rule))
+    .eq('id', ruleId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating territory rule:', error);
+    throw new Error(`Failed to update territory rule: ${error.message}`);
+  }
+
+  return toTerritoryRule(data);
+}
+
+/**
+ * Save the order the rules are tried in (their position is their index in the array)
+ */
+export async function reorderTerritoryRules(ruleIds: string[]): Promise<void> {
+  const results = await Promise.all(ruleIds.map((ruleId, position) =>
+    supabase
+      .from('territory_rules')
+      .update({ position })
+      .eq('id', ruleId)
+  ));
+
+  const failed = results.find(result => result.error);
+  if (failed?.error) {
+    console.error('Error reordering territory rules:', failed.error);
+    throw new Error(`Failed to reorder territory rules: ${failed.error.message}`);
+  }
+}
+
+/**
+ * Delete a territory rule. Owners it already assigned are kept.
+ */
+export async function deleteTerritoryRule(ruleId: string): Promise<void> {
+  const { error } = await supabase
+    .from('territory_rules')
+    .delete()
+    .eq('id', ruleId);
+
+  if (error) {
+    console.error('Error deleting territory rule:', error);
+    throw new Error(`Failed to delete territory rule: ${error.message}`);
+  }
+}
+
+/**
+ * Run the territory rules over existing health systems (all of them when no IDs are given).
+ * Owned health systems are only reassigned with overwrite. Returns how many were assigned.
+ */
+export async function applyTerritoryRules(healthSystemIds?: string[], overwrite = false): Promise<number> {
+  const { data, error } = await supabase.rpc('apply_territory_rules', {
+    in_health_system_ids: healthSystemIds ?? null,
+    in_overwrite: overwrite,
+  });
+
+  if (error) {
+    console.error('Error applying territory rules:', error);
+    throw new Error(`Failed to apply territory rules: ${error.message}`);
+  }
+
+  return data as number;
+}
+
+/**
+ * Set the owner of attendees or health systems; null leaves them unassigned.
+ * Attendees assigned this way keep their owner when their health system's owner changes.
+ * Health systems pass the new owner on to their attendees that inherit it.
+ */
+export async function assignOwner(table: OwnedTable, ids: string[], ownerId: string | null): Promise<void> {
+  const { error } = await supabase
+    .from(table)
+    .update(table === 'attendees' ? { owner_id: ownerId, owner_overridden: true } : { owner_id: ownerId })
+    .in('id', ids);
+
+  if (error) {
+    console.error('Error assigning owner:', error);
+    throw new Error(`Failed to assign owner: ${error.message}`);
+  }
+}
+
+/**
+ * Make attendees take their owner from their health system again
+ */
+export async function inheritOwner(attendeeIds: string[]): Promise<void> {
+  const { error } = await supabase
+    .from('attendees')
+    .update({ owner_overridden: false })
+    .in('id', attendeeIds);
+
+  if (error) {
+    console.error('Error resetting owner:', error);
+    throw new Error(`Failed to reset owner: ${error.message}`);
+  }
+}
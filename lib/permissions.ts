@@ -0,0 +1,116 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+
+export type Role = 'admin' | 'manager' | 'rep' | 'read_only';
+
+export const ROLES: Role[] = ['admin', 'manager', 'rep', 'read_only'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  manager: 'Manager',
+  rep: 'Rep',
+  read_only: 'Read-only',
+};
+
+// Actions that depend on the user's role. Row level security and the API routes enforce the same rules;
+// these let the UI hide what the user can't do.
+export type Permission =
+  | 'editRecords'
+  | 'deleteRecords'
+  | 'bulkDelete'
+  | 'manageColumns'
+  | 'runPaidEnrichment'
+  | 'runAIEnrichment'
+  | 'managePipeline'
+  | 'assignOwners'
+  | 'manageEnrichmentSettings'
+  | 'manageRoles';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: ['editRecords', 'deleteRecords', 'bulkDelete', 'manageColumns', 'runPaidEnrichment', 'runAIEnrichment', 'managePipeline', 'assignOwners', 'manageEnrichmentSettings', 'manageRoles'],
+  manager: ['editRecords', 'runAIEnrichment', 'managePipeline', 'assignOwners', 'manageEnrichmentSettings'],
+  rep: ['editRecords', 'runAIEnrichment'],
+  read_only: [],
+};
+
+export interface UserRole {
+  id: string;
+  email: string;
+  role: Role;
+}
+
+/**
+ * Check whether a role allows an action. Signed-out users (no role) can't do anything.
+ */
+export function roleCan(role: Role | null, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Get the signed-in user's role
+ */
+export async function fetchCurrentRole(): Promise<Role | null> {
+  const { data, error } = await supabase.rpc('current_user_role');
+
+  if (error) {
+    console.error('Error fetching role:', error);
+    throw new Error(`Failed to fetch role: ${error.message}`);
+  }
+
+  return (data as Role | null) || null;
+}
+
+/**
+ * Get a user's role, for server jobs acting for them. Needs a service role client. Users without a role are reps;
+ * jobs with no user behind them have no role.
+ */
+export async function fetchUserRole(userId: string | null, client: SupabaseClient): Promise<Role | null> {
+  if (!userId) return null;
+
+  const { data, error } = await client
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching user role:', error);
+    throw new Error(`Failed to fetch user role: ${error.message}`);
+  }
+
+  return (data?.role as Role | undefined) || 'rep';
+}
+
+/**
+ * Get every team member with their role
+ */
+export async function fetchUserRoles(): Promise<UserRole[]> {
+  const { data, error } = await supabase.rpc('list_user_roles');
+
+  if (error) {
+    console.error('Error fetching user roles:', error);
+    throw new Error(`Failed to fetch user roles: ${error.message}`);
+  }
+
+  return (data || []) as UserRole[];
+}
+
+/**
+ * Change a team member's role (admins only)
+ */
+export async function setUserRole(userId: string, role: Role): Promise<void> {
+  const { error } = await supabase.rpc('set_user_role', { in_user_id: userId, in_role: role });
+
+  if (error) {
+    console.error('Error setting user role:', error);
+    throw new Error(`Failed to set user role: ${error.message}`);
+  }
+}
+
+/**
+ * Get the signed-in user's access token, sent to the API routes so they can check the caller's role
+ */
+export async function getAccessToken(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ?? null;
+}
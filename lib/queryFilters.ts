@@ -0,0 +1,521 @@
+import { supabase } from '@/lib/supabase';
+import { getFilterRange, getFilterValues, hasFilterValue } from '@/lib/filterOperators';
+import type { Filter, FilterCombinator, FilterValueType, SortOption } from '@/types';
+
+export type EntityTableName = 'attendees' | 'health_systems' | 'conferences';
+
+// Filters as passed around by pages and the chat assistant (the UI id is optional)
+export type QueryFilter = Pick<Filter, 'property' | 'operator' | 'value' | 'valueTo' | 'values' | 'valueType'>;
+
+export interface QueryFilterGroup {
+  combinator: FilterCombinator;
+  conditions: QueryFilterNode[];
+}
+
+export type QueryFilterNode = QueryFilter | QueryFilterGroup;
+
+export interface FilteredQueryOptions {
+  filters?: QueryFilterNode[];
+  searchTerm?: string;
+  listId?: string | null;
+  sort?: SortOption | null;
+  count?: boolean;
+  head?: boolean;
+}
+
+// A filter property that points at a related table rather than a column
+interface RelationshipTarget {
+  path: string[];        // Embedded resources from the base table, outermost first
+  columns: string[];     // Columns on the last table in the path that the value is matched against
+  foreignKey?: string;   // Direct FK column on the base table (to-one relationships only)
+}
+
+// Columns searched by the search bar for each table
+const SEARCH_COLUMNS: Record<EntityTableName, string[]> = {
+  attendees: ['first_name', 'last_name', 'email', 'title', 'company'],
+  health_systems: ['name', 'city', 'state'],
+  conferences: ['name', 'location'],
+};
+
+// Virtual columns built by useColumnManagement from several real columns
+const VIRTUAL_COLUMNS: Record<EntityTableName, Record<string, string[]>> = {
+  attendees: { name: ['first_name', 'last_name'] },
+  health_systems: { location: ['city', 'state'] },
+  conferences: { date: ['start_date'] },
+};
+
+const HEALTH_SYSTEM_OF_ATTENDEE: RelationshipTarget = { path: ['health_systems'], columns: ['name'], foreignKey: 'health_system_id' };
+const CONFERENCES_OF_ATTENDEE: RelationshipTarget = { path: ['attendee_conferences', 'conferences'], columns: ['name'] };
+const ATTENDEES_OF_HEALTH_SYSTEM: RelationshipTarget = { path: ['attendees'], columns: ['first_name', 'last_name'] };
+const CONFERENCES_OF_HEALTH_SYSTEM: RelationshipTarget = { path: ['attendees', 'attendee_conferences', 'conferences'], columns: ['name'] };
+const ATTENDEES_OF_CONFERENCE: RelationshipTarget = { path: ['attendee_conferences', 'attendees'], columns: ['first_name', 'last_name'] };
+const HEALTH_SYSTEMS_OF_CONFERENCE: RelationshipTarget = { path: ['attendee_conferences', 'attendees', 'health_systems'], columns: ['name'] };
+
+// Relationship fields keyed by the column ids from useColumnManagement and the names used by the chat assistant
+const RELATIONSHIPS: Record<EntityTableName, Record<string, RelationshipTarget>> = {
+  attendees: {
+    health_system_id: HEALTH_SYSTEM_OF_ATTENDEE,
+    health_system: HEALTH_SYSTEM_OF_ATTENDEE,
+    health_systems: HEALTH_SYSTEM_OF_ATTENDEE,
+    attendee_conferences_conference_id: CONFERENCES_OF_ATTENDEE,
+    conferences: CONFERENCES_OF_ATTENDEE,
+  },
+  health_systems: {
+    reverse_attendees: ATTENDEES_OF_HEALTH_SYSTEM,
+    attendees: ATTENDEES_OF_HEALTH_SYSTEM,
+    conferences: CONFERENCES_OF_HEALTH_SYSTEM,
+  },
+  conferences: {
+    attendee_conferences_attendee_id: ATTENDEES_OF_CONFERENCE,
+    attendees: ATTENDEES_OF_CONFERENCE,
+    health_systems: HEALTH_SYSTEMS_OF_CONFERENCE,
+  },
+};
+
+// Default ordering when no sort is chosen
+const DEFAULT_SORT: Record<EntityTableName, SortOption> = {
+  attendees: { property: 'last_name', direction: 'asc' },
+  health_systems: { property: 'name', direction: 'asc' },
+  conferences: { property: 'start_date', direction: 'desc' },
+};
+
+// Alias used for the list membership join
+const LIST_ALIAS = 'filter_list';
+
+// Operators that match rows where no value matches the positive form of the condition
+const NEGATED_OPERATORS: Filter['operator'][] = ['not_equals', 'not_contains'];
+
+// Operators resolved to a from/to range by getFilterRange
+const RANGE_OPERATORS: Filter['operator'][] = ['between', 'before', 'after', 'in_last_days', 'in_next_days'];
+
+// Map the UI tab name to the database table
+export const getTableNameForTab = (tab: 'attendees' | 'health-systems' | 'conferences'): EntityTableName =>
+  tab === 'health-systems' ? 'health_systems' : tab;
+
+// Quote values for PostgREST or() strings when they contain reserved characters
+const quote = (value: string) => /[,()"]/.test(value) ? `"${value.replace(/"/g, '\\"')}"` : value;
+
+// Quote an element of a Postgres array literal, e.g. {"Board Certified, MD",RN}
+const quoteArrayElement = (value: string) => /[,{}"\s]/.test(value) ? `"${value.replace(/"/g, '\\"')}"` : value;
+
+// Join several conditions into one PostgREST logic-tree condition
+const joinConditions = (combinator: FilterCombinator, conditions: string[]) =>
+  conditions.length === 1 ? conditions[0] : `${combinator}(${conditions.join(',')})`;
+
+// Conditions for a column having no value; only text and array columns can hold an "empty" value besides null
+const emptyCondition = (column: string, valueType?: FilterValueType) => {
+  if (valueType === 'array') return `or(${column}.is.null,${column}.eq.{})`;
+  if (valueType && valueType !== 'text') return `${column}.is.null`;
+  return `or(${column}.is.null,${column}.eq."")`;
+};
+
+const notEmptyCondition = (column: string, valueType?: FilterValueType) => {
+  if (valueType === 'array') return `and(${column}.not.is.null,${column}.neq.{})`;
+  if (valueType && valueType !== 'text') return `${column}.not.is.null`;
+  return `and(${column}.not.is.null,${column}.neq."")`;
+};
+
+// Negated conditions also match rows without a value, which PostgREST's neq and not.ilike would drop
+const negatedCondition = (column: string, condition: string) => `or(${column}.is.null,${column}.${condition})`;
+
+// An equals value on an id column can hold several comma-separated ids (e.g. the selected records) matching any of
+// them. Other values are matched whole, since text can contain commas.
+const idValues = (column: string, value: string): string[] | null =>
+  (column === 'id' || column.endsWith('_id')) && value.includes(',')
+    ? value.split(',').map(v => v.trim()).filter(Boolean)
+    : null;
+
+// Build a single PostgREST condition (column.operator.value) for a positive operator.
+// Negated operators (not_equals, not_contains) build their positive form; callers negate it.
+const buildCondition = (column: string, filter: QueryFilter, caseInsensitiveEquals: boolean): string | null => {
+  const { operator, value } = filter;
+
+  switch (operator) {
+    case 'equals':
+    case 'not_equals':
+      return caseInsensitiveEquals ? `${column}.ilike.${quote(value)}` : `${column}.eq.${quote(value)}`;
+    case 'contains':
+    case 'not_contains':
+      return `${column}.ilike.${quote(`%${value}%`)}`;
+    case 'starts_with':
+      return `${column}.ilike.${quote(`${value}%`)}`;
+    case 'ends_with':
+      return `${column}.ilike.${quote(`%${value}`)}`;
+    case 'greater_than':
+      return `${column}.gt.${quote(value)}`;
+    case 'less_than':
+      return `${column}.lt.${quote(value)}`;
+    case 'in_list': {
+      const values = getFilterValues(filter);
+      if (values.length === 0) return null;
+      return caseInsensitiveEquals
+        ? joinConditions('or', values.map(v => `${column}.ilike.${quote(v)}`))
+        : `${column}.in.(${values.map(quote).join(',')})`;
+    }
+    case 'array_contains': {
+      const values = getFilterValues(filter);
+      return values.length > 0 ? `${column}.cs.{${values.map(quoteArrayElement).join(',')}}` : null;
+    }
+    case 'between':
+    case 'before':
+    case 'after':
+    case 'in_last_days':
+    case 'in_next_days': {
+      const range = getFilterRange(filter);
+      if (!range) return null;
+      const bounds: string[] = [];
+      if (range.from) bounds.push(`${column}.gte.${quote(range.from)}`);
+      if (range.to) bounds.push(`${column}.${range.toInclusive ? 'lte' : 'lt'}.${quote(range.to)}`);
+      return bounds.length > 0 ? joinConditions('and', bounds) : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// Build the select fragment for a relationship filter, e.g. filter_0:attendee_conferences!inner(conferences!inner(name))
+const buildEmbed = (alias: string, target: RelationshipTarget, innerJoin: boolean): string => {
+  const { path, columns } = target;
+  let fragment = `${path[path.length - 1]}!inner(${columns.join(',')})`;
+
+  for (let i = path.length - 2; i >= 0; i--) {
+    fragment = `${path[i]}!inner(${fragment})`;
+  }
+
+  // The outermost join decides whether parents without a match are dropped
+  const outer = innerJoin ? fragment : fragment.replace(/^([a-z_]+)!inner/, '$1');
+  return `${alias}:${outer}`;
+};
+
+// Apply a filter on plain (or virtual) columns of the base table
+const applyColumnFilter = (query: any, columns: string[], filter: QueryFilter) => {
+  const { operator, value, valueType } = filter;
+
+  switch (operator) {
+    case 'is_empty':
+      columns.forEach(column => {
+        query = query.or(emptyCondition(column, valueType));
+      });
+      return query;
+    case 'is_not_empty':
+      return query.or(columns.map(column => notEmptyCondition(column, valueType)).join(','));
+    case 'not_contains':
+      columns.forEach(column => {
+        query = query.or(negatedCondition(column, `not.ilike.${quote(`%${value}%`)}`));
+      });
+      return query;
+    case 'not_equals':
+      columns.forEach(column => {
+        query = query.or(negatedCondition(column, `neq.${quote(value)}`));
+      });
+      return query;
+    case 'array_contains':
+      return columns.length === 1 ? query.contains(columns[0], getFilterValues(filter)) : query;
+    case 'equals':
+      if (columns.length === 1) {
+        const values = idValues(columns[0], value);
+        if (values) {
+          return values.length > 0 ? query.in(columns[0], values) : query;
+        }
+        return query.eq(columns[0], value);
+      }
+      break;
+    case 'in_list':
+      if (columns.length === 1) {
+        return query.in(columns[0], getFilterValues(filter));
+      }
+      break;
+  }
+
+  // Ranges on a single column can be applied as plain bounds
+  if (RANGE_OPERATORS.includes(operator) && columns.length === 1) {
+    const range = getFilterRange(filter);
+    if (!range) return query;
+    if (range.from) query = query.gte(columns[0], range.from);
+    if (range.to) query = range.toInclusive ? query.lte(columns[0], range.to) : query.lt(columns[0], range.to);
+    return query;
+  }
+
+  const conditions = columns
+    .map(column => buildCondition(column, filter, false))
+    .filter(Boolean);
+
+  return conditions.length > 0 ? query.or(conditions.join(',')) : query;
+};
+
+// Apply a filter on a related table through its embedded alias
+const applyRelationshipFilter = (query: any, alias: string, target: RelationshipTarget, filter: QueryFilter) => {
+  const { operator } = filter;
+
+  if (operator === 'is_empty' || operator === 'is_not_empty') {
+    // To-one relationships can be checked on the FK column directly
+    if (target.foreignKey) {
+      return operator === 'is_empty'
+        ? query.is(target.foreignKey, null)
+        : query.not(target.foreignKey, 'is', null);
+    }
+    return operator === 'is_empty'
+      ? query.is(alias, null)
+      : query.not(alias, 'is', null);
+  }
+
+  if (!hasFilterValue(filter)) return query;
+
+  const referencedTable = [alias, ...target.path.slice(1)].join('.');
+  const conditions = target.columns
+    .map(column => buildCondition(column, filter, true))
+    .filter(Boolean);
+
+  if (conditions.length > 0) {
+    query = query.or(conditions.join(','), { referencedTable });
+  }
+
+  // Negated operators keep only parents where the matching embed came back empty (anti-join)
+  if (NEGATED_OPERATORS.includes(operator)) {
+    query = query.is(alias, null);
+  }
+
+  return query;
+};
+
+// Build a PostgREST logic-tree condition for a column filter, for use inside or()/and() groups
+const buildColumnCondition = (columns: string[], filter: QueryFilter): string | null => {
+  const { operator, value, valueType } = filter;
+
+  switch (operator) {
+    case 'is_empty':
+      return joinConditions('and', columns.map(column => emptyCondition(column, valueType)));
+    case 'is_not_empty':
+      return joinConditions('or', columns.map(column => notEmptyCondition(column, valueType)));
+    case 'not_contains':
+      return joinConditions('and', columns.map(column => negatedCondition(column, `not.ilike.${quote(`%${value}%`)}`)));
+    case 'not_equals':
+      return joinConditions('and', columns.map(column => negatedCondition(column, `neq.${quote(value)}`)));
+    case 'equals': {
+      const values = columns.length === 1 ? idValues(columns[0], value) : null;
+      if (values) {
+        return values.length > 0 ? `${columns[0]}.in.(${values.map(quote).join(',')})` : null;
+      }
+      break;
+    }
+  }
+
+  const conditions = columns
+    .map(column => buildCondition(column, filter, false))
+    .filter((condition): condition is string => !!condition);
+
+  return conditions.length > 0 ? joinConditions('or', conditions) : null;
+};
+
+// Resolve the columns to order by for a sort option
+const applySort = (query: any, tableName: EntityTableName, sort: SortOption | null | undefined) => {
+  const { property, direction } = sort || DEFAULT_SORT[tableName];
+  const ascending = direction === 'asc';
+
+  const relationship = RELATIONSHIPS[tableName][property];
+  if (relationship) {
+    // Parents can only be ordered by to-one relationships
+    if (relationship.foreignKey) {
+      return query.order(`${relationship.path[0]}(${relationship.columns[0]})`, { ascending, nullsFirst: false });
+    }
+    return applySort(query, tableName, null);
+  }
+
+  const columns = VIRTUAL_COLUMNS[tableName][property] || [property];
+  const orderColumns = tableName === 'attendees' && property === 'name' ? ['last_name', 'first_name'] : columns;
+
+  orderColumns.forEach(column => {
+    query = query.order(column, { ascending, nullsFirst: false });
+  });
+
+  // Tie-break on id so pagination is stable
+  return query.order('id', { ascending: true });
+};
+
+/**
+ * Check whether a table can be ordered by a property (to-many relationships can't order their parents)
+ */
+export function isSortableProperty(tableName: EntityTableName, property: string): boolean {
+  const relationship = RELATIONSHIPS[tableName][property];
+  return !relationship || !!relationship.foreignKey;
+}
+
+/**
+ * Build a Supabase query for a table with search, filters, list membership and sorting applied server-side.
+ * Top-level filters are ANDed; groups combine their conditions with AND or OR and can be nested.
+ * Relationship filters are joined under their own aliases so the embedded data the caller selects stays complete.
+ */
+export function buildFilteredQuery(tableName: EntityTableName, select: string, options: FilteredQueryOptions = {}) {
+  const { filters = [], searchTerm = '', listId = null, sort = null, count = false, head = false } = options;
+
+  const embeds: string[] = [];
+  const referencedFilters: Array<{ alias: string; target: RelationshipTarget; filter: QueryFilter }> = [];
+  const relationshipFilters: Array<{ alias: string; target: RelationshipTarget; filter: QueryFilter }> = [];
+  const columnFilters: QueryFilter[] = [];
+  const groupConditions: string[] = [];
+  let aliasCount = 0;
+
+  const isGroup = (node: QueryFilterNode): node is QueryFilterGroup =>
+    Array.isArray((node as QueryFilterGroup).conditions);
+
+  // Condition for a filter inside an OR group. Relationship filters become a left join
+  // whose embed is checked for null, since PostgREST can't OR across inner joins.
+  const toCondition = (node: QueryFilterNode): string | null => {
+    if (isGroup(node)) {
+      const conditions = node.conditions.map(toCondition).filter((condition): condition is string => !!condition);
+      if (conditions.length === 0) return null;
+      return conditions.length === 1 ? conditions[0] : `${node.combinator}(${conditions.join(',')})`;
+    }
+
+    if (!node || !node.property || !node.operator || !hasFilterValue(node)) return null;
+
+    const target = RELATIONSHIPS[tableName][node.property];
+    if (!target) {
+      return buildColumnCondition(VIRTUAL_COLUMNS[tableName][node.property] || [node.property], node);
+    }
+
+    if (target.foreignKey && (node.operator === 'is_empty' || node.operator === 'is_not_empty')) {
+      return `${target.foreignKey}.${node.operator === 'is_empty' ? 'is' : 'not.is'}.null`;
+    }
+
+    const alias = `filter_${aliasCount++}`;
+    const isEmptyCheck = node.operator.startsWith('is_');
+    embeds.push(buildEmbed(alias, { ...target, columns: isEmptyCheck ? ['id'] : target.columns }, false));
+    if (!isEmptyCheck) {
+      referencedFilters.push({ alias, target, filter: node });
+    }
+
+    const matchesWhenEmpty = NEGATED_OPERATORS.includes(node.operator) || node.operator === 'is_empty';
+    return `${alias}.${matchesWhenEmpty ? 'is' : 'not.is'}.null`;
+  };
+
+  // Top-level filters (and filters in AND groups) are applied directly to the query
+  const collect = (node: QueryFilterNode) => {
+    if (!node) return;
+
+    if (isGroup(node)) {
+      if (node.combinator === 'and') {
+        node.conditions.forEach(collect);
+      } else {
+        const condition = toCondition(node);
+        if (condition) groupConditions.push(condition);
+      }
+      return;
+    }
+
+    // Skip filters that don't have a value yet
+    if (!node.property || !node.operator || !hasFilterValue(node)) return;
+
+    const target = RELATIONSHIPS[tableName][node.property];
+    if (!target) {
+      columnFilters.push(node);
+      return;
+    }
+
+    // FK emptiness checks don't need a join (applyRelationshipFilter checks the FK column itself)
+    if (target.foreignKey && (node.operator === 'is_empty' || node.operator === 'is_not_empty')) {
+      relationshipFilters.push({ alias: '', target, filter: node });
+      return;
+    }
+
+    const alias = `filter_${aliasCount++}`;
+    const innerJoin = !NEGATED_OPERATORS.includes(node.operator) && node.operator !== 'is_empty';
+    embeds.push(buildEmbed(alias, { ...target, columns: node.operator.startsWith('is_') ? ['id'] : target.columns }, innerJoin));
+    relationshipFilters.push({ alias, target, filter: node });
+  };
+
+  filters.forEach(collect);
+
+  if (listId && tableName === 'attendees') {
+    embeds.push(`${LIST_ALIAS}:attendee_lists!inner(list_id)`);
+  }
+
+  const fullSelect = [select, ...embeds].join(',');
+  let query: any = supabase
+    .from(tableName)
+    .select(fullSelect, count ? { count: 'exact', head } : undefined);
+
+  if (searchTerm && searchTerm.trim() !== '') {
+    const term = searchTerm.trim();
+    query = query.or(SEARCH_COLUMNS[tableName].map(column => `${column}.ilike.${quote(`%${term}%`)}`).join(','));
+  }
+
+  columnFilters.forEach(filter => {
+    const columns = VIRTUAL_COLUMNS[tableName][filter.property] || [filter.property];
+    query = applyColumnFilter(query, columns, filter);
+  });
+
+  relationshipFilters.forEach(({ alias, target, filter }) => {
+    query = applyRelationshipFilter(query, alias, target, filter);
+  });
+
+  // Narrow the left-joined embeds used by OR groups to the rows that match
+  referencedFilters.forEach(({ alias, target, filter }) => {
+    const conditions = target.columns
+      .map(column => buildCondition(column, filter, true))
+      .filter(Boolean);
+    if (conditions.length > 0) {
+      query = query.or(conditions.join(','), { referencedTable: [alias, ...target.path.slice(1)].join('.') });
+    }
+  });
+
+  groupConditions.forEach(condition => {
+    query = query.or(condition);
+  });
+
+  if (listId && tableName === 'attendees') {
+    query = query.eq(`${LIST_ALIAS}.list_id`, listId);
+  }
+
+  if (!head) {
+    query = applySort(query, tableName, sort);
+  }
+
+  return query;
+}
+
+/**
+ * Get the distinct values of a column (flattening array columns), for the filter menu's multi-select.
+ * Relationship and virtual columns return an empty list since they don't map to a single column.
+ */
+export async function fetchDistinctValues(tableName: EntityTableName, property: string, limit = 1000): Promise<string[]> {
+  if (RELATIONSHIPS[tableName][property] || VIRTUAL_COLUMNS[tableName][property]) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from(tableName)
+    .select(property)
+    .not(property, 'is', null)
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching distinct values:', error);
+    throw new Error(`Failed to fetch values for ${property}: ${error.message}`);
+  }
+
+  const values = new Set<string>();
+  (data || []).forEach((row: any) => {
+    const value = row[property];
+    (Array.isArray(value) ? value : [value]).forEach(item => {
+      if (item !== null && item !== undefined && String(item).trim() !== '') {
+        values.add(String(item));
+      }
+    });
+  });
+
+  return Array.from(values).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/**
+ * Remove the alias columns added for relationship filters from returned rows
+ */
+export function stripFilterEmbeds<T>(rows: T[]): T[] {
+  return rows.map(row => {
+    const clean: any = { ...row };
+    Object.keys(clean).forEach(key => {
+      if (key.startsWith('filter_')) delete clean[key];
+    });
+    return clean as T;
+  });
+}
@@ -0,0 +1,171 @@
+import { supabase } from '@/lib/supabase';
+import type { FilterNode, SortOption } from '@/types';
+
+export type ViewEntityType = 'attendees' | 'health-systems' | 'conferences';
+
+// The part of a tab's state that a view captures
+export interface SavedViewState {
+  filters: FilterNode[];
+  sort: SortOption | null;
+  visibleColumns: string[];
+  searchTerm: string;
+}
+
+export interface SavedView extends SavedViewState {
+  id: string;
+  name: string;
+  entityType: ViewEntityType;
+  ownerId: string;
+  isShared: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Map a saved_views row to the shape the UI uses
+const toSavedView = (row: any): SavedView => ({
+  id: row.id,
+  name: row.name,
+  entityType: row.entity_type,
+  ownerId: row.owner_id,
+  isShared: row.is_shared,
+  filters: Array.isArray(row.filters) ? row.filters : [],
+  sort: row.sort || null,
+  visibleColumns: Array.isArray(row.visible_columns) ? row.visible_columns : [],
+  searchTerm: row.search_term || '',
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toRow = (state: Partial<SavedViewState>) => {
+  const row: Record<string, any> = {};
+  if (state.filters !== undefined) row.filters = state.filters;
+  if (state.sort !== undefined) row.sort = state.sort;
+  if (state.visibleColumns !== undefined) row.visible_columns = state.visibleColumns;
+  if (state.searchTerm !== undefined) row.search_term = state.searchTerm;
+  return row;
+};
+
+/**
+ * Get the views the current user can see for a tab (their own and shared ones)
+ */
+export async function fetchSavedViews(entityType: ViewEntityType): Promise<SavedView[]> {
+  const { data, error } = await supabase
+    .from('saved_views')
+    .select('*')
+    .eq('entity_type', entityType)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching saved views:', error);
+    throw new Error(`Failed to fetch saved views: ${error.message}`);
+  }
+
+  return (data || []).map(toSavedView);
+}
+
+/**
+ * Save the current tab state as a new named view
+ */
+export async function createSavedView(
+  entityType: ViewEntityType,
+  name: string,
+  state: SavedViewState,
+  isShared: boolean
+): Promise<SavedView> {
+  const { data, error } = await supabase
+    .from('saved_views')
+    .insert({
+      name: name.trim(),
+      entity_type: entityType,
+      is_shared: isShared,
+      ...toRow(state),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating saved view:', error);
+    throw new Error(`Failed to save view: ${error.message}`);
+  }
+
+  return toSavedView(data);
+}
+
+/**
+ * Update a view's name, visibility or captured state
+ */
+export async function updateSavedView(
+  viewId: string,
+  updates: Partial<SavedViewState> & { name?: string; isShared?: boolean }
+): Promise<SavedView> {
+  const row: Record<string, any> = { ...toRow(updates), updated_at: new Date().toISOString() };
+  if (updates.name !== undefined) row.name = updates.name.trim();
+  if (updates.isShared !== undefined) row.is_shared = updates.isShared;
+
+  const { data, error } = await supabase
+    .from('saved_views')
+    .update(row)
+    .eq('id', viewId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating saved view:', error);
+    throw new Error(`Failed to update view: ${error.message}`);
+  }
+
+  return toSavedView(data);
+}
+
+/**
+ * Delete a view (only its owner can)
+ */
+export async function deleteSavedView(viewId: string): Promise<void> {
+  const { error } = await supabase
+    .from('saved_views')
+    .delete()
+    .eq('id', viewId);
+
+  if (error) {
+    console.error('Error deleting saved view:', error);
+    throw new Error(`Failed to delete view: ${error.message}`);
+  }
+}
+
+/**
+ * Get the id of the current user's default view for a tab, if any
+ */
+export async function fetchDefaultViewId(entityType: ViewEntityType): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('user_default_views')
+    .select('view_id')
+    .eq('entity_type', entityType)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching default view:', error);
+    throw new Error(`Failed to fetch default view: ${error.message}`);
+  }
+
+  return data?.view_id || null;
+}
+
+/**
+ * Set (or clear, with null) the current user's default view for a tab
+ */
+export async function setDefaultView(entityType: ViewEntityType, userId: string, viewId: string | null): Promise<void> {
+  const { error } = viewId
+    ? await supabase
+        .from('user_default_views')
+        .upsert({ user_id: userId, entity_type: entityType, view_id: viewId }, { onConflict: 'user_id,entity_type' })
+    : await supabase
+        .from('user_default_views')
+        .delete()
+        .eq('user_id', userId)
+        .eq('entity_type', entityType);
+
+  if (error) {
+    console.error('Error setting default view:', error);
+    throw new Error(`Failed to set default view: ${error.message}`);
+  }
+}
@@ -0,0 +1,75 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DefinitiveService, DefinitiveApiError, DEFINITIVE_ERROR_MESSAGES } from '@/lib/definitive';
+import { ApolloService } from '@/lib/apollo';
+import { hasDefinitiveCredentials, requestDefinitive, recordDefinitiveUsage } from '@/lib/definitiveApi';
+import { hasApolloCredentials, requestApollo, recordApolloUsage } from '@/lib/apolloApi';
+import { toDefinitiveRequest, DefinitiveOperation } from '@/lib/definitiveProxy';
+import { toApolloRequest, ApolloOperation } from '@/lib/apolloProxy';
+import { isBudgetExhausted } from '@/lib/enrichmentUsage';
+import type { UpstreamErrorCode } from '@/lib/apiThrottle';
+
+// Server-side only: the Definitive and Apollo services for runs with no browser behind them, such as automation
+// rules. They call the APIs directly instead of through the proxy routes, with the same operations, budget checks and
+// usage log. Needs a service role client.
+
+// A failed Definitive call, with the message the browser would show for the same error
+const definitiveError = (code: UpstreamErrorCode, status: number) =>
+  new DefinitiveApiError(DEFINITIVE_ERROR_MESSAGES[code] || 'Definitive API request failed', code, status);
+
+/**
+ * The Definitive service calling the API from the server, logging usage for the given user
+ */
+export class ServerDefinitiveService extends DefinitiveService {
+  constructor(private supabaseClient: SupabaseClient, private userId: string | null) {
+    super();
+    this.catalogClient = supabaseClient;
+  }
+
+  protected async request(operation: DefinitiveOperation): Promise<{ data: any }> {
+    if (!hasDefinitiveCredentials()) {
+      throw definitiveError('not_configured', 500);
+    }
+    if (await isBudgetExhausted('definitive', this.supabaseClient)) {
+      throw definitiveError('budget_exceeded', 402);
+    }
+
+    const definitiveRequest = toDefinitiveRequest(operation);
+    const response = await requestDefinitive(definitiveRequest);
+
+    if (!response.ok) {
+      throw definitiveError(response.code || 'upstream_error', response.status);
+    }
+
+    await recordDefinitiveUsage(definitiveRequest.operation, response.data, this.userId);
+    return { data: response.data };
+  }
+}
+
+/**
+ * The Apollo service calling the API from the server, logging usage for the given user
+ */
+export class ServerApolloService extends ApolloService {
+  constructor(private supabaseClient: SupabaseClient, private userId: string | null) {
+    super();
+  }
+
+  protected async request(operation: ApolloOperation): Promise<{ data: any }> {
+    if (!hasApolloCredentials()) {
+      throw new Error('Apollo API key is not configured');
+    }
+
+    const apolloRequest = toApolloRequest(operation);
+    if (apolloRequest.permission === 'runPaidEnrichment' && await isBudgetExhausted('apollo', this.supabaseClient)) {
+      throw new Error('This month\'s Apollo budget is used up');
+    }
+
+    const response = await requestApollo(apolloRequest);
+
+    if (!response.ok) {
+      throw new Error(response.message || 'Apollo API request failed');
+    }
+
+    await recordApolloUsage(apolloRequest, response.data, this.userId);
+    return { data: response.data };
+  }
+}
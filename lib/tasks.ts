@@ -0,0 +1,260 @@
+import { supabase } from '@/lib/supabase';
+
+// Window event fired whenever tasks are created, completed or deleted, so counts elsewhere can refresh
+export const TASKS_CHANGED_EVENT = 'tasksChanged';
+
+export interface Task {
+  id: string;
+  title: string;
+  notes: string | null;
+  dueDate: string | null;
+  attendeeId: string | null;
+  attendeeName: string | null;
+  healthSystemId: string | null;
+  healthSystemName: string | null;
+  conferenceId: string | null;
+  conferenceName: string | null;
+  assignedTo: string | null;
+  assignedToEmail: string | null;
+  createdBy: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+// What a task is about; any combination of these can be set
+export interface TaskTarget {
+  attendeeId?: string | null;
+  healthSystemId?: string | null;
+  conferenceId?: string | null;
+}
+
+// A task to create; assignee defaults to the signed-in user
+export interface NewTask extends TaskTarget {
+  title: string;
+  notes?: string | null;
+  dueDate?: string | null;
+  assignedTo?: string | null;
+  assignedToEmail?: string | null;
+}
+
+export interface TeamMember {
+  id: string;
+  email: string;
+}
+
+export interface TaskGroups {
+  overdue: Task[];
+  today: Task[];
+  upcoming: Task[];
+  noDueDate: Task[];
+}
+
+export interface TaskCounts {
+  open: number;
+  overdue: number;
+}
+
+const TASK_SELECT = '*, attendees(first_name, last_name), health_systems(name), conferences(name)';
+
+// Map a tasks row (with its embedded attendee, health system and conference) to the shape the UI uses
+const toTask = (row: any): Task => ({
+  id: row.id,
+  title: row.title,
+  notes: row.notes,
+  dueDate: row.due_date,
+  attendeeId: row.attendee_id,
+  attendeeName: row.attendees ? `${row.attendees.first_name} ${row.attendees.last_name}` : null,
+  healthSystemId: row.health_system_id,
+  healthSystemName: row.health_systems?.name || null,
+  conferenceId: row.conference_id,
+  conferenceName: row.conferences?.name || null,
+  assignedTo: row.assigned_to,
+  assignedToEmail: row.assigned_to_email,
+  createdBy: row.created_by,
+  completedAt: row.completed_at,
+  createdAt: row.created_at,
+});
+
+const toRow = (task: NewTask) => ({
+  title: task.title.trim(),
+  notes: task.notes?.trim() || null,
+  due_date: task.dueDate || null,
+  attendee_id: task.attendeeId || null,
+  health_system_id: task.healthSystemId || null,
+  conference_id: task.conferenceId || null,
+  ...(task.assignedTo ? { assigned_to: task.assignedTo, assigned_to_email: task.assignedToEmail || null } : {}),
+});
+
+const notifyTasksChanged = () => {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(TASKS_CHANGED_EVENT));
+  }
+};
+
+/**
+ * Get today's date as YYYY-MM-DD in local time
+ */
+export function getTodayKey(today: Date = new Date()): string {
+  const month = String(today.getMonth() + 1).padStart(2, '0');
+  const day = String(today.getDate()).padStart(2, '0');
+  return `${today.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Split open tasks into overdue, due today, upcoming and undated groups, each sorted by due date
+ */
+export function groupTasksByDue(tasks: Task[], today: Date = new Date()): TaskGroups {
+  const todayKey = getTodayKey(today);
+  const sorted = [...tasks].sort((a, b) => (a.dueDate || '').localeCompare(b.dueDate || ''));
+
+  return {
+    overdue: sorted.filter(task => task.dueDate && task.dueDate < todayKey),
+    today: sorted.filter(task => task.dueDate === todayKey),
+    upcoming: sorted.filter(task => task.dueDate && task.dueDate > todayKey),
+    noDueDate: sorted.filter(task => !task.dueDate),
+  };
+}
+
+/**
+ * Get the tasks assigned to a user. Completed tasks are only included when asked for.
+ */
+export async function fetchAssignedTasks(userId: string, includeCompleted = false): Promise<Task[]> {
+  let query = supabase
+    .from('tasks')
+    .select(TASK_SELECT)
+    .eq('assigned_to', userId)
+    .order('due_date', { ascending: true, nullsFirst: false });
+
+  if (!includeCompleted) {
+    query = query.is('completed_at', null);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching tasks:', error);
+    throw new Error(`Failed to fetch tasks: ${error.message}`);
+  }
+
+  return (data || []).map(toTask);
+}
+
+/**
+ * Count a user's open and overdue tasks
+ */
+export async function fetchTaskCounts(userId: string): Promise<TaskCounts> {
+  const openQuery = supabase
+    .from('tasks')
+    .select('id', { count: 'exact', head: true })
+    .eq('assigned_to', userId)
+    .is('completed_at', null);
+
+  const overdueQuery = supabase
+    .from('tasks')
+    .select('id', { count: 'exact', head: true })
+    .eq('assigned_to', userId)
+    .is('completed_at', null)
+    .lt('due_date', getTodayKey());
+
+  const [openResult, overdueResult] = await Promise.all([openQuery, overdueQuery]);
+  const error = openResult.error || overdueResult.error;
+
+  if (error) {
+    console.error('Error counting tasks:', error);
+    throw new Error(`Failed to count tasks: ${error.message}`);
+  }
+
+  return { open: openResult.count || 0, overdue: overdueResult.count || 0 };
+}
+
+/**
+ * Get the tasks tied to an attendee, health system or conference, open ones first
+ */
+export async function fetchEntityTasks(target: TaskTarget): Promise<Task[]> {
+  let query = supabase
+    .from('tasks')
+    .select(TASK_SELECT)
+    .order('completed_at', { ascending: false, nullsFirst: true })
+    .order('due_date', { ascending: true, nullsFirst: false });
+
+  if (target.attendeeId) query = query.eq('attendee_id', target.attendeeId);
+  if (target.healthSystemId) query = query.eq('health_system_id', target.healthSystemId);
+  if (target.conferenceId) query = query.eq('conference_id', target.conferenceId);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching tasks:', error);
+    throw new Error(`Failed to fetch tasks: ${error.message}`);
+  }
+
+  return (data || []).map(toTask);
+}
+
+/**
+ * Create tasks in one go, e.g. a follow-up for every selected attendee
+ */
+export async function createTasks(tasks: NewTask[]): Promise<Task[]> {
+  if (tasks.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .insert(tasks.map(toRow))
+    .select(TASK_SELECT);
+
+  if (error) {
+    console.error('Error creating tasks:', error);
+    throw new Error(`Failed to create tasks: ${error.message}`);
+  }
+
+  notifyTasksChanged();
+  return (data || []).map(toTask);
+}
+
+/**
+ * Mark a task done, or open it again
+ */
+export async function setTaskCompleted(taskId: string, completed: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('tasks')
+    .update({ completed_at: completed ? new Date().toISOString() : null })
+    .eq('id', taskId);
+
+  if (error) {
+    console.error('Error updating task:', error);
+    throw new Error(`Failed to update task: ${error.message}`);
+  }
+
+  notifyTasksChanged();
+}
+
+/**
+ * Delete a task (only its creator can)
+ */
+export async function deleteTask(taskId: string): Promise<void> {
+  const { error } = await supabase
+    .from('tasks')
+    .delete()
+    .eq('id', taskId);
+
+  if (error) {
+    console.error('Error deleting task:', error);
+    throw new Error(`Failed to delete task: ${error.message}`);
+  }
+
+  notifyTasksChanged();
+}
+
+/**
+ * Get the team members tasks can be assigned to
+ */
+export async function fetchTeamMembers(): Promise<TeamMember[]> {
+  const { data, error } = await supabase.rpc('list_team_members');
+
+  if (error) {
+    console.error('Error fetching team members:', error);
+    throw new Error(`Failed to fetch team members: ${error.message}`);
+  }
+
+  return (data || []) as TeamMember[];
+}
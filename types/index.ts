@@ -24,6 +24,8 @@ export interface HealthSystem {
   net_patient_revenue?: number
   number_of_beds?: number
   number_of_hospitals_in_network?: number
+  owner_id?: string | null
+  owner_email?: string | null
   attendees?: Array<{
     id: string
     first_name: string
@@ -52,6 +54,14 @@ export interface AttendeeConference {
   attendee?: Attendee
 }
 
+export interface EmploymentHistoryEntry {
+  title: string
+  organization_name: string
+  start_date: string
+  end_date: string | null
+  current: boolean
+}
+
 export interface Attendee {
   id: string
   first_name: string
@@ -65,7 +75,53 @@ export interface Attendee {
   phone?: string
   linkedin_url?: string
   notes?: string
+  owner_id?: string | null
+  owner_email?: string | null
+  // True when the owner was picked for this attendee instead of inherited from its health system
+  owner_overridden?: boolean
+  apollo_contact_id?: string | null
+  apollo_person_id?: string | null
+  apollo_pushed_at?: string | null
+  apollo_synced_at?: string | null
+  // Employment history from the last Apollo enrichment, compared on the next one to spot job changes
+  employment_history?: EmploymentHistoryEntry[] | null
   created_at: string
   updated_at: string
   attendee_conferences?: AttendeeConference[]
-} 
\ No newline at end of file
+} 
+
+export type FilterOperator =
+  | 'equals' | 'not_equals' | 'contains' | 'not_contains' | 'starts_with' | 'ends_with'
+  | 'is_empty' | 'is_not_empty'
+  | 'greater_than' | 'less_than' | 'between'
+  | 'before' | 'after' | 'in_last_days' | 'in_next_days'
+  | 'in_list' | 'array_contains'
+
+// The kind of value a filtered column holds, derived from its database type
+export type FilterValueType = 'text' | 'number' | 'date' | 'datetime' | 'boolean' | 'array'
+
+export interface Filter {
+  id: string
+  property: string
+  operator: FilterOperator
+  value: string
+  valueTo?: string              // Upper bound for 'between'
+  values?: string[]             // Selected values for 'in_list' and 'array_contains'
+  valueType?: FilterValueType   // Set by the filter menu so values are compared as numbers/dates rather than text
+}
+
+export type FilterCombinator = 'and' | 'or'
+
+// A set of conditions joined by AND or OR; groups can be nested
+export interface FilterGroup {
+  id: string
+  combinator: FilterCombinator
+  conditions: FilterNode[]
+}
+
+export type FilterNode = Filter | FilterGroup
+
+export interface SortOption {
+  property: string
+  direction: 'asc' | 'desc'
+}